@@ -121,6 +121,22 @@ CREATE INDEX IF NOT EXISTS idx_team_invitations_team_id ON team_invitations(team
 CREATE INDEX IF NOT EXISTS idx_team_invitations_token ON team_invitations(token);
 CREATE INDEX IF NOT EXISTS idx_team_invitations_email ON team_invitations(email);
 
+-- Team Roles (admin, member and viewer are seeded for every team)
+CREATE TABLE IF NOT EXISTS team_roles (
+  id TEXT PRIMARY KEY,
+  team_id TEXT NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  role_key TEXT NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  capabilities JSONB NOT NULL DEFAULT '[]',
+  is_default BOOLEAN DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL,
+  UNIQUE(team_id, role_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_team_roles_team_id ON team_roles(team_id);
+
 -- Shared Connections (team-level)
 CREATE TABLE IF NOT EXISTS shared_connections (
   id TEXT PRIMARY KEY,
@@ -128,6 +144,7 @@ CREATE TABLE IF NOT EXISTS shared_connections (
   team_id TEXT NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
   shared_by TEXT NOT NULL REFERENCES users(id),
   permission TEXT NOT NULL DEFAULT 'read',
+  is_protected BOOLEAN DEFAULT FALSE,
   created_at TIMESTAMPTZ NOT NULL,
   UNIQUE(connection_id, team_id)
 );
@@ -145,6 +162,10 @@ CREATE TABLE IF NOT EXISTS saved_queries (
   description TEXT,
   sql TEXT NOT NULL,
   is_public BOOLEAN DEFAULT false,
+  parameters JSONB,
+  folder TEXT,
+  tags JSONB,
+  chart_config JSONB,
   created_at TIMESTAMPTZ NOT NULL,
   updated_at TIMESTAMPTZ NOT NULL
 );
@@ -189,6 +210,7 @@ CREATE TABLE IF NOT EXISTS data_change_logs (
   row_identifier JSONB,
   old_values JSONB,
   new_values JSONB,
+  change_set_id TEXT,
   user_id TEXT NOT NULL REFERENCES users(id),
   applied_at TIMESTAMPTZ NOT NULL
 );
@@ -197,6 +219,7 @@ CREATE INDEX IF NOT EXISTS idx_data_change_logs_connection_id ON data_change_log
 CREATE INDEX IF NOT EXISTS idx_data_change_logs_table_name ON data_change_logs(table_name);
 CREATE INDEX IF NOT EXISTS idx_data_change_logs_user_id ON data_change_logs(user_id);
 CREATE INDEX IF NOT EXISTS idx_data_change_logs_applied_at ON data_change_logs(applied_at);
+CREATE INDEX IF NOT EXISTS idx_data_change_logs_change_set_id ON data_change_logs(change_set_id);
 
 -- Granular Permissions System
 
@@ -220,6 +243,9 @@ CREATE TABLE IF NOT EXISTS profile_connection_permissions (
   can_view BOOLEAN DEFAULT true,
   can_edit BOOLEAN DEFAULT false,
   allowed_tables JSONB,
+  row_filters JSONB,
+  operations JSONB,
+  table_operations JSONB,
   created_at TIMESTAMPTZ NOT NULL,
   UNIQUE(profile_id, connection_id)
 );
@@ -233,6 +259,7 @@ CREATE TABLE IF NOT EXISTS profile_column_restrictions (
   profile_permission_id TEXT NOT NULL REFERENCES profile_connection_permissions(id) ON DELETE CASCADE,
   table_name TEXT NOT NULL,
   hidden_columns JSONB NOT NULL,
+  masked_columns JSONB,
   UNIQUE(profile_permission_id, table_name)
 );
 
@@ -245,6 +272,7 @@ CREATE TABLE IF NOT EXISTS member_permission_assignments (
   user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
   profile_id TEXT REFERENCES permission_profiles(id) ON DELETE SET NULL,
   custom_permissions JSONB,
+  attributes JSONB,
   created_at TIMESTAMPTZ NOT NULL,
   updated_at TIMESTAMPTZ NOT NULL,
   UNIQUE(team_id, user_id)
@@ -254,3 +282,200 @@ CREATE INDEX IF NOT EXISTS idx_member_permission_assignments_team_id ON member_p
 CREATE INDEX IF NOT EXISTS idx_member_permission_assignments_user_id ON member_permission_assignments(user_id);
 CREATE INDEX IF NOT EXISTS idx_member_permission_assignments_profile_id ON member_permission_assignments(profile_id);
 
+-- Editor Settings (formatter style and lint preferences per user)
+CREATE TABLE IF NOT EXISTS editor_settings (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+  keyword_case TEXT NOT NULL DEFAULT 'upper',
+  tab_width INTEGER DEFAULT 2,
+  use_tabs BOOLEAN DEFAULT FALSE,
+  comma_position TEXT NOT NULL DEFAULT 'trailing',
+  lint_enabled BOOLEAN DEFAULT TRUE,
+  created_at TIMESTAMPTZ NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_editor_settings_user_id ON editor_settings(user_id);
+
+-- Sync Templates (saved compare/sync jobs with optional cron schedules)
+CREATE TABLE IF NOT EXISTS sync_templates (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  team_id TEXT REFERENCES teams(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  source_connection_id TEXT NOT NULL REFERENCES connections(id) ON DELETE CASCADE,
+  target_connection_id TEXT NOT NULL REFERENCES connections(id) ON DELETE CASCADE,
+  table_name TEXT,
+  scope TEXT NOT NULL DEFAULT 'table',
+  include_structure BOOLEAN DEFAULT FALSE,
+  schedule TEXT,
+  schedule_enabled BOOLEAN DEFAULT FALSE,
+  next_run_at TIMESTAMPTZ,
+  last_run_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_templates_user_id ON sync_templates(user_id);
+CREATE INDEX IF NOT EXISTS idx_sync_templates_team_id ON sync_templates(team_id);
+CREATE INDEX IF NOT EXISTS idx_sync_templates_next_run_at ON sync_templates(next_run_at);
+
+CREATE TABLE IF NOT EXISTS sync_runs (
+  id TEXT PRIMARY KEY,
+  template_id TEXT NOT NULL REFERENCES sync_templates(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  triggered_by TEXT NOT NULL,
+  table_name TEXT NOT NULL,
+  success BOOLEAN DEFAULT FALSE,
+  result JSONB NOT NULL,
+  started_at TIMESTAMPTZ NOT NULL,
+  finished_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_runs_template_started ON sync_runs(template_id, started_at DESC);
+
+-- Query History (every query execution, for search and audit)
+CREATE TABLE IF NOT EXISTS query_history (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  team_id TEXT REFERENCES teams(id) ON DELETE CASCADE,
+  connection_id TEXT NOT NULL REFERENCES connections(id) ON DELETE CASCADE,
+  sql TEXT NOT NULL,
+  source TEXT NOT NULL DEFAULT 'execute',
+  success BOOLEAN DEFAULT TRUE,
+  error TEXT,
+  row_count INTEGER,
+  execution_time INTEGER NOT NULL DEFAULT 0,
+  executed_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_query_history_user_executed ON query_history(user_id, executed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_query_history_team_executed ON query_history(team_id, executed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_query_history_connection_id ON query_history(connection_id);
+
+-- Saved query revisions
+CREATE TABLE IF NOT EXISTS saved_query_revisions (
+  id TEXT PRIMARY KEY,
+  query_id TEXT NOT NULL REFERENCES saved_queries(id) ON DELETE CASCADE,
+  revision_number INTEGER NOT NULL,
+  user_id TEXT NOT NULL REFERENCES users(id),
+  name TEXT NOT NULL,
+  description TEXT,
+  sql TEXT NOT NULL,
+  parameters JSONB,
+  folder TEXT,
+  tags JSONB,
+  chart_config JSONB,
+  created_at TIMESTAMPTZ NOT NULL,
+  UNIQUE (query_id, revision_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_query_revisions_query_id ON saved_query_revisions(query_id);
+
+-- Dashboards
+CREATE TABLE IF NOT EXISTS dashboards (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id),
+  team_id TEXT REFERENCES teams(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  created_at TIMESTAMPTZ NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_dashboards_user_id ON dashboards(user_id);
+CREATE INDEX IF NOT EXISTS idx_dashboards_team_id ON dashboards(team_id);
+
+CREATE TABLE IF NOT EXISTS dashboard_widgets (
+  id TEXT PRIMARY KEY,
+  dashboard_id TEXT NOT NULL REFERENCES dashboards(id) ON DELETE CASCADE,
+  query_id TEXT NOT NULL REFERENCES saved_queries(id) ON DELETE CASCADE,
+  connection_id TEXT REFERENCES connections(id) ON DELETE SET NULL,
+  title TEXT NOT NULL,
+  chart_config JSONB NOT NULL,
+  parameter_values JSONB,
+  refresh_interval INTEGER,
+  width TEXT NOT NULL DEFAULT 'half',
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_dashboard_widgets_dashboard_id ON dashboard_widgets(dashboard_id);
+
+-- Scheduled queries
+CREATE TABLE IF NOT EXISTS query_schedules (
+  id TEXT PRIMARY KEY,
+  query_id TEXT NOT NULL REFERENCES saved_queries(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  team_id TEXT REFERENCES teams(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  cron TEXT NOT NULL,
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  enabled BOOLEAN DEFAULT TRUE,
+  connection_id TEXT REFERENCES connections(id) ON DELETE SET NULL,
+  parameter_values JSONB,
+  email_recipients JSONB,
+  email_format TEXT NOT NULL DEFAULT 'csv',
+  webhook_url TEXT,
+  alert_condition JSONB NOT NULL,
+  condition_met BOOLEAN DEFAULT FALSE,
+  next_run_at TIMESTAMPTZ,
+  last_run_at TIMESTAMPTZ,
+  last_status TEXT,
+  created_at TIMESTAMPTZ NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_query_schedules_query_id ON query_schedules(query_id);
+CREATE INDEX IF NOT EXISTS idx_query_schedules_next_run_at ON query_schedules(next_run_at);
+
+CREATE TABLE IF NOT EXISTS query_schedule_runs (
+  id TEXT PRIMARY KEY,
+  schedule_id TEXT NOT NULL REFERENCES query_schedules(id) ON DELETE CASCADE,
+  triggered_by TEXT NOT NULL,
+  status TEXT NOT NULL,
+  row_count INTEGER,
+  condition_met BOOLEAN DEFAULT FALSE,
+  deliveries JSONB,
+  error TEXT,
+  started_at TIMESTAMPTZ NOT NULL,
+  finished_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_query_schedule_runs_schedule_started ON query_schedule_runs(schedule_id, started_at DESC);
+
+-- Change requests: write queries on protected connections, held for approval
+CREATE TABLE IF NOT EXISTS change_requests (
+  id TEXT PRIMARY KEY,
+  team_id TEXT NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  connection_id TEXT NOT NULL REFERENCES connections(id) ON DELETE CASCADE,
+  requested_by TEXT NOT NULL REFERENCES users(id),
+  title TEXT NOT NULL,
+  description TEXT,
+  sql TEXT NOT NULL,
+  danger_level TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending',
+  preview JSONB,
+  reviewed_by TEXT REFERENCES users(id),
+  reviewed_at TIMESTAMPTZ,
+  review_note TEXT,
+  result JSONB,
+  executed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_change_requests_team_created ON change_requests(team_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_change_requests_status ON change_requests(status);
+
+CREATE TABLE IF NOT EXISTS change_request_comments (
+  id TEXT PRIMARY KEY,
+  change_request_id TEXT NOT NULL REFERENCES change_requests(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL REFERENCES users(id),
+  content TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_change_request_comments_request_id ON change_request_comments(change_request_id);
@@ -132,6 +132,23 @@ CREATE INDEX IF NOT EXISTS idx_team_invitations_team_id ON team_invitations(team
 CREATE INDEX IF NOT EXISTS idx_team_invitations_token ON team_invitations(token);
 CREATE INDEX IF NOT EXISTS idx_team_invitations_email ON team_invitations(email);
 
+-- Team Roles (admin, member and viewer are seeded for every team)
+CREATE TABLE IF NOT EXISTS team_roles (
+  id TEXT PRIMARY KEY,
+  team_id TEXT NOT NULL,
+  role_key TEXT NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  capabilities TEXT NOT NULL DEFAULT '[]',
+  is_default INTEGER DEFAULT 0,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE,
+  UNIQUE(team_id, role_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_team_roles_team_id ON team_roles(team_id);
+
 -- Shared Connections (team-level)
 CREATE TABLE IF NOT EXISTS shared_connections (
   id TEXT PRIMARY KEY,
@@ -139,6 +156,7 @@ CREATE TABLE IF NOT EXISTS shared_connections (
   team_id TEXT NOT NULL,
   shared_by TEXT NOT NULL,
   permission TEXT NOT NULL DEFAULT 'read',
+  is_protected INTEGER DEFAULT 0,
   created_at TEXT NOT NULL,
   FOREIGN KEY (connection_id) REFERENCES connections(id) ON DELETE CASCADE,
   FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE,
@@ -159,6 +177,10 @@ CREATE TABLE IF NOT EXISTS saved_queries (
   description TEXT,
   sql TEXT NOT NULL,
   is_public INTEGER DEFAULT 0,
+  parameters TEXT,
+  folder TEXT,
+  tags TEXT,
+  chart_config TEXT,
   created_at TEXT NOT NULL,
   updated_at TEXT NOT NULL,
   FOREIGN KEY (user_id) REFERENCES users(id),
@@ -210,6 +232,7 @@ CREATE TABLE IF NOT EXISTS data_change_logs (
   row_identifier TEXT,
   old_values TEXT,
   new_values TEXT,
+  change_set_id TEXT,
   user_id TEXT NOT NULL,
   applied_at TEXT NOT NULL,
   FOREIGN KEY (connection_id) REFERENCES connections(id) ON DELETE CASCADE,
@@ -220,6 +243,7 @@ CREATE INDEX IF NOT EXISTS idx_data_change_logs_connection_id ON data_change_log
 CREATE INDEX IF NOT EXISTS idx_data_change_logs_table_name ON data_change_logs(table_name);
 CREATE INDEX IF NOT EXISTS idx_data_change_logs_user_id ON data_change_logs(user_id);
 CREATE INDEX IF NOT EXISTS idx_data_change_logs_applied_at ON data_change_logs(applied_at);
+CREATE INDEX IF NOT EXISTS idx_data_change_logs_change_set_id ON data_change_logs(change_set_id);
 
 -- Granular Permissions System
 
@@ -244,6 +268,9 @@ CREATE TABLE IF NOT EXISTS profile_connection_permissions (
   can_view INTEGER DEFAULT 1,
   can_edit INTEGER DEFAULT 0,
   allowed_tables TEXT,
+  row_filters TEXT,
+  operations TEXT,
+  table_operations TEXT,
   created_at TEXT NOT NULL,
   FOREIGN KEY (profile_id) REFERENCES permission_profiles(id) ON DELETE CASCADE,
   FOREIGN KEY (connection_id) REFERENCES connections(id) ON DELETE CASCADE,
@@ -259,6 +286,7 @@ CREATE TABLE IF NOT EXISTS profile_column_restrictions (
   profile_permission_id TEXT NOT NULL,
   table_name TEXT NOT NULL,
   hidden_columns TEXT NOT NULL,
+  masked_columns TEXT,
   FOREIGN KEY (profile_permission_id) REFERENCES profile_connection_permissions(id) ON DELETE CASCADE,
   UNIQUE(profile_permission_id, table_name)
 );
@@ -272,6 +300,7 @@ CREATE TABLE IF NOT EXISTS member_permission_assignments (
   user_id TEXT NOT NULL,
   profile_id TEXT,
   custom_permissions TEXT,
+  attributes TEXT,
   created_at TEXT NOT NULL,
   updated_at TEXT NOT NULL,
   FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE,
@@ -298,3 +327,229 @@ CREATE TABLE IF NOT EXISTS password_reset_tokens (
 CREATE INDEX IF NOT EXISTS idx_password_reset_tokens_token ON password_reset_tokens(token);
 CREATE INDEX IF NOT EXISTS idx_password_reset_tokens_user_id ON password_reset_tokens(user_id);
 CREATE INDEX IF NOT EXISTS idx_password_reset_tokens_expires_at ON password_reset_tokens(expires_at);
+
+-- Editor Settings (formatter style and lint preferences per user)
+CREATE TABLE IF NOT EXISTS editor_settings (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL UNIQUE,
+  keyword_case TEXT NOT NULL DEFAULT 'upper',
+  tab_width INTEGER DEFAULT 2,
+  use_tabs INTEGER DEFAULT 0,
+  comma_position TEXT NOT NULL DEFAULT 'trailing',
+  lint_enabled INTEGER DEFAULT 1,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_editor_settings_user_id ON editor_settings(user_id);
+
+-- Sync Templates (saved compare/sync jobs with optional cron schedules)
+CREATE TABLE IF NOT EXISTS sync_templates (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  team_id TEXT,
+  name TEXT NOT NULL,
+  description TEXT,
+  source_connection_id TEXT NOT NULL,
+  target_connection_id TEXT NOT NULL,
+  table_name TEXT,
+  scope TEXT NOT NULL DEFAULT 'table',
+  include_structure INTEGER DEFAULT 0,
+  schedule TEXT,
+  schedule_enabled INTEGER DEFAULT 0,
+  next_run_at TEXT,
+  last_run_at TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE,
+  FOREIGN KEY (source_connection_id) REFERENCES connections(id) ON DELETE CASCADE,
+  FOREIGN KEY (target_connection_id) REFERENCES connections(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_templates_user_id ON sync_templates(user_id);
+CREATE INDEX IF NOT EXISTS idx_sync_templates_team_id ON sync_templates(team_id);
+CREATE INDEX IF NOT EXISTS idx_sync_templates_next_run_at ON sync_templates(next_run_at);
+
+CREATE TABLE IF NOT EXISTS sync_runs (
+  id TEXT PRIMARY KEY,
+  template_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  triggered_by TEXT NOT NULL,
+  table_name TEXT NOT NULL,
+  success INTEGER DEFAULT 0,
+  result TEXT NOT NULL,
+  started_at TEXT NOT NULL,
+  finished_at TEXT NOT NULL,
+  FOREIGN KEY (template_id) REFERENCES sync_templates(id) ON DELETE CASCADE,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_runs_template_started ON sync_runs(template_id, started_at DESC);
+
+-- Query History (every query execution, for search and audit)
+CREATE TABLE IF NOT EXISTS query_history (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  team_id TEXT,
+  connection_id TEXT NOT NULL,
+  sql TEXT NOT NULL,
+  source TEXT NOT NULL DEFAULT 'execute',
+  success INTEGER DEFAULT 1,
+  error TEXT,
+  row_count INTEGER,
+  execution_time INTEGER NOT NULL DEFAULT 0,
+  executed_at TEXT NOT NULL,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE,
+  FOREIGN KEY (connection_id) REFERENCES connections(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_query_history_user_executed ON query_history(user_id, executed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_query_history_team_executed ON query_history(team_id, executed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_query_history_connection_id ON query_history(connection_id);
+
+-- Saved query revisions
+CREATE TABLE IF NOT EXISTS saved_query_revisions (
+  id TEXT PRIMARY KEY,
+  query_id TEXT NOT NULL,
+  revision_number INTEGER NOT NULL,
+  user_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  sql TEXT NOT NULL,
+  parameters TEXT,
+  folder TEXT,
+  tags TEXT,
+  chart_config TEXT,
+  created_at TEXT NOT NULL,
+  FOREIGN KEY (query_id) REFERENCES saved_queries(id) ON DELETE CASCADE,
+  FOREIGN KEY (user_id) REFERENCES users(id),
+  UNIQUE (query_id, revision_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_query_revisions_query_id ON saved_query_revisions(query_id);
+
+-- Dashboards
+CREATE TABLE IF NOT EXISTS dashboards (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  team_id TEXT,
+  name TEXT NOT NULL,
+  description TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (user_id) REFERENCES users(id),
+  FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_dashboards_user_id ON dashboards(user_id);
+CREATE INDEX IF NOT EXISTS idx_dashboards_team_id ON dashboards(team_id);
+
+CREATE TABLE IF NOT EXISTS dashboard_widgets (
+  id TEXT PRIMARY KEY,
+  dashboard_id TEXT NOT NULL,
+  query_id TEXT NOT NULL,
+  connection_id TEXT,
+  title TEXT NOT NULL,
+  chart_config TEXT NOT NULL,
+  parameter_values TEXT,
+  refresh_interval INTEGER,
+  width TEXT NOT NULL DEFAULT 'half',
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (dashboard_id) REFERENCES dashboards(id) ON DELETE CASCADE,
+  FOREIGN KEY (query_id) REFERENCES saved_queries(id) ON DELETE CASCADE,
+  FOREIGN KEY (connection_id) REFERENCES connections(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_dashboard_widgets_dashboard_id ON dashboard_widgets(dashboard_id);
+
+-- Scheduled queries
+CREATE TABLE IF NOT EXISTS query_schedules (
+  id TEXT PRIMARY KEY,
+  query_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  team_id TEXT,
+  name TEXT NOT NULL,
+  cron TEXT NOT NULL,
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  enabled INTEGER DEFAULT 1,
+  connection_id TEXT,
+  parameter_values TEXT,
+  email_recipients TEXT,
+  email_format TEXT NOT NULL DEFAULT 'csv',
+  webhook_url TEXT,
+  alert_condition TEXT NOT NULL,
+  condition_met INTEGER DEFAULT 0,
+  next_run_at TEXT,
+  last_run_at TEXT,
+  last_status TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (query_id) REFERENCES saved_queries(id) ON DELETE CASCADE,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE,
+  FOREIGN KEY (connection_id) REFERENCES connections(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_query_schedules_query_id ON query_schedules(query_id);
+CREATE INDEX IF NOT EXISTS idx_query_schedules_next_run_at ON query_schedules(next_run_at);
+
+CREATE TABLE IF NOT EXISTS query_schedule_runs (
+  id TEXT PRIMARY KEY,
+  schedule_id TEXT NOT NULL,
+  triggered_by TEXT NOT NULL,
+  status TEXT NOT NULL,
+  row_count INTEGER,
+  condition_met INTEGER DEFAULT 0,
+  deliveries TEXT,
+  error TEXT,
+  started_at TEXT NOT NULL,
+  finished_at TEXT NOT NULL,
+  FOREIGN KEY (schedule_id) REFERENCES query_schedules(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_query_schedule_runs_schedule_started ON query_schedule_runs(schedule_id, started_at DESC);
+
+-- Change requests: write queries on protected connections, held for approval
+CREATE TABLE IF NOT EXISTS change_requests (
+  id TEXT PRIMARY KEY,
+  team_id TEXT NOT NULL,
+  connection_id TEXT NOT NULL,
+  requested_by TEXT NOT NULL,
+  title TEXT NOT NULL,
+  description TEXT,
+  sql TEXT NOT NULL,
+  danger_level TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending',
+  preview TEXT,
+  reviewed_by TEXT,
+  reviewed_at TEXT,
+  review_note TEXT,
+  result TEXT,
+  executed_at TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE,
+  FOREIGN KEY (connection_id) REFERENCES connections(id) ON DELETE CASCADE,
+  FOREIGN KEY (requested_by) REFERENCES users(id),
+  FOREIGN KEY (reviewed_by) REFERENCES users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_change_requests_team_created ON change_requests(team_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_change_requests_status ON change_requests(status);
+
+CREATE TABLE IF NOT EXISTS change_request_comments (
+  id TEXT PRIMARY KEY,
+  change_request_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  content TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  FOREIGN KEY (change_request_id) REFERENCES change_requests(id) ON DELETE CASCADE,
+  FOREIGN KEY (user_id) REFERENCES users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_change_request_comments_request_id ON change_request_comments(change_request_id);
@@ -19,6 +19,7 @@ import { SchemaTree, TableStructure, TablesSummary } from '@/components/schema';
 import { useConnections, useWorkspaceContext } from '@/hooks';
 import { usePendingChangesStore } from '@/lib/store/pending-changes-store';
 import type { TableInfo, ColumnDefinition, IndexInfo, QueryResult } from '@/types';
+import type { PermissionOperation } from '@/lib/validations/team';
 
 function BrowsePageContent() {
   const searchParams = useSearchParams();
@@ -34,6 +35,7 @@ function BrowsePageContent() {
   const [showTablesOverview, setShowTablesOverview] = React.useState(false);
   const [columns, setColumns] = React.useState<ColumnDefinition[]>([]);
   const [indexes, setIndexes] = React.useState<IndexInfo[]>([]);
+  const [operations, setOperations] = React.useState<PermissionOperation[] | null>(null);
   const [structureLoading, setStructureLoading] = React.useState(false);
   const [preview, setPreview] = React.useState<QueryResult | null>(null);
   const [previewLoading, setPreviewLoading] = React.useState(false);
@@ -148,6 +150,7 @@ function BrowsePageContent() {
       const data = await response.json();
       setColumns(data.columns);
       setIndexes(data.indexes);
+      setOperations(data.operations ?? null);
     } catch (error) {
       toast.error('Failed to load table structure');
       console.error(error);
@@ -189,6 +192,7 @@ function BrowsePageContent() {
         setTables([]);
         setColumns([]);
         setIndexes([]);
+        setOperations(null);
         setPreview(null);
       }
     } else if (selectedConnectionId && !connectionsLoading && connections.length === 0) {
@@ -198,6 +202,7 @@ function BrowsePageContent() {
       setTables([]);
       setColumns([]);
       setIndexes([]);
+      setOperations(null);
       setPreview(null);
     }
   }, [connections, selectedConnectionId, connectionsLoading]);
@@ -208,6 +213,7 @@ function BrowsePageContent() {
       setSelectedTable(null);
       setColumns([]);
       setIndexes([]);
+      setOperations(null);
       setPreview(null);
     }
   }, [selectedConnectionId, fetchTables]);
@@ -389,6 +395,7 @@ function BrowsePageContent() {
                 tableName={selectedTable}
                 columns={columns}
                 indexes={indexes}
+                operations={operations}
                 preview={preview}
                 loading={structureLoading}
                 previewLoading={previewLoading}
@@ -0,0 +1,130 @@
+'use client';
+
+import * as React from 'react';
+import { useSearchParams } from 'next/navigation';
+import { Filter, GitPullRequest, Loader2, Users } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ChangeRequestCard, type ChangeRequestItem } from '@/components/change-requests';
+import { useWorkspaceContext } from '@/hooks';
+
+const ALL = 'all';
+
+function ChangeRequestsPageContent() {
+  const searchParams = useSearchParams();
+  const { teamId, teamName, isTeamWorkspace } = useWorkspaceContext();
+  const [changeRequests, setChangeRequests] = React.useState<ChangeRequestItem[]>([]);
+  const [loading, setLoading] = React.useState(true);
+  // Activity links open a specific request, whatever its status
+  const linkedId = searchParams.get('request');
+  const [status, setStatus] = React.useState<string>(linkedId ? ALL : 'pending');
+  const [expandedId, setExpandedId] = React.useState<string | null>(linkedId);
+
+  const fetchChangeRequests = React.useCallback(async () => {
+    if (!teamId) {
+      setChangeRequests([]);
+      setLoading(false);
+      return;
+    }
+    try {
+      const params = status === ALL ? '' : `?status=${status}`;
+      const response = await fetch(`/api/teams/${teamId}/change-requests${params}`);
+      if (response.ok) {
+        setChangeRequests(await response.json());
+      }
+    } catch (error) {
+      console.error('Failed to fetch change requests:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [teamId, status]);
+
+  React.useEffect(() => {
+    setLoading(true);
+    fetchChangeRequests();
+  }, [fetchChangeRequests]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Change Requests</h1>
+          <p className="text-muted-foreground">
+            {isTeamWorkspace
+              ? `Changes to protected connections in ${teamName ?? 'your team'}, waiting for or past review.`
+              : 'Changes to protected team connections, waiting for or past review.'}
+          </p>
+        </div>
+        {isTeamWorkspace && (
+          <Select value={status} onValueChange={setStatus}>
+            <SelectTrigger className="w-[180px]">
+              <Filter className="h-4 w-4 mr-2" />
+              <SelectValue placeholder="Status" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="pending">Pending review</SelectItem>
+              <SelectItem value="approved">Approved</SelectItem>
+              <SelectItem value="executed">Executed</SelectItem>
+              <SelectItem value="failed">Failed</SelectItem>
+              <SelectItem value="rejected">Rejected</SelectItem>
+              <SelectItem value="cancelled">Cancelled</SelectItem>
+              <SelectItem value={ALL}>All requests</SelectItem>
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      {!isTeamWorkspace ? (
+        <div className="flex flex-col items-center justify-center py-16 text-center">
+          <Users className="h-12 w-12 text-muted-foreground mb-4" />
+          <h3 className="text-lg font-medium">Change requests belong to teams</h3>
+          <p className="text-muted-foreground text-sm mt-1">
+            Switch to a team workspace to see its change requests.
+          </p>
+        </div>
+      ) : loading ? (
+        <div className="flex items-center justify-center h-64">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : changeRequests.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-16 text-center">
+          <GitPullRequest className="h-12 w-12 text-muted-foreground mb-4" />
+          <h3 className="text-lg font-medium">No change requests</h3>
+          <p className="text-muted-foreground text-sm mt-1">
+            Write queries on protected connections show up here for another admin to approve.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {changeRequests.map((changeRequest) => (
+            <ChangeRequestCard
+              key={changeRequest.id}
+              teamId={teamId!}
+              changeRequest={changeRequest}
+              expanded={expandedId === changeRequest.id}
+              onToggle={() => setExpandedId(expandedId === changeRequest.id ? null : changeRequest.id)}
+              onUpdated={fetchChangeRequests}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function ChangeRequestsPage() {
+  return (
+    <React.Suspense fallback={
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    }>
+      <ChangeRequestsPageContent />
+    </React.Suspense>
+  );
+}
@@ -9,11 +9,13 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { ConnectionForm, ConnectionCard, DeleteConnectionDialog } from '@/components/connections';
 import { useWorkspaceContext } from '@/hooks';
+import { useWorkspaceStore } from '@/lib/store/workspace-store';
 import type { ConnectionFormData } from '@/lib/validations/connection';
 import type { DatabaseConnection } from '@/types';
 
 type SafeConnection = Omit<DatabaseConnection, 'password'> & {
   permission?: string;
+  isProtected?: boolean;
   isShared?: boolean;
   sharedBy?: string;
   userId?: string;
@@ -22,6 +24,8 @@ type SafeConnection = Omit<DatabaseConnection, 'password'> & {
 export default function ConnectionsPage() {
   const router = useRouter();
   const { teamId, isTeamWorkspace } = useWorkspaceContext();
+  const teamCapabilities = useWorkspaceStore((state) => state.activeTeam?.capabilities);
+  const canManageTeam = teamCapabilities?.includes('manage_team') ?? false;
   const [connections, setConnections] = React.useState<SafeConnection[]>([]);
   const [loading, setLoading] = React.useState(true);
   const [formOpen, setFormOpen] = React.useState(false);
@@ -60,10 +64,12 @@ export default function ConnectionsPage() {
           const transformedConnections = data.map((sc: { 
             connection?: SafeConnection; 
             permission?: string;
+            isProtected?: boolean;
             sharedBy?: string;
           }) => ({
             ...sc.connection,
             permission: sc.permission,
+            isProtected: sc.isProtected,
             isShared: true,
             sharedBy: sc.sharedBy,
           })).filter((c: SafeConnection | undefined) => c);
@@ -164,6 +170,28 @@ export default function ConnectionsPage() {
     fetchConnections();
   };
 
+  const handleToggleProtected = async (connection: SafeConnection) => {
+    const isProtected = !connection.isProtected;
+    const response = await fetch(`/api/teams/${teamId}/connections`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ connectionId: connection.id, isProtected }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      toast.error(error.error || 'Failed to update connection');
+      return;
+    }
+
+    toast.success(
+      isProtected
+        ? `Changes to ${connection.name} now need another admin's approval`
+        : `Changes to ${connection.name} no longer need approval`
+    );
+    fetchConnections();
+  };
+
   const handleConnect = (connection: SafeConnection) => {
     const params = new URLSearchParams({ connection: connection.id });
     if (teamId) params.set('teamId', teamId);
@@ -255,6 +283,8 @@ export default function ConnectionsPage() {
                   isShared={true}
                   isOwner={isOwner}
                   permission={connection.permission}
+                  isProtected={connection.isProtected}
+                  onToggleProtected={canManageTeam ? () => handleToggleProtected(connection) : undefined}
                 />
               );
             })}
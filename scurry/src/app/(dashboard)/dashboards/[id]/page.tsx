@@ -0,0 +1,316 @@
+'use client';
+
+import * as React from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { LayoutDashboard, Loader2, Plus, RefreshCw, Share2, Trash2, Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { DashboardWidget, WidgetDialog, type DashboardWidgetData } from '@/components/dashboards';
+import { toast } from 'sonner';
+
+interface DashboardDetail {
+  id: string;
+  name: string;
+  description: string | null;
+  teamId: string | null;
+  widgets: DashboardWidgetData[];
+  canEdit: boolean;
+  team?: {
+    name: string;
+  };
+}
+
+interface Team {
+  id: string;
+  name: string;
+  role: string;
+}
+
+type PendingDelete = { kind: 'dashboard' } | { kind: 'widget'; widget: DashboardWidgetData };
+
+export default function DashboardDetailPage() {
+  const params = useParams<{ id: string }>();
+  const router = useRouter();
+  const [dashboard, setDashboard] = React.useState<DashboardDetail | null>(null);
+  const [teams, setTeams] = React.useState<Team[]>([]);
+  const [loading, setLoading] = React.useState(true);
+  const [refreshToken, setRefreshToken] = React.useState(0);
+  const [widgetDialog, setWidgetDialog] = React.useState<{ widget: DashboardWidgetData | null; columns: string[] } | null>(null);
+  const [pendingDelete, setPendingDelete] = React.useState<PendingDelete | null>(null);
+
+  const fetchDashboard = React.useCallback(async () => {
+    try {
+      const response = await fetch(`/api/dashboards/${params.id}`);
+      if (response.ok) {
+        setDashboard(await response.json());
+      } else {
+        setDashboard(null);
+      }
+    } catch (error) {
+      console.error('Failed to fetch dashboard:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [params.id]);
+
+  React.useEffect(() => {
+    fetchDashboard();
+  }, [fetchDashboard]);
+
+  React.useEffect(() => {
+    if (!dashboard?.canEdit) return;
+    fetch('/api/teams')
+      .then((response) => (response.ok ? response.json() : []))
+      // Viewers cannot share dashboards with their team
+      .then((data: Team[]) => setTeams(data.filter((team) => team.role !== 'viewer')))
+      .catch(() => setTeams([]));
+  }, [dashboard?.canEdit]);
+
+  const handleShare = async (teamId: string | null) => {
+    try {
+      const response = await fetch(`/api/dashboards/${params.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ teamId }),
+      });
+      if (response.ok) {
+        toast.success(teamId ? 'Dashboard shared with the team' : 'Dashboard is now personal');
+        fetchDashboard();
+      } else {
+        const error = await response.json();
+        toast.error(error.error || 'Failed to share dashboard');
+      }
+    } catch {
+      toast.error('Failed to share dashboard');
+    }
+  };
+
+  const handleMove = async (widget: DashboardWidgetData, direction: -1 | 1) => {
+    if (!dashboard) return;
+    const index = dashboard.widgets.findIndex((w) => w.id === widget.id);
+    const neighbour = dashboard.widgets[index + direction];
+    if (!neighbour) return;
+
+    // Swap by list index so widgets with equal positions still move
+    try {
+      await Promise.all([
+        fetch(`/api/dashboards/${params.id}/widgets/${widget.id}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ position: index + direction }),
+        }),
+        fetch(`/api/dashboards/${params.id}/widgets/${neighbour.id}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ position: index }),
+        }),
+      ]);
+      fetchDashboard();
+    } catch {
+      toast.error('Failed to move widget');
+    }
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!pendingDelete) return;
+    const url = pendingDelete.kind === 'dashboard'
+      ? `/api/dashboards/${params.id}`
+      : `/api/dashboards/${params.id}/widgets/${pendingDelete.widget.id}`;
+
+    try {
+      const response = await fetch(url, { method: 'DELETE' });
+      if (!response.ok) {
+        const error = await response.json();
+        toast.error(error.error || 'Failed to delete');
+        return;
+      }
+      if (pendingDelete.kind === 'dashboard') {
+        toast.success('Dashboard deleted');
+        router.push('/dashboards');
+      } else {
+        toast.success('Widget removed');
+        fetchDashboard();
+      }
+    } catch {
+      toast.error('Failed to delete');
+    } finally {
+      setPendingDelete(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!dashboard) {
+    return (
+      <div className="flex flex-col items-center justify-center py-16 text-center">
+        <LayoutDashboard className="h-12 w-12 text-muted-foreground mb-4" />
+        <h3 className="text-lg font-medium">Dashboard not found</h3>
+        <p className="text-muted-foreground text-sm mt-1">It may have been deleted, or you are not in its team.</p>
+        <Button className="mt-4" onClick={() => router.push('/dashboards')}>
+          Back to Dashboards
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-start justify-between gap-4">
+        <div className="min-w-0">
+          <div className="flex items-center gap-2">
+            <h1 className="text-3xl font-bold tracking-tight truncate">{dashboard.name}</h1>
+            {dashboard.team && (
+              <Badge variant="secondary">
+                <Users className="h-3 w-3 mr-1" />
+                {dashboard.team.name}
+              </Badge>
+            )}
+          </div>
+          {dashboard.description && <p className="text-muted-foreground">{dashboard.description}</p>}
+        </div>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          <Button
+            variant="outline"
+            onClick={() => setRefreshToken((token) => token + 1)}
+            disabled={dashboard.widgets.length === 0}
+          >
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Refresh All
+          </Button>
+          {dashboard.canEdit && (
+            <>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline">
+                    <Share2 className="h-4 w-4 mr-2" />
+                    Share
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuLabel>Share with team</DropdownMenuLabel>
+                  {teams.length === 0 && (
+                    <DropdownMenuItem disabled>No teams you can share with</DropdownMenuItem>
+                  )}
+                  {teams.map((team) => (
+                    <DropdownMenuItem
+                      key={team.id}
+                      disabled={team.id === dashboard.teamId}
+                      onClick={() => handleShare(team.id)}
+                    >
+                      {team.name}
+                    </DropdownMenuItem>
+                  ))}
+                  {dashboard.teamId && (
+                    <>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuItem onClick={() => handleShare(null)}>Stop sharing</DropdownMenuItem>
+                    </>
+                  )}
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <Button onClick={() => setWidgetDialog({ widget: null, columns: [] })}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Widget
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setPendingDelete({ kind: 'dashboard' })}
+                title="Delete dashboard"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {dashboard.widgets.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-16 text-center">
+          <LayoutDashboard className="h-12 w-12 text-muted-foreground mb-4" />
+          <h3 className="text-lg font-medium">No widgets yet</h3>
+          <p className="text-muted-foreground text-sm mt-1">
+            {dashboard.canEdit
+              ? 'Add a widget to pin a saved query as a table, number or chart.'
+              : 'The dashboard owner has not added any widgets.'}
+          </p>
+        </div>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2">
+          {dashboard.widgets.map((widget, index) => (
+            <DashboardWidget
+              // Remount after an edit so the widget re-runs with its new settings
+              key={`${widget.id}:${widget.updatedAt}`}
+              widget={widget}
+              canEdit={dashboard.canEdit}
+              refreshToken={refreshToken}
+              isFirst={index === 0}
+              isLast={index === dashboard.widgets.length - 1}
+              onEdit={(w, columns) => setWidgetDialog({ widget: w, columns })}
+              onDelete={(w) => setPendingDelete({ kind: 'widget', widget: w })}
+              onMove={handleMove}
+            />
+          ))}
+        </div>
+      )}
+
+      {widgetDialog && (
+        <WidgetDialog
+          key={widgetDialog.widget?.id ?? 'new'}
+          dashboardId={dashboard.id}
+          teamId={dashboard.teamId}
+          widget={widgetDialog.widget}
+          columns={widgetDialog.columns}
+          open
+          onOpenChange={(open) => !open && setWidgetDialog(null)}
+          onSaved={fetchDashboard}
+        />
+      )}
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingDelete?.kind === 'dashboard' ? 'Delete dashboard?' : 'Remove widget?'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingDelete?.kind === 'dashboard'
+                ? `"${dashboard.name}" and all of its widgets will be deleted. Saved queries are not affected.`
+                : `"${pendingDelete?.kind === 'widget' ? pendingDelete.widget.title : ''}" will be removed from this dashboard.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmDelete}>
+              {pendingDelete?.kind === 'dashboard' ? 'Delete' : 'Remove'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
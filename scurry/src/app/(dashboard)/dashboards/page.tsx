@@ -0,0 +1,119 @@
+'use client';
+
+import * as React from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { LayoutDashboard, Loader2, Plus, Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { CreateDashboardDialog } from '@/components/dashboards';
+import { useWorkspaceContext } from '@/hooks';
+
+interface DashboardSummary {
+  id: string;
+  name: string;
+  description: string | null;
+  teamId: string | null;
+  updatedAt: string;
+  user?: {
+    email: string;
+    name: string | null;
+  };
+  team?: {
+    name: string;
+  };
+}
+
+export default function DashboardsPage() {
+  const router = useRouter();
+  const { teamId, teamName, isTeamWorkspace } = useWorkspaceContext();
+  const [dashboards, setDashboards] = React.useState<DashboardSummary[]>([]);
+  const [loading, setLoading] = React.useState(true);
+  const [createOpen, setCreateOpen] = React.useState(false);
+
+  React.useEffect(() => {
+    const fetchDashboards = async () => {
+      setLoading(true);
+      try {
+        const response = await fetch(teamId ? `/api/dashboards?teamId=${teamId}` : '/api/dashboards');
+        if (response.ok) {
+          setDashboards(await response.json());
+        }
+      } catch (error) {
+        console.error('Failed to fetch dashboards:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchDashboards();
+  }, [teamId]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Dashboards</h1>
+          <p className="text-muted-foreground">
+            {isTeamWorkspace
+              ? `Saved queries pinned as charts and tables, shared with ${teamName ?? 'your team'}.`
+              : 'Saved queries pinned as charts and tables.'}
+          </p>
+        </div>
+        <Button onClick={() => setCreateOpen(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Dashboard
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center h-64">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : dashboards.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-16 text-center">
+          <LayoutDashboard className="h-12 w-12 text-muted-foreground mb-4" />
+          <h3 className="text-lg font-medium">No dashboards yet</h3>
+          <p className="text-muted-foreground text-sm mt-1">
+            Create a dashboard and add widgets from your saved queries.
+          </p>
+        </div>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+          {dashboards.map((dashboard) => (
+            <Link key={dashboard.id} href={`/dashboards/${dashboard.id}`}>
+              <Card className="h-full hover:border-primary/50 transition-colors">
+                <CardHeader>
+                  <div className="flex items-center justify-between gap-2">
+                    <CardTitle className="text-base truncate">{dashboard.name}</CardTitle>
+                    {dashboard.team && (
+                      <Badge variant="secondary" className="flex-shrink-0">
+                        <Users className="h-3 w-3 mr-1" />
+                        {dashboard.team.name}
+                      </Badge>
+                    )}
+                  </div>
+                  {dashboard.description && (
+                    <CardDescription className="line-clamp-2">{dashboard.description}</CardDescription>
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    {dashboard.user?.name || dashboard.user?.email} · updated{' '}
+                    {new Date(dashboard.updatedAt).toLocaleDateString()}
+                  </p>
+                </CardHeader>
+              </Card>
+            </Link>
+          ))}
+        </div>
+      )}
+
+      <CreateDashboardDialog
+        teamId={teamId}
+        teamName={teamName}
+        open={createOpen}
+        onOpenChange={setCreateOpen}
+        onCreated={(dashboard) => router.push(`/dashboards/${dashboard.id}`)}
+      />
+    </div>
+  );
+}
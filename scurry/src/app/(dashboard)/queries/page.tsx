@@ -1,8 +1,8 @@
 'use client';
 
 import * as React from 'react';
-import { useRouter } from 'next/navigation';
-import { FileCode, Search, Loader2, Filter } from 'lucide-react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { FileCode, Search, Loader2, Filter, Folder, Tag } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import {
@@ -12,7 +12,8 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { QueryCard } from '@/components/queries';
+import { QueryCard, QueryRevisionsDialog } from '@/components/queries';
+import type { ChartConfig, QueryParameter } from '@/types';
 
 interface SavedQuery {
   id: string;
@@ -20,7 +21,12 @@ interface SavedQuery {
   description: string | null;
   sql: string;
   teamId: string | null;
+  connectionId: string | null;
   userId: string;
+  parameters: QueryParameter[];
+  folder: string | null;
+  tags: string[];
+  chart: ChartConfig | null;
   createdAt: string;
   updatedAt: string;
   user?: {
@@ -38,14 +44,24 @@ interface Team {
   slug: string;
 }
 
-export default function QueriesPage() {
+const ALL = 'all';
+
+function QueriesPageContent() {
   const router = useRouter();
+  const searchParams = useSearchParams();
   const [queries, setQueries] = React.useState<SavedQuery[]>([]);
   const [teams, setTeams] = React.useState<Team[]>([]);
   const [loading, setLoading] = React.useState(true);
   const [currentUserId, setCurrentUserId] = React.useState<string>('');
   const [searchQuery, setSearchQuery] = React.useState('');
   const [filterTeam, setFilterTeam] = React.useState<string>('all');
+  const [filterFolder, setFilterFolder] = React.useState<string>(ALL);
+  const [filterTag, setFilterTag] = React.useState<string>(ALL);
+  // Activity links open a query's history at a specific revision
+  const [history, setHistory] = React.useState<{ queryId: string; revisionId: string | null } | null>(() => {
+    const queryId = searchParams.get('query');
+    return queryId ? { queryId, revisionId: searchParams.get('revision') } : null;
+  });
 
   React.useEffect(() => {
     fetchData();
@@ -76,9 +92,12 @@ export default function QueriesPage() {
     }
   };
 
-  const handleRunQuery = (sql: string) => {
+  const handleRunQuery = (sql: string, chart?: ChartConfig | null) => {
     // Store query in sessionStorage and navigate to query editor
     sessionStorage.setItem('runQuery', sql);
+    if (chart) {
+      sessionStorage.setItem('runQueryChart', JSON.stringify(chart));
+    }
     router.push('/query');
   };
 
@@ -86,6 +105,20 @@ export default function QueriesPage() {
     setQueries((prev) => prev.filter((q) => q.id !== id));
   };
 
+  const handleQueryUpdated = (updated: { id: string; folder: string | null; tags: string[] }) => {
+    setQueries((prev) => prev.map((q) => (q.id === updated.id ? { ...q, ...updated } : q)));
+  };
+
+  const folders = React.useMemo(
+    () => [...new Set(queries.map((q) => q.folder).filter((f): f is string => !!f))].sort(),
+    [queries]
+  );
+  const tags = React.useMemo(
+    () => [...new Set(queries.flatMap((q) => q.tags ?? []))].sort(),
+    [queries]
+  );
+  const historyQuery = history ? queries.find((q) => q.id === history.queryId) : undefined;
+
   const filteredQueries = React.useMemo(() => {
     return queries.filter((query) => {
       // Search filter
@@ -101,9 +134,12 @@ export default function QueriesPage() {
         (filterTeam === 'personal' && !query.teamId) ||
         query.teamId === filterTeam;
 
-      return matchesSearch && matchesTeam;
+      const matchesFolder = filterFolder === ALL || query.folder === filterFolder;
+      const matchesTag = filterTag === ALL || query.tags?.includes(filterTag);
+
+      return matchesSearch && matchesTeam && matchesFolder && matchesTag;
     });
-  }, [queries, searchQuery, filterTeam]);
+  }, [queries, searchQuery, filterTeam, filterFolder, filterTag]);
 
   if (loading) {
     return (
@@ -147,6 +183,38 @@ export default function QueriesPage() {
             ))}
           </SelectContent>
         </Select>
+        {folders.length > 0 && (
+          <Select value={filterFolder} onValueChange={setFilterFolder}>
+            <SelectTrigger className="w-[180px]">
+              <Folder className="h-4 w-4 mr-2" />
+              <SelectValue placeholder="Folder" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All Folders</SelectItem>
+              {folders.map((folder) => (
+                <SelectItem key={folder} value={folder}>
+                  {folder}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        {tags.length > 0 && (
+          <Select value={filterTag} onValueChange={setFilterTag}>
+            <SelectTrigger className="w-[160px]">
+              <Tag className="h-4 w-4 mr-2" />
+              <SelectValue placeholder="Tag" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All Tags</SelectItem>
+              {tags.map((tag) => (
+                <SelectItem key={tag} value={tag}>
+                  {tag}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
       </div>
 
       {filteredQueries.length === 0 ? (
@@ -180,10 +248,37 @@ export default function QueriesPage() {
               currentUserId={currentUserId}
               onRun={handleRunQuery}
               onDelete={handleDeleteQuery}
+              onShowHistory={(queryId) => setHistory({ queryId, revisionId: null })}
+              onUpdated={handleQueryUpdated}
+              folders={folders}
             />
           ))}
         </div>
       )}
+
+      {historyQuery && history && (
+        <QueryRevisionsDialog
+          key={`${history.queryId}:${history.revisionId ?? ''}`}
+          query={historyQuery}
+          open
+          onOpenChange={(open) => !open && setHistory(null)}
+          canRestore={historyQuery.userId === currentUserId}
+          initialRevisionId={history.revisionId}
+          onRestored={fetchData}
+        />
+      )}
     </div>
   );
 }
+
+export default function QueriesPage() {
+  return (
+    <React.Suspense fallback={
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    }>
+      <QueriesPageContent />
+    </React.Suspense>
+  );
+}
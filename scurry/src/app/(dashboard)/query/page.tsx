@@ -2,7 +2,6 @@
 
 import * as React from 'react';
 import dynamic from 'next/dynamic';
-import { format } from 'sql-formatter';
 import { toast } from 'sonner';
 import { AlertCircle } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -14,17 +13,23 @@ import {
 } from '@/components/ui/sheet';
 import { QueryToolbar } from '@/components/editor/query-toolbar';
 import { QueryHistory } from '@/components/editor/query-history';
+import { QueryPlanViewer } from '@/components/editor/query-plan-viewer';
 import { TabBar } from '@/components/editor/tab-bar';
 import { DangerousQueryDialog } from '@/components/editor/dangerous-query-dialog';
 import { UnsavedChangesDialog } from '@/components/editor/unsaved-changes-dialog';
 import { ImportWizard } from '@/components/import/import-wizard';
 import { ChatPanel } from '@/components/ai/chat-panel';
-import { ResultsTable } from '@/components/results';
-import { useConnections, useMediaQuery, useWorkspaceContext } from '@/hooks';
+import { ChangeRequestDialog } from '@/components/change-requests';
+import { ResultsTable, ScriptResults } from '@/components/results';
+import type { SqlEditorSelection } from '@/components/editor/sql-editor';
+import { useConnections, useEditorSettings, useEnrichedSchema, useMediaQuery, useWorkspaceContext } from '@/hooks';
 import { useQueryStore } from '@/lib/store';
 import { useEditorTabsStore } from '@/lib/store/editor-tabs-store';
-import { detectDangerousQuery, type DangerousQueryInfo } from '@/lib/sql/dangerous-query-detector';
-import type { QueryResult } from '@/types';
+import { detectDangerousStatement, type DangerousQueryInfo } from '@/lib/sql/dangerous-query-detector';
+import { findStatementAtOffset, splitScript } from '@/lib/sql/script-statements';
+import { formatSql } from '@/lib/sql/sql-formatter';
+import { EXPORT_FORMAT_LABELS, type ExportFormat } from '@/lib/export/result-exporter';
+import type { ChangeApprovalRequired, ChangeRequestDangerLevel, ChartConfig, QueryPlan, QueryResult, ScriptOptions, ScriptResult } from '@/types';
 
 const SqlEditor = dynamic(
   () => import('@/components/editor/sql-editor').then((mod) => mod.SqlEditor),
@@ -47,19 +52,33 @@ export default function QueryPage() {
     switchTab,
     updateTabSql,
     updateTabResult,
+    updateTabScriptResult,
     updateTabConnection,
+    updateTabChart,
     nextTab,
     previousTab,
     goToTab,
   } = useEditorTabsStore();
 
   const [executing, setExecuting] = React.useState(false);
+  const [cancelling, setCancelling] = React.useState(false);
+  const executionIdRef = React.useRef<string | null>(null);
+  const [explaining, setExplaining] = React.useState(false);
+  // Plan shown in place of the results, for the tab it was explained in
+  const [planView, setPlanView] = React.useState<{ tabId: string; plan: QueryPlan } | null>(null);
+  const [scriptOptions, setScriptOptions] = React.useState<ScriptOptions>({ stopOnError: true, transaction: false });
+  const editorSelectionRef = React.useRef<SqlEditorSelection>({ selectedText: '', cursorOffset: 0 });
   const [showHistory, setShowHistory] = React.useState(false);
   const [showAI, setShowAI] = React.useState(false);
   
   // Dangerous query confirmation state
   const [dangerousQueryInfo, setDangerousQueryInfo] = React.useState<DangerousQueryInfo | null>(null);
+  // SQL waiting for confirmation and the statement in it that triggered the dialog
+  const [pendingRun, setPendingRun] = React.useState<{ sql: string; dangerousSql: string } | null>(null);
   const [showDangerousQueryDialog, setShowDangerousQueryDialog] = React.useState(false);
+
+  // SQL refused on a protected connection, offered as a change request
+  const [approvalRun, setApprovalRun] = React.useState<{ sql: string; dangerLevel: ChangeRequestDangerLevel } | null>(null);
   
   // Unsaved changes dialog state
   const [unsavedTabId, setUnsavedTabId] = React.useState<string | null>(null);
@@ -79,6 +98,7 @@ export default function QueryPage() {
   const currentQuery = activeTab?.sql || '';
   const selectedConnectionId = activeTab?.connectionId || null;
   const result = activeTab?.result || null;
+  const scriptResult = activeTab?.scriptResult || null;
 
   // Check if selected connection is a team/shared connection
   const selectedConnection = React.useMemo(() => {
@@ -90,6 +110,10 @@ export default function QueryPage() {
   // Only pass teamId to API calls if the connection is actually a team connection
   const effectiveTeamId = isSelectedConnectionShared ? teamId : null;
 
+  // Schema for editor autocompletion (served from the shared schema cache)
+  const { schema: editorSchema } = useEnrichedSchema(selectedConnectionId, effectiveTeamId);
+  const { settings: editorSettings } = useEditorSettings();
+
   // Initialize first tab with default connection
   React.useEffect(() => {
     if (activeTab && !activeTab.connectionId && connections.length > 0) {
@@ -114,8 +138,13 @@ export default function QueryPage() {
     if (savedQuery && activeTab) {
       updateTabSql(activeTab.id, savedQuery);
       sessionStorage.removeItem('runQuery');
+
+      // Saved queries bring their chart settings along
+      const savedChart = sessionStorage.getItem('runQueryChart');
+      updateTabChart(activeTab.id, savedChart ? JSON.parse(savedChart) : null);
+      sessionStorage.removeItem('runQueryChart');
     }
-  }, [activeTab, updateTabSql]);
+  }, [activeTab, updateTabSql, updateTabChart]);
 
   // Keyboard shortcuts
   React.useEffect(() => {
@@ -187,6 +216,14 @@ export default function QueryPage() {
     }
   };
 
+  // Stable so the memoized results table does not re-render on every keystroke
+  const chartTabId = activeTab?.id;
+  const handleChartChange = React.useCallback((chart: ChartConfig | null) => {
+    if (chartTabId) {
+      updateTabChart(chartTabId, chart);
+    }
+  }, [chartTabId, updateTabChart]);
+
   // Set result for current tab
   const setResult = (newResult: QueryResult | null) => {
     if (activeTab) {
@@ -194,15 +231,30 @@ export default function QueryPage() {
     }
   };
 
+  // Change requests are submitted to a team; a protected connection used from
+  // the personal workspace has to be switched to one of its teams first
+  const requestApproval = (sql: string, approval: ChangeApprovalRequired) => {
+    if (effectiveTeamId) {
+      setApprovalRun({ sql, dangerLevel: approval.dangerLevel });
+    } else {
+      toast.error('Change request required', {
+        description: `${approval.error}. Switch to a team this connection is shared with to submit one.`,
+      });
+    }
+  };
+
   // Actual query execution logic (called after confirmation if needed)
-  const executeQueryInternal = async () => {
-    if (!selectedConnectionId || !currentQuery.trim()) {
+  const executeQueryInternal = async (sql: string) => {
+    if (!selectedConnectionId || !sql.trim()) {
       toast.error('Please select a connection and enter a query');
       return;
     }
 
     setExecuting(true);
+    setPlanView(null);
     const startTime = Date.now();
+    const executionId = crypto.randomUUID();
+    executionIdRef.current = executionId;
 
     try {
       const response = await fetch('/api/query/execute', {
@@ -210,24 +262,31 @@ export default function QueryPage() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           connectionId: selectedConnectionId,
-          sql: currentQuery,
+          sql,
           teamId: effectiveTeamId,
+          executionId,
         }),
       });
 
-      const data: QueryResult = await response.json();
+      const data: QueryResult | ChangeApprovalRequired = await response.json();
+      if ('approvalRequired' in data) {
+        requestApproval(sql, data);
+        return;
+      }
       setResult(data);
 
       addToHistory({
         connectionId: selectedConnectionId,
-        sql: currentQuery,
+        sql,
         executedAt: new Date(),
         executionTime: data.executionTime,
         rowCount: data.error ? undefined : data.rowCount,
         error: data.error,
       });
 
-      if (data.error) {
+      if (data.cancelled) {
+        toast.info('Query cancelled');
+      } else if (data.error) {
         toast.error('Query failed', { description: data.error });
       } else {
         toast.success(`Query completed in ${data.executionTime}ms`, {
@@ -240,7 +299,7 @@ export default function QueryPage() {
       
       addToHistory({
         connectionId: selectedConnectionId,
-        sql: currentQuery,
+        sql,
         executedAt: new Date(),
         executionTime,
         error: errorMessage,
@@ -248,42 +307,199 @@ export default function QueryPage() {
 
       toast.error('Query failed', { description: errorMessage });
     } finally {
+      executionIdRef.current = null;
+      setExecuting(false);
+      setCancelling(false);
+    }
+  };
+
+  // Run a script statement by statement, each with its own result tab
+  const executeScriptInternal = async (sql: string) => {
+    if (!selectedConnectionId || !activeTab) return;
+
+    const tabId = activeTab.id;
+    setExecuting(true);
+    setPlanView(null);
+    const executionId = crypto.randomUUID();
+    executionIdRef.current = executionId;
+
+    try {
+      const response = await fetch('/api/query/script', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          connectionId: selectedConnectionId,
+          sql,
+          teamId: effectiveTeamId,
+          stopOnError: scriptOptions.stopOnError,
+          transaction: scriptOptions.transaction,
+          executionId,
+        }),
+      });
+
+      const data = await response.json();
+      if (data.approvalRequired) {
+        requestApproval(sql, data);
+        return;
+      }
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to run script');
+      }
+
+      const script = data as ScriptResult;
+      updateTabScriptResult(tabId, script);
+
+      for (const statement of script.statements) {
+        if (!statement.result) continue;
+        addToHistory({
+          connectionId: selectedConnectionId,
+          sql: statement.sql,
+          executedAt: new Date(),
+          executionTime: statement.result.executionTime,
+          rowCount: statement.result.error ? undefined : statement.result.rowCount,
+          error: statement.result.error,
+        });
+      }
+
+      const cancelled = script.statements.some((statement) => statement.status === 'cancelled');
+      if (cancelled) {
+        toast.info('Script cancelled', { description: script.error });
+      } else if (script.error) {
+        toast.error('Script stopped', { description: script.error });
+      } else {
+        const failed = script.statements.filter((statement) => statement.status === 'error').length;
+        toast[failed > 0 ? 'warning' : 'success'](
+          `Ran ${script.statements.length} statements in ${script.executionTime}ms`,
+          failed > 0 ? { description: `${failed} failed` } : undefined
+        );
+      }
+    } catch (error) {
+      toast.error('Script failed', {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      executionIdRef.current = null;
       setExecuting(false);
+      setCancelling(false);
+    }
+  };
+
+  const runSql = async (sql: string) => {
+    if (splitScript(sql).length > 1) {
+      await executeScriptInternal(sql);
+    } else {
+      await executeQueryInternal(sql);
     }
   };
 
-  // Entry point for query execution - checks for dangerous queries first
-  const handleExecute = async () => {
+  const handleExplain = async (analyze: boolean) => {
+    if (!selectedConnectionId || !currentQuery.trim() || !activeTab) return;
+
+    setExplaining(true);
+    try {
+      const response = await fetch('/api/query/explain', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          connectionId: selectedConnectionId,
+          sql: currentQuery,
+          teamId: effectiveTeamId,
+          analyze,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to explain query');
+      }
+
+      setPlanView({ tabId: activeTab.id, plan: data.plan });
+    } catch (error) {
+      toast.error('Explain failed', {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      setExplaining(false);
+    }
+  };
+
+  // Ask the server to stop the running query; the execute request then
+  // resolves with a cancelled result
+  const handleCancel = async () => {
+    const executionId = executionIdRef.current;
+    if (!executionId) return;
+
+    setCancelling(true);
+    try {
+      const response = await fetch('/api/query/cancel', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ executionId }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to cancel query');
+      }
+    } catch (error) {
+      setCancelling(false);
+      toast.error('Could not cancel query', {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    }
+  };
+
+  // Entry point for query execution - checks for dangerous queries first.
+  // 'auto' runs the selection when there is one and the whole editor otherwise.
+  const handleExecute = async (target: 'auto' | 'selection' | 'statement' = 'auto') => {
     if (!selectedConnectionId || !currentQuery.trim()) {
       toast.error('Please select a connection and enter a query');
       return;
     }
 
-    const dangerInfo = detectDangerousQuery(currentQuery);
-    
-    if (dangerInfo.isDangerous && dangerInfo.requiresConfirmation) {
-      setDangerousQueryInfo(dangerInfo);
+    const { selectedText, cursorOffset } = editorSelectionRef.current;
+    let sql = currentQuery;
+    if (target === 'statement') {
+      sql = findStatementAtOffset(currentQuery, cursorOffset)?.sql ?? '';
+    } else if (target === 'selection' || (target === 'auto' && selectedText.trim())) {
+      sql = selectedText;
+    }
+
+    if (!sql.trim()) {
+      toast.error(target === 'statement' ? 'No statement at the cursor' : 'Select the SQL to run first');
+      return;
+    }
+
+    const danger = detectDangerousStatement(splitScript(sql).map((statement) => statement.sql));
+    if (danger && danger.info.requiresConfirmation) {
+      setPendingRun({ sql, dangerousSql: danger.sql });
+      setDangerousQueryInfo(danger.info);
       setShowDangerousQueryDialog(true);
       return;
     }
 
-    await executeQueryInternal();
+    await runSql(sql);
   };
 
   const handleDangerousQueryConfirm = async () => {
+    const run = pendingRun;
     setShowDangerousQueryDialog(false);
     setDangerousQueryInfo(null);
-    await executeQueryInternal();
+    setPendingRun(null);
+    if (run) {
+      await runSql(run.sql);
+    }
   };
 
   const handleDangerousQueryCancel = () => {
     setShowDangerousQueryDialog(false);
     setDangerousQueryInfo(null);
+    setPendingRun(null);
   };
 
   const handleFormat = () => {
     try {
-      const formatted = format(currentQuery, { language: 'mysql' });
+      const formatted = formatSql(currentQuery, selectedConnection?.type, editorSettings);
       setCurrentQuery(formatted);
       toast.success('Query formatted');
     } catch {
@@ -291,31 +507,42 @@ export default function QueryPage() {
     }
   };
 
-  const handleExport = () => {
-    if (!result || result.rows.length === 0) return;
+  const handleExport = async (format: ExportFormat) => {
+    if (!selectedConnectionId || !currentQuery.trim()) return;
 
-    const headers = result.columns.map((c) => c.name).join(',');
-    const rows = result.rows.map((row) =>
-      result.columns.map((c) => {
-        const val = row[c.name];
-        if (val === null) return '';
-        if (typeof val === 'string' && (val.includes(',') || val.includes('"'))) {
-          return `"${val.replace(/"/g, '""')}"`;
-        }
-        return String(val);
-      }).join(',')
-    );
-    const csv = [headers, ...rows].join('\n');
-
-    const blob = new Blob([csv], { type: 'text/csv' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `query-results-${Date.now()}.csv`;
-    a.click();
-    URL.revokeObjectURL(url);
-
-    toast.success('Results exported to CSV');
+    const toastId = toast.loading('Exporting results...');
+    try {
+      const response = await fetch('/api/query/export', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          connectionId: selectedConnectionId,
+          sql: currentQuery,
+          format,
+          teamId: effectiveTeamId,
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to export results');
+      }
+
+      const disposition = response.headers.get('Content-Disposition') || '';
+      const filename = disposition.match(/filename="([^"]+)"/)?.[1] || `query-results-${Date.now()}`;
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = filename;
+      a.click();
+      URL.revokeObjectURL(url);
+
+      toast.success(`Results exported as ${EXPORT_FORMAT_LABELS[format]}`, { id: toastId });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to export results', { id: toastId });
+    }
   };
 
   // Get unsaved tab info for dialog
@@ -336,12 +563,24 @@ export default function QueryPage() {
           open={showDangerousQueryDialog}
           onOpenChange={setShowDangerousQueryDialog}
           queryInfo={dangerousQueryInfo}
-          sql={currentQuery}
+          sql={pendingRun?.dangerousSql ?? currentQuery}
           onConfirm={handleDangerousQueryConfirm}
           onCancel={handleDangerousQueryCancel}
         />
       )}
 
+      {/* Change Request Dialog */}
+      {approvalRun && effectiveTeamId && selectedConnectionId && (
+        <ChangeRequestDialog
+          open
+          onOpenChange={(open) => !open && setApprovalRun(null)}
+          teamId={effectiveTeamId}
+          connectionId={selectedConnectionId}
+          sql={approvalRun.sql}
+          dangerLevel={approvalRun.dangerLevel}
+        />
+      )}
+
       {/* Unsaved Changes Dialog */}
       {unsavedTab && (
         <UnsavedChangesDialog
@@ -373,6 +612,7 @@ export default function QueryPage() {
             <QueryHistory
               history={history}
               connections={connections}
+              remote={{ teamId }}
               onSelect={(sql) => {
                 setCurrentQuery(sql);
                 setShowHistory(false);
@@ -411,14 +651,23 @@ export default function QueryPage() {
             connections={connections}
             selectedConnectionId={selectedConnectionId}
             currentQuery={currentQuery}
+            chart={activeTab?.chart ?? null}
             onConnectionChange={setSelectedConnectionId}
-            onExecute={handleExecute}
+            onExecute={() => handleExecute()}
+            onExecuteSelection={() => handleExecute('selection')}
+            onExecuteStatement={() => handleExecute('statement')}
+            onCancel={handleCancel}
             onFormat={handleFormat}
             onToggleHistory={() => setShowHistory(!showHistory)}
             onToggleAI={() => setShowAI(!showAI)}
             onExport={result && result.rows.length > 0 ? handleExport : undefined}
             onImport={() => setShowImportWizard(true)}
+            onExplain={handleExplain}
+            scriptOptions={scriptOptions}
+            onScriptOptionsChange={setScriptOptions}
             executing={executing}
+            explaining={explaining}
+            cancelling={cancelling}
             hasResults={!!result && result.rows.length > 0}
             showAI={showAI}
             showHistory={showHistory}
@@ -429,12 +678,24 @@ export default function QueryPage() {
               <SqlEditor
                 value={currentQuery}
                 onChange={setCurrentQuery}
-                onExecute={handleExecute}
+                onExecute={() => handleExecute()}
+                onExecuteStatement={() => handleExecute('statement')}
+                onSelectionChange={(selection) => {
+                  editorSelectionRef.current = selection;
+                }}
+                schema={editorSchema}
+                dialect={selectedConnection?.type}
+                lintEnabled={editorSettings.lintEnabled}
+                restrictedTables={editorSchema?.restrictedTables}
               />
             </div>
 
             <div className="flex-1 overflow-auto p-3 md:p-4 border-t min-h-0">
-              {result ? (
+              {planView && planView.tabId === activeTab?.id ? (
+                <QueryPlanViewer plan={planView.plan} onClose={() => setPlanView(null)} />
+              ) : scriptResult ? (
+                <ScriptResults script={scriptResult} />
+              ) : result ? (
                 result.error ? (
                   <Card className="border-destructive">
                     <CardHeader className="pb-2">
@@ -450,7 +711,7 @@ export default function QueryPage() {
                     </CardContent>
                   </Card>
                 ) : (
-                  <ResultsTable result={result} />
+                  <ResultsTable result={result} chart={activeTab?.chart ?? null} onChartChange={handleChartChange} />
                 )
               ) : (
                 <div className="flex flex-col items-center justify-center h-full text-muted-foreground gap-2">
@@ -474,6 +735,7 @@ export default function QueryPage() {
             <QueryHistory
               history={history}
               connections={connections}
+              remote={{ teamId }}
               onSelect={(sql) => {
                 setCurrentQuery(sql);
                 setShowHistory(false);
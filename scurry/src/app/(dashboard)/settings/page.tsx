@@ -30,6 +30,7 @@ import {
   modelOptions,
   type AISettingsFormData,
 } from '@/lib/validations/ai';
+import { EditorSettingsCard } from '@/components/editor/editor-settings-card';
 
 export default function SettingsPage() {
   const [loading, setLoading] = React.useState(true);
@@ -109,7 +110,7 @@ export default function SettingsPage() {
       <div>
         <h1 className="text-3xl font-bold tracking-tight">Settings</h1>
         <p className="text-muted-foreground">
-          Configure your AI model and preferences.
+          Configure your AI model and editor preferences.
         </p>
       </div>
 
@@ -307,6 +308,8 @@ export default function SettingsPage() {
         </CardContent>
       </Card>
 
+      <EditorSettingsCard />
+
       <Card>
         <CardHeader>
           <div className="flex items-center gap-2">
@@ -2,7 +2,7 @@
 
 import * as React from 'react';
 import Link from 'next/link';
-import { Plus, Database, ArrowLeftRight, Loader2, ArrowRightLeft } from 'lucide-react';
+import { Plus, Database, ArrowLeftRight, Loader2, ArrowRightLeft, BookMarked } from 'lucide-react';
 import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -16,6 +16,7 @@ import {
   SyncQueue,
   ResizablePanels,
   SyncConfigDialog,
+  SyncTemplatesSheet,
 } from '@/components/sync';
 import { useConnections, useWorkspaceContext, useMediaQuery } from '@/hooks';
 import { useSyncStore } from '@/lib/store/sync-store';
@@ -52,6 +53,7 @@ function SyncPageContent() {
   // Sync dialog state
   const [syncDialogOpen, setSyncDialogOpen] = React.useState(false);
   const [isSyncing, setIsSyncing] = React.useState(false);
+  const [templatesOpen, setTemplatesOpen] = React.useState(false);
 
   // Set initial active panel
   React.useEffect(() => {
@@ -83,7 +85,7 @@ function SyncPageContent() {
 
   // Handle sync execution from dialog
   const handleExecuteSync = React.useCallback(
-    async (config: { scope: 'selected' | 'table'; content: 'data' | 'structure' | 'both' }) => {
+    async (config: { scope: 'selected' | 'table'; content: 'data' | 'structure' | 'both'; allowDestructive: boolean; mirror: boolean; confirmTableName?: string }) => {
       if (panels.length < 2) return;
       
       const sourcePanel = panels[0];
@@ -119,6 +121,9 @@ function SyncPageContent() {
             selectedRowKeys: config.scope === 'selected' 
               ? Array.from(sourcePanel.selectedRowKeys) 
               : undefined,
+            allowDestructive: config.allowDestructive,
+            mirror: config.mirror,
+            confirmTableName: config.confirmTableName,
             teamId,
           }),
         });
@@ -129,10 +134,20 @@ function SyncPageContent() {
         }
 
         const result = await response.json();
+        if (!result.success) {
+          throw new Error(result.errors?.[0] || 'Sync failed');
+        }
         const message = result.tableCreated 
           ? `Table created and ${result.rowsAffected} rows synced`
-          : `Sync completed: ${result.rowsAffected} rows affected`;
+          : result.structureChangesApplied > 0
+            ? `Sync completed: ${result.structureChangesApplied} structure change(s) applied, ${result.rowsAffected} rows affected`
+            : `Sync completed: ${result.rowsAffected} rows affected`;
         toast.success(message);
+        if (result.warnings?.length > 0) {
+          toast.warning(`${result.warnings.length} structure change(s) not applied`, {
+            description: result.warnings.join('\n'),
+          });
+        }
         setSyncDialogOpen(false);
       } catch (error) {
         console.error('Sync error:', error);
@@ -338,6 +353,15 @@ function SyncPageContent() {
             <Plus className="h-4 w-4" />
             Add Panel
           </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-9 gap-1.5"
+            onClick={() => setTemplatesOpen(true)}
+          >
+            <BookMarked className="h-4 w-4" />
+            Templates
+          </Button>
           <Button
             size="sm"
             className="h-9 gap-1.5"
@@ -458,9 +482,20 @@ function SyncPageContent() {
         selectedRowCount={panels[0]?.selectedRowKeys?.size || 0}
         canSync={canSync}
         blockedReason={syncBlockedReason}
+        teamId={teamId}
         onExecute={handleExecuteSync}
         isExecuting={isSyncing}
       />
+
+      {/* Saved Sync Templates */}
+      <SyncTemplatesSheet
+        open={templatesOpen}
+        onOpenChange={setTemplatesOpen}
+        connections={connections}
+        sourcePanel={panels[0] || null}
+        targetPanel={panels[1] || null}
+        teamId={teamId}
+      />
     </div>
   );
 }
@@ -11,11 +11,13 @@ import { ProfileList } from '@/components/permissions/profile-list';
 import { MemberAssignments } from '@/components/permissions/member-assignments';
 import { CreateProfileDialog } from '@/components/permissions/create-profile-dialog';
 import { toast } from 'sonner';
+import type { TeamCapability } from '@/lib/validations/team';
 
 interface Team {
   id: string;
   name: string;
   role: string;
+  capabilities: TeamCapability[];
 }
 
 export default function PermissionsPage() {
@@ -66,7 +68,7 @@ export default function PermissionsPage() {
     );
   }
 
-  const canManage = team.role === 'owner' || team.role === 'admin';
+  const canManage = team.capabilities.includes('edit_permissions');
 
   return (
     <div className="space-y-6 p-6">
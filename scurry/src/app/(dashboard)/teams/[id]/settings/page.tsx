@@ -4,7 +4,7 @@ import * as React from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { ArrowLeft, Users, Mail, Trash2, Shield, Crown, Eye, UserPlus, Loader2, Lock, Settings, Plus, Bot, Key, Check } from 'lucide-react';
+import { ArrowLeft, Users, Mail, Trash2, Shield, Crown, Eye, UserPlus, Loader2, Lock, Settings, Plus, Bot, Key, Check, KeyRound } from 'lucide-react';
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -43,6 +43,8 @@ import { toast } from 'sonner';
 import { ProfileList } from '@/components/permissions/profile-list';
 import { MemberAssignments } from '@/components/permissions/member-assignments';
 import { CreateProfileDialog } from '@/components/permissions/create-profile-dialog';
+import { TeamRoleList, type TeamRoleItem } from '@/components/teams';
+import type { TeamCapability } from '@/lib/validations/team';
 import {
   aiSettingsSchema,
   aiProviders,
@@ -56,12 +58,14 @@ interface Team {
   slug: string;
   ownerId: string;
   role: string;
+  capabilities: TeamCapability[];
 }
 
 interface Member {
   id: string;
   userId: string;
   role: string;
+  roleName: string;
   joinedAt: string;
   user?: {
     id: string;
@@ -85,13 +89,6 @@ const roleIcons: Record<string, React.ComponentType<{ className?: string }>> = {
   viewer: Eye,
 };
 
-const roleLabels: Record<string, string> = {
-  owner: 'Owner',
-  admin: 'Admin',
-  member: 'Member',
-  viewer: 'Viewer',
-};
-
 export default function TeamSettingsPage() {
   const params = useParams();
   const router = useRouter();
@@ -100,6 +97,7 @@ export default function TeamSettingsPage() {
   const [team, setTeam] = React.useState<Team | null>(null);
   const [members, setMembers] = React.useState<Member[]>([]);
   const [invitations, setInvitations] = React.useState<Invitation[]>([]);
+  const [roles, setRoles] = React.useState<TeamRoleItem[]>([]);
   const [loading, setLoading] = React.useState(true);
   const [teamName, setTeamName] = React.useState('');
   const [saving, setSaving] = React.useState(false);
@@ -182,10 +180,11 @@ export default function TeamSettingsPage() {
 
   const fetchTeamData = async () => {
     try {
-      const [teamRes, membersRes, invitationsRes] = await Promise.all([
+      const [teamRes, membersRes, invitationsRes, rolesRes] = await Promise.all([
         fetch(`/api/teams/${teamId}`),
         fetch(`/api/teams/${teamId}/members`),
         fetch(`/api/teams/${teamId}/invitations`),
+        fetch(`/api/teams/${teamId}/roles`),
       ]);
 
       if (!teamRes.ok) {
@@ -205,6 +204,10 @@ export default function TeamSettingsPage() {
       if (invitationsRes.ok) {
         setInvitations(await invitationsRes.json());
       }
+
+      if (rolesRes.ok) {
+        setRoles(await rolesRes.json());
+      }
     } catch (error) {
       toast.error('Failed to load team data');
     } finally {
@@ -212,6 +215,24 @@ export default function TeamSettingsPage() {
     }
   };
 
+  const fetchRoles = async () => {
+    try {
+      const [rolesRes, membersRes] = await Promise.all([
+        fetch(`/api/teams/${teamId}/roles`),
+        fetch(`/api/teams/${teamId}/members`),
+      ]);
+      if (rolesRes.ok) {
+        setRoles(await rolesRes.json());
+      }
+      // Members show their role's name, which may have changed
+      if (membersRes.ok) {
+        setMembers(await membersRes.json());
+      }
+    } catch {
+      toast.error('Failed to load roles');
+    }
+  };
+
   const handleUpdateTeam = async () => {
     if (!teamName.trim()) return;
     setSaving(true);
@@ -277,8 +298,9 @@ export default function TeamSettingsPage() {
       });
 
       if (response.ok) {
+        const updated: Member = await response.json();
         setMembers((prev) =>
-          prev.map((m) => (m.userId === userId ? { ...m, role } : m))
+          prev.map((m) => (m.userId === userId ? { ...m, role: updated.role, roleName: updated.roleName } : m))
         );
         toast.success('Role updated');
       } else {
@@ -343,9 +365,20 @@ export default function TeamSettingsPage() {
     }
   };
 
-  const canManage = team?.role === 'owner' || team?.role === 'admin';
+  const can = (capability: TeamCapability) => team?.capabilities.includes(capability) ?? false;
+  const canManage = can('manage_team');
+  const canInvite = can('invite_members');
+  const canConfigureAI = can('configure_ai');
+  const canEditPermissions = can('edit_permissions');
   const isOwner = team?.role === 'owner';
 
+  // Mirrors the server: roles that manage the team are the owner's to give, and nobody grants more than they have
+  const canGrant = (capabilities: TeamCapability[]) =>
+    isOwner || (!capabilities.includes('manage_team') && capabilities.every((capability) => can(capability)));
+  const roleCapabilities = (role: string) => roles.find((r) => r.key === role)?.capabilities ?? [];
+  const assignableRoles = roles.filter((role) => canGrant(role.capabilities));
+  const roleName = (role: string) => roles.find((r) => r.key === role)?.name ?? role;
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -386,6 +419,10 @@ export default function TeamSettingsPage() {
             <Lock className="h-4 w-4" />
             Permissions
           </TabsTrigger>
+          <TabsTrigger value="roles" className="gap-2">
+            <KeyRound className="h-4 w-4" />
+            Roles
+          </TabsTrigger>
         </TabsList>
 
         {/* General Settings Tab */}
@@ -427,7 +464,7 @@ export default function TeamSettingsPage() {
               <CardDescription>{members.length} member{members.length !== 1 ? 's' : ''}</CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
-              {canManage && (
+              {canInvite && (
                 <form onSubmit={handleInviteMember} className="flex gap-2">
                   <Input
                     placeholder="Email address"
@@ -441,9 +478,9 @@ export default function TeamSettingsPage() {
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      {isOwner && <SelectItem value="admin">Admin</SelectItem>}
-                      <SelectItem value="member">Member</SelectItem>
-                      <SelectItem value="viewer">Viewer</SelectItem>
+                      {assignableRoles.map((role) => (
+                        <SelectItem key={role.key} value={role.key}>{role.name}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                   <Button type="submit" disabled={inviting || !inviteEmail.trim()}>
@@ -470,7 +507,7 @@ export default function TeamSettingsPage() {
                         </div>
                       </div>
                       <div className="flex items-center gap-2">
-                        {canManage && member.role !== 'owner' ? (
+                        {canInvite && member.role !== 'owner' && canGrant(roleCapabilities(member.role)) ? (
                           <Select
                             value={member.role}
                             onValueChange={(role) => handleUpdateMemberRole(member.userId, role)}
@@ -479,18 +516,18 @@ export default function TeamSettingsPage() {
                               <SelectValue />
                             </SelectTrigger>
                             <SelectContent>
-                              {isOwner && <SelectItem value="admin">Admin</SelectItem>}
-                              <SelectItem value="member">Member</SelectItem>
-                              <SelectItem value="viewer">Viewer</SelectItem>
+                              {assignableRoles.map((role) => (
+                                <SelectItem key={role.key} value={role.key}>{role.name}</SelectItem>
+                              ))}
                             </SelectContent>
                           </Select>
                         ) : (
                           <Badge variant="secondary" className="gap-1">
                             <RoleIcon className="h-3 w-3" />
-                            {roleLabels[member.role]}
+                            {member.roleName}
                           </Badge>
                         )}
-                        {canManage && member.role !== 'owner' && (
+                        {canInvite && member.role !== 'owner' && canGrant(roleCapabilities(member.role)) && (
                           <Button
                             variant="ghost"
                             size="icon"
@@ -508,7 +545,7 @@ export default function TeamSettingsPage() {
           </Card>
 
           {/* Pending Invitations */}
-          {canManage && invitations.length > 0 && (
+          {canInvite && invitations.length > 0 && (
             <Card>
               <CardHeader>
                 <CardTitle>Pending Invitations</CardTitle>
@@ -525,7 +562,7 @@ export default function TeamSettingsPage() {
                         <div>
                           <p className="font-medium">{invitation.email}</p>
                           <p className="text-sm text-muted-foreground">
-                            Invited as {roleLabels[invitation.role]} • Expires{' '}
+                            Invited as {roleName(invitation.role)} • Expires{' '}
                             {new Date(invitation.expiresAt).toLocaleDateString()}
                           </p>
                         </div>
@@ -584,12 +621,12 @@ export default function TeamSettingsPage() {
 
         {/* AI Settings Tab */}
         <TabsContent value="ai" className="space-y-6">
-          {!canManage && (
+          {!canConfigureAI && (
             <Card className="border-yellow-200 bg-yellow-50 dark:border-yellow-900 dark:bg-yellow-950">
               <CardHeader>
                 <CardTitle className="text-sm">View Only</CardTitle>
                 <CardDescription>
-                  You can view AI settings but cannot make changes. Contact a team owner or admin to configure AI.
+                  You can view AI settings but cannot make changes. Ask a teammate whose role can configure AI.
                 </CardDescription>
               </CardHeader>
             </Card>
@@ -619,7 +656,7 @@ export default function TeamSettingsPage() {
                       render={({ field }) => (
                         <FormItem>
                           <FormLabel>AI Provider</FormLabel>
-                          <Select value={field.value} onValueChange={field.onChange} disabled={!canManage}>
+                          <Select value={field.value} onValueChange={field.onChange} disabled={!canConfigureAI}>
                             <FormControl>
                               <SelectTrigger>
                                 <SelectValue placeholder="Select provider" />
@@ -660,7 +697,7 @@ export default function TeamSettingsPage() {
                                 placeholder={aiConfigured ? 'Leave blank to keep existing key' : 'Enter your API key'}
                                 {...field}
                                 value={field.value || ''}
-                                disabled={!canManage}
+                                disabled={!canConfigureAI}
                               />
                             </FormControl>
                             <FormDescription>
@@ -684,7 +721,7 @@ export default function TeamSettingsPage() {
                                 placeholder={watchedProvider === 'ollama' ? 'http://localhost:11434' : 'https://api.example.com'}
                                 {...field}
                                 value={field.value || ''}
-                                disabled={!canManage}
+                                disabled={!canConfigureAI}
                               />
                             </FormControl>
                             <FormDescription>
@@ -706,7 +743,7 @@ export default function TeamSettingsPage() {
                         <FormItem>
                           <FormLabel>Model</FormLabel>
                           {modelOptions[watchedProvider]?.length > 0 ? (
-                            <Select value={field.value || ''} onValueChange={field.onChange} disabled={!canManage}>
+                            <Select value={field.value || ''} onValueChange={field.onChange} disabled={!canConfigureAI}>
                               <FormControl>
                                 <SelectTrigger>
                                   <SelectValue placeholder="Select model" />
@@ -726,7 +763,7 @@ export default function TeamSettingsPage() {
                                 placeholder="Enter model name"
                                 {...field}
                                 value={field.value || ''}
-                                disabled={!canManage}
+                                disabled={!canConfigureAI}
                               />
                             </FormControl>
                           )}
@@ -753,7 +790,7 @@ export default function TeamSettingsPage() {
                                 max="2"
                                 {...field}
                                 onChange={(e) => field.onChange(parseFloat(e.target.value))}
-                                disabled={!canManage}
+                                disabled={!canConfigureAI}
                               />
                             </FormControl>
                             <FormDescription>
@@ -777,7 +814,7 @@ export default function TeamSettingsPage() {
                                 max="128000"
                                 {...field}
                                 onChange={(e) => field.onChange(parseInt(e.target.value))}
-                                disabled={!canManage}
+                                disabled={!canConfigureAI}
                               />
                             </FormControl>
                             <FormDescription>
@@ -789,7 +826,7 @@ export default function TeamSettingsPage() {
                       />
                     </div>
 
-                    {canManage && (
+                    {canConfigureAI && (
                       <Button type="submit" disabled={aiSaving}>
                         {aiSaving ? (
                           <Loader2 className="mr-2 h-4 w-4 animate-spin" />
@@ -805,7 +842,7 @@ export default function TeamSettingsPage() {
             </CardContent>
           </Card>
 
-          {!aiConfigured && canManage && (
+          {!aiConfigured && canConfigureAI && (
             <Card className="border-dashed">
               <CardHeader>
                 <CardTitle className="text-sm text-muted-foreground">Not Configured</CardTitle>
@@ -819,12 +856,12 @@ export default function TeamSettingsPage() {
 
         {/* Permissions Tab */}
         <TabsContent value="permissions" className="space-y-6">
-          {!canManage && (
+          {!canEditPermissions && (
             <Card className="border-yellow-200 bg-yellow-50 dark:border-yellow-900 dark:bg-yellow-950">
               <CardHeader>
                 <CardTitle className="text-sm">View Only</CardTitle>
                 <CardDescription>
-                  You can view permission settings but cannot make changes. Contact a team owner or admin to modify permissions.
+                  You can view permission settings but cannot make changes. Ask a teammate whose role can edit permission profiles.
                 </CardDescription>
               </CardHeader>
             </Card>
@@ -843,7 +880,7 @@ export default function TeamSettingsPage() {
                     Create reusable permission templates for your team members
                   </CardDescription>
                 </div>
-                {canManage && (
+                {canEditPermissions && (
                   <Button onClick={() => setCreateProfileDialogOpen(true)}>
                     <Plus className="mr-2 h-4 w-4" />
                     Create Profile
@@ -852,7 +889,7 @@ export default function TeamSettingsPage() {
               </div>
             </CardHeader>
             <CardContent>
-              <ProfileList key={profileListKey} teamId={teamId} canManage={canManage} />
+              <ProfileList key={profileListKey} teamId={teamId} canManage={canEditPermissions} />
             </CardContent>
           </Card>
 
@@ -868,7 +905,31 @@ export default function TeamSettingsPage() {
               </CardDescription>
             </CardHeader>
             <CardContent>
-              <MemberAssignments teamId={teamId} canManage={canManage} />
+              <MemberAssignments teamId={teamId} canManage={canEditPermissions} />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        {/* Roles Tab */}
+        <TabsContent value="roles" className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <KeyRound className="h-5 w-5" />
+                Team Roles
+              </CardTitle>
+              <CardDescription>
+                Each role grants a set of capabilities. The owner always has all of them.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <TeamRoleList
+                teamId={teamId}
+                roles={roles}
+                canManage={canManage}
+                isOwner={isOwner}
+                onChanged={fetchRoles}
+              />
             </CardContent>
           </Card>
         </TabsContent>
@@ -13,13 +13,7 @@ import {
 } from '@/lib/db/app-db';
 import { validateConnectionAccess } from '@/lib/db/teams';
 import { getAIModel, getSystemPromptForSQL } from '@/lib/ai/providers';
-import {
-  fetchTables,
-  fetchColumns,
-  fetchIndexes,
-  fetchAllRelationships,
-  fetchForeignKeys,
-} from '@/lib/db/schema-fetcher';
+import { fetchEnrichedSchema } from '@/lib/db/schema-fetcher';
 import { aiChatSchema } from '@/lib/validations/ai';
 
 // Maximum number of previous messages to include in context
@@ -130,62 +124,6 @@ export async function POST(request: NextRequest) {
   }
 }
 
-async function fetchEnrichedSchema(connection: Parameters<typeof fetchTables>[0]): Promise<EnrichedSchema> {
-  const tables = await fetchTables(connection);
-  const relationships = await fetchAllRelationships(connection);
-
-  const enrichedTables = await Promise.all(
-    tables.map(async (table) => {
-      const columns = await fetchColumns(connection, table.name);
-      const foreignKeys = await fetchForeignKeys(connection, table.name);
-      let indexes: Awaited<ReturnType<typeof fetchIndexes>> = [];
-
-      try {
-        indexes = await fetchIndexes(connection, table.name);
-      } catch {
-        // Indexes are optional, continue without them
-      }
-
-      // Build a map of foreign key references
-      const fkMap = new Map(
-        foreignKeys.map((fk) => [fk.columnName, { table: fk.referencedTable, column: fk.referencedColumn }])
-      );
-
-      return {
-        name: table.name,
-        type: table.type as 'table' | 'view',
-        rowCount: table.rowCount,
-        columns: columns.map((col) => ({
-          name: col.name,
-          type: col.type,
-          nullable: col.nullable,
-          isPrimaryKey: col.isPrimaryKey,
-          isForeignKey: col.isForeignKey || fkMap.has(col.name),
-          autoIncrement: col.autoIncrement ?? false,
-          defaultValue: col.defaultValue,
-          references: fkMap.get(col.name) || col.references,
-        })),
-        indexes: indexes.map((idx) => ({
-          name: idx.name,
-          columns: idx.columns,
-          unique: idx.unique,
-          primary: idx.primary,
-        })),
-      };
-    })
-  );
-
-  return {
-    tables: enrichedTables,
-    relationships: relationships.map((rel) => ({
-      fromTable: rel.fromTable,
-      fromColumn: rel.fromColumn,
-      toTable: rel.toTable,
-      toColumn: rel.toColumn,
-    })),
-  };
-}
-
 function formatEnrichedSchemaForAI(schema: EnrichedSchema): string {
   const tableSection = schema.tables
     .map((table) => {
@@ -6,9 +6,8 @@ import {
   shareConnection,
   unshareConnection,
   getUserTeams,
-  canManageTeam,
-  getUserRoleInTeam,
 } from '@/lib/db/teams';
+import { hasTeamCapability } from '@/lib/db/team-roles';
 import { connectionPermissions, type ConnectionPermission } from '@/lib/validations/team';
 
 type RouteParams = { params: Promise<{ id: string }> };
@@ -32,14 +31,12 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     // Get all teams this connection is shared with
     const shares = await getConnectionShares(id, user.id);
 
-    // Also get all teams the user can share to (teams where they can manage)
+    // Also get all teams the user can share to (teams where their role can share connections)
     const userTeams = await getUserTeams(user.id);
     const teamsUserCanShareTo = [];
 
     for (const team of userTeams) {
-      // Only admins and owners can share connections to teams
-      const role = await getUserRoleInTeam(team.id, user.id);
-      if (canManageTeam(role)) {
+      if (team.capabilities.includes('share_connections')) {
         teamsUserCanShareTo.push({
           teamId: team.id,
           teamName: team.name,
@@ -89,9 +86,8 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: 'Connection not found' }, { status: 404 });
     }
 
-    // Verify user can share to this team (must be admin or owner)
-    const role = await getUserRoleInTeam(teamId, user.id);
-    if (!canManageTeam(role)) {
+    // Verify user can share to this team
+    if (!(await hasTeamCapability(teamId, user.id, 'share_connections'))) {
       return NextResponse.json(
         { error: 'You do not have permission to share to this team' },
         { status: 403 }
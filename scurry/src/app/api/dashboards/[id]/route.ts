@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth/session';
+import { dashboardSchema } from '@/lib/validations/dashboard';
+import {
+  canUserModifyDashboard,
+  canUserViewDashboard,
+  deleteDashboard,
+  getDashboardById,
+  getDashboardWidgets,
+  updateDashboard,
+} from '@/lib/db/dashboards';
+import { getUserRoleInTeam } from '@/lib/db/teams';
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const canView = await canUserViewDashboard(user.id, id);
+    const dashboard = canView ? await getDashboardById(id) : null;
+    if (!dashboard) {
+      return NextResponse.json({ error: 'Dashboard not found' }, { status: 404 });
+    }
+
+    const widgets = await getDashboardWidgets(id);
+    const canEdit = await canUserModifyDashboard(user.id, id);
+
+    return NextResponse.json({ ...dashboard, widgets, canEdit });
+  } catch (error) {
+    console.error('Failed to get dashboard:', error);
+    return NextResponse.json({ error: 'Failed to get dashboard' }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const canModify = await canUserModifyDashboard(user.id, id);
+    if (!canModify) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const validationResult = dashboardSchema.partial().safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    // Sharing with a team needs the same role as creating a team dashboard
+    const { teamId } = validationResult.data;
+    if (teamId) {
+      const role = await getUserRoleInTeam(teamId, user.id);
+      if (!role || role === 'viewer') {
+        return NextResponse.json({ error: 'Cannot share dashboards with this team' }, { status: 403 });
+      }
+    }
+
+    const dashboard = await updateDashboard(id, validationResult.data);
+    if (!dashboard) {
+      return NextResponse.json({ error: 'Dashboard not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(dashboard);
+  } catch (error) {
+    console.error('Failed to update dashboard:', error);
+    return NextResponse.json({ error: 'Failed to update dashboard' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const canModify = await canUserModifyDashboard(user.id, id);
+    if (!canModify) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const deleted = await deleteDashboard(id);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Dashboard not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Failed to delete dashboard:', error);
+    return NextResponse.json({ error: 'Failed to delete dashboard' }, { status: 500 });
+  }
+}
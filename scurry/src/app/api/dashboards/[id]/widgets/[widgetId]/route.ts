@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth/session';
+import { updateDashboardWidgetSchema } from '@/lib/validations/dashboard';
+import {
+  canUserModifyDashboard,
+  deleteDashboardWidget,
+  getDashboardWidgetById,
+  updateDashboardWidget,
+} from '@/lib/db/dashboards';
+import { getSavedQueryById } from '@/lib/db/queries';
+import { getConnectionById } from '@/lib/db/app-db';
+import { checkWidgetQuery } from '@/lib/db/saved-query-runner';
+
+type RouteParams = { params: Promise<{ id: string; widgetId: string }> };
+
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, widgetId } = await params;
+
+    const canModify = await canUserModifyDashboard(user.id, id);
+    if (!canModify) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const existing = await getDashboardWidgetById(widgetId);
+    if (!existing || existing.dashboardId !== id) {
+      return NextResponse.json({ error: 'Widget not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const validationResult = updateDashboardWidgetSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    // A query that reads in one dialect may not in another
+    const connectionId = validationResult.data.connectionId;
+    if (connectionId && connectionId !== existing.connectionId) {
+      const [query, connection] = await Promise.all([
+        getSavedQueryById(existing.queryId),
+        getConnectionById(connectionId),
+      ]);
+      const readOnlyError = query ? checkWidgetQuery(query.sql, connection?.type ?? null) : null;
+      if (readOnlyError) {
+        return NextResponse.json({ error: readOnlyError }, { status: 400 });
+      }
+    }
+
+    const widget = await updateDashboardWidget(widgetId, validationResult.data);
+    return NextResponse.json(widget);
+  } catch (error) {
+    console.error('Failed to update dashboard widget:', error);
+    return NextResponse.json({ error: 'Failed to update dashboard widget' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, widgetId } = await params;
+
+    const canModify = await canUserModifyDashboard(user.id, id);
+    if (!canModify) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const existing = await getDashboardWidgetById(widgetId);
+    if (!existing || existing.dashboardId !== id) {
+      return NextResponse.json({ error: 'Widget not found' }, { status: 404 });
+    }
+
+    await deleteDashboardWidget(widgetId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Failed to delete dashboard widget:', error);
+    return NextResponse.json({ error: 'Failed to delete dashboard widget' }, { status: 500 });
+  }
+}
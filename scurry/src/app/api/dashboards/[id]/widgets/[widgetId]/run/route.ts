@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth/session';
+import { canUserViewDashboard, getDashboardById, getDashboardWidgetById } from '@/lib/db/dashboards';
+import { canUserAccessQuery, getSavedQueryById } from '@/lib/db/queries';
+import { runSavedQuery } from '@/lib/db/saved-query-runner';
+
+// Widgets draw summaries; a thousand rows is plenty for a chart or table
+const WIDGET_ROW_LIMIT = 1000;
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; widgetId: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, widgetId } = await params;
+
+    const canView = await canUserViewDashboard(user.id, id);
+    const dashboard = canView ? await getDashboardById(id) : null;
+    if (!dashboard) {
+      return NextResponse.json({ error: 'Dashboard not found' }, { status: 404 });
+    }
+
+    const widget = await getDashboardWidgetById(widgetId);
+    if (!widget || widget.dashboardId !== id) {
+      return NextResponse.json({ error: 'Widget not found' }, { status: 404 });
+    }
+
+    // The widget runs as the viewer, so the viewer needs access to its query
+    const canAccess = await canUserAccessQuery(user.id, widget.queryId);
+    const query = canAccess ? await getSavedQueryById(widget.queryId) : null;
+    if (!query) {
+      return NextResponse.json(
+        { error: 'You do not have access to the query behind this widget', permissionError: true },
+        { status: 403 }
+      );
+    }
+
+    const outcome = await runSavedQuery({
+      userId: user.id,
+      query,
+      connectionId: widget.connectionId,
+      teamId: dashboard.teamId ?? query.teamId,
+      values: widget.parameterValues,
+      limit: WIDGET_ROW_LIMIT,
+      source: 'dashboard',
+      readOnly: true,
+    });
+
+    if (!outcome.ok) {
+      return NextResponse.json(
+        {
+          error: outcome.error,
+          permissionError: outcome.permissionError,
+          violationType: outcome.violationType,
+          parameterErrors: outcome.parameterErrors,
+        },
+        { status: outcome.status }
+      );
+    }
+
+    return NextResponse.json(outcome.result);
+  } catch (error) {
+    console.error('Failed to run dashboard widget:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to run dashboard widget' },
+      { status: 500 }
+    );
+  }
+}
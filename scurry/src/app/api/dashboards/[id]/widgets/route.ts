@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth/session';
+import { dashboardWidgetSchema } from '@/lib/validations/dashboard';
+import { canUserModifyDashboard, createDashboardWidget, getDashboardById } from '@/lib/db/dashboards';
+import { canUserAccessQuery, getSavedQueryById } from '@/lib/db/queries';
+import { getConnectionById } from '@/lib/db/app-db';
+import { checkWidgetQuery } from '@/lib/db/saved-query-runner';
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const canModify = await canUserModifyDashboard(user.id, id);
+    const dashboard = canModify ? await getDashboardById(id) : null;
+    if (!dashboard) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const validationResult = dashboardWidgetSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const data = validationResult.data;
+
+    const canAccess = await canUserAccessQuery(user.id, data.queryId);
+    const query = canAccess ? await getSavedQueryById(data.queryId) : null;
+    if (!query) {
+      return NextResponse.json({ error: 'Query not found' }, { status: 404 });
+    }
+
+    // Everyone who can see a team dashboard must be able to see its queries
+    if (dashboard.teamId && query.teamId !== dashboard.teamId && !query.isPublic) {
+      return NextResponse.json(
+        { error: 'Only queries saved to this team can be pinned to a team dashboard' },
+        { status: 400 }
+      );
+    }
+
+    // Widgets re-run as every viewer, so they must not change data
+    const connectionId = data.connectionId ?? query.connectionId;
+    const connection = connectionId ? await getConnectionById(connectionId) : null;
+    const readOnlyError = checkWidgetQuery(query.sql, connection?.type ?? null);
+    if (readOnlyError) {
+      return NextResponse.json({ error: readOnlyError }, { status: 400 });
+    }
+
+    const widget = await createDashboardWidget({ dashboardId: id, ...data });
+    return NextResponse.json(widget, { status: 201 });
+  } catch (error) {
+    console.error('Failed to add dashboard widget:', error);
+    return NextResponse.json({ error: 'Failed to add dashboard widget' }, { status: 500 });
+  }
+}
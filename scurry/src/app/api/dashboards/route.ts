@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth/session';
+import { dashboardSchema } from '@/lib/validations/dashboard';
+import { createDashboard, getUserDashboards } from '@/lib/db/dashboards';
+import { getUserRoleInTeam } from '@/lib/db/teams';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const teamId = searchParams.get('teamId');
+
+    if (teamId && !(await getUserRoleInTeam(teamId, user.id))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const dashboards = await getUserDashboards(user.id, { teamId });
+    return NextResponse.json(dashboards);
+  } catch (error) {
+    console.error('Failed to get dashboards:', error);
+    return NextResponse.json({ error: 'Failed to get dashboards' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validationResult = dashboardSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { name, description, teamId } = validationResult.data;
+
+    if (teamId) {
+      const role = await getUserRoleInTeam(teamId, user.id);
+      if (!role || role === 'viewer') {
+        return NextResponse.json({ error: 'Cannot create dashboards in this team' }, { status: 403 });
+      }
+    }
+
+    const dashboard = await createDashboard({ userId: user.id, teamId, name, description });
+    return NextResponse.json(dashboard, { status: 201 });
+  } catch (error) {
+    console.error('Failed to create dashboard:', error);
+    return NextResponse.json({ error: 'Failed to create dashboard' }, { status: 500 });
+  }
+}
@@ -0,0 +1,58 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { isConnectionProtected } from '@/lib/db/teams';
+import { revertDataChanges } from '@/lib/db/data-revert';
+import { POST } from './route';
+
+vi.mock('@/lib/auth/session', () => ({ getCurrentUser: vi.fn(async () => ({ id: 'user-1' })) }));
+vi.mock('@/lib/db/app-db', () => ({ getConnectionById: vi.fn(async () => ({ id: connectionId, name: 'Production' })) }));
+vi.mock('@/lib/db/data-changes', () => ({ getDataChangeSetById: vi.fn() }));
+vi.mock('@/lib/db/activities', () => ({ logActivity: vi.fn() }));
+vi.mock('@/lib/db/teams', () => ({ isConnectionProtected: vi.fn() }));
+vi.mock('@/lib/db/data-revert', () => ({
+  revertDataChanges: vi.fn(async () => ({ revertedCount: 0, steps: [] })),
+}));
+
+const connectionId = '5b0e4a8e-2f3c-4d5e-8a9b-0c1d2e3f4a5b';
+const logId = '9d8c7b6a-5f4e-4d3c-8b2a-1f0e9d8c7b6a';
+
+function revert(dryRun: boolean) {
+  return POST(new NextRequest('http://localhost/api/data/changes/revert', {
+    method: 'POST',
+    body: JSON.stringify({ connectionId, logIds: [logId], dryRun }),
+  }));
+}
+
+describe('POST /api/data/changes/revert', () => {
+  beforeEach(() => {
+    vi.mocked(revertDataChanges).mockClear();
+  });
+
+  it('needs a change request to revert on a protected connection', async () => {
+    vi.mocked(isConnectionProtected).mockResolvedValue(true);
+
+    const response = await revert(false);
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({ approvalRequired: true, dangerLevel: 'write' });
+    expect(revertDataChanges).not.toHaveBeenCalled();
+  });
+
+  it('still previews a revert on a protected connection', async () => {
+    vi.mocked(isConnectionProtected).mockResolvedValue(true);
+
+    const response = await revert(true);
+
+    expect(response.status).toBe(200);
+    expect(revertDataChanges).toHaveBeenCalledOnce();
+  });
+
+  it('reverts directly on an unprotected connection', async () => {
+    vi.mocked(isConnectionProtected).mockResolvedValue(false);
+
+    const response = await revert(false);
+
+    expect(response.status).toBe(200);
+    expect(revertDataChanges).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getCurrentUser } from '@/lib/auth/session';
+import { getConnectionById } from '@/lib/db/app-db';
+import { revertDataChanges } from '@/lib/db/data-revert';
+import { getDataChangeSetById } from '@/lib/db/data-changes';
+import { logActivity } from '@/lib/db/activities';
+import { checkWriteApproval } from '@/lib/change-requests/change-policy';
+
+const revertSchema = z.object({
+  connectionId: z.string().uuid(),
+  logIds: z.array(z.string().uuid()).min(1, 'At least one change is required').max(500).optional(),
+  changeSetId: z.string().uuid().optional(),
+  dryRun: z.boolean().optional(),
+  force: z.boolean().optional(),
+}).refine((data) => data.logIds || data.changeSetId, {
+  message: 'Either logIds or changeSetId is required',
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validationResult = revertSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { connectionId, changeSetId, dryRun, force } = validationResult.data;
+
+    const connection = await getConnectionById(connectionId, user.id);
+    if (!connection) {
+      return NextResponse.json({ error: 'Connection not found' }, { status: 404 });
+    }
+
+    let logIds = validationResult.data.logIds ?? [];
+    if (changeSetId) {
+      const set = await getDataChangeSetById(connectionId, changeSetId);
+      if (!set) {
+        return NextResponse.json({ error: 'Change set not found' }, { status: 404 });
+      }
+      logIds = set.changes.map((change) => change.id);
+    }
+
+    // Reverting writes to the connection, so a protected one needs a change request
+    if (!dryRun) {
+      const approval = await checkWriteApproval(connectionId);
+      if (approval) {
+        return NextResponse.json(approval, { status: 403 });
+      }
+    }
+
+    const result = await revertDataChanges(connection, logIds, user.id, { dryRun, force });
+
+    if (result.revertedCount > 0) {
+      const tableNames = Array.from(new Set(result.steps.map((step) => step.tableName)));
+      await logActivity({
+        userId: user.id,
+        action: 'data_reverted',
+        resourceType: 'connection',
+        resourceId: connectionId,
+        metadata: {
+          tableName: tableNames.join(', '),
+          rowCount: result.revertedCount,
+          connectionName: connection.name,
+        },
+      });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error reverting changes:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to revert changes' },
+      { status: 500 }
+    );
+  }
+}
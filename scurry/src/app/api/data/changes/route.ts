@@ -2,8 +2,14 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/auth/session';
 import { getConnectionById } from '@/lib/db/app-db';
 import { applyDataChanges } from '@/lib/db/data-changes';
+import { validateConnectionAccess } from '@/lib/db/teams';
+import { getEffectivePermissions } from '@/lib/db/permissions';
+import { filterAllowedTables, getTableOperations } from '@/lib/permissions/validator';
+import { getTableRowFilter, RowFilterError } from '@/lib/permissions/row-filters';
 import { logActivity } from '@/lib/db/activities';
-import type { ApplyChangesRequest } from '@/types';
+import { checkWriteApproval } from '@/lib/change-requests/change-policy';
+import { APPLY_CHANGES_MODES, type ApplyChangesRequest } from '@/types';
+import type { PermissionOperation } from '@/lib/validations/team';
 
 export async function POST(request: NextRequest) {
   try {
@@ -13,7 +19,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body: ApplyChangesRequest = await request.json();
-    const { connectionId, tableName, primaryKeyColumns, changes } = body;
+    const { connectionId, tableName, primaryKeyColumns, changes, mode, teamId } = body;
 
     if (!connectionId || !tableName || !primaryKeyColumns || !changes) {
       return NextResponse.json(
@@ -22,17 +28,57 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const connection = await getConnectionById(connectionId, user.id);
+    if (mode !== undefined && !APPLY_CHANGES_MODES.includes(mode)) {
+      return NextResponse.json(
+        { error: `Invalid mode: expected one of ${APPLY_CHANGES_MODES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const accessValidation = await validateConnectionAccess(user.id, connectionId, teamId || null);
+    if (!accessValidation.isValid) {
+      return NextResponse.json({ error: accessValidation.error || 'Access denied' }, { status: 403 });
+    }
+
+    // Team connections are fetched without the user filter
+    const connection = teamId
+      ? await getConnectionById(connectionId)
+      : await getConnectionById(connectionId, user.id);
     if (!connection) {
       return NextResponse.json({ error: 'Connection not found' }, { status: 404 });
     }
 
+    // Edits on a team connection are limited to the operations granted on the table and its row filter
+    let rowFilter: string | null = null;
+    let operations: PermissionOperation[] | undefined;
+    if (teamId) {
+      const permission = await getEffectivePermissions(user.id, teamId, connectionId);
+      if (filterAllowedTables([tableName], permission).length === 0) {
+        return NextResponse.json({ error: 'You do not have access to this table' }, { status: 403 });
+      }
+
+      operations = getTableOperations(tableName, permission);
+      try {
+        rowFilter = getTableRowFilter(tableName, permission, connection.type);
+      } catch (error) {
+        if (!(error instanceof RowFilterError)) throw error;
+        return NextResponse.json({ error: error.message }, { status: 403 });
+      }
+    }
+
+    // Changes on a protected connection have to go through a change request
+    const approval = await checkWriteApproval(connectionId);
+    if (approval) {
+      return NextResponse.json(approval, { status: 403 });
+    }
+
     const result = await applyDataChanges(
       connection,
       tableName,
       primaryKeyColumns,
       changes,
-      user.id
+      user.id,
+      { mode, rowFilter, operations }
     );
 
     // Log activity for successful changes
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth/session';
+import { getConnectionById } from '@/lib/db/app-db';
+import { getDataChangeSetById } from '@/lib/db/data-changes';
+import { buildChangeSetScript } from '@/lib/db/change-set-script';
+import type { DatabaseType } from '@/lib/db/sql-utils';
+
+type RouteParams = { params: Promise<{ changeSetId: string }> };
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { changeSetId } = await params;
+    const { searchParams } = new URL(request.url);
+    const connectionId = searchParams.get('connectionId');
+    const direction = searchParams.get('direction') || 'apply';
+
+    if (!connectionId) {
+      return NextResponse.json(
+        { error: 'Missing required parameter: connectionId' },
+        { status: 400 }
+      );
+    }
+
+    if (direction !== 'apply' && direction !== 'rollback') {
+      return NextResponse.json(
+        { error: 'Invalid direction: expected apply or rollback' },
+        { status: 400 }
+      );
+    }
+
+    const connection = await getConnectionById(connectionId, user.id);
+    if (!connection) {
+      return NextResponse.json({ error: 'Connection not found' }, { status: 404 });
+    }
+
+    const set = await getDataChangeSetById(connectionId, changeSetId);
+    if (!set) {
+      return NextResponse.json({ error: 'Change set not found' }, { status: 404 });
+    }
+
+    const script = buildChangeSetScript(set, connection.type as DatabaseType, direction);
+    const suffix = direction === 'rollback' ? '-rollback' : '';
+
+    return new Response(script, {
+      headers: {
+        'Content-Type': 'application/sql; charset=utf-8',
+        'Content-Disposition': `attachment; filename="change-set-${set.id}${suffix}.sql"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting change set:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to export change set' },
+      { status: 500 }
+    );
+  }
+}
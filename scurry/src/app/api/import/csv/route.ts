@@ -3,7 +3,10 @@ import { z } from 'zod';
 import { getCurrentUser } from '@/lib/auth/session';
 import { getConnectionById } from '@/lib/db/app-db';
 import { validateConnectionAccess } from '@/lib/db/teams';
+import { getEffectivePermissions } from '@/lib/db/permissions';
+import { filterAllowedColumns, filterAllowedTables, getTableOperations, validateQuery } from '@/lib/permissions/validator';
 import { getPoolManager } from '@/lib/db/connection-pool';
+import { checkWriteApproval } from '@/lib/change-requests/change-policy';
 import type { DatabaseType } from '@/types';
 
 const importSchema = z.object({
@@ -65,6 +68,35 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'At least one column must be imported' }, { status: 400 });
     }
 
+    // Team members need INSERT on the table, and DDL to create it
+    if (teamId) {
+      const permission = await getEffectivePermissions(user.id, teamId, connectionId);
+      if (createTable && createTableSQL) {
+        const createValidation = validateQuery(createTableSQL, permission, connection.type);
+        if (!createValidation.allowed) {
+          return NextResponse.json({ error: createValidation.reason || 'Permission denied' }, { status: 403 });
+        }
+      }
+      if (filterAllowedTables([tableName], permission).length === 0) {
+        return NextResponse.json({ error: 'You do not have access to this table' }, { status: 403 });
+      }
+      if (!getTableOperations(tableName, permission).includes('insert')) {
+        return NextResponse.json({ error: 'You do not have INSERT permission on this table' }, { status: 403 });
+      }
+      const dbColumns = activeColumns.map(c => c.dbColumn);
+      const allowedColumns = filterAllowedColumns(tableName, dbColumns, permission);
+      const hidden = dbColumns.filter(column => !allowedColumns.includes(column));
+      if (hidden.length > 0) {
+        return NextResponse.json({ error: `You do not have access to column: ${hidden[0]}` }, { status: 403 });
+      }
+    }
+
+    // Changes on a protected connection have to go through a change request
+    const approval = await checkWriteApproval(connectionId);
+    if (approval) {
+      return NextResponse.json(approval, { status: 403 });
+    }
+
     let insertedRows = 0;
     const errors: Array<{ row: number; error: string }> = [];
 
@@ -3,6 +3,9 @@ import { z } from 'zod';
 import { getCurrentUser } from '@/lib/auth/session';
 import { getConnectionById } from '@/lib/db/app-db';
 import { validateConnectionAccess } from '@/lib/db/teams';
+import { getEffectivePermissions } from '@/lib/db/permissions';
+import { validateQuery } from '@/lib/permissions/validator';
+import { checkChangeApproval } from '@/lib/change-requests/change-policy';
 import { getPoolManager } from '@/lib/db/connection-pool';
 import { parseSQLStatements } from '@/lib/import/sql-importer';
 
@@ -54,6 +57,31 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'No SQL statements found' }, { status: 400 });
     }
 
+    // Every statement must be allowed before any of them runs
+    const statementSql = statements.map((stmt) => stmt.sql);
+    if (teamId) {
+      const permission = await getEffectivePermissions(user.id, teamId, connectionId);
+      for (const [i, stmt] of statements.entries()) {
+        const validation = validateQuery(stmt.sql, permission, connection.type);
+        if (!validation.allowed) {
+          return NextResponse.json(
+            {
+              error: `Statement ${i + 1} (line ${stmt.startLine + 1}): ${validation.reason || 'Permission denied'}`,
+              violationType: validation.violationType,
+            },
+            { status: 403 }
+          );
+        }
+        statementSql[i] = validation.sql ?? stmt.sql;
+      }
+    }
+
+    // Changes on a protected connection have to go through a change request
+    const approval = await checkChangeApproval(connectionId, sql, connection.type);
+    if (approval) {
+      return NextResponse.json(approval, { status: 403 });
+    }
+
     // Get pool manager
     const poolManager = getPoolManager();
 
@@ -70,7 +98,7 @@ export async function POST(request: NextRequest) {
       const stmt = statements[i];
       
       try {
-        await poolManager.executeQuery(connection, stmt.sql);
+        await poolManager.executeQuery(connection, statementSql[i]);
         executedStatements++;
       } catch (error) {
         const errorInfo = {
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth/session';
+import { canUserModifyQuery, updateSavedQuery } from '@/lib/db/queries';
+import { getQueryRevisionById } from '@/lib/db/query-revisions';
+import { logActivity } from '@/lib/db/activities';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; revisionId: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, revisionId } = await params;
+
+    const canModify = await canUserModifyQuery(user.id, id);
+    if (!canModify) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const restored = await getQueryRevisionById(revisionId);
+    if (!restored || restored.queryId !== id) {
+      return NextResponse.json({ error: 'Revision not found' }, { status: 404 });
+    }
+
+    // Restoring writes the old content as a new revision; history is never rewritten
+    const updated = await updateSavedQuery(id, {
+      name: restored.name,
+      description: restored.description,
+      sql: restored.sql,
+      parameters: restored.parameters,
+      folder: restored.folder,
+      tags: restored.tags,
+      chart: restored.chart,
+    }, user.id);
+    if (!updated) {
+      return NextResponse.json({ error: 'Query not found' }, { status: 404 });
+    }
+    const { query, revision } = updated;
+
+    await logActivity({
+      teamId: query.teamId,
+      userId: user.id,
+      action: 'query_updated',
+      resourceType: 'query',
+      resourceId: query.id,
+      metadata: {
+        queryName: query.name,
+        revisionId: revision.id,
+        revisionNumber: revision.revisionNumber,
+        restoredFromRevision: restored.revisionNumber,
+      },
+    });
+
+    return NextResponse.json({ query, revision });
+  } catch (error) {
+    console.error('Failed to restore query revision:', error);
+    return NextResponse.json({ error: 'Failed to restore query revision' }, { status: 500 });
+  }
+}
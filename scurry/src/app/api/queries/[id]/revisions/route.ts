@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth/session';
+import { canUserAccessQuery } from '@/lib/db/queries';
+import { getQueryRevisions } from '@/lib/db/query-revisions';
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const canAccess = await canUserAccessQuery(user.id, id);
+    if (!canAccess) {
+      return NextResponse.json({ error: 'Query not found' }, { status: 404 });
+    }
+
+    const revisions = await getQueryRevisions(id);
+    return NextResponse.json(revisions);
+  } catch (error) {
+    console.error('Failed to get query revisions:', error);
+    return NextResponse.json({ error: 'Failed to get query revisions' }, { status: 500 });
+  }
+}
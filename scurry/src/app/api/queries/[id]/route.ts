@@ -3,6 +3,7 @@ import { getCurrentUser } from '@/lib/auth/session';
 import { savedQuerySchema } from '@/lib/validations/team';
 import { getSavedQueryById, updateSavedQuery, deleteSavedQuery, canUserAccessQuery, canUserModifyQuery } from '@/lib/db/queries';
 import { logActivity } from '@/lib/db/activities';
+import { syncParameters } from '@/lib/sql/query-parameters';
 
 export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   try {
@@ -55,19 +56,28 @@ export async function PUT(request: NextRequest, { params }: { params: Promise<{
     }
 
     const existingQuery = await getSavedQueryById(id);
-    const query = await updateSavedQuery(id, validationResult.data);
-    if (!query) {
+    const updates = validationResult.data;
+    if (existingQuery && (updates.sql !== undefined || updates.parameters !== undefined)) {
+      updates.parameters = syncParameters(
+        updates.sql ?? existingQuery.sql,
+        updates.parameters ?? existingQuery.parameters
+      );
+    }
+
+    const updated = await updateSavedQuery(id, updates, user.id);
+    if (!updated) {
       return NextResponse.json({ error: 'Query not found' }, { status: 404 });
     }
+    const { query, revision } = updated;
 
-    // Log activity
+    // Log activity, linking to the revision this update produced
     await logActivity({
       teamId: query.teamId,
       userId: user.id,
       action: 'query_updated',
       resourceType: 'query',
       resourceId: query.id,
-      metadata: { queryName: query.name },
+      metadata: { queryName: query.name, revisionId: revision.id, revisionNumber: revision.revisionNumber },
     });
 
     // If query was just shared with a team, log that too
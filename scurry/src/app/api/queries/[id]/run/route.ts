@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getCurrentUser } from '@/lib/auth/session';
+import { canUserAccessQuery, getSavedQueryById } from '@/lib/db/queries';
+import { runSavedQuery } from '@/lib/db/saved-query-runner';
+
+const runSavedQuerySchema = z.object({
+  // Defaults to the connection the query was saved with
+  connectionId: z.string().uuid().optional(),
+  teamId: z.string().uuid().optional().nullable(),
+  values: z.record(z.string(), z.union([z.string(), z.number(), z.boolean(), z.null()])).optional().default({}),
+  limit: z.number().int().min(1).max(10000).optional(),
+});
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const canAccess = await canUserAccessQuery(user.id, id);
+    const query = canAccess ? await getSavedQueryById(id) : null;
+    if (!query) {
+      return NextResponse.json({ error: 'Query not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const validationResult = runSavedQuerySchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { connectionId, teamId, values, limit } = validationResult.data;
+
+    const outcome = await runSavedQuery({
+      userId: user.id,
+      query,
+      connectionId,
+      teamId,
+      values,
+      limit,
+      source: 'saved_query',
+    });
+
+    if (!outcome.ok) {
+      return NextResponse.json(
+        {
+          error: outcome.error,
+          permissionError: outcome.permissionError,
+          violationType: outcome.violationType,
+          parameterErrors: outcome.parameterErrors,
+        },
+        { status: outcome.status }
+      );
+    }
+
+    return NextResponse.json(outcome.result);
+  } catch (error) {
+    console.error('Failed to run saved query:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to run saved query' },
+      { status: 500 }
+    );
+  }
+}
@@ -4,6 +4,7 @@ import { savedQuerySchema } from '@/lib/validations/team';
 import { createSavedQuery, getUserSavedQueries } from '@/lib/db/queries';
 import { logActivity } from '@/lib/db/activities';
 import { getUserRoleInTeam } from '@/lib/db/teams';
+import { syncParameters } from '@/lib/sql/query-parameters';
 
 export async function GET(request: NextRequest) {
   try {
@@ -19,6 +20,8 @@ export async function GET(request: NextRequest) {
     const queries = await getUserSavedQueries(user.id, {
       teamId: teamId || undefined,
       includeTeamQueries,
+      folder: searchParams.get('folder'),
+      tag: searchParams.get('tag'),
     });
 
     return NextResponse.json(queries);
@@ -45,7 +48,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { name, description, sql, connectionId, teamId, isPublic } = validationResult.data;
+    const { name, description, sql, connectionId, teamId, isPublic, parameters, folder, tags, chart } = validationResult.data;
 
     // If sharing with a team, verify user has access
     if (teamId) {
@@ -63,6 +66,11 @@ export async function POST(request: NextRequest) {
       description: description || null,
       sql,
       isPublic: isPublic || false,
+      // Stored definitions always match the parameters the SQL references
+      parameters: syncParameters(sql, parameters),
+      folder,
+      tags,
+      chart,
     });
 
     // Log activity
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getCurrentUser } from '@/lib/auth/session';
+import { cancelRunningQuery } from '@/lib/db/running-queries';
+
+const cancelQuerySchema = z.object({
+  executionId: z.string().uuid(),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const validationResult = cancelQuerySchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const result = await cancelRunningQuery(validationResult.data.executionId, user.id);
+    if (!result.cancelled) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({ cancelled: true });
+  } catch (error) {
+    console.error('Query cancel error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to cancel query' },
+      { status: 500 }
+    );
+  }
+}
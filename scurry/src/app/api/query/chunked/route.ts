@@ -6,13 +6,18 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
 import { z } from 'zod';
 import { getConnectionById, isDDLQuery, invalidateSchemaCache } from '@/lib/db/app-db';
-import { executeQuery } from '@/lib/db/query-executor';
+import { executeQueryWithOptions } from '@/lib/db/query-executor';
 import { getCurrentUser } from '@/lib/auth/session';
 import { validateConnectionAccess } from '@/lib/db/teams';
 import { getEffectivePermissions } from '@/lib/db/permissions';
 import { validateQuery } from '@/lib/permissions/validator';
+import { checkChangeApproval } from '@/lib/change-requests/change-policy';
+import { getResultColumnMasks, maskColumns, maskRows, type ColumnMasks } from '@/lib/permissions/masking';
+import { recordQueryExecution } from '@/lib/db/query-history';
+import { trackRunningQuery } from '@/lib/db/running-queries';
 import { wrapQueryWithPagination, hasLimitClause } from '@/lib/db/pagination';
 import type { ColumnInfo } from '@/types';
 
@@ -22,6 +27,7 @@ const chunkedQuerySchema = z.object({
   chunkSize: z.number().int().min(100).max(5000).optional().default(1000),
   chunkIndex: z.number().int().min(0).optional().default(0),
   teamId: z.string().uuid().optional().nullable(),
+  executionId: z.string().uuid().optional(),
 });
 
 export interface ChunkedQueryResponse {
@@ -88,9 +94,11 @@ export async function POST(request: NextRequest) {
     }
 
     // Check permissions for team connections
+    let masks: ColumnMasks = new Map();
+    let filteredSql = sql;
     if (teamId) {
       const permission = await getEffectivePermissions(user.id, teamId, connectionId);
-      const validation = validateQuery(sql, permission);
+      const validation = validateQuery(sql, permission, connection.type);
 
       if (!validation.allowed) {
         return NextResponse.json(
@@ -107,6 +115,26 @@ export async function POST(request: NextRequest) {
           { status: 403 }
         );
       }
+      masks = getResultColumnMasks(sql, permission, connection.type);
+      filteredSql = validation.sql ?? sql;
+    }
+
+    // Changes on a protected connection have to go through a change request
+    const approval = await checkChangeApproval(connectionId, sql, connection.type);
+    if (approval) {
+      return NextResponse.json(
+        {
+          columns: [],
+          rows: [],
+          chunkIndex,
+          chunkSize,
+          rowsInChunk: 0,
+          hasMore: false,
+          executionTime: 0,
+          ...approval,
+        },
+        { status: 403 }
+      );
     }
 
     // Calculate offset for this chunk
@@ -131,10 +159,10 @@ export async function POST(request: NextRequest) {
           error: 'Cannot chunk a query that already has LIMIT clause',
         });
       }
-      chunkedSql = sql;
+      chunkedSql = filteredSql;
     } else {
       chunkedSql = wrapQueryWithPagination(
-        sql,
+        filteredSql,
         chunkSize + 1, // Fetch one extra to detect hasMore
         offset,
         connection.type
@@ -142,7 +170,25 @@ export async function POST(request: NextRequest) {
     }
 
     // Execute the chunked query
-    const result = await executeQuery(connection, chunkedSql, chunkSize + 1);
+    const executionId = validationResult.data.executionId ?? uuidv4();
+    const result = await trackRunningQuery(
+      { executionId, userId: user.id, connectionId },
+      () => executeQueryWithOptions(connection, chunkedSql, undefined, { limit: chunkSize + 1, executionId })
+    );
+
+    // Later chunks re-run the same query, so only the first one goes into history
+    if (chunkIndex === 0) {
+      await recordQueryExecution({
+        userId: user.id,
+        teamId,
+        connectionId,
+        sql,
+        source: 'chunked',
+        executionTime: result.executionTime,
+        rowCount: Math.min(result.rows.length, chunkSize),
+        error: result.error,
+      });
+    }
 
     if (result.error) {
       return NextResponse.json({
@@ -159,7 +205,7 @@ export async function POST(request: NextRequest) {
 
     // Determine if there are more chunks
     const hasMore = result.rows.length > chunkSize;
-    const rows = hasMore ? result.rows.slice(0, chunkSize) : result.rows;
+    const rows = maskRows(hasMore ? result.rows.slice(0, chunkSize) : result.rows, result.columns, masks);
 
     // Invalidate schema cache if DDL
     if (isDDLQuery(sql)) {
@@ -167,7 +213,7 @@ export async function POST(request: NextRequest) {
     }
 
     const response: ChunkedQueryResponse = {
-      columns: result.columns,
+      columns: maskColumns(result.columns, masks),
       rows,
       chunkIndex,
       chunkSize,
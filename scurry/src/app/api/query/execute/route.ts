@@ -1,17 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
 import { z } from 'zod';
 import { getConnectionById, isDDLQuery, invalidateSchemaCache } from '@/lib/db/app-db';
-import { executeQuery } from '@/lib/db/query-executor';
+import { executeQueryWithOptions } from '@/lib/db/query-executor';
 import { getCurrentUser } from '@/lib/auth/session';
 import { validateConnectionAccess } from '@/lib/db/teams';
 import { getEffectivePermissions } from '@/lib/db/permissions';
 import { validateQuery } from '@/lib/permissions/validator';
+import { checkChangeApproval } from '@/lib/change-requests/change-policy';
+import { applyColumnMasking, getResultColumnMasks, type ColumnMasks } from '@/lib/permissions/masking';
+import { recordQueryExecution } from '@/lib/db/query-history';
+import { trackRunningQuery } from '@/lib/db/running-queries';
 
 const executeQuerySchema = z.object({
   connectionId: z.string().uuid(),
   sql: z.string().min(1, 'SQL query is required'),
   limit: z.number().int().min(1).max(10000).optional(),
   teamId: z.string().uuid().optional().nullable(),
+  // Chosen by the client so it can cancel the query while it runs
+  executionId: z.string().uuid().optional(),
 });
 
 export async function POST(request: NextRequest) {
@@ -27,6 +34,7 @@ export async function POST(request: NextRequest) {
     }
 
     const { connectionId, sql, limit, teamId } = validationResult.data;
+    const executionId = validationResult.data.executionId ?? uuidv4();
 
     const user = await getCurrentUser();
     if (!user) {
@@ -65,9 +73,11 @@ export async function POST(request: NextRequest) {
     }
 
     // Check permissions if this is a team connection
+    let masks: ColumnMasks = new Map();
+    let filteredSql = sql;
     if (teamId) {
       const permission = await getEffectivePermissions(user.id, teamId, connectionId);
-      const validation = validateQuery(sql, permission);
+      const validation = validateQuery(sql, permission, connection.type);
       
       if (!validation.allowed) {
         return NextResponse.json(
@@ -83,16 +93,41 @@ export async function POST(request: NextRequest) {
           { status: 403 }
         );
       }
+      masks = getResultColumnMasks(sql, permission, connection.type);
+      filteredSql = validation.sql ?? sql;
     }
 
-    const result = await executeQuery(connection, sql, limit);
+    // Changes on a protected connection have to go through a change request
+    const approval = await checkChangeApproval(connectionId, sql, connection.type);
+    if (approval) {
+      return NextResponse.json(
+        { columns: [], rows: [], rowCount: 0, executionTime: 0, permissionError: true, ...approval },
+        { status: 403 }
+      );
+    }
+
+    const result = await trackRunningQuery(
+      { executionId, userId: user.id, connectionId },
+      () => executeQueryWithOptions(connection, filteredSql, undefined, { limit, executionId })
+    );
+
+    await recordQueryExecution({
+      userId: user.id,
+      teamId,
+      connectionId,
+      sql,
+      source: 'execute',
+      executionTime: result.executionTime,
+      rowCount: result.rowCount,
+      error: result.error,
+    });
     
     // Invalidate schema cache if this was a DDL query
     if (isDDLQuery(sql)) {
       await invalidateSchemaCache(connectionId);
     }
     
-    return NextResponse.json(result);
+    return NextResponse.json({ ...applyColumnMasking(result, masks), executionId });
   } catch (error) {
     console.error('Query execution error:', error);
     return NextResponse.json(
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getConnectionById } from '@/lib/db/app-db';
+import { explainQuery } from '@/lib/db/explain';
+import { getCurrentUser } from '@/lib/auth/session';
+import { validateConnectionAccess } from '@/lib/db/teams';
+import { getEffectivePermissions } from '@/lib/db/permissions';
+import { validateQuery } from '@/lib/permissions/validator';
+import { checkChangeApproval } from '@/lib/change-requests/change-policy';
+
+const explainQuerySchema = z.object({
+  connectionId: z.string().uuid(),
+  sql: z.string().min(1, 'SQL query is required'),
+  teamId: z.string().uuid().optional().nullable(),
+  analyze: z.boolean().optional(),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const validationResult = explainQuerySchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { connectionId, sql, teamId, analyze } = validationResult.data;
+
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const accessValidation = await validateConnectionAccess(user.id, connectionId, teamId || null);
+    if (!accessValidation.isValid) {
+      return NextResponse.json(
+        { error: accessValidation.error || 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    const connection = teamId
+      ? await getConnectionById(connectionId)
+      : await getConnectionById(connectionId, user.id);
+
+    if (!connection) {
+      return NextResponse.json(
+        { error: 'Connection not found' },
+        { status: 404 }
+      );
+    }
+
+    // Explaining reveals table structure and ANALYZE runs the statement,
+    // so it takes the same permission as running the query
+    let filteredSql = sql;
+    if (teamId) {
+      const permission = await getEffectivePermissions(user.id, teamId, connectionId);
+      const validation = validateQuery(sql, permission, connection.type);
+
+      if (!validation.allowed) {
+        return NextResponse.json(
+          { error: validation.reason || 'Permission denied', violationType: validation.violationType },
+          { status: 403 }
+        );
+      }
+      filteredSql = validation.sql ?? sql;
+    }
+
+    // EXPLAIN ANALYZE runs the statement, so changes on a protected connection need approval
+    const approval = analyze ? await checkChangeApproval(connectionId, sql, connection.type) : null;
+    if (approval) {
+      return NextResponse.json(approval, { status: 403 });
+    }
+
+    const plan = await explainQuery(connection, filteredSql, { analyze });
+    return NextResponse.json({ plan });
+  } catch (error) {
+    console.error('Query explain error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to explain query' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,256 @@
+/**
+ * Query Export API
+ *
+ * Re-runs a query server-side and streams the complete result as a file.
+ * On PostgreSQL the result is read page by page through a cursor, so large
+ * results are never held in memory at once. Other databases read it in one
+ * pass: paging with LIMIT/OFFSET could skip or repeat rows, since without a
+ * total ORDER BY the row order may change between pages.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getConnectionById } from '@/lib/db/app-db';
+import { getPoolManager, type PoolQueryResult } from '@/lib/db/connection-pool';
+import { getCurrentUser } from '@/lib/auth/session';
+import { validateConnectionAccess } from '@/lib/db/teams';
+import { getEffectivePermissions, type EffectivePermission } from '@/lib/db/permissions';
+import { validateQuery } from '@/lib/permissions/validator';
+import { checkChangeApproval } from '@/lib/change-requests/change-policy';
+import { getResultColumnMasks, maskColumns, maskRows, type ColumnMasks } from '@/lib/permissions/masking';
+import { validateIdentifier } from '@/lib/db/sql-utils';
+import { parseTableReferences } from '@/lib/sql/sql-completion';
+import { createExportWriter, exportFormats } from '@/lib/export/result-exporter';
+import type { ColumnInfo, DatabaseConnection } from '@/types';
+
+// Rows fetched per page while streaming
+const EXPORT_PAGE_SIZE = 1000;
+// Hard cap on exported rows - configurable via environment variable
+const EXPORT_MAX_ROWS = parseInt(process.env.EXPORT_MAX_ROWS || '1000000', 10);
+
+const exportQuerySchema = z.object({
+  connectionId: z.string().uuid(),
+  sql: z.string().min(1, 'SQL query is required'),
+  format: z.enum(exportFormats),
+  tableName: z.string().optional(),
+  teamId: z.string().uuid().optional().nullable(),
+});
+
+/**
+ * A query's result, read a page at a time. next is null when the first page
+ * already holds the whole result; close must be called once reading stops.
+ */
+interface ResultReader {
+  first: PoolQueryResult;
+  next: (() => Promise<PoolQueryResult>) | null;
+  close: () => Promise<void>;
+}
+
+/**
+ * Read the result through a server-side cursor, so every page continues
+ * exactly where the previous one ended. The cursor's transaction stays open
+ * until the reader is closed.
+ */
+function openCursor(connection: DatabaseConnection, sql: string): Promise<ResultReader> {
+  let finish!: () => void;
+  const finished = new Promise<void>((resolve) => { finish = resolve; });
+
+  return new Promise((resolve, reject) => {
+    const transaction = getPoolManager().transaction(connection, async (query) => {
+      await query(`DECLARE export_rows NO SCROLL CURSOR FOR ${sql.trim().replace(/;\s*$/, '')}`);
+      const fetchPage = () => query(`FETCH ${EXPORT_PAGE_SIZE} FROM export_rows`);
+      resolve({
+        first: await fetchPage(),
+        next: fetchPage,
+        close: async () => {
+          finish();
+          await transaction.catch(() => undefined);
+        },
+      });
+      await finished;
+    });
+    transaction.catch(reject);
+  });
+}
+
+async function openResult(connection: DatabaseConnection, sql: string): Promise<ResultReader> {
+  if (connection.type === 'postgresql') {
+    return openCursor(connection, sql);
+  }
+  const first = await getPoolManager().executeQuery(connection, sql, undefined, { limit: EXPORT_MAX_ROWS });
+  return { first, next: null, close: async () => {} };
+}
+
+/**
+ * Hidden columns of every table the query reads from. Aliased or computed
+ * columns can't be traced to a source, so any result column whose name is
+ * hidden on a referenced table is dropped.
+ */
+function getHiddenResultColumns(sql: string, permission: EffectivePermission): Set<string> {
+  const hidden = new Set<string>();
+  for (const ref of parseTableReferences(sql)) {
+    const columns = permission.hiddenColumns.get(ref.table.toLowerCase());
+    columns?.forEach(col => hidden.add(col.toLowerCase()));
+  }
+  return hidden;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const validationResult = exportQuerySchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { connectionId, sql, format, teamId } = validationResult.data;
+
+    if (!/^\s*(select|with)\b/i.test(sql)) {
+      return NextResponse.json(
+        { error: 'Only SELECT queries can be exported' },
+        { status: 400 }
+      );
+    }
+
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const accessValidation = await validateConnectionAccess(user.id, connectionId, teamId || null);
+    if (!accessValidation.isValid) {
+      return NextResponse.json(
+        { error: accessValidation.error || 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    const connection = teamId
+      ? await getConnectionById(connectionId)
+      : await getConnectionById(connectionId, user.id);
+
+    if (!connection) {
+      return NextResponse.json(
+        { error: 'Connection not found' },
+        { status: 404 }
+      );
+    }
+
+    let hiddenColumns = new Set<string>();
+    let masks: ColumnMasks = new Map();
+    let filteredSql = sql;
+    if (teamId) {
+      const permission = await getEffectivePermissions(user.id, teamId, connectionId);
+      const validation = validateQuery(sql, permission, connection.type);
+
+      if (!validation.allowed) {
+        return NextResponse.json(
+          { error: validation.reason || 'Permission denied' },
+          { status: 403 }
+        );
+      }
+      if (permission) {
+        hiddenColumns = getHiddenResultColumns(sql, permission);
+        masks = getResultColumnMasks(sql, permission, connection.type);
+      }
+      filteredSql = validation.sql ?? sql;
+    }
+
+    // A WITH query can still write; on a protected connection that needs a change request
+    const approval = await checkChangeApproval(connectionId, sql, connection.type);
+    if (approval) {
+      return NextResponse.json(approval, { status: 403 });
+    }
+
+    // INSERT statements need a target table; default to the first table the query reads
+    const tableName = validationResult.data.tableName
+      || parseTableReferences(sql)[0]?.table
+      || 'exported_rows';
+    if (format === 'sql' && !validateIdentifier(tableName)) {
+      return NextResponse.json(
+        { error: `Invalid table name: ${tableName}` },
+        { status: 400 }
+      );
+    }
+
+    // Read the first page up front so query errors surface as a normal JSON response
+    let reader: ResultReader;
+    try {
+      reader = await openResult(connection, filteredSql);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Query failed' },
+        { status: 400 }
+      );
+    }
+
+    const columns: ColumnInfo[] = maskColumns(reader.first.columns.filter(
+      col => !hiddenColumns.has(col.name.toLowerCase())
+    ), masks);
+
+    if (format === 'sql') {
+      const invalid = columns.find(col => !validateIdentifier(col.name));
+      if (invalid) {
+        await reader.close();
+        return NextResponse.json(
+          { error: `Column "${invalid.name}" needs a plain alias to be exported as INSERT statements` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const writer = createExportWriter(format, { dbType: connection.type, tableName });
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        try {
+          writer.start(columns).forEach(chunk => controller.enqueue(chunk));
+
+          let page = reader.first;
+          let exported = 0;
+          while (true) {
+            const rows = maskRows(page.rows.slice(0, EXPORT_MAX_ROWS - exported), columns, masks);
+            writer.writeRows(rows).forEach(chunk => controller.enqueue(chunk));
+            exported += rows.length;
+
+            if (!reader.next || page.rows.length < EXPORT_PAGE_SIZE || exported >= EXPORT_MAX_ROWS) {
+              break;
+            }
+
+            page = await reader.next();
+          }
+
+          writer.finish().forEach(chunk => controller.enqueue(chunk));
+          controller.close();
+        } catch (error) {
+          console.error('Query export stream error:', error);
+          controller.error(error);
+        } finally {
+          await reader.close();
+        }
+      },
+    });
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    return new Response(stream, {
+      headers: {
+        'Content-Type': writer.contentType,
+        'Content-Disposition': `attachment; filename="query-results-${timestamp}.${writer.extension}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Query export error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to export query results' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getCurrentUser } from '@/lib/auth/session';
+import { getTeamMemberAccess } from '@/lib/db/team-roles';
+import { searchQueryHistory, clearQueryHistory, getQueryHistoryRetentionDays } from '@/lib/db/query-history';
+
+const historySearchSchema = z.object({
+  q: z.string().max(500).optional(),
+  connectionId: z.string().uuid().optional(),
+  teamId: z.string().uuid().optional(),
+  status: z.enum(['success', 'error']).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  // "team" lists every member's history and needs the view_audit_log capability
+  scope: z.enum(['mine', 'team']).optional().default('mine'),
+  limit: z.coerce.number().int().min(1).max(200).optional().default(50),
+  offset: z.coerce.number().int().min(0).optional().default(0),
+});
+
+const historyClearSchema = z.object({
+  teamId: z.string().uuid().optional(),
+  connectionId: z.string().uuid().optional(),
+  before: z.coerce.date().optional(),
+});
+
+function searchParamsToObject(request: NextRequest): Record<string, string> {
+  const { searchParams } = new URL(request.url);
+  const params: Record<string, string> = {};
+  searchParams.forEach((value, key) => {
+    if (value !== '') params[key] = value;
+  });
+  return params;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const validationResult = historySearchSchema.safeParse(searchParamsToObject(request));
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { q, connectionId, teamId, status, from, to, scope, limit, offset } = validationResult.data;
+
+    if (teamId) {
+      const access = await getTeamMemberAccess(teamId, user.id);
+      if (!access) {
+        return NextResponse.json({ error: 'Not a member of this team' }, { status: 403 });
+      }
+      if (scope === 'team' && !access.capabilities.includes('view_audit_log')) {
+        return NextResponse.json({ error: 'Your team role cannot view the team history' }, { status: 403 });
+      }
+    } else if (scope === 'team') {
+      return NextResponse.json({ error: 'Team history needs a teamId' }, { status: 400 });
+    }
+
+    const result = await searchQueryHistory({
+      userId: scope === 'team' ? undefined : user.id,
+      teamId,
+      connectionId,
+      status,
+      from,
+      to,
+      search: q,
+      limit,
+      offset,
+    });
+
+    return NextResponse.json({
+      ...result,
+      retentionDays: getQueryHistoryRetentionDays(),
+    });
+  } catch (error) {
+    console.error('Failed to search query history:', error);
+    return NextResponse.json({ error: 'Failed to search query history' }, { status: 500 });
+  }
+}
+
+/**
+ * Clear the user's own history, optionally only for one connection or
+ * before a date
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const validationResult = historyClearSchema.safeParse(searchParamsToObject(request));
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { teamId, connectionId, before } = validationResult.data;
+    const deleted = await clearQueryHistory({ userId: user.id, teamId, connectionId, before });
+
+    return NextResponse.json({ deleted });
+  } catch (error) {
+    console.error('Failed to clear query history:', error);
+    return NextResponse.json({ error: 'Failed to clear query history' }, { status: 500 });
+  }
+}
@@ -6,13 +6,18 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
 import { z } from 'zod';
 import { getConnectionById, isDDLQuery, invalidateSchemaCache } from '@/lib/db/app-db';
-import { executeQuery } from '@/lib/db/query-executor';
+import { executeQueryWithOptions } from '@/lib/db/query-executor';
 import { getCurrentUser } from '@/lib/auth/session';
 import { validateConnectionAccess } from '@/lib/db/teams';
 import { getEffectivePermissions } from '@/lib/db/permissions';
 import { validateQuery } from '@/lib/permissions/validator';
+import { checkChangeApproval } from '@/lib/change-requests/change-policy';
+import { getResultColumnMasks, maskColumns, maskRows, type ColumnMasks } from '@/lib/permissions/masking';
+import { recordQueryExecution } from '@/lib/db/query-history';
+import { trackRunningQuery } from '@/lib/db/running-queries';
 import {
   parsePaginationOptions,
   wrapQueryWithPagination,
@@ -26,6 +31,7 @@ const paginatedQuerySchema = z.object({
   cursor: z.string().nullable().optional(),
   pageSize: z.number().int().min(1).max(1000).optional().default(100),
   teamId: z.string().uuid().optional().nullable(),
+  executionId: z.string().uuid().optional(),
   includeTotal: z.boolean().optional().default(false),
 });
 
@@ -86,9 +92,11 @@ export async function POST(request: NextRequest) {
     }
 
     // Check permissions for team connections
+    let masks: ColumnMasks = new Map();
+    let filteredSql = sql;
     if (teamId) {
       const permission = await getEffectivePermissions(user.id, teamId, connectionId);
-      const validation = validateQuery(sql, permission);
+      const validation = validateQuery(sql, permission, connection.type);
 
       if (!validation.allowed) {
         return NextResponse.json(
@@ -103,6 +111,17 @@ export async function POST(request: NextRequest) {
           { status: 403 }
         );
       }
+      masks = getResultColumnMasks(sql, permission, connection.type);
+      filteredSql = validation.sql ?? sql;
+    }
+
+    // Changes on a protected connection have to go through a change request
+    const approval = await checkChangeApproval(connectionId, sql, connection.type);
+    if (approval) {
+      return NextResponse.json(
+        { data: [], columns: [], cursor: null, hasMore: false, executionTime: 0, ...approval },
+        { status: 403 }
+      );
     }
 
     // Parse pagination options
@@ -113,14 +132,32 @@ export async function POST(request: NextRequest) {
 
     // Wrap query with pagination (fetch one extra row to check if there's more)
     const paginatedSql = wrapQueryWithPagination(
-      sql,
+      filteredSql,
       limit + 1, // Fetch one extra to detect hasMore
       offset,
       connection.type
     );
 
     // Execute the paginated query
-    const result = await executeQuery(connection, paginatedSql, limit + 1);
+    const executionId = validationResult.data.executionId ?? uuidv4();
+    const result = await trackRunningQuery(
+      { executionId, userId: user.id, connectionId },
+      () => executeQueryWithOptions(connection, paginatedSql, undefined, { limit: limit + 1, executionId })
+    );
+
+    // Later pages re-run the same query, so only the first one goes into history
+    if (offset === 0) {
+      await recordQueryExecution({
+        userId: user.id,
+        teamId,
+        connectionId,
+        sql,
+        source: 'paginated',
+        executionTime: result.executionTime,
+        rowCount: Math.min(result.rows.length, limit),
+        error: result.error,
+      });
+    }
 
     if (result.error) {
       return NextResponse.json({
@@ -135,7 +172,7 @@ export async function POST(request: NextRequest) {
 
     // Check if there are more rows
     const hasMore = result.rows.length > limit;
-    const rows = hasMore ? result.rows.slice(0, limit) : result.rows;
+    const rows = maskRows(hasMore ? result.rows.slice(0, limit) : result.rows, result.columns, masks);
 
     // Get total count estimate if requested (expensive operation)
     let totalEstimate: number | undefined;
@@ -154,7 +191,7 @@ export async function POST(request: NextRequest) {
 
     const response: PaginatedQueryResponse = {
       ...paginatedResult,
-      columns: result.columns,
+      columns: maskColumns(result.columns, masks),
       executionTime: result.executionTime,
     };
 
@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
+import { getConnectionById, isDDLQuery, invalidateSchemaCache } from '@/lib/db/app-db';
+import { getCurrentUser } from '@/lib/auth/session';
+import { validateConnectionAccess } from '@/lib/db/teams';
+import { getEffectivePermissions } from '@/lib/db/permissions';
+import { validateQuery } from '@/lib/permissions/validator';
+import { checkChangeApproval } from '@/lib/change-requests/change-policy';
+import { applyColumnMasking, getResultColumnMasks, type ColumnMasks } from '@/lib/permissions/masking';
+import { recordQueryExecution } from '@/lib/db/query-history';
+import { trackRunningQuery } from '@/lib/db/running-queries';
+import { executedStatements, runScript } from '@/lib/db/script-runner';
+import { splitScript } from '@/lib/sql/script-statements';
+
+const runScriptSchema = z.object({
+  connectionId: z.string().uuid(),
+  sql: z.string().min(1, 'SQL script is required'),
+  teamId: z.string().uuid().optional().nullable(),
+  stopOnError: z.boolean().optional().default(true),
+  transaction: z.boolean().optional().default(false),
+  limit: z.number().int().min(1).max(10000).optional().default(1000),
+  // Chosen by the client so it can cancel the script while it runs
+  executionId: z.string().uuid().optional(),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const validationResult = runScriptSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { connectionId, sql, teamId, stopOnError, transaction, limit } = validationResult.data;
+    const executionId = validationResult.data.executionId ?? uuidv4();
+
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const accessValidation = await validateConnectionAccess(user.id, connectionId, teamId || null);
+    if (!accessValidation.isValid) {
+      return NextResponse.json(
+        { error: accessValidation.error || 'Access denied', permissionError: true },
+        { status: 403 }
+      );
+    }
+
+    const connection = teamId
+      ? await getConnectionById(connectionId)
+      : await getConnectionById(connectionId, user.id);
+
+    if (!connection) {
+      return NextResponse.json(
+        { error: 'Connection not found' },
+        { status: 404 }
+      );
+    }
+
+    const statements = splitScript(sql);
+    if (statements.length === 0) {
+      return NextResponse.json(
+        { error: 'The script contains no statements' },
+        { status: 400 }
+      );
+    }
+
+    // Every statement must be allowed before any of them runs
+    const masks = new Map<number, ColumnMasks>();
+    const filteredStatements = [...statements];
+    if (teamId) {
+      const permission = await getEffectivePermissions(user.id, teamId, connectionId);
+      for (const [index, statement] of statements.entries()) {
+        const validation = validateQuery(statement.sql, permission, connection.type);
+        if (!validation.allowed) {
+          return NextResponse.json(
+            {
+              error: `Statement ${index + 1}: ${validation.reason || 'Permission denied'}`,
+              permissionError: true,
+              violationType: validation.violationType,
+            },
+            { status: 403 }
+          );
+        }
+        masks.set(index, getResultColumnMasks(statement.sql, permission, connection.type));
+        filteredStatements[index] = { ...statement, sql: validation.sql ?? statement.sql };
+      }
+    }
+
+    // Changes on a protected connection have to go through a change request
+    const approval = await checkChangeApproval(connectionId, sql, connection.type);
+    if (approval) {
+      return NextResponse.json({ ...approval, permissionError: true }, { status: 403 });
+    }
+
+    const script = await trackRunningQuery(
+      { executionId, userId: user.id, connectionId },
+      () => runScript(connection, filteredStatements, { stopOnError, transaction, limit, executionId })
+    );
+
+    for (const statement of executedStatements(script)) {
+      await recordQueryExecution({
+        userId: user.id,
+        teamId,
+        connectionId,
+        sql: statements[statement.index].sql,
+        source: 'script',
+        executionTime: statement.result.executionTime,
+        rowCount: statement.result.rowCount,
+        error: statement.result.error,
+      });
+    }
+
+    if (statements.some((statement) => isDDLQuery(statement.sql))) {
+      await invalidateSchemaCache(connectionId);
+    }
+
+    return NextResponse.json({
+      ...script,
+      statements: script.statements.map((executed) => {
+        // Report each statement as written rather than with row filters applied
+        const statement = { ...executed, sql: statements[executed.index].sql };
+        const statementMasks = masks.get(statement.index);
+        return statement.result && statementMasks
+          ? { ...statement, result: applyColumnMasking(statement.result, statementMasks) }
+          : statement;
+      }),
+    });
+  } catch (error) {
+    console.error('Script execution error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to run script' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth/session';
+import { queryScheduleUpdateSchema, hasScheduleDelivery } from '@/lib/validations/schedule';
+import {
+  getQueryScheduleById,
+  updateQuerySchedule,
+  deleteQuerySchedule,
+  canUserAccessQuerySchedule,
+  canUserModifyQuerySchedule,
+} from '@/lib/db/query-schedules';
+import { validateConnectionAccess } from '@/lib/db/teams';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const schedule = await getQueryScheduleById(id);
+    if (!schedule || !(await canUserAccessQuerySchedule(user.id, schedule))) {
+      return NextResponse.json({ error: 'Schedule not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(schedule);
+  } catch (error) {
+    console.error('Failed to get schedule:', error);
+    return NextResponse.json({ error: 'Failed to get schedule' }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const existing = await getQueryScheduleById(id);
+    if (!existing || !(await canUserAccessQuerySchedule(user.id, existing))) {
+      return NextResponse.json({ error: 'Schedule not found' }, { status: 404 });
+    }
+    if (!(await canUserModifyQuerySchedule(user.id, existing))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const validationResult = queryScheduleUpdateSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const updates = validationResult.data;
+    if (!hasScheduleDelivery({
+      emailRecipients: updates.emailRecipients ?? existing.emailRecipients,
+      webhookUrl: updates.webhookUrl !== undefined ? updates.webhookUrl : existing.webhookUrl,
+    })) {
+      return NextResponse.json({ error: 'Add an email recipient or a webhook URL' }, { status: 400 });
+    }
+
+    // Results are read with the creator's access, so only they choose who receives them
+    const retargeted = (updates.webhookUrl !== undefined && updates.webhookUrl !== existing.webhookUrl)
+      || (updates.emailRecipients !== undefined
+        && updates.emailRecipients.join('\n') !== existing.emailRecipients.join('\n'));
+    if (retargeted && existing.userId !== user.id) {
+      return NextResponse.json(
+        { error: "Only the schedule's creator can change its email recipients or webhook" },
+        { status: 403 }
+      );
+    }
+
+    // The schedule runs as its creator, so an override must be theirs to use
+    if (updates.connectionId) {
+      const access = await validateConnectionAccess(existing.userId, updates.connectionId, existing.teamId);
+      if (!access.isValid) {
+        return NextResponse.json({ error: access.error || 'Access denied' }, { status: 403 });
+      }
+    }
+
+    const schedule = await updateQuerySchedule(id, updates);
+    if (!schedule) {
+      return NextResponse.json({ error: 'Schedule not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(schedule);
+  } catch (error) {
+    console.error('Failed to update schedule:', error);
+    return NextResponse.json({ error: 'Failed to update schedule' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const schedule = await getQueryScheduleById(id);
+    if (!schedule || !(await canUserAccessQuerySchedule(user.id, schedule))) {
+      return NextResponse.json({ error: 'Schedule not found' }, { status: 404 });
+    }
+    if (!(await canUserModifyQuerySchedule(user.id, schedule))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const deleted = await deleteQuerySchedule(id);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Schedule not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Failed to delete schedule:', error);
+    return NextResponse.json({ error: 'Failed to delete schedule' }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth/session';
+import { getQueryScheduleById, canUserAccessQuerySchedule, canUserModifyQuerySchedule } from '@/lib/db/query-schedules';
+import { runQuerySchedule } from '@/lib/schedules/schedule-runner';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * Run the schedule now and deliver the result regardless of its condition
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const schedule = await getQueryScheduleById(id);
+    if (!schedule || !(await canUserAccessQuerySchedule(user.id, schedule))) {
+      return NextResponse.json({ error: 'Schedule not found' }, { status: 404 });
+    }
+    if (!(await canUserModifyQuerySchedule(user.id, schedule))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const run = await runQuerySchedule(schedule, { trigger: 'manual' });
+    return NextResponse.json(run);
+  } catch (error) {
+    console.error('Error running schedule:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to run schedule' },
+      { status: 500 }
+    );
+  }
+}
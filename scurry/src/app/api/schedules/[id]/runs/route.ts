@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth/session';
+import { getQueryScheduleById, getQueryScheduleRuns, canUserAccessQuerySchedule } from '@/lib/db/query-schedules';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const schedule = await getQueryScheduleById(id);
+    if (!schedule || !(await canUserAccessQuerySchedule(user.id, schedule))) {
+      return NextResponse.json({ error: 'Schedule not found' }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20', 10) || 20, 1), 100);
+
+    const runs = await getQueryScheduleRuns(id, limit);
+    return NextResponse.json(runs);
+  } catch (error) {
+    console.error('Failed to get schedule runs:', error);
+    return NextResponse.json({ error: 'Failed to get schedule runs' }, { status: 500 });
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth/session';
+import { queryScheduleSchema } from '@/lib/validations/schedule';
+import { createQuerySchedule, getQuerySchedules } from '@/lib/db/query-schedules';
+import { getSavedQueryById, canUserAccessQuery } from '@/lib/db/queries';
+import { getUserRoleInTeam, validateConnectionAccess } from '@/lib/db/teams';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const queryId = searchParams.get('queryId');
+    if (!queryId) {
+      return NextResponse.json({ error: 'queryId is required' }, { status: 400 });
+    }
+
+    if (!(await canUserAccessQuery(user.id, queryId))) {
+      return NextResponse.json({ error: 'Query not found' }, { status: 404 });
+    }
+
+    const schedules = await getQuerySchedules(queryId, user.id);
+    return NextResponse.json(schedules);
+  } catch (error) {
+    console.error('Failed to get schedules:', error);
+    return NextResponse.json({ error: 'Failed to get schedules' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validationResult = queryScheduleSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const data = validationResult.data;
+    const query = await getSavedQueryById(data.queryId);
+    if (!query || !(await canUserAccessQuery(user.id, data.queryId))) {
+      return NextResponse.json({ error: 'Query not found' }, { status: 404 });
+    }
+
+    // Scheduled runs execute the query's SQL as the schedule's creator, so it has to be theirs
+    if (query.userId !== user.id) {
+      return NextResponse.json({ error: 'Only the owner of the saved query can schedule it' }, { status: 403 });
+    }
+
+    // Schedules of team queries belong to the team and run with team permissions
+    if (query.teamId) {
+      const role = await getUserRoleInTeam(query.teamId, user.id);
+      if (!role || role === 'viewer') {
+        return NextResponse.json({ error: 'Viewers cannot schedule team queries' }, { status: 403 });
+      }
+    }
+
+    const connectionId = data.connectionId ?? query.connectionId;
+    if (!connectionId) {
+      return NextResponse.json({ error: 'Choose a connection to run this query on' }, { status: 400 });
+    }
+    const access = await validateConnectionAccess(user.id, connectionId, query.teamId);
+    if (!access.isValid) {
+      return NextResponse.json({ error: access.error || 'Access denied' }, { status: 403 });
+    }
+
+    const schedule = await createQuerySchedule({
+      ...data,
+      userId: user.id,
+      teamId: query.teamId,
+    });
+
+    return NextResponse.json(schedule, { status: 201 });
+  } catch (error) {
+    console.error('Failed to create schedule:', error);
+    return NextResponse.json({ error: 'Failed to create schedule' }, { status: 500 });
+  }
+}
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getConnectionById, getSchemaCache, saveSchemaCache, type EnrichedSchema } from '@/lib/db/app-db';
+import { fetchEnrichedSchema } from '@/lib/db/schema-fetcher';
+import { getCurrentUser } from '@/lib/auth/session';
+import { getEffectivePermissions, type EffectivePermission } from '@/lib/db/permissions';
+import { filterAllowedTables, filterAllowedColumns } from '@/lib/permissions/validator';
+import { validateConnectionAccess } from '@/lib/db/teams';
+
+function filterSchemaByPermission(
+  schema: EnrichedSchema,
+  permission: EffectivePermission | null
+): EnrichedSchema & { restrictedTables: string[] } {
+  const allowedTables = new Set(
+    filterAllowedTables(schema.tables.map(t => t.name), permission)
+  );
+
+  const tables = schema.tables
+    .filter(t => allowedTables.has(t.name))
+    .map(t => {
+      const allowedColumns = new Set(
+        filterAllowedColumns(t.name, t.columns.map(c => c.name), permission)
+      );
+      return { ...t, columns: t.columns.filter(c => allowedColumns.has(c.name)) };
+    });
+
+  const columnsByTable = new Map(
+    tables.map(t => [t.name, new Set(t.columns.map(c => c.name))])
+  );
+  const isVisible = (table: string, column: string) => columnsByTable.get(table)?.has(column) ?? false;
+
+  // Tables with hidden columns reject SELECT *, which the editor lints for
+  const restrictedTables = tables
+    .filter(t => t.columns.length < (schema.tables.find(o => o.name === t.name)?.columns.length ?? 0))
+    .map(t => t.name);
+
+  return {
+    tables,
+    restrictedTables,
+    relationships: schema.relationships.filter(
+      r => isVisible(r.fromTable, r.fromColumn) && isVisible(r.toTable, r.toColumn)
+    ),
+  };
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const connectionId = request.nextUrl.searchParams.get('connectionId');
+    const teamId = request.nextUrl.searchParams.get('teamId');
+
+    if (!connectionId) {
+      return NextResponse.json(
+        { error: 'connectionId is required' },
+        { status: 400 }
+      );
+    }
+
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const accessValidation = await validateConnectionAccess(user.id, connectionId, teamId || null);
+    if (!accessValidation.isValid) {
+      return NextResponse.json(
+        { error: accessValidation.error || 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    const connection = teamId
+      ? await getConnectionById(connectionId)
+      : await getConnectionById(connectionId, user.id);
+
+    if (!connection) {
+      return NextResponse.json(
+        { error: 'Connection not found' },
+        { status: 404 }
+      );
+    }
+
+    // Share the cache with the AI chat so editor completions cost no extra introspection
+    let schema = await getSchemaCache(connectionId);
+    if (!schema) {
+      schema = await fetchEnrichedSchema(connection);
+      await saveSchemaCache(connectionId, schema);
+    }
+
+    if (teamId) {
+      const permission = await getEffectivePermissions(user.id, teamId, connectionId);
+      return NextResponse.json(filterSchemaByPermission(schema, permission));
+    }
+
+    return NextResponse.json(schema);
+  } catch (error) {
+    console.error('Failed to fetch enriched schema:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch schema' },
+      { status: 500 }
+    );
+  }
+}
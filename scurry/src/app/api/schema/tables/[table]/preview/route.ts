@@ -5,6 +5,8 @@ import { getCurrentUser } from '@/lib/auth/session';
 import { validateConnectionAccess } from '@/lib/db/teams';
 import { getEffectivePermissions } from '@/lib/db/permissions';
 import { filterAllowedTables, filterAllowedColumns } from '@/lib/permissions/validator';
+import { applyColumnMasking, getTableColumnMasks } from '@/lib/permissions/masking';
+import { getTableRowFilter, RowFilterError } from '@/lib/permissions/row-filters';
 import { fetchTables } from '@/lib/db/schema-fetcher';
 import { quoteIdentifier, validateTableExists, type DatabaseType } from '@/lib/db/sql-utils';
 
@@ -69,6 +71,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
 
     // Check table access and get allowed columns if this is a team connection
     let allowedColumns: string[] | null = null;
+    let rowFilter: string | null = null;
     if (teamId) {
       const permission = await getEffectivePermissions(user.id, teamId, connectionId);
       const allowedTables = filterAllowedTables([validatedTableName], permission);
@@ -87,12 +90,20 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         // We have column restrictions, need to select specific columns
         allowedColumns = []; // Will be populated by result filtering
       }
+
+      try {
+        rowFilter = getTableRowFilter(validatedTableName, permission, connection.type);
+      } catch (error) {
+        if (!(error instanceof RowFilterError)) throw error;
+        return NextResponse.json({ error: error.message }, { status: 403 });
+      }
     }
 
     // Use proper identifier quoting for SQL safety
     const dbType = connection.type as DatabaseType;
     const quotedTable = quoteIdentifier(validatedTableName, dbType);
-    const sql = `SELECT * FROM ${quotedTable} LIMIT ${Math.min(limit, 1000)}`;
+    const where = rowFilter ? ` WHERE ${rowFilter}` : '';
+    const sql = `SELECT * FROM ${quotedTable}${where} LIMIT ${Math.min(limit, 1000)}`;
 
     const result = await executeQuery(connection, sql, Math.min(limit, 1000));
     
@@ -111,6 +122,8 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         }
         return filteredRow;
       });
+
+      return NextResponse.json(applyColumnMasking(result, getTableColumnMasks(validatedTableName, permission)));
     }
     
     return NextResponse.json(result);
@@ -3,7 +3,8 @@ import { getConnectionById } from '@/lib/db/app-db';
 import { fetchColumns, fetchIndexes, fetchTables } from '@/lib/db/schema-fetcher';
 import { getCurrentUser } from '@/lib/auth/session';
 import { getEffectivePermissions } from '@/lib/db/permissions';
-import { filterAllowedColumns, filterAllowedTables } from '@/lib/permissions/validator';
+import { filterAllowedColumns, filterAllowedTables, getTableOperations } from '@/lib/permissions/validator';
+import type { PermissionOperation } from '@/lib/validations/team';
 import { validateConnectionAccess } from '@/lib/db/teams';
 import { validateTableExists } from '@/lib/db/sql-utils';
 
@@ -84,15 +85,18 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     ]);
 
     // Filter columns based on permissions if this is a team connection
+    // and tell the grid which edits it may offer (null = all)
     let filteredColumns = columns;
+    let operations: PermissionOperation[] | null = null;
     if (teamId) {
       const permission = await getEffectivePermissions(user.id, teamId, connectionId);
       const columnNames = columns.map(c => c.name);
       const allowedColumnNames = filterAllowedColumns(validatedTableName, columnNames, permission);
       filteredColumns = columns.filter(c => allowedColumnNames.includes(c.name));
+      operations = getTableOperations(validatedTableName, permission);
     }
 
-    return NextResponse.json({ columns: filteredColumns, indexes });
+    return NextResponse.json({ columns: filteredColumns, indexes, operations });
   } catch (error) {
     console.error('Failed to fetch table structure:', error);
     return NextResponse.json(
@@ -5,6 +5,8 @@ import { getCurrentUser } from '@/lib/auth/session';
 import { validateConnectionAccess } from '@/lib/db/teams';
 import { getEffectivePermissions } from '@/lib/db/permissions';
 import { filterAllowedTables, filterAllowedColumns } from '@/lib/permissions/validator';
+import { applyColumnMasking, getTableColumnMasks, type ColumnMasks } from '@/lib/permissions/masking';
+import { getTableRowFilter, RowFilterError } from '@/lib/permissions/row-filters';
 import { fetchTables, fetchColumns } from '@/lib/db/schema-fetcher';
 import { validateTableExists, validateColumns, quoteIdentifier, type DatabaseType } from '@/lib/db/sql-utils';
 
@@ -106,6 +108,8 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
 
     // Check table and column access for team connections
     let allowedSearchColumns = columnValidation.validColumnNames;
+    let masks: ColumnMasks = new Map();
+    let rowFilter: string | null = null;
     if (teamId) {
       const permission = await getEffectivePermissions(user.id, teamId, connectionId);
       const allowedTables = filterAllowedTables([validatedTableName], permission);
@@ -117,8 +121,10 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         );
       }
 
-      // Filter search columns to only allowed ones
-      allowedSearchColumns = filterAllowedColumns(validatedTableName, allowedSearchColumns, permission);
+      // Filter search columns to only allowed ones; matching on a masked column would reveal its values
+      masks = getTableColumnMasks(validatedTableName, permission);
+      allowedSearchColumns = filterAllowedColumns(validatedTableName, allowedSearchColumns, permission)
+        .filter(column => !masks.has(column.toLowerCase()));
       
       if (allowedSearchColumns.length === 0) {
         return NextResponse.json(
@@ -126,6 +132,13 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
           { status: 403 }
         );
       }
+
+      try {
+        rowFilter = getTableRowFilter(validatedTableName, permission, connection.type);
+      } catch (error) {
+        if (!(error instanceof RowFilterError)) throw error;
+        return NextResponse.json({ error: error.message }, { status: 403 });
+      }
     }
 
     // Use validated column names (they've been checked against schema)
@@ -140,7 +153,8 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       validColumns,
       searchTerm,
       limit,
-      offset
+      offset,
+      rowFilter
     );
 
     const result = await executeQueryWithParams(connection, sql, queryParams, limit);
@@ -163,7 +177,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
 
     // Add search metadata to response
     return NextResponse.json({
-      ...result,
+      ...applyColumnMasking(result, masks),
       searchMeta: {
         searchTerm: search,
         searchColumns: validColumns,
@@ -192,10 +206,13 @@ function buildSearchQuery(
   columns: string[],
   searchTerm: string,
   limit: number,
-  offset: number
+  offset: number,
+  rowFilter: string | null
 ): SearchQueryResult {
   // Use proper identifier quoting
   const quotedTable = quoteIdentifier(table, dbType);
+  // Rows outside the user's row filter must not match
+  const matches = (conditions: string) => rowFilter ? `(${conditions}) AND ${rowFilter}` : conditions;
   
   switch (dbType) {
     case 'postgresql': {
@@ -205,7 +222,7 @@ function buildSearchQuery(
       ).join(' OR ');
       
       const paramIndex = columns.length;
-      const sql = `SELECT * FROM ${quotedTable} WHERE ${conditions} LIMIT $${paramIndex + 1} OFFSET $${paramIndex + 2}`;
+      const sql = `SELECT * FROM ${quotedTable} WHERE ${matches(conditions)} LIMIT $${paramIndex + 1} OFFSET $${paramIndex + 2}`;
       const params = [...columns.map(() => searchTerm), limit, offset];
       
       return { sql, params };
@@ -218,7 +235,7 @@ function buildSearchQuery(
         `CAST(${quoteIdentifier(col, dbType)} AS CHAR) LIKE ?`
       ).join(' OR ');
       
-      const sql = `SELECT * FROM ${quotedTable} WHERE ${conditions} LIMIT ? OFFSET ?`;
+      const sql = `SELECT * FROM ${quotedTable} WHERE ${matches(conditions)} LIMIT ? OFFSET ?`;
       const params = [...columns.map(() => searchTerm), limit, offset];
       
       return { sql, params };
@@ -230,7 +247,7 @@ function buildSearchQuery(
         `CAST(${quoteIdentifier(col, dbType)} AS TEXT) LIKE ?`
       ).join(' OR ');
       
-      const sql = `SELECT * FROM ${quotedTable} WHERE ${conditions} LIMIT ? OFFSET ?`;
+      const sql = `SELECT * FROM ${quotedTable} WHERE ${matches(conditions)} LIMIT ? OFFSET ?`;
       const params = [...columns.map(() => searchTerm), limit, offset];
       
       return { sql, params };
@@ -2,16 +2,19 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/auth/session';
 import { getConnectionById } from '@/lib/db/app-db';
 import { fetchColumns } from '@/lib/db/schema-fetcher';
-import { executeQuery } from '@/lib/db/query-executor';
 import { validateConnectionAccess } from '@/lib/db/teams';
-import { quoteIdentifier, type DatabaseType } from '@/lib/db/sql-utils';
-import {
-  calculateRowDiffs,
-  calculateComparisonSummary,
-} from '@/lib/sync/diff-calculator';
-import type { CompareTablesRequest } from '@/types/sync';
+import { compareTablesInChunks, DEFAULT_COMPARE_CHUNK_SIZE } from '@/lib/sync/chunked-compare';
+import type { CompareProgress, CompareStreamEvent, CompareTablesRequest, RowDiff } from '@/types/sync';
 
-const COMPARISON_LIMIT = 1000;
+const MIN_CHUNK_SIZE = 100;
+const MAX_CHUNK_SIZE = 10000;
+// Diffs included in a non-streamed response; counts always cover the whole table
+const DEFAULT_MAX_DIFFS = 1000;
+
+function clamp(value: number | undefined, min: number, max: number, fallback: number): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return fallback;
+  return Math.min(Math.max(Math.floor(value), min), max);
+}
 
 export async function POST(request: NextRequest) {
   try {
@@ -74,50 +77,99 @@ export async function POST(request: NextRequest) {
     // Get column names for comparison
     const columnNames = sourceColumns.map((c) => c.name);
 
-    // Build query with proper escaping
-    const sourceDbType = sourceConnection.type as DatabaseType;
-    const targetDbType = targetConnection.type as DatabaseType;
-    const sourceQuotedTable = quoteIdentifier(tableName, sourceDbType);
-    const targetQuotedTable = quoteIdentifier(tableName, targetDbType);
-
-    // Fetch data from both tables
-    const [sourceResult, targetResult] = await Promise.all([
-      executeQuery(sourceConnection, `SELECT * FROM ${sourceQuotedTable} LIMIT ${COMPARISON_LIMIT}`),
-      executeQuery(targetConnection, `SELECT * FROM ${targetQuotedTable} LIMIT ${COMPARISON_LIMIT}`),
-    ]);
+    const chunks = compareTablesInChunks({
+      sourceConnection,
+      targetConnection,
+      tableName,
+      primaryKeyColumns,
+      columns: columnNames,
+      chunkSize: clamp(body.chunkSize, MIN_CHUNK_SIZE, MAX_CHUNK_SIZE, DEFAULT_COMPARE_CHUNK_SIZE),
+      useChunkHashes: body.useChunkHashes ?? false,
+    });
 
-    if (sourceResult.error) {
-      return NextResponse.json(
-        { error: `Source query failed: ${sourceResult.error}` },
-        { status: 500 }
-      );
+    if (body.stream) {
+      const encoder = new TextEncoder();
+      const send = (controller: ReadableStreamDefaultController<Uint8Array>, event: CompareStreamEvent) => {
+        controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+      };
+
+      // Pull-based so the comparison only advances as fast as the client reads
+      let progress: CompareProgress | null = null;
+      const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+          send(controller, { type: 'start', tableName, primaryKeyColumns, columns: columnNames });
+        },
+        async pull(controller) {
+          try {
+            const next = await chunks.next();
+            if (next.done) {
+              if (progress) {
+                send(controller, { type: 'done', progress });
+              }
+              controller.close();
+              return;
+            }
+            progress = next.value.progress;
+            send(controller, { type: 'chunk', diffs: next.value.diffs, progress });
+          } catch (error) {
+            console.error('Table comparison stream error:', error);
+            send(controller, { type: 'error', error: error instanceof Error ? error.message : 'Comparison failed' });
+            controller.close();
+          }
+        },
+        async cancel() {
+          // Stop reading from the databases once the client has gone away
+          await chunks.return(undefined);
+        },
+      });
+
+      return new Response(stream, {
+        headers: {
+          'Content-Type': 'application/x-ndjson; charset=utf-8',
+          'Cache-Control': 'no-store',
+        },
+      });
     }
-    if (targetResult.error) {
+
+    const maxDiffs = clamp(body.maxDiffs, 0, MAX_CHUNK_SIZE, DEFAULT_MAX_DIFFS);
+    const diffs: RowDiff[] = [];
+    let progress: CompareProgress | null = null;
+    let truncated = false;
+
+    try {
+      for await (const chunk of chunks) {
+        progress = chunk.progress;
+        for (const diff of chunk.diffs) {
+          if (diffs.length < maxDiffs) {
+            diffs.push(diff);
+          } else {
+            truncated = true;
+          }
+        }
+      }
+    } catch (error) {
       return NextResponse.json(
-        { error: `Target query failed: ${targetResult.error}` },
+        { error: `Comparison failed: ${error instanceof Error ? error.message : 'Unknown error'}` },
         { status: 500 }
       );
     }
 
-    // Calculate diffs
-    const diffs = calculateRowDiffs({
-      primaryKeyColumns,
-      sourceRows: sourceResult.rows,
-      targetRows: targetResult.rows,
-      columns: columnNames,
-    });
-
-    const summary = calculateComparisonSummary(diffs);
-
+    const summary = progress!;
     return NextResponse.json({
       tableName,
       primaryKeyColumns,
       columns: columnNames,
-      sourceRowCount: sourceResult.rows.length,
-      targetRowCount: targetResult.rows.length,
-      ...summary,
+      sourceRowCount: summary.sourceRowsScanned,
+      targetRowCount: summary.targetRowsScanned,
+      totalRows: summary.matchingRows + summary.differentRows + summary.sourceOnlyRows + summary.targetOnlyRows,
+      matchingRows: summary.matchingRows,
+      differentRows: summary.differentRows,
+      sourceOnlyRows: summary.sourceOnlyRows,
+      targetOnlyRows: summary.targetOnlyRows,
+      chunksProcessed: summary.chunksProcessed,
+      chunksSkipped: summary.chunksSkipped,
       diffs,
-      truncated: sourceResult.rows.length >= COMPARISON_LIMIT || targetResult.rows.length >= COMPARISON_LIMIT,
+      truncated,
     });
   } catch (error) {
     console.error('Error comparing tables:', error);
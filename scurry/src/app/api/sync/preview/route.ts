@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth/session';
+import { resolveSyncConnections, previewTableSync, isSyncFailure } from '@/lib/sync/sync-runner';
+import type { SyncPreview, SyncPreviewRequest } from '@/types/sync';
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body: SyncPreviewRequest = await request.json();
+    const {
+      sourceConnectionId,
+      targetConnectionId,
+      tableName,
+      scope,
+      content,
+      selectedRowKeys,
+      mirror,
+      teamId,
+    } = body;
+
+    if (!sourceConnectionId || !targetConnectionId || !tableName) {
+      return NextResponse.json(
+        { error: 'Missing required fields' },
+        { status: 400 }
+      );
+    }
+
+    const connections = await resolveSyncConnections(
+      user.id,
+      sourceConnectionId,
+      targetConnectionId,
+      teamId || null
+    );
+    if (isSyncFailure(connections)) {
+      // A sync that isn't possible is still a valid preview
+      if (connections.status === 400) {
+        const blocked: SyncPreview = {
+          inserts: 0,
+          updates: 0,
+          deletes: 0,
+          structureChanges: [],
+          sql: [],
+          warnings: [],
+          canExecute: false,
+          blockedReason: connections.error,
+        };
+        return NextResponse.json(blocked);
+      }
+      return NextResponse.json({ error: connections.error }, { status: connections.status });
+    }
+
+    const preview = await previewTableSync({
+      sourceConnection: connections.source,
+      targetConnection: connections.target,
+      tableName,
+      scope: scope ?? 'table',
+      content: content ?? 'both',
+      selectedRowKeys,
+      mirror: mirror === true,
+      userId: user.id,
+      teamId: teamId || null,
+    });
+
+    return NextResponse.json(preview);
+  } catch (error) {
+    console.error('Error previewing sync:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to preview sync' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth/session';
+import { syncTemplateUpdateSchema } from '@/lib/validations/sync';
+import {
+  getSyncTemplateById,
+  updateSyncTemplate,
+  deleteSyncTemplate,
+  canUserAccessSyncTemplate,
+  canUserModifySyncTemplate,
+} from '@/lib/db/sync-templates';
+import { resolveSyncConnections, isSyncFailure } from '@/lib/sync/sync-runner';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const template = await getSyncTemplateById(id);
+    if (!template || !(await canUserAccessSyncTemplate(user.id, template))) {
+      return NextResponse.json({ error: 'Sync template not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(template);
+  } catch (error) {
+    console.error('Failed to get sync template:', error);
+    return NextResponse.json({ error: 'Failed to get sync template' }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const existing = await getSyncTemplateById(id);
+    if (!existing || !(await canUserAccessSyncTemplate(user.id, existing))) {
+      return NextResponse.json({ error: 'Sync template not found' }, { status: 404 });
+    }
+    if (!(await canUserModifySyncTemplate(user.id, existing))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const validationResult = syncTemplateUpdateSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const updates = validationResult.data;
+    const sourceConnectionId = updates.sourceConnectionId ?? existing.sourceConnectionId;
+    const targetConnectionId = updates.targetConnectionId ?? existing.targetConnectionId;
+    const tableName = updates.tableName !== undefined ? updates.tableName : existing.tableName;
+    const schedule = updates.schedule !== undefined ? updates.schedule : existing.schedule;
+
+    if (sourceConnectionId === targetConnectionId) {
+      return NextResponse.json({ error: 'Source and target must be different connections' }, { status: 400 });
+    }
+    if (schedule && !tableName) {
+      return NextResponse.json({ error: 'Scheduled templates need a table' }, { status: 400 });
+    }
+
+    if (updates.sourceConnectionId || updates.targetConnectionId) {
+      const connections = await resolveSyncConnections(
+        user.id,
+        sourceConnectionId,
+        targetConnectionId,
+        existing.teamId ?? null
+      );
+      if (isSyncFailure(connections)) {
+        return NextResponse.json({ error: connections.error }, { status: connections.status });
+      }
+    }
+
+    const template = await updateSyncTemplate(id, updates);
+    if (!template) {
+      return NextResponse.json({ error: 'Sync template not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(template);
+  } catch (error) {
+    console.error('Failed to update sync template:', error);
+    return NextResponse.json({ error: 'Failed to update sync template' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const template = await getSyncTemplateById(id);
+    if (!template || !(await canUserAccessSyncTemplate(user.id, template))) {
+      return NextResponse.json({ error: 'Sync template not found' }, { status: 404 });
+    }
+    if (!(await canUserModifySyncTemplate(user.id, template))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const deleted = await deleteSyncTemplate(id);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Sync template not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Failed to delete sync template:', error);
+    return NextResponse.json({ error: 'Failed to delete sync template' }, { status: 500 });
+  }
+}
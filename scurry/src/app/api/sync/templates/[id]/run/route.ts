@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth/session';
+import { syncTemplateRunSchema } from '@/lib/validations/sync';
+import { getSyncTemplateById, canUserAccessSyncTemplate, canUserRunSyncTemplate } from '@/lib/db/sync-templates';
+import { runSyncTemplate } from '@/lib/sync/template-runner';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * Compare and sync the template's table in one step
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const template = await getSyncTemplateById(id);
+    if (!template || !(await canUserAccessSyncTemplate(user.id, template))) {
+      return NextResponse.json({ error: 'Sync template not found' }, { status: 404 });
+    }
+    if (!(await canUserRunSyncTemplate(user.id, template))) {
+      return NextResponse.json({ error: 'Viewers cannot run sync templates' }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const validationResult = syncTemplateRunSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const tableName = template.tableName || validationResult.data.tableName;
+    if (!tableName) {
+      return NextResponse.json({ error: 'This template has no table; choose one to run it' }, { status: 400 });
+    }
+
+    const run = await runSyncTemplate(template, {
+      userId: user.id,
+      trigger: 'manual',
+      tableName,
+    });
+
+    return NextResponse.json(run);
+  } catch (error) {
+    console.error('Error running sync template:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to run sync template' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth/session';
+import { getSyncTemplateById, getSyncRuns, canUserAccessSyncTemplate } from '@/lib/db/sync-templates';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const template = await getSyncTemplateById(id);
+    if (!template || !(await canUserAccessSyncTemplate(user.id, template))) {
+      return NextResponse.json({ error: 'Sync template not found' }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20', 10) || 20, 1), 100);
+
+    const runs = await getSyncRuns(id, limit);
+    return NextResponse.json(runs);
+  } catch (error) {
+    console.error('Failed to get sync runs:', error);
+    return NextResponse.json({ error: 'Failed to get sync runs' }, { status: 500 });
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth/session';
+import { syncTemplateSchema } from '@/lib/validations/sync';
+import { createSyncTemplate, getSyncTemplates } from '@/lib/db/sync-templates';
+import { getUserRoleInTeam } from '@/lib/db/teams';
+import { resolveSyncConnections, isSyncFailure } from '@/lib/sync/sync-runner';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const teamId = searchParams.get('teamId');
+
+    if (teamId && !(await getUserRoleInTeam(teamId, user.id))) {
+      return NextResponse.json({ error: 'Not a member of this team' }, { status: 403 });
+    }
+
+    const templates = await getSyncTemplates(user.id, teamId);
+    return NextResponse.json(templates);
+  } catch (error) {
+    console.error('Failed to get sync templates:', error);
+    return NextResponse.json({ error: 'Failed to get sync templates' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validationResult = syncTemplateSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const data = validationResult.data;
+
+    // If saving to a team, verify user has access
+    if (data.teamId) {
+      const role = await getUserRoleInTeam(data.teamId, user.id);
+      if (!role || role === 'viewer') {
+        return NextResponse.json({ error: 'Cannot save sync templates to this team' }, { status: 403 });
+      }
+    }
+
+    const connections = await resolveSyncConnections(
+      user.id,
+      data.sourceConnectionId,
+      data.targetConnectionId,
+      data.teamId || null
+    );
+    if (isSyncFailure(connections)) {
+      return NextResponse.json({ error: connections.error }, { status: connections.status });
+    }
+
+    const template = await createSyncTemplate({
+      ...data,
+      teamId: data.teamId || undefined,
+      userId: user.id,
+    });
+
+    return NextResponse.json(template, { status: 201 });
+  } catch (error) {
+    console.error('Failed to save sync template:', error);
+    return NextResponse.json({ error: 'Failed to save sync template' }, { status: 500 });
+  }
+}
@@ -2,7 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/auth/session';
 import { aiSettingsSchema } from '@/lib/validations/ai';
 import { getTeamAISettings, saveTeamAISettings, deleteTeamAISettings } from '@/lib/db/app-db';
-import { getUserRoleInTeam, canManageTeam } from '@/lib/db/teams';
+import { getUserRoleInTeam } from '@/lib/db/teams';
+import { hasTeamCapability } from '@/lib/db/team-roles';
 
 export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   try {
@@ -46,9 +47,8 @@ export async function PUT(request: NextRequest, { params }: { params: Promise<{
     }
 
     const { id: teamId } = await params;
-    const role = await getUserRoleInTeam(teamId, user.id);
-    if (!canManageTeam(role)) {
-      return NextResponse.json({ error: 'Only admins and owners can manage AI settings' }, { status: 403 });
+    if (!(await hasTeamCapability(teamId, user.id, 'configure_ai'))) {
+      return NextResponse.json({ error: 'Your team role cannot configure AI settings' }, { status: 403 });
     }
 
     const body = await request.json();
@@ -99,9 +99,8 @@ export async function DELETE(request: NextRequest, { params }: { params: Promise
     }
 
     const { id: teamId } = await params;
-    const role = await getUserRoleInTeam(teamId, user.id);
-    if (!canManageTeam(role)) {
-      return NextResponse.json({ error: 'Only admins and owners can manage AI settings' }, { status: 403 });
+    if (!(await hasTeamCapability(teamId, user.id, 'configure_ai'))) {
+      return NextResponse.json({ error: 'Your team role cannot configure AI settings' }, { status: 403 });
     }
 
     await deleteTeamAISettings(teamId);
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth/session';
+import { changeRequestCommentSchema } from '@/lib/validations/change-request';
+import { getUserRoleInTeam } from '@/lib/db/teams';
+import {
+  getChangeRequestById,
+  getChangeRequestComments,
+  createChangeRequestComment,
+} from '@/lib/db/change-requests';
+import { logActivity } from '@/lib/db/activities';
+
+type RouteParams = { params: Promise<{ id: string; requestId: string }> };
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, requestId } = await params;
+    const role = await getUserRoleInTeam(id, user.id);
+    const changeRequest = role ? await getChangeRequestById(requestId) : null;
+    if (!changeRequest || changeRequest.teamId !== id) {
+      return NextResponse.json({ error: 'Change request not found' }, { status: 404 });
+    }
+
+    const comments = await getChangeRequestComments(requestId);
+    return NextResponse.json(comments);
+  } catch (error) {
+    console.error('Failed to get comments:', error);
+    return NextResponse.json({ error: 'Failed to get comments' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, requestId } = await params;
+    const role = await getUserRoleInTeam(id, user.id);
+    const changeRequest = role ? await getChangeRequestById(requestId) : null;
+    if (!changeRequest || changeRequest.teamId !== id) {
+      return NextResponse.json({ error: 'Change request not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const validationResult = changeRequestCommentSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const comment = await createChangeRequestComment({
+      changeRequestId: requestId,
+      userId: user.id,
+      content: validationResult.data.content,
+    });
+
+    await logActivity({
+      teamId: id,
+      userId: user.id,
+      action: 'change_commented',
+      resourceType: 'change_request',
+      resourceId: requestId,
+      metadata: { title: changeRequest.title },
+    });
+
+    return NextResponse.json(comment, { status: 201 });
+  } catch (error) {
+    console.error('Failed to add comment:', error);
+    return NextResponse.json({ error: 'Failed to add comment' }, { status: 500 });
+  }
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth/session';
+import { changeRequestReviewSchema } from '@/lib/validations/change-request';
+import { getUserRoleInTeam } from '@/lib/db/teams';
+import {
+  getChangeRequestById,
+  reviewChangeRequest,
+  cancelChangeRequest,
+  canUserReviewChangeRequest,
+} from '@/lib/db/change-requests';
+import { logActivity } from '@/lib/db/activities';
+
+type RouteParams = { params: Promise<{ id: string; requestId: string }> };
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, requestId } = await params;
+    const role = await getUserRoleInTeam(id, user.id);
+    const changeRequest = role ? await getChangeRequestById(requestId) : null;
+    if (!changeRequest || changeRequest.teamId !== id) {
+      return NextResponse.json({ error: 'Change request not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      ...changeRequest,
+      canReview: await canUserReviewChangeRequest(user.id, changeRequest),
+      canCancel: changeRequest.requestedBy === user.id,
+    });
+  } catch (error) {
+    console.error('Failed to get change request:', error);
+    return NextResponse.json({ error: 'Failed to get change request' }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, requestId } = await params;
+    const role = await getUserRoleInTeam(id, user.id);
+    const changeRequest = role ? await getChangeRequestById(requestId) : null;
+    if (!changeRequest || changeRequest.teamId !== id) {
+      return NextResponse.json({ error: 'Change request not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const validationResult = changeRequestReviewSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { action, note } = validationResult.data;
+
+    if (action === 'cancel') {
+      // Only the requester can withdraw their request
+      if (changeRequest.requestedBy !== user.id) {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+      }
+      if (!(await cancelChangeRequest(requestId))) {
+        return NextResponse.json({ error: 'Only pending change requests can be cancelled' }, { status: 409 });
+      }
+    } else {
+      if (!(await canUserReviewChangeRequest(user.id, changeRequest))) {
+        return NextResponse.json(
+          { error: 'Change requests must be reviewed by a team member who can approve changes, other than the requester' },
+          { status: 403 }
+        );
+      }
+
+      const approved = action === 'approve';
+      const reviewed = await reviewChangeRequest(requestId, { approved, reviewedBy: user.id, note: note || null });
+      if (!reviewed) {
+        return NextResponse.json({ error: 'This change request has already been reviewed' }, { status: 409 });
+      }
+
+      await logActivity({
+        teamId: id,
+        userId: user.id,
+        action: approved ? 'change_approved' : 'change_rejected',
+        resourceType: 'change_request',
+        resourceId: requestId,
+        metadata: { title: changeRequest.title, connectionName: changeRequest.connection?.name, note: note || null },
+      });
+    }
+
+    return NextResponse.json(await getChangeRequestById(requestId));
+  } catch (error) {
+    console.error('Failed to update change request:', error);
+    return NextResponse.json({ error: 'Failed to update change request' }, { status: 500 });
+  }
+}
@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth/session';
+import { changeRequestSchema } from '@/lib/validations/change-request';
+import { getUserRoleInTeam, isConnectionProtected } from '@/lib/db/teams';
+import { getTeamMemberAccess } from '@/lib/db/team-roles';
+import { createChangeRequest, getTeamChangeRequests } from '@/lib/db/change-requests';
+import { logActivity } from '@/lib/db/activities';
+import { getChangeDangerLevel } from '@/lib/change-requests/change-policy';
+import { prepareChange, previewChange } from '@/lib/change-requests/change-request-runner';
+import type { ChangeRequestStatus } from '@/types';
+
+const STATUSES: ChangeRequestStatus[] = ['pending', 'approved', 'rejected', 'cancelled', 'running', 'executed', 'failed'];
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const access = await getTeamMemberAccess(id, user.id);
+    if (!access) {
+      return NextResponse.json({ error: 'Team not found' }, { status: 404 });
+    }
+    const canApprove = access.capabilities.includes('approve_changes');
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status') as ChangeRequestStatus | null;
+    if (status && !STATUSES.includes(status)) {
+      return NextResponse.json({ error: 'Invalid status' }, { status: 400 });
+    }
+
+    const changeRequests = await getTeamChangeRequests(id, { status: status ?? undefined });
+    return NextResponse.json(
+      changeRequests.map((changeRequest) => ({
+        ...changeRequest,
+        canReview: canApprove && changeRequest.requestedBy !== user.id,
+        canCancel: changeRequest.requestedBy === user.id,
+      }))
+    );
+  } catch (error) {
+    console.error('Failed to get change requests:', error);
+    return NextResponse.json({ error: 'Failed to get change requests' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const role = await getUserRoleInTeam(id, user.id);
+    if (!role) {
+      return NextResponse.json({ error: 'Team not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const validationResult = changeRequestSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { connectionId, title, description, sql } = validationResult.data;
+
+    if (!(await isConnectionProtected(connectionId, id))) {
+      return NextResponse.json(
+        { error: 'This connection is not protected; run the change directly' },
+        { status: 400 }
+      );
+    }
+
+    // The requester must be allowed to run the change themselves
+    const prepared = await prepareChange(user.id, id, connectionId, sql);
+    if (!prepared.ok) {
+      return NextResponse.json({ error: prepared.error }, { status: prepared.status });
+    }
+
+    const dangerLevel = getChangeDangerLevel(sql, prepared.connection.type);
+    if (!dangerLevel) {
+      return NextResponse.json(
+        { error: 'This SQL does not change anything, so it does not need approval' },
+        { status: 400 }
+      );
+    }
+
+    const preview = await previewChange(prepared.connection, prepared.statements);
+
+    const changeRequest = await createChangeRequest({
+      teamId: id,
+      connectionId,
+      requestedBy: user.id,
+      title,
+      description: description || null,
+      sql,
+      dangerLevel,
+      preview,
+    });
+
+    await logActivity({
+      teamId: id,
+      userId: user.id,
+      action: 'change_requested',
+      resourceType: 'change_request',
+      resourceId: changeRequest.id,
+      metadata: {
+        title,
+        connectionName: prepared.connection.name,
+        dangerLevel,
+        affectedRows: preview.skipped || preview.error ? null : preview.affectedRows,
+      },
+    });
+
+    return NextResponse.json(changeRequest, { status: 201 });
+  } catch (error) {
+    console.error('Failed to create change request:', error);
+    return NextResponse.json({ error: 'Failed to create change request' }, { status: 500 });
+  }
+}
@@ -1,14 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/auth/session';
-import { shareConnectionSchema } from '@/lib/validations/team';
+import { shareConnectionSchema, updateSharedConnectionSchema } from '@/lib/validations/team';
 import {
   getUserRoleInTeam,
-  canManageTeam,
   getTeamSharedConnections,
   shareConnection,
   unshareConnection,
+  setConnectionProtected,
 } from '@/lib/db/teams';
+import { hasTeamCapability } from '@/lib/db/team-roles';
 import { getConnectionById } from '@/lib/db/app-db';
+import { logActivity } from '@/lib/db/activities';
 
 export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   try {
@@ -51,10 +53,7 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
     }
 
     const { id } = await params;
-    const role = await getUserRoleInTeam(id, user.id);
-    
-    // Members and above can share connections
-    if (!role || role === 'viewer') {
+    if (!(await hasTeamCapability(id, user.id, 'share_connections'))) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
@@ -96,6 +95,59 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
   }
 }
 
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    if (!(await hasTeamCapability(id, user.id, 'manage_team'))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const validationResult = updateSharedConnectionSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { connectionId, isProtected } = validationResult.data;
+
+    const updated = await setConnectionProtected(connectionId, id, isProtected);
+    if (!updated) {
+      return NextResponse.json({ error: 'Shared connection not found' }, { status: 404 });
+    }
+
+    await logActivity({
+      teamId: id,
+      userId: user.id,
+      action: isProtected ? 'connection_protected' : 'connection_unprotected',
+      resourceType: 'connection',
+      resourceId: connectionId,
+      metadata: { connectionName: updated.connection?.name },
+    });
+
+    return NextResponse.json({
+      ...updated,
+      connection: updated.connection
+        ? {
+            ...updated.connection,
+            password: undefined,
+          }
+        : undefined,
+    });
+  } catch (error) {
+    console.error('Failed to update shared connection:', error);
+    return NextResponse.json({ error: 'Failed to update shared connection' }, { status: 500 });
+  }
+}
+
 export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   try {
     const user = await getCurrentUser();
@@ -104,8 +156,7 @@ export async function DELETE(request: NextRequest, { params }: { params: Promise
     }
 
     const { id } = await params;
-    const role = await getUserRoleInTeam(id, user.id);
-    if (!canManageTeam(role)) {
+    if (!(await hasTeamCapability(id, user.id, 'manage_team'))) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
@@ -2,10 +2,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/auth/session';
 import {
   getTeamInvitations,
-  getUserRoleInTeam,
-  canManageTeam,
   deleteTeamInvitation,
 } from '@/lib/db/teams';
+import { hasTeamCapability } from '@/lib/db/team-roles';
 
 export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   try {
@@ -15,8 +14,7 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
     }
 
     const { id } = await params;
-    const role = await getUserRoleInTeam(id, user.id);
-    if (!canManageTeam(role)) {
+    if (!(await hasTeamCapability(id, user.id, 'invite_members'))) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
@@ -36,8 +34,7 @@ export async function DELETE(request: NextRequest, { params }: { params: Promise
     }
 
     const { id } = await params;
-    const role = await getUserRoleInTeam(id, user.id);
-    if (!canManageTeam(role)) {
+    if (!(await hasTeamCapability(id, user.id, 'invite_members'))) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/auth/session';
-import { getUserRoleInTeam, canManageTeam } from '@/lib/db/teams';
+import { getUserRoleInTeam } from '@/lib/db/teams';
+import { hasTeamCapability } from '@/lib/db/team-roles';
 import {
   getMemberPermissionAssignment,
   assignMemberPermission,
@@ -50,9 +51,7 @@ export async function PUT(
     }
 
     const { id, userId } = await params;
-    const role = await getUserRoleInTeam(id, user.id);
-    
-    if (!canManageTeam(role)) {
+    if (!(await hasTeamCapability(id, user.id, 'edit_permissions'))) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
@@ -71,6 +70,7 @@ export async function PUT(
       userId,
       profileId: validationResult.data.profileId,
       customPermissions: validationResult.data.customPermissions,
+      attributes: validationResult.data.attributes,
     });
 
     return NextResponse.json(assignment);
@@ -94,9 +94,7 @@ export async function DELETE(
     }
 
     const { id, userId } = await params;
-    const role = await getUserRoleInTeam(id, user.id);
-    
-    if (!canManageTeam(role)) {
+    if (!(await hasTeamCapability(id, user.id, 'edit_permissions'))) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
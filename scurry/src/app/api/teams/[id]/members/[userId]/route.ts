@@ -1,13 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/auth/session';
 import { updateMemberRoleSchema } from '@/lib/validations/team';
-import {
-  getUserRoleInTeam,
-  canManageTeam,
-  updateTeamMemberRole,
-  removeTeamMember,
-  getTeamById,
-} from '@/lib/db/teams';
+import { updateTeamMemberRole, removeTeamMember, getTeamById } from '@/lib/db/teams';
+import { getTeamMemberAccess, getTeamRoleCapabilities, canGrantTeamRole } from '@/lib/db/team-roles';
 
 export async function PUT(
   request: NextRequest,
@@ -20,8 +15,8 @@ export async function PUT(
     }
 
     const { id, userId } = await params;
-    const currentUserRole = await getUserRoleInTeam(id, user.id);
-    if (!canManageTeam(currentUserRole)) {
+    const access = await getTeamMemberAccess(id, user.id);
+    if (!access?.capabilities.includes('invite_members')) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
@@ -43,9 +38,22 @@ export async function PUT(
       return NextResponse.json({ error: 'Cannot change the owner\'s role' }, { status: 400 });
     }
 
-    // Admin cannot promote someone to admin unless they are the owner
-    if (role === 'admin' && currentUserRole !== 'owner') {
-      return NextResponse.json({ error: 'Only the owner can promote members to admin' }, { status: 403 });
+    const roleCapabilities = await getTeamRoleCapabilities(id, role);
+    if (!roleCapabilities) {
+      return NextResponse.json({ error: 'Role not found' }, { status: 400 });
+    }
+
+    // Only the owner hands out roles that manage the team, and nobody grants more than they have
+    if (!canGrantTeamRole(access, roleCapabilities)) {
+      return NextResponse.json({ error: 'You cannot give a member more access than your own role' }, { status: 403 });
+    }
+
+    const target = await getTeamMemberAccess(id, userId);
+    if (!target) {
+      return NextResponse.json({ error: 'Member not found' }, { status: 404 });
+    }
+    if (!canGrantTeamRole(access, target.capabilities)) {
+      return NextResponse.json({ error: 'You cannot change the role of a member with more access than you' }, { status: 403 });
     }
 
     const member = await updateTeamMemberRole(id, userId, role);
@@ -72,12 +80,19 @@ export async function DELETE(
 
     const { id, userId } = await params;
     
-    // User can remove themselves, or admins/owners can remove others
-    const currentUserRole = await getUserRoleInTeam(id, user.id);
+    // User can remove themselves, or members who can manage membership can remove others
     const isRemovingSelf = user.id === userId;
     
-    if (!isRemovingSelf && !canManageTeam(currentUserRole)) {
-      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    if (!isRemovingSelf) {
+      const access = await getTeamMemberAccess(id, user.id);
+      if (!access?.capabilities.includes('invite_members')) {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+      }
+
+      const target = await getTeamMemberAccess(id, userId);
+      if (target && !canGrantTeamRole(access, target.capabilities)) {
+        return NextResponse.json({ error: 'You cannot remove a member with more access than you' }, { status: 403 });
+      }
     }
 
     // Cannot remove the owner
@@ -4,11 +4,11 @@ import { inviteMemberSchema } from '@/lib/validations/team';
 import {
   getTeamMembers,
   getUserRoleInTeam,
-  canManageTeam,
   createTeamInvitation,
   getPendingInvitationForEmail,
   addTeamMember,
 } from '@/lib/db/teams';
+import { getTeamMemberAccess, getTeamRoleCapabilities, canGrantTeamRole } from '@/lib/db/team-roles';
 import { getUserByEmail } from '@/lib/db/app-db';
 
 export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
@@ -40,8 +40,8 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
     }
 
     const { id } = await params;
-    const role = await getUserRoleInTeam(id, user.id);
-    if (!canManageTeam(role)) {
+    const access = await getTeamMemberAccess(id, user.id);
+    if (!access?.capabilities.includes('invite_members')) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
@@ -57,6 +57,14 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
 
     const { email, role: memberRole } = validationResult.data;
 
+    const roleCapabilities = await getTeamRoleCapabilities(id, memberRole);
+    if (!roleCapabilities) {
+      return NextResponse.json({ error: 'Role not found' }, { status: 400 });
+    }
+    if (!canGrantTeamRole(access, roleCapabilities)) {
+      return NextResponse.json({ error: 'You cannot invite members with more access than your own role' }, { status: 403 });
+    }
+
     // Check if there's already a pending invitation
     const existingInvitation = await getPendingInvitationForEmail(id, email);
     if (existingInvitation) {
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/auth/session';
-import { getUserRoleInTeam, canManageTeam } from '@/lib/db/teams';
+import { hasTeamCapability } from '@/lib/db/team-roles';
 import {
   getPermissionProfile,
   addConnectionPermission,
@@ -20,9 +20,7 @@ export async function POST(
     }
 
     const { id, profileId } = await params;
-    const role = await getUserRoleInTeam(id, user.id);
-    
-    if (!canManageTeam(role)) {
+    if (!(await hasTeamCapability(id, user.id, 'edit_permissions'))) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
@@ -47,6 +45,9 @@ export async function POST(
       canView: validationResult.data.canView,
       canEdit: validationResult.data.canEdit,
       allowedTables: validationResult.data.allowedTables,
+      rowFilters: validationResult.data.rowFilters,
+      operations: validationResult.data.operations,
+      tableOperations: validationResult.data.tableOperations,
     });
 
     // Add column restrictions if provided
@@ -58,6 +59,7 @@ export async function POST(
             profilePermissionId: connectionPerm.id,
             tableName: restrictionValidation.data.tableName,
             hiddenColumns: restrictionValidation.data.hiddenColumns,
+            maskedColumns: restrictionValidation.data.maskedColumns,
           });
         }
       }
@@ -84,9 +86,7 @@ export async function DELETE(
     }
 
     const { id, profileId } = await params;
-    const role = await getUserRoleInTeam(id, user.id);
-    
-    if (!canManageTeam(role)) {
+    if (!(await hasTeamCapability(id, user.id, 'edit_permissions'))) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
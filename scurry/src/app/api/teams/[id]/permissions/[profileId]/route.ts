@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/auth/session';
-import { getUserRoleInTeam, canManageTeam } from '@/lib/db/teams';
+import { getUserRoleInTeam } from '@/lib/db/teams';
+import { hasTeamCapability } from '@/lib/db/team-roles';
 import {
   getPermissionProfile,
   updatePermissionProfile,
@@ -69,9 +70,7 @@ export async function PUT(
     }
 
     const { id, profileId } = await params;
-    const role = await getUserRoleInTeam(id, user.id);
-    
-    if (!canManageTeam(role)) {
+    if (!(await hasTeamCapability(id, user.id, 'edit_permissions'))) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
@@ -116,9 +115,7 @@ export async function DELETE(
     }
 
     const { id, profileId } = await params;
-    const role = await getUserRoleInTeam(id, user.id);
-    
-    if (!canManageTeam(role)) {
+    if (!(await hasTeamCapability(id, user.id, 'edit_permissions'))) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/auth/session';
-import { getUserRoleInTeam, canManageTeam } from '@/lib/db/teams';
+import { getUserRoleInTeam } from '@/lib/db/teams';
+import { hasTeamCapability } from '@/lib/db/team-roles';
 import {
   getTeamPermissionProfiles,
   createPermissionProfile,
@@ -45,10 +46,7 @@ export async function POST(
     }
 
     const { id } = await params;
-    const role = await getUserRoleInTeam(id, user.id);
-    
-    // Only owners and admins can create permission profiles
-    if (!canManageTeam(role)) {
+    if (!(await hasTeamCapability(id, user.id, 'edit_permissions'))) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth/session';
+import {
+  getTeamMemberAccess,
+  getTeamRoleById,
+  updateTeamRole,
+  deleteTeamRole,
+  countTeamRoleUsage,
+} from '@/lib/db/team-roles';
+import { teamRoleSchema } from '@/lib/validations/team';
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; roleId: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, roleId } = await params;
+    const access = await getTeamMemberAccess(id, user.id);
+    if (!access?.capabilities.includes('manage_team')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const existing = await getTeamRoleById(id, roleId);
+    if (!existing) {
+      return NextResponse.json({ error: 'Role not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const validationResult = teamRoleSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    // Changing a role that manages the team changes who can manage roles, so it's left to the owner
+    const managesTeam = existing.capabilities.includes('manage_team') ||
+      validationResult.data.capabilities.includes('manage_team');
+    if (managesTeam && access.role !== 'owner') {
+      return NextResponse.json({ error: 'Only the owner can change roles that manage the team' }, { status: 403 });
+    }
+
+    const role = await updateTeamRole(id, roleId, validationResult.data);
+    if (!role) {
+      return NextResponse.json({ error: 'Role not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(role);
+  } catch (error) {
+    console.error('Failed to update team role:', error);
+    return NextResponse.json({ error: 'Failed to update team role' }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; roleId: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, roleId } = await params;
+    const access = await getTeamMemberAccess(id, user.id);
+    if (!access?.capabilities.includes('manage_team')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const role = await getTeamRoleById(id, roleId);
+    if (!role) {
+      return NextResponse.json({ error: 'Role not found' }, { status: 404 });
+    }
+    if (role.isDefault) {
+      return NextResponse.json({ error: 'Default roles cannot be deleted' }, { status: 400 });
+    }
+    if (role.capabilities.includes('manage_team') && access.role !== 'owner') {
+      return NextResponse.json({ error: 'Only the owner can delete roles that manage the team' }, { status: 403 });
+    }
+
+    // Members and invitations would be left with a role that no longer exists
+    if ((await countTeamRoleUsage(id, role.key)) > 0) {
+      return NextResponse.json(
+        { error: 'Move members and pending invitations to another role before deleting this one' },
+        { status: 409 }
+      );
+    }
+
+    await deleteTeamRole(id, roleId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Failed to delete team role:', error);
+    return NextResponse.json({ error: 'Failed to delete team role' }, { status: 500 });
+  }
+}
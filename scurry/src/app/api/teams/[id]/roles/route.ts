@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth/session';
+import { getUserRoleInTeam } from '@/lib/db/teams';
+import { getTeamMemberAccess, getTeamRoles, createTeamRole } from '@/lib/db/team-roles';
+import { teamRoleSchema } from '@/lib/validations/team';
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const role = await getUserRoleInTeam(id, user.id);
+    if (!role) {
+      return NextResponse.json({ error: 'Team not found' }, { status: 404 });
+    }
+
+    const roles = await getTeamRoles(id);
+    return NextResponse.json(roles);
+  } catch (error) {
+    console.error('Failed to get team roles:', error);
+    return NextResponse.json({ error: 'Failed to get team roles' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const access = await getTeamMemberAccess(id, user.id);
+    if (!access?.capabilities.includes('manage_team')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const validationResult = teamRoleSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    if (validationResult.data.capabilities.includes('manage_team') && access.role !== 'owner') {
+      return NextResponse.json({ error: 'Only the owner can create roles that manage the team' }, { status: 403 });
+    }
+
+    const role = await createTeamRole(id, validationResult.data);
+    return NextResponse.json(role, { status: 201 });
+  } catch (error) {
+    console.error('Failed to create team role:', error);
+    return NextResponse.json({ error: 'Failed to create team role' }, { status: 500 });
+  }
+}
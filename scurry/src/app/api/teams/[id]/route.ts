@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/auth/session';
 import { updateTeamSchema } from '@/lib/validations/team';
-import { getTeamById, updateTeam, deleteTeam, getUserRoleInTeam, canManageTeam, canDeleteTeam } from '@/lib/db/teams';
+import { getTeamById, updateTeam, deleteTeam } from '@/lib/db/teams';
+import { getTeamMemberAccess, hasTeamCapability } from '@/lib/db/team-roles';
 
 export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   try {
@@ -11,8 +12,8 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
     }
 
     const { id } = await params;
-    const role = await getUserRoleInTeam(id, user.id);
-    if (!role) {
+    const access = await getTeamMemberAccess(id, user.id);
+    if (!access) {
       return NextResponse.json({ error: 'Team not found' }, { status: 404 });
     }
 
@@ -21,7 +22,7 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
       return NextResponse.json({ error: 'Team not found' }, { status: 404 });
     }
 
-    return NextResponse.json({ ...team, role });
+    return NextResponse.json({ ...team, ...access });
   } catch (error) {
     console.error('Failed to get team:', error);
     return NextResponse.json({ error: 'Failed to get team' }, { status: 500 });
@@ -36,8 +37,7 @@ export async function PUT(request: NextRequest, { params }: { params: Promise<{
     }
 
     const { id } = await params;
-    const role = await getUserRoleInTeam(id, user.id);
-    if (!canManageTeam(role)) {
+    if (!(await hasTeamCapability(id, user.id, 'manage_team'))) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
@@ -71,8 +71,11 @@ export async function DELETE(request: NextRequest, { params }: { params: Promise
     }
 
     const { id } = await params;
-    const role = await getUserRoleInTeam(id, user.id);
-    if (!canDeleteTeam(role)) {
+    const team = await getTeamById(id);
+    if (!team) {
+      return NextResponse.json({ error: 'Team not found' }, { status: 404 });
+    }
+    if (team.ownerId !== user.id) {
       return NextResponse.json({ error: 'Only the team owner can delete the team' }, { status: 403 });
     }
 
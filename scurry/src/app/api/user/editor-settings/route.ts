@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth/session';
+import { getEditorSettings, saveEditorSettings, type EditorSettings } from '@/lib/db/app-db';
+import { editorSettingsSchema } from '@/lib/validations/editor';
+import { DEFAULT_FORMAT_OPTIONS } from '@/lib/sql/sql-formatter';
+
+function toResponse(settings: EditorSettings) {
+  return {
+    keywordCase: settings.keywordCase,
+    tabWidth: settings.tabWidth,
+    useTabs: settings.useTabs,
+    commaPosition: settings.commaPosition,
+    lintEnabled: settings.lintEnabled,
+  };
+}
+
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const settings = await getEditorSettings(user.id);
+
+    if (!settings) {
+      return NextResponse.json({
+        ...DEFAULT_FORMAT_OPTIONS,
+        lintEnabled: true,
+      });
+    }
+
+    return NextResponse.json(toResponse(settings));
+  } catch (error) {
+    console.error('Failed to get editor settings:', error);
+    return NextResponse.json(
+      { error: 'Failed to get editor settings' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validationResult = editorSettingsSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const settings = await saveEditorSettings(user.id, validationResult.data);
+
+    return NextResponse.json(toResponse(settings));
+  } catch (error) {
+    console.error('Failed to save editor settings:', error);
+    return NextResponse.json(
+      { error: 'Failed to save editor settings' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,7 +2,6 @@
 
 import * as React from 'react';
 import dynamic from 'next/dynamic';
-import { format } from 'sql-formatter';
 import { toast } from 'sonner';
 import { AlertCircle } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -21,6 +20,7 @@ import { useQueryStore } from '@/lib/store';
 import { useGuestConnectionsStore } from '@/lib/store/guest-connections-store';
 import { decryptFromStorage } from '@/lib/utils/client-encryption';
 import { detectDangerousQuery, type DangerousQueryInfo } from '@/lib/sql/dangerous-query-detector';
+import { formatSql } from '@/lib/sql/sql-formatter';
 import type { QueryResult, DatabaseConnection } from '@/types';
 
 const SqlEditor = dynamic(
@@ -47,6 +47,8 @@ export default function GuestQueryPage() {
   
   const isMobile = useMediaQuery('(max-width: 767px)');
 
+  const selectedConnection = connections.find(c => c.id === selectedConnectionId);
+
   // Sync connection selection with store
   React.useEffect(() => {
     if (selectedConnectionId) {
@@ -195,7 +197,7 @@ export default function GuestQueryPage() {
 
   const handleFormat = () => {
     try {
-      const formatted = format(currentQuery, { language: 'mysql' });
+      const formatted = formatSql(currentQuery, selectedConnection?.type);
       setCurrentQuery(formatted);
       toast.success('Query formatted');
     } catch {
@@ -211,7 +213,7 @@ export default function GuestQueryPage() {
       result.columns.map((c) => {
         const val = row[c.name];
         if (val === null) return '';
-        if (typeof val === 'string' && (val.includes(',') || val.includes('"'))) {
+        if (typeof val === 'string' && /[",\r\n]/.test(val)) {
           return `"${val.replace(/"/g, '""')}"`;
         }
         return String(val);
@@ -302,6 +304,7 @@ export default function GuestQueryPage() {
                 value={currentQuery}
                 onChange={setCurrentQuery}
                 onExecute={handleExecute}
+                dialect={selectedConnection?.type}
               />
             </div>
 
@@ -1,6 +1,7 @@
 'use client';
 
 import * as React from 'react';
+import Link from 'next/link';
 import {
   FileCode,
   MessageSquare,
@@ -10,6 +11,10 @@ import {
   Database,
   Trash2,
   Loader2,
+  ShieldAlert,
+  ShieldCheck,
+  ShieldX,
+  GitPullRequest,
 } from 'lucide-react';
 import { ScrollArea } from '@/components/ui/scroll-area';
 
@@ -47,6 +52,14 @@ const actionIcons: Record<string, React.ComponentType<{ className?: string }>> =
   member_invited: UserPlus,
   member_removed: Users,
   team_created: Users,
+  connection_protected: ShieldCheck,
+  connection_unprotected: ShieldX,
+  change_requested: GitPullRequest,
+  change_approved: ShieldCheck,
+  change_rejected: ShieldX,
+  change_executed: GitPullRequest,
+  change_failed: ShieldAlert,
+  change_commented: MessageSquare,
 };
 
 export function ActivityFeed({ teamId, limit = 20, className }: ActivityFeedProps) {
@@ -83,7 +96,12 @@ export function ActivityFeed({ teamId, limit = 20, className }: ActivityFeedProp
       case 'query_saved':
         return `saved query "${metadata.queryName || 'Untitled'}"`;
       case 'query_updated':
-        return `updated query "${metadata.queryName || 'Untitled'}"`;
+        if (metadata.restoredFromRevision) {
+          return `restored query "${metadata.queryName || 'Untitled'}" to version ${metadata.restoredFromRevision}`;
+        }
+        return metadata.revisionNumber
+          ? `updated query "${metadata.queryName || 'Untitled'}" (version ${metadata.revisionNumber})`
+          : `updated query "${metadata.queryName || 'Untitled'}"`;
       case 'query_deleted':
         return `deleted query "${metadata.queryName || 'Untitled'}"`;
       case 'query_shared':
@@ -102,11 +120,39 @@ export function ActivityFeed({ teamId, limit = 20, className }: ActivityFeedProp
         return `removed ${metadata.memberName || metadata.memberEmail || 'a member'}`;
       case 'team_created':
         return `created the team`;
+      case 'connection_protected':
+        return `protected connection "${metadata.connectionName || 'Untitled'}"`;
+      case 'connection_unprotected':
+        return `removed protection from connection "${metadata.connectionName || 'Untitled'}"`;
+      case 'change_requested':
+        return `requested approval for "${metadata.title || 'a change'}"`;
+      case 'change_approved':
+        return `approved the change request "${metadata.title || 'Untitled'}"`;
+      case 'change_rejected':
+        return `rejected the change request "${metadata.title || 'Untitled'}"`;
+      case 'change_executed':
+        return `had "${metadata.title || 'a change'}" run (${metadata.affectedRows ?? 0} row(s) affected)`;
+      case 'change_failed':
+        return `had "${metadata.title || 'a change'}" fail and roll back`;
+      case 'change_commented':
+        return `commented on the change request "${metadata.title || 'Untitled'}"`;
       default:
         return 'performed an action';
     }
   };
 
+  // Updates link to the revision they produced, change requests to the request
+  const getActivityHref = (activity: Activity): string | null => {
+    if (activity.resourceType === 'change_request' && activity.resourceId) {
+      return `/change-requests?${new URLSearchParams({ request: activity.resourceId })}`;
+    }
+    const revisionId = activity.metadata?.revisionId;
+    if (activity.action !== 'query_updated' || !activity.resourceId || typeof revisionId !== 'string') {
+      return null;
+    }
+    return `/queries?${new URLSearchParams({ query: activity.resourceId, revision: revisionId })}`;
+  };
+
   const formatRelativeTime = (dateString: string): string => {
     const date = new Date(dateString);
     const now = new Date();
@@ -144,6 +190,7 @@ export function ActivityFeed({ teamId, limit = 20, className }: ActivityFeedProp
         {activities.map((activity) => {
           const Icon = actionIcons[activity.action] || FileCode;
           const userName = activity.user?.name || activity.user?.email || 'Someone';
+          const href = getActivityHref(activity);
 
           return (
             <div key={activity.id} className="flex gap-3">
@@ -153,7 +200,13 @@ export function ActivityFeed({ teamId, limit = 20, className }: ActivityFeedProp
               <div className="flex-1 min-w-0">
                 <p className="text-sm">
                   <span className="font-medium">{userName}</span>{' '}
-                  <span className="text-muted-foreground">{getActivityDescription(activity)}</span>
+                  {href ? (
+                    <Link href={href} className="text-muted-foreground hover:underline">
+                      {getActivityDescription(activity)}
+                    </Link>
+                  ) : (
+                    <span className="text-muted-foreground">{getActivityDescription(activity)}</span>
+                  )}
                 </p>
                 <div className="flex items-center gap-2 mt-1">
                   <time className="text-xs text-muted-foreground">
@@ -0,0 +1,252 @@
+'use client';
+
+import * as React from 'react';
+import { Check, ChevronDown, ChevronRight, Database, Loader2, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { ChangeRequestComments } from './change-request-comments';
+import type {
+  ChangeRequestDangerLevel,
+  ChangeRequestPreview,
+  ChangeRequestResult,
+  ChangeRequestStatus,
+} from '@/types';
+
+export interface ChangeRequestItem {
+  id: string;
+  title: string;
+  description: string | null;
+  sql: string;
+  dangerLevel: ChangeRequestDangerLevel;
+  status: ChangeRequestStatus;
+  preview: ChangeRequestPreview | null;
+  reviewNote: string | null;
+  reviewedAt: string | null;
+  result: ChangeRequestResult | null;
+  executedAt: string | null;
+  createdAt: string;
+  canReview: boolean;
+  canCancel: boolean;
+  connection?: { name: string };
+  requester?: { email: string; name: string | null };
+  reviewer?: { email: string; name: string | null };
+}
+
+const STATUS_LABELS: Record<ChangeRequestStatus, string> = {
+  pending: 'Pending review',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  cancelled: 'Cancelled',
+  running: 'Running',
+  executed: 'Executed',
+  failed: 'Failed',
+};
+
+const STATUS_CLASSES: Record<ChangeRequestStatus, string> = {
+  pending: 'bg-amber-500/15 text-amber-600 dark:text-amber-400',
+  approved: 'bg-blue-500/15 text-blue-600 dark:text-blue-400',
+  rejected: 'bg-muted text-muted-foreground',
+  cancelled: 'bg-muted text-muted-foreground',
+  running: 'bg-blue-500/15 text-blue-600 dark:text-blue-400',
+  executed: 'bg-green-500/15 text-green-600 dark:text-green-400',
+  failed: 'bg-destructive/15 text-destructive',
+};
+
+const DANGER_LABELS: Record<ChangeRequestDangerLevel, string> = {
+  write: 'Write',
+  warning: 'Warning',
+  critical: 'Critical',
+};
+
+interface ChangeRequestCardProps {
+  teamId: string;
+  changeRequest: ChangeRequestItem;
+  expanded: boolean;
+  onToggle: () => void;
+  onUpdated: () => void;
+}
+
+function personName(person?: { email: string; name: string | null }): string {
+  return person?.name || person?.email || 'Unknown';
+}
+
+export function ChangeRequestCard({ teamId, changeRequest, expanded, onToggle, onUpdated }: ChangeRequestCardProps) {
+  const [note, setNote] = React.useState('');
+  const [acting, setActing] = React.useState<'approve' | 'reject' | 'cancel' | null>(null);
+  const { preview, result } = changeRequest;
+  const pending = changeRequest.status === 'pending';
+
+  const handleAction = async (action: 'approve' | 'reject' | 'cancel') => {
+    setActing(action);
+    try {
+      const response = await fetch(`/api/teams/${teamId}/change-requests/${changeRequest.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, note: note.trim() || null }),
+      });
+
+      if (response.ok) {
+        toast.success(
+          action === 'approve'
+            ? 'Change approved; it will run shortly'
+            : action === 'reject'
+              ? 'Change rejected'
+              : 'Change request cancelled'
+        );
+        setNote('');
+        onUpdated();
+      } else {
+        const error = await response.json();
+        toast.error(error.error || 'Failed to update change request');
+      }
+    } catch {
+      toast.error('Failed to update change request');
+    } finally {
+      setActing(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="cursor-pointer" onClick={onToggle}>
+        <div className="flex items-start gap-2">
+          {expanded ? (
+            <ChevronDown className="h-4 w-4 mt-1 flex-shrink-0" />
+          ) : (
+            <ChevronRight className="h-4 w-4 mt-1 flex-shrink-0" />
+          )}
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center gap-2 flex-wrap">
+              <span className="font-medium truncate">{changeRequest.title}</span>
+              <Badge className={cn('border-transparent', STATUS_CLASSES[changeRequest.status])}>
+                {STATUS_LABELS[changeRequest.status]}
+              </Badge>
+              <Badge variant={changeRequest.dangerLevel === 'critical' ? 'destructive' : 'outline'}>
+                {DANGER_LABELS[changeRequest.dangerLevel]}
+              </Badge>
+            </div>
+            <p className="text-xs text-muted-foreground mt-1 flex items-center gap-1">
+              <Database className="h-3 w-3" />
+              {changeRequest.connection?.name ?? 'Unknown connection'} · requested by{' '}
+              {personName(changeRequest.requester)} · {new Date(changeRequest.createdAt).toLocaleString()}
+            </p>
+          </div>
+        </div>
+      </CardHeader>
+
+      {expanded && (
+        <CardContent className="space-y-4">
+          {changeRequest.description && (
+            <p className="text-sm whitespace-pre-wrap">{changeRequest.description}</p>
+          )}
+
+          <pre className="max-h-64 overflow-auto rounded-md bg-muted p-3 text-xs font-mono whitespace-pre-wrap">
+            {changeRequest.sql}
+          </pre>
+
+          {preview && (
+            <div className="space-y-1 text-sm">
+              <h4 className="font-medium">Dry run</h4>
+              {preview.skipped ? (
+                <p className="text-muted-foreground">{preview.skipped}</p>
+              ) : preview.error ? (
+                <p className="text-destructive">The dry run failed: {preview.error}</p>
+              ) : (
+                <>
+                  <p>
+                    Would affect <span className="font-medium">{preview.affectedRows}</span> row(s)
+                  </p>
+                  {preview.statements.length > 1 && (
+                    <ul className="text-xs text-muted-foreground space-y-0.5">
+                      {preview.statements.map((statement, index) => (
+                        <li key={index} className="truncate font-mono">
+                          {statement.affectedRows} row(s): {statement.sql}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </>
+              )}
+              <p className="text-xs text-muted-foreground">
+                Previewed {new Date(preview.previewedAt).toLocaleString()}; the data may have changed since
+              </p>
+            </div>
+          )}
+
+          {changeRequest.reviewedAt && (
+            <div className="text-sm">
+              <p>
+                {changeRequest.status === 'rejected' ? 'Rejected' : 'Approved'} by{' '}
+                {personName(changeRequest.reviewer)} on {new Date(changeRequest.reviewedAt).toLocaleString()}
+              </p>
+              {changeRequest.reviewNote && (
+                <p className="text-muted-foreground whitespace-pre-wrap">{changeRequest.reviewNote}</p>
+              )}
+            </div>
+          )}
+
+          {result && (
+            <div className="space-y-1 text-sm">
+              <h4 className="font-medium">Result</h4>
+              {result.error ? (
+                <p className="text-destructive">{result.error}</p>
+              ) : (
+                <p>
+                  {result.affectedRows} row(s) affected in {result.executionTime}ms
+                  {changeRequest.executedAt && ` on ${new Date(changeRequest.executedAt).toLocaleString()}`}
+                </p>
+              )}
+            </div>
+          )}
+
+          {pending && changeRequest.canReview && (
+            <div className="space-y-2">
+              <Textarea
+                placeholder="Review note (optional)"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                rows={2}
+                maxLength={2000}
+                className="resize-none"
+              />
+              <div className="flex gap-2">
+                <Button size="sm" onClick={() => handleAction('approve')} disabled={acting !== null}>
+                  {acting === 'approve' ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Check className="h-4 w-4 mr-2" />
+                  )}
+                  Approve and run
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => handleAction('reject')} disabled={acting !== null}>
+                  {acting === 'reject' ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <X className="h-4 w-4 mr-2" />
+                  )}
+                  Reject
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {pending && changeRequest.canCancel && (
+            <Button size="sm" variant="outline" onClick={() => handleAction('cancel')} disabled={acting !== null}>
+              {acting === 'cancel' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Cancel request
+            </Button>
+          )}
+
+          <div className="space-y-2 border-t pt-4">
+            <h4 className="text-sm font-medium">Comments</h4>
+            <ChangeRequestComments teamId={teamId} changeRequestId={changeRequest.id} />
+          </div>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,121 @@
+'use client';
+
+import * as React from 'react';
+import { Send, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from 'sonner';
+
+interface Comment {
+  id: string;
+  content: string;
+  createdAt: string;
+  userId: string;
+  user?: {
+    email: string;
+    name: string | null;
+  };
+}
+
+interface ChangeRequestCommentsProps {
+  teamId: string;
+  changeRequestId: string;
+}
+
+export function ChangeRequestComments({ teamId, changeRequestId }: ChangeRequestCommentsProps) {
+  const [comments, setComments] = React.useState<Comment[]>([]);
+  const [loading, setLoading] = React.useState(true);
+  const [newComment, setNewComment] = React.useState('');
+  const [submitting, setSubmitting] = React.useState(false);
+  const commentsUrl = `/api/teams/${teamId}/change-requests/${changeRequestId}/comments`;
+
+  React.useEffect(() => {
+    const fetchComments = async () => {
+      try {
+        const response = await fetch(commentsUrl);
+        if (response.ok) {
+          setComments(await response.json());
+        }
+      } catch (error) {
+        console.error('Failed to fetch comments:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchComments();
+  }, [commentsUrl]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newComment.trim()) return;
+
+    setSubmitting(true);
+    try {
+      const response = await fetch(commentsUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content: newComment.trim() }),
+      });
+
+      if (response.ok) {
+        const comment = await response.json();
+        setComments((prev) => [...prev, comment]);
+        setNewComment('');
+      } else {
+        toast.error('Failed to add comment');
+      }
+    } catch {
+      toast.error('Failed to add comment');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    return date.toLocaleDateString() + ' ' + date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-4">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {comments.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No comments yet.</p>
+      ) : (
+        comments.map((comment) => (
+          <div key={comment.id}>
+            <div className="flex items-center gap-2">
+              <div className="h-6 w-6 rounded-full bg-muted flex items-center justify-center text-xs font-medium">
+                {(comment.user?.name || comment.user?.email || '?')[0].toUpperCase()}
+              </div>
+              <p className="text-sm font-medium">{comment.user?.name || comment.user?.email || 'Unknown'}</p>
+              <p className="text-xs text-muted-foreground">{formatDate(comment.createdAt)}</p>
+            </div>
+            <p className="text-sm mt-1 ml-8 whitespace-pre-wrap">{comment.content}</p>
+          </div>
+        ))
+      )}
+
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <Textarea
+          placeholder="Ask a question or explain the change..."
+          value={newComment}
+          onChange={(e) => setNewComment(e.target.value)}
+          rows={2}
+          maxLength={2000}
+          className="resize-none"
+        />
+        <Button type="submit" size="icon" disabled={submitting || !newComment.trim()}>
+          {submitting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+        </Button>
+      </form>
+    </div>
+  );
+}
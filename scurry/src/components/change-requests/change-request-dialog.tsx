@@ -0,0 +1,138 @@
+'use client';
+
+import * as React from 'react';
+import { useRouter } from 'next/navigation';
+import { Loader2, ShieldAlert } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from 'sonner';
+import type { ChangeRequestDangerLevel } from '@/types';
+
+interface ChangeRequestDialogProps {
+  teamId: string;
+  connectionId: string;
+  sql: string;
+  dangerLevel: ChangeRequestDangerLevel;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const DANGER_DESCRIPTIONS: Record<ChangeRequestDangerLevel, string> = {
+  write: 'This query changes data',
+  warning: 'This query changes every row of a table or drops part of the schema',
+  critical: 'This query can destroy data',
+};
+
+/**
+ * Shown when a write query is refused on a protected connection: submits it
+ * as a change request for another team member to approve
+ */
+export function ChangeRequestDialog({
+  teamId,
+  connectionId,
+  sql,
+  dangerLevel,
+  open,
+  onOpenChange,
+}: ChangeRequestDialogProps) {
+  const router = useRouter();
+  const [title, setTitle] = React.useState('');
+  const [description, setDescription] = React.useState('');
+  const [saving, setSaving] = React.useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/teams/${teamId}/change-requests`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ connectionId, sql, title: title.trim(), description: description.trim() || null }),
+      });
+
+      if (response.ok) {
+        const changeRequest = await response.json();
+        toast.success('Change request submitted for approval', {
+          action: {
+            label: 'View',
+            onClick: () => router.push(`/change-requests?request=${changeRequest.id}`),
+          },
+        });
+        onOpenChange(false);
+        setTitle('');
+        setDescription('');
+      } else {
+        const error = await response.json();
+        toast.error(error.error || 'Failed to submit change request');
+      }
+    } catch {
+      toast.error('Failed to submit change request');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldAlert className="h-5 w-5 text-amber-500" />
+            Approval required
+          </DialogTitle>
+          <DialogDescription>
+            {DANGER_DESCRIPTIONS[dangerLevel]} on a protected connection. Submit it as a change request: once
+            a teammate who can approve changes approves it, it runs automatically.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="grid gap-4 py-4">
+            <pre className="max-h-40 overflow-auto rounded-md bg-muted p-3 text-xs font-mono whitespace-pre-wrap">
+              {sql}
+            </pre>
+            <div className="grid gap-2">
+              <Label htmlFor="change-request-title">Title</Label>
+              <Input
+                id="change-request-title"
+                placeholder="Backfill missing order totals"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                maxLength={200}
+                required
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="change-request-description">Why is this change needed? (optional)</Label>
+              <Textarea
+                id="change-request-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                maxLength={2000}
+                rows={3}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving || !title.trim()}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Request approval
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
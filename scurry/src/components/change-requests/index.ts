@@ -0,0 +1,3 @@
+export { ChangeRequestDialog } from './change-request-dialog';
+export { ChangeRequestCard, type ChangeRequestItem } from './change-request-card';
+export { ChangeRequestComments } from './change-request-comments';
@@ -0,0 +1,161 @@
+'use client';
+
+import * as React from 'react';
+import { ChevronDown, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { classifyColumns, inferChartConfig, resolveChartColumns } from '@/lib/charts/chart-data';
+import { ChartView } from './chart-view';
+import type { ChartConfig, ChartType, QueryResult } from '@/types';
+
+interface ChartBuilderProps {
+  result: QueryResult;
+  // Null shows the chart inferred from the result's column types
+  config: ChartConfig | null;
+  onConfigChange: (config: ChartConfig | null) => void;
+}
+
+const NONE = '__none__';
+
+const CHART_TYPE_LABELS: Partial<Record<ChartType, string>> = {
+  line: 'Line',
+  bar: 'Bar',
+  pie: 'Pie',
+  number: 'Number',
+};
+
+export function ChartBuilder({ result, config, onConfigChange }: ChartBuilderProps) {
+  const inferred = React.useMemo(() => inferChartConfig(result), [result]);
+  const kinds = React.useMemo(() => classifyColumns(result), [result]);
+  // A saved 'table' config still opens as a chart here
+  const effective = config && config.type !== 'table' ? config : inferred;
+  const { xColumn, yColumns } = resolveChartColumns(result, effective);
+  const names = result.columns.map((column) => column.name);
+
+  const update = (changes: Partial<ChartConfig>) => {
+    onConfigChange({ ...effective, ...changes });
+  };
+
+  const toggleYColumn = (name: string, checked: boolean) => {
+    const next = checked ? [...yColumns, name] : yColumns.filter((column) => column !== name);
+    update({ yColumns: next.length ? next : undefined });
+  };
+
+  return (
+    <div className="space-y-3 min-w-0">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={effective.type} onValueChange={(type) => update({ type: type as ChartType })}>
+          <SelectTrigger className="h-8 w-[110px]" aria-label="Chart type">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(CHART_TYPE_LABELS).map(([type, label]) => (
+              <SelectItem key={type} value={type}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {effective.type !== 'number' && (
+          <Select
+            value={xColumn ?? undefined}
+            onValueChange={(value) =>
+              update({ xColumn: value, groupBy: effective.groupBy === value ? undefined : effective.groupBy })
+            }
+          >
+            <SelectTrigger className="h-8 w-[170px]" aria-label="X axis">
+              <span className="text-muted-foreground mr-1">X:</span>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {names.map((name) => (
+                <SelectItem key={name} value={name}>
+                  {name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" className="h-8 max-w-[220px]">
+              <span className="text-muted-foreground mr-1">Y:</span>
+              <span className="truncate">{yColumns.length ? yColumns.join(', ') : 'None'}</span>
+              <ChevronDown className="h-3.5 w-3.5 ml-1 flex-shrink-0" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start" className="max-h-72 overflow-y-auto">
+            <DropdownMenuLabel>Values</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            {names
+              .filter((name) => name !== xColumn)
+              .map((name) => (
+                <DropdownMenuCheckboxItem
+                  key={name}
+                  checked={yColumns.includes(name)}
+                  onCheckedChange={(checked) => toggleYColumn(name, checked === true)}
+                  onSelect={(e) => e.preventDefault()}
+                >
+                  {name}
+                  {kinds[name] !== 'numeric' && <span className="ml-auto pl-2 text-xs text-muted-foreground">text</span>}
+                </DropdownMenuCheckboxItem>
+              ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        {effective.type !== 'number' && (
+          <Select
+            value={effective.groupBy ?? NONE}
+            onValueChange={(value) => update({ groupBy: value === NONE ? undefined : value })}
+          >
+            <SelectTrigger className="h-8 w-[180px]" aria-label="Group by">
+              <span className="text-muted-foreground mr-1">Group:</span>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>None</SelectItem>
+              {names
+                .filter((name) => name !== xColumn && kinds[name] !== 'numeric')
+                .map((name) => (
+                  <SelectItem key={name} value={name}>
+                    {name}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        {config && (
+          <Button variant="ghost" size="sm" className="h-8" onClick={() => onConfigChange(null)} title="Reset to the suggested chart">
+            <RotateCcw className="h-3.5 w-3.5 mr-1" />
+            Reset
+          </Button>
+        )}
+      </div>
+
+      {effective.groupBy && yColumns.length > 1 && (
+        <p className="text-xs text-muted-foreground">
+          Grouped charts plot one value column: {yColumns[0]}, split by {effective.groupBy}.
+        </p>
+      )}
+
+      <ChartView result={result} config={effective} />
+    </div>
+  );
+}
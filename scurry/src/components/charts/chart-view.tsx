@@ -0,0 +1,58 @@
+'use client';
+
+import * as React from 'react';
+import { buildChartData, singleValue, toNumber, formatChartValue } from '@/lib/charts/chart-data';
+import { LineChart, BarChart, PieChart } from './svg-charts';
+import type { ChartConfig, QueryResult } from '@/types';
+
+interface ChartViewProps {
+  result: QueryResult;
+  config: ChartConfig;
+}
+
+/**
+ * Draws a result as a number or chart. Callers render 'table' themselves
+ * with their own grid.
+ */
+export function ChartView({ result, config }: ChartViewProps) {
+  const data = React.useMemo(
+    () => (config.type === 'table' || config.type === 'number' ? null : buildChartData(result, config)),
+    [result, config]
+  );
+
+  if (result.rows.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-8">The query returned no rows.</p>;
+  }
+
+  if (config.type === 'number') {
+    const single = singleValue(result, config);
+    const numeric = single ? toNumber(single.value) : null;
+    return (
+      <div className="flex flex-col items-center justify-center py-6">
+        <span className="text-4xl font-semibold tabular-nums">
+          {numeric !== null ? formatChartValue(numeric) : String(single?.value ?? '—')}
+        </span>
+        {single && <span className="text-sm text-muted-foreground mt-1">{single.label}</span>}
+      </div>
+    );
+  }
+
+  if (!data || data.series.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground text-center py-8">
+        No numeric columns to chart. Pick a Y column or switch to a table.
+      </p>
+    );
+  }
+
+  switch (config.type) {
+    case 'line':
+      return <LineChart data={data} />;
+    case 'bar':
+      return <BarChart data={data} />;
+    case 'pie':
+      return <PieChart data={data} />;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,3 @@
+export { ChartView } from './chart-view';
+export { ChartBuilder } from './chart-builder';
+export { LineChart, BarChart, PieChart } from './svg-charts';
@@ -0,0 +1,250 @@
+'use client';
+
+import * as React from 'react';
+import { chartColor, formatChartValue, type ChartData } from '@/lib/charts/chart-data';
+
+const WIDTH = 600;
+const HEIGHT = 260;
+const PADDING = { top: 12, right: 12, bottom: 36, left: 56 };
+const PLOT_WIDTH = WIDTH - PADDING.left - PADDING.right;
+const PLOT_HEIGHT = HEIGHT - PADDING.top - PADDING.bottom;
+const Y_TICKS = 4;
+const MAX_X_LABELS = 8;
+const MAX_PIE_SLICES = 8;
+
+interface ChartProps {
+  data: ChartData;
+}
+
+function truncate(label: string, length = 14): string {
+  return label.length > length ? `${label.slice(0, length - 1)}…` : label;
+}
+
+/**
+ * Value range across all series, always including zero so bars have a base
+ */
+function valueRange(data: ChartData): { min: number; max: number } {
+  const values = data.series.flatMap((series) => series.values).filter((value): value is number => value !== null);
+  const min = Math.min(0, ...values);
+  const max = Math.max(0, ...values);
+  return min === max ? { min, max: min + 1 } : { min, max };
+}
+
+function Legend({ names }: { names: string[] }) {
+  if (names.length < 2) return null;
+  return (
+    <div className="flex flex-wrap gap-x-3 gap-y-1 justify-center text-xs text-muted-foreground">
+      {names.map((name, index) => (
+        <span key={name} className="flex items-center gap-1">
+          <span className="h-2 w-2 rounded-sm" style={{ backgroundColor: chartColor(index) }} />
+          {name}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Axes, gridlines and labels shared by the line and bar charts
+ */
+function CartesianFrame({
+  data,
+  range,
+  xPosition,
+  children,
+}: {
+  data: ChartData;
+  range: { min: number; max: number };
+  xPosition: (index: number) => number;
+  children: React.ReactNode;
+}) {
+  const y = (value: number) => PADDING.top + PLOT_HEIGHT - ((value - range.min) / (range.max - range.min)) * PLOT_HEIGHT;
+  const ticks = Array.from({ length: Y_TICKS + 1 }, (_, i) => range.min + ((range.max - range.min) * i) / Y_TICKS);
+  const labelStep = Math.max(1, Math.ceil(data.categories.length / MAX_X_LABELS));
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img">
+      {ticks.map((tick) => (
+        <g key={tick}>
+          <line
+            x1={PADDING.left}
+            x2={WIDTH - PADDING.right}
+            y1={y(tick)}
+            y2={y(tick)}
+            className="stroke-border"
+            strokeDasharray={tick === 0 ? undefined : '3 3'}
+          />
+          <text x={PADDING.left - 6} y={y(tick)} textAnchor="end" dominantBaseline="middle" className="fill-muted-foreground text-[10px]">
+            {formatChartValue(tick)}
+          </text>
+        </g>
+      ))}
+      {data.categories.map((category, index) =>
+        index % labelStep === 0 ? (
+          <text
+            key={index}
+            x={xPosition(index)}
+            y={HEIGHT - PADDING.bottom + 16}
+            textAnchor="middle"
+            className="fill-muted-foreground text-[10px]"
+          >
+            {truncate(category)}
+          </text>
+        ) : null
+      )}
+      {children}
+    </svg>
+  );
+}
+
+export function LineChart({ data }: ChartProps) {
+  const range = valueRange(data);
+  const count = data.categories.length;
+  const x = (index: number) => PADDING.left + (count <= 1 ? PLOT_WIDTH / 2 : (index / (count - 1)) * PLOT_WIDTH);
+  const y = (value: number) => PADDING.top + PLOT_HEIGHT - ((value - range.min) / (range.max - range.min)) * PLOT_HEIGHT;
+
+  return (
+    <div className="space-y-2">
+      <CartesianFrame data={data} range={range} xPosition={x}>
+        {data.series.map((series, seriesIndex) => {
+          // Nulls break the line instead of dropping to zero
+          const path = series.values
+            .map((value, index) => (value === null ? null : `${x(index)},${y(value)}`))
+            .reduce<string[]>((segments, point, index, points) => {
+              if (point === null) return segments;
+              segments.push(`${index === 0 || points[index - 1] === null ? 'M' : 'L'}${point}`);
+              return segments;
+            }, [])
+            .join(' ');
+
+          return (
+            <g key={series.name}>
+              <path d={path} fill="none" stroke={chartColor(seriesIndex)} strokeWidth={2} />
+              {count <= 60 && series.values.map((value, index) =>
+                value === null ? null : (
+                  <circle key={index} cx={x(index)} cy={y(value)} r={2.5} fill={chartColor(seriesIndex)}>
+                    <title>{`${data.categories[index]} · ${series.name}: ${formatChartValue(value)}`}</title>
+                  </circle>
+                )
+              )}
+            </g>
+          );
+        })}
+      </CartesianFrame>
+      <Legend names={data.series.map((series) => series.name)} />
+    </div>
+  );
+}
+
+export function BarChart({ data }: ChartProps) {
+  const range = valueRange(data);
+  const count = Math.max(1, data.categories.length);
+  const band = PLOT_WIDTH / count;
+  const barWidth = Math.max(1, (band * 0.8) / Math.max(1, data.series.length));
+  const x = (index: number) => PADDING.left + band * index + band / 2;
+  const y = (value: number) => PADDING.top + PLOT_HEIGHT - ((value - range.min) / (range.max - range.min)) * PLOT_HEIGHT;
+
+  return (
+    <div className="space-y-2">
+      <CartesianFrame data={data} range={range} xPosition={x}>
+        {data.series.map((series, seriesIndex) =>
+          series.values.map((value, index) => {
+            if (value === null) return null;
+            const left = x(index) - (barWidth * data.series.length) / 2 + barWidth * seriesIndex;
+            const top = Math.min(y(value), y(0));
+            return (
+              <rect
+                key={`${series.name}-${index}`}
+                x={left}
+                y={top}
+                width={barWidth}
+                height={Math.max(1, Math.abs(y(value) - y(0)))}
+                fill={chartColor(seriesIndex)}
+              >
+                <title>{`${data.categories[index]} · ${series.name}: ${formatChartValue(value)}`}</title>
+              </rect>
+            );
+          })
+        )}
+      </CartesianFrame>
+      <Legend names={data.series.map((series) => series.name)} />
+    </div>
+  );
+}
+
+/**
+ * Pie of the first series; small slices past the largest few become "Other"
+ */
+export function PieChart({ data }: ChartProps) {
+  const series = data.series[0];
+  if (!series) return null;
+
+  const slices = data.categories
+    .map((label, index) => ({ label, value: series.values[index] ?? 0 }))
+    .filter((slice) => slice.value > 0)
+    .sort((a, b) => b.value - a.value);
+  const shown = slices.slice(0, MAX_PIE_SLICES - 1);
+  const rest = slices.slice(MAX_PIE_SLICES - 1).reduce((sum, slice) => sum + slice.value, 0);
+  if (rest > 0) shown.push({ label: 'Other', value: rest });
+
+  const total = shown.reduce((sum, slice) => sum + slice.value, 0);
+  if (total === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-8">Nothing to chart: no positive values.</p>;
+  }
+
+  const radius = 100;
+  const center = 110;
+  const arcs = shown.map((slice, index) => {
+    const before = shown.slice(0, index).reduce((sum, s) => sum + s.value, 0);
+    return {
+      ...slice,
+      start: -Math.PI / 2 + (before / total) * Math.PI * 2,
+      sweep: (slice.value / total) * Math.PI * 2,
+    };
+  });
+
+  return (
+    <div className="flex flex-col sm:flex-row items-center gap-4">
+      <svg viewBox="0 0 220 220" className="w-full max-w-[220px] h-auto" role="img">
+        {arcs.map((slice, index) => {
+          const end = slice.start + slice.sweep;
+          const label = `${slice.label}: ${formatChartValue(slice.value)} (${Math.round((slice.value / total) * 100)}%)`;
+
+          if (shown.length === 1) {
+            return (
+              <circle key={slice.label} cx={center} cy={center} r={radius} fill={chartColor(index)}>
+                <title>{label}</title>
+              </circle>
+            );
+          }
+
+          const x1 = center + radius * Math.cos(slice.start);
+          const y1 = center + radius * Math.sin(slice.start);
+          const x2 = center + radius * Math.cos(end);
+          const y2 = center + radius * Math.sin(end);
+          const largeArc = slice.sweep > Math.PI ? 1 : 0;
+          return (
+            <path
+              key={slice.label}
+              d={`M${center},${center} L${x1},${y1} A${radius},${radius} 0 ${largeArc} 1 ${x2},${y2} Z`}
+              fill={chartColor(index)}
+              className="stroke-background"
+              strokeWidth={1}
+            >
+              <title>{label}</title>
+            </path>
+          );
+        })}
+      </svg>
+      <div className="space-y-1 text-xs">
+        {shown.map((slice, index) => (
+          <div key={slice.label} className="flex items-center gap-2">
+            <span className="h-2 w-2 rounded-sm flex-shrink-0" style={{ backgroundColor: chartColor(index) }} />
+            <span className="truncate max-w-[160px]">{slice.label}</span>
+            <span className="text-muted-foreground tabular-nums">{formatChartValue(slice.value)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
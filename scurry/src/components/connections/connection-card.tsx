@@ -1,7 +1,7 @@
 'use client';
 
 import * as React from 'react';
-import { MoreHorizontal, Pencil, Trash2, Play, Loader2, CheckCircle, XCircle, Share2 } from 'lucide-react';
+import { MoreHorizontal, Pencil, Trash2, Play, Loader2, CheckCircle, XCircle, Share2, ShieldCheck, ShieldOff } from 'lucide-react';
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import {
@@ -22,6 +22,9 @@ interface ConnectionCardProps {
   isShared?: boolean;
   isOwner?: boolean;
   permission?: string;
+  // Write queries on a protected connection need another admin's approval
+  isProtected?: boolean;
+  onToggleProtected?: () => void;
 }
 
 export function ConnectionCard({ 
@@ -32,6 +35,8 @@ export function ConnectionCard({
   isShared = false,
   isOwner = false,
   permission,
+  isProtected = false,
+  onToggleProtected,
 }: ConnectionCardProps) {
   const [testing, setTesting] = React.useState(false);
   const [testResult, setTestResult] = React.useState<{ success: boolean; message: string } | null>(null);
@@ -103,6 +108,16 @@ export function ConnectionCard({
                 Test Connection
               </DropdownMenuItem>
             )}
+            {onToggleProtected && (
+              <DropdownMenuItem onClick={onToggleProtected}>
+                {isProtected ? (
+                  <ShieldOff className="mr-2 h-4 w-4" />
+                ) : (
+                  <ShieldCheck className="mr-2 h-4 w-4" />
+                )}
+                {isProtected ? 'Stop Requiring Approval' : 'Require Approval for Changes'}
+              </DropdownMenuItem>
+            )}
             {onEdit && onDelete && (
               <>
                 <DropdownMenuSeparator />
@@ -130,6 +145,12 @@ export function ConnectionCard({
                 {isOwner ? 'You shared' : 'Shared'}
               </Badge>
             )}
+            {isProtected && (
+              <Badge variant="outline" className="gap-1" title="Changes need another admin's approval">
+                <ShieldCheck className="h-3 w-3" />
+                Protected
+              </Badge>
+            )}
             {permission && (
               <Badge variant={permission === 'write' ? 'default' : 'secondary'}>
                 {permission === 'write' ? 'Read/Write' : 'Read Only'}
@@ -0,0 +1,106 @@
+'use client';
+
+import * as React from 'react';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from 'sonner';
+
+interface CreateDashboardDialogProps {
+  // Team workspaces create dashboards shared with the whole team
+  teamId: string | null;
+  teamName?: string | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreated: (dashboard: { id: string }) => void;
+}
+
+export function CreateDashboardDialog({ teamId, teamName, open, onOpenChange, onCreated }: CreateDashboardDialogProps) {
+  const [name, setName] = React.useState('');
+  const [description, setDescription] = React.useState('');
+  const [saving, setSaving] = React.useState(false);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const response = await fetch('/api/dashboards', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: name.trim(), description: description.trim() || null, teamId }),
+      });
+
+      if (response.ok) {
+        toast.success('Dashboard created');
+        onCreated(await response.json());
+        onOpenChange(false);
+        setName('');
+        setDescription('');
+      } else {
+        const error = await response.json();
+        toast.error(error.error || 'Failed to create dashboard');
+      }
+    } catch {
+      toast.error('Failed to create dashboard');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>New Dashboard</DialogTitle>
+          <DialogDescription>
+            {teamId
+              ? `Everyone in ${teamName ?? 'the team'} will be able to view this dashboard.`
+              : 'A personal dashboard. You can share it with a team later.'}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleCreate}>
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="dashboard-name">Name</Label>
+              <Input
+                id="dashboard-name"
+                placeholder="Weekly metrics"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                required
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="dashboard-description">Description (optional)</Label>
+              <Textarea
+                id="dashboard-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                rows={3}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving || !name.trim()}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Create
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
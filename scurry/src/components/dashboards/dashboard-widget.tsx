@@ -0,0 +1,181 @@
+'use client';
+
+import * as React from 'react';
+import {
+  RefreshCw,
+  Loader2,
+  MoreVertical,
+  Pencil,
+  Trash2,
+  ArrowUp,
+  ArrowDown,
+  AlertCircle,
+  ShieldAlert,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { ChartView } from '@/components/charts';
+import { ResultsTable } from '@/components/results';
+import { cn } from '@/lib/utils';
+import type { ChartConfig, QueryParameterValue, QueryResult } from '@/types';
+
+export interface DashboardWidgetData {
+  id: string;
+  dashboardId: string;
+  queryId: string;
+  connectionId: string | null;
+  title: string;
+  chart: ChartConfig;
+  parameterValues: Record<string, QueryParameterValue>;
+  refreshInterval: number | null;
+  width: 'half' | 'full';
+  position: number;
+  updatedAt: string;
+  query?: {
+    id: string;
+    name: string;
+  };
+}
+
+interface DashboardWidgetProps {
+  widget: DashboardWidgetData;
+  canEdit: boolean;
+  // Bumped by the dashboard's "Refresh all"
+  refreshToken: number;
+  isFirst: boolean;
+  isLast: boolean;
+  onEdit: (widget: DashboardWidgetData, columns: string[]) => void;
+  onDelete: (widget: DashboardWidgetData) => void;
+  onMove: (widget: DashboardWidgetData, direction: -1 | 1) => void;
+}
+
+export function DashboardWidget({
+  widget,
+  canEdit,
+  refreshToken,
+  isFirst,
+  isLast,
+  onEdit,
+  onDelete,
+  onMove,
+}: DashboardWidgetProps) {
+  const [result, setResult] = React.useState<QueryResult | null>(null);
+  const [error, setError] = React.useState<{ message: string; permission: boolean } | null>(null);
+  const [loading, setLoading] = React.useState(true);
+  const [lastRun, setLastRun] = React.useState<Date | null>(null);
+
+  const run = React.useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/dashboards/${widget.dashboardId}/widgets/${widget.id}/run`, {
+        method: 'POST',
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError({ message: data.error || 'Failed to run widget', permission: !!data.permissionError });
+        setResult(null);
+      } else if (data.error) {
+        setError({ message: data.error, permission: false });
+        setResult(null);
+      } else {
+        setError(null);
+        setResult(data);
+      }
+      setLastRun(new Date());
+    } catch {
+      setError({ message: 'Failed to run widget', permission: false });
+    } finally {
+      setLoading(false);
+    }
+  }, [widget.dashboardId, widget.id]);
+
+  React.useEffect(() => {
+    run();
+  }, [run, refreshToken]);
+
+  React.useEffect(() => {
+    if (!widget.refreshInterval) return;
+    const timer = setInterval(run, widget.refreshInterval * 1000);
+    return () => clearInterval(timer);
+  }, [run, widget.refreshInterval]);
+
+  const columns = result?.columns.map((column) => column.name) ?? [];
+
+  return (
+    <Card className={cn('flex flex-col min-w-0', widget.width === 'full' && 'md:col-span-2')}>
+      <CardHeader className="flex flex-row items-start justify-between gap-2 space-y-0 pb-2">
+        <div className="min-w-0">
+          <CardTitle className="text-base truncate">{widget.title}</CardTitle>
+          <p className="text-xs text-muted-foreground truncate">
+            {widget.query?.name ?? 'Saved query'}
+            {lastRun && ` · updated ${lastRun.toLocaleTimeString()}`}
+            {widget.refreshInterval && ` · every ${Math.round(widget.refreshInterval / 60)} min`}
+          </p>
+        </div>
+        <div className="flex items-center gap-1 flex-shrink-0">
+          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={run} disabled={loading} title="Refresh">
+            {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+          </Button>
+          {canEdit && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="icon" className="h-8 w-8">
+                  <MoreVertical className="h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => onEdit(widget, columns)}>
+                  <Pencil className="h-4 w-4 mr-2" />
+                  Edit
+                </DropdownMenuItem>
+                <DropdownMenuItem disabled={isFirst} onClick={() => onMove(widget, -1)}>
+                  <ArrowUp className="h-4 w-4 mr-2" />
+                  Move Up
+                </DropdownMenuItem>
+                <DropdownMenuItem disabled={isLast} onClick={() => onMove(widget, 1)}>
+                  <ArrowDown className="h-4 w-4 mr-2" />
+                  Move Down
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem className="text-destructive" onClick={() => onDelete(widget)}>
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Remove
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="flex-1 min-h-[160px]">
+        {error ? (
+          <div className="flex flex-col items-center justify-center text-center gap-2 py-8 text-sm">
+            {error.permission ? (
+              <ShieldAlert className="h-6 w-6 text-amber-500" />
+            ) : (
+              <AlertCircle className="h-6 w-6 text-destructive" />
+            )}
+            <p className="text-muted-foreground max-w-sm">{error.message}</p>
+          </div>
+        ) : result ? (
+          widget.chart.type === 'table' ? (
+            <ResultsTable result={result} />
+          ) : (
+            <ChartView result={result} config={widget.chart} />
+          )
+        ) : (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
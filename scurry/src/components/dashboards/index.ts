@@ -0,0 +1,3 @@
+export { DashboardWidget, type DashboardWidgetData } from './dashboard-widget';
+export { WidgetDialog } from './widget-dialog';
+export { CreateDashboardDialog } from './create-dashboard-dialog';
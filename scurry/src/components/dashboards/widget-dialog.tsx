@@ -0,0 +1,367 @@
+'use client';
+
+import * as React from 'react';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ParameterField, initialParameterValues } from '@/components/queries';
+import { useConnections } from '@/hooks';
+import { toast } from 'sonner';
+import type { DashboardWidgetData } from './dashboard-widget';
+import type { ChartConfig, ChartType, QueryParameter, QueryParameterValue } from '@/types';
+
+interface WidgetQuery {
+  id: string;
+  name: string;
+  teamId: string | null;
+  connectionId: string | null;
+  parameters: QueryParameter[];
+  chart: ChartConfig | null;
+}
+
+interface WidgetDialogProps {
+  dashboardId: string;
+  teamId: string | null;
+  // Set when editing; the columns come from the widget's last result
+  widget?: DashboardWidgetData | null;
+  columns?: string[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (widget: DashboardWidgetData) => void;
+}
+
+const AUTO = '__auto__';
+
+const CHART_TYPE_LABELS: Record<ChartType, string> = {
+  table: 'Table',
+  number: 'Single number',
+  line: 'Line chart',
+  bar: 'Bar chart',
+  pie: 'Pie chart',
+};
+
+const REFRESH_OPTIONS = [
+  { value: 'off', label: 'On demand only' },
+  { value: '60', label: 'Every minute' },
+  { value: '300', label: 'Every 5 minutes' },
+  { value: '900', label: 'Every 15 minutes' },
+  { value: '3600', label: 'Every hour' },
+];
+
+export function WidgetDialog({
+  dashboardId,
+  teamId,
+  widget,
+  columns = [],
+  open,
+  onOpenChange,
+  onSaved,
+}: WidgetDialogProps) {
+  const { connections } = useConnections({ teamId });
+  const [queries, setQueries] = React.useState<WidgetQuery[]>([]);
+  const [loadingQueries, setLoadingQueries] = React.useState(true);
+  const [queryId, setQueryId] = React.useState(widget?.queryId ?? '');
+  const [title, setTitle] = React.useState(widget?.title ?? '');
+  const [chartType, setChartType] = React.useState<ChartType>(widget?.chart.type ?? 'table');
+  const [xColumn, setXColumn] = React.useState(widget?.chart.xColumn ?? AUTO);
+  const [yColumns, setYColumns] = React.useState<string[]>(widget?.chart.yColumns ?? []);
+  const [groupBy, setGroupBy] = React.useState(widget?.chart.groupBy ?? AUTO);
+  const [connectionId, setConnectionId] = React.useState(widget?.connectionId ?? AUTO);
+  const [values, setValues] = React.useState<Record<string, QueryParameterValue>>(widget?.parameterValues ?? {});
+  const [refresh, setRefresh] = React.useState(widget?.refreshInterval ? String(widget.refreshInterval) : 'off');
+  const [width, setWidth] = React.useState<'half' | 'full'>(widget?.width ?? 'half');
+  const [saving, setSaving] = React.useState(false);
+
+  React.useEffect(() => {
+    // Team dashboards can only show that team's queries
+    const url = teamId ? `/api/queries?teamId=${teamId}` : '/api/queries?includeTeam=true';
+    fetch(url)
+      .then((response) => (response.ok ? response.json() : []))
+      .then(setQueries)
+      .catch(() => setQueries([]))
+      .finally(() => setLoadingQueries(false));
+  }, [teamId]);
+
+  const selectedQuery = queries.find((query) => query.id === queryId);
+
+  const handleQueryChange = (id: string) => {
+    const query = queries.find((q) => q.id === id);
+    setQueryId(id);
+    if (query) {
+      setValues(initialParameterValues(query.parameters));
+      if (!title.trim()) setTitle(query.name);
+      // Start from the chart saved with the query
+      if (query.chart) {
+        setChartType(query.chart.type);
+        setXColumn(query.chart.xColumn ?? AUTO);
+        setYColumns(query.chart.yColumns ?? []);
+        setGroupBy(query.chart.groupBy ?? AUTO);
+      }
+    }
+  };
+
+  const toggleYColumn = (column: string, checked: boolean) => {
+    setYColumns((prev) => (checked ? [...prev, column] : prev.filter((name) => name !== column)));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const body = {
+        ...(widget ? {} : { queryId }),
+        title: title.trim(),
+        chart: {
+          type: chartType,
+          xColumn: xColumn === AUTO ? undefined : xColumn,
+          yColumns: yColumns.length ? yColumns : undefined,
+          groupBy: groupBy === AUTO ? undefined : groupBy,
+        },
+        connectionId: connectionId === AUTO ? null : connectionId,
+        parameterValues: values,
+        refreshInterval: refresh === 'off' ? null : Number(refresh),
+        width,
+      };
+      const response = await fetch(
+        widget ? `/api/dashboards/${dashboardId}/widgets/${widget.id}` : `/api/dashboards/${dashboardId}/widgets`,
+        {
+          method: widget ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        }
+      );
+
+      if (response.ok) {
+        toast.success(widget ? 'Widget updated' : 'Widget added');
+        onSaved(await response.json());
+        onOpenChange(false);
+      } else {
+        const error = await response.json();
+        toast.error(error.error || 'Failed to save widget');
+      }
+    } catch {
+      toast.error('Failed to save widget');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const showAxes = chartType !== 'table';
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{widget ? 'Edit Widget' : 'Add Widget'}</DialogTitle>
+          <DialogDescription>
+            Pin a saved query. It runs with the permissions of whoever views the dashboard.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSave}>
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="widget-query">Saved query</Label>
+              <Select value={queryId} onValueChange={handleQueryChange} disabled={!!widget || loadingQueries}>
+                <SelectTrigger id="widget-query">
+                  <SelectValue placeholder={loadingQueries ? 'Loading...' : 'Select a query'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {(widget && !selectedQuery ? [{ id: widget.queryId, name: widget.query?.name ?? 'Saved query' }] : queries).map(
+                    (query) => (
+                      <SelectItem key={query.id} value={query.id}>
+                        {query.name}
+                      </SelectItem>
+                    )
+                  )}
+                </SelectContent>
+              </Select>
+              {!loadingQueries && !widget && queries.length === 0 && (
+                <p className="text-xs text-muted-foreground">
+                  {teamId ? 'This team has no saved queries yet.' : 'Save a query from the Query Editor first.'}
+                </p>
+              )}
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="widget-title">Title</Label>
+              <Input
+                id="widget-title"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                placeholder="Weekly signups"
+                required
+              />
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="grid gap-2">
+                <Label htmlFor="widget-chart">Show as</Label>
+                <Select value={chartType} onValueChange={(value) => setChartType(value as ChartType)}>
+                  <SelectTrigger id="widget-chart">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(CHART_TYPE_LABELS) as ChartType[]).map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {CHART_TYPE_LABELS[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="widget-width">Width</Label>
+                <Select value={width} onValueChange={(value) => setWidth(value as 'half' | 'full')}>
+                  <SelectTrigger id="widget-width">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="half">Half width</SelectItem>
+                    <SelectItem value="full">Full width</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {showAxes && (
+              columns.length > 0 ? (
+                <div className="grid gap-4 sm:grid-cols-2">
+                  {chartType !== 'number' && (
+                    <div className="grid gap-2">
+                      <Label htmlFor="widget-x">{chartType === 'pie' ? 'Labels' : 'X axis'}</Label>
+                      <Select value={xColumn} onValueChange={setXColumn}>
+                        <SelectTrigger id="widget-x">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={AUTO}>Automatic</SelectItem>
+                          {columns.map((column) => (
+                            <SelectItem key={column} value={column}>
+                              {column}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                  {chartType !== 'number' && (
+                    <div className="grid gap-2">
+                      <Label htmlFor="widget-group">Group by</Label>
+                      <Select value={groupBy} onValueChange={setGroupBy}>
+                        <SelectTrigger id="widget-group">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={AUTO}>None</SelectItem>
+                          {columns.map((column) => (
+                            <SelectItem key={column} value={column}>
+                              {column}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                  <div className="grid gap-2">
+                    <Label>{chartType === 'number' ? 'Value' : 'Values'}</Label>
+                    <div className="grid gap-1.5 max-h-32 overflow-y-auto rounded-md border p-2">
+                      {columns.map((column) => (
+                        <label key={column} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={yColumns.includes(column)}
+                            onCheckedChange={(checked) => toggleYColumn(column, checked === true)}
+                          />
+                          <span className="truncate">{column}</span>
+                        </label>
+                      ))}
+                    </div>
+                    <p className="text-xs text-muted-foreground">None selected uses every numeric column.</p>
+                  </div>
+                </div>
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  The chart uses the first text column for labels and the numeric columns for values. Edit the
+                  widget after it has run to pick columns.
+                </p>
+              )
+            )}
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="grid gap-2">
+                <Label htmlFor="widget-connection">Connection</Label>
+                <Select value={connectionId} onValueChange={setConnectionId}>
+                  <SelectTrigger id="widget-connection">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={AUTO}>Query&apos;s saved connection</SelectItem>
+                    {connections.map((connection) => (
+                      <SelectItem key={connection.id} value={connection.id}>
+                        {connection.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="widget-refresh">Refresh</Label>
+                <Select value={refresh} onValueChange={setRefresh}>
+                  <SelectTrigger id="widget-refresh">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {REFRESH_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {selectedQuery && selectedQuery.parameters.length > 0 && (
+              <div className="grid gap-3 rounded-md border p-3">
+                <p className="text-sm font-medium">Parameters</p>
+                {selectedQuery.parameters.map((parameter) => (
+                  <ParameterField
+                    key={parameter.name}
+                    parameter={parameter}
+                    value={values[parameter.name] ?? ''}
+                    onChange={(value) => setValues((prev) => ({ ...prev, [parameter.name]: value }))}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving || !queryId || !title.trim()}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {widget ? 'Save' : 'Add Widget'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,262 @@
+'use client';
+
+import * as React from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Loader2, Check, Code2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Switch } from '@/components/ui/switch';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { formatSql, DEFAULT_FORMAT_OPTIONS } from '@/lib/sql/sql-formatter';
+import {
+  editorSettingsSchema,
+  keywordCases,
+  commaPositions,
+  type EditorSettingsFormData,
+} from '@/lib/validations/editor';
+
+const PREVIEW_SQL = 'select id, name, email from users u where u.active = 1 and u.created_at > now() order by name';
+
+const keywordCaseLabels: Record<(typeof keywordCases)[number], string> = {
+  upper: 'UPPERCASE',
+  lower: 'lowercase',
+  preserve: 'Preserve as typed',
+};
+
+const commaPositionLabels: Record<(typeof commaPositions)[number], string> = {
+  trailing: 'Trailing',
+  leading: 'Leading',
+};
+
+export function EditorSettingsCard() {
+  const [loading, setLoading] = React.useState(true);
+  const [saving, setSaving] = React.useState(false);
+
+  const form = useForm<EditorSettingsFormData>({
+    resolver: zodResolver(editorSettingsSchema),
+    defaultValues: {
+      ...DEFAULT_FORMAT_OPTIONS,
+      lintEnabled: true,
+    },
+  });
+
+  const [keywordCase, tabWidth, useTabs, commaPosition] = form.watch([
+    'keywordCase',
+    'tabWidth',
+    'useTabs',
+    'commaPosition',
+  ]);
+
+  const preview = React.useMemo(() => {
+    try {
+      return formatSql(PREVIEW_SQL, null, { keywordCase, tabWidth, useTabs, commaPosition });
+    } catch {
+      return PREVIEW_SQL;
+    }
+  }, [keywordCase, tabWidth, useTabs, commaPosition]);
+
+  React.useEffect(() => {
+    async function loadSettings() {
+      try {
+        const response = await fetch('/api/user/editor-settings');
+        if (response.ok) {
+          form.reset(await response.json());
+        }
+      } catch (error) {
+        console.error('Failed to load editor settings:', error);
+      } finally {
+        setLoading(false);
+      }
+    }
+    loadSettings();
+  }, [form]);
+
+  const onSubmit = async (data: EditorSettingsFormData) => {
+    setSaving(true);
+    try {
+      const response = await fetch('/api/user/editor-settings', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to save editor settings');
+      }
+
+      toast.success('Editor settings saved successfully');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save editor settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Code2 className="h-5 w-5 text-primary" />
+          <CardTitle>SQL Editor</CardTitle>
+        </div>
+        <CardDescription>
+          Choose how queries are formatted and whether the editor flags common mistakes.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="keywordCase"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Keyword Case</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {keywordCases.map((value) => (
+                            <SelectItem key={value} value={value}>
+                              {keywordCaseLabels[value]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="commaPosition"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Comma Position</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {commaPositions.map((value) => (
+                            <SelectItem key={value} value={value}>
+                              {commaPositionLabels[value]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="tabWidth"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Indent Width</FormLabel>
+                      <Select
+                        value={String(field.value)}
+                        onValueChange={(value) => field.onChange(parseInt(value))}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {[2, 4, 8].map((width) => (
+                            <SelectItem key={width} value={String(width)}>
+                              {width} spaces
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="useTabs"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-col">
+                      <FormLabel>Indent With Tabs</FormLabel>
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="lintEnabled"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between gap-4">
+                    <div className="space-y-1">
+                      <FormLabel>Lint Warnings</FormLabel>
+                      <FormDescription>
+                        Highlight UPDATE/DELETE without WHERE, implicit cross joins and SELECT * on restricted tables.
+                      </FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Preview</p>
+                <pre className="rounded-md bg-muted p-3 text-xs font-mono overflow-x-auto">{preview}</pre>
+              </div>
+
+              <Button type="submit" disabled={saving}>
+                {saving ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Check className="mr-2 h-4 w-4" />
+                )}
+                Save Editor Settings
+              </Button>
+            </form>
+          </Form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,3 +2,4 @@ export { SqlEditor } from './sql-editor';
 export { QueryToolbar } from './query-toolbar';
 export { GuestQueryToolbar } from './guest-query-toolbar';
 export { QueryHistory } from './query-history';
+export { QueryPlanViewer } from './query-plan-viewer';
@@ -1,7 +1,7 @@
 'use client';
 
 import * as React from 'react';
-import { Clock, X, CheckCircle, XCircle, Search, Filter } from 'lucide-react';
+import { Clock, X, CheckCircle, XCircle, Search, Filter, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
@@ -22,10 +22,27 @@ interface Connection {
 interface QueryHistoryProps {
   history: QueryHistoryItem[];
   connections?: Connection[];
+  /** Search the server-side history of this workspace instead of the local list */
+  remote?: { teamId?: string | null };
   onSelect: (query: string) => void;
   onClose: () => void;
 }
 
+type StatusFilter = 'all' | 'success' | 'error';
+type PeriodFilter = 'all' | '24h' | '7d' | '30d';
+
+const PERIOD_MS: Record<Exclude<PeriodFilter, 'all'>, number> = {
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  '30d': 30 * 24 * 60 * 60 * 1000,
+};
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+function periodStart(period: PeriodFilter): Date | null {
+  return period === 'all' ? null : new Date(Date.now() - PERIOD_MS[period]);
+}
+
 // Helper to highlight matching text
 function HighlightedText({ text, highlight }: { text: string; highlight: string }) {
   if (!highlight.trim()) {
@@ -50,36 +67,94 @@ function HighlightedText({ text, highlight }: { text: string; highlight: string
   );
 }
 
-export function QueryHistory({ history, connections = [], onSelect, onClose }: QueryHistoryProps) {
+export function QueryHistory({ history, connections = [], remote, onSelect, onClose }: QueryHistoryProps) {
   const [searchQuery, setSearchQuery] = React.useState('');
   const [connectionFilter, setConnectionFilter] = React.useState<string>('all');
+  const [statusFilter, setStatusFilter] = React.useState<StatusFilter>('all');
+  const [periodFilter, setPeriodFilter] = React.useState<PeriodFilter>('all');
+  const [remoteHistory, setRemoteHistory] = React.useState<QueryHistoryItem[]>([]);
+  const [remoteTotal, setRemoteTotal] = React.useState(0);
+  const [remoteLoading, setRemoteLoading] = React.useState(false);
+  const [remoteError, setRemoteError] = React.useState<string | null>(null);
+
+  const isRemote = !!remote;
+  const remoteTeamId = remote?.teamId;
+
+  // Search the server-side history whenever the filters change
+  React.useEffect(() => {
+    if (!isRemote) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      const params = new URLSearchParams({ limit: '100' });
+      if (searchQuery.trim()) params.set('q', searchQuery.trim());
+      if (connectionFilter !== 'all') params.set('connectionId', connectionFilter);
+      if (statusFilter !== 'all') params.set('status', statusFilter);
+      const from = periodStart(periodFilter);
+      if (from) params.set('from', from.toISOString());
+      if (remoteTeamId) params.set('teamId', remoteTeamId);
+
+      setRemoteLoading(true);
+      try {
+        const response = await fetch(`/api/query/history?${params}`, { signal: controller.signal });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load query history');
+        }
+        setRemoteHistory(data.entries);
+        setRemoteTotal(data.total);
+        setRemoteError(null);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        setRemoteError(error instanceof Error ? error.message : 'Failed to load query history');
+      } finally {
+        if (!controller.signal.aborted) setRemoteLoading(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [isRemote, remoteTeamId, searchQuery, connectionFilter, statusFilter, periodFilter]);
 
   // Get unique connection IDs from history
   const connectionIdsInHistory = React.useMemo(() => {
     return [...new Set(history.map(item => item.connectionId))];
   }, [history]);
 
-  // Filter connections to only those that appear in history
+  // Filter connections to only those that appear in history; the server
+  // history can hold any of them
   const availableConnections = React.useMemo(() => {
+    if (isRemote) return connections;
     return connections.filter(conn => connectionIdsInHistory.includes(conn.id));
-  }, [connections, connectionIdsInHistory]);
+  }, [isRemote, connections, connectionIdsInHistory]);
 
-  // Filter history based on search and connection filter
+  // Filter history based on search, connection, status and period
   const filteredHistory = React.useMemo(() => {
+    if (isRemote) return remoteHistory;
+
+    const from = periodStart(periodFilter);
     return history.filter(item => {
       const matchesSearch = !searchQuery || 
         item.sql.toLowerCase().includes(searchQuery.toLowerCase());
       const matchesConnection = connectionFilter === 'all' || 
         item.connectionId === connectionFilter;
-      return matchesSearch && matchesConnection;
+      const matchesStatus = statusFilter === 'all' ||
+        (statusFilter === 'error' ? !!item.error : !item.error);
+      const matchesPeriod = !from || new Date(item.executedAt) >= from;
+      return matchesSearch && matchesConnection && matchesStatus && matchesPeriod;
     });
-  }, [history, searchQuery, connectionFilter]);
+  }, [isRemote, remoteHistory, history, searchQuery, connectionFilter, statusFilter, periodFilter]);
 
-  const hasFilters = searchQuery || connectionFilter !== 'all';
+  const totalCount = isRemote ? remoteTotal : history.length;
+  const hasFilters = searchQuery || connectionFilter !== 'all' || statusFilter !== 'all' || periodFilter !== 'all';
 
   const clearFilters = () => {
     setSearchQuery('');
     setConnectionFilter('all');
+    setStatusFilter('all');
+    setPeriodFilter('all');
   };
 
   // Get connection name by ID
@@ -109,6 +184,9 @@ export function QueryHistory({ history, connections = [], onSelect, onClose }: Q
           onChange={(e) => setSearchQuery(e.target.value)}
           className="pl-8 h-8 text-sm"
         />
+        {remoteLoading && (
+          <Loader2 className="absolute right-2.5 top-1/2 -translate-y-1/2 h-3.5 w-3.5 animate-spin text-muted-foreground" />
+        )}
       </div>
       
       {/* Connection filter */}
@@ -130,6 +208,31 @@ export function QueryHistory({ history, connections = [], onSelect, onClose }: Q
           </Select>
         </div>
       )}
+
+      {/* Status and period filters */}
+      <div className="flex items-center gap-2">
+        <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as StatusFilter)}>
+          <SelectTrigger className="h-8 text-xs flex-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Any status</SelectItem>
+            <SelectItem value="success">Succeeded</SelectItem>
+            <SelectItem value="error">Failed</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={periodFilter} onValueChange={(value) => setPeriodFilter(value as PeriodFilter)}>
+          <SelectTrigger className="h-8 text-xs flex-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Any time</SelectItem>
+            <SelectItem value="24h">Last 24 hours</SelectItem>
+            <SelectItem value="7d">Last 7 days</SelectItem>
+            <SelectItem value="30d">Last 30 days</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
       
       {/* Clear filters button */}
       {hasFilters && (
@@ -139,13 +242,13 @@ export function QueryHistory({ history, connections = [], onSelect, onClose }: Q
           className="h-7 text-xs w-full"
           onClick={clearFilters}
         >
-          Clear filters ({filteredHistory.length} of {history.length} shown)
+          Clear filters ({filteredHistory.length} of {totalCount} shown)
         </Button>
       )}
     </div>
   );
 
-  if (history.length === 0) {
+  if (!isRemote && history.length === 0) {
     return (
       <div className="p-4 border-l w-80 bg-muted/30">
         <div className="flex items-center justify-between mb-4">
@@ -170,7 +273,13 @@ export function QueryHistory({ history, connections = [], onSelect, onClose }: Q
       
       <ScrollArea className="flex-1">
         <div className="p-2 space-y-2">
-          {filteredHistory.length === 0 ? (
+          {remoteError ? (
+            <p className="text-sm text-destructive text-center py-8">{remoteError}</p>
+          ) : isRemote && !hasFilters && filteredHistory.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">
+              {remoteLoading ? 'Loading history...' : 'No queries yet. Run a query to see it here.'}
+            </p>
+          ) : filteredHistory.length === 0 ? (
             <div className="text-center py-8">
               <p className="text-sm text-muted-foreground">
                 No queries match your filters.
@@ -198,7 +307,9 @@ export function QueryHistory({ history, connections = [], onSelect, onClose }: Q
                     <CheckCircle className="h-3 w-3 text-forest flex-shrink-0" />
                   )}
                   <span className="text-xs text-muted-foreground">
-                    {new Date(item.executedAt).toLocaleTimeString()}
+                    {isRemote
+                      ? new Date(item.executedAt).toLocaleString()
+                      : new Date(item.executedAt).toLocaleTimeString()}
                   </span>
                   <span className="text-xs text-muted-foreground">
                     {item.executionTime}ms
@@ -0,0 +1,162 @@
+'use client';
+
+import * as React from 'react';
+import { AlertTriangle, ChevronDown, ChevronRight, Code, ListTree, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { countPlanWarnings } from '@/lib/sql/query-plan';
+import { cn } from '@/lib/utils';
+import type { PlanNode, QueryPlan } from '@/types';
+
+interface QueryPlanViewerProps {
+  plan: QueryPlan;
+  onClose?: () => void;
+}
+
+function formatNumber(value: number): string {
+  return value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+}
+
+function PlanNodeRow({ node, depth }: { node: PlanNode; depth: number }) {
+  const [open, setOpen] = React.useState(true);
+  const hasChildren = node.children.length > 0;
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <div
+        className={cn(
+          'flex items-start gap-2 py-1.5 pr-2 rounded hover:bg-muted/50',
+          node.warnings.length > 0 && 'bg-amber-500/5'
+        )}
+        style={{ paddingLeft: depth * 16 + 4 }}
+      >
+        <CollapsibleTrigger asChild disabled={!hasChildren}>
+          <button
+            type="button"
+            className={cn('h-5 w-5 flex items-center justify-center flex-shrink-0', !hasChildren && 'invisible')}
+          >
+            {open ? <ChevronDown className="h-3.5 w-3.5" /> : <ChevronRight className="h-3.5 w-3.5" />}
+          </button>
+        </CollapsibleTrigger>
+
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2 flex-wrap">
+            <span className="text-sm font-medium">{node.operation}</span>
+            {node.relation && (
+              <span className="text-xs font-mono text-muted-foreground">on {node.relation}</span>
+            )}
+            {node.index && (
+              <Badge variant="outline" className="text-xs font-mono">{node.index}</Badge>
+            )}
+            {node.fullScan && (
+              <Badge variant="secondary" className="text-xs">Full scan</Badge>
+            )}
+          </div>
+          {node.detail && node.detail !== node.operation && (
+            <p className="text-xs font-mono text-muted-foreground break-all">{node.detail}</p>
+          )}
+          {node.warnings.map((warning) => (
+            <p key={warning} className="text-xs text-amber-600 dark:text-amber-400 flex items-start gap-1 mt-0.5">
+              <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+              {warning}
+            </p>
+          ))}
+        </div>
+
+        <div className="flex gap-3 text-xs text-muted-foreground tabular-nums flex-shrink-0 text-right">
+          {node.totalCost !== undefined && (
+            <span title="Estimated cost">
+              cost {node.startupCost !== undefined && `${formatNumber(node.startupCost)}..`}{formatNumber(node.totalCost)}
+            </span>
+          )}
+          {node.estimatedRows !== undefined && (
+            <span title="Estimated rows">rows {formatNumber(node.estimatedRows)}</span>
+          )}
+          {node.actualRows !== undefined && (
+            <span title="Actual rows" className="text-foreground">
+              actual {formatNumber(node.actualRows)}
+              {node.loops !== undefined && node.loops > 1 && ` × ${node.loops}`}
+            </span>
+          )}
+          {node.actualTimeMs !== undefined && (
+            <span title="Actual time per loop">{formatNumber(node.actualTimeMs)} ms</span>
+          )}
+        </div>
+      </div>
+
+      {hasChildren && (
+        <CollapsibleContent>
+          {node.children.map((child) => (
+            <PlanNodeRow key={child.id} node={child} depth={depth + 1} />
+          ))}
+        </CollapsibleContent>
+      )}
+    </Collapsible>
+  );
+}
+
+export function QueryPlanViewer({ plan, onClose }: QueryPlanViewerProps) {
+  const [showRaw, setShowRaw] = React.useState(false);
+  const warningCount = countPlanWarnings(plan);
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center gap-2 flex-wrap">
+        <ListTree className="h-4 w-4" />
+        <h3 className="font-semibold text-sm">Query Plan</h3>
+        {plan.analyzed && <Badge variant="secondary">ANALYZE</Badge>}
+        {plan.totalCost !== undefined && (
+          <span className="text-xs text-muted-foreground">Total cost {formatNumber(plan.totalCost)}</span>
+        )}
+        {plan.planningTimeMs !== undefined && (
+          <span className="text-xs text-muted-foreground">Planning {formatNumber(plan.planningTimeMs)} ms</span>
+        )}
+        {plan.executionTimeMs !== undefined && (
+          <span className="text-xs text-muted-foreground">Execution {formatNumber(plan.executionTimeMs)} ms</span>
+        )}
+        {warningCount > 0 && (
+          <span className="text-xs text-amber-600 dark:text-amber-400 flex items-center gap-1">
+            <AlertTriangle className="h-3 w-3" />
+            {warningCount} {warningCount === 1 ? 'warning' : 'warnings'}
+          </span>
+        )}
+        <div className="flex-1" />
+        <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => setShowRaw(!showRaw)}>
+          <Code className="h-3 w-3 mr-1" />
+          {showRaw ? 'Show tree' : 'Show raw'}
+        </Button>
+        {onClose && (
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      {plan.warnings.length > 0 && (
+        <div className="space-y-1">
+          {plan.warnings.map((warning) => (
+            <p key={warning} className="text-xs text-amber-600 dark:text-amber-400 flex items-start gap-1">
+              <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+              {warning}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {showRaw ? (
+        <pre className="text-xs font-mono bg-muted rounded p-3 overflow-auto">
+          {JSON.stringify(plan.raw, null, 2)}
+        </pre>
+      ) : plan.nodes.length === 0 ? (
+        <p className="text-sm text-muted-foreground">The database returned an empty plan.</p>
+      ) : (
+        <div className="border rounded-md py-1">
+          {plan.nodes.map((node) => (
+            <PlanNodeRow key={node.id} node={node} depth={0} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 'use client';
 
 import * as React from 'react';
-import { Play, Loader2, Code, History, Download, Bot, Save, FileUp } from 'lucide-react';
+import { Play, Square, Loader2, Code, History, Download, Bot, Save, FileUp, ListTree, ChevronDown } from 'lucide-react';
 import { SaveQueryDialog } from '@/components/queries';
 import { Button } from '@/components/ui/button';
 import {
@@ -11,13 +11,26 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuShortcut,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import {
   Tooltip,
   TooltipContent,
   TooltipProvider,
   TooltipTrigger,
 } from '@/components/ui/tooltip';
-import type { DatabaseConnection } from '@/types';
+import { exportFormats, EXPORT_FORMAT_LABELS, type ExportFormat } from '@/lib/export/result-exporter';
+import { supportsExplainAnalyze } from '@/lib/sql/query-plan';
+import { cn } from '@/lib/utils';
+import type { ChartConfig, DatabaseConnection, ScriptOptions } from '@/types';
 
 type SafeConnection = Omit<DatabaseConnection, 'password'>;
 
@@ -25,14 +38,23 @@ interface QueryToolbarProps {
   connections: SafeConnection[];
   selectedConnectionId: string | null;
   currentQuery: string;
+  chart?: ChartConfig | null;
   onConnectionChange: (connectionId: string) => void;
   onExecute: () => void;
+  onExecuteSelection?: () => void;
+  onExecuteStatement?: () => void;
+  onCancel?: () => void;
   onFormat: () => void;
   onToggleHistory: () => void;
   onToggleAI?: () => void;
-  onExport?: () => void;
+  onExport?: (format: ExportFormat) => void;
   onImport?: () => void;
+  onExplain?: (analyze: boolean) => void;
+  scriptOptions?: ScriptOptions;
+  onScriptOptionsChange?: (options: ScriptOptions) => void;
   executing: boolean;
+  explaining?: boolean;
+  cancelling?: boolean;
   hasResults: boolean;
   showAI?: boolean;
   showHistory?: boolean;
@@ -42,18 +64,29 @@ export function QueryToolbar({
   connections,
   selectedConnectionId,
   currentQuery,
+  chart,
   onConnectionChange,
   onExecute,
+  onExecuteSelection,
+  onExecuteStatement,
+  onCancel,
   onFormat,
   onToggleHistory,
   onToggleAI,
   onExport,
   onImport,
+  onExplain,
+  scriptOptions,
+  onScriptOptionsChange,
   executing,
+  explaining,
+  cancelling,
   hasResults,
   showAI,
   showHistory,
 }: QueryToolbarProps) {
+  const selectedConnection = connections.find((conn) => conn.id === selectedConnectionId);
+
   return (
     <TooltipProvider>
       <div className="flex items-center gap-1.5 md:gap-2 p-2 border-b bg-muted/30 flex-wrap">
@@ -121,6 +154,7 @@ export function QueryToolbar({
           <SaveQueryDialog
             sql={currentQuery}
             connectionId={selectedConnectionId}
+            chart={chart}
             trigger={
               <Button variant="ghost" size="icon" className="h-9 w-9 touch-target hidden sm:flex">
                 <Save className="h-4 w-4" />
@@ -130,14 +164,27 @@ export function QueryToolbar({
         )}
 
         {hasResults && onExport && (
-          <Tooltip>
-            <TooltipTrigger asChild>
-              <Button variant="ghost" size="icon" onClick={onExport} className="h-9 w-9 touch-target hidden sm:flex">
-                <Download className="h-4 w-4" />
-              </Button>
-            </TooltipTrigger>
-            <TooltipContent>Export CSV</TooltipContent>
-          </Tooltip>
+          <DropdownMenu>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" size="icon" className="h-9 w-9 touch-target hidden sm:flex">
+                    <Download className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+              </TooltipTrigger>
+              <TooltipContent>Export Results</TooltipContent>
+            </Tooltip>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel>Export full result as</DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              {exportFormats.map((format) => (
+                <DropdownMenuItem key={format} onClick={() => onExport(format)}>
+                  {EXPORT_FORMAT_LABELS[format]}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
         )}
 
         {onImport && (
@@ -151,19 +198,111 @@ export function QueryToolbar({
           </Tooltip>
         )}
 
-        <Button 
-          onClick={onExecute} 
-          disabled={executing || !selectedConnectionId}
-          className="h-9 touch-target"
-        >
-          {executing ? (
-            <Loader2 className="h-4 w-4 animate-spin sm:mr-2" />
-          ) : (
-            <Play className="h-4 w-4 sm:mr-2" />
-          )}
-          <span className="hidden sm:inline">Run</span>
-          <span className="hidden md:inline ml-2 text-xs text-muted-foreground">⌘↵</span>
-        </Button>
+        {onExplain && (
+          <DropdownMenu>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={explaining || executing || !selectedConnectionId || !currentQuery.trim()}
+                    className="h-9 w-9 touch-target hidden sm:flex"
+                  >
+                    {explaining ? <Loader2 className="h-4 w-4 animate-spin" /> : <ListTree className="h-4 w-4" />}
+                  </Button>
+                </DropdownMenuTrigger>
+              </TooltipTrigger>
+              <TooltipContent>Explain Query</TooltipContent>
+            </Tooltip>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => onExplain(false)}>
+                Explain
+              </DropdownMenuItem>
+              {selectedConnection && supportsExplainAnalyze(selectedConnection.type) && (
+                <DropdownMenuItem onClick={() => onExplain(true)}>
+                  Explain Analyze (runs the query, then rolls back)
+                </DropdownMenuItem>
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+
+        {executing && onCancel ? (
+          <Button
+            variant="destructive"
+            onClick={onCancel}
+            disabled={cancelling}
+            className="h-9 touch-target"
+          >
+            {cancelling ? (
+              <Loader2 className="h-4 w-4 animate-spin sm:mr-2" />
+            ) : (
+              <Square className="h-4 w-4 sm:mr-2" />
+            )}
+            <span className="hidden sm:inline">Stop</span>
+          </Button>
+        ) : (
+          <div className="flex items-center">
+            <Button 
+              onClick={onExecute} 
+              disabled={executing || !selectedConnectionId}
+              className={cn('h-9 touch-target', onExecuteStatement && 'rounded-r-none')}
+            >
+              {executing ? (
+                <Loader2 className="h-4 w-4 animate-spin sm:mr-2" />
+              ) : (
+                <Play className="h-4 w-4 sm:mr-2" />
+              )}
+              <span className="hidden sm:inline">Run</span>
+              <span className="hidden md:inline ml-2 text-xs text-muted-foreground">⌘↵</span>
+            </Button>
+            {onExecuteStatement && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    disabled={executing || !selectedConnectionId}
+                    className="h-9 px-2 rounded-l-none border-l border-primary-foreground/20"
+                  >
+                    <ChevronDown className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" className="w-64">
+                  <DropdownMenuItem onClick={onExecuteStatement}>
+                    Run statement at cursor
+                    <DropdownMenuShortcut>⇧⌘↵</DropdownMenuShortcut>
+                  </DropdownMenuItem>
+                  {onExecuteSelection && (
+                    <DropdownMenuItem onClick={onExecuteSelection}>
+                      Run selection
+                    </DropdownMenuItem>
+                  )}
+                  {scriptOptions && onScriptOptionsChange && (
+                    <>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuLabel>Scripts</DropdownMenuLabel>
+                      <DropdownMenuCheckboxItem
+                        checked={scriptOptions.stopOnError}
+                        disabled={scriptOptions.transaction}
+                        onCheckedChange={(checked) => onScriptOptionsChange({ ...scriptOptions, stopOnError: checked === true })}
+                        onSelect={(event) => event.preventDefault()}
+                      >
+                        Stop on error
+                      </DropdownMenuCheckboxItem>
+                      <DropdownMenuCheckboxItem
+                        checked={scriptOptions.transaction}
+                        onCheckedChange={(checked) => onScriptOptionsChange({ ...scriptOptions, transaction: checked === true })}
+                        onSelect={(event) => event.preventDefault()}
+                      >
+                        Wrap in transaction
+                      </DropdownMenuCheckboxItem>
+                    </>
+                  )}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+          </div>
+        )}
       </div>
     </TooltipProvider>
   );
@@ -5,36 +5,135 @@ import Editor, { OnMount } from '@monaco-editor/react';
 import type * as Monaco from 'monaco-editor';
 import { useTheme } from 'next-themes';
 import { Loader2 } from 'lucide-react';
+import { getCompletionSuggestions, type CompletionKind } from '@/lib/sql/sql-completion';
+import { lintSql } from '@/lib/sql/sql-linter';
+import type { EnrichedSchema } from '@/lib/db/app-db';
+import type { DatabaseType } from '@/types';
+
+const LINT_MARKER_OWNER = 'sql-lint';
+
+export interface SqlEditorSelection {
+  selectedText: string;
+  cursorOffset: number;
+}
 
 interface SqlEditorProps {
   value: string;
   onChange: (value: string) => void;
   onExecute?: () => void;
+  onExecuteStatement?: () => void; // Ctrl/Cmd+Shift+Enter
+  onSelectionChange?: (selection: SqlEditorSelection) => void;
   readOnly?: boolean;
   height?: string;
+  schema?: EnrichedSchema | null;
+  dialect?: DatabaseType;
+  lintEnabled?: boolean;
+  restrictedTables?: string[];
 }
 
 export function SqlEditor({ 
   value, 
   onChange, 
   onExecute, 
+  onExecuteStatement,
+  onSelectionChange,
   readOnly = false,
-  height = '300px' 
+  height = '300px',
+  schema = null,
+  dialect = 'mysql',
+  lintEnabled = true,
+  restrictedTables,
 }: SqlEditorProps) {
   const { resolvedTheme } = useTheme();
   const editorRef = React.useRef<Parameters<OnMount>[0] | null>(null);
+  const monacoRef = React.useRef<Parameters<OnMount>[1] | null>(null);
+  const [mounted, setMounted] = React.useState(false);
+  const completionDisposableRef = React.useRef<Monaco.IDisposable | null>(null);
+  const schemaRef = React.useRef(schema);
+  const dialectRef = React.useRef(dialect);
+  // Editor commands are registered once, so they read the latest handlers through refs
+  const handlersRef = React.useRef({ onExecute, onExecuteStatement, onSelectionChange });
+
+  React.useEffect(() => {
+    schemaRef.current = schema;
+    dialectRef.current = dialect;
+  }, [schema, dialect]);
+
+  React.useEffect(() => {
+    handlersRef.current = { onExecute, onExecuteStatement, onSelectionChange };
+  }, [onExecute, onExecuteStatement, onSelectionChange]);
+
+  React.useEffect(() => {
+    return () => completionDisposableRef.current?.dispose();
+  }, []);
+
+  // Lint markers, debounced so typing stays responsive
+  React.useEffect(() => {
+    const editor = editorRef.current;
+    const monaco = monacoRef.current;
+    const model = editor?.getModel();
+    if (!mounted || !monaco || !model) return;
+
+    const timer = setTimeout(() => {
+      const issues = lintEnabled ? lintSql(value, { restrictedTables }) : [];
+      const severities = {
+        error: monaco.MarkerSeverity.Error,
+        warning: monaco.MarkerSeverity.Warning,
+        info: monaco.MarkerSeverity.Info,
+      };
+
+      monaco.editor.setModelMarkers(model, LINT_MARKER_OWNER, issues.map(issue => {
+        const start = model.getPositionAt(issue.startOffset);
+        const end = model.getPositionAt(issue.endOffset);
+        return {
+          severity: severities[issue.severity],
+          message: issue.message,
+          code: issue.rule,
+          startLineNumber: start.lineNumber,
+          startColumn: start.column,
+          endLineNumber: end.lineNumber,
+          endColumn: end.column,
+        };
+      }));
+    }, 300);
+
+    return () => clearTimeout(timer);
+  }, [mounted, value, lintEnabled, restrictedTables]);
 
   const handleEditorMount: OnMount = (editor, monaco) => {
     editorRef.current = editor;
+    monacoRef.current = monaco;
+    setMounted(true);
 
     // Add Ctrl/Cmd+Enter shortcut to execute
     editor.addCommand(monaco.KeyMod.CtrlCmd | monaco.KeyCode.Enter, () => {
-      onExecute?.();
+      handlersRef.current.onExecute?.();
+    });
+
+    // Ctrl/Cmd+Shift+Enter runs only the statement under the cursor
+    editor.addCommand(monaco.KeyMod.CtrlCmd | monaco.KeyMod.Shift | monaco.KeyCode.Enter, () => {
+      handlersRef.current.onExecuteStatement?.();
+    });
+
+    editor.onDidChangeCursorSelection((event) => {
+      const model = editor.getModel();
+      if (!model) return;
+      handlersRef.current.onSelectionChange?.({
+        selectedText: model.getValueInRange(event.selection),
+        cursorOffset: model.getOffsetAt(event.selection.getPosition()),
+      });
     });
 
-    // Configure SQL language
-    monaco.languages.registerCompletionItemProvider('sql', {
+    // Schema-aware completions; the provider is global to the 'sql' language,
+    // so only answer for this editor's model and read props through refs
+    completionDisposableRef.current?.dispose();
+    completionDisposableRef.current = monaco.languages.registerCompletionItemProvider('sql', {
+      triggerCharacters: ['.'],
       provideCompletionItems: (model: Monaco.editor.ITextModel, position: Monaco.Position) => {
+        if (model !== editor.getModel()) {
+          return { suggestions: [] };
+        }
+
         const word = model.getWordUntilPosition(position);
         const range: Monaco.IRange = {
           startLineNumber: position.lineNumber,
@@ -43,21 +142,31 @@ export function SqlEditor({
           endColumn: word.endColumn,
         };
 
-        const suggestions = [
-          // SQL Keywords
-          ...['SELECT', 'FROM', 'WHERE', 'JOIN', 'LEFT', 'RIGHT', 'INNER', 'OUTER', 
-              'ON', 'AND', 'OR', 'NOT', 'IN', 'LIKE', 'BETWEEN', 'IS', 'NULL',
-              'ORDER', 'BY', 'ASC', 'DESC', 'GROUP', 'HAVING', 'LIMIT', 'OFFSET',
-              'INSERT', 'INTO', 'VALUES', 'UPDATE', 'SET', 'DELETE', 'CREATE', 
-              'TABLE', 'ALTER', 'DROP', 'INDEX', 'VIEW', 'AS', 'DISTINCT',
-              'COUNT', 'SUM', 'AVG', 'MIN', 'MAX', 'CASE', 'WHEN', 'THEN', 'ELSE', 'END'
-          ].map(keyword => ({
-            label: keyword,
-            kind: monaco.languages.CompletionItemKind.Keyword,
-            insertText: keyword,
-            range,
-          })),
-        ];
+        const kindMap: Record<CompletionKind, Monaco.languages.CompletionItemKind> = {
+          keyword: monaco.languages.CompletionItemKind.Keyword,
+          table: monaco.languages.CompletionItemKind.Struct,
+          view: monaco.languages.CompletionItemKind.Interface,
+          column: monaco.languages.CompletionItemKind.Field,
+          function: monaco.languages.CompletionItemKind.Function,
+          join: monaco.languages.CompletionItemKind.Snippet,
+        };
+
+        const suggestions = getCompletionSuggestions(
+          model.getValue(),
+          model.getOffsetAt(position),
+          schemaRef.current,
+          dialectRef.current
+        ).map(item => ({
+          label: item.label,
+          kind: kindMap[item.kind],
+          insertText: item.insertText,
+          insertTextRules: item.isSnippet
+            ? monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet
+            : undefined,
+          detail: item.detail,
+          sortText: item.sortText,
+          range,
+        }));
 
         return { suggestions };
       },
@@ -3,7 +3,7 @@
 import * as React from 'react';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
-import { Menu, SquareTerminal, Database, ArrowLeftRight } from 'lucide-react';
+import { Menu, SquareTerminal, Database, ArrowLeftRight, LayoutDashboard, GitPullRequest } from 'lucide-react';
 import { Separator } from '@/components/ui/separator';
 import { Button } from '@/components/ui/button';
 import {
@@ -36,6 +36,8 @@ const NAV_ITEMS = [
   { href: '/browse', label: 'Schema Browser', icon: Database },
   { href: '/query', label: 'Query Editor', icon: SquareTerminal },
   { href: '/sync', label: 'Data Sync', icon: ArrowLeftRight },
+  { href: '/dashboards', label: 'Dashboards', icon: LayoutDashboard },
+  { href: '/change-requests', label: 'Change Requests', icon: GitPullRequest },
 ];
 
 export function Header({ breadcrumbs = [] }: HeaderProps) {
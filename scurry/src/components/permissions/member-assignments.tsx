@@ -8,6 +8,7 @@ interface Member {
   id: string;
   userId: string;
   role: string;
+  roleName: string;
   user?: {
     id: string;
     email: string;
@@ -76,7 +77,7 @@ export function MemberAssignments({ teamId, canManage }: MemberAssignmentsProps)
             <Users className="h-5 w-5 text-muted-foreground" />
             <div>
               <p className="font-medium">{member.user?.name || member.user?.email}</p>
-              <p className="text-sm text-muted-foreground capitalize">{member.role}</p>
+              <p className="text-sm text-muted-foreground">{member.roleName}</p>
             </div>
           </div>
           {canManage && member.role !== 'owner' && (
@@ -0,0 +1,128 @@
+'use client';
+
+import * as React from 'react';
+import { Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { permissionOperations, type PermissionOperation } from '@/lib/validations/team';
+
+const OPERATION_LABELS: Record<PermissionOperation, string> = {
+  select: 'Select',
+  insert: 'Insert',
+  update: 'Update',
+  delete: 'Delete',
+  truncate: 'Truncate',
+  ddl: 'DDL',
+};
+
+interface OperationMatrixProps {
+  /** Operations granted on every table without its own row */
+  operations: PermissionOperation[];
+  tableOperations: Record<string, PermissionOperation[]>;
+  onOperationsChange: (operations: PermissionOperation[]) => void;
+  onTableOperationsChange: (tableOperations: Record<string, PermissionOperation[]>) => void;
+}
+
+function toggle(operations: PermissionOperation[], operation: PermissionOperation, checked: boolean): PermissionOperation[] {
+  // Keep the canonical order so saved grants compare equal
+  return permissionOperations.filter((op) => (op === operation ? checked : operations.includes(op)));
+}
+
+export function OperationMatrix({
+  operations,
+  tableOperations,
+  onOperationsChange,
+  onTableOperationsChange,
+}: OperationMatrixProps) {
+  const [newTable, setNewTable] = React.useState('');
+
+  const handleAddTable = () => {
+    const table = newTable.trim();
+    if (!table || table in tableOperations) return;
+    // A new table row starts from the connection's grant
+    onTableOperationsChange({ ...tableOperations, [table]: operations });
+    setNewTable('');
+  };
+
+  const handleRemoveTable = (table: string) => {
+    onTableOperationsChange(Object.fromEntries(Object.entries(tableOperations).filter(([name]) => name !== table)));
+  };
+
+  // A null table is the connection's row
+  const renderRow = (
+    table: string | null,
+    granted: PermissionOperation[],
+    onChange: (next: PermissionOperation[]) => void,
+    onRemove?: () => void
+  ) => (
+    <tr key={table === null ? 'connection' : `table:${table}`} className="border-t">
+      <td className="py-1.5 pr-2 font-mono truncate max-w-[160px]">
+        {table ?? <span className="font-sans italic text-muted-foreground">All tables</span>}
+      </td>
+      {permissionOperations.map((operation) => (
+        <td key={operation} className="py-1.5 text-center">
+          <Checkbox
+            aria-label={`${OPERATION_LABELS[operation]} on ${table ?? 'all tables'}`}
+            checked={granted.includes(operation)}
+            onCheckedChange={(checked) => onChange(toggle(granted, operation, checked === true))}
+          />
+        </td>
+      ))}
+      <td className="py-1.5 w-7">
+        {onRemove && (
+          <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onRemove} title="Remove table grant">
+            <X className="h-3 w-3" />
+          </Button>
+        )}
+      </td>
+    </tr>
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-muted-foreground">
+              <th className="py-1 pr-2 text-left font-medium">Table</th>
+              {permissionOperations.map((operation) => (
+                <th key={operation} className="py-1 px-1 font-medium">{OPERATION_LABELS[operation]}</th>
+              ))}
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {renderRow(null, operations, onOperationsChange)}
+            {Object.entries(tableOperations).map(([table, granted]) =>
+              renderRow(
+                table,
+                granted,
+                (next) => onTableOperationsChange({ ...tableOperations, [table]: next }),
+                () => handleRemoveTable(table)
+              )
+            )}
+          </tbody>
+        </table>
+      </div>
+      <div className="flex gap-2">
+        <Input
+          value={newTable}
+          onChange={(e) => setNewTable(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleAddTable();
+            }
+          }}
+          placeholder="Grant different operations on a table"
+          className="h-8 text-xs font-mono"
+        />
+        <Button variant="outline" size="sm" className="h-8" onClick={handleAddTable} disabled={!newTable.trim()}>
+          <Plus className="h-3 w-3 mr-1" />
+          Table
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 'use client';
 
 import * as React from 'react';
-import { Loader2, Plus, Trash2, Database, Eye, Edit2, Table, Columns } from 'lucide-react';
+import { Loader2, Plus, Trash2, Database, Eye, EyeOff, Edit2, Table, Columns, Filter } from 'lucide-react';
 import {
   Dialog,
   DialogContent,
@@ -24,6 +24,8 @@ import {
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { toast } from 'sonner';
+import { permissionOperations, type PermissionOperation } from '@/lib/validations/team';
+import { OperationMatrix } from './operation-matrix';
 
 interface SharedConnection {
   id: string;
@@ -44,9 +46,13 @@ interface ConnectionPermission {
   canView: boolean;
   canEdit: boolean;
   allowedTables: string[] | null;
+  rowFilters: Record<string, string> | null;
+  operations: PermissionOperation[] | null;
+  tableOperations: Record<string, PermissionOperation[]> | null;
   columnRestrictions?: Array<{
     tableName: string;
     hiddenColumns: string[];
+    maskedColumns: Record<string, string>;
   }>;
 }
 
@@ -171,13 +177,19 @@ export function ProfileEditorDialog({
 
   const handleUpdatePermission = async (connectionId: string, updates: Partial<ConnectionPermission>) => {
     if (!profile) return;
+    const current = permissions.find(p => p.connectionId === connectionId);
 
     try {
+      // The permission is saved whole, so send the table, row and operation restrictions along
       const response = await fetch(`/api/teams/${teamId}/permissions/${profile.id}/connections`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           connectionId,
+          allowedTables: current?.allowedTables ?? null,
+          rowFilters: current?.rowFilters ?? null,
+          operations: current?.operations ?? null,
+          tableOperations: current?.tableOperations ?? null,
           ...updates,
         }),
       });
@@ -346,7 +358,7 @@ export function ProfileEditorDialog({
                               id={`edit-${perm.connectionId}`}
                               checked={perm.canEdit}
                               onCheckedChange={(checked: boolean) =>
-                                handleUpdatePermission(perm.connectionId, { canEdit: checked })
+                                handleUpdatePermission(perm.connectionId, { canEdit: checked, operations: null })
                               }
                             />
                             <Label htmlFor={`edit-${perm.connectionId}`} className="flex items-center gap-1 text-sm">
@@ -356,6 +368,24 @@ export function ProfileEditorDialog({
                           </div>
                         </div>
                         
+                        <div className="mt-3">
+                          <OperationMatrix
+                            operations={perm.operations ?? (perm.canEdit ? [...permissionOperations] : ['select'])}
+                            tableOperations={perm.tableOperations ?? {}}
+                            onOperationsChange={(operations) =>
+                              handleUpdatePermission(perm.connectionId, {
+                                operations,
+                                canEdit: operations.some((operation) => operation !== 'select'),
+                              })
+                            }
+                            onTableOperationsChange={(tableOperations) =>
+                              handleUpdatePermission(perm.connectionId, {
+                                tableOperations: Object.keys(tableOperations).length > 0 ? tableOperations : null,
+                              })
+                            }
+                          />
+                        </div>
+
                         {/* Table/Column restrictions info */}
                         <div className="mt-3 flex items-center gap-2 text-xs text-muted-foreground">
                           <Badge variant="outline" className="gap-1">
@@ -368,6 +398,21 @@ export function ProfileEditorDialog({
                               {perm.columnRestrictions.length} column restrictions
                             </Badge>
                           )}
+                          {perm.columnRestrictions?.some(cr => Object.keys(cr.maskedColumns).length > 0) && (
+                            <Badge variant="outline" className="gap-1">
+                              <EyeOff className="h-3 w-3" />
+                              {perm.columnRestrictions.reduce(
+                                (count, cr) => count + Object.keys(cr.maskedColumns).length,
+                                0
+                              )} masked columns
+                            </Badge>
+                          )}
+                          {perm.rowFilters && Object.keys(perm.rowFilters).length > 0 && (
+                            <Badge variant="outline" className="gap-1">
+                              <Filter className="h-3 w-3" />
+                              {Object.keys(perm.rowFilters).length} row filters
+                            </Badge>
+                          )}
                         </div>
                       </CardContent>
                     </Card>
@@ -2,3 +2,8 @@ export { SaveQueryDialog } from './save-query-dialog';
 export { QueryCard } from './query-card';
 export { QueryComments } from './query-comments';
 export { RecentQueries } from './recent-queries';
+export { QueryParameterEditor } from './query-parameter-editor';
+export { RunSavedQueryDialog, ParameterField, initialParameterValues } from './run-saved-query-dialog';
+export { QueryRevisionsDialog } from './query-revisions-dialog';
+export { OrganizeQueryDialog } from './organize-query-dialog';
+export { QuerySchedulesDialog } from './query-schedules-dialog';
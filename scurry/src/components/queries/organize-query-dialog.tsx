@@ -0,0 +1,108 @@
+'use client';
+
+import * as React from 'react';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { toast } from 'sonner';
+
+interface OrganizeQueryDialogProps {
+  query: { id: string; name: string; folder: string | null; tags: string[] };
+  folders?: string[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onUpdated?: (query: { id: string; folder: string | null; tags: string[] }) => void;
+}
+
+export function parseTags(text: string): string[] {
+  return text.split(',').map((tag) => tag.trim()).filter(Boolean);
+}
+
+export function OrganizeQueryDialog({ query, folders = [], open, onOpenChange, onUpdated }: OrganizeQueryDialogProps) {
+  const [folder, setFolder] = React.useState(query.folder ?? '');
+  const [tags, setTags] = React.useState(query.tags.join(', '));
+  const [saving, setSaving] = React.useState(false);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/queries/${query.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ folder: folder.trim() || null, tags: parseTags(tags) }),
+      });
+
+      if (response.ok) {
+        toast.success('Query updated');
+        onUpdated?.(await response.json());
+        onOpenChange(false);
+      } else {
+        const error = await response.json();
+        toast.error(error.error || 'Failed to update query');
+      }
+    } catch {
+      toast.error('Failed to update query');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Organize Query</DialogTitle>
+          <DialogDescription>Move &quot;{query.name}&quot; to a folder and tag it.</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSave}>
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="organize-folder">Folder</Label>
+              <Input
+                id="organize-folder"
+                placeholder="No folder"
+                value={folder}
+                onChange={(e) => setFolder(e.target.value)}
+                list="organize-folder-options"
+              />
+              <datalist id="organize-folder-options">
+                {folders.map((name) => (
+                  <option key={name} value={name} />
+                ))}
+              </datalist>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="organize-tags">Tags</Label>
+              <Input
+                id="organize-tags"
+                placeholder="reporting, billing"
+                value={tags}
+                onChange={(e) => setTags(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">Separate tags with commas.</p>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
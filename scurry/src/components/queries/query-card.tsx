@@ -1,7 +1,7 @@
 'use client';
 
 import * as React from 'react';
-import { Play, Copy, Trash2, Users, User, MessageSquare, MoreHorizontal } from 'lucide-react';
+import { Play, Copy, Trash2, Users, User, MessageSquare, MoreHorizontal, Braces, Folder, FolderInput, History, Tag, CalendarClock } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import {
@@ -23,6 +23,10 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
 import { toast } from 'sonner';
+import type { ChartConfig, QueryParameter } from '@/types';
+import { RunSavedQueryDialog } from './run-saved-query-dialog';
+import { OrganizeQueryDialog } from './organize-query-dialog';
+import { QuerySchedulesDialog } from './query-schedules-dialog';
 
 interface SavedQuery {
   id: string;
@@ -30,7 +34,12 @@ interface SavedQuery {
   description: string | null;
   sql: string;
   teamId: string | null;
+  connectionId?: string | null;
   userId: string;
+  parameters?: QueryParameter[];
+  folder?: string | null;
+  tags?: string[];
+  chart?: ChartConfig | null;
   createdAt: string;
   updatedAt: string;
   user?: {
@@ -45,15 +54,40 @@ interface SavedQuery {
 interface QueryCardProps {
   query: SavedQuery;
   currentUserId: string;
-  onRun?: (sql: string) => void;
+  onRun?: (sql: string, chart?: ChartConfig | null) => void;
   onDelete?: (id: string) => void;
+  onShowHistory?: (id: string) => void;
+  onUpdated?: (query: { id: string; folder: string | null; tags: string[] }) => void;
+  folders?: string[];
   commentCount?: number;
 }
 
-export function QueryCard({ query, currentUserId, onRun, onDelete, commentCount = 0 }: QueryCardProps) {
+export function QueryCard({
+  query,
+  currentUserId,
+  onRun,
+  onDelete,
+  onShowHistory,
+  onUpdated,
+  folders,
+  commentCount = 0,
+}: QueryCardProps) {
   const [showDeleteDialog, setShowDeleteDialog] = React.useState(false);
   const [deleting, setDeleting] = React.useState(false);
+  const [showRunDialog, setShowRunDialog] = React.useState(false);
+  const [showOrganizeDialog, setShowOrganizeDialog] = React.useState(false);
+  const [showSchedulesDialog, setShowSchedulesDialog] = React.useState(false);
   const isOwner = query.userId === currentUserId;
+  const parameters = query.parameters ?? [];
+
+  // Parameterized queries are run through a form instead of the editor
+  const handleRun = () => {
+    if (parameters.length > 0) {
+      setShowRunDialog(true);
+    } else {
+      onRun?.(query.sql, query.chart);
+    }
+  };
 
   const handleCopy = async () => {
     await navigator.clipboard.writeText(query.sql);
@@ -117,7 +151,7 @@ export function QueryCard({ query, currentUserId, onRun, onDelete, commentCount
               </DropdownMenuTrigger>
               <DropdownMenuContent align="end">
                 {onRun && (
-                  <DropdownMenuItem onClick={() => onRun(query.sql)}>
+                  <DropdownMenuItem onClick={handleRun}>
                     <Play className="h-4 w-4 mr-2" />
                     Run Query
                   </DropdownMenuItem>
@@ -126,8 +160,22 @@ export function QueryCard({ query, currentUserId, onRun, onDelete, commentCount
                   <Copy className="h-4 w-4 mr-2" />
                   Copy SQL
                 </DropdownMenuItem>
+                {onShowHistory && (
+                  <DropdownMenuItem onClick={() => onShowHistory(query.id)}>
+                    <History className="h-4 w-4 mr-2" />
+                    Version History
+                  </DropdownMenuItem>
+                )}
+                <DropdownMenuItem onClick={() => setShowSchedulesDialog(true)}>
+                  <CalendarClock className="h-4 w-4 mr-2" />
+                  Schedules
+                </DropdownMenuItem>
                 {isOwner && (
                   <>
+                    <DropdownMenuItem onClick={() => setShowOrganizeDialog(true)}>
+                      <FolderInput className="h-4 w-4 mr-2" />
+                      Organize
+                    </DropdownMenuItem>
                     <DropdownMenuSeparator />
                     <DropdownMenuItem
                       onClick={() => setShowDeleteDialog(true)}
@@ -143,6 +191,22 @@ export function QueryCard({ query, currentUserId, onRun, onDelete, commentCount
           </div>
         </CardHeader>
         <CardContent>
+          {(query.folder || (query.tags?.length ?? 0) > 0) && (
+            <div className="flex items-center gap-1.5 flex-wrap mb-2">
+              {query.folder && (
+                <Badge variant="outline" className="gap-1 text-xs">
+                  <Folder className="h-3 w-3" />
+                  {query.folder}
+                </Badge>
+              )}
+              {query.tags?.map((tag) => (
+                <Badge key={tag} variant="secondary" className="gap-1 text-xs font-normal">
+                  <Tag className="h-3 w-3" />
+                  {tag}
+                </Badge>
+              ))}
+            </div>
+          )}
           <div className="rounded-md bg-muted p-2 mb-3">
             <pre className="text-xs font-mono overflow-x-auto max-h-[80px] text-muted-foreground">
               {query.sql.length > 150 ? query.sql.substring(0, 150) + '...' : query.sql}
@@ -161,6 +225,12 @@ export function QueryCard({ query, currentUserId, onRun, onDelete, commentCount
                   Personal
                 </Badge>
               )}
+              {parameters.length > 0 && (
+                <span className="flex items-center gap-1" title={parameters.map((p) => p.name).join(', ')}>
+                  <Braces className="h-3 w-3" />
+                  {parameters.length}
+                </span>
+              )}
               {commentCount > 0 && (
                 <span className="flex items-center gap-1">
                   <MessageSquare className="h-3 w-3" />
@@ -173,6 +243,33 @@ export function QueryCard({ query, currentUserId, onRun, onDelete, commentCount
         </CardContent>
       </Card>
 
+      {showRunDialog && (
+        <RunSavedQueryDialog
+          query={{ ...query, parameters }}
+          open={showRunDialog}
+          onOpenChange={setShowRunDialog}
+          onOpenInEditor={onRun && ((sql) => onRun(sql, query.chart))}
+        />
+      )}
+
+      {showSchedulesDialog && (
+        <QuerySchedulesDialog
+          query={{ ...query, parameters }}
+          open={showSchedulesDialog}
+          onOpenChange={setShowSchedulesDialog}
+        />
+      )}
+
+      {showOrganizeDialog && (
+        <OrganizeQueryDialog
+          query={{ ...query, folder: query.folder ?? null, tags: query.tags ?? [] }}
+          folders={folders}
+          open={showOrganizeDialog}
+          onOpenChange={setShowOrganizeDialog}
+          onUpdated={onUpdated}
+        />
+      )}
+
       <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
         <AlertDialogContent>
           <AlertDialogHeader>
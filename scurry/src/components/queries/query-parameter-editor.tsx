@@ -0,0 +1,119 @@
+'use client';
+
+import * as React from 'react';
+import { Braces } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { QUERY_PARAMETER_TYPE_LABELS } from '@/lib/sql/query-parameters';
+import type { QueryParameter, QueryParameterType } from '@/types';
+
+interface QueryParameterEditorProps {
+  parameters: QueryParameter[];
+  onChange: (parameters: QueryParameter[]) => void;
+}
+
+function parseAllowedValues(text: string, type: QueryParameterType): Array<string | number> | undefined {
+  const items = text.split(',').map((item) => item.trim()).filter(Boolean);
+  if (items.length === 0) return undefined;
+  const numeric = type === 'number' || type === 'integer';
+  return items.map((item) => (numeric && Number.isFinite(Number(item)) ? Number(item) : item));
+}
+
+function ParameterRow({
+  parameter,
+  onChange,
+}: {
+  parameter: QueryParameter;
+  onChange: (parameter: QueryParameter) => void;
+}) {
+  // Kept as typed so a trailing comma does not vanish mid-edit
+  const [allowedText, setAllowedText] = React.useState(parameter.allowedValues?.join(', ') ?? '');
+  const id = `param-${parameter.name}`;
+
+  return (
+    <div className="rounded-md border p-3 space-y-2">
+      <div className="flex items-center gap-2">
+        <code className="text-xs font-mono bg-muted rounded px-1.5 py-0.5">:{parameter.name}</code>
+        <div className="flex-1" />
+        <Label htmlFor={`${id}-required`} className="text-xs text-muted-foreground">Required</Label>
+        <Switch
+          id={`${id}-required`}
+          checked={parameter.required}
+          onCheckedChange={(required) => onChange({ ...parameter, required })}
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <Input
+          placeholder="Label"
+          value={parameter.label ?? ''}
+          onChange={(e) => onChange({ ...parameter, label: e.target.value || undefined })}
+          className="h-8 text-xs"
+        />
+        <Select
+          value={parameter.type}
+          onValueChange={(type: QueryParameterType) =>
+            onChange({ ...parameter, type, allowedValues: parseAllowedValues(allowedText, type) })
+          }
+        >
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(QUERY_PARAMETER_TYPE_LABELS) as QueryParameterType[]).map((type) => (
+              <SelectItem key={type} value={type}>
+                {QUERY_PARAMETER_TYPE_LABELS[type]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          placeholder="Default value"
+          value={parameter.defaultValue === undefined || parameter.defaultValue === null ? '' : String(parameter.defaultValue)}
+          onChange={(e) => onChange({ ...parameter, defaultValue: e.target.value || undefined })}
+          className="h-8 text-xs"
+        />
+        <Input
+          placeholder="Allowed values (comma separated)"
+          value={allowedText}
+          onChange={(e) => {
+            setAllowedText(e.target.value);
+            onChange({ ...parameter, allowedValues: parseAllowedValues(e.target.value, parameter.type) });
+          }}
+          disabled={parameter.type === 'boolean'}
+          className="h-8 text-xs"
+        />
+      </div>
+    </div>
+  );
+}
+
+export function QueryParameterEditor({ parameters, onChange }: QueryParameterEditorProps) {
+  if (parameters.length === 0) return null;
+
+  return (
+    <div className="grid gap-2">
+      <Label className="flex items-center gap-1.5">
+        <Braces className="h-3.5 w-3.5" />
+        Parameters
+      </Label>
+      <p className="text-xs text-muted-foreground">
+        Values are asked for each time the query runs and are sent as bound parameters.
+      </p>
+      {parameters.map((parameter, index) => (
+        <ParameterRow
+          key={parameter.name}
+          parameter={parameter}
+          onChange={(updated) => onChange(parameters.map((p, i) => (i === index ? updated : p)))}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,245 @@
+'use client';
+
+import * as React from 'react';
+import dynamic from 'next/dynamic';
+import { useTheme } from 'next-themes';
+import { History, Loader2, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+import type { ChartConfig, QueryParameter } from '@/types';
+
+const DiffEditor = dynamic(
+  () => import('@monaco-editor/react').then((mod) => mod.DiffEditor),
+  { ssr: false }
+);
+
+interface QueryRevision {
+  id: string;
+  revisionNumber: number;
+  name: string;
+  description: string | null;
+  sql: string;
+  parameters: QueryParameter[];
+  folder: string | null;
+  tags: string[];
+  chart: ChartConfig | null;
+  createdAt: string;
+  user?: {
+    email: string;
+    name: string | null;
+  };
+}
+
+interface QueryRevisionsDialogProps {
+  query: { id: string; name: string };
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  canRestore: boolean;
+  initialRevisionId?: string | null;
+  onRestored?: () => void;
+}
+
+function describeParameters(parameters: QueryParameter[]): string {
+  return parameters.map((p) => `${p.name}: ${p.type}`).join(', ') || 'none';
+}
+
+function describeChart(chart: ChartConfig | null): string {
+  if (!chart) return 'none';
+  const axes = [chart.xColumn, chart.yColumns?.join(' + '), chart.groupBy && `by ${chart.groupBy}`].filter(Boolean);
+  return axes.length ? `${chart.type} (${axes.join(', ')})` : chart.type;
+}
+
+/**
+ * Non-SQL fields that differ between two revisions, as [label, before, after]
+ */
+function changedFields(previous: QueryRevision, revision: QueryRevision): Array<[string, string, string]> {
+  const fields: Array<[string, string, string]> = [
+    ['Name', previous.name, revision.name],
+    ['Description', previous.description ?? '', revision.description ?? ''],
+    ['Folder', previous.folder ?? '', revision.folder ?? ''],
+    ['Tags', previous.tags.join(', '), revision.tags.join(', ')],
+    ['Parameters', describeParameters(previous.parameters), describeParameters(revision.parameters)],
+    ['Chart', describeChart(previous.chart ?? null), describeChart(revision.chart ?? null)],
+  ];
+  return fields.filter(([, before, after]) => before !== after);
+}
+
+export function QueryRevisionsDialog({
+  query,
+  open,
+  onOpenChange,
+  canRestore,
+  initialRevisionId,
+  onRestored,
+}: QueryRevisionsDialogProps) {
+  const { resolvedTheme } = useTheme();
+  const [revisions, setRevisions] = React.useState<QueryRevision[]>([]);
+  const [loading, setLoading] = React.useState(true);
+  const [selectedId, setSelectedId] = React.useState<string | null>(initialRevisionId ?? null);
+  const [restoring, setRestoring] = React.useState(false);
+
+  const fetchRevisions = React.useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/queries/${query.id}/revisions`);
+      if (response.ok) {
+        setRevisions(await response.json());
+      } else {
+        toast.error('Failed to load version history');
+      }
+    } catch (error) {
+      console.error('Failed to fetch revisions:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [query.id]);
+
+  React.useEffect(() => {
+    if (open) {
+      fetchRevisions();
+    }
+  }, [open, fetchRevisions]);
+
+  // Revisions are newest first; each one is compared with the one before it
+  const selectedIndex = Math.max(0, revisions.findIndex((r) => r.id === selectedId));
+  const selected = revisions[selectedIndex];
+  const previous = revisions[selectedIndex + 1];
+  const isCurrent = selectedIndex === 0;
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    setRestoring(true);
+    try {
+      const response = await fetch(`/api/queries/${query.id}/revisions/${selected.id}/restore`, {
+        method: 'POST',
+      });
+      if (response.ok) {
+        const data = await response.json();
+        toast.success(`Restored version ${selected.revisionNumber}`);
+        setSelectedId(data.revision.id);
+        await fetchRevisions();
+        onRestored?.();
+      } else {
+        const error = await response.json();
+        toast.error(error.error || 'Failed to restore version');
+      }
+    } catch {
+      toast.error('Failed to restore version');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-5xl h-[80vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-4 w-4" />
+            Version history
+          </DialogTitle>
+          <DialogDescription>{query.name}</DialogDescription>
+        </DialogHeader>
+
+        {loading && revisions.length === 0 ? (
+          <div className="flex items-center justify-center flex-1">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No versions have been recorded for this query yet.</p>
+        ) : (
+          <div className="flex gap-4 flex-1 min-h-0">
+            <ScrollArea className="w-56 flex-shrink-0 border rounded-md">
+              <div className="p-1">
+                {revisions.map((revision, index) => (
+                  <button
+                    key={revision.id}
+                    type="button"
+                    onClick={() => setSelectedId(revision.id)}
+                    className={cn(
+                      'w-full text-left rounded px-2 py-1.5 text-sm',
+                      revision.id === selected?.id ? 'bg-muted' : 'hover:bg-muted/50'
+                    )}
+                  >
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">Version {revision.revisionNumber}</span>
+                      {index === 0 && <Badge variant="secondary" className="text-xs">Current</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {revision.user?.name || revision.user?.email || 'Unknown'} ·{' '}
+                      {new Date(revision.createdAt).toLocaleString()}
+                    </p>
+                  </button>
+                ))}
+              </div>
+            </ScrollArea>
+
+            {selected && (
+              <div className="flex flex-col gap-3 flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <p className="text-sm text-muted-foreground flex-1">
+                    {previous
+                      ? `Changes from version ${previous.revisionNumber} to version ${selected.revisionNumber}`
+                      : 'First recorded version'}
+                  </p>
+                  {canRestore && !isCurrent && (
+                    <Button size="sm" onClick={handleRestore} disabled={restoring}>
+                      {restoring ? (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      ) : (
+                        <RotateCcw className="h-4 w-4 mr-2" />
+                      )}
+                      Restore this version
+                    </Button>
+                  )}
+                </div>
+
+                {previous && changedFields(previous, selected).length > 0 && (
+                  <div className="text-xs space-y-1 border rounded-md p-2">
+                    {changedFields(previous, selected).map(([label, before, after]) => (
+                      <p key={label}>
+                        <span className="font-medium">{label}:</span>{' '}
+                        <span className="line-through text-muted-foreground">{before || '(empty)'}</span>
+                        {' → '}
+                        <span>{after || '(empty)'}</span>
+                      </p>
+                    ))}
+                  </div>
+                )}
+
+                <div className="flex-1 min-h-0 border rounded-md overflow-hidden">
+                  <DiffEditor
+                    height="100%"
+                    language="sql"
+                    original={previous?.sql ?? ''}
+                    modified={selected.sql}
+                    theme={resolvedTheme === 'dark' ? 'vs-dark' : 'light'}
+                    options={{
+                      readOnly: true,
+                      renderSideBySide: true,
+                      minimap: { enabled: false },
+                      fontSize: 13,
+                      scrollBeyondLastLine: false,
+                      wordWrap: 'on',
+                      automaticLayout: true,
+                    }}
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
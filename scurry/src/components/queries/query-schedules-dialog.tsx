@@ -0,0 +1,628 @@
+'use client';
+
+import * as React from 'react';
+import {
+  ChevronDown,
+  ChevronRight,
+  Clock,
+  Loader2,
+  Mail,
+  Pencil,
+  Plus,
+  Send,
+  Trash2,
+  Webhook,
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useConnections } from '@/hooks';
+import { cn } from '@/lib/utils';
+import { ParameterField, initialParameterValues } from './run-saved-query-dialog';
+import type {
+  QueryParameter,
+  QueryParameterValue,
+  ScheduleComparison,
+  ScheduleCondition,
+  ScheduleEmailFormat,
+  ScheduleRunStatus,
+  ScheduleDelivery,
+} from '@/types';
+
+interface QuerySchedulesDialogProps {
+  query: {
+    id: string;
+    name: string;
+    teamId: string | null;
+    connectionId?: string | null;
+    parameters: QueryParameter[];
+  };
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface Schedule {
+  id: string;
+  name: string;
+  cron: string;
+  timezone: string;
+  enabled: boolean;
+  connectionId: string | null;
+  parameterValues: Record<string, QueryParameterValue>;
+  emailRecipients: string[];
+  emailFormat: ScheduleEmailFormat;
+  webhookUrl: string | null;
+  condition: ScheduleCondition;
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+  lastStatus: ScheduleRunStatus | null;
+  user?: {
+    email: string;
+    name: string | null;
+  };
+}
+
+interface ScheduleRun {
+  id: string;
+  trigger: 'manual' | 'schedule';
+  status: ScheduleRunStatus;
+  rowCount: number | null;
+  deliveries: ScheduleDelivery[];
+  error: string | null;
+  startedAt: string;
+}
+
+const SAVED_CONNECTION = '__saved__';
+
+const COMPARISON_LABELS: Record<ScheduleComparison, string> = {
+  gt: '>',
+  gte: '≥',
+  lt: '<',
+  lte: '≤',
+  eq: '=',
+  ne: '≠',
+};
+
+const FORMAT_LABELS: Record<ScheduleEmailFormat, string> = {
+  csv: 'CSV attachment',
+  xlsx: 'Excel (XLSX) attachment',
+  html: 'Inline HTML table',
+};
+
+const STATUS_VARIANTS: Record<ScheduleRunStatus, 'secondary' | 'outline' | 'destructive'> = {
+  delivered: 'secondary',
+  skipped: 'outline',
+  failed: 'destructive',
+};
+
+function describeCondition(condition: ScheduleCondition): string {
+  switch (condition.type) {
+    case 'always':
+      return 'Every run';
+    case 'row_count':
+      return `When row count ${COMPARISON_LABELS[condition.operator]} ${condition.value}`;
+    case 'threshold':
+      return `When ${condition.column} crosses ${COMPARISON_LABELS[condition.operator]} ${condition.value}`;
+  }
+}
+
+function describeRun(run: ScheduleRun): string {
+  if (run.error) return run.error;
+  if (run.status === 'skipped') return `${run.rowCount} rows; condition not met`;
+  return `${run.rowCount} rows sent by ${run.deliveries.map((delivery) => delivery.channel).join(' and ')}`;
+}
+
+function RunLog({ scheduleId, refreshKey }: { scheduleId: string; refreshKey: number }) {
+  const [runs, setRuns] = React.useState<ScheduleRun[] | null>(null);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/schedules/${scheduleId}/runs?limit=10`)
+      .then((response) => (response.ok ? response.json() : []))
+      .then((data: ScheduleRun[]) => {
+        if (!cancelled) setRuns(data);
+      })
+      .catch(() => {
+        if (!cancelled) setRuns([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [scheduleId, refreshKey]);
+
+  if (!runs) {
+    return <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />;
+  }
+  if (runs.length === 0) {
+    return <p className="text-xs text-muted-foreground">No runs yet</p>;
+  }
+
+  return (
+    <div className="space-y-1">
+      {runs.map((run) => (
+        <div key={run.id} className="flex items-center gap-2 text-xs">
+          <Badge variant={STATUS_VARIANTS[run.status]} className="text-[10px] capitalize">
+            {run.status}
+          </Badge>
+          <span className="text-muted-foreground flex-shrink-0">{new Date(run.startedAt).toLocaleString()}</span>
+          <span className="text-muted-foreground">({run.trigger})</span>
+          <span className={cn('truncate', run.status === 'failed' && 'text-destructive')} title={describeRun(run)}>
+            {describeRun(run)}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function ScheduleForm({
+  query,
+  schedule,
+  onCancel,
+  onSaved,
+}: {
+  query: QuerySchedulesDialogProps['query'];
+  schedule: Schedule | null;
+  onCancel: () => void;
+  onSaved: () => void;
+}) {
+  const { connections, loading: connectionsLoading } = useConnections({ teamId: query.teamId });
+  const [name, setName] = React.useState(schedule?.name ?? query.name);
+  const [cron, setCron] = React.useState(schedule?.cron ?? '0 8 * * 1-5');
+  const [timezone, setTimezone] = React.useState(
+    () => schedule?.timezone ?? Intl.DateTimeFormat().resolvedOptions().timeZone ?? 'UTC'
+  );
+  const [connectionId, setConnectionId] = React.useState(schedule?.connectionId ?? SAVED_CONNECTION);
+  const [values, setValues] = React.useState<Record<string, QueryParameterValue>>(() => ({
+    ...initialParameterValues(query.parameters),
+    ...schedule?.parameterValues,
+  }));
+  const [recipients, setRecipients] = React.useState(schedule?.emailRecipients.join(', ') ?? '');
+  const [emailFormat, setEmailFormat] = React.useState<ScheduleEmailFormat>(schedule?.emailFormat ?? 'csv');
+  const [webhookUrl, setWebhookUrl] = React.useState(schedule?.webhookUrl ?? '');
+  const [condition, setCondition] = React.useState<ScheduleCondition>(schedule?.condition ?? { type: 'always' });
+  const [saving, setSaving] = React.useState(false);
+
+  const setConditionType = (type: ScheduleCondition['type']) => {
+    if (type === 'always') {
+      setCondition({ type });
+    } else if (type === 'row_count') {
+      setCondition({ type, operator: 'gt', value: 0 });
+    } else {
+      setCondition({ type, column: '', operator: 'gt', value: 0 });
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const body = {
+        name: name.trim(),
+        cron: cron.trim(),
+        timezone: timezone.trim() || 'UTC',
+        connectionId: connectionId === SAVED_CONNECTION ? null : connectionId,
+        parameterValues: values,
+        emailRecipients: recipients.split(/[,;\s]+/).map((email) => email.trim()).filter(Boolean),
+        emailFormat,
+        webhookUrl: webhookUrl.trim() || null,
+        condition,
+      };
+      const response = await fetch(schedule ? `/api/schedules/${schedule.id}` : '/api/schedules', {
+        method: schedule ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(schedule ? body : { ...body, queryId: query.id }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        const fieldErrors = data.details?.fieldErrors as Record<string, string[]> | undefined;
+        const first = fieldErrors && Object.values(fieldErrors).flat()[0];
+        toast.error(first || data.details?.formErrors?.[0] || data.error || 'Failed to save schedule');
+        return;
+      }
+      toast.success(schedule ? 'Schedule updated' : 'Schedule created');
+      onSaved();
+    } catch {
+      toast.error('Failed to save schedule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-4 min-h-0 flex-1">
+      <div className="grid gap-4 sm:grid-cols-2 overflow-y-auto pr-1">
+        <div className="grid gap-1.5 sm:col-span-2">
+          <Label htmlFor="schedule-name">Name</Label>
+          <Input id="schedule-name" value={name} onChange={(e) => setName(e.target.value)} />
+        </div>
+        <div className="grid gap-1.5">
+          <Label htmlFor="schedule-cron">Schedule</Label>
+          <Input
+            id="schedule-cron"
+            value={cron}
+            onChange={(e) => setCron(e.target.value)}
+            placeholder="0 8 * * 1-5"
+            className="font-mono"
+          />
+          <p className="text-xs text-muted-foreground">Cron expression (minute hour day month weekday)</p>
+        </div>
+        <div className="grid gap-1.5">
+          <Label htmlFor="schedule-timezone">Time zone</Label>
+          <Input
+            id="schedule-timezone"
+            value={timezone}
+            onChange={(e) => setTimezone(e.target.value)}
+            placeholder="Europe/Berlin"
+          />
+          <p className="text-xs text-muted-foreground">IANA name, e.g. UTC or America/New_York</p>
+        </div>
+        <div className="grid gap-1.5 sm:col-span-2">
+          <Label htmlFor="schedule-connection">Connection</Label>
+          <Select value={connectionId} onValueChange={setConnectionId} disabled={connectionsLoading}>
+            <SelectTrigger id="schedule-connection">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={SAVED_CONNECTION}>The query&apos;s saved connection</SelectItem>
+              {connections.map((connection) => (
+                <SelectItem key={connection.id} value={connection.id}>
+                  {connection.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {query.parameters.map((parameter) => (
+          <ParameterField
+            key={parameter.name}
+            parameter={parameter}
+            value={values[parameter.name] ?? ''}
+            onChange={(value) => setValues((current) => ({ ...current, [parameter.name]: value }))}
+          />
+        ))}
+
+        <div className="grid gap-1.5 sm:col-span-2">
+          <Label htmlFor="schedule-recipients">Email recipients</Label>
+          <Input
+            id="schedule-recipients"
+            value={recipients}
+            onChange={(e) => setRecipients(e.target.value)}
+            placeholder="alice@example.com, bob@example.com"
+          />
+        </div>
+        <div className="grid gap-1.5">
+          <Label htmlFor="schedule-format">Email format</Label>
+          <Select value={emailFormat} onValueChange={(value) => setEmailFormat(value as ScheduleEmailFormat)}>
+            <SelectTrigger id="schedule-format">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(FORMAT_LABELS).map(([format, label]) => (
+                <SelectItem key={format} value={format}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid gap-1.5">
+          <Label htmlFor="schedule-webhook">Webhook URL</Label>
+          <Input
+            id="schedule-webhook"
+            value={webhookUrl}
+            onChange={(e) => setWebhookUrl(e.target.value)}
+            placeholder="https://hooks.example.com/..."
+          />
+        </div>
+
+        <div className="grid gap-1.5 sm:col-span-2">
+          <Label htmlFor="schedule-condition">Deliver</Label>
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={condition.type} onValueChange={(value) => setConditionType(value as ScheduleCondition['type'])}>
+              <SelectTrigger id="schedule-condition" className="w-[200px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="always">On every run</SelectItem>
+                <SelectItem value="row_count">When the row count is</SelectItem>
+                <SelectItem value="threshold">When a value crosses</SelectItem>
+              </SelectContent>
+            </Select>
+            {condition.type === 'threshold' && (
+              <Input
+                aria-label="Column"
+                className="w-[160px]"
+                placeholder="Column"
+                value={condition.column}
+                onChange={(e) => setCondition({ ...condition, column: e.target.value })}
+              />
+            )}
+            {condition.type !== 'always' && (
+              <>
+                <Select
+                  value={condition.operator}
+                  onValueChange={(value) => setCondition({ ...condition, operator: value as ScheduleComparison })}
+                >
+                  <SelectTrigger aria-label="Comparison" className="w-[70px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(COMPARISON_LABELS).map(([operator, label]) => (
+                      <SelectItem key={operator} value={operator}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  aria-label="Value"
+                  type="number"
+                  step="any"
+                  className="w-[120px]"
+                  value={condition.value}
+                  onChange={(e) => setCondition({ ...condition, value: Number(e.target.value) })}
+                />
+              </>
+            )}
+          </div>
+          {condition.type === 'threshold' && (
+            <p className="text-xs text-muted-foreground">
+              Compares the column in the first row. Alerts once when the value crosses the threshold, not on
+              every run while it stays past it.
+            </p>
+          )}
+        </div>
+      </div>
+
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={saving || !name.trim() || !cron.trim()}>
+          {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          {schedule ? 'Save Schedule' : 'Create Schedule'}
+        </Button>
+      </DialogFooter>
+    </form>
+  );
+}
+
+export function QuerySchedulesDialog({ query, open, onOpenChange }: QuerySchedulesDialogProps) {
+  const [schedules, setSchedules] = React.useState<Schedule[]>([]);
+  const [loading, setLoading] = React.useState(true);
+  // undefined lists the schedules; null creates a new one
+  const [editing, setEditing] = React.useState<Schedule | null | undefined>(undefined);
+  const [expandedId, setExpandedId] = React.useState<string | null>(null);
+  const [runningId, setRunningId] = React.useState<string | null>(null);
+  const [runLogKey, setRunLogKey] = React.useState(0);
+
+  const loadSchedules = React.useCallback(async () => {
+    try {
+      const response = await fetch(`/api/schedules?queryId=${query.id}`);
+      if (response.ok) {
+        setSchedules(await response.json());
+      }
+    } catch (error) {
+      console.error('Failed to fetch schedules:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [query.id]);
+
+  React.useEffect(() => {
+    if (open) loadSchedules();
+  }, [open, loadSchedules]);
+
+  const handleToggle = async (schedule: Schedule, enabled: boolean) => {
+    try {
+      const response = await fetch(`/api/schedules/${schedule.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ enabled }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to update schedule');
+      setSchedules((prev) => prev.map((s) => (s.id === schedule.id ? data : s)));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update schedule');
+    }
+  };
+
+  const handleSendNow = async (schedule: Schedule) => {
+    setRunningId(schedule.id);
+    try {
+      const response = await fetch(`/api/schedules/${schedule.id}/run`, { method: 'POST' });
+      const run = await response.json();
+      if (!response.ok) throw new Error(run.error || 'Failed to run schedule');
+
+      if (run.status === 'failed') {
+        toast.error(run.error || 'The schedule failed');
+      } else {
+        toast.success(`Sent ${run.rowCount} rows`);
+      }
+      setExpandedId(schedule.id);
+      setRunLogKey((key) => key + 1);
+      loadSchedules();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to run schedule');
+    } finally {
+      setRunningId(null);
+    }
+  };
+
+  const handleDelete = async (schedule: Schedule) => {
+    try {
+      const response = await fetch(`/api/schedules/${schedule.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to delete schedule');
+      }
+      setSchedules((prev) => prev.filter((s) => s.id !== schedule.id));
+      toast.success(`Deleted schedule "${schedule.name}"`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete schedule');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>
+            {editing === undefined ? `Schedules for ${query.name}` : editing ? 'Edit Schedule' : 'New Schedule'}
+          </DialogTitle>
+          <DialogDescription>
+            Run this query on a schedule and send the result by email or to a webhook. Schedules run with the
+            permissions of the person who created them.
+          </DialogDescription>
+        </DialogHeader>
+
+        {editing !== undefined ? (
+          <ScheduleForm
+            key={editing?.id ?? 'new'}
+            query={query}
+            schedule={editing}
+            onCancel={() => setEditing(undefined)}
+            onSaved={() => {
+              setEditing(undefined);
+              loadSchedules();
+            }}
+          />
+        ) : (
+          <>
+            <div className="space-y-2 overflow-y-auto min-h-0 flex-1">
+              {loading ? (
+                <div className="flex justify-center py-6">
+                  <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                </div>
+              ) : schedules.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-6">No schedules yet</p>
+              ) : (
+                schedules.map((schedule) => {
+                  const expanded = expandedId === schedule.id;
+                  return (
+                    <div key={schedule.id} className="rounded-md border p-3 space-y-2">
+                      <div className="flex items-start gap-2">
+                        <button
+                          type="button"
+                          className="mt-0.5 text-muted-foreground hover:text-foreground"
+                          onClick={() => setExpandedId(expanded ? null : schedule.id)}
+                          aria-label={expanded ? 'Hide run log' : 'Show run log'}
+                        >
+                          {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                        </button>
+                        <div className="flex-1 min-w-0 space-y-1">
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium text-sm truncate">{schedule.name}</span>
+                            {schedule.lastStatus && (
+                              <Badge variant={STATUS_VARIANTS[schedule.lastStatus]} className="text-[10px] capitalize">
+                                {schedule.lastStatus}
+                              </Badge>
+                            )}
+                          </div>
+                          <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                            <Clock className="h-3.5 w-3.5 flex-shrink-0" />
+                            <code>{schedule.cron}</code>
+                            <span className="truncate">
+                              {schedule.timezone} ·{' '}
+                              {schedule.enabled && schedule.nextRunAt
+                                ? `next ${new Date(schedule.nextRunAt).toLocaleString()}`
+                                : 'paused'}
+                            </span>
+                          </div>
+                          <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                            {schedule.emailRecipients.length > 0 && (
+                              <span className="flex items-center gap-1 truncate" title={schedule.emailRecipients.join(', ')}>
+                                <Mail className="h-3.5 w-3.5 flex-shrink-0" />
+                                {schedule.emailRecipients.length} · {schedule.emailFormat.toUpperCase()}
+                              </span>
+                            )}
+                            {schedule.webhookUrl && (
+                              <span className="flex items-center gap-1">
+                                <Webhook className="h-3.5 w-3.5" />
+                                Webhook
+                              </span>
+                            )}
+                            <span className="truncate">{describeCondition(schedule.condition)}</span>
+                          </div>
+                        </div>
+                        <Switch
+                          checked={schedule.enabled}
+                          onCheckedChange={(checked) => handleToggle(schedule, checked)}
+                          aria-label="Enable schedule"
+                        />
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="h-7"
+                          onClick={() => handleSendNow(schedule)}
+                          disabled={runningId !== null}
+                          title="Run now and deliver the result"
+                        >
+                          {runningId === schedule.id
+                            ? <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                            : <Send className="h-3.5 w-3.5" />}
+                          Send Now
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 w-7 p-0 text-muted-foreground"
+                          onClick={() => setEditing(schedule)}
+                          aria-label="Edit schedule"
+                        >
+                          <Pencil className="h-3.5 w-3.5" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 w-7 p-0 text-muted-foreground hover:text-destructive"
+                          onClick={() => handleDelete(schedule)}
+                          aria-label="Delete schedule"
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </Button>
+                      </div>
+
+                      {expanded && (
+                        <div className="pl-6">
+                          <RunLog scheduleId={schedule.id} refreshKey={runLogKey} />
+                        </div>
+                      )}
+                    </div>
+                  );
+                })
+              )}
+            </div>
+            <DialogFooter>
+              <Button onClick={() => setEditing(null)}>
+                <Plus className="h-4 w-4 mr-2" />
+                New Schedule
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
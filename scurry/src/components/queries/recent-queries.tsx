@@ -7,6 +7,7 @@ import { FileCode, Clock, ArrowRight, Loader2 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import type { ChartConfig } from '@/types';
 
 interface SavedQuery {
   id: string;
@@ -15,6 +16,7 @@ interface SavedQuery {
   sql: string;
   teamId: string | null;
   userId: string;
+  chart: ChartConfig | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -62,9 +64,12 @@ export function RecentQueries({ limit = 5, className }: RecentQueriesProps) {
     }
   };
 
-  const handleRunQuery = (sql: string) => {
+  const handleRunQuery = (query: SavedQuery) => {
     // Store query in sessionStorage and navigate to query editor
-    sessionStorage.setItem('runQuery', sql);
+    sessionStorage.setItem('runQuery', query.sql);
+    if (query.chart) {
+      sessionStorage.setItem('runQueryChart', JSON.stringify(query.chart));
+    }
     router.push('/query');
   };
 
@@ -115,7 +120,7 @@ export function RecentQueries({ limit = 5, className }: RecentQueriesProps) {
               {queries.map((query) => (
                 <button
                   key={query.id}
-                  onClick={() => handleRunQuery(query.sql)}
+                  onClick={() => handleRunQuery(query)}
                   className="w-full text-left p-2 rounded-md hover:bg-muted transition-colors group"
                 >
                   <div className="flex items-center justify-between gap-2">
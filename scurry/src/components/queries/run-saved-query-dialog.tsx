@@ -0,0 +1,258 @@
+'use client';
+
+import * as React from 'react';
+import { Play, Loader2, Code } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ResultsTable } from '@/components/results';
+import { useConnections } from '@/hooks';
+import type { QueryParameter, QueryParameterValue, QueryResult } from '@/types';
+
+interface RunSavedQueryDialogProps {
+  query: {
+    id: string;
+    name: string;
+    sql: string;
+    teamId: string | null;
+    connectionId?: string | null;
+    parameters: QueryParameter[];
+  };
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onOpenInEditor?: (sql: string) => void;
+}
+
+const UNSET = '__unset__';
+
+export function initialParameterValues(parameters: QueryParameter[]): Record<string, QueryParameterValue> {
+  return Object.fromEntries(
+    parameters.map((parameter) => [
+      parameter.name,
+      parameter.type === 'boolean'
+        ? parameter.defaultValue === true || parameter.defaultValue === 'true'
+        : parameter.defaultValue === undefined || parameter.defaultValue === null
+          ? ''
+          : String(parameter.defaultValue),
+    ])
+  );
+}
+
+export function ParameterField({
+  parameter,
+  value,
+  error,
+  onChange,
+}: {
+  parameter: QueryParameter;
+  value: QueryParameterValue;
+  error?: string;
+  onChange: (value: QueryParameterValue) => void;
+}) {
+  const id = `run-param-${parameter.name}`;
+  const label = (
+    <Label htmlFor={id}>
+      {parameter.label || parameter.name}
+      {parameter.required && <span className="text-destructive ml-0.5">*</span>}
+    </Label>
+  );
+
+  if (parameter.type === 'boolean') {
+    return (
+      <div className="flex items-center justify-between gap-2">
+        {label}
+        <Switch id={id} checked={value === true} onCheckedChange={onChange} />
+      </div>
+    );
+  }
+
+  let input: React.ReactNode;
+  if (parameter.allowedValues?.length) {
+    input = (
+      <Select value={value === '' ? UNSET : String(value)} onValueChange={(v) => onChange(v === UNSET ? '' : v)}>
+        <SelectTrigger id={id}>
+          <SelectValue placeholder="Select a value" />
+        </SelectTrigger>
+        <SelectContent>
+          {!parameter.required && <SelectItem value={UNSET}>None</SelectItem>}
+          {parameter.allowedValues.map((allowed) => (
+            <SelectItem key={String(allowed)} value={String(allowed)}>
+              {String(allowed)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  } else {
+    const inputType = {
+      string: 'text',
+      number: 'number',
+      integer: 'number',
+      date: 'date',
+      datetime: 'datetime-local',
+    }[parameter.type];
+    input = (
+      <Input
+        id={id}
+        type={inputType}
+        step={parameter.type === 'integer' ? 1 : parameter.type === 'number' ? 'any' : undefined}
+        value={value === null ? '' : String(value)}
+        onChange={(e) => onChange(e.target.value)}
+      />
+    );
+  }
+
+  return (
+    <div className="grid gap-1.5">
+      {label}
+      {input}
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
+
+export function RunSavedQueryDialog({ query, open, onOpenChange, onOpenInEditor }: RunSavedQueryDialogProps) {
+  const { connections, loading: connectionsLoading } = useConnections({ teamId: query.teamId });
+  const [connectionId, setConnectionId] = React.useState<string>(query.connectionId ?? '');
+  const [values, setValues] = React.useState(() => initialParameterValues(query.parameters));
+  const [fieldErrors, setFieldErrors] = React.useState<Record<string, string>>({});
+  const [error, setError] = React.useState<string | null>(null);
+  const [result, setResult] = React.useState<QueryResult | null>(null);
+  const [running, setRunning] = React.useState(false);
+
+  // Fall back to the first connection when the saved one is not available here
+  const effectiveConnectionId = connections.some((c) => c.id === connectionId)
+    ? connectionId
+    : connections[0]?.id ?? '';
+
+  const handleRun = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setRunning(true);
+    setError(null);
+    setFieldErrors({});
+    try {
+      const response = await fetch(`/api/queries/${query.id}/run`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          connectionId: effectiveConnectionId || undefined,
+          teamId: query.teamId,
+          values,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setFieldErrors(data.parameterErrors ?? {});
+        setError(data.parameterErrors ? null : data.error || 'Failed to run query');
+        setResult(null);
+        return;
+      }
+      setResult(data);
+    } catch {
+      setError('Failed to run query');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-4xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Run {query.name}</DialogTitle>
+          <DialogDescription>
+            Fill in the parameters. Values are sent separately from the SQL and never edited into it.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleRun} className="flex flex-col gap-4 min-h-0 flex-1">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="grid gap-1.5">
+              <Label htmlFor="run-connection">Connection</Label>
+              <Select
+                value={effectiveConnectionId}
+                onValueChange={setConnectionId}
+                disabled={connectionsLoading || connections.length === 0}
+              >
+                <SelectTrigger id="run-connection">
+                  <SelectValue placeholder={connectionsLoading ? 'Loading...' : 'No connections available'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {connections.map((connection) => (
+                    <SelectItem key={connection.id} value={connection.id}>
+                      {connection.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {query.parameters.map((parameter) => (
+              <ParameterField
+                key={parameter.name}
+                parameter={parameter}
+                value={values[parameter.name] ?? ''}
+                error={fieldErrors[parameter.name]}
+                onChange={(value) => setValues((current) => ({ ...current, [parameter.name]: value }))}
+              />
+            ))}
+          </div>
+
+          {error && (
+            <pre className="text-sm font-mono whitespace-pre-wrap text-destructive border border-destructive rounded-md p-3">
+              {error}
+            </pre>
+          )}
+          {result && (
+            result.error ? (
+              <pre className="text-sm font-mono whitespace-pre-wrap text-destructive border border-destructive rounded-md p-3">
+                {result.error}
+              </pre>
+            ) : (
+              <div className="flex-1 min-h-[200px] overflow-hidden">
+                <ResultsTable result={result} />
+              </div>
+            )
+          )}
+
+          <DialogFooter>
+            {onOpenInEditor && (
+              <Button type="button" variant="outline" onClick={() => onOpenInEditor(query.sql)}>
+                <Code className="h-4 w-4 mr-2" />
+                Open in Editor
+              </Button>
+            )}
+            <Button type="submit" disabled={running || !effectiveConnectionId}>
+              {running ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Running...
+                </>
+              ) : (
+                <>
+                  <Play className="h-4 w-4 mr-2" />
+                  Run
+                </>
+              )}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -23,6 +23,10 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { toast } from 'sonner';
+import { syncParameters } from '@/lib/sql/query-parameters';
+import type { ChartConfig, QueryParameter } from '@/types';
+import { QueryParameterEditor } from './query-parameter-editor';
+import { parseTags } from './organize-query-dialog';
 
 interface Team {
   id: string;
@@ -34,16 +38,21 @@ interface Team {
 interface SaveQueryDialogProps {
   sql: string;
   connectionId?: string | null;
+  // Chart view settings from the results, saved alongside the SQL
+  chart?: ChartConfig | null;
   onSaved?: (query: { id: string; name: string }) => void;
   trigger?: React.ReactNode;
 }
 
-export function SaveQueryDialog({ sql, connectionId, onSaved, trigger }: SaveQueryDialogProps) {
+export function SaveQueryDialog({ sql, connectionId, chart, onSaved, trigger }: SaveQueryDialogProps) {
   const [open, setOpen] = React.useState(false);
   const [teams, setTeams] = React.useState<Team[]>([]);
   const [name, setName] = React.useState('');
   const [description, setDescription] = React.useState('');
   const [teamId, setTeamId] = React.useState<string>('personal');
+  const [parameters, setParameters] = React.useState<QueryParameter[]>([]);
+  const [folder, setFolder] = React.useState('');
+  const [tags, setTags] = React.useState('');
   const [saving, setSaving] = React.useState(false);
   const [loadingTeams, setLoadingTeams] = React.useState(false);
 
@@ -53,6 +62,13 @@ export function SaveQueryDialog({ sql, connectionId, onSaved, trigger }: SaveQue
     }
   }, [open]);
 
+  // Keep one definition per parameter the SQL references
+  React.useEffect(() => {
+    if (open) {
+      setParameters((current) => syncParameters(sql, current));
+    }
+  }, [open, sql]);
+
   const fetchTeams = async () => {
     setLoadingTeams(true);
     try {
@@ -87,6 +103,10 @@ export function SaveQueryDialog({ sql, connectionId, onSaved, trigger }: SaveQue
           sql,
           connectionId: connectionId || undefined,
           teamId: teamId === 'personal' ? undefined : teamId,
+          parameters,
+          folder: folder.trim() || undefined,
+          tags: parseTags(tags),
+          chart: chart ?? undefined,
         }),
       });
 
@@ -97,6 +117,9 @@ export function SaveQueryDialog({ sql, connectionId, onSaved, trigger }: SaveQue
         setName('');
         setDescription('');
         setTeamId('personal');
+        setParameters([]);
+        setFolder('');
+        setTags('');
         onSaved?.(query);
       } else {
         const error = await response.json();
@@ -119,7 +142,7 @@ export function SaveQueryDialog({ sql, connectionId, onSaved, trigger }: SaveQue
           </Button>
         )}
       </DialogTrigger>
-      <DialogContent className="sm:max-w-[425px]">
+      <DialogContent className="sm:max-w-[425px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Save Query</DialogTitle>
           <DialogDescription>
@@ -148,6 +171,26 @@ export function SaveQueryDialog({ sql, connectionId, onSaved, trigger }: SaveQue
                 rows={2}
               />
             </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="grid gap-2">
+                <Label htmlFor="folder">Folder (optional)</Label>
+                <Input
+                  id="folder"
+                  placeholder="Reports"
+                  value={folder}
+                  onChange={(e) => setFolder(e.target.value)}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="tags">Tags (optional)</Label>
+                <Input
+                  id="tags"
+                  placeholder="billing, weekly"
+                  value={tags}
+                  onChange={(e) => setTags(e.target.value)}
+                />
+              </div>
+            </div>
             <div className="grid gap-2">
               <Label htmlFor="team">Save to</Label>
               <Select value={teamId} onValueChange={setTeamId} disabled={loadingTeams}>
@@ -169,6 +212,12 @@ export function SaveQueryDialog({ sql, connectionId, onSaved, trigger }: SaveQue
                 </p>
               )}
             </div>
+            <QueryParameterEditor parameters={parameters} onChange={setParameters} />
+            {chart && (
+              <p className="text-xs text-muted-foreground">
+                The {chart.type} chart set up in the results is saved with the query.
+              </p>
+            )}
             <div className="rounded-md bg-muted p-3">
               <p className="text-xs text-muted-foreground mb-1">Query Preview</p>
               <pre className="text-xs font-mono overflow-x-auto max-h-[100px]">
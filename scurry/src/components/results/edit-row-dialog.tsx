@@ -29,6 +29,8 @@ interface EditRowDialogProps {
   isDeleted?: boolean;
   onDelete?: (rowIndex: number) => void;
   onRestore?: (rowIndex: number) => void;
+  /** Show the row without letting its values be changed */
+  readOnly?: boolean;
 }
 
 // Detect if a value is long text or JSON/array
@@ -67,6 +69,7 @@ export function EditRowDialog({
   isDeleted,
   onDelete,
   onRestore,
+  readOnly = false,
 }: EditRowDialogProps) {
   const [values, setValues] = React.useState<Record<string, string>>({});
   const [isDirty, setIsDirty] = React.useState(false);
@@ -215,7 +218,7 @@ export function EditRowDialog({
                         size="sm"
                         className="h-5 px-2 text-xs"
                         onClick={() => handleFormatJson(col.name)}
-                        disabled={isDeleted}
+                        disabled={isDeleted || readOnly}
                       >
                         Format JSON
                       </Button>
@@ -227,7 +230,7 @@ export function EditRowDialog({
                       value={value}
                       onChange={(e) => handleChange(col.name, e.target.value)}
                       placeholder={col.nullable ? 'NULL' : `Enter ${col.name}`}
-                      disabled={isDeleted}
+                      disabled={isDeleted || readOnly}
                       className={cn(
                         'min-h-[120px] font-mono text-sm resize-y',
                         isJson && 'font-mono'
@@ -239,7 +242,7 @@ export function EditRowDialog({
                       value={value}
                       onChange={(e) => handleChange(col.name, e.target.value)}
                       placeholder={col.nullable ? 'NULL' : `Enter ${col.name}`}
-                      disabled={isDeleted}
+                      disabled={isDeleted || readOnly}
                       className="h-10 font-mono text-sm"
                     />
                   )}
@@ -289,12 +292,14 @@ export function EditRowDialog({
               >
                 Cancel
               </Button>
-              <Button
-                onClick={handleSave}
-                disabled={!isDirty}
-              >
-                Save Changes
-              </Button>
+              {!readOnly && (
+                <Button
+                  onClick={handleSave}
+                  disabled={!isDirty}
+                >
+                  Save Changes
+                </Button>
+              )}
             </>
           )}
         </DialogFooter>
@@ -28,9 +28,11 @@ import {
   TooltipTrigger,
 } from '@/components/ui/tooltip';
 import { MobileTableWrapper } from '@/components/ui/mobile-table-wrapper';
+import { ChartBuilder } from '@/components/charts';
 import { cn } from '@/lib/utils';
 import { useMediaQuery } from '@/hooks';
 import type {
+  ChartConfig,
   QueryResult,
   PendingChanges,
   PendingCellChange,
@@ -39,11 +41,13 @@ import type {
   ColumnFilter,
   ColumnDefinition,
 } from '@/types';
+import type { PermissionOperation } from '@/lib/validations/team';
 import { SchemaFilter, applyFilters, type ServerSearchParams } from '@/components/schema';
 import { AddRowDialog } from './add-row-dialog';
 import { EditableRowSheet } from './editable-row-sheet';
 import { EditRowDialog } from './edit-row-dialog';
 import { ExpandedCellEditor } from './expanded-cell-editor';
+import { ResultViewToggle, type ResultView } from './result-view-toggle';
 
 interface EditableResultsTableProps {
   result: QueryResult;
@@ -51,6 +55,8 @@ interface EditableResultsTableProps {
   columnDefinitions: ColumnDefinition[];
   onChangesUpdate: (changes: PendingChanges) => void;
   pendingChanges: PendingChanges;
+  /** Operations granted on the table; actions for the others are hidden. Null grants all. */
+  operations?: PermissionOperation[] | null;
   pageOffset?: number;
   // Server-side search props
   onServerSearch?: (params: ServerSearchParams | null) => void;
@@ -64,6 +70,7 @@ export function EditableResultsTable({
   columnDefinitions,
   onChangesUpdate,
   pendingChanges,
+  operations = null,
   pageOffset = 0,
   onServerSearch,
   isSearching = false,
@@ -77,11 +84,17 @@ export function EditableResultsTable({
   const [editingRowIndex, setEditingRowIndex] = React.useState<number | null>(null);
   const [editRowDialogIndex, setEditRowDialogIndex] = React.useState<number | null>(null);
   const [expandedCell, setExpandedCell] = React.useState<{ rowIndex: number; column: string; value: string; columnType?: string } | null>(null);
+  const [view, setView] = React.useState<ResultView>('grid');
+  const [chart, setChart] = React.useState<ChartConfig | null>(null);
   const tableContainerRef = React.useRef<HTMLDivElement>(null);
   const inputRef = React.useRef<HTMLInputElement>(null);
   
   const isMobile = useMediaQuery('(max-width: 767px)');
 
+  const canInsert = operations === null || operations.includes('insert');
+  const canUpdate = operations === null || operations.includes('update');
+  const canDelete = operations === null || operations.includes('delete');
+
   // Focus input when editing starts
   React.useEffect(() => {
     if (editingCell && inputRef.current) {
@@ -117,6 +130,10 @@ export function EditableResultsTable({
     [pageOffset]
   );
 
+  // Primary-key values a row was loaded with; its updates are matched on them
+  const rowKeyOf = (row: Record<string, unknown>) =>
+    Object.fromEntries(primaryKeyColumns.map((col) => [col, row[col]]));
+
   // Check if a row is marked for deletion
   const isRowDeleted = React.useCallback(
     (rowIndex: number) => {
@@ -170,7 +187,7 @@ export function EditableResultsTable({
   }, [columnDefinitions]);
 
   const handleStartEdit = (rowIndex: number, column: string, currentValue: unknown) => {
-    if (isRowDeleted(rowIndex)) return;
+    if (!canUpdate || isRowDeleted(rowIndex)) return;
     
     const colType = getColumnType(column);
     const strValue = currentValue === null ? '' : typeof currentValue === 'object' ? JSON.stringify(currentValue) : String(currentValue);
@@ -225,6 +242,7 @@ export function EditableResultsTable({
         column,
         oldValue: originalValue,
         newValue,
+        rowKey: rowKeyOf(originalRow),
       };
       onChangesUpdate({
         ...pendingChanges,
@@ -307,6 +325,7 @@ export function EditableResultsTable({
         column,
         oldValue: originalRow[column],
         newValue,
+        rowKey: rowKeyOf(originalRow),
       };
       
       onChangesUpdate({
@@ -373,6 +392,7 @@ export function EditableResultsTable({
       column,
       oldValue: originalValue,
       newValue: parsedValue,
+      rowKey: rowKeyOf(originalRow),
     };
 
     onChangesUpdate({
@@ -401,6 +421,7 @@ export function EditableResultsTable({
         column,
         oldValue: originalRow[column],
         newValue,
+        rowKey: rowKeyOf(originalRow),
       };
 
       updatedChanges.push(newChange);
@@ -546,7 +567,7 @@ export function EditableResultsTable({
             ) : (
               strValue
             )}
-            {!isDeleted && (
+            {!isDeleted && canUpdate && (
               <Pencil className="h-3 w-3 absolute right-1 top-1/2 -translate-y-1/2 opacity-0 group-hover:opacity-50" />
             )}
           </div>
@@ -580,6 +601,9 @@ export function EditableResultsTable({
         const isDeleted = isRowDeleted(rowIndex);
         const isNew = '__isNew' in row.original && row.original.__isNew;
 
+        // Pending inserts can always be dropped
+        if (!canDelete && !isNew) return null;
+
         return (
           <Button
             variant="ghost"
@@ -604,7 +628,7 @@ export function EditableResultsTable({
     };
 
     return [expandCol, ...dataCols, actionsCol];
-  }, [result.columns, primaryKeyColumns, editingCell, editValue, isRowDeleted, getCellChange, getCellDisplayValue, allRows, pendingChanges, onChangesUpdate, isMobile]);
+  }, [result.columns, primaryKeyColumns, editingCell, editValue, isRowDeleted, getCellChange, getCellDisplayValue, allRows, pendingChanges, onChangesUpdate, isMobile, canUpdate, canDelete]);
 
   const table = useReactTable({
     data: filteredRows,
@@ -634,6 +658,8 @@ export function EditableResultsTable({
       : 0;
 
   const columnNames = result.columns.map((c) => c.name);
+  // The chart plots the rows as filtered, including pending inserts
+  const chartResult = React.useMemo(() => ({ ...result, rows: filteredRows }), [result, filteredRows]);
 
   return (
     <div className="flex flex-col min-w-0 h-full">
@@ -648,76 +674,89 @@ export function EditableResultsTable({
             isSearching={isSearching}
           />
         </div>
-        <Button variant="outline" size="sm" onClick={() => setShowAddDialog(true)} className="gap-1 flex-shrink-0 h-9 touch-target">
-          <Plus className="h-3.5 w-3.5" />
-          <span className="hidden sm:inline">Add Row</span>
-          <span className="sm:hidden">Add</span>
-        </Button>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          <ResultViewToggle view={view} onViewChange={setView} />
+          {canInsert && (
+            <Button variant="outline" size="sm" onClick={() => setShowAddDialog(true)} className="gap-1 flex-shrink-0 h-9 touch-target">
+              <Plus className="h-3.5 w-3.5" />
+              <span className="hidden sm:inline">Add Row</span>
+              <span className="sm:hidden">Add</span>
+            </Button>
+          )}
+        </div>
       </div>
 
       {/* Table - Scrollable area */}
-      <MobileTableWrapper maxHeight="max-h-[300px] md:max-h-[400px]" className="flex-1 min-h-0">
-        <div ref={tableContainerRef} className="min-w-full">
-          <Table>
-            <TableHeader className="sticky top-0 bg-background z-20">
-              {table.getHeaderGroups().map((headerGroup) => (
-                <TableRow key={headerGroup.id}>
-                  {headerGroup.headers.map((header) => (
-                    <TableHead key={header.id} className="whitespace-nowrap bg-background">
-                      {header.isPlaceholder
-                        ? null
-                        : flexRender(header.column.columnDef.header, header.getContext())}
-                    </TableHead>
-                  ))}
-                </TableRow>
-              ))}
-            </TableHeader>
-            <TableBody>
-              {paddingTop > 0 && (
-                <tr>
-                  <td style={{ height: `${paddingTop}px` }} colSpan={columns.length} />
-                </tr>
-              )}
-              {virtualRows.map((virtualRow) => {
-                const row = rows[virtualRow.index];
-                const isNew = '__isNew' in row.original && row.original.__isNew === true;
-                const isDeleted = isRowDeleted(row.index);
-
-                return (
-                  <TableRow
-                    key={row.id}
-                    data-index={virtualRow.index}
-                    className={cn(
-                      isNew && 'border-l-2 border-l-green-500',
-                      isDeleted && 'opacity-60',
-                      isMobile && 'cursor-pointer active:bg-accent'
-                    )}
-                    onClick={() => handleMobileRowTap(row.index)}
-                  >
-                    {row.getVisibleCells().map((cell) => (
-                      <TableCell key={cell.id} className="font-mono text-sm md:text-sm text-xs py-1">
-                        {flexRender(cell.column.columnDef.cell, cell.getContext())}
-                      </TableCell>
+      {view === 'chart' ? (
+        <div className="flex-1 min-h-0 overflow-auto">
+          <ChartBuilder result={chartResult} config={chart} onConfigChange={setChart} />
+        </div>
+      ) : (
+        <MobileTableWrapper maxHeight="max-h-[300px] md:max-h-[400px]" className="flex-1 min-h-0">
+          <div ref={tableContainerRef} className="min-w-full">
+            <Table>
+              <TableHeader className="sticky top-0 bg-background z-20">
+                {table.getHeaderGroups().map((headerGroup) => (
+                  <TableRow key={headerGroup.id}>
+                    {headerGroup.headers.map((header) => (
+                      <TableHead key={header.id} className="whitespace-nowrap bg-background">
+                        {header.isPlaceholder
+                          ? null
+                          : flexRender(header.column.columnDef.header, header.getContext())}
+                      </TableHead>
                     ))}
                   </TableRow>
-                );
-              })}
-              {paddingBottom > 0 && (
-                <tr>
-                  <td style={{ height: `${paddingBottom}px` }} colSpan={columns.length} />
-                </tr>
-              )}
-            </TableBody>
-          </Table>
-        </div>
-      </MobileTableWrapper>
-
-      <AddRowDialog
-        open={showAddDialog}
-        onOpenChange={setShowAddDialog}
-        columns={columnDefinitions}
-        onAdd={handleAddRow}
-      />
+                ))}
+              </TableHeader>
+              <TableBody>
+                {paddingTop > 0 && (
+                  <tr>
+                    <td style={{ height: `${paddingTop}px` }} colSpan={columns.length} />
+                  </tr>
+                )}
+                {virtualRows.map((virtualRow) => {
+                  const row = rows[virtualRow.index];
+                  const isNew = '__isNew' in row.original && row.original.__isNew === true;
+                  const isDeleted = isRowDeleted(row.index);
+
+                  return (
+                    <TableRow
+                      key={row.id}
+                      data-index={virtualRow.index}
+                      className={cn(
+                        isNew && 'border-l-2 border-l-green-500',
+                        isDeleted && 'opacity-60',
+                        isMobile && 'cursor-pointer active:bg-accent'
+                      )}
+                      onClick={() => handleMobileRowTap(row.index)}
+                    >
+                      {row.getVisibleCells().map((cell) => (
+                        <TableCell key={cell.id} className="font-mono text-sm md:text-sm text-xs py-1">
+                          {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  );
+                })}
+                {paddingBottom > 0 && (
+                  <tr>
+                    <td style={{ height: `${paddingBottom}px` }} colSpan={columns.length} />
+                  </tr>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </MobileTableWrapper>
+      )}
+
+      {canInsert && (
+        <AddRowDialog
+          open={showAddDialog}
+          onOpenChange={setShowAddDialog}
+          columns={columnDefinitions}
+          onAdd={handleAddRow}
+        />
+      )}
 
       {/* Mobile Edit Sheet */}
       <EditableRowSheet
@@ -731,8 +770,9 @@ export function EditableResultsTable({
         primaryKeyColumns={primaryKeyColumns}
         onSave={handleMobileSheetSave}
         isDeleted={editingRowIndex !== null ? isRowDeleted(editingRowIndex) : false}
-        onDelete={handleMobileDelete}
+        onDelete={canDelete ? handleMobileDelete : undefined}
         onRestore={handleMobileRestore}
+        readOnly={!canUpdate}
       />
 
       {/* Desktop Edit Row Dialog */}
@@ -747,8 +787,9 @@ export function EditableResultsTable({
         primaryKeyColumns={primaryKeyColumns}
         onSave={handleEditRowDialogSave}
         isDeleted={editRowDialogIndex !== null ? isRowDeleted(editRowDialogIndex) : false}
-        onDelete={handleEditRowDialogDelete}
+        onDelete={canDelete ? handleEditRowDialogDelete : undefined}
         onRestore={handleEditRowDialogRestore}
+        readOnly={!canUpdate}
       />
 
       {/* Expanded Cell Editor for long text/JSON */}
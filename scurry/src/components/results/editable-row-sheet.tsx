@@ -27,6 +27,8 @@ interface EditableRowSheetProps {
   isDeleted?: boolean;
   onDelete?: (rowIndex: number) => void;
   onRestore?: (rowIndex: number) => void;
+  /** Show the row without letting its values be changed */
+  readOnly?: boolean;
 }
 
 export function EditableRowSheet({
@@ -40,6 +42,7 @@ export function EditableRowSheet({
   isDeleted,
   onDelete,
   onRestore,
+  readOnly = false,
 }: EditableRowSheetProps) {
   const [values, setValues] = React.useState<Record<string, string>>({});
   const [isDirty, setIsDirty] = React.useState(false);
@@ -190,7 +193,7 @@ export function EditableRowSheet({
                       value={value}
                       onChange={(e) => handleChange(col.name, e.target.value)}
                       placeholder={col.nullable ? 'NULL' : `Enter ${col.name}`}
-                      disabled={isDeleted}
+                      disabled={isDeleted || readOnly}
                       className="min-h-[100px] font-mono text-sm resize-y"
                     />
                   ) : (
@@ -199,7 +202,7 @@ export function EditableRowSheet({
                       value={value}
                       onChange={(e) => handleChange(col.name, e.target.value)}
                       placeholder={col.nullable ? 'NULL' : `Enter ${col.name}`}
-                      disabled={isDeleted}
+                      disabled={isDeleted || readOnly}
                       className="h-11 font-mono text-sm"
                     />
                   )}
@@ -251,13 +254,15 @@ export function EditableRowSheet({
               >
                 Cancel
               </Button>
-              <Button
-                onClick={handleSave}
-                disabled={!isDirty}
-                className="h-11"
-              >
-                Save Changes
-              </Button>
+              {!readOnly && (
+                <Button
+                  onClick={handleSave}
+                  disabled={!isDirty}
+                  className="h-11"
+                >
+                  Save Changes
+                </Button>
+              )}
             </>
           )}
         </SheetFooter>
@@ -5,3 +5,4 @@ export { EditRowDialog } from './edit-row-dialog';
 export { ExpandedCellEditor } from './expanded-cell-editor';
 export { PendingChangesPanel } from './pending-changes-panel';
 export { AddRowDialog } from './add-row-dialog';
+export { ScriptResults } from './script-results';
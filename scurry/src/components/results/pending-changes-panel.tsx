@@ -1,7 +1,7 @@
 'use client';
 
 import * as React from 'react';
-import { Save, X, AlertTriangle, Loader2, History, ChevronDown, ChevronUp, Code, Eye } from 'lucide-react';
+import { Save, X, AlertTriangle, Loader2, History, ChevronDown, ChevronUp, Code, Eye, Undo2, Download } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import {
@@ -32,10 +32,19 @@ import {
   TooltipTrigger,
 } from '@/components/ui/tooltip';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
 import { cn } from '@/lib/utils';
 import { usePendingChangesStore, getStoreKey, emptyChanges } from '@/lib/store/pending-changes-store';
-import type { PendingChanges, DataChangeLog, PendingCellChange, PendingRowInsert, PendingRowDelete } from '@/types';
+import type { PendingChanges, ApplyChangesMode, DataChangeSet, PendingCellChange, PendingRowInsert, PendingRowDelete } from '@/types';
 import { escapeValueForDisplay } from '@/lib/db/sql-utils';
+import { RevertChangesDialog } from './revert-changes-dialog';
 
 // SQL preview generation helpers (display only - NOT for execution)
 // These generate SQL for preview purposes. Actual execution uses parameterized queries.
@@ -73,12 +82,13 @@ function generateDeleteSqlPreview(
 interface PendingChangesPanelProps {
   currentTableName: string;
   currentConnectionId: string | null;
-  onApply: () => Promise<void>;
+  onApply: (mode: ApplyChangesMode) => Promise<void>;
   onDiscard: () => void;
   isApplying: boolean;
-  changeHistory?: DataChangeLog[];
+  changeHistory?: DataChangeSet[];
   historyLoading?: boolean;
   onLoadHistory?: () => void;
+  onChangesReverted?: () => void;
   primaryKeyColumns?: string[];
   previewData?: Record<string, unknown>[];
 }
@@ -92,6 +102,7 @@ export function PendingChangesPanel({
   changeHistory = [],
   historyLoading = false,
   onLoadHistory,
+  onChangesReverted,
   primaryKeyColumns = [],
   previewData = [],
 }: PendingChangesPanelProps) {
@@ -99,6 +110,10 @@ export function PendingChangesPanel({
   const [showDiscardDialog, setShowDiscardDialog] = React.useState(false);
   const [showAllTables, setShowAllTables] = React.useState(false);
   const [showChangesPreview, setShowChangesPreview] = React.useState(false);
+  const [skipFailedRows, setSkipFailedRows] = React.useState(false);
+  const [revertLogIds, setRevertLogIds] = React.useState<string[]>([]);
+  const [revertChangeSetId, setRevertChangeSetId] = React.useState<string | null>(null);
+  const [showRevertDialog, setShowRevertDialog] = React.useState(false);
 
   // Get store key for current table
   const currentStoreKey = currentConnectionId ? getStoreKey(currentConnectionId, currentTableName) : null;
@@ -138,7 +153,7 @@ export function PendingChangesPanel({
 
   const handleApply = async () => {
     setShowConfirmDialog(false);
-    await onApply();
+    await onApply(skipFailedRows ? 'savepoint' : 'atomic');
   };
 
   const handleDiscard = () => {
@@ -146,6 +161,34 @@ export function PendingChangesPanel({
     onDiscard();
   };
 
+  const handleRevert = (logIds: string[]) => {
+    setRevertLogIds(logIds);
+    setRevertChangeSetId(null);
+    setShowRevertDialog(true);
+  };
+
+  const handleRollbackSet = (changeSetId: string) => {
+    setRevertLogIds([]);
+    setRevertChangeSetId(changeSetId);
+    setShowRevertDialog(true);
+  };
+
+  const handleReverted = () => {
+    onLoadHistory?.();
+    onChangesReverted?.();
+  };
+
+  const revertDialog = (
+    <RevertChangesDialog
+      open={showRevertDialog}
+      onOpenChange={setShowRevertDialog}
+      connectionId={currentConnectionId}
+      logIds={revertLogIds}
+      changeSetId={revertChangeSetId}
+      onReverted={handleReverted}
+    />
+  );
+
   if (!hasCurrentTableChanges && !hasOtherChanges) {
     return (
       <div className="flex items-center justify-between py-2">
@@ -168,10 +211,14 @@ export function PendingChangesPanel({
               <ChangeHistoryList
                 history={changeHistory}
                 loading={historyLoading}
+                connectionId={currentConnectionId}
+                onRevert={handleRevert}
+                onRollbackSet={handleRollbackSet}
               />
             </SheetContent>
           </Sheet>
         )}
+        {revertDialog}
       </div>
     );
   }
@@ -223,6 +270,9 @@ export function PendingChangesPanel({
                     <ChangeHistoryList
                       history={changeHistory}
                       loading={historyLoading}
+                      connectionId={currentConnectionId}
+                      onRevert={handleRevert}
+                      onRollbackSet={handleRollbackSet}
                     />
                   </SheetContent>
                 </Sheet>
@@ -469,6 +519,22 @@ export function PendingChangesPanel({
             )}
           </div>
 
+          <div className="flex items-start gap-2">
+            <Checkbox
+              id="skip-failed-rows"
+              checked={skipFailedRows}
+              onCheckedChange={(checked) => setSkipFailedRows(checked === true)}
+            />
+            <div className="space-y-1">
+              <Label htmlFor="skip-failed-rows">Skip rows that fail</Label>
+              <p className="text-xs text-muted-foreground">
+                {skipFailedRows
+                  ? 'Failing rows are rolled back individually; all other changes are saved.'
+                  : 'Changes are applied all-or-nothing; any failing row rolls back the whole batch.'}
+              </p>
+            </div>
+          </div>
+
           <DialogFooter>
             <Button variant="outline" onClick={() => setShowConfirmDialog(false)}>
               Cancel
@@ -500,16 +566,43 @@ export function PendingChangesPanel({
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {revertDialog}
     </>
   );
 }
 
 interface ChangeHistoryListProps {
-  history: DataChangeLog[];
+  history: DataChangeSet[];
   loading: boolean;
+  connectionId: string | null;
+  onRevert?: (logIds: string[]) => void;
+  onRollbackSet?: (changeSetId: string) => void;
+}
+
+function getScriptUrl(connectionId: string, changeSetId: string, direction: 'apply' | 'rollback'): string {
+  const params = new URLSearchParams({ connectionId, direction });
+  return `/api/data/changes/sets/${changeSetId}/script?${params}`;
 }
 
-function ChangeHistoryList({ history, loading }: ChangeHistoryListProps) {
+function ChangeHistoryList({ history, loading, connectionId, onRevert, onRollbackSet }: ChangeHistoryListProps) {
+  const [selectedIds, setSelectedIds] = React.useState<Set<string>>(new Set());
+
+  // Drop selections that are no longer in the loaded history
+  React.useEffect(() => {
+    const loadedIds = new Set(history.flatMap((set) => set.changes.map((log) => log.id)));
+    setSelectedIds((prev) => new Set(Array.from(prev).filter((id) => loadedIds.has(id))));
+  }, [history]);
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center py-8">
@@ -529,57 +622,143 @@ function ChangeHistoryList({ history, loading }: ChangeHistoryListProps) {
   return (
     <ScrollArea className="h-[400px] mt-4">
       <div className="space-y-3 pr-4">
-        {history.map((log) => (
-          <div
-            key={log.id}
-            className={cn(
-              'p-3 rounded-md border text-sm',
-              log.operation === 'INSERT' && 'border-green-200 bg-green-50 dark:border-green-800 dark:bg-green-950/30',
-              log.operation === 'UPDATE' && 'border-amber-200 bg-amber-50 dark:border-amber-800 dark:bg-amber-950/30',
-              log.operation === 'DELETE' && 'border-red-200 bg-red-50 dark:border-red-800 dark:bg-red-950/30'
-            )}
-          >
-            <div className="flex items-center justify-between mb-2">
-              <Badge
-                variant="outline"
-                className={cn(
-                  log.operation === 'INSERT' && 'bg-green-100 text-green-800 border-green-300',
-                  log.operation === 'UPDATE' && 'bg-amber-100 text-amber-800 border-amber-300',
-                  log.operation === 'DELETE' && 'bg-red-100 text-red-800 border-red-300'
+        {onRevert && selectedIds.size > 0 && (
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-muted-foreground">{selectedIds.size} selected</span>
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-1"
+              onClick={() => onRevert(Array.from(selectedIds))}
+            >
+              <Undo2 className="h-3.5 w-3.5" />
+              Revert Selected
+            </Button>
+          </div>
+        )}
+        {history.map((set) => (
+          <div key={set.id} className="space-y-2 rounded-md border p-2">
+            <div className="flex items-start justify-between gap-2 px-1">
+              <div className="min-w-0 space-y-0.5">
+                <div className="text-sm font-medium truncate">
+                  {set.user?.name || set.user?.email || 'Unknown user'}
+                </div>
+                <div className="text-xs text-muted-foreground truncate">
+                  {set.connectionName ?? 'Connection'} · {set.tableNames.join(', ')} · {set.appliedAt.toLocaleString()}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {[
+                    set.insertCount > 0 && `${set.insertCount} inserted`,
+                    set.updateCount > 0 && `${set.updateCount} updated`,
+                    set.deleteCount > 0 && `${set.deleteCount} deleted`,
+                  ].filter(Boolean).join(', ')}
+                </div>
+              </div>
+              <div className="flex items-center gap-1 flex-shrink-0">
+                {connectionId && (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" size="icon" className="h-7 w-7" title="Export as SQL">
+                        <Download className="h-3.5 w-3.5" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem asChild>
+                        <a href={getScriptUrl(connectionId, set.id, 'apply')} download>
+                          Export SQL script
+                        </a>
+                      </DropdownMenuItem>
+                      <DropdownMenuItem asChild>
+                        <a href={getScriptUrl(connectionId, set.id, 'rollback')} download>
+                          Export rollback script
+                        </a>
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                )}
+                {onRollbackSet && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 gap-1"
+                    onClick={() => onRollbackSet(set.id)}
+                  >
+                    <Undo2 className="h-3.5 w-3.5" />
+                    Roll Back
+                  </Button>
                 )}
-              >
-                {log.operation}
-              </Badge>
-              <span className="text-xs text-muted-foreground">
-                {log.appliedAt.toLocaleString()}
-              </span>
-            </div>
-            {log.user && (
-              <div className="text-xs text-muted-foreground mb-1">
-                By: {log.user.name || log.user.email}
               </div>
-            )}
-            {log.operation === 'UPDATE' && log.oldValues && log.newValues && (
-              <div className="text-xs font-mono space-y-1">
-                {Object.keys(log.newValues).map((key) => (
-                  <div key={key}>
-                    <span className="text-muted-foreground">{key}:</span>{' '}
-                    <span className="text-red-600 line-through">{String(log.oldValues![key])}</span>{' → '}
-                    <span className="text-green-600">{String(log.newValues![key])}</span>
+            </div>
+              {set.changes.map((log) => (
+                <div
+                  key={log.id}
+                  className={cn(
+                    'p-3 rounded-md border text-sm',
+                    log.operation === 'INSERT' && 'border-green-200 bg-green-50 dark:border-green-800 dark:bg-green-950/30',
+                    log.operation === 'UPDATE' && 'border-amber-200 bg-amber-50 dark:border-amber-800 dark:bg-amber-950/30',
+                    log.operation === 'DELETE' && 'border-red-200 bg-red-50 dark:border-red-800 dark:bg-red-950/30'
+                  )}
+                >
+                  <div className="flex items-center justify-between mb-2">
+                    <div className="flex items-center gap-2">
+                      {onRevert && (
+                        <Checkbox
+                          checked={selectedIds.has(log.id)}
+                          onCheckedChange={(checked) => toggleSelected(log.id, checked === true)}
+                          aria-label="Select change"
+                        />
+                      )}
+                      <Badge
+                        variant="outline"
+                        className={cn(
+                          log.operation === 'INSERT' && 'bg-green-100 text-green-800 border-green-300',
+                          log.operation === 'UPDATE' && 'bg-amber-100 text-amber-800 border-amber-300',
+                          log.operation === 'DELETE' && 'bg-red-100 text-red-800 border-red-300'
+                        )}
+                      >
+                        {log.operation}
+                      </Badge>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <span className="text-xs text-muted-foreground">
+                        {log.appliedAt.toLocaleString()}
+                      </span>
+                      {onRevert && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          onClick={() => onRevert([log.id])}
+                          title="Revert this change"
+                        >
+                          <Undo2 className="h-3 w-3" />
+                        </Button>
+                      )}
+                    </div>
                   </div>
-                ))}
-              </div>
-            )}
-            {log.operation === 'INSERT' && log.newValues && (
-              <div className="text-xs font-mono truncate">
-                {JSON.stringify(log.newValues)}
-              </div>
-            )}
-            {log.operation === 'DELETE' && log.oldValues && (
-              <div className="text-xs font-mono truncate">
-                {JSON.stringify(log.oldValues)}
-              </div>
-            )}
+                  {log.operation === 'UPDATE' && log.oldValues && log.newValues && (
+                    <div className="text-xs font-mono space-y-1">
+                      {Object.keys(log.newValues).map((key) => (
+                        <div key={key}>
+                          <span className="text-muted-foreground">{key}:</span>{' '}
+                          <span className="text-red-600 line-through">{String(log.oldValues![key])}</span>{' → '}
+                          <span className="text-green-600">{String(log.newValues![key])}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {log.operation === 'INSERT' && log.newValues && (
+                    <div className="text-xs font-mono truncate">
+                      {JSON.stringify(log.newValues)}
+                    </div>
+                  )}
+                  {log.operation === 'DELETE' && log.oldValues && (
+                    <div className="text-xs font-mono truncate">
+                      {JSON.stringify(log.oldValues)}
+                    </div>
+                  )}
+                </div>
+              ))}
           </div>
         ))}
       </div>
@@ -0,0 +1,35 @@
+'use client';
+
+import { ChartLine, Table2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+
+export type ResultView = 'grid' | 'chart';
+
+interface ResultViewToggleProps {
+  view: ResultView;
+  onViewChange: (view: ResultView) => void;
+}
+
+export function ResultViewToggle({ view, onViewChange }: ResultViewToggleProps) {
+  return (
+    <div className="inline-flex rounded-md border p-0.5">
+      {([
+        ['grid', Table2, 'Grid'],
+        ['chart', ChartLine, 'Chart'],
+      ] as const).map(([value, Icon, label]) => (
+        <Button
+          key={value}
+          variant="ghost"
+          size="sm"
+          className={cn('h-7 px-2 gap-1', view === value && 'bg-muted')}
+          onClick={() => onViewChange(value)}
+          aria-pressed={view === value}
+        >
+          <Icon className="h-3.5 w-3.5" />
+          {label}
+        </Button>
+      ))}
+    </div>
+  );
+}
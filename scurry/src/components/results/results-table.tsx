@@ -27,11 +27,16 @@ import {
   TooltipTrigger,
 } from '@/components/ui/tooltip';
 import { MobileTableWrapper } from '@/components/ui/mobile-table-wrapper';
+import { ChartBuilder } from '@/components/charts';
 import { cn } from '@/lib/utils';
-import type { QueryResult } from '@/types';
+import type { ChartConfig, QueryResult } from '@/types';
+import { ResultViewToggle, type ResultView } from './result-view-toggle';
 
 interface ResultsTableProps {
   result: QueryResult;
+  // Offers a chart view beside the grid when set
+  chart?: ChartConfig | null;
+  onChartChange?: (config: ChartConfig | null) => void;
 }
 
 // PERF-007: Track copied cell state globally to avoid re-renders
@@ -40,8 +45,9 @@ const CopiedCellContext = React.createContext<{
   setCopiedCell: (cellId: string | null) => void;
 }>({ copiedCell: null, setCopiedCell: () => {} });
 
-export const ResultsTable = React.memo(function ResultsTable({ result }: ResultsTableProps) {
+export const ResultsTable = React.memo(function ResultsTable({ result, chart = null, onChartChange }: ResultsTableProps) {
   const [sorting, setSorting] = React.useState<SortingState>([]);
+  const [view, setView] = React.useState<ResultView>(chart ? 'chart' : 'grid');
   const [copiedCell, setCopiedCell] = React.useState<string | null>(null);
   const tableContainerRef = React.useRef<HTMLDivElement>(null);
 
@@ -116,54 +122,59 @@ export const ResultsTable = React.memo(function ResultsTable({ result }: Results
   return (
     <CopiedCellContext.Provider value={copiedCellContextValue}>
       <div className="space-y-2 min-w-0">
-        <MobileTableWrapper maxHeight="max-h-[350px] md:max-h-[500px]">
-          <div ref={tableContainerRef} className="min-w-full">
-            <Table>
-              <TableHeader className="sticky top-0 bg-background z-20">
-                {table.getHeaderGroups().map((headerGroup) => (
-                  <TableRow key={headerGroup.id}>
-                    {headerGroup.headers.map((header) => (
-                      <TableHead key={header.id} className="whitespace-nowrap bg-background">
-                        {header.isPlaceholder
-                          ? null
-                          : flexRender(header.column.columnDef.header, header.getContext())}
-                      </TableHead>
-                    ))}
-                  </TableRow>
-                ))}
-              </TableHeader>
-              <TableBody>
-                {paddingTop > 0 && (
-                  <tr>
-                    <td style={{ height: `${paddingTop}px` }} colSpan={columns.length} />
-                  </tr>
-                )}
-                {virtualRows.map((virtualRow) => {
-                  const row = rows[virtualRow.index];
-                  return (
-                    <TableRow key={row.id} data-index={virtualRow.index}>
-                      {row.getVisibleCells().map((cell) => (
-                        <TableCell key={cell.id} className="font-mono text-sm md:text-sm text-xs">
-                          {flexRender(cell.column.columnDef.cell, cell.getContext())}
-                        </TableCell>
+        {onChartChange && view === 'chart' ? (
+          <ChartBuilder result={result} config={chart} onConfigChange={onChartChange} />
+        ) : (
+          <MobileTableWrapper maxHeight="max-h-[350px] md:max-h-[500px]">
+            <div ref={tableContainerRef} className="min-w-full">
+              <Table>
+                <TableHeader className="sticky top-0 bg-background z-20">
+                  {table.getHeaderGroups().map((headerGroup) => (
+                    <TableRow key={headerGroup.id}>
+                      {headerGroup.headers.map((header) => (
+                        <TableHead key={header.id} className="whitespace-nowrap bg-background">
+                          {header.isPlaceholder
+                            ? null
+                            : flexRender(header.column.columnDef.header, header.getContext())}
+                        </TableHead>
                       ))}
                     </TableRow>
-                  );
-                })}
-                {paddingBottom > 0 && (
-                  <tr>
-                    <td style={{ height: `${paddingBottom}px` }} colSpan={columns.length} />
-                  </tr>
-                )}
-              </TableBody>
-            </Table>
-          </div>
-        </MobileTableWrapper>
+                  ))}
+                </TableHeader>
+                <TableBody>
+                  {paddingTop > 0 && (
+                    <tr>
+                      <td style={{ height: `${paddingTop}px` }} colSpan={columns.length} />
+                    </tr>
+                  )}
+                  {virtualRows.map((virtualRow) => {
+                    const row = rows[virtualRow.index];
+                    return (
+                      <TableRow key={row.id} data-index={virtualRow.index}>
+                        {row.getVisibleCells().map((cell) => (
+                          <TableCell key={cell.id} className="font-mono text-sm md:text-sm text-xs">
+                            {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    );
+                  })}
+                  {paddingBottom > 0 && (
+                    <tr>
+                      <td style={{ height: `${paddingBottom}px` }} colSpan={columns.length} />
+                    </tr>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </MobileTableWrapper>
+        )}
 
         <div className="flex items-center justify-between px-2">
           <div className="text-sm text-muted-foreground">
             Showing {result.rows.length} of {result.rowCount} rows
           </div>
+          {onChartChange && <ResultViewToggle view={view} onViewChange={setView} />}
         </div>
       </div>
     </CopiedCellContext.Provider>
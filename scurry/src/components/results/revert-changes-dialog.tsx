@@ -0,0 +1,193 @@
+'use client';
+
+import * as React from 'react';
+import { Loader2, Undo2, AlertTriangle } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { cn } from '@/lib/utils';
+import type { RevertResult } from '@/types';
+
+interface RevertChangesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  connectionId: string | null;
+  logIds: string[];
+  /** Revert a whole change set instead of the listed entries */
+  changeSetId?: string | null;
+  onReverted?: () => void;
+}
+
+async function requestRevert(
+  connectionId: string,
+  target: { logIds: string[]; changeSetId?: string | null },
+  options: { dryRun: boolean; force: boolean }
+): Promise<RevertResult> {
+  const body = target.changeSetId
+    ? { connectionId, changeSetId: target.changeSetId, ...options }
+    : { connectionId, logIds: target.logIds, ...options };
+
+  const response = await fetch('/api/data/changes/revert', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || 'Failed to revert changes');
+  }
+  return result;
+}
+
+export function RevertChangesDialog({
+  open,
+  onOpenChange,
+  connectionId,
+  logIds,
+  changeSetId,
+  onReverted,
+}: RevertChangesDialogProps) {
+  const [preview, setPreview] = React.useState<RevertResult | null>(null);
+  const [loading, setLoading] = React.useState(false);
+  const [reverting, setReverting] = React.useState(false);
+
+  React.useEffect(() => {
+    if (!open || !connectionId || (logIds.length === 0 && !changeSetId)) {
+      setPreview(null);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    requestRevert(connectionId, { logIds, changeSetId }, { dryRun: true, force: false })
+      .then((result) => {
+        if (!cancelled) setPreview(result);
+      })
+      .catch((error) => {
+        if (!cancelled) {
+          toast.error('Failed to preview revert', {
+            description: error instanceof Error ? error.message : 'Unknown error',
+          });
+          onOpenChange(false);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, connectionId, logIds, changeSetId, onOpenChange]);
+
+  const steps = preview?.steps ?? [];
+  const hasBlockingIssue = (preview?.errors.length ?? 0) > 0
+    || steps.some((step) => step.error || (step.conflict && step.conflict.type !== 'modified'));
+  const hasModifiedRows = steps.some((step) => step.conflict?.type === 'modified');
+
+  const handleRevert = async (force: boolean) => {
+    if (!connectionId) return;
+
+    setReverting(true);
+    try {
+      const result = await requestRevert(connectionId, { logIds, changeSetId }, { dryRun: false, force });
+      if (!result.success) {
+        setPreview(result);
+        toast.error('Nothing was reverted', {
+          description: result.errors.join('\n'),
+        });
+        return;
+      }
+
+      toast.success(`Reverted ${result.revertedCount} change${result.revertedCount !== 1 ? 's' : ''}`);
+      onOpenChange(false);
+      onReverted?.();
+    } catch (error) {
+      toast.error('Failed to revert changes', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      });
+    } finally {
+      setReverting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{changeSetId ? 'Roll Back Change Set' : 'Revert Changes'}</DialogTitle>
+          <DialogDescription>
+            The following statements undo {changeSetId ? 'every change in this change set' : `${logIds.length} logged change${logIds.length !== 1 ? 's' : ''}`}.
+            They run in a single transaction, newest change first.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <ScrollArea className="max-h-[400px]">
+            <div className="space-y-3 pr-4">
+              {preview?.errors.map((error) => (
+                <div key={error} className="text-sm text-destructive">{error}</div>
+              ))}
+              {steps.map((step) => (
+                <div
+                  key={step.logId}
+                  className={cn(
+                    'p-3 rounded-md border text-sm space-y-2',
+                    (step.error || step.conflict) && 'border-amber-300 bg-amber-50 dark:border-amber-800 dark:bg-amber-950/30'
+                  )}
+                >
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">{step.originalOperation}</Badge>
+                    <span className="text-xs text-muted-foreground">undone by</span>
+                    <Badge variant="outline">{step.operation}</Badge>
+                    <span className="font-mono text-xs truncate">{step.tableName}</span>
+                  </div>
+                  {step.sql && (
+                    <pre className="text-xs font-mono whitespace-pre-wrap break-all bg-muted rounded p-2">{step.sql}</pre>
+                  )}
+                  {(step.error || step.conflict) && (
+                    <div className="flex items-start gap-2 text-xs text-amber-700 dark:text-amber-400">
+                      <AlertTriangle className="h-3.5 w-3.5 flex-shrink-0 mt-0.5" />
+                      <span>{step.error || step.conflict?.message}</span>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={reverting}>
+            Cancel
+          </Button>
+          {hasModifiedRows && !hasBlockingIssue ? (
+            <Button variant="destructive" onClick={() => handleRevert(true)} disabled={loading || reverting}>
+              {reverting ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Undo2 className="h-4 w-4 mr-1" />}
+              Revert Anyway
+            </Button>
+          ) : (
+            <Button onClick={() => handleRevert(false)} disabled={loading || reverting || hasBlockingIssue || !preview}>
+              {reverting ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Undo2 className="h-4 w-4 mr-1" />}
+              Revert
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
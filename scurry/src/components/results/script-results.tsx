@@ -0,0 +1,132 @@
+'use client';
+
+import * as React from 'react';
+import { AlertCircle, CheckCircle, CircleSlash, RotateCcw, Square, XCircle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { ResultsTable } from './results-table';
+import type { ScriptResult, ScriptStatementResult, ScriptStatementStatus } from '@/types';
+
+interface ScriptResultsProps {
+  script: ScriptResult;
+}
+
+const STATUS_ICONS: Record<ScriptStatementStatus, React.ComponentType<{ className?: string }>> = {
+  success: CheckCircle,
+  error: XCircle,
+  cancelled: Square,
+  skipped: CircleSlash,
+  rolled_back: RotateCcw,
+};
+
+const STATUS_COLORS: Record<ScriptStatementStatus, string> = {
+  success: 'text-green-500',
+  error: 'text-destructive',
+  cancelled: 'text-muted-foreground',
+  skipped: 'text-muted-foreground',
+  rolled_back: 'text-amber-600 dark:text-amber-400',
+};
+
+function isAffectedRowsResult(statement: ScriptStatementResult): boolean {
+  const columns = statement.result?.columns ?? [];
+  return columns.length === 1 && columns[0].name === 'affected_rows';
+}
+
+function statementSummary(statement: ScriptStatementResult): string {
+  const result = statement.result;
+  if (!result) return 'Not run';
+  if (result.cancelled) return 'Cancelled';
+  if (result.error) return 'Error';
+  if (isAffectedRowsResult(statement)) {
+    const affected = Number(result.rows[0]?.affected_rows ?? 0);
+    return `${affected} affected`;
+  }
+  return `${result.rowCount} ${result.rowCount === 1 ? 'row' : 'rows'}`;
+}
+
+export function ScriptResults({ script }: ScriptResultsProps) {
+  // Open on the first failure, otherwise on the last statement that ran
+  const initialIndex = React.useMemo(() => {
+    const failed = script.statements.find((statement) => statement.status === 'error' || statement.status === 'cancelled');
+    if (failed) return failed.index;
+    const ran = script.statements.filter((statement) => statement.result);
+    return ran[ran.length - 1]?.index ?? 0;
+  }, [script]);
+
+  const [selectedIndex, setSelectedIndex] = React.useState(initialIndex);
+  React.useEffect(() => {
+    setSelectedIndex(initialIndex);
+  }, [initialIndex]);
+
+  const selected = script.statements[selectedIndex] ?? script.statements[0];
+  const succeeded = script.statements.filter((statement) => statement.status === 'success').length;
+
+  return (
+    <div className="flex flex-col gap-3 h-full min-h-0">
+      <div className="flex items-center gap-2 flex-wrap text-xs text-muted-foreground">
+        <span>
+          {succeeded} of {script.statements.length} statements succeeded in {script.executionTime}ms
+        </span>
+        {script.transaction && <Badge variant="outline" className="text-xs">Transaction</Badge>}
+        {script.error && (
+          <span className="text-destructive flex items-center gap-1">
+            <AlertCircle className="h-3 w-3" />
+            {script.error}
+          </span>
+        )}
+      </div>
+
+      {/* Statement tab strip */}
+      <div className="flex gap-1 overflow-x-auto border-b pb-1 flex-shrink-0">
+        {script.statements.map((statement) => {
+          const Icon = STATUS_ICONS[statement.status];
+          return (
+            <button
+              key={statement.index}
+              type="button"
+              onClick={() => setSelectedIndex(statement.index)}
+              title={statement.sql}
+              className={cn(
+                'flex items-center gap-1.5 px-2.5 py-1 rounded-md text-xs whitespace-nowrap flex-shrink-0',
+                statement.index === selected?.index ? 'bg-muted font-medium' : 'hover:bg-muted/50'
+              )}
+            >
+              <Icon className={cn('h-3 w-3', STATUS_COLORS[statement.status])} />
+              <span>#{statement.index + 1}</span>
+              <span className="text-muted-foreground">{statementSummary(statement)}</span>
+            </button>
+          );
+        })}
+      </div>
+
+      {selected && (
+        <div className="flex flex-col gap-2 flex-1 min-h-0">
+          <pre className="text-xs font-mono text-muted-foreground bg-muted/50 rounded px-2 py-1.5 whitespace-pre-wrap max-h-24 overflow-auto flex-shrink-0">
+            {selected.sql}
+          </pre>
+
+          {selected.status === 'rolled_back' && (
+            <p className="text-xs text-amber-600 dark:text-amber-400 flex items-center gap-1">
+              <RotateCcw className="h-3 w-3" />
+              This statement ran, but the transaction was rolled back.
+            </p>
+          )}
+
+          {!selected.result ? (
+            <p className="text-sm text-muted-foreground">
+              This statement was not run because an earlier statement stopped the script.
+            </p>
+          ) : selected.result.error ? (
+            <pre className="text-sm font-mono whitespace-pre-wrap text-destructive border border-destructive rounded-md p-3">
+              {selected.result.error}
+            </pre>
+          ) : (
+            <div className="flex-1 min-h-0">
+              <ResultsTable result={selected.result} />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -34,14 +34,20 @@ import type {
   IndexInfo,
   QueryResult,
   DataChangeLog,
+  DataChangeSet,
   PendingChanges,
+  ApplyChangesMode,
+  ApplyChangesResult,
 } from '@/types';
+import type { PermissionOperation } from '@/lib/validations/team';
 import type { ServerSearchParams } from './schema-filter';
 
 interface TableStructureProps {
   tableName: string;
   columns: ColumnDefinition[];
   indexes: IndexInfo[];
+  /** Operations granted on the table; null when all are */
+  operations?: PermissionOperation[] | null;
   preview: QueryResult | null;
   loading: boolean;
   previewLoading: boolean;
@@ -55,6 +61,7 @@ export function TableStructure({
   tableName,
   columns,
   indexes,
+  operations,
   preview,
   loading,
   previewLoading,
@@ -65,7 +72,7 @@ export function TableStructure({
 }: TableStructureProps) {
   const [activeTab, setActiveTab] = React.useState('data');
   const [isApplying, setIsApplying] = React.useState(false);
-  const [changeHistory, setChangeHistory] = React.useState<DataChangeLog[]>([]);
+  const [changeHistory, setChangeHistory] = React.useState<DataChangeSet[]>([]);
   const [historyLoading, setHistoryLoading] = React.useState(false);
   const [currentPage, setCurrentPage] = React.useState(1);
   const [rowsPerPage, setRowsPerPage] = React.useState(25);
@@ -222,7 +229,7 @@ export function TableStructure({
     [connectionId, tableName, primaryKeyColumns, setChangesForTable]
   );
 
-  const handleApplyChanges = async () => {
+  const handleApplyChanges = async (mode: ApplyChangesMode) => {
     if (!connectionId) {
       toast.error('No connection selected');
       return;
@@ -243,30 +250,48 @@ export function TableStructure({
           tableName,
           primaryKeyColumns,
           changes: pendingChanges,
+          mode,
+          teamId,
         }),
       });
 
-      const result = await response.json();
+      const result: ApplyChangesResult & { error?: string } = await response.json();
 
       if (!response.ok) {
         throw new Error(result.error || 'Failed to apply changes');
       }
 
+      const messages: string[] = [];
+      if (result.insertedCount > 0) messages.push(`${result.insertedCount} inserted`);
+      if (result.updatedCount > 0) messages.push(`${result.updatedCount} updated`);
+      if (result.deletedCount > 0) messages.push(`${result.deletedCount} deleted`);
+
       if (result.success) {
-        const messages: string[] = [];
-        if (result.insertedCount > 0) messages.push(`${result.insertedCount} inserted`);
-        if (result.updatedCount > 0) messages.push(`${result.updatedCount} updated`);
-        if (result.deletedCount > 0) messages.push(`${result.deletedCount} deleted`);
-        
         toast.success('Changes applied successfully', {
           description: messages.join(', '),
         });
         
         clearChangesForTable(connectionId, tableName);
         onRefreshPreview();
+      } else if (result.rolledBack) {
+        toast.error('No changes were applied', {
+          description: result.errors.join('\n'),
+        });
       } else {
-        toast.error('Some changes failed', {
-          description: result.errors.join(', '),
+        // Savepoint mode: keep only the rows that failed so they can be fixed and retried
+        const failedRows = new Set(
+          result.failures.filter((f) => f.rowIndex !== undefined).map((f) => `${f.operation}:${f.rowIndex}`)
+        );
+        const failedInserts = new Set(result.failures.map((f) => f.tempId).filter(Boolean));
+        setChangesForTable(connectionId, tableName, primaryKeyColumns, {
+          updates: pendingChanges.updates.filter((u) => failedRows.has(`UPDATE:${u.rowIndex}`)),
+          inserts: pendingChanges.inserts.filter((i) => failedInserts.has(i.tempId)),
+          deletes: pendingChanges.deletes.filter((d) => failedRows.has(`DELETE:${d.rowIndex}`)),
+        });
+        onRefreshPreview();
+
+        toast.warning(`${result.failures.length} change${result.failures.length !== 1 ? 's' : ''} failed`, {
+          description: [messages.join(', '), ...result.errors].filter(Boolean).join('\n'),
         });
       }
     } catch (error) {
@@ -290,19 +315,24 @@ export function TableStructure({
     setHistoryLoading(true);
     try {
       const response = await fetch(
-        `/api/data/changes/history?connectionId=${connectionId}&tableName=${encodeURIComponent(tableName)}&limit=50`
+        `/api/data/changes/sets?connectionId=${connectionId}&tableName=${encodeURIComponent(tableName)}&limit=20`
       );
       
       if (!response.ok) {
         throw new Error('Failed to load history');
       }
 
-      const logs = await response.json();
-      const parsedLogs = logs.map((log: DataChangeLog) => ({
-        ...log,
-        appliedAt: new Date(log.appliedAt),
+      const sets = await response.json();
+      const parsedSets = sets.map((set: DataChangeSet) => ({
+        ...set,
+        startedAt: new Date(set.startedAt),
+        appliedAt: new Date(set.appliedAt),
+        changes: set.changes.map((log: DataChangeLog) => ({
+          ...log,
+          appliedAt: new Date(log.appliedAt),
+        })),
       }));
-      setChangeHistory(parsedLogs);
+      setChangeHistory(parsedSets);
     } catch (error) {
       toast.error('Failed to load change history');
       console.error(error);
@@ -512,6 +542,7 @@ export function TableStructure({
                     changeHistory={changeHistory}
                     historyLoading={historyLoading}
                     onLoadHistory={handleLoadHistory}
+                    onChangesReverted={onRefreshPreview}
                     primaryKeyColumns={primaryKeyColumns}
                     previewData={displayData?.rows as Record<string, unknown>[] ?? []}
                   />
@@ -526,6 +557,7 @@ export function TableStructure({
                       columnDefinitions={columns}
                       onChangesUpdate={handleChangesUpdate}
                       pendingChanges={pendingChanges}
+                      operations={operations}
                       pageOffset={startIndex}
                       onServerSearch={handleServerSearch}
                       isSearching={isSearching}
@@ -7,3 +7,4 @@ export { SyncQueue } from './sync-queue';
 export { ResizablePanels } from './resizable-panels';
 export { SyncConfigDialog } from './sync-config-dialog';
 export { ComparisonSummary } from './comparison-summary';
+export { SyncTemplatesSheet } from './sync-templates-sheet';
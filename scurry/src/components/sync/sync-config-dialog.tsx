@@ -6,6 +6,7 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Label } from '@/components/ui/label';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
 import {
   Dialog,
   DialogContent,
@@ -15,7 +16,7 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { cn } from '@/lib/utils';
-import type { SyncScope, SyncContent, ComparisonPanel } from '@/types/sync';
+import type { SyncScope, SyncContent, SyncPreview, ComparisonPanel } from '@/types/sync';
 
 interface SyncConfigDialogProps {
   open: boolean;
@@ -25,9 +26,13 @@ interface SyncConfigDialogProps {
   selectedRowCount: number;
   canSync: boolean;
   blockedReason?: string;
+  teamId?: string | null;
   onExecute: (config: {
     scope: SyncScope;
     content: SyncContent;
+    allowDestructive: boolean;
+    mirror: boolean;
+    confirmTableName?: string;
   }) => void;
   isExecuting?: boolean;
 }
@@ -40,12 +45,24 @@ export function SyncConfigDialog({
   selectedRowCount,
   canSync,
   blockedReason,
+  teamId,
   onExecute,
   isExecuting = false,
 }: SyncConfigDialogProps) {
   const [scope, setScope] = React.useState<SyncScope>('selected');
   const [includeStructure, setIncludeStructure] = React.useState(false);
   const [showPreview, setShowPreview] = React.useState(false);
+  const [structurePreview, setStructurePreview] = React.useState<SyncPreview | null>(null);
+  const [previewLoading, setPreviewLoading] = React.useState(false);
+  const [previewError, setPreviewError] = React.useState<string | null>(null);
+  const [allowDestructive, setAllowDestructive] = React.useState(false);
+  const [mirror, setMirror] = React.useState(false);
+  const [mirrorConfirmation, setMirrorConfirmation] = React.useState('');
+
+  const sourceConnectionId = sourcePanel?.connectionId;
+  const targetConnectionId = targetPanel?.connectionId;
+  const sourceTableName = sourcePanel?.tableName;
+  const targetTableName = targetPanel?.tableName;
 
   // Reset state when dialog opens
   React.useEffect(() => {
@@ -55,15 +72,79 @@ export function SyncConfigDialog({
       const isCreatingNewTable = !targetPanel?.tableName;
       setIncludeStructure(isCreatingNewTable);
       setShowPreview(false);
+      setAllowDestructive(false);
+      setMirror(false);
+      setMirrorConfirmation('');
     }
   }, [open, selectedRowCount, targetPanel?.tableName]);
 
+  // Preview the structure steps whenever structure sync is enabled
+  React.useEffect(() => {
+    const tableMismatch = targetTableName && targetTableName !== sourceTableName;
+    if (!open || !includeStructure || !canSync || tableMismatch ||
+        !sourceConnectionId || !targetConnectionId || !sourceTableName) {
+      setStructurePreview(null);
+      setPreviewError(null);
+      return;
+    }
+
+    let cancelled = false;
+    setPreviewLoading(true);
+    setPreviewError(null);
+
+    fetch('/api/sync/preview', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        sourceConnectionId,
+        targetConnectionId,
+        tableName: sourceTableName,
+        scope: 'table',
+        content: 'structure',
+        teamId: teamId || undefined,
+      }),
+    })
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to preview structure changes');
+        }
+        if (!cancelled) setStructurePreview(data);
+      })
+      .catch((error) => {
+        if (!cancelled) {
+          setPreviewError(error instanceof Error ? error.message : 'Failed to preview structure changes');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setPreviewLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, includeStructure, canSync, sourceConnectionId, targetConnectionId, sourceTableName, targetTableName, teamId]);
+
   const content: SyncContent = includeStructure ? 'both' : 'data';
 
+  // Mirror mode only applies to a whole-table sync into an existing table
+  const isMirroring = mirror && scope === 'table' && !!targetPanel?.tableName;
+  const isMirrorConfirmed = !isMirroring || mirrorConfirmation === sourcePanel?.tableName;
+
   const handleExecute = () => {
-    onExecute({ scope, content });
+    onExecute({
+      scope,
+      content,
+      allowDestructive: includeStructure && allowDestructive,
+      mirror: isMirroring,
+      confirmTableName: isMirroring ? mirrorConfirmation : undefined,
+    });
   };
 
+  const hasDestructiveSteps = structurePreview?.structureChanges.some(
+    (change) => change.destructive && change.sql.length > 0
+  ) ?? false;
+
   if (!sourcePanel || !targetPanel) {
     return null;
   }
@@ -246,6 +327,43 @@ export function SyncConfigDialog({
                 </div>
               </div>
 
+              {/* Mirror Mode */}
+              {scope === 'table' && !isCreatingTable && (
+                <div className="space-y-3">
+                  <div className="flex items-start space-x-3">
+                    <Checkbox
+                      id="mirror-mode"
+                      checked={mirror}
+                      onCheckedChange={(checked) => setMirror(checked === true)}
+                      className="mt-0.5"
+                    />
+                    <div>
+                      <Label htmlFor="mirror-mode" className="cursor-pointer">
+                        Mirror (delete rows missing from the source)
+                      </Label>
+                      <p className="text-xs text-muted-foreground">
+                        Rows that only exist in the target are deleted. The whole sync runs in one transaction.
+                      </p>
+                    </div>
+                  </div>
+
+                  {mirror && (
+                    <div className="p-3 rounded-lg border border-red-200 bg-red-50 dark:border-red-800 dark:bg-red-950/30 space-y-2">
+                      <p className="text-sm text-red-600 dark:text-red-400">
+                        To confirm, type <span className="font-mono font-semibold">{sourcePanel.tableName}</span> below:
+                      </p>
+                      <Input
+                        placeholder={sourcePanel.tableName ?? undefined}
+                        value={mirrorConfirmation}
+                        onChange={(e) => setMirrorConfirmation(e.target.value)}
+                        className="font-mono"
+                        autoFocus
+                      />
+                    </div>
+                  )}
+                </div>
+              )}
+
               {/* Warning for structure sync */}
               {includeStructure && (
                 <div className="p-3 rounded-lg border border-amber-200 bg-amber-50 dark:border-amber-800 dark:bg-amber-950/30">
@@ -255,13 +373,84 @@ export function SyncConfigDialog({
                       <p className="font-medium text-amber-700 dark:text-amber-300">Structure Sync Warning</p>
                       <p className="text-sm text-amber-600 dark:text-amber-400">
                         Structure synchronization may alter table columns and indexes.
-                        This is a destructive operation that cannot be undone easily.
+                        Steps marked destructive only run when you allow them below.
                       </p>
                     </div>
                   </div>
                 </div>
               )}
 
+              {/* Structure Preview */}
+              {includeStructure && (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label className="text-sm font-medium">Structure Changes</Label>
+                    {structurePreview && structurePreview.sql.length > 0 && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 text-xs"
+                        onClick={() => setShowPreview(!showPreview)}
+                      >
+                        {showPreview ? 'Hide SQL' : 'Show SQL'}
+                      </Button>
+                    )}
+                  </div>
+
+                  {previewLoading ? (
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                      Comparing structure...
+                    </div>
+                  ) : previewError ? (
+                    <p className="text-sm text-red-600 dark:text-red-400">{previewError}</p>
+                  ) : structurePreview && !structurePreview.canExecute ? (
+                    <p className="text-sm text-red-600 dark:text-red-400">{structurePreview.blockedReason}</p>
+                  ) : structurePreview && structurePreview.structureChanges.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">The target structure already matches the source.</p>
+                  ) : structurePreview && (
+                    <ul className="max-h-48 overflow-y-auto rounded-lg border divide-y text-sm">
+                      {structurePreview.structureChanges.map((change, index) => (
+                        <li key={`${change.kind}-${change.name}-${index}`} className="p-2 space-y-1">
+                          <div className="flex items-start justify-between gap-2">
+                            <span>{change.description}</span>
+                            {change.sql.length === 0 ? (
+                              <Badge variant="outline" className="text-xs">Not supported</Badge>
+                            ) : change.destructive && (
+                              <Badge variant="destructive" className="text-xs">Destructive</Badge>
+                            )}
+                          </div>
+                          {change.warning && (
+                            <p className="text-xs text-muted-foreground">{change.warning}</p>
+                          )}
+                          {showPreview && change.sql.map((sql, sqlIndex) => (
+                            <pre
+                              key={sqlIndex}
+                              className="text-xs font-mono bg-muted/50 rounded p-1.5 whitespace-pre-wrap break-all"
+                            >
+                              {sql}
+                            </pre>
+                          ))}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+
+                  {hasDestructiveSteps && (
+                    <div className="flex items-center space-x-3">
+                      <Checkbox
+                        id="allow-destructive"
+                        checked={allowDestructive}
+                        onCheckedChange={(checked) => setAllowDestructive(checked === true)}
+                      />
+                      <Label htmlFor="allow-destructive" className="cursor-pointer">
+                        Also apply destructive changes
+                      </Label>
+                    </div>
+                  )}
+                </div>
+              )}
+
               {/* Summary */}
               <div className="p-3 rounded-lg border bg-muted/30">
                 <p className="text-sm">
@@ -269,7 +458,8 @@ export function SyncConfigDialog({
                   <strong>
                     {scope === 'selected' ? `${selectedRowCount} selected rows` : 'all rows'}
                   </strong>
-                  {includeStructure && ' and table structure'} from{' '}
+                  {includeStructure && ' and table structure'}
+                  {isMirroring && ', deleting target rows missing from the source,'} from{' '}
                   <strong>{sourcePanel.connectionName}</strong> to{' '}
                   <strong>{targetPanel.connectionName}</strong>.
                 </p>
@@ -284,7 +474,7 @@ export function SyncConfigDialog({
           </Button>
           <Button
             onClick={handleExecute}
-            disabled={!canSync || isInvalidConfig || isExecuting}
+            disabled={!canSync || isInvalidConfig || !isMirrorConfirmed || isExecuting}
           >
             {isExecuting ? (
               <>
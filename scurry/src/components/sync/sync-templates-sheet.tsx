@@ -0,0 +1,393 @@
+'use client';
+
+import * as React from 'react';
+import { ArrowRight, ChevronDown, ChevronRight, Clock, Loader2, Play, Save, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Separator } from '@/components/ui/separator';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import { cn } from '@/lib/utils';
+import type { ComparisonPanel, SyncRun, SyncTemplate } from '@/types/sync';
+
+interface SyncTemplatesSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  connections: Array<{ id: string; name: string }>;
+  sourcePanel: ComparisonPanel | null;
+  targetPanel: ComparisonPanel | null;
+  teamId: string | null;
+}
+
+type TemplateJson = Omit<SyncTemplate, 'createdAt' | 'updatedAt' | 'nextRunAt' | 'lastRunAt'> & {
+  createdAt: string;
+  updatedAt: string;
+  nextRunAt?: string;
+  lastRunAt?: string;
+};
+
+type RunJson = Omit<SyncRun, 'startedAt' | 'finishedAt'> & { startedAt: string; finishedAt: string };
+
+function parseTemplate(template: TemplateJson): SyncTemplate {
+  return {
+    ...template,
+    createdAt: new Date(template.createdAt),
+    updatedAt: new Date(template.updatedAt),
+    nextRunAt: template.nextRunAt ? new Date(template.nextRunAt) : undefined,
+    lastRunAt: template.lastRunAt ? new Date(template.lastRunAt) : undefined,
+  };
+}
+
+function parseRun(run: RunJson): SyncRun {
+  return { ...run, startedAt: new Date(run.startedAt), finishedAt: new Date(run.finishedAt) };
+}
+
+function describeRun(run: SyncRun): string {
+  if (!run.success) {
+    return run.result.errors[0] ?? 'Failed';
+  }
+  return `${run.result.insertedCount} inserted, ${run.result.updatedCount} updated`;
+}
+
+function RunHistory({ templateId, refreshKey }: { templateId: string; refreshKey: number }) {
+  const [runs, setRuns] = React.useState<SyncRun[] | null>(null);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/sync/templates/${templateId}/runs?limit=10`)
+      .then((response) => (response.ok ? response.json() : []))
+      .then((data: RunJson[]) => {
+        if (!cancelled) setRuns(data.map(parseRun));
+      })
+      .catch(() => {
+        if (!cancelled) setRuns([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [templateId, refreshKey]);
+
+  if (!runs) {
+    return <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />;
+  }
+  if (runs.length === 0) {
+    return <p className="text-xs text-muted-foreground">No runs yet</p>;
+  }
+
+  return (
+    <div className="space-y-1">
+      {runs.map((run) => (
+        <div key={run.id} className="flex items-center gap-2 text-xs">
+          <Badge variant={run.success ? 'secondary' : 'destructive'} className="text-[10px]">
+            {run.success ? 'OK' : 'Failed'}
+          </Badge>
+          <span className="text-muted-foreground">{run.startedAt.toLocaleString()}</span>
+          <span className="text-muted-foreground">({run.trigger})</span>
+          <span className={cn('truncate', !run.success && 'text-destructive')}>{describeRun(run)}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function SyncTemplatesSheet({
+  open,
+  onOpenChange,
+  connections,
+  sourcePanel,
+  targetPanel,
+  teamId,
+}: SyncTemplatesSheetProps) {
+  const [templates, setTemplates] = React.useState<SyncTemplate[]>([]);
+  const [loading, setLoading] = React.useState(false);
+  const [saving, setSaving] = React.useState(false);
+  const [runningId, setRunningId] = React.useState<string | null>(null);
+  const [expandedId, setExpandedId] = React.useState<string | null>(null);
+  const [historyKey, setHistoryKey] = React.useState(0);
+
+  const [name, setName] = React.useState('');
+  const [schedule, setSchedule] = React.useState('');
+  const [includeStructure, setIncludeStructure] = React.useState(false);
+
+  const connectionName = React.useCallback(
+    (id: string) => connections.find((c) => c.id === id)?.name ?? 'Unknown connection',
+    [connections]
+  );
+
+  const loadTemplates = React.useCallback(async () => {
+    setLoading(true);
+    try {
+      const query = teamId ? `?teamId=${encodeURIComponent(teamId)}` : '';
+      const response = await fetch(`/api/sync/templates${query}`);
+      if (!response.ok) throw new Error('Failed to load sync templates');
+      const data: TemplateJson[] = await response.json();
+      setTemplates(data.map(parseTemplate));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load sync templates');
+    } finally {
+      setLoading(false);
+    }
+  }, [teamId]);
+
+  React.useEffect(() => {
+    if (open) {
+      loadTemplates();
+    }
+  }, [open, loadTemplates]);
+
+  const canSave = Boolean(sourcePanel?.connectionId && targetPanel?.connectionId && sourcePanel?.tableName && name.trim());
+
+  const handleSave = async () => {
+    if (!canSave || !sourcePanel || !targetPanel) return;
+
+    setSaving(true);
+    try {
+      const response = await fetch('/api/sync/templates', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: name.trim(),
+          sourceConnectionId: sourcePanel.connectionId,
+          targetConnectionId: targetPanel.connectionId,
+          tableName: sourcePanel.tableName,
+          includeStructure,
+          schedule: schedule.trim() || undefined,
+          teamId,
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        const details = result.details?.fieldErrors
+          ? Object.values(result.details.fieldErrors).flat().join('\n')
+          : undefined;
+        throw new Error(details || result.error || 'Failed to save sync template');
+      }
+
+      toast.success(`Saved template "${result.name}"`);
+      setName('');
+      setSchedule('');
+      await loadTemplates();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save sync template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRun = async (template: SyncTemplate) => {
+    setRunningId(template.id);
+    try {
+      const response = await fetch(`/api/sync/templates/${template.id}/run`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to run sync template');
+
+      const run = parseRun(result);
+      if (run.success) {
+        toast.success(`"${template.name}": ${describeRun(run)}`);
+      } else {
+        toast.error(`"${template.name}" failed`, { description: run.result.errors.join('\n') });
+      }
+      setHistoryKey((key) => key + 1);
+      await loadTemplates();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to run sync template');
+    } finally {
+      setRunningId(null);
+    }
+  };
+
+  const handleToggleSchedule = async (template: SyncTemplate, enabled: boolean) => {
+    try {
+      const response = await fetch(`/api/sync/templates/${template.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ scheduleEnabled: enabled }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to update schedule');
+      setTemplates((prev) => prev.map((t) => (t.id === template.id ? parseTemplate(result) : t)));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update schedule');
+    }
+  };
+
+  const handleDelete = async (template: SyncTemplate) => {
+    try {
+      const response = await fetch(`/api/sync/templates/${template.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error || 'Failed to delete sync template');
+      }
+      setTemplates((prev) => prev.filter((t) => t.id !== template.id));
+      toast.success(`Deleted template "${template.name}"`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete sync template');
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-lg flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Sync Templates</SheetTitle>
+          <SheetDescription>
+            Save a source, target and table to compare and sync the whole table in one step,
+            on demand or on a schedule.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-3 px-4">
+          <div className="text-sm flex items-center gap-2 min-w-0">
+            {sourcePanel?.connectionId && targetPanel?.connectionId && sourcePanel.tableName ? (
+              <>
+                <Badge variant="secondary">{sourcePanel.connectionName}</Badge>
+                <ArrowRight className="h-3.5 w-3.5 flex-shrink-0" />
+                <Badge variant="secondary">{targetPanel.connectionName}</Badge>
+                <span className="font-mono text-xs truncate">{sourcePanel.tableName}</span>
+              </>
+            ) : (
+              <span className="text-muted-foreground">
+                Pick a source table in Panel 1 and a target connection in Panel 2 to save a template.
+              </span>
+            )}
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="sync-template-name">Name</Label>
+            <Input
+              id="sync-template-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Nightly customers sync"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="sync-template-schedule">Schedule (optional)</Label>
+            <Input
+              id="sync-template-schedule"
+              value={schedule}
+              onChange={(e) => setSchedule(e.target.value)}
+              placeholder="0 2 * * *"
+              className="font-mono"
+            />
+            <p className="text-xs text-muted-foreground">
+              Cron expression (minute hour day month weekday), evaluated in UTC.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="sync-template-structure"
+              checked={includeStructure}
+              onCheckedChange={(checked) => setIncludeStructure(checked === true)}
+            />
+            <Label htmlFor="sync-template-structure" className="text-sm font-normal">
+              Create the table in the target if it is missing
+            </Label>
+          </div>
+          <Button size="sm" onClick={handleSave} disabled={!canSave || saving}>
+            {saving ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Save className="h-4 w-4 mr-1" />}
+            Save Template
+          </Button>
+        </div>
+
+        <Separator />
+
+        <ScrollArea className="flex-1 min-h-0">
+          <div className="space-y-2 px-4 pb-4">
+            {loading && templates.length === 0 ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : templates.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">No sync templates yet</p>
+            ) : (
+              templates.map((template) => {
+                const expanded = expandedId === template.id;
+                return (
+                  <div key={template.id} className="rounded-md border p-3 space-y-2">
+                    <div className="flex items-start gap-2">
+                      <button
+                        type="button"
+                        className="mt-0.5 text-muted-foreground hover:text-foreground"
+                        onClick={() => setExpandedId(expanded ? null : template.id)}
+                        aria-label={expanded ? 'Hide run history' : 'Show run history'}
+                      >
+                        {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                      </button>
+                      <div className="flex-1 min-w-0">
+                        <div className="font-medium text-sm truncate">{template.name}</div>
+                        <div className="text-xs text-muted-foreground truncate">
+                          {connectionName(template.sourceConnectionId)} → {connectionName(template.targetConnectionId)}
+                          {template.tableName && <> · <span className="font-mono">{template.tableName}</span></>}
+                        </div>
+                      </div>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-7"
+                        onClick={() => handleRun(template)}
+                        disabled={runningId !== null || !template.tableName}
+                      >
+                        {runningId === template.id
+                          ? <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                          : <Play className="h-3.5 w-3.5" />}
+                        Run
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0 text-muted-foreground hover:text-destructive"
+                        onClick={() => handleDelete(template)}
+                        aria-label="Delete template"
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </div>
+
+                    {template.schedule && (
+                      <div className="flex items-center gap-2 text-xs pl-6">
+                        <Clock className="h-3.5 w-3.5 text-muted-foreground" />
+                        <code>{template.schedule}</code>
+                        <span className="text-muted-foreground truncate">
+                          {template.scheduleEnabled && template.nextRunAt
+                            ? `next ${template.nextRunAt.toLocaleString()}`
+                            : 'paused'}
+                        </span>
+                        <Switch
+                          className="ml-auto"
+                          checked={template.scheduleEnabled}
+                          onCheckedChange={(checked) => handleToggleSchedule(template, checked)}
+                          aria-label="Enable schedule"
+                        />
+                      </div>
+                    )}
+
+                    {expanded && (
+                      <div className="pl-6">
+                        <RunHistory templateId={template.id} refreshKey={historyKey} />
+                      </div>
+                    )}
+                  </div>
+                );
+              })
+            )}
+          </div>
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -1 +1,2 @@
 export { TeamSwitcher } from './team-switcher';
+export { TeamRoleList, TEAM_CAPABILITY_LABELS, type TeamRoleItem } from './team-role-list';
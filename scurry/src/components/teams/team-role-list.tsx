@@ -0,0 +1,262 @@
+'use client';
+
+import * as React from 'react';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { toast } from 'sonner';
+import { teamCapabilities, type TeamCapability } from '@/lib/validations/team';
+
+export interface TeamRoleItem {
+  id: string;
+  key: string;
+  name: string;
+  description: string | null;
+  capabilities: TeamCapability[];
+  isDefault: boolean;
+  updatedAt: string;
+}
+
+export const TEAM_CAPABILITY_LABELS: Record<TeamCapability, { label: string; description: string }> = {
+  invite_members: { label: 'Invite members', description: 'Invite, remove and change the role of members' },
+  share_connections: { label: 'Share connections', description: 'Share their own connections with the team' },
+  edit_permissions: { label: 'Edit permission profiles', description: 'Manage permission profiles and member assignments' },
+  configure_ai: { label: 'Configure AI', description: 'Change the team\'s AI settings' },
+  approve_changes: { label: 'Approve changes', description: 'Review change requests on protected connections' },
+  view_audit_log: { label: 'View audit log', description: 'See the query history of every member' },
+  manage_team: {
+    label: 'Manage team',
+    description: 'Rename the team, edit roles, protect and unshare connections, and edit anyone\'s dashboards, schedules and sync templates',
+  },
+};
+
+interface TeamRoleListProps {
+  teamId: string;
+  roles: TeamRoleItem[];
+  canManage: boolean;
+  isOwner: boolean;
+  onChanged: () => void;
+}
+
+interface RoleEditorProps {
+  idPrefix: string;
+  initial: { name: string; description: string; capabilities: TeamCapability[] };
+  // Roles that manage the team are left to the owner
+  canEdit: (capabilities: TeamCapability[]) => boolean;
+  submitLabel: string;
+  resetOnSubmit?: boolean;
+  onSubmit: (data: { name: string; description: string | null; capabilities: TeamCapability[] }) => Promise<boolean>;
+}
+
+function RoleEditor({ idPrefix, initial, canEdit, submitLabel, resetOnSubmit, onSubmit }: RoleEditorProps) {
+  const [name, setName] = React.useState(initial.name);
+  const [description, setDescription] = React.useState(initial.description);
+  const [capabilities, setCapabilities] = React.useState<TeamCapability[]>(initial.capabilities);
+  const [saving, setSaving] = React.useState(false);
+
+  const editable = canEdit(initial.capabilities);
+  const dirty =
+    name !== initial.name ||
+    description !== initial.description ||
+    capabilities.length !== initial.capabilities.length ||
+    capabilities.some((capability) => !initial.capabilities.includes(capability));
+
+  const toggleCapability = (capability: TeamCapability, checked: boolean) => {
+    setCapabilities((prev) =>
+      checked ? teamCapabilities.filter((c) => c === capability || prev.includes(c)) : prev.filter((c) => c !== capability)
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    setSaving(true);
+    const saved = await onSubmit({ name: name.trim(), description: description.trim() || null, capabilities });
+    setSaving(false);
+    if (saved && resetOnSubmit) {
+      setName('');
+      setDescription('');
+      setCapabilities([]);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="grid gap-2 sm:grid-cols-2">
+        <Input
+          placeholder="Role name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          maxLength={50}
+          disabled={!editable}
+        />
+        <Input
+          placeholder="Description (optional)"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          maxLength={500}
+          disabled={!editable}
+        />
+      </div>
+      <div className="grid gap-2 sm:grid-cols-2">
+        {teamCapabilities.map((capability) => {
+          const id = `${idPrefix}-${capability}`;
+          return (
+            <div key={capability} className="flex items-start gap-2">
+              <Checkbox
+                id={id}
+                checked={capabilities.includes(capability)}
+                onCheckedChange={(checked) => toggleCapability(capability, checked === true)}
+                disabled={!editable || (capability === 'manage_team' && !canEdit(['manage_team']))}
+                className="mt-0.5"
+              />
+              <div className="grid gap-0.5">
+                <Label htmlFor={id} className="text-sm font-medium">
+                  {TEAM_CAPABILITY_LABELS[capability].label}
+                </Label>
+                <p className="text-xs text-muted-foreground">{TEAM_CAPABILITY_LABELS[capability].description}</p>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      {editable && (
+        <Button type="submit" size="sm" disabled={saving || !dirty || !name.trim()}>
+          {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {submitLabel}
+        </Button>
+      )}
+    </form>
+  );
+}
+
+export function TeamRoleList({ teamId, roles, canManage, isOwner, onChanged }: TeamRoleListProps) {
+  const [deletingId, setDeletingId] = React.useState<string | null>(null);
+
+  const canEdit = (capabilities: TeamCapability[]) =>
+    canManage && (isOwner || !capabilities.includes('manage_team'));
+
+  const handleCreate = async (data: { name: string; description: string | null; capabilities: TeamCapability[] }) => {
+    try {
+      const response = await fetch(`/api/teams/${teamId}/roles`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+
+      if (response.ok) {
+        toast.success('Role created');
+        onChanged();
+        return true;
+      }
+      const error = await response.json();
+      toast.error(error.error || 'Failed to create role');
+    } catch {
+      toast.error('Failed to create role');
+    }
+    return false;
+  };
+
+  const handleUpdate = async (
+    roleId: string,
+    data: { name: string; description: string | null; capabilities: TeamCapability[] }
+  ) => {
+    try {
+      const response = await fetch(`/api/teams/${teamId}/roles/${roleId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+
+      if (response.ok) {
+        toast.success('Role updated');
+        onChanged();
+        return true;
+      }
+      const error = await response.json();
+      toast.error(error.error || 'Failed to update role');
+    } catch {
+      toast.error('Failed to update role');
+    }
+    return false;
+  };
+
+  const handleDelete = async (roleId: string) => {
+    setDeletingId(roleId);
+    try {
+      const response = await fetch(`/api/teams/${teamId}/roles/${roleId}`, {
+        method: 'DELETE',
+      });
+
+      if (response.ok) {
+        toast.success('Role deleted');
+        onChanged();
+      } else {
+        const error = await response.json();
+        toast.error(error.error || 'Failed to delete role');
+      }
+    } catch {
+      toast.error('Failed to delete role');
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="divide-y">
+        {roles.map((role) => (
+          <div key={`${role.id}-${role.updatedAt}`} className="space-y-3 py-4">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <span className="font-medium">{role.name}</span>
+                {role.isDefault && <Badge variant="secondary">Default</Badge>}
+              </div>
+              {!role.isDefault && canEdit(role.capabilities) && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleDelete(role.id)}
+                  disabled={deletingId === role.id}
+                >
+                  {deletingId === role.id ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Trash2 className="h-4 w-4" />
+                  )}
+                </Button>
+              )}
+            </div>
+            <RoleEditor
+              idPrefix={role.id}
+              initial={{ name: role.name, description: role.description ?? '', capabilities: role.capabilities }}
+              canEdit={canEdit}
+              submitLabel="Save"
+              onSubmit={(data) => handleUpdate(role.id, data)}
+            />
+          </div>
+        ))}
+      </div>
+
+      {canManage && (
+        <div className="space-y-3 rounded-lg border border-dashed p-4">
+          <h4 className="flex items-center gap-2 text-sm font-medium">
+            <Plus className="h-4 w-4" />
+            New role
+          </h4>
+          <RoleEditor
+            idPrefix="new-role"
+            initial={{ name: '', description: '', capabilities: [] }}
+            canEdit={canEdit}
+            submitLabel="Create"
+            resetOnSubmit
+            onSubmit={handleCreate}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
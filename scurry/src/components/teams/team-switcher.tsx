@@ -26,15 +26,21 @@ import { useRouter, usePathname } from 'next/navigation';
 import { useWorkspaceStore } from '@/lib/store/workspace-store';
 import { useConnectionStore } from '@/lib/store/connection-store';
 import { useQueryStore } from '@/lib/store/query-store';
+import { teamCapabilities, type TeamCapability } from '@/lib/validations/team';
 
 interface Team {
   id: string;
   name: string;
   slug: string;
   role: string;
+  capabilities: TeamCapability[];
   memberCount: number;
 }
 
+function toActiveTeam(team: Team) {
+  return { id: team.id, name: team.name, slug: team.slug, role: team.role, capabilities: team.capabilities };
+}
+
 interface TeamSwitcherProps {
   className?: string;
 }
@@ -60,8 +66,17 @@ export function TeamSwitcher({ className }: TeamSwitcherProps) {
     try {
       const response = await fetch('/api/teams');
       if (response.ok) {
-        const data = await response.json();
+        const data: Team[] = await response.json();
         setTeams(data);
+
+        // Keep the persisted team's role and capabilities current. Read from the
+        // store: the persisted team may have been restored since this render.
+        const workspace = useWorkspaceStore.getState();
+        const persistedId = workspace.activeTeam?.id;
+        const current = persistedId && data.find((team) => team.id === persistedId);
+        if (current) {
+          workspace.setActiveTeam(toActiveTeam(current));
+        }
       }
     } catch (error) {
       console.error('Failed to fetch teams:', error);
@@ -84,9 +99,9 @@ export function TeamSwitcher({ className }: TeamSwitcherProps) {
 
       if (response.ok) {
         const team = await response.json();
-        const newTeam = { ...team, role: 'owner', memberCount: 1 };
+        const newTeam: Team = { ...team, role: 'owner', capabilities: [...teamCapabilities], memberCount: 1 };
         setTeams((prev) => [...prev, newTeam]);
-        setActiveTeam({ id: newTeam.id, name: newTeam.name, slug: newTeam.slug, role: 'owner' });
+        setActiveTeam(toActiveTeam(newTeam));
         setShowCreateDialog(false);
         setNewTeamName('');
         setNewTeamSlug('');
@@ -124,7 +139,7 @@ export function TeamSwitcher({ className }: TeamSwitcherProps) {
       resetQueryState();
       
       // Set the new active team
-      setActiveTeam(team ? { id: team.id, name: team.name, slug: team.slug, role: team.role } : null);
+      setActiveTeam(team ? toActiveTeam(team) : null);
       
       // If we're on a page with connection params, navigate to clean URL
       if (pathname === '/browse' || pathname === '/query') {
@@ -196,7 +211,7 @@ export function TeamSwitcher({ className }: TeamSwitcherProps) {
                 <Settings className="mr-2 h-4 w-4" />
                 <span>Team Settings</span>
               </DropdownMenuItem>
-              {(activeTeam.role === 'owner' || activeTeam.role === 'admin') && (
+              {activeTeam.capabilities?.includes('edit_permissions') && (
                 <DropdownMenuItem onClick={() => router.push(`/teams/${activeTeam.id}/permissions`)}>
                   <Shield className="mr-2 h-4 w-4" />
                   <span>Permissions</span>
@@ -1,4 +1,6 @@
 export { useConnections } from './use-connections';
+export { useEnrichedSchema } from './use-enriched-schema';
+export { useEditorSettings } from './use-editor-settings';
 export { useIsMobile } from './use-mobile';
 export {
   useMediaQuery,
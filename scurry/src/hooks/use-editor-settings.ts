@@ -0,0 +1,41 @@
+'use client';
+
+import * as React from 'react';
+import { DEFAULT_FORMAT_OPTIONS } from '@/lib/sql/sql-formatter';
+import type { EditorSettingsFormData } from '@/lib/validations/editor';
+
+const DEFAULT_EDITOR_SETTINGS: EditorSettingsFormData = {
+  ...DEFAULT_FORMAT_OPTIONS,
+  lintEnabled: true,
+};
+
+interface UseEditorSettingsReturn {
+  settings: EditorSettingsFormData;
+  loading: boolean;
+  refetch: () => Promise<void>;
+}
+
+export function useEditorSettings(): UseEditorSettingsReturn {
+  const [settings, setSettings] = React.useState<EditorSettingsFormData>(DEFAULT_EDITOR_SETTINGS);
+  const [loading, setLoading] = React.useState(true);
+
+  const fetchSettings = React.useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/user/editor-settings');
+      if (response.ok) {
+        setSettings(await response.json());
+      }
+    } catch {
+      // Keep defaults if settings can't be loaded
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  React.useEffect(() => {
+    fetchSettings();
+  }, [fetchSettings]);
+
+  return { settings, loading, refetch: fetchSettings };
+}
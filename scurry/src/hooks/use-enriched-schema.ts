@@ -0,0 +1,51 @@
+'use client';
+
+import * as React from 'react';
+import type { EnrichedSchema } from '@/lib/db/app-db';
+
+/** Schema served to the editor; restrictedTables lists tables with hidden columns */
+export type EditorSchema = EnrichedSchema & { restrictedTables?: string[] };
+
+interface UseEnrichedSchemaReturn {
+  schema: EditorSchema | null;
+  loading: boolean;
+  refetch: () => Promise<void>;
+}
+
+export function useEnrichedSchema(
+  connectionId: string | null,
+  teamId?: string | null
+): UseEnrichedSchemaReturn {
+  const [schema, setSchema] = React.useState<EditorSchema | null>(null);
+  const [loading, setLoading] = React.useState(false);
+
+  const fetchSchema = React.useCallback(async () => {
+    if (!connectionId) {
+      setSchema(null);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({ connectionId });
+      if (teamId) params.set('teamId', teamId);
+
+      const response = await fetch(`/api/schema/enriched?${params}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch schema');
+      }
+      setSchema(await response.json());
+    } catch {
+      // Completion falls back to keywords when the schema is unavailable
+      setSchema(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [connectionId, teamId]);
+
+  React.useEffect(() => {
+    fetchSchema();
+  }, [fetchSchema]);
+
+  return { schema, loading, refetch: fetchSchema };
+}
@@ -0,0 +1,20 @@
+/**
+ * Next.js instrumentation hook: starts the in-process scheduler once per
+ * server process. Only the Node.js runtime can reach the app database.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  const { getScheduler } = await import('@/lib/scheduler/scheduler');
+  const { runDueSyncTemplates } = await import('@/lib/sync/template-runner');
+  const { runQueryHistoryRetention } = await import('@/lib/db/query-history');
+  const { runDueQuerySchedules } = await import('@/lib/schedules/schedule-runner');
+  const { runApprovedChangeRequests } = await import('@/lib/change-requests/change-request-runner');
+
+  const scheduler = getScheduler();
+  scheduler.register('sync-templates', runDueSyncTemplates);
+  scheduler.register('query-history-retention', runQueryHistoryRetention);
+  scheduler.register('query-schedules', runDueQuerySchedules);
+  scheduler.register('change-requests', runApprovedChangeRequests);
+  scheduler.start();
+}
@@ -0,0 +1,61 @@
+/**
+ * Change Request Policy
+ *
+ * Decides which SQL needs an approved change request before it may run on a
+ * protected connection: anything the dangerous query detector flags, and any
+ * other statement that writes. SQL that can't be parsed, or that runs SQL the
+ * analyzer can't see into, is treated as a write. Grid edits, syncs and CSV
+ * imports always write, so they need one too.
+ */
+
+import { isConnectionProtected } from '@/lib/db/teams';
+import { analyzeSql } from '@/lib/sql/sql-access';
+import { SqlSyntaxError } from '@/lib/sql/sql-tokenizer';
+import { detectDangerousStatement } from '@/lib/sql/dangerous-query-detector';
+import { splitScript } from '@/lib/sql/script-statements';
+import type { ChangeApprovalRequired, ChangeRequestDangerLevel, DatabaseType } from '@/types';
+
+export function getChangeDangerLevel(sql: string, dialect: DatabaseType): ChangeRequestDangerLevel | null {
+  const dangerous = detectDangerousStatement(splitScript(sql).map((statement) => statement.sql));
+  if (dangerous && dangerous.info.level !== 'safe') return dangerous.info.level;
+
+  try {
+    return analyzeSql(sql, dialect).some((access) => access.write || access.opaque) ? 'write' : null;
+  } catch (error) {
+    if (!(error instanceof SqlSyntaxError)) throw error;
+    return 'write';
+  }
+}
+
+function approvalRequired(dangerLevel: ChangeRequestDangerLevel): ChangeApprovalRequired {
+  return {
+    error: 'This connection is protected: changes must be submitted as a change request and approved by another team member',
+    approvalRequired: true,
+    dangerLevel,
+  };
+}
+
+/**
+ * The 403 body for SQL that must go through a change request, or null when
+ * it may run directly. A connection protected in any team it is shared with
+ * is protected from whichever workspace it's used in.
+ */
+export async function checkChangeApproval(
+  connectionId: string,
+  sql: string,
+  dialect: DatabaseType
+): Promise<ChangeApprovalRequired | null> {
+  if (!(await isConnectionProtected(connectionId))) return null;
+
+  const dangerLevel = getChangeDangerLevel(sql, dialect);
+  return dangerLevel ? approvalRequired(dangerLevel) : null;
+}
+
+/**
+ * The 403 body for changes made without SQL, such as grid edits, syncs and
+ * CSV imports, when the connection they change is protected
+ */
+export async function checkWriteApproval(connectionId: string): Promise<ChangeApprovalRequired | null> {
+  if (!(await isConnectionProtected(connectionId))) return null;
+  return approvalRequired('write');
+}
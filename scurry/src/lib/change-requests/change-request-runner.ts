@@ -0,0 +1,239 @@
+/**
+ * Change Request Runner
+ *
+ * Dry runs a change request when it is created, and runs approved requests
+ * from the scheduler. Both run as the member who asked for the change: their
+ * access to the connection and their team permissions are checked again at
+ * execution time, and row filters are applied to what actually runs.
+ */
+
+import { getConnectionById, isDDLQuery, invalidateSchemaCache } from '@/lib/db/app-db';
+import { getPoolManager } from '@/lib/db/connection-pool';
+import { validateConnectionAccess } from '@/lib/db/teams';
+import { getEffectivePermissions } from '@/lib/db/permissions';
+import { recordQueryExecution } from '@/lib/db/query-history';
+import { logActivity } from '@/lib/db/activities';
+import {
+  getApprovedChangeRequests,
+  claimChangeRequest,
+  recordChangeRequestResult,
+} from '@/lib/db/change-requests';
+import { validateQuery } from '@/lib/permissions/validator';
+import { analyzeSql } from '@/lib/sql/sql-access';
+import { SqlSyntaxError } from '@/lib/sql/sql-tokenizer';
+import { splitScript } from '@/lib/sql/script-statements';
+import type {
+  ChangeRequest,
+  ChangeRequestPreview,
+  ChangeRequestResult,
+  DatabaseConnection,
+} from '@/types';
+
+export type PreparedChange =
+  | { ok: true; connection: DatabaseConnection; statements: string[] }
+  | { ok: false; status: number; error: string };
+
+/**
+ * Load the connection and check every statement of the change against the
+ * requester's permissions. Returns the statements to run, row filters applied.
+ */
+export async function prepareChange(
+  userId: string,
+  teamId: string,
+  connectionId: string,
+  sql: string
+): Promise<PreparedChange> {
+  const accessValidation = await validateConnectionAccess(userId, connectionId, teamId);
+  if (!accessValidation.isValid) {
+    return { ok: false, status: 403, error: accessValidation.error || 'Access denied' };
+  }
+
+  const connection = await getConnectionById(connectionId);
+  if (!connection) {
+    return { ok: false, status: 404, error: 'Connection not found' };
+  }
+
+  const parsed = splitScript(sql);
+  if (parsed.length === 0) {
+    return { ok: false, status: 400, error: 'No SQL statements found' };
+  }
+
+  const permission = await getEffectivePermissions(userId, teamId, connectionId);
+  const statements: string[] = [];
+  for (const [i, statement] of parsed.entries()) {
+    const validation = validateQuery(statement.sql, permission, connection.type);
+    if (!validation.allowed) {
+      const prefix = parsed.length > 1 ? `Statement ${i + 1}: ` : '';
+      return { ok: false, status: 403, error: `${prefix}${validation.reason || 'Permission denied'}` };
+    }
+    statements.push(validation.sql ?? statement.sql);
+  }
+
+  return { ok: true, connection, statements };
+}
+
+/**
+ * Thrown at the end of a dry run so the transaction is rolled back
+ */
+class DryRunRollback extends Error {}
+
+/**
+ * Why the statements can't be dry run, or null when they can. MySQL commits
+ * implicitly around schema changes and TRUNCATE, so rolling back would not
+ * undo them.
+ */
+function dryRunSkipReason(statements: string[], connection: DatabaseConnection): string | null {
+  for (const statement of statements) {
+    let accesses;
+    try {
+      accesses = analyzeSql(statement, connection.type);
+    } catch (error) {
+      if (!(error instanceof SqlSyntaxError)) throw error;
+      return 'The SQL could not be parsed, so it was not dry run';
+    }
+
+    for (const access of accesses) {
+      if (access.opaque) {
+        return 'The SQL runs statements that cannot be analyzed, so it was not dry run';
+      }
+      const operations = [...access.operations, ...access.tables.map((table) => table.operation)];
+      if (operations.some((operation) => operation === 'ddl' || operation === 'truncate')) {
+        return 'Schema changes and TRUNCATE cannot always be rolled back, so this change was not dry run';
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Run the statements inside a transaction that is always rolled back, to
+ * show reviewers how many rows the change would affect
+ */
+export async function previewChange(
+  connection: DatabaseConnection,
+  statements: string[]
+): Promise<ChangeRequestPreview> {
+  const preview: ChangeRequestPreview = {
+    statements: [],
+    affectedRows: 0,
+    error: null,
+    skipped: dryRunSkipReason(statements, connection),
+    previewedAt: new Date().toISOString(),
+  };
+  if (preview.skipped) return preview;
+
+  try {
+    await getPoolManager().transaction(connection, async (query) => {
+      for (const sql of statements) {
+        const result = await query(sql);
+        const affectedRows = result.affectedRows ?? result.rowCount;
+        preview.statements.push({ sql, affectedRows });
+        preview.affectedRows += affectedRows;
+      }
+      throw new DryRunRollback();
+    });
+  } catch (error) {
+    if (!(error instanceof DryRunRollback)) {
+      preview.error = error instanceof Error ? error.message : 'Unknown error';
+    }
+  }
+  return preview;
+}
+
+/**
+ * Run an approved request in one transaction, rolled back at the first
+ * failing statement. Failures are returned in the result rather than thrown.
+ */
+export async function executeChangeRequest(request: ChangeRequest): Promise<ChangeRequestResult> {
+  const startTime = Date.now();
+  const result: ChangeRequestResult = { statements: [], affectedRows: 0, executionTime: 0, error: null };
+
+  const prepared = await prepareChange(request.requestedBy, request.teamId, request.connectionId, request.sql);
+  if (!prepared.ok) {
+    return { ...result, error: prepared.error };
+  }
+  const { connection, statements } = prepared;
+
+  try {
+    await getPoolManager().transaction(connection, async (query) => {
+      for (const sql of statements) {
+        try {
+          const queryResult = await query(sql);
+          const affectedRows = queryResult.affectedRows ?? queryResult.rowCount;
+          result.statements.push({ sql, affectedRows, error: null });
+          result.affectedRows += affectedRows;
+        } catch (error) {
+          result.statements.push({
+            sql,
+            affectedRows: 0,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+          throw error;
+        }
+      }
+    });
+  } catch (error) {
+    result.affectedRows = 0;
+    result.error = `The change failed and was rolled back: ${error instanceof Error ? error.message : 'Unknown error'}`;
+  }
+  result.executionTime = Date.now() - startTime;
+
+  await recordQueryExecution({
+    userId: request.requestedBy,
+    teamId: request.teamId,
+    connectionId: request.connectionId,
+    sql: request.sql,
+    source: 'change_request',
+    executionTime: result.executionTime,
+    rowCount: result.affectedRows,
+    error: result.error ?? undefined,
+  });
+
+  if (!result.error && statements.some(isDDLQuery)) {
+    await invalidateSchemaCache(request.connectionId);
+  }
+
+  return result;
+}
+
+/**
+ * Scheduler job: run every approved change request
+ */
+export async function runApprovedChangeRequests(): Promise<void> {
+  const approved = await getApprovedChangeRequests();
+
+  for (const request of approved) {
+    if (!(await claimChangeRequest(request.id))) continue;
+
+    let result: ChangeRequestResult;
+    try {
+      result = await executeChangeRequest(request);
+    } catch (error) {
+      // Never leave a claimed request running
+      result = {
+        statements: [],
+        affectedRows: 0,
+        executionTime: 0,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+    await recordChangeRequestResult(request.id, result);
+    await logActivity({
+      teamId: request.teamId,
+      userId: request.requestedBy,
+      action: result.error ? 'change_failed' : 'change_executed',
+      resourceType: 'change_request',
+      resourceId: request.id,
+      metadata: {
+        title: request.title,
+        connectionName: request.connection?.name,
+        affectedRows: result.affectedRows,
+        error: result.error,
+      },
+    });
+
+    if (result.error) {
+      console.error(`Change request "${request.title}" failed:`, result.error);
+    }
+  }
+}
@@ -0,0 +1,257 @@
+/**
+ * Chart Data
+ *
+ * Turns a query result into the categories and numeric series a chart draws.
+ * Drivers return some numeric types (DECIMAL, BIGINT) as strings, so values
+ * are read as numbers wherever they parse as one.
+ */
+
+import type { ChartConfig, ColumnInfo, QueryResult } from '@/types';
+
+export interface ChartSeries {
+  name: string;
+  values: Array<number | null>;
+}
+
+export interface ChartData {
+  xColumn: string | null;
+  categories: string[];
+  series: ChartSeries[];
+}
+
+// Beyond this many series a chart stops being readable
+const MAX_SERIES = 5;
+// Group-by can split into more series; only the largest groups are kept
+const MAX_GROUPS = 10;
+
+// MySQL reports column types as protocol type codes and PostgreSQL as type
+// OIDs; the two ranges do not overlap
+const NUMERIC_TYPE_CODES = new Set([
+  '0', '1', '2', '3', '4', '5', '8', '9', '246', // MySQL
+  '20', '21', '23', '26', '700', '701', '790', '1700', // PostgreSQL
+]);
+const TEMPORAL_TYPE_CODES = new Set([
+  '7', '10', '11', '12', '14', // MySQL
+  '1082', '1083', '1114', '1184', '1266', // PostgreSQL
+]);
+const NUMERIC_TYPE_NAME = /\b(tiny|small|medium|big)?int(eger|2|4|8)?\b|serial|numeric|decimal|float|double|real|money|number/i;
+const TEMPORAL_TYPE_NAME = /date|time/i;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}/;
+
+export type ColumnKind = 'numeric' | 'temporal' | 'text' | 'unknown';
+
+export const CHART_COLORS = [
+  'var(--chart-1)',
+  'var(--chart-2)',
+  'var(--chart-3)',
+  'var(--chart-4)',
+  'var(--chart-5)',
+];
+
+export function chartColor(index: number): string {
+  return CHART_COLORS[index % CHART_COLORS.length];
+}
+
+export function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'bigint') return Number(value);
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+/**
+ * What a column holds, from the type the driver reported. SQLite often
+ * reports no type, which comes back as 'unknown'.
+ */
+export function columnKind(column: ColumnInfo): ColumnKind {
+  const type = column.type?.trim() ?? '';
+  if (/^\d+$/.test(type)) {
+    if (NUMERIC_TYPE_CODES.has(type)) return 'numeric';
+    if (TEMPORAL_TYPE_CODES.has(type)) return 'temporal';
+    return 'text';
+  }
+  if (!type || type.toLowerCase() === 'unknown') return 'unknown';
+  if (TEMPORAL_TYPE_NAME.test(type)) return 'temporal';
+  if (NUMERIC_TYPE_NAME.test(type)) return 'numeric';
+  return 'text';
+}
+
+function nonNullValues(result: QueryResult, name: string): unknown[] {
+  return result.rows.map((row) => row[name]).filter((value) => value !== null && value !== undefined);
+}
+
+/**
+ * Column kinds, falling back to the values for columns without a known type
+ */
+export function classifyColumns(result: QueryResult): Record<string, ColumnKind> {
+  return Object.fromEntries(
+    result.columns.map((column) => {
+      const kind = columnKind(column);
+      if (kind !== 'unknown') return [column.name, kind];
+
+      const values = nonNullValues(result, column.name);
+      if (values.length === 0) return [column.name, 'unknown'];
+      if (values.every((value) => toNumber(value) !== null)) return [column.name, 'numeric'];
+      if (values.every((value) => value instanceof Date || (typeof value === 'string' && ISO_DATE.test(value)))) {
+        return [column.name, 'temporal'];
+      }
+      return [column.name, 'text'];
+    })
+  );
+}
+
+/**
+ * A starting chart for a result: a time series over the first date column,
+ * bars of the numeric columns per category, or a single number for a
+ * one-row result
+ */
+export function inferChartConfig(result: QueryResult): ChartConfig {
+  const kinds = classifyColumns(result);
+  const names = result.columns.map((column) => column.name);
+  const numeric = names.filter((name) => kinds[name] === 'numeric');
+  const temporal = names.filter((name) => kinds[name] === 'temporal');
+  const text = names.filter((name) => kinds[name] === 'text');
+
+  if (numeric.length === 0) return { type: 'bar' };
+
+  if (temporal.length > 0) {
+    const config: ChartConfig = { type: 'line', xColumn: temporal[0], yColumns: numeric.slice(0, MAX_SERIES) };
+    // One measure over time per category reads best as a line per category
+    const category = text.find((name) => new Set(result.rows.map((row) => row[name])).size <= MAX_SERIES);
+    if (numeric.length === 1 && category) {
+      config.groupBy = category;
+    }
+    return config;
+  }
+
+  if (text.length > 0) {
+    return { type: 'bar', xColumn: text[0], yColumns: numeric.slice(0, MAX_SERIES) };
+  }
+
+  if (result.rows.length === 1) {
+    return { type: 'number', yColumns: [numeric[0]] };
+  }
+
+  return { type: 'bar', xColumn: names[0], yColumns: numeric.filter((name) => name !== names[0]).slice(0, MAX_SERIES) };
+}
+
+/**
+ * Columns whose non-null values all read as numbers
+ */
+export function numericColumns(result: QueryResult): string[] {
+  return result.columns
+    .map((column) => column.name)
+    .filter((name) => {
+      const values = nonNullValues(result, name);
+      return values.length > 0 && values.every((value) => toNumber(value) !== null);
+    });
+}
+
+/**
+ * The configured axes, falling back to the first non-numeric column for x
+ * and the numeric columns for y when unset or no longer in the result
+ */
+export function resolveChartColumns(
+  result: QueryResult,
+  config: ChartConfig
+): { xColumn: string | null; yColumns: string[] } {
+  const names = result.columns.map((column) => column.name);
+  const numeric = numericColumns(result);
+
+  const xColumn = config.xColumn && names.includes(config.xColumn)
+    ? config.xColumn
+    : names.find((name) => !numeric.includes(name)) ?? names[0] ?? null;
+
+  const configured = (config.yColumns ?? []).filter((name) => names.includes(name));
+  const yColumns = configured.length > 0
+    ? configured
+    : numeric.filter((name) => name !== xColumn);
+
+  return { xColumn, yColumns: yColumns.slice(0, MAX_SERIES) };
+}
+
+function formatCategory(value: unknown): string {
+  if (value === null || value === undefined) return '(null)';
+  if (value instanceof Date) return value.toISOString();
+  return String(value);
+}
+
+export function buildChartData(result: QueryResult, config: ChartConfig): ChartData {
+  const { xColumn, yColumns } = resolveChartColumns(result, config);
+  const groupBy = config.groupBy && result.columns.some((column) => column.name === config.groupBy)
+    ? config.groupBy
+    : null;
+
+  if (groupBy && xColumn && yColumns.length > 0) {
+    return buildGroupedChartData(result, xColumn, yColumns[0], groupBy);
+  }
+
+  return {
+    xColumn,
+    categories: result.rows.map((row, index) => (xColumn ? formatCategory(row[xColumn]) : String(index + 1))),
+    series: yColumns.map((name) => ({
+      name,
+      values: result.rows.map((row) => toNumber(row[name])),
+    })),
+  };
+}
+
+/**
+ * Pivots the rows into one series per value of the group column, summing
+ * the value column where several rows share a category and group
+ */
+function buildGroupedChartData(result: QueryResult, xColumn: string, yColumn: string, groupBy: string): ChartData {
+  const categories: string[] = [];
+  const categoryIndex = new Map<string, number>();
+  const groupTotals = new Map<string, number>();
+
+  for (const row of result.rows) {
+    const category = formatCategory(row[xColumn]);
+    if (!categoryIndex.has(category)) {
+      categoryIndex.set(category, categories.length);
+      categories.push(category);
+    }
+    const group = formatCategory(row[groupBy]);
+    groupTotals.set(group, (groupTotals.get(group) ?? 0) + Math.abs(toNumber(row[yColumn]) ?? 0));
+  }
+
+  const groups = [...groupTotals.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_GROUPS)
+    .map(([group]) => group);
+  const values = new Map(groups.map((group) => [group, new Array<number | null>(categories.length).fill(null)]));
+
+  for (const row of result.rows) {
+    const series = values.get(formatCategory(row[groupBy]));
+    const value = toNumber(row[yColumn]);
+    if (!series || value === null) continue;
+    const index = categoryIndex.get(formatCategory(row[xColumn]))!;
+    series[index] = (series[index] ?? 0) + value;
+  }
+
+  return {
+    xColumn,
+    categories,
+    series: groups.map((group) => ({ name: group, values: values.get(group)! })),
+  };
+}
+
+/**
+ * The value a single-number widget shows: the first y column of the first row
+ */
+export function singleValue(result: QueryResult, config: ChartConfig): { label: string; value: unknown } | null {
+  const { yColumns } = resolveChartColumns(result, config);
+  const column = yColumns[0] ?? result.columns[0]?.name;
+  if (!column || result.rows.length === 0) return null;
+  return { label: column, value: result.rows[0][column] };
+}
+
+export function formatChartValue(value: number): string {
+  return value.toLocaleString(undefined, {
+    notation: Math.abs(value) >= 100000 ? 'compact' : 'standard',
+    maximumFractionDigits: 2,
+  });
+}
@@ -16,9 +16,19 @@ export type ActivityAction =
   | 'team_created'
   | 'data_inserted'
   | 'data_updated'
-  | 'data_deleted';
+  | 'data_deleted'
+  | 'data_reverted'
+  | 'structure_changed'
+  | 'connection_protected'
+  | 'connection_unprotected'
+  | 'change_requested'
+  | 'change_approved'
+  | 'change_rejected'
+  | 'change_executed'
+  | 'change_failed'
+  | 'change_commented';
 
-export type ResourceType = 'query' | 'connection' | 'team' | 'member' | 'comment';
+export type ResourceType = 'query' | 'connection' | 'team' | 'member' | 'comment' | 'change_request';
 
 export interface Activity {
   id: string;
@@ -234,7 +244,12 @@ export function getActivityDescription(activity: Activity): string {
     case 'query_saved':
       return `${userName} saved a query "${metadata.queryName || 'Untitled'}"`;
     case 'query_updated':
-      return `${userName} updated query "${metadata.queryName || 'Untitled'}"`;
+      if (metadata.restoredFromRevision) {
+        return `${userName} restored query "${metadata.queryName || 'Untitled'}" to version ${metadata.restoredFromRevision}`;
+      }
+      return metadata.revisionNumber
+        ? `${userName} updated query "${metadata.queryName || 'Untitled'}" (version ${metadata.revisionNumber})`
+        : `${userName} updated query "${metadata.queryName || 'Untitled'}"`;
     case 'query_deleted':
       return `${userName} deleted query "${metadata.queryName || 'Untitled'}"`;
     case 'query_shared':
@@ -259,6 +274,26 @@ export function getActivityDescription(activity: Activity): string {
       return `${userName} updated ${metadata.rowCount || 1} row(s) in "${metadata.tableName || 'a table'}"`;
     case 'data_deleted':
       return `${userName} deleted ${metadata.rowCount || 1} row(s) from "${metadata.tableName || 'a table'}"`;
+    case 'data_reverted':
+      return `${userName} reverted ${metadata.rowCount || 1} change(s) in "${metadata.tableName || 'a table'}"`;
+    case 'structure_changed':
+      return `${userName} changed the structure of "${metadata.tableName || 'a table'}" (${metadata.changeCount || 1} step(s))`;
+    case 'connection_protected':
+      return `${userName} protected connection "${metadata.connectionName || 'Untitled'}": changes now need approval`;
+    case 'connection_unprotected':
+      return `${userName} removed protection from connection "${metadata.connectionName || 'Untitled'}"`;
+    case 'change_requested':
+      return `${userName} requested approval for "${metadata.title || 'a change'}" on "${metadata.connectionName || 'a connection'}"`;
+    case 'change_approved':
+      return `${userName} approved the change request "${metadata.title || 'Untitled'}"`;
+    case 'change_rejected':
+      return `${userName} rejected the change request "${metadata.title || 'Untitled'}"`;
+    case 'change_executed':
+      return `Change request "${metadata.title || 'Untitled'}" by ${userName} ran: ${metadata.affectedRows ?? 0} row(s) affected`;
+    case 'change_failed':
+      return `Change request "${metadata.title || 'Untitled'}" by ${userName} failed and was rolled back`;
+    case 'change_commented':
+      return `${userName} commented on the change request "${metadata.title || 'Untitled'}"`;
     default:
       return `${userName} performed an action`;
   }
@@ -1,6 +1,7 @@
 import { v4 as uuidv4 } from 'uuid';
 import { encrypt, decrypt } from '@/lib/utils/encryption';
 import type { DatabaseConnection, DatabaseType } from '@/types';
+import type { KeywordCase, CommaPosition } from '@/lib/validations/editor';
 import { getDbClient, getDbType, type DbRow } from './db-client';
 
 // User types
@@ -523,6 +524,91 @@ export async function getEffectiveAISettings(
   return getAISettings(userId);
 }
 
+// Editor Settings types and functions
+export interface EditorSettings {
+  id: string;
+  userId: string;
+  keywordCase: KeywordCase;
+  tabWidth: number;
+  useTabs: boolean;
+  commaPosition: CommaPosition;
+  lintEnabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+function rowToEditorSettings(row: DbRow): EditorSettings {
+  return {
+    id: row.id as string,
+    userId: row.user_id as string,
+    keywordCase: row.keyword_case as KeywordCase,
+    tabWidth: row.tab_width as number,
+    useTabs: Boolean(row.use_tabs),
+    commaPosition: row.comma_position as CommaPosition,
+    lintEnabled: Boolean(row.lint_enabled),
+    createdAt: new Date(row.created_at as string),
+    updatedAt: new Date(row.updated_at as string),
+  };
+}
+
+export async function getEditorSettings(userId: string): Promise<EditorSettings | null> {
+  const client = getDbClient();
+  const row = await client.queryOne<DbRow>('SELECT * FROM editor_settings WHERE user_id = ?', [userId]);
+  return row ? rowToEditorSettings(row) : null;
+}
+
+export async function saveEditorSettings(userId: string, settings: {
+  keywordCase: KeywordCase;
+  tabWidth: number;
+  useTabs: boolean;
+  commaPosition: CommaPosition;
+  lintEnabled: boolean;
+}): Promise<EditorSettings> {
+  const client = getDbClient();
+  const dbType = getDbType();
+  const now = new Date().toISOString();
+  const toBool = (value: boolean) => dbType === 'postgres' ? value : (value ? 1 : 0);
+  const existing = await getEditorSettings(userId);
+
+  if (existing) {
+    await client.execute(
+      `UPDATE editor_settings
+       SET keyword_case = ?, tab_width = ?, use_tabs = ?, comma_position = ?, lint_enabled = ?, updated_at = ?
+       WHERE user_id = ?`,
+      [
+        settings.keywordCase,
+        settings.tabWidth,
+        toBool(settings.useTabs),
+        settings.commaPosition,
+        toBool(settings.lintEnabled),
+        now,
+        userId,
+      ]
+    );
+  } else {
+    const id = uuidv4();
+    await client.execute(
+      `INSERT INTO editor_settings (id, user_id, keyword_case, tab_width, use_tabs, comma_position, lint_enabled, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        id,
+        userId,
+        settings.keywordCase,
+        settings.tabWidth,
+        toBool(settings.useTabs),
+        settings.commaPosition,
+        toBool(settings.lintEnabled),
+        now,
+        now,
+      ]
+    );
+  }
+
+  const result = await getEditorSettings(userId);
+  if (!result) throw new Error('Failed to save editor settings');
+  return result;
+}
+
 // Schema Cache types and functions
 export interface SchemaCache {
   id: string;
@@ -0,0 +1,289 @@
+import { v4 as uuidv4 } from 'uuid';
+import { hasTeamCapability } from './team-roles';
+import { getDbClient, getDbType, type DbRow } from './db-client';
+import type {
+  ChangeRequest,
+  ChangeRequestComment,
+  ChangeRequestDangerLevel,
+  ChangeRequestPreview,
+  ChangeRequestResult,
+  ChangeRequestStatus,
+} from '@/types';
+
+function parseJsonColumn<T>(value: unknown): T | null {
+  if (!value) return null;
+  return getDbType() === 'postgres' ? (value as T) : JSON.parse(value as string);
+}
+
+function toDate(value: unknown): Date | null {
+  return value ? new Date(value as string) : null;
+}
+
+function rowToChangeRequest(row: DbRow): ChangeRequest {
+  const request: ChangeRequest = {
+    id: row.id as string,
+    teamId: row.team_id as string,
+    connectionId: row.connection_id as string,
+    requestedBy: row.requested_by as string,
+    title: row.title as string,
+    description: row.description as string | null,
+    sql: row.sql as string,
+    dangerLevel: row.danger_level as ChangeRequestDangerLevel,
+    status: row.status as ChangeRequestStatus,
+    preview: parseJsonColumn<ChangeRequestPreview>(row.preview),
+    reviewedBy: row.reviewed_by as string | null,
+    reviewedAt: toDate(row.reviewed_at),
+    reviewNote: row.review_note as string | null,
+    result: parseJsonColumn<ChangeRequestResult>(row.result),
+    executedAt: toDate(row.executed_at),
+    createdAt: new Date(row.created_at as string),
+    updatedAt: new Date(row.updated_at as string),
+  };
+
+  if (row.conn_name) {
+    request.connection = {
+      id: row.connection_id as string,
+      name: row.conn_name as string,
+      type: row.conn_type as string,
+    };
+  }
+
+  if (row.requester_email) {
+    request.requester = {
+      id: row.requested_by as string,
+      email: row.requester_email as string,
+      name: row.requester_name as string | null,
+    };
+  }
+
+  if (row.reviewer_email) {
+    request.reviewer = {
+      id: row.reviewed_by as string,
+      email: row.reviewer_email as string,
+      name: row.reviewer_name as string | null,
+    };
+  }
+
+  return request;
+}
+
+function rowToComment(row: DbRow): ChangeRequestComment {
+  const comment: ChangeRequestComment = {
+    id: row.id as string,
+    changeRequestId: row.change_request_id as string,
+    userId: row.user_id as string,
+    content: row.content as string,
+    createdAt: new Date(row.created_at as string),
+  };
+
+  if (row.user_email) {
+    comment.user = {
+      id: row.user_id as string,
+      email: row.user_email as string,
+      name: row.user_name as string | null,
+    };
+  }
+
+  return comment;
+}
+
+const CHANGE_REQUEST_SELECT = `
+  SELECT
+    cr.*,
+    c.name as conn_name,
+    c.type as conn_type,
+    ru.email as requester_email,
+    ru.name as requester_name,
+    vu.email as reviewer_email,
+    vu.name as reviewer_name
+  FROM change_requests cr
+  LEFT JOIN connections c ON cr.connection_id = c.id
+  LEFT JOIN users ru ON cr.requested_by = ru.id
+  LEFT JOIN users vu ON cr.reviewed_by = vu.id
+`;
+
+export async function createChangeRequest(data: {
+  teamId: string;
+  connectionId: string;
+  requestedBy: string;
+  title: string;
+  description: string | null;
+  sql: string;
+  dangerLevel: ChangeRequestDangerLevel;
+  preview: ChangeRequestPreview | null;
+}): Promise<ChangeRequest> {
+  const client = getDbClient();
+  const now = new Date().toISOString();
+  const id = uuidv4();
+
+  await client.execute(
+    `INSERT INTO change_requests (
+      id, team_id, connection_id, requested_by, title, description, sql, danger_level, status, preview, created_at, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      id,
+      data.teamId,
+      data.connectionId,
+      data.requestedBy,
+      data.title,
+      data.description,
+      data.sql,
+      data.dangerLevel,
+      'pending',
+      data.preview ? JSON.stringify(data.preview) : null,
+      now,
+      now,
+    ]
+  );
+
+  const request = await getChangeRequestById(id);
+  if (!request) throw new Error('Failed to create change request');
+  return request;
+}
+
+export async function getChangeRequestById(id: string): Promise<ChangeRequest | null> {
+  const client = getDbClient();
+  const row = await client.queryOne<DbRow>(`${CHANGE_REQUEST_SELECT} WHERE cr.id = ?`, [id]);
+  return row ? rowToChangeRequest(row) : null;
+}
+
+export async function getTeamChangeRequests(
+  teamId: string,
+  options?: { status?: ChangeRequestStatus; limit?: number }
+): Promise<ChangeRequest[]> {
+  const client = getDbClient();
+  const conditions = ['cr.team_id = ?'];
+  const params: unknown[] = [teamId];
+
+  if (options?.status) {
+    conditions.push('cr.status = ?');
+    params.push(options.status);
+  }
+  params.push(options?.limit ?? 100);
+
+  const rows = await client.query<DbRow>(
+    `${CHANGE_REQUEST_SELECT}
+     WHERE ${conditions.join(' AND ')}
+     ORDER BY cr.created_at DESC
+     LIMIT ?`,
+    params
+  );
+  return rows.map(rowToChangeRequest);
+}
+
+export async function updateChangeRequestPreview(id: string, preview: ChangeRequestPreview): Promise<void> {
+  const client = getDbClient();
+  await client.execute(
+    'UPDATE change_requests SET preview = ?, updated_at = ? WHERE id = ?',
+    [JSON.stringify(preview), new Date().toISOString(), id]
+  );
+}
+
+/**
+ * Move a request from one status to another. Returns false when the request
+ * is no longer in the expected status, e.g. another reviewer got to it first.
+ */
+async function transitionChangeRequest(
+  id: string,
+  from: ChangeRequestStatus,
+  to: ChangeRequestStatus,
+  fields: Record<string, unknown> = {}
+): Promise<boolean> {
+  const client = getDbClient();
+  const columns = Object.keys(fields);
+  const result = await client.execute(
+    `UPDATE change_requests
+     SET status = ?, updated_at = ?${columns.map((column) => `, ${column} = ?`).join('')}
+     WHERE id = ? AND status = ?`,
+    [to, new Date().toISOString(), ...Object.values(fields), id, from]
+  );
+  return result.changes > 0;
+}
+
+export async function reviewChangeRequest(
+  id: string,
+  data: { approved: boolean; reviewedBy: string; note: string | null }
+): Promise<boolean> {
+  return transitionChangeRequest(id, 'pending', data.approved ? 'approved' : 'rejected', {
+    reviewed_by: data.reviewedBy,
+    reviewed_at: new Date().toISOString(),
+    review_note: data.note,
+  });
+}
+
+export async function cancelChangeRequest(id: string): Promise<boolean> {
+  return transitionChangeRequest(id, 'pending', 'cancelled');
+}
+
+/**
+ * Approved requests waiting for the job, oldest first
+ */
+export async function getApprovedChangeRequests(): Promise<ChangeRequest[]> {
+  const client = getDbClient();
+  const rows = await client.query<DbRow>(
+    `${CHANGE_REQUEST_SELECT} WHERE cr.status = ? ORDER BY cr.reviewed_at`,
+    ['approved']
+  );
+  return rows.map(rowToChangeRequest);
+}
+
+/**
+ * Mark an approved request as running. Returns false when another process
+ * already claimed it, so each request runs only once.
+ */
+export async function claimChangeRequest(id: string): Promise<boolean> {
+  return transitionChangeRequest(id, 'approved', 'running');
+}
+
+export async function recordChangeRequestResult(id: string, result: ChangeRequestResult): Promise<boolean> {
+  return transitionChangeRequest(id, 'running', result.error ? 'failed' : 'executed', {
+    result: JSON.stringify(result),
+    executed_at: new Date().toISOString(),
+  });
+}
+
+/**
+ * Team members see the team's requests; only members who can approve changes
+ * review them, and never their own
+ */
+export async function canUserReviewChangeRequest(userId: string, request: ChangeRequest): Promise<boolean> {
+  if (request.requestedBy === userId) return false;
+  return hasTeamCapability(request.teamId, userId, 'approve_changes');
+}
+
+// Comments
+export async function createChangeRequestComment(data: {
+  changeRequestId: string;
+  userId: string;
+  content: string;
+}): Promise<ChangeRequestComment> {
+  const client = getDbClient();
+  const id = uuidv4();
+
+  await client.execute(
+    `INSERT INTO change_request_comments (id, change_request_id, user_id, content, created_at)
+     VALUES (?, ?, ?, ?, ?)`,
+    [id, data.changeRequestId, data.userId, data.content, new Date().toISOString()]
+  );
+
+  const row = await client.queryOne<DbRow>(`
+    SELECT c.*, u.email as user_email, u.name as user_name
+    FROM change_request_comments c
+    LEFT JOIN users u ON c.user_id = u.id
+    WHERE c.id = ?
+  `, [id]);
+  if (!row) throw new Error('Failed to create comment');
+  return rowToComment(row);
+}
+
+export async function getChangeRequestComments(changeRequestId: string): Promise<ChangeRequestComment[]> {
+  const client = getDbClient();
+  const rows = await client.query<DbRow>(`
+    SELECT c.*, u.email as user_email, u.name as user_name
+    FROM change_request_comments c
+    LEFT JOIN users u ON c.user_id = u.id
+    WHERE c.change_request_id = ?
+    ORDER BY c.created_at ASC
+  `, [changeRequestId]);
+  return rows.map(rowToComment);
+}
@@ -0,0 +1,92 @@
+/**
+ * Change Set Scripts
+ *
+ * Renders a logged change set as a standalone SQL script, either replaying
+ * the changes or undoing them. Values are inlined so the script can be run
+ * outside the app; it is wrapped in a transaction for the target dialect.
+ */
+
+import { buildInverseStatement } from './data-revert';
+import {
+  buildParameterizedInsert,
+  buildParameterizedDelete,
+  buildParameterizedUpdate,
+  inlineSqlParams,
+  type DatabaseType,
+} from './sql-utils';
+import type { DataChangeLog, DataChangeSet } from '@/types';
+
+export type ChangeSetScriptDirection = 'apply' | 'rollback';
+
+/**
+ * Build the statement that replays a logged change
+ */
+function buildForwardStatement(
+  log: DataChangeLog,
+  dbType: DatabaseType
+): { sql: string; params: unknown[] } | null {
+  switch (log.operation) {
+    case 'INSERT':
+      return log.newValues ? buildParameterizedInsert(log.tableName, log.newValues, dbType) : null;
+
+    case 'UPDATE':
+      return log.newValues && log.rowIdentifier
+        ? buildParameterizedUpdate(
+            log.tableName,
+            log.newValues,
+            Object.keys(log.rowIdentifier),
+            log.rowIdentifier,
+            dbType
+          )
+        : null;
+
+    case 'DELETE': {
+      const identifier = log.rowIdentifier ?? log.oldValues;
+      return identifier
+        ? buildParameterizedDelete(log.tableName, Object.keys(identifier), identifier, dbType)
+        : null;
+    }
+  }
+}
+
+function beginStatement(dbType: DatabaseType): string {
+  return dbType === 'mysql' || dbType === 'mariadb' ? 'START TRANSACTION;' : 'BEGIN;';
+}
+
+export function buildChangeSetScript(
+  set: DataChangeSet,
+  dbType: DatabaseType,
+  direction: ChangeSetScriptDirection = 'apply'
+): string {
+  // Rollback scripts undo the newest change first
+  const changes = direction === 'apply' ? set.changes : [...set.changes].reverse();
+  const author = set.user ? (set.user.name ? `${set.user.name} <${set.user.email}>` : set.user.email) : set.userId;
+
+  const lines: string[] = [
+    `-- ${direction === 'apply' ? 'Change set' : 'Rollback of change set'} ${set.id}`,
+    `-- Connection: ${set.connectionName ?? set.connectionId}`,
+    `-- Tables: ${set.tableNames.join(', ')}`,
+    `-- Author: ${author}`,
+    `-- Applied at: ${set.appliedAt.toISOString()}`,
+    '',
+    beginStatement(dbType),
+    '',
+  ];
+
+  for (const log of changes) {
+    const statement = direction === 'apply'
+      ? buildForwardStatement(log, dbType)
+      : buildInverseStatement(log, dbType);
+
+    if (!statement) {
+      lines.push(`-- Skipped ${log.operation} ${log.id}: the log entry does not record enough to rebuild it`);
+      continue;
+    }
+
+    lines.push(`-- ${log.operation} ${log.tableName} (${log.id})`);
+    lines.push(`${inlineSqlParams(statement.sql, statement.params, dbType)};`);
+  }
+
+  lines.push('', 'COMMIT;', '');
+  return lines.join('\n');
+}
@@ -20,6 +20,8 @@ import type { DatabaseConnection, ColumnInfo } from '@/types';
 // Union type for all pool wrappers
 export type PoolWrapper = MySQLPoolWrapper | PostgresPoolWrapper | SQLitePoolWrapper;
 export type PoolQueryResult = MySQLQueryResult | PostgresQueryResult | SQLiteQueryResult;
+// Executes a statement on the connection that owns the open transaction
+export type TransactionQuery = (sql: string, params?: unknown[]) => Promise<PoolQueryResult>;
 
 export interface PoolConfig {
   mysql?: {
@@ -150,7 +152,7 @@ class ConnectionPoolManager {
     connection: DatabaseConnection,
     sql: string,
     params?: unknown[],
-    options?: { timeout?: number; limit?: number }
+    options?: { timeout?: number; limit?: number; executionId?: string }
   ): Promise<PoolQueryResult> {
     const pool = await this.getPool(connection);
     const timeout = options?.timeout;
@@ -158,9 +160,9 @@ class ConnectionPoolManager {
     let result: PoolQueryResult;
     
     if (timeout && timeout > 0) {
-      result = await pool.queryWithTimeout(sql, params, timeout);
+      result = await pool.queryWithTimeout(sql, params, timeout, options?.executionId);
     } else {
-      result = await pool.query(sql, params);
+      result = await pool.query(sql, params, options?.executionId);
     }
 
     // Apply limit if specified
@@ -171,6 +173,30 @@ class ConnectionPoolManager {
     return result;
   }
 
+  /**
+   * Cancel an execution started with an executionId on a connection's pool.
+   * Returns false when no such execution is running.
+   */
+  async cancelQuery(connectionId: string, executionId: string): Promise<boolean> {
+    const pool = this.pools.get(connectionId);
+    if (!pool) return false;
+    return pool.cancel(executionId);
+  }
+
+  /**
+   * Run work inside a single transaction on one pooled connection.
+   * The transaction is committed when work resolves and rolled back when it throws.
+   * An executionId makes the running statement cancellable with cancelQuery.
+   */
+  async transaction<T>(
+    connection: DatabaseConnection,
+    work: (query: TransactionQuery) => Promise<T>,
+    executionId?: string
+  ): Promise<T> {
+    const pool = await this.getPool(connection);
+    return pool.transaction(work, executionId);
+  }
+
   /**
    * Evict the least recently used pool
    */
@@ -0,0 +1,307 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getUserRoleInTeam } from './teams';
+import { hasTeamCapability } from './team-roles';
+import { getDbClient, getDbType, type DbRow } from './db-client';
+import type {
+  ChartConfig,
+  Dashboard,
+  DashboardWidget,
+  DashboardWidgetWidth,
+  QueryParameterValue,
+} from '@/types';
+
+function parseJsonColumn<T>(value: unknown, fallback: T): T {
+  if (!value) return fallback;
+  return getDbType() === 'postgres' ? (value as T) : JSON.parse(value as string);
+}
+
+function rowToDashboard(row: DbRow): Dashboard {
+  const dashboard: Dashboard = {
+    id: row.id as string,
+    userId: row.user_id as string,
+    teamId: row.team_id as string | null,
+    name: row.name as string,
+    description: row.description as string | null,
+    createdAt: new Date(row.created_at as string),
+    updatedAt: new Date(row.updated_at as string),
+  };
+
+  if (row.user_email) {
+    dashboard.user = {
+      id: row.user_id as string,
+      email: row.user_email as string,
+      name: row.user_name as string | null,
+    };
+  }
+
+  if (row.team_name) {
+    dashboard.team = {
+      id: row.team_id as string,
+      name: row.team_name as string,
+    };
+  }
+
+  return dashboard;
+}
+
+function rowToWidget(row: DbRow): DashboardWidget {
+  const widget: DashboardWidget = {
+    id: row.id as string,
+    dashboardId: row.dashboard_id as string,
+    queryId: row.query_id as string,
+    connectionId: row.connection_id as string | null,
+    title: row.title as string,
+    chart: parseJsonColumn<ChartConfig>(row.chart_config, { type: 'table' }),
+    parameterValues: parseJsonColumn<Record<string, QueryParameterValue>>(row.parameter_values, {}),
+    refreshInterval: row.refresh_interval === null || row.refresh_interval === undefined
+      ? null
+      : Number(row.refresh_interval),
+    width: row.width as DashboardWidgetWidth,
+    position: Number(row.position),
+    createdAt: new Date(row.created_at as string),
+    updatedAt: new Date(row.updated_at as string),
+  };
+
+  if (row.query_name) {
+    widget.query = {
+      id: row.query_id as string,
+      name: row.query_name as string,
+    };
+  }
+
+  return widget;
+}
+
+const DASHBOARD_SELECT = `
+  SELECT
+    d.*,
+    u.email as user_email,
+    u.name as user_name,
+    t.name as team_name
+  FROM dashboards d
+  LEFT JOIN users u ON d.user_id = u.id
+  LEFT JOIN teams t ON d.team_id = t.id
+`;
+
+export async function createDashboard(data: {
+  userId: string;
+  teamId?: string | null;
+  name: string;
+  description?: string | null;
+}): Promise<Dashboard> {
+  const client = getDbClient();
+  const now = new Date().toISOString();
+  const id = uuidv4();
+
+  await client.execute(
+    `INSERT INTO dashboards (id, user_id, team_id, name, description, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    [id, data.userId, data.teamId || null, data.name, data.description || null, now, now]
+  );
+
+  const dashboard = await getDashboardById(id);
+  if (!dashboard) throw new Error('Failed to create dashboard');
+  return dashboard;
+}
+
+export async function getDashboardById(id: string): Promise<Dashboard | null> {
+  const client = getDbClient();
+  const row = await client.queryOne<DbRow>(`${DASHBOARD_SELECT} WHERE d.id = ?`, [id]);
+  return row ? rowToDashboard(row) : null;
+}
+
+/**
+ * Dashboards of a team workspace, or the user's personal dashboards
+ */
+export async function getUserDashboards(userId: string, options?: {
+  teamId?: string | null;
+}): Promise<Dashboard[]> {
+  const client = getDbClient();
+
+  const rows = options?.teamId
+    ? await client.query<DbRow>(`${DASHBOARD_SELECT} WHERE d.team_id = ? ORDER BY d.name`, [options.teamId])
+    : await client.query<DbRow>(
+        `${DASHBOARD_SELECT} WHERE d.user_id = ? AND d.team_id IS NULL ORDER BY d.name`,
+        [userId]
+      );
+
+  return rows.map(rowToDashboard);
+}
+
+export async function updateDashboard(id: string, updates: {
+  name?: string;
+  description?: string | null;
+  teamId?: string | null;
+}): Promise<Dashboard | null> {
+  const client = getDbClient();
+  const fields: string[] = ['updated_at = ?'];
+  const values: unknown[] = [new Date().toISOString()];
+
+  if (updates.name !== undefined) {
+    fields.push('name = ?');
+    values.push(updates.name);
+  }
+  if (updates.description !== undefined) {
+    fields.push('description = ?');
+    values.push(updates.description);
+  }
+  if (updates.teamId !== undefined) {
+    fields.push('team_id = ?');
+    values.push(updates.teamId);
+  }
+
+  values.push(id);
+  await client.execute(`UPDATE dashboards SET ${fields.join(', ')} WHERE id = ?`, values);
+
+  return getDashboardById(id);
+}
+
+export async function deleteDashboard(id: string): Promise<boolean> {
+  const client = getDbClient();
+  const result = await client.execute('DELETE FROM dashboards WHERE id = ?', [id]);
+  return result.changes > 0;
+}
+
+/**
+ * Team dashboards are visible to every member of the team
+ */
+export async function canUserViewDashboard(userId: string, dashboardId: string): Promise<boolean> {
+  const dashboard = await getDashboardById(dashboardId);
+  if (!dashboard) return false;
+  if (dashboard.userId === userId) return true;
+  if (!dashboard.teamId) return false;
+  return (await getUserRoleInTeam(dashboard.teamId, userId)) !== null;
+}
+
+/**
+ * The creator and anyone whose team role manages the team can change a dashboard and its widgets
+ */
+export async function canUserModifyDashboard(userId: string, dashboardId: string): Promise<boolean> {
+  const dashboard = await getDashboardById(dashboardId);
+  if (!dashboard) return false;
+  if (dashboard.userId === userId) return true;
+  if (!dashboard.teamId) return false;
+  return hasTeamCapability(dashboard.teamId, userId, 'manage_team');
+}
+
+const WIDGET_SELECT = `
+  SELECT
+    w.*,
+    q.name as query_name
+  FROM dashboard_widgets w
+  LEFT JOIN saved_queries q ON w.query_id = q.id
+`;
+
+export async function getDashboardWidgets(dashboardId: string): Promise<DashboardWidget[]> {
+  const client = getDbClient();
+  const rows = await client.query<DbRow>(
+    `${WIDGET_SELECT} WHERE w.dashboard_id = ? ORDER BY w.position, w.created_at`,
+    [dashboardId]
+  );
+  return rows.map(rowToWidget);
+}
+
+export async function getDashboardWidgetById(id: string): Promise<DashboardWidget | null> {
+  const client = getDbClient();
+  const row = await client.queryOne<DbRow>(`${WIDGET_SELECT} WHERE w.id = ?`, [id]);
+  return row ? rowToWidget(row) : null;
+}
+
+export async function createDashboardWidget(data: {
+  dashboardId: string;
+  queryId: string;
+  connectionId?: string | null;
+  title: string;
+  chart: ChartConfig;
+  parameterValues?: Record<string, QueryParameterValue>;
+  refreshInterval?: number | null;
+  width?: DashboardWidgetWidth;
+}): Promise<DashboardWidget> {
+  const client = getDbClient();
+  const now = new Date().toISOString();
+  const id = uuidv4();
+
+  // New widgets go to the end of the dashboard
+  const last = await client.queryOne<DbRow>(
+    'SELECT MAX(position) as position FROM dashboard_widgets WHERE dashboard_id = ?',
+    [data.dashboardId]
+  );
+  const position = last?.position === null || last?.position === undefined ? 0 : Number(last.position) + 1;
+
+  await client.execute(
+    `INSERT INTO dashboard_widgets (id, dashboard_id, query_id, connection_id, title, chart_config, parameter_values, refresh_interval, width, position, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      id,
+      data.dashboardId,
+      data.queryId,
+      data.connectionId || null,
+      data.title,
+      JSON.stringify(data.chart),
+      data.parameterValues && Object.keys(data.parameterValues).length ? JSON.stringify(data.parameterValues) : null,
+      data.refreshInterval ?? null,
+      data.width || 'half',
+      position,
+      now,
+      now,
+    ]
+  );
+
+  const widget = await getDashboardWidgetById(id);
+  if (!widget) throw new Error('Failed to create dashboard widget');
+  return widget;
+}
+
+export async function updateDashboardWidget(id: string, updates: {
+  connectionId?: string | null;
+  title?: string;
+  chart?: ChartConfig;
+  parameterValues?: Record<string, QueryParameterValue>;
+  refreshInterval?: number | null;
+  width?: DashboardWidgetWidth;
+  position?: number;
+}): Promise<DashboardWidget | null> {
+  const client = getDbClient();
+  const fields: string[] = ['updated_at = ?'];
+  const values: unknown[] = [new Date().toISOString()];
+
+  if (updates.connectionId !== undefined) {
+    fields.push('connection_id = ?');
+    values.push(updates.connectionId);
+  }
+  if (updates.title !== undefined) {
+    fields.push('title = ?');
+    values.push(updates.title);
+  }
+  if (updates.chart !== undefined) {
+    fields.push('chart_config = ?');
+    values.push(JSON.stringify(updates.chart));
+  }
+  if (updates.parameterValues !== undefined) {
+    fields.push('parameter_values = ?');
+    values.push(Object.keys(updates.parameterValues).length ? JSON.stringify(updates.parameterValues) : null);
+  }
+  if (updates.refreshInterval !== undefined) {
+    fields.push('refresh_interval = ?');
+    values.push(updates.refreshInterval);
+  }
+  if (updates.width !== undefined) {
+    fields.push('width = ?');
+    values.push(updates.width);
+  }
+  if (updates.position !== undefined) {
+    fields.push('position = ?');
+    values.push(updates.position);
+  }
+
+  values.push(id);
+  await client.execute(`UPDATE dashboard_widgets SET ${fields.join(', ')} WHERE id = ?`, values);
+
+  return getDashboardWidgetById(id);
+}
+
+export async function deleteDashboardWidget(id: string): Promise<boolean> {
+  const client = getDbClient();
+  const result = await client.execute('DELETE FROM dashboard_widgets WHERE id = ?', [id]);
+  return result.changes > 0;
+}
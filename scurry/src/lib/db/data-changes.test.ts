@@ -0,0 +1,70 @@
+import { describe, expect, it, vi } from 'vitest';
+import { planDataChanges } from './data-changes';
+
+// Planning builds SQL only; nothing connects to a database
+vi.mock('./connection-pool', () => ({ getPoolManager: vi.fn() }));
+vi.mock('./db-client', () => ({ getDbClient: vi.fn(), getDbType: vi.fn() }));
+
+describe('planDataChanges', () => {
+  it('matches an update to a non-key column on the row key it was loaded with', () => {
+    const { planned, failures } = planDataChanges(
+      'orders',
+      ['id'],
+      {
+        updates: [{ rowIndex: 3, column: 'note', oldValue: 'a', newValue: 'b', rowKey: { id: 42 } }],
+        inserts: [],
+        deletes: [],
+      },
+      'postgresql',
+      {}
+    );
+
+    expect(failures).toEqual([]);
+    expect(planned).toHaveLength(1);
+    expect(planned[0]).toMatchObject({
+      operation: 'UPDATE',
+      rowIndex: 3,
+      sql: 'UPDATE "orders" SET "note" = $1 WHERE "id" = $2',
+      params: ['b', 42],
+      rowIdentifier: { id: 42 },
+      oldValues: { note: 'a' },
+      newValues: { note: 'b' },
+    });
+  });
+
+  it('matches an edited key column on its old value', () => {
+    const { planned } = planDataChanges(
+      'orders',
+      ['id'],
+      {
+        updates: [
+          { rowIndex: 0, column: 'id', oldValue: 1, newValue: 2, rowKey: { id: 1 } },
+          { rowIndex: 0, column: 'note', oldValue: null, newValue: 'x', rowKey: { id: 1 } },
+        ],
+        inserts: [],
+        deletes: [],
+      },
+      'sqlite',
+      { rowFilter: "(region = 'EU')" }
+    );
+
+    expect(planned[0]).toMatchObject({
+      sql: 'UPDATE "orders" SET "id" = ?, "note" = ? WHERE "id" = ? AND (region = \'EU\')',
+      params: [2, 'x', 1],
+      rowIdentifier: { id: 1 },
+    });
+  });
+
+  it('reports an update without its row key as a failure', () => {
+    const { planned, failures } = planDataChanges(
+      'orders',
+      ['id'],
+      { updates: [{ rowIndex: 5, column: 'note', oldValue: 'a', newValue: 'b', rowKey: {} }], inserts: [], deletes: [] },
+      'mysql',
+      {}
+    );
+
+    expect(planned).toEqual([]);
+    expect(failures).toEqual([{ operation: 'UPDATE', rowIndex: 5, error: 'Missing primary key value for id' }]);
+  });
+});
@@ -1,11 +1,14 @@
 import { v4 as uuidv4 } from 'uuid';
 import type {
   DataChangeLog,
+  DataChangeSet,
   ChangeOperation,
   PendingChanges,
+  ApplyChangesMode,
+  ApplyChangeFailure,
   ApplyChangesResult,
 } from '@/types';
-import { executeQueryWithParams } from './query-executor';
+import { getPoolManager, type TransactionQuery } from './connection-pool';
 import type { DatabaseConnection } from '@/types';
 import { getDbClient, getDbType, type DbRow } from './db-client';
 import {
@@ -16,6 +19,7 @@ import {
   buildParameterizedUpdate,
   type DatabaseType,
 } from './sql-utils';
+import type { PermissionOperation } from '@/lib/validations/team';
 
 function rowToDataChangeLog(row: DbRow): DataChangeLog {
   const dbType = getDbType();
@@ -41,6 +45,7 @@ function rowToDataChangeLog(row: DbRow): DataChangeLog {
       : null,
     userId: row.user_id as string,
     appliedAt: new Date(row.applied_at as string),
+    changeSetId: (row.change_set_id as string | null) ?? null,
   };
 
   if (row.user_email) {
@@ -62,14 +67,15 @@ export async function logDataChange(data: {
   oldValues?: Record<string, unknown> | null;
   newValues?: Record<string, unknown> | null;
   userId: string;
+  changeSetId?: string | null;
 }): Promise<DataChangeLog> {
   const client = getDbClient();
   const now = new Date().toISOString();
   const id = uuidv4();
 
   await client.execute(
-    `INSERT INTO data_change_logs (id, connection_id, table_name, operation, row_identifier, old_values, new_values, user_id, applied_at)
-     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    `INSERT INTO data_change_logs (id, connection_id, table_name, operation, row_identifier, old_values, new_values, user_id, applied_at, change_set_id)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
     [
       id,
       data.connectionId,
@@ -79,7 +85,8 @@ export async function logDataChange(data: {
       data.oldValues ? JSON.stringify(data.oldValues) : null,
       data.newValues ? JSON.stringify(data.newValues) : null,
       data.userId,
-      now
+      now,
+      data.changeSetId || null
     ]
   );
 
@@ -107,6 +114,7 @@ export async function getDataChangeLogs(options: {
   connectionId?: string;
   tableName?: string;
   userId?: string;
+  changeSetId?: string;
   limit?: number;
   offset?: number;
 }): Promise<DataChangeLog[]> {
@@ -134,6 +142,11 @@ export async function getDataChangeLogs(options: {
     params.push(options.userId);
   }
 
+  if (options.changeSetId) {
+    conditions.push(dbType === 'postgres' ? `dcl.change_set_id = $${paramIndex++}` : 'dcl.change_set_id = ?');
+    params.push(options.changeSetId);
+  }
+
   const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
 
   const sql = dbType === 'postgres'
@@ -162,6 +175,128 @@ export async function getDataChangeLogs(options: {
   return rows.map(rowToDataChangeLog);
 }
 
+// Entries logged before change sets existed are treated as sets of their own
+const CHANGE_SET_KEY = 'COALESCE(dcl.change_set_id, dcl.id)';
+
+function rowToDataChangeSet(row: DbRow, changes: DataChangeLog[]): DataChangeSet {
+  const set: DataChangeSet = {
+    id: row.set_id as string,
+    connectionId: row.connection_id as string,
+    connectionName: (row.connection_name as string | null) ?? null,
+    tableNames: Array.from(new Set(changes.map((change) => change.tableName))),
+    userId: row.user_id as string,
+    startedAt: new Date(row.started_at as string),
+    appliedAt: new Date(row.applied_at as string),
+    insertCount: Number(row.insert_count) || 0,
+    updateCount: Number(row.update_count) || 0,
+    deleteCount: Number(row.delete_count) || 0,
+    changes,
+  };
+
+  if (row.user_email) {
+    set.user = {
+      id: row.user_id as string,
+      email: row.user_email as string,
+      name: row.user_name as string | null,
+    };
+  }
+
+  return set;
+}
+
+/**
+ * Change history grouped by change set, most recent set first
+ */
+export async function getDataChangeSets(options: {
+  connectionId: string;
+  tableName?: string;
+  changeSetId?: string;
+  limit?: number;
+  offset?: number;
+}): Promise<DataChangeSet[]> {
+  const client = getDbClient();
+  const limit = options.limit || 20;
+  const offset = options.offset || 0;
+
+  const conditions: string[] = ['dcl.connection_id = ?'];
+  const params: unknown[] = [options.connectionId];
+
+  if (options.tableName) {
+    conditions.push('dcl.table_name = ?');
+    params.push(options.tableName);
+  }
+
+  if (options.changeSetId) {
+    conditions.push(`${CHANGE_SET_KEY} = ?`);
+    params.push(options.changeSetId);
+  }
+
+  const whereClause = conditions.join(' AND ');
+
+  const setRows = await client.query<DbRow>(`
+    SELECT
+      s.*,
+      u.email as user_email,
+      u.name as user_name,
+      c.name as connection_name
+    FROM (
+      SELECT
+        ${CHANGE_SET_KEY} as set_id,
+        MAX(dcl.connection_id) as connection_id,
+        MAX(dcl.user_id) as user_id,
+        MIN(dcl.applied_at) as started_at,
+        MAX(dcl.applied_at) as applied_at,
+        SUM(CASE WHEN dcl.operation = 'INSERT' THEN 1 ELSE 0 END) as insert_count,
+        SUM(CASE WHEN dcl.operation = 'UPDATE' THEN 1 ELSE 0 END) as update_count,
+        SUM(CASE WHEN dcl.operation = 'DELETE' THEN 1 ELSE 0 END) as delete_count
+      FROM data_change_logs dcl
+      WHERE ${whereClause}
+      GROUP BY ${CHANGE_SET_KEY}
+    ) s
+    LEFT JOIN users u ON s.user_id = u.id
+    LEFT JOIN connections c ON s.connection_id = c.id
+    ORDER BY s.applied_at DESC
+    LIMIT ? OFFSET ?
+  `, [...params, limit, offset]);
+
+  if (setRows.length === 0) {
+    return [];
+  }
+
+  const setIds = setRows.map((row) => row.set_id as string);
+  const placeholders = setIds.map(() => '?').join(', ');
+  const logRows = await client.query<DbRow>(`
+    SELECT
+      dcl.*,
+      u.email as user_email,
+      u.name as user_name
+    FROM data_change_logs dcl
+    LEFT JOIN users u ON dcl.user_id = u.id
+    WHERE ${whereClause} AND ${CHANGE_SET_KEY} IN (${placeholders})
+    ORDER BY dcl.applied_at ASC
+  `, [...params, ...setIds]);
+
+  const changesBySet = new Map<string, DataChangeLog[]>();
+  for (const row of logRows) {
+    const log = rowToDataChangeLog(row);
+    const key = log.changeSetId ?? log.id;
+    if (!changesBySet.has(key)) {
+      changesBySet.set(key, []);
+    }
+    changesBySet.get(key)!.push(log);
+  }
+
+  return setRows.map((row) => rowToDataChangeSet(row, changesBySet.get(row.set_id as string) ?? []));
+}
+
+export async function getDataChangeSetById(
+  connectionId: string,
+  changeSetId: string
+): Promise<DataChangeSet | null> {
+  const [set] = await getDataChangeSets({ connectionId, changeSetId, limit: 1 });
+  return set ?? null;
+}
+
 /**
  * Validates table and column names to prevent SQL injection
  * @throws Error if any identifier is invalid
@@ -187,87 +322,123 @@ function getConnectionDbType(connection: DatabaseConnection): DatabaseType {
   return connection.type as DatabaseType;
 }
 
-export async function applyDataChanges(
-  connection: DatabaseConnection,
+/**
+ * Limits on a team member's edits: rows outside rowFilter match nothing,
+ * and only the listed operations may run (all when unset)
+ */
+interface DataChangeRestrictions {
+  rowFilter?: string | null;
+  operations?: PermissionOperation[];
+}
+
+const CHANGE_GRANTS: Record<ChangeOperation, PermissionOperation> = {
+  INSERT: 'insert',
+  UPDATE: 'update',
+  DELETE: 'delete',
+};
+
+interface PlannedChange {
+  operation: ChangeOperation;
+  rowIndex?: number;
+  tempId?: string;
+  sql: string;
+  params: unknown[];
+  rowIdentifier: Record<string, unknown> | null;
+  oldValues: Record<string, unknown> | null;
+  newValues: Record<string, unknown> | null;
+}
+
+/**
+ * Thrown inside the transaction to roll back an atomic batch
+ */
+class BatchRolledBackError extends Error {}
+
+function describeFailure(failure: ApplyChangeFailure): string {
+  const label = failure.operation.charAt(0) + failure.operation.slice(1).toLowerCase();
+  const target = failure.tempId !== undefined
+    ? ` (new row ${failure.tempId})`
+    : failure.rowIndex !== undefined ? ` (row ${failure.rowIndex})` : '';
+  return `${label} error${target}: ${failure.error}`;
+}
+
+/**
+ * Build the parameterized statements for a batch. Rows that can't be turned
+ * into a statement, or whose operation isn't granted, are reported as
+ * failures instead of planned changes. A row filter is added to updates and
+ * deletes, so rows outside it match nothing.
+ */
+export function planDataChanges(
   tableName: string,
   primaryKeyColumns: string[],
   changes: PendingChanges,
-  userId: string
-): Promise<ApplyChangesResult> {
-  const result: ApplyChangesResult = {
-    success: true,
-    insertedCount: 0,
-    updatedCount: 0,
-    deletedCount: 0,
-    errors: [],
+  dbType: DatabaseType,
+  restrictions: DataChangeRestrictions
+): { planned: PlannedChange[]; failures: ApplyChangeFailure[] } {
+  const { rowFilter, operations } = restrictions;
+  const filtered = (sql: string) => rowFilter ? `${sql} AND ${rowFilter}` : sql;
+  const checkGranted = (operation: ChangeOperation) => {
+    if (operations && !operations.includes(CHANGE_GRANTS[operation])) {
+      throw new Error(`You do not have ${operation} permission on this table`);
+    }
   };
 
-  const dbType = getConnectionDbType(connection);
-
-  // Validate table name before any operations
-  try {
-    validateTableAndColumns(tableName, primaryKeyColumns);
-  } catch (error) {
-    result.errors.push(`Validation error: ${error instanceof Error ? error.message : 'Invalid identifiers'}`);
-    result.success = false;
-    return result;
-  }
+  const planned: PlannedChange[] = [];
+  const failures: ApplyChangeFailure[] = [];
 
-  // Process deletes first (using parameterized queries)
+  // Deletes first, then updates, then inserts
   for (const del of changes.deletes) {
     try {
-      // Validate columns in row data
+      checkGranted('DELETE');
       validateTableAndColumns(tableName, Object.keys(del.rowData));
-      
+
       const { sql, params } = buildParameterizedDelete(
         tableName,
         primaryKeyColumns,
         del.rowData,
         dbType
       );
-      
-      const queryResult = await executeQueryWithParams(connection, sql, params);
-      
-      if (queryResult.error) {
-        result.errors.push(`Delete error: ${queryResult.error}`);
-        result.success = false;
-      } else {
-        result.deletedCount++;
-        await logDataChange({
-          connectionId: connection.id,
-          tableName,
-          operation: 'DELETE',
-          rowIdentifier: Object.fromEntries(
-            primaryKeyColumns.map((col) => [col, del.rowData[col]])
-          ),
-          oldValues: del.rowData,
-          newValues: null,
-          userId,
-        });
-      }
+
+      planned.push({
+        operation: 'DELETE',
+        rowIndex: del.rowIndex,
+        sql: filtered(sql),
+        params,
+        rowIdentifier: Object.fromEntries(
+          primaryKeyColumns.map((col) => [col, del.rowData[col]])
+        ),
+        oldValues: del.rowData,
+        newValues: null,
+      });
     } catch (error) {
-      result.errors.push(`Delete error: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      result.success = false;
+      failures.push({
+        operation: 'DELETE',
+        rowIndex: del.rowIndex,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
     }
   }
 
-  // Process updates (using parameterized queries)
-  const updatesByRow = new Map<number, Record<string, { oldValue: unknown; newValue: unknown }>>();
+  const updatesByRow = new Map<number, {
+    rowKey: Record<string, unknown>;
+    columns: Record<string, { oldValue: unknown; newValue: unknown }>;
+  }>();
   for (const update of changes.updates) {
     if (!updatesByRow.has(update.rowIndex)) {
-      updatesByRow.set(update.rowIndex, {});
+      updatesByRow.set(update.rowIndex, { rowKey: {}, columns: {} });
     }
-    updatesByRow.get(update.rowIndex)![update.column] = {
+    const row = updatesByRow.get(update.rowIndex)!;
+    Object.assign(row.rowKey, update.rowKey);
+    row.columns[update.column] = {
       oldValue: update.oldValue,
       newValue: update.newValue,
     };
   }
 
-  for (const [, columnUpdates] of updatesByRow) {
+  for (const [rowIndex, { rowKey, columns: columnUpdates }] of updatesByRow) {
     try {
-      // Validate column names
+      checkGranted('UPDATE');
       validateTableAndColumns(tableName, Object.keys(columnUpdates));
-      
+
       const oldValues: Record<string, unknown> = {};
       const newValues: Record<string, unknown> = {};
       for (const [col, { oldValue, newValue }] of Object.entries(columnUpdates)) {
@@ -275,10 +446,15 @@ export async function applyDataChanges(
         newValues[col] = newValue;
       }
 
-      // Build row identifier for WHERE clause using old values of primary key columns
+      // Match the row on its primary key as loaded: the old value of an edited key column, else the row's key
       const rowIdentifier: Record<string, unknown> = {};
       for (const col of primaryKeyColumns) {
-        rowIdentifier[col] = columnUpdates[col]?.oldValue ?? oldValues[col];
+        rowIdentifier[col] = col in columnUpdates ? columnUpdates[col].oldValue : rowKey[col];
+      }
+
+      const missingKeys = primaryKeyColumns.filter((col) => rowIdentifier[col] === undefined);
+      if (missingKeys.length > 0) {
+        throw new Error(`Missing primary key value for ${missingKeys.join(', ')}`);
       }
 
       const { sql, params } = buildParameterizedUpdate(
@@ -288,65 +464,187 @@ export async function applyDataChanges(
         rowIdentifier,
         dbType
       );
-      
-      const queryResult = await executeQueryWithParams(connection, sql, params);
-      
-      if (queryResult.error) {
-        result.errors.push(`Update error: ${queryResult.error}`);
-        result.success = false;
-      } else {
-        result.updatedCount++;
-        await logDataChange({
-          connectionId: connection.id,
-          tableName,
-          operation: 'UPDATE',
-          rowIdentifier: Object.fromEntries(
-            primaryKeyColumns.map((col) => [col, oldValues[col]])
-          ),
-          oldValues,
-          newValues,
-          userId,
-        });
-      }
+
+      planned.push({
+        operation: 'UPDATE',
+        rowIndex,
+        sql: filtered(sql),
+        params,
+        rowIdentifier,
+        oldValues,
+        newValues,
+      });
     } catch (error) {
-      result.errors.push(`Update error: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      result.success = false;
+      failures.push({
+        operation: 'UPDATE',
+        rowIndex,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
     }
   }
 
-  // Process inserts (using parameterized queries)
   for (const insert of changes.inserts) {
     try {
-      // Validate column names
+      checkGranted('INSERT');
       validateTableAndColumns(tableName, Object.keys(insert.values));
-      
+
       const { sql, params } = buildParameterizedInsert(
         tableName,
         insert.values,
         dbType
       );
-      
-      const queryResult = await executeQueryWithParams(connection, sql, params);
-      
-      if (queryResult.error) {
-        result.errors.push(`Insert error: ${queryResult.error}`);
-        result.success = false;
-      } else {
-        result.insertedCount++;
-        await logDataChange({
-          connectionId: connection.id,
-          tableName,
-          operation: 'INSERT',
-          rowIdentifier: null,
-          oldValues: null,
-          newValues: insert.values,
-          userId,
-        });
-      }
+
+      planned.push({
+        operation: 'INSERT',
+        tempId: insert.tempId,
+        sql,
+        params,
+        rowIdentifier: null,
+        oldValues: null,
+        newValues: insert.values,
+      });
     } catch (error) {
-      result.errors.push(`Insert error: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      result.success = false;
+      failures.push({
+        operation: 'INSERT',
+        tempId: insert.tempId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return { planned, failures };
+}
+
+/**
+ * Run a planned statement, treating an UPDATE or DELETE that matched no row as a failure
+ */
+async function runPlannedChange(query: TransactionQuery, change: PlannedChange): Promise<void> {
+  const queryResult = await query(change.sql, change.params);
+  if (change.operation !== 'INSERT' && queryResult.affectedRows === 0) {
+    throw new Error('No row matched the primary key; it may have been changed or deleted');
+  }
+}
+
+/**
+ * Apply a batch of pending changes in a single transaction on one pooled connection.
+ *
+ * In atomic mode (the default) the first failing row rolls back the whole batch.
+ * In savepoint mode each row runs under its own savepoint, so failing rows are
+ * rolled back individually and the remaining rows are committed.
+ * Change logs are written only after the transaction commits, and only for rows
+ * that were actually applied.
+ */
+export async function applyDataChanges(
+  connection: DatabaseConnection,
+  tableName: string,
+  primaryKeyColumns: string[],
+  changes: PendingChanges,
+  userId: string,
+  options: { mode?: ApplyChangesMode } & DataChangeRestrictions = {}
+): Promise<ApplyChangesResult> {
+  const mode = options.mode ?? 'atomic';
+  const result: ApplyChangesResult = {
+    success: true,
+    mode,
+    changeSetId: uuidv4(),
+    rolledBack: false,
+    insertedCount: 0,
+    updatedCount: 0,
+    deletedCount: 0,
+    failures: [],
+    errors: [],
+  };
+
+  const fail = (message: string): ApplyChangesResult => {
+    result.errors.push(message);
+    result.success = false;
+    result.rolledBack = true;
+    return result;
+  };
+
+  // Validate table name before any operations
+  try {
+    validateTableAndColumns(tableName, primaryKeyColumns);
+  } catch (error) {
+    return fail(`Validation error: ${error instanceof Error ? error.message : 'Invalid identifiers'}`);
+  }
+
+  const { planned, failures } = planDataChanges(
+    tableName,
+    primaryKeyColumns,
+    changes,
+    getConnectionDbType(connection),
+    options
+  );
+  result.failures.push(...failures);
+
+  // An atomic batch can't succeed if any row failed to plan
+  if (mode === 'atomic' && failures.length > 0) {
+    failures.forEach((failure) => result.errors.push(describeFailure(failure)));
+    return fail('No changes were applied because the batch was rolled back');
+  }
+
+  let applied: PlannedChange[] = [];
+  try {
+    applied = await getPoolManager().transaction(connection, async (query) => {
+      const succeeded: PlannedChange[] = [];
+
+      for (const [index, change] of planned.entries()) {
+        const savepoint = `apply_change_${index}`;
+        if (mode === 'savepoint') {
+          await query(`SAVEPOINT ${savepoint}`);
+        }
+
+        try {
+          await runPlannedChange(query, change);
+          if (mode === 'savepoint') {
+            await query(`RELEASE SAVEPOINT ${savepoint}`);
+          }
+          succeeded.push(change);
+        } catch (error) {
+          result.failures.push({
+            operation: change.operation,
+            rowIndex: change.rowIndex,
+            tempId: change.tempId,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+
+          if (mode === 'atomic') {
+            throw new BatchRolledBackError();
+          }
+          await query(`ROLLBACK TO SAVEPOINT ${savepoint}`);
+          await query(`RELEASE SAVEPOINT ${savepoint}`);
+        }
+      }
+
+      return succeeded;
+    });
+  } catch (error) {
+    result.failures.forEach((failure) => result.errors.push(describeFailure(failure)));
+    if (!(error instanceof BatchRolledBackError)) {
+      result.errors.push(`Transaction error: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
+    return fail('No changes were applied because the batch was rolled back');
+  }
+
+  result.failures.forEach((failure) => result.errors.push(describeFailure(failure)));
+  result.success = result.failures.length === 0;
+
+  for (const change of applied) {
+    if (change.operation === 'INSERT') result.insertedCount++;
+    if (change.operation === 'UPDATE') result.updatedCount++;
+    if (change.operation === 'DELETE') result.deletedCount++;
+
+    await logDataChange({
+      connectionId: connection.id,
+      tableName,
+      operation: change.operation,
+      rowIdentifier: change.rowIdentifier,
+      oldValues: change.oldValues,
+      newValues: change.newValues,
+      userId,
+      changeSetId: result.changeSetId,
+    });
   }
 
   return result;
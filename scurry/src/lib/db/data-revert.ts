@@ -0,0 +1,393 @@
+/**
+ * Data Change Revert
+ *
+ * Builds and applies the inverse of logged data changes. Every revert runs in
+ * a single transaction on the target connection: each step re-reads the row,
+ * reports a conflict when it no longer matches the logged state, and only
+ * then runs the inverse statement. Previews run the same steps and roll back.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { getDataChangeLogById, logDataChange } from './data-changes';
+import { getPoolManager, type TransactionQuery } from './connection-pool';
+import {
+  validateIdentifier,
+  quoteIdentifier,
+  buildParameterizedWhereClause,
+  buildParameterizedInsert,
+  buildParameterizedDelete,
+  buildParameterizedUpdate,
+  inlineSqlParams,
+  type DatabaseType,
+} from './sql-utils';
+import type {
+  DatabaseConnection,
+  DataChangeLog,
+  ChangeOperation,
+  RevertConflict,
+  RevertStep,
+  RevertResult,
+} from '@/types';
+
+const INVERSE_OPERATION: Record<ChangeOperation, ChangeOperation> = {
+  INSERT: 'DELETE',
+  UPDATE: 'UPDATE',
+  DELETE: 'INSERT',
+};
+
+/**
+ * Thrown inside the transaction to roll back previews and blocked reverts
+ */
+class RevertRolledBackError extends Error {}
+
+function normalizeValue(value: unknown): unknown {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof Uint8Array) return Buffer.from(value).toString('hex');
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'bigint') return value.toString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return value;
+}
+
+/**
+ * Loose equality between a logged (JSON round-tripped) value and a driver value
+ */
+function valuesMatch(logged: unknown, current: unknown): boolean {
+  const a = normalizeValue(logged);
+  const b = normalizeValue(current);
+  if (a === null || b === null) return a === b;
+  if (String(a) === String(b)) return true;
+
+  const numA = Number(a);
+  const numB = Number(b);
+  if (!Number.isNaN(numA) && !Number.isNaN(numB) && String(a).trim() !== '' && String(b).trim() !== '') {
+    return numA === numB;
+  }
+
+  // Timestamps may come back in a different textual form than they were logged
+  const timeA = Date.parse(String(a));
+  const timeB = Date.parse(String(b));
+  return !Number.isNaN(timeA) && timeA === timeB;
+}
+
+function changedColumns(expected: Record<string, unknown>, row: Record<string, unknown>): string[] {
+  return Object.keys(expected).filter((col) => !valuesMatch(expected[col], row[col]));
+}
+
+/**
+ * Columns and values that identify the row as it looks after the logged change
+ */
+export function getCurrentIdentifier(log: DataChangeLog): Record<string, unknown> | null {
+  if (log.operation === 'INSERT') {
+    // Grid inserts don't record a key; fall back to matching every inserted value
+    return log.rowIdentifier && Object.keys(log.rowIdentifier).length > 0
+      ? log.rowIdentifier
+      : log.newValues;
+  }
+
+  if (!log.rowIdentifier || Object.keys(log.rowIdentifier).length === 0) {
+    return null;
+  }
+
+  if (log.operation === 'UPDATE' && log.newValues) {
+    // The key itself may have been part of the update
+    const identifier: Record<string, unknown> = {};
+    for (const [col, value] of Object.entries(log.rowIdentifier)) {
+      identifier[col] = col in log.newValues ? log.newValues[col] : value;
+    }
+    return identifier;
+  }
+
+  return log.rowIdentifier;
+}
+
+/**
+ * Build the statement that undoes a logged change, or null when the log
+ * entry doesn't record enough to reconstruct it
+ */
+export function buildInverseStatement(
+  log: DataChangeLog,
+  dbType: DatabaseType
+): { sql: string; params: unknown[] } | null {
+  const identifier = getCurrentIdentifier(log);
+
+  switch (log.operation) {
+    case 'INSERT':
+      return identifier
+        ? buildParameterizedDelete(log.tableName, Object.keys(identifier), identifier, dbType)
+        : null;
+
+    case 'UPDATE': {
+      if (!identifier) return null;
+      const restored: Record<string, unknown> = {};
+      for (const col of Object.keys(log.newValues ?? {})) {
+        restored[col] = log.oldValues?.[col] ?? null;
+      }
+      return buildParameterizedUpdate(log.tableName, restored, Object.keys(identifier), identifier, dbType);
+    }
+
+    case 'DELETE':
+      return log.oldValues ? buildParameterizedInsert(log.tableName, log.oldValues, dbType) : null;
+  }
+}
+
+async function selectRows(
+  query: TransactionQuery,
+  tableName: string,
+  identifier: Record<string, unknown>,
+  dbType: DatabaseType
+): Promise<Record<string, unknown>[]> {
+  const where = buildParameterizedWhereClause(Object.keys(identifier), identifier, dbType);
+  const result = await query(
+    `SELECT * FROM ${quoteIdentifier(tableName, dbType)} WHERE ${where.sql}`,
+    where.params
+  );
+  return result.rows;
+}
+
+interface RevertPlan {
+  step: RevertStep;
+  statement?: { sql: string; params: unknown[] };
+  /** Values recorded for the revert's own log entry */
+  logEntry?: {
+    rowIdentifier: Record<string, unknown> | null;
+    oldValues: Record<string, unknown> | null;
+    newValues: Record<string, unknown> | null;
+  };
+}
+
+/**
+ * Inspect the current row for a log entry and build its inverse statement
+ */
+async function planRevertStep(
+  query: TransactionQuery,
+  log: DataChangeLog,
+  dbType: DatabaseType
+): Promise<RevertPlan> {
+  const step: RevertStep = {
+    logId: log.id,
+    tableName: log.tableName,
+    originalOperation: log.operation,
+    operation: INVERSE_OPERATION[log.operation],
+    sql: '',
+    conflict: null,
+    applied: false,
+  };
+
+  const identifier = getCurrentIdentifier(log);
+  const columns = [
+    ...Object.keys(identifier ?? {}),
+    ...Object.keys(log.oldValues ?? {}),
+    ...Object.keys(log.newValues ?? {}),
+  ];
+  const invalid = [log.tableName, ...columns].find((name) => !validateIdentifier(name));
+  if (invalid) {
+    step.error = `Invalid identifier: ${invalid}`;
+    return { step };
+  }
+
+  if (!identifier) {
+    step.error = 'The log entry does not record which row was changed';
+    return { step };
+  }
+
+  const rows = await selectRows(query, log.tableName, identifier, dbType);
+  const setConflict = (conflict: RevertConflict) => {
+    step.conflict = conflict;
+  };
+
+  const statement = buildInverseStatement(log, dbType);
+  if (!statement) {
+    step.error = 'The log entry does not record the values needed to undo it';
+    return { step };
+  }
+  step.sql = inlineSqlParams(statement.sql, statement.params, dbType);
+
+  switch (log.operation) {
+    case 'INSERT': {
+      if (rows.length === 0) {
+        setConflict({ type: 'missing', message: 'The inserted row no longer exists' });
+      } else if (rows.length > 1) {
+        setConflict({ type: 'ambiguous', message: `${rows.length} rows match the inserted values` });
+      } else if (log.newValues) {
+        const changed = changedColumns(log.newValues, rows[0]);
+        if (changed.length > 0) {
+          setConflict({
+            type: 'modified',
+            message: `Changed since it was inserted: ${changed.join(', ')}`,
+            currentValues: rows[0],
+          });
+        }
+      }
+
+      return {
+        step,
+        statement,
+        logEntry: { rowIdentifier: identifier, oldValues: rows[0] ?? log.newValues, newValues: null },
+      };
+    }
+
+    case 'UPDATE': {
+      const newValues = log.newValues ?? {};
+
+      if (rows.length === 0) {
+        setConflict({ type: 'missing', message: 'The updated row no longer exists' });
+      } else if (rows.length > 1) {
+        setConflict({ type: 'ambiguous', message: `${rows.length} rows match the row identifier` });
+      } else {
+        const changed = changedColumns(newValues, rows[0]);
+        if (changed.length > 0) {
+          setConflict({
+            type: 'modified',
+            message: `Changed since the update: ${changed.join(', ')}`,
+            currentValues: rows[0],
+          });
+        }
+      }
+
+      const current = rows[0] ?? {};
+      return {
+        step,
+        statement,
+        logEntry: {
+          rowIdentifier: identifier,
+          oldValues: Object.fromEntries(Object.keys(newValues).map((col) => [col, current[col] ?? null])),
+          newValues: Object.fromEntries(Object.keys(newValues).map((col) => [col, log.oldValues?.[col] ?? null])),
+        },
+      };
+    }
+
+    case 'DELETE': {
+      if (rows.length > 0) {
+        setConflict({
+          type: 'exists',
+          message: 'A row with the same key has been created since the delete',
+          currentValues: rows[0],
+        });
+      }
+
+      return {
+        step,
+        statement,
+        logEntry: { rowIdentifier: identifier, oldValues: null, newValues: log.oldValues },
+      };
+    }
+  }
+}
+
+/**
+ * Revert one or more logged changes on a connection.
+ *
+ * Entries are reverted newest first so repeated edits to the same row unwind
+ * in order. Any missing, re-created or ambiguous row blocks the whole revert;
+ * rows modified since the change block it unless force is set. With dryRun the
+ * transaction is always rolled back and the steps serve as a preview.
+ */
+export async function revertDataChanges(
+  connection: DatabaseConnection,
+  logIds: string[],
+  userId: string,
+  options: { dryRun?: boolean; force?: boolean } = {}
+): Promise<RevertResult> {
+  const dryRun = options.dryRun ?? false;
+  const result: RevertResult = {
+    success: false,
+    dryRun,
+    changeSetId: uuidv4(),
+    revertedCount: 0,
+    steps: [],
+    errors: [],
+  };
+
+  const logs: DataChangeLog[] = [];
+  for (const id of new Set(logIds)) {
+    const log = await getDataChangeLogById(id);
+    if (!log || log.connectionId !== connection.id) {
+      result.errors.push(`Change ${id} was not found for this connection`);
+      continue;
+    }
+    logs.push(log);
+  }
+  if (result.errors.length > 0) {
+    return result;
+  }
+
+  logs.sort((a, b) => b.appliedAt.getTime() - a.appliedAt.getTime());
+  const dbType = connection.type as DatabaseType;
+  const applied: Array<{ log: DataChangeLog; plan: RevertPlan }> = [];
+
+  try {
+    await getPoolManager().transaction(connection, async (query) => {
+      let blocked = false;
+
+      for (const log of logs) {
+        const plan = await planRevertStep(query, log, dbType);
+        result.steps.push(plan.step);
+
+        const conflict = plan.step.conflict;
+        const canProceed = plan.statement
+          && !plan.step.error
+          && (!conflict || (conflict.type === 'modified' && options.force));
+        if (!canProceed) {
+          blocked = true;
+          continue;
+        }
+        // Keep planning after a block so the preview shows every conflict
+        if (blocked) continue;
+
+        try {
+          const queryResult = await query(plan.statement!.sql, plan.statement!.params);
+          if (plan.step.operation !== 'INSERT' && queryResult.affectedRows === 0) {
+            throw new Error('No row matched');
+          }
+          plan.step.applied = true;
+          applied.push({ log, plan });
+        } catch (error) {
+          plan.step.error = error instanceof Error ? error.message : 'Unknown error';
+          blocked = true;
+        }
+      }
+
+      if (blocked || dryRun) {
+        throw new RevertRolledBackError();
+      }
+    });
+  } catch (error) {
+    if (!(error instanceof RevertRolledBackError)) {
+      result.errors.push(`Transaction error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    result.steps.forEach((step) => {
+      step.applied = false;
+    });
+
+    if (dryRun) {
+      result.success = result.errors.length === 0
+        && result.steps.every((step) => !step.error && (!step.conflict || (step.conflict.type === 'modified' && options.force)));
+    } else {
+      for (const step of result.steps) {
+        if (step.error) result.errors.push(`Revert of ${step.logId} failed: ${step.error}`);
+        else if (step.conflict) result.errors.push(`Revert of ${step.logId} has a conflict: ${step.conflict.message}`);
+      }
+    }
+    return result;
+  }
+
+  // Record each revert as a change of its own once the transaction has committed
+  for (const { log, plan } of applied) {
+    await logDataChange({
+      connectionId: connection.id,
+      tableName: log.tableName,
+      operation: plan.step.operation,
+      rowIdentifier: plan.logEntry?.rowIdentifier ?? null,
+      oldValues: plan.logEntry?.oldValues ?? null,
+      newValues: plan.logEntry?.newValues ?? null,
+      userId,
+      changeSetId: result.changeSetId,
+    });
+  }
+
+  result.success = true;
+  result.revertedCount = applied.length;
+  return result;
+}
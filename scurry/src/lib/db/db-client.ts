@@ -235,12 +235,29 @@ function initializeSqliteSchema(database: Database.Database) {
     CREATE INDEX IF NOT EXISTS idx_team_invitations_token ON team_invitations(token);
     CREATE INDEX IF NOT EXISTS idx_team_invitations_email ON team_invitations(email);
     
+    CREATE TABLE IF NOT EXISTS team_roles (
+      id TEXT PRIMARY KEY,
+      team_id TEXT NOT NULL,
+      role_key TEXT NOT NULL,
+      name TEXT NOT NULL,
+      description TEXT,
+      capabilities TEXT NOT NULL DEFAULT '[]',
+      is_default INTEGER DEFAULT 0,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE,
+      UNIQUE(team_id, role_key)
+    );
+    
+    CREATE INDEX IF NOT EXISTS idx_team_roles_team_id ON team_roles(team_id);
+    
     CREATE TABLE IF NOT EXISTS shared_connections (
       id TEXT PRIMARY KEY,
       connection_id TEXT NOT NULL,
       team_id TEXT NOT NULL,
       shared_by TEXT NOT NULL,
       permission TEXT NOT NULL DEFAULT 'read',
+      is_protected INTEGER DEFAULT 0,
       created_at TEXT NOT NULL,
       FOREIGN KEY (connection_id) REFERENCES connections(id) ON DELETE CASCADE,
       FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE,
@@ -260,6 +277,10 @@ function initializeSqliteSchema(database: Database.Database) {
       description TEXT,
       sql TEXT NOT NULL,
       is_public INTEGER DEFAULT 0,
+      parameters TEXT,
+      folder TEXT,
+      tags TEXT,
+      chart_config TEXT,
       created_at TEXT NOT NULL,
       updated_at TEXT NOT NULL,
       FOREIGN KEY (user_id) REFERENCES users(id),
@@ -308,6 +329,7 @@ function initializeSqliteSchema(database: Database.Database) {
       row_identifier TEXT,
       old_values TEXT,
       new_values TEXT,
+      change_set_id TEXT,
       user_id TEXT NOT NULL,
       applied_at TEXT NOT NULL,
       FOREIGN KEY (connection_id) REFERENCES connections(id) ON DELETE CASCADE,
@@ -338,6 +360,9 @@ function initializeSqliteSchema(database: Database.Database) {
       can_view INTEGER DEFAULT 1,
       can_edit INTEGER DEFAULT 0,
       allowed_tables TEXT,
+      row_filters TEXT,
+      operations TEXT,
+      table_operations TEXT,
       created_at TEXT NOT NULL,
       FOREIGN KEY (profile_id) REFERENCES permission_profiles(id) ON DELETE CASCADE,
       FOREIGN KEY (connection_id) REFERENCES connections(id) ON DELETE CASCADE,
@@ -352,6 +377,7 @@ function initializeSqliteSchema(database: Database.Database) {
       profile_permission_id TEXT NOT NULL,
       table_name TEXT NOT NULL,
       hidden_columns TEXT NOT NULL,
+      masked_columns TEXT,
       FOREIGN KEY (profile_permission_id) REFERENCES profile_connection_permissions(id) ON DELETE CASCADE,
       UNIQUE(profile_permission_id, table_name)
     );
@@ -364,6 +390,7 @@ function initializeSqliteSchema(database: Database.Database) {
       user_id TEXT NOT NULL,
       profile_id TEXT,
       custom_permissions TEXT,
+      attributes TEXT,
       created_at TEXT NOT NULL,
       updated_at TEXT NOT NULL,
       FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE,
@@ -391,6 +418,226 @@ function initializeSqliteSchema(database: Database.Database) {
     
     CREATE INDEX IF NOT EXISTS idx_mcp_api_keys_user_id ON mcp_api_keys(user_id);
     CREATE INDEX IF NOT EXISTS idx_mcp_api_keys_key_hash ON mcp_api_keys(key_hash);
+    
+    CREATE TABLE IF NOT EXISTS editor_settings (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL UNIQUE,
+      keyword_case TEXT NOT NULL DEFAULT 'upper',
+      tab_width INTEGER DEFAULT 2,
+      use_tabs INTEGER DEFAULT 0,
+      comma_position TEXT NOT NULL DEFAULT 'trailing',
+      lint_enabled INTEGER DEFAULT 1,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    );
+    
+    CREATE INDEX IF NOT EXISTS idx_editor_settings_user_id ON editor_settings(user_id);
+    
+    CREATE TABLE IF NOT EXISTS sync_templates (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      team_id TEXT,
+      name TEXT NOT NULL,
+      description TEXT,
+      source_connection_id TEXT NOT NULL,
+      target_connection_id TEXT NOT NULL,
+      table_name TEXT,
+      scope TEXT NOT NULL DEFAULT 'table',
+      include_structure INTEGER DEFAULT 0,
+      schedule TEXT,
+      schedule_enabled INTEGER DEFAULT 0,
+      next_run_at TEXT,
+      last_run_at TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+      FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE,
+      FOREIGN KEY (source_connection_id) REFERENCES connections(id) ON DELETE CASCADE,
+      FOREIGN KEY (target_connection_id) REFERENCES connections(id) ON DELETE CASCADE
+    );
+    
+    CREATE INDEX IF NOT EXISTS idx_sync_templates_user_id ON sync_templates(user_id);
+    CREATE INDEX IF NOT EXISTS idx_sync_templates_team_id ON sync_templates(team_id);
+    CREATE INDEX IF NOT EXISTS idx_sync_templates_next_run_at ON sync_templates(next_run_at);
+    
+    CREATE TABLE IF NOT EXISTS sync_runs (
+      id TEXT PRIMARY KEY,
+      template_id TEXT NOT NULL,
+      user_id TEXT NOT NULL,
+      triggered_by TEXT NOT NULL,
+      table_name TEXT NOT NULL,
+      success INTEGER DEFAULT 0,
+      result TEXT NOT NULL,
+      started_at TEXT NOT NULL,
+      finished_at TEXT NOT NULL,
+      FOREIGN KEY (template_id) REFERENCES sync_templates(id) ON DELETE CASCADE,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    );
+    
+    CREATE INDEX IF NOT EXISTS idx_sync_runs_template_started ON sync_runs(template_id, started_at DESC);
+    
+    CREATE TABLE IF NOT EXISTS query_history (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      team_id TEXT,
+      connection_id TEXT NOT NULL,
+      sql TEXT NOT NULL,
+      source TEXT NOT NULL DEFAULT 'execute',
+      success INTEGER DEFAULT 1,
+      error TEXT,
+      row_count INTEGER,
+      execution_time INTEGER NOT NULL DEFAULT 0,
+      executed_at TEXT NOT NULL,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+      FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE,
+      FOREIGN KEY (connection_id) REFERENCES connections(id) ON DELETE CASCADE
+    );
+    
+    CREATE INDEX IF NOT EXISTS idx_query_history_user_executed ON query_history(user_id, executed_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_query_history_team_executed ON query_history(team_id, executed_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_query_history_connection_id ON query_history(connection_id);
+    
+    CREATE TABLE IF NOT EXISTS saved_query_revisions (
+      id TEXT PRIMARY KEY,
+      query_id TEXT NOT NULL,
+      revision_number INTEGER NOT NULL,
+      user_id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      description TEXT,
+      sql TEXT NOT NULL,
+      parameters TEXT,
+      folder TEXT,
+      tags TEXT,
+      chart_config TEXT,
+      created_at TEXT NOT NULL,
+      FOREIGN KEY (query_id) REFERENCES saved_queries(id) ON DELETE CASCADE,
+      FOREIGN KEY (user_id) REFERENCES users(id),
+      UNIQUE (query_id, revision_number)
+    );
+    
+    CREATE INDEX IF NOT EXISTS idx_saved_query_revisions_query_id ON saved_query_revisions(query_id);
+    
+    CREATE TABLE IF NOT EXISTS dashboards (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      team_id TEXT,
+      name TEXT NOT NULL,
+      description TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      FOREIGN KEY (user_id) REFERENCES users(id),
+      FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE
+    );
+    
+    CREATE INDEX IF NOT EXISTS idx_dashboards_user_id ON dashboards(user_id);
+    CREATE INDEX IF NOT EXISTS idx_dashboards_team_id ON dashboards(team_id);
+    
+    CREATE TABLE IF NOT EXISTS dashboard_widgets (
+      id TEXT PRIMARY KEY,
+      dashboard_id TEXT NOT NULL,
+      query_id TEXT NOT NULL,
+      connection_id TEXT,
+      title TEXT NOT NULL,
+      chart_config TEXT NOT NULL,
+      parameter_values TEXT,
+      refresh_interval INTEGER,
+      width TEXT NOT NULL DEFAULT 'half',
+      position INTEGER NOT NULL DEFAULT 0,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      FOREIGN KEY (dashboard_id) REFERENCES dashboards(id) ON DELETE CASCADE,
+      FOREIGN KEY (query_id) REFERENCES saved_queries(id) ON DELETE CASCADE,
+      FOREIGN KEY (connection_id) REFERENCES connections(id) ON DELETE SET NULL
+    );
+    
+    CREATE INDEX IF NOT EXISTS idx_dashboard_widgets_dashboard_id ON dashboard_widgets(dashboard_id);
+    
+    CREATE TABLE IF NOT EXISTS query_schedules (
+      id TEXT PRIMARY KEY,
+      query_id TEXT NOT NULL,
+      user_id TEXT NOT NULL,
+      team_id TEXT,
+      name TEXT NOT NULL,
+      cron TEXT NOT NULL,
+      timezone TEXT NOT NULL DEFAULT 'UTC',
+      enabled INTEGER DEFAULT 1,
+      connection_id TEXT,
+      parameter_values TEXT,
+      email_recipients TEXT,
+      email_format TEXT NOT NULL DEFAULT 'csv',
+      webhook_url TEXT,
+      alert_condition TEXT NOT NULL,
+      condition_met INTEGER DEFAULT 0,
+      next_run_at TEXT,
+      last_run_at TEXT,
+      last_status TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      FOREIGN KEY (query_id) REFERENCES saved_queries(id) ON DELETE CASCADE,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+      FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE,
+      FOREIGN KEY (connection_id) REFERENCES connections(id) ON DELETE SET NULL
+    );
+    
+    CREATE INDEX IF NOT EXISTS idx_query_schedules_query_id ON query_schedules(query_id);
+    CREATE INDEX IF NOT EXISTS idx_query_schedules_next_run_at ON query_schedules(next_run_at);
+    
+    CREATE TABLE IF NOT EXISTS query_schedule_runs (
+      id TEXT PRIMARY KEY,
+      schedule_id TEXT NOT NULL,
+      triggered_by TEXT NOT NULL,
+      status TEXT NOT NULL,
+      row_count INTEGER,
+      condition_met INTEGER DEFAULT 0,
+      deliveries TEXT,
+      error TEXT,
+      started_at TEXT NOT NULL,
+      finished_at TEXT NOT NULL,
+      FOREIGN KEY (schedule_id) REFERENCES query_schedules(id) ON DELETE CASCADE
+    );
+    
+    CREATE INDEX IF NOT EXISTS idx_query_schedule_runs_schedule_started ON query_schedule_runs(schedule_id, started_at DESC);
+    
+    -- Change requests: write queries on protected connections, held for approval
+    CREATE TABLE IF NOT EXISTS change_requests (
+      id TEXT PRIMARY KEY,
+      team_id TEXT NOT NULL,
+      connection_id TEXT NOT NULL,
+      requested_by TEXT NOT NULL,
+      title TEXT NOT NULL,
+      description TEXT,
+      sql TEXT NOT NULL,
+      danger_level TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending',
+      preview TEXT,
+      reviewed_by TEXT,
+      reviewed_at TEXT,
+      review_note TEXT,
+      result TEXT,
+      executed_at TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE,
+      FOREIGN KEY (connection_id) REFERENCES connections(id) ON DELETE CASCADE,
+      FOREIGN KEY (requested_by) REFERENCES users(id),
+      FOREIGN KEY (reviewed_by) REFERENCES users(id)
+    );
+    
+    CREATE INDEX IF NOT EXISTS idx_change_requests_team_created ON change_requests(team_id, created_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_change_requests_status ON change_requests(status);
+    
+    CREATE TABLE IF NOT EXISTS change_request_comments (
+      id TEXT PRIMARY KEY,
+      change_request_id TEXT NOT NULL,
+      user_id TEXT NOT NULL,
+      content TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      FOREIGN KEY (change_request_id) REFERENCES change_requests(id) ON DELETE CASCADE,
+      FOREIGN KEY (user_id) REFERENCES users(id)
+    );
+    
+    CREATE INDEX IF NOT EXISTS idx_change_request_comments_request_id ON change_request_comments(change_request_id);
   `);
 }
 
@@ -409,6 +656,48 @@ function migrateSqliteSchema(database: Database.Database) {
     }
   }
   
+  const dataChangeLogColumns = database.prepare("PRAGMA table_info(data_change_logs)").all() as Array<{ name: string }>;
+  if (!dataChangeLogColumns.some((col) => col.name === 'change_set_id')) {
+    database.exec("ALTER TABLE data_change_logs ADD COLUMN change_set_id TEXT");
+  }
+  database.exec("CREATE INDEX IF NOT EXISTS idx_data_change_logs_change_set_id ON data_change_logs(change_set_id)");
+  
+  const savedQueryColumns = database.prepare("PRAGMA table_info(saved_queries)").all() as Array<{ name: string }>;
+  for (const column of ['parameters', 'folder', 'tags', 'chart_config']) {
+    if (!savedQueryColumns.some((col) => col.name === column)) {
+      database.exec(`ALTER TABLE saved_queries ADD COLUMN ${column} TEXT`);
+    }
+  }
+  
+  const revisionColumns = database.prepare("PRAGMA table_info(saved_query_revisions)").all() as Array<{ name: string }>;
+  if (!revisionColumns.some((col) => col.name === 'chart_config')) {
+    database.exec("ALTER TABLE saved_query_revisions ADD COLUMN chart_config TEXT");
+  }
+  
+  const columnRestrictionColumns = database.prepare("PRAGMA table_info(profile_column_restrictions)").all() as Array<{ name: string }>;
+  if (!columnRestrictionColumns.some((col) => col.name === 'masked_columns')) {
+    database.exec("ALTER TABLE profile_column_restrictions ADD COLUMN masked_columns TEXT");
+  }
+  
+  const connectionPermissionColumns = database.prepare("PRAGMA table_info(profile_connection_permissions)").all() as Array<{ name: string }>;
+  if (!connectionPermissionColumns.some((col) => col.name === 'row_filters')) {
+    database.exec("ALTER TABLE profile_connection_permissions ADD COLUMN row_filters TEXT");
+  }
+  if (!connectionPermissionColumns.some((col) => col.name === 'operations')) {
+    database.exec("ALTER TABLE profile_connection_permissions ADD COLUMN operations TEXT");
+    database.exec("ALTER TABLE profile_connection_permissions ADD COLUMN table_operations TEXT");
+  }
+  
+  const sharedConnectionColumns = database.prepare("PRAGMA table_info(shared_connections)").all() as Array<{ name: string }>;
+  if (!sharedConnectionColumns.some((col) => col.name === 'is_protected')) {
+    database.exec("ALTER TABLE shared_connections ADD COLUMN is_protected INTEGER DEFAULT 0");
+  }
+  
+  const assignmentColumns = database.prepare("PRAGMA table_info(member_permission_assignments)").all() as Array<{ name: string }>;
+  if (!assignmentColumns.some((col) => col.name === 'attributes')) {
+    database.exec("ALTER TABLE member_permission_assignments ADD COLUMN attributes TEXT");
+  }
+  
   // PERF-010: Add additional performance indexes for common query patterns
   database.exec(`
     -- Composite index for activities sorted by team and created_at (common dashboard query)
@@ -580,12 +869,27 @@ function getSqliteSchemaStatements(): string[] {
     `CREATE INDEX IF NOT EXISTS idx_team_invitations_team_id ON team_invitations(team_id)`,
     `CREATE INDEX IF NOT EXISTS idx_team_invitations_token ON team_invitations(token)`,
     `CREATE INDEX IF NOT EXISTS idx_team_invitations_email ON team_invitations(email)`,
+    `CREATE TABLE IF NOT EXISTS team_roles (
+      id TEXT PRIMARY KEY,
+      team_id TEXT NOT NULL,
+      role_key TEXT NOT NULL,
+      name TEXT NOT NULL,
+      description TEXT,
+      capabilities TEXT NOT NULL DEFAULT '[]',
+      is_default INTEGER DEFAULT 0,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE,
+      UNIQUE(team_id, role_key)
+    )`,
+    `CREATE INDEX IF NOT EXISTS idx_team_roles_team_id ON team_roles(team_id)`,
     `CREATE TABLE IF NOT EXISTS shared_connections (
       id TEXT PRIMARY KEY,
       connection_id TEXT NOT NULL,
       team_id TEXT NOT NULL,
       shared_by TEXT NOT NULL,
       permission TEXT NOT NULL DEFAULT 'read',
+      is_protected INTEGER DEFAULT 0,
       created_at TEXT NOT NULL,
       FOREIGN KEY (connection_id) REFERENCES connections(id) ON DELETE CASCADE,
       FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE,
@@ -603,6 +907,10 @@ function getSqliteSchemaStatements(): string[] {
       description TEXT,
       sql TEXT NOT NULL,
       is_public INTEGER DEFAULT 0,
+      parameters TEXT,
+      folder TEXT,
+      tags TEXT,
+      chart_config TEXT,
       created_at TEXT NOT NULL,
       updated_at TEXT NOT NULL,
       FOREIGN KEY (user_id) REFERENCES users(id),
@@ -645,6 +953,7 @@ function getSqliteSchemaStatements(): string[] {
       row_identifier TEXT,
       old_values TEXT,
       new_values TEXT,
+      change_set_id TEXT,
       user_id TEXT NOT NULL,
       applied_at TEXT NOT NULL,
       FOREIGN KEY (connection_id) REFERENCES connections(id) ON DELETE CASCADE,
@@ -671,6 +980,9 @@ function getSqliteSchemaStatements(): string[] {
       can_view INTEGER DEFAULT 1,
       can_edit INTEGER DEFAULT 0,
       allowed_tables TEXT,
+      row_filters TEXT,
+      operations TEXT,
+      table_operations TEXT,
       created_at TEXT NOT NULL,
       FOREIGN KEY (profile_id) REFERENCES permission_profiles(id) ON DELETE CASCADE,
       FOREIGN KEY (connection_id) REFERENCES connections(id) ON DELETE CASCADE,
@@ -683,6 +995,7 @@ function getSqliteSchemaStatements(): string[] {
       profile_permission_id TEXT NOT NULL,
       table_name TEXT NOT NULL,
       hidden_columns TEXT NOT NULL,
+      masked_columns TEXT,
       FOREIGN KEY (profile_permission_id) REFERENCES profile_connection_permissions(id) ON DELETE CASCADE,
       UNIQUE(profile_permission_id, table_name)
     )`,
@@ -693,6 +1006,7 @@ function getSqliteSchemaStatements(): string[] {
       user_id TEXT NOT NULL,
       profile_id TEXT,
       custom_permissions TEXT,
+      attributes TEXT,
       created_at TEXT NOT NULL,
       updated_at TEXT NOT NULL,
       FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE,
@@ -717,6 +1031,203 @@ function getSqliteSchemaStatements(): string[] {
     )`,
     `CREATE INDEX IF NOT EXISTS idx_mcp_api_keys_user_id ON mcp_api_keys(user_id)`,
     `CREATE INDEX IF NOT EXISTS idx_mcp_api_keys_key_hash ON mcp_api_keys(key_hash)`,
+    `CREATE TABLE IF NOT EXISTS editor_settings (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL UNIQUE,
+      keyword_case TEXT NOT NULL DEFAULT 'upper',
+      tab_width INTEGER DEFAULT 2,
+      use_tabs INTEGER DEFAULT 0,
+      comma_position TEXT NOT NULL DEFAULT 'trailing',
+      lint_enabled INTEGER DEFAULT 1,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    )`,
+    `CREATE INDEX IF NOT EXISTS idx_editor_settings_user_id ON editor_settings(user_id)`,
+    `CREATE TABLE IF NOT EXISTS sync_templates (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      team_id TEXT,
+      name TEXT NOT NULL,
+      description TEXT,
+      source_connection_id TEXT NOT NULL,
+      target_connection_id TEXT NOT NULL,
+      table_name TEXT,
+      scope TEXT NOT NULL DEFAULT 'table',
+      include_structure INTEGER DEFAULT 0,
+      schedule TEXT,
+      schedule_enabled INTEGER DEFAULT 0,
+      next_run_at TEXT,
+      last_run_at TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+      FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE,
+      FOREIGN KEY (source_connection_id) REFERENCES connections(id) ON DELETE CASCADE,
+      FOREIGN KEY (target_connection_id) REFERENCES connections(id) ON DELETE CASCADE
+    )`,
+    `CREATE INDEX IF NOT EXISTS idx_sync_templates_user_id ON sync_templates(user_id)`,
+    `CREATE INDEX IF NOT EXISTS idx_sync_templates_team_id ON sync_templates(team_id)`,
+    `CREATE INDEX IF NOT EXISTS idx_sync_templates_next_run_at ON sync_templates(next_run_at)`,
+    `CREATE TABLE IF NOT EXISTS sync_runs (
+      id TEXT PRIMARY KEY,
+      template_id TEXT NOT NULL,
+      user_id TEXT NOT NULL,
+      triggered_by TEXT NOT NULL,
+      table_name TEXT NOT NULL,
+      success INTEGER DEFAULT 0,
+      result TEXT NOT NULL,
+      started_at TEXT NOT NULL,
+      finished_at TEXT NOT NULL,
+      FOREIGN KEY (template_id) REFERENCES sync_templates(id) ON DELETE CASCADE,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    )`,
+    `CREATE INDEX IF NOT EXISTS idx_sync_runs_template_started ON sync_runs(template_id, started_at DESC)`,
+    `CREATE TABLE IF NOT EXISTS query_history (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      team_id TEXT,
+      connection_id TEXT NOT NULL,
+      sql TEXT NOT NULL,
+      source TEXT NOT NULL DEFAULT 'execute',
+      success INTEGER DEFAULT 1,
+      error TEXT,
+      row_count INTEGER,
+      execution_time INTEGER NOT NULL DEFAULT 0,
+      executed_at TEXT NOT NULL,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+      FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE,
+      FOREIGN KEY (connection_id) REFERENCES connections(id) ON DELETE CASCADE
+    )`,
+    `CREATE INDEX IF NOT EXISTS idx_query_history_user_executed ON query_history(user_id, executed_at DESC)`,
+    `CREATE INDEX IF NOT EXISTS idx_query_history_team_executed ON query_history(team_id, executed_at DESC)`,
+    `CREATE INDEX IF NOT EXISTS idx_query_history_connection_id ON query_history(connection_id)`,
+    `CREATE TABLE IF NOT EXISTS saved_query_revisions (
+      id TEXT PRIMARY KEY,
+      query_id TEXT NOT NULL,
+      revision_number INTEGER NOT NULL,
+      user_id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      description TEXT,
+      sql TEXT NOT NULL,
+      parameters TEXT,
+      folder TEXT,
+      tags TEXT,
+      chart_config TEXT,
+      created_at TEXT NOT NULL,
+      FOREIGN KEY (query_id) REFERENCES saved_queries(id) ON DELETE CASCADE,
+      FOREIGN KEY (user_id) REFERENCES users(id),
+      UNIQUE (query_id, revision_number)
+    )`,
+    `CREATE INDEX IF NOT EXISTS idx_saved_query_revisions_query_id ON saved_query_revisions(query_id)`,
+    `CREATE TABLE IF NOT EXISTS dashboards (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      team_id TEXT,
+      name TEXT NOT NULL,
+      description TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      FOREIGN KEY (user_id) REFERENCES users(id),
+      FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE
+    )`,
+    `CREATE INDEX IF NOT EXISTS idx_dashboards_user_id ON dashboards(user_id)`,
+    `CREATE INDEX IF NOT EXISTS idx_dashboards_team_id ON dashboards(team_id)`,
+    `CREATE TABLE IF NOT EXISTS dashboard_widgets (
+      id TEXT PRIMARY KEY,
+      dashboard_id TEXT NOT NULL,
+      query_id TEXT NOT NULL,
+      connection_id TEXT,
+      title TEXT NOT NULL,
+      chart_config TEXT NOT NULL,
+      parameter_values TEXT,
+      refresh_interval INTEGER,
+      width TEXT NOT NULL DEFAULT 'half',
+      position INTEGER NOT NULL DEFAULT 0,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      FOREIGN KEY (dashboard_id) REFERENCES dashboards(id) ON DELETE CASCADE,
+      FOREIGN KEY (query_id) REFERENCES saved_queries(id) ON DELETE CASCADE,
+      FOREIGN KEY (connection_id) REFERENCES connections(id) ON DELETE SET NULL
+    )`,
+    `CREATE INDEX IF NOT EXISTS idx_dashboard_widgets_dashboard_id ON dashboard_widgets(dashboard_id)`,
+    `CREATE TABLE IF NOT EXISTS query_schedules (
+      id TEXT PRIMARY KEY,
+      query_id TEXT NOT NULL,
+      user_id TEXT NOT NULL,
+      team_id TEXT,
+      name TEXT NOT NULL,
+      cron TEXT NOT NULL,
+      timezone TEXT NOT NULL DEFAULT 'UTC',
+      enabled INTEGER DEFAULT 1,
+      connection_id TEXT,
+      parameter_values TEXT,
+      email_recipients TEXT,
+      email_format TEXT NOT NULL DEFAULT 'csv',
+      webhook_url TEXT,
+      alert_condition TEXT NOT NULL,
+      condition_met INTEGER DEFAULT 0,
+      next_run_at TEXT,
+      last_run_at TEXT,
+      last_status TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      FOREIGN KEY (query_id) REFERENCES saved_queries(id) ON DELETE CASCADE,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+      FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE,
+      FOREIGN KEY (connection_id) REFERENCES connections(id) ON DELETE SET NULL
+    )`,
+    `CREATE INDEX IF NOT EXISTS idx_query_schedules_query_id ON query_schedules(query_id)`,
+    `CREATE INDEX IF NOT EXISTS idx_query_schedules_next_run_at ON query_schedules(next_run_at)`,
+    `CREATE TABLE IF NOT EXISTS query_schedule_runs (
+      id TEXT PRIMARY KEY,
+      schedule_id TEXT NOT NULL,
+      triggered_by TEXT NOT NULL,
+      status TEXT NOT NULL,
+      row_count INTEGER,
+      condition_met INTEGER DEFAULT 0,
+      deliveries TEXT,
+      error TEXT,
+      started_at TEXT NOT NULL,
+      finished_at TEXT NOT NULL,
+      FOREIGN KEY (schedule_id) REFERENCES query_schedules(id) ON DELETE CASCADE
+    )`,
+    `CREATE INDEX IF NOT EXISTS idx_query_schedule_runs_schedule_started ON query_schedule_runs(schedule_id, started_at DESC)`,
+    `CREATE TABLE IF NOT EXISTS change_requests (
+      id TEXT PRIMARY KEY,
+      team_id TEXT NOT NULL,
+      connection_id TEXT NOT NULL,
+      requested_by TEXT NOT NULL,
+      title TEXT NOT NULL,
+      description TEXT,
+      sql TEXT NOT NULL,
+      danger_level TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending',
+      preview TEXT,
+      reviewed_by TEXT,
+      reviewed_at TEXT,
+      review_note TEXT,
+      result TEXT,
+      executed_at TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE,
+      FOREIGN KEY (connection_id) REFERENCES connections(id) ON DELETE CASCADE,
+      FOREIGN KEY (requested_by) REFERENCES users(id),
+      FOREIGN KEY (reviewed_by) REFERENCES users(id)
+    )`,
+    `CREATE INDEX IF NOT EXISTS idx_change_requests_team_created ON change_requests(team_id, created_at DESC)`,
+    `CREATE INDEX IF NOT EXISTS idx_change_requests_status ON change_requests(status)`,
+    `CREATE TABLE IF NOT EXISTS change_request_comments (
+      id TEXT PRIMARY KEY,
+      change_request_id TEXT NOT NULL,
+      user_id TEXT NOT NULL,
+      content TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      FOREIGN KEY (change_request_id) REFERENCES change_requests(id) ON DELETE CASCADE,
+      FOREIGN KEY (user_id) REFERENCES users(id)
+    )`,
+    `CREATE INDEX IF NOT EXISTS idx_change_request_comments_request_id ON change_request_comments(change_request_id)`,
   ];
 }
 
@@ -867,12 +1378,28 @@ function getPostgresSchema(): string {
     CREATE INDEX IF NOT EXISTS idx_team_invitations_token ON team_invitations(token);
     CREATE INDEX IF NOT EXISTS idx_team_invitations_email ON team_invitations(email);
     
+    CREATE TABLE IF NOT EXISTS team_roles (
+      id TEXT PRIMARY KEY,
+      team_id TEXT NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+      role_key TEXT NOT NULL,
+      name TEXT NOT NULL,
+      description TEXT,
+      capabilities JSONB NOT NULL DEFAULT '[]',
+      is_default BOOLEAN DEFAULT false,
+      created_at TIMESTAMPTZ NOT NULL,
+      updated_at TIMESTAMPTZ NOT NULL,
+      UNIQUE(team_id, role_key)
+    );
+    
+    CREATE INDEX IF NOT EXISTS idx_team_roles_team_id ON team_roles(team_id);
+    
     CREATE TABLE IF NOT EXISTS shared_connections (
       id TEXT PRIMARY KEY,
       connection_id TEXT NOT NULL REFERENCES connections(id) ON DELETE CASCADE,
       team_id TEXT NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
       shared_by TEXT NOT NULL REFERENCES users(id),
       permission TEXT NOT NULL DEFAULT 'read',
+      is_protected BOOLEAN DEFAULT FALSE,
       created_at TIMESTAMPTZ NOT NULL,
       UNIQUE(connection_id, team_id)
     );
@@ -880,6 +1407,9 @@ function getPostgresSchema(): string {
     CREATE INDEX IF NOT EXISTS idx_shared_connections_team_id ON shared_connections(team_id);
     CREATE INDEX IF NOT EXISTS idx_shared_connections_connection_id ON shared_connections(connection_id);
     
+    -- Added after the table was first released
+    ALTER TABLE shared_connections ADD COLUMN IF NOT EXISTS is_protected BOOLEAN DEFAULT FALSE;
+    
     CREATE TABLE IF NOT EXISTS saved_queries (
       id TEXT PRIMARY KEY,
       user_id TEXT NOT NULL REFERENCES users(id),
@@ -889,12 +1419,21 @@ function getPostgresSchema(): string {
       description TEXT,
       sql TEXT NOT NULL,
       is_public BOOLEAN DEFAULT false,
+      parameters JSONB,
+      folder TEXT,
+      tags JSONB,
+      chart_config JSONB,
       created_at TIMESTAMPTZ NOT NULL,
       updated_at TIMESTAMPTZ NOT NULL
     );
     
     CREATE INDEX IF NOT EXISTS idx_saved_queries_user_id ON saved_queries(user_id);
     CREATE INDEX IF NOT EXISTS idx_saved_queries_team_id ON saved_queries(team_id);
+    -- Added after the table was first released
+    ALTER TABLE saved_queries ADD COLUMN IF NOT EXISTS parameters JSONB;
+    ALTER TABLE saved_queries ADD COLUMN IF NOT EXISTS folder TEXT;
+    ALTER TABLE saved_queries ADD COLUMN IF NOT EXISTS tags JSONB;
+    ALTER TABLE saved_queries ADD COLUMN IF NOT EXISTS chart_config JSONB;
     
     CREATE TABLE IF NOT EXISTS query_comments (
       id TEXT PRIMARY KEY,
@@ -930,6 +1469,7 @@ function getPostgresSchema(): string {
       row_identifier JSONB,
       old_values JSONB,
       new_values JSONB,
+      change_set_id TEXT,
       user_id TEXT NOT NULL REFERENCES users(id),
       applied_at TIMESTAMPTZ NOT NULL
     );
@@ -938,6 +1478,9 @@ function getPostgresSchema(): string {
     CREATE INDEX IF NOT EXISTS idx_data_change_logs_table_name ON data_change_logs(table_name);
     CREATE INDEX IF NOT EXISTS idx_data_change_logs_user_id ON data_change_logs(user_id);
     CREATE INDEX IF NOT EXISTS idx_data_change_logs_applied_at ON data_change_logs(applied_at);
+    -- Added after the table was first released
+    ALTER TABLE data_change_logs ADD COLUMN IF NOT EXISTS change_set_id TEXT;
+    CREATE INDEX IF NOT EXISTS idx_data_change_logs_change_set_id ON data_change_logs(change_set_id);
     
     CREATE TABLE IF NOT EXISTS permission_profiles (
       id TEXT PRIMARY KEY,
@@ -957,6 +1500,9 @@ function getPostgresSchema(): string {
       can_view BOOLEAN DEFAULT true,
       can_edit BOOLEAN DEFAULT false,
       allowed_tables JSONB,
+      row_filters JSONB,
+      operations JSONB,
+      table_operations JSONB,
       created_at TIMESTAMPTZ NOT NULL,
       UNIQUE(profile_id, connection_id)
     );
@@ -969,17 +1515,25 @@ function getPostgresSchema(): string {
       profile_permission_id TEXT NOT NULL REFERENCES profile_connection_permissions(id) ON DELETE CASCADE,
       table_name TEXT NOT NULL,
       hidden_columns JSONB NOT NULL,
+      masked_columns JSONB,
       UNIQUE(profile_permission_id, table_name)
     );
     
     CREATE INDEX IF NOT EXISTS idx_profile_column_restrictions_profile_permission_id ON profile_column_restrictions(profile_permission_id);
     
+    -- Added after the table was first released
+    ALTER TABLE profile_connection_permissions ADD COLUMN IF NOT EXISTS row_filters JSONB;
+    ALTER TABLE profile_connection_permissions ADD COLUMN IF NOT EXISTS operations JSONB;
+    ALTER TABLE profile_connection_permissions ADD COLUMN IF NOT EXISTS table_operations JSONB;
+    ALTER TABLE profile_column_restrictions ADD COLUMN IF NOT EXISTS masked_columns JSONB;
+    
     CREATE TABLE IF NOT EXISTS member_permission_assignments (
       id TEXT PRIMARY KEY,
       team_id TEXT NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
       user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
       profile_id TEXT REFERENCES permission_profiles(id) ON DELETE SET NULL,
       custom_permissions JSONB,
+      attributes JSONB,
       created_at TIMESTAMPTZ NOT NULL,
       updated_at TIMESTAMPTZ NOT NULL,
       UNIQUE(team_id, user_id)
@@ -988,6 +1542,204 @@ function getPostgresSchema(): string {
     CREATE INDEX IF NOT EXISTS idx_member_permission_assignments_team_id ON member_permission_assignments(team_id);
     CREATE INDEX IF NOT EXISTS idx_member_permission_assignments_user_id ON member_permission_assignments(user_id);
     CREATE INDEX IF NOT EXISTS idx_member_permission_assignments_profile_id ON member_permission_assignments(profile_id);
+    
+    -- Added after the table was first released
+    ALTER TABLE member_permission_assignments ADD COLUMN IF NOT EXISTS attributes JSONB;
+    
+    CREATE TABLE IF NOT EXISTS editor_settings (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+      keyword_case TEXT NOT NULL DEFAULT 'upper',
+      tab_width INTEGER DEFAULT 2,
+      use_tabs BOOLEAN DEFAULT FALSE,
+      comma_position TEXT NOT NULL DEFAULT 'trailing',
+      lint_enabled BOOLEAN DEFAULT TRUE,
+      created_at TIMESTAMPTZ NOT NULL,
+      updated_at TIMESTAMPTZ NOT NULL
+    );
+    
+    CREATE INDEX IF NOT EXISTS idx_editor_settings_user_id ON editor_settings(user_id);
+    
+    CREATE TABLE IF NOT EXISTS sync_templates (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      team_id TEXT REFERENCES teams(id) ON DELETE CASCADE,
+      name TEXT NOT NULL,
+      description TEXT,
+      source_connection_id TEXT NOT NULL REFERENCES connections(id) ON DELETE CASCADE,
+      target_connection_id TEXT NOT NULL REFERENCES connections(id) ON DELETE CASCADE,
+      table_name TEXT,
+      scope TEXT NOT NULL DEFAULT 'table',
+      include_structure BOOLEAN DEFAULT FALSE,
+      schedule TEXT,
+      schedule_enabled BOOLEAN DEFAULT FALSE,
+      next_run_at TIMESTAMPTZ,
+      last_run_at TIMESTAMPTZ,
+      created_at TIMESTAMPTZ NOT NULL,
+      updated_at TIMESTAMPTZ NOT NULL
+    );
+    
+    CREATE INDEX IF NOT EXISTS idx_sync_templates_user_id ON sync_templates(user_id);
+    CREATE INDEX IF NOT EXISTS idx_sync_templates_team_id ON sync_templates(team_id);
+    CREATE INDEX IF NOT EXISTS idx_sync_templates_next_run_at ON sync_templates(next_run_at);
+    
+    CREATE TABLE IF NOT EXISTS sync_runs (
+      id TEXT PRIMARY KEY,
+      template_id TEXT NOT NULL REFERENCES sync_templates(id) ON DELETE CASCADE,
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      triggered_by TEXT NOT NULL,
+      table_name TEXT NOT NULL,
+      success BOOLEAN DEFAULT FALSE,
+      result JSONB NOT NULL,
+      started_at TIMESTAMPTZ NOT NULL,
+      finished_at TIMESTAMPTZ NOT NULL
+    );
+    
+    CREATE INDEX IF NOT EXISTS idx_sync_runs_template_started ON sync_runs(template_id, started_at DESC);
+    
+    CREATE TABLE IF NOT EXISTS query_history (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      team_id TEXT REFERENCES teams(id) ON DELETE CASCADE,
+      connection_id TEXT NOT NULL REFERENCES connections(id) ON DELETE CASCADE,
+      sql TEXT NOT NULL,
+      source TEXT NOT NULL DEFAULT 'execute',
+      success BOOLEAN DEFAULT TRUE,
+      error TEXT,
+      row_count INTEGER,
+      execution_time INTEGER NOT NULL DEFAULT 0,
+      executed_at TIMESTAMPTZ NOT NULL
+    );
+    
+    CREATE INDEX IF NOT EXISTS idx_query_history_user_executed ON query_history(user_id, executed_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_query_history_team_executed ON query_history(team_id, executed_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_query_history_connection_id ON query_history(connection_id);
+    
+    CREATE TABLE IF NOT EXISTS saved_query_revisions (
+      id TEXT PRIMARY KEY,
+      query_id TEXT NOT NULL REFERENCES saved_queries(id) ON DELETE CASCADE,
+      revision_number INTEGER NOT NULL,
+      user_id TEXT NOT NULL REFERENCES users(id),
+      name TEXT NOT NULL,
+      description TEXT,
+      sql TEXT NOT NULL,
+      parameters JSONB,
+      folder TEXT,
+      tags JSONB,
+      chart_config JSONB,
+      created_at TIMESTAMPTZ NOT NULL,
+      UNIQUE (query_id, revision_number)
+    );
+    
+    CREATE INDEX IF NOT EXISTS idx_saved_query_revisions_query_id ON saved_query_revisions(query_id);
+    
+    -- Added after the table was first released
+    ALTER TABLE saved_query_revisions ADD COLUMN IF NOT EXISTS chart_config JSONB;
+    
+    CREATE TABLE IF NOT EXISTS dashboards (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL REFERENCES users(id),
+      team_id TEXT REFERENCES teams(id) ON DELETE CASCADE,
+      name TEXT NOT NULL,
+      description TEXT,
+      created_at TIMESTAMPTZ NOT NULL,
+      updated_at TIMESTAMPTZ NOT NULL
+    );
+    
+    CREATE INDEX IF NOT EXISTS idx_dashboards_user_id ON dashboards(user_id);
+    CREATE INDEX IF NOT EXISTS idx_dashboards_team_id ON dashboards(team_id);
+    
+    CREATE TABLE IF NOT EXISTS dashboard_widgets (
+      id TEXT PRIMARY KEY,
+      dashboard_id TEXT NOT NULL REFERENCES dashboards(id) ON DELETE CASCADE,
+      query_id TEXT NOT NULL REFERENCES saved_queries(id) ON DELETE CASCADE,
+      connection_id TEXT REFERENCES connections(id) ON DELETE SET NULL,
+      title TEXT NOT NULL,
+      chart_config JSONB NOT NULL,
+      parameter_values JSONB,
+      refresh_interval INTEGER,
+      width TEXT NOT NULL DEFAULT 'half',
+      position INTEGER NOT NULL DEFAULT 0,
+      created_at TIMESTAMPTZ NOT NULL,
+      updated_at TIMESTAMPTZ NOT NULL
+    );
+    
+    CREATE INDEX IF NOT EXISTS idx_dashboard_widgets_dashboard_id ON dashboard_widgets(dashboard_id);
+    
+    CREATE TABLE IF NOT EXISTS query_schedules (
+      id TEXT PRIMARY KEY,
+      query_id TEXT NOT NULL REFERENCES saved_queries(id) ON DELETE CASCADE,
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      team_id TEXT REFERENCES teams(id) ON DELETE CASCADE,
+      name TEXT NOT NULL,
+      cron TEXT NOT NULL,
+      timezone TEXT NOT NULL DEFAULT 'UTC',
+      enabled BOOLEAN DEFAULT TRUE,
+      connection_id TEXT REFERENCES connections(id) ON DELETE SET NULL,
+      parameter_values JSONB,
+      email_recipients JSONB,
+      email_format TEXT NOT NULL DEFAULT 'csv',
+      webhook_url TEXT,
+      alert_condition JSONB NOT NULL,
+      condition_met BOOLEAN DEFAULT FALSE,
+      next_run_at TIMESTAMPTZ,
+      last_run_at TIMESTAMPTZ,
+      last_status TEXT,
+      created_at TIMESTAMPTZ NOT NULL,
+      updated_at TIMESTAMPTZ NOT NULL
+    );
+    
+    CREATE INDEX IF NOT EXISTS idx_query_schedules_query_id ON query_schedules(query_id);
+    CREATE INDEX IF NOT EXISTS idx_query_schedules_next_run_at ON query_schedules(next_run_at);
+    
+    CREATE TABLE IF NOT EXISTS query_schedule_runs (
+      id TEXT PRIMARY KEY,
+      schedule_id TEXT NOT NULL REFERENCES query_schedules(id) ON DELETE CASCADE,
+      triggered_by TEXT NOT NULL,
+      status TEXT NOT NULL,
+      row_count INTEGER,
+      condition_met BOOLEAN DEFAULT FALSE,
+      deliveries JSONB,
+      error TEXT,
+      started_at TIMESTAMPTZ NOT NULL,
+      finished_at TIMESTAMPTZ NOT NULL
+    );
+    
+    CREATE INDEX IF NOT EXISTS idx_query_schedule_runs_schedule_started ON query_schedule_runs(schedule_id, started_at DESC);
+    
+    -- Change requests: write queries on protected connections, held for approval
+    CREATE TABLE IF NOT EXISTS change_requests (
+      id TEXT PRIMARY KEY,
+      team_id TEXT NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+      connection_id TEXT NOT NULL REFERENCES connections(id) ON DELETE CASCADE,
+      requested_by TEXT NOT NULL REFERENCES users(id),
+      title TEXT NOT NULL,
+      description TEXT,
+      sql TEXT NOT NULL,
+      danger_level TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending',
+      preview JSONB,
+      reviewed_by TEXT REFERENCES users(id),
+      reviewed_at TIMESTAMPTZ,
+      review_note TEXT,
+      result JSONB,
+      executed_at TIMESTAMPTZ,
+      created_at TIMESTAMPTZ NOT NULL,
+      updated_at TIMESTAMPTZ NOT NULL
+    );
+    
+    CREATE INDEX IF NOT EXISTS idx_change_requests_team_created ON change_requests(team_id, created_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_change_requests_status ON change_requests(status);
+    
+    CREATE TABLE IF NOT EXISTS change_request_comments (
+      id TEXT PRIMARY KEY,
+      change_request_id TEXT NOT NULL REFERENCES change_requests(id) ON DELETE CASCADE,
+      user_id TEXT NOT NULL REFERENCES users(id),
+      content TEXT NOT NULL,
+      created_at TIMESTAMPTZ NOT NULL
+    );
+    
+    CREATE INDEX IF NOT EXISTS idx_change_request_comments_request_id ON change_request_comments(change_request_id);
   `;
 }
 
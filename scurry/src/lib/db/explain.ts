@@ -0,0 +1,98 @@
+/**
+ * Query Explainer
+ *
+ * Runs EXPLAIN for a statement on a target connection and returns the plan
+ * as a normalized, annotated tree. ANALYZE (PostgreSQL only) really executes
+ * the statement, so it runs inside a transaction that is always rolled back.
+ */
+
+import { getPoolManager } from './connection-pool';
+import { executeQueryWithOptions } from './query-executor';
+import { getSchemaCache } from './app-db';
+import { fetchTables } from './schema-fetcher';
+import {
+  annotateQueryPlan,
+  buildExplainSql,
+  parseQueryPlan,
+  supportsExplainAnalyze,
+} from '@/lib/sql/query-plan';
+import type { DatabaseConnection, QueryPlan } from '@/types';
+
+const DEFAULT_TIMEOUT = parseInt(process.env.DEFAULT_QUERY_TIMEOUT || '30000', 10);
+
+/**
+ * Thrown inside the transaction to roll back an analyzed statement
+ */
+class ExplainRolledBackError extends Error {}
+
+async function runAnalyzedExplain(
+  connection: DatabaseConnection,
+  explainSql: string
+): Promise<Record<string, unknown>[]> {
+  const timeout = connection.timeout || DEFAULT_TIMEOUT;
+  let rows: Record<string, unknown>[] = [];
+
+  try {
+    await getPoolManager().transaction(connection, async (query) => {
+      if (timeout > 0) {
+        await query(`SET LOCAL statement_timeout = ${Math.floor(timeout)}`);
+      }
+      rows = (await query(explainSql)).rows;
+      throw new ExplainRolledBackError();
+    });
+  } catch (error) {
+    if (!(error instanceof ExplainRolledBackError)) {
+      throw error;
+    }
+  }
+
+  return rows;
+}
+
+/**
+ * Row counts used to flag full scans of large tables. The cached schema is
+ * preferred; without one the tables are fetched, and a failure only means
+ * fewer warnings.
+ */
+async function getTableRowCounts(connection: DatabaseConnection): Promise<Array<{ name: string; rowCount?: number }>> {
+  try {
+    const cached = await getSchemaCache(connection.id);
+    return cached?.tables ?? await fetchTables(connection);
+  } catch (error) {
+    console.error('Failed to load table row counts for EXPLAIN:', error);
+    return [];
+  }
+}
+
+export async function explainQuery(
+  connection: DatabaseConnection,
+  sql: string,
+  options: { analyze?: boolean } = {}
+): Promise<QueryPlan> {
+  const dbType = connection.type;
+  const analyze = !!options.analyze && supportsExplainAnalyze(dbType);
+  const explainSql = buildExplainSql(sql, dbType, analyze);
+
+  let rows: Record<string, unknown>[];
+  if (analyze) {
+    rows = await runAnalyzedExplain(connection, explainSql);
+  } else {
+    const result = await executeQueryWithOptions(connection, explainSql);
+    if (result.error) {
+      throw new Error(result.error);
+    }
+    rows = result.rows;
+  }
+
+  const plan = parseQueryPlan(dbType, rows, analyze);
+  annotateQueryPlan(plan, await getTableRowCounts(connection));
+
+  if (options.analyze && !analyze) {
+    plan.warnings.push('ANALYZE is only supported on PostgreSQL; showing the estimated plan');
+  }
+  if (analyze) {
+    plan.warnings.push('The statement was executed for ANALYZE and its changes were rolled back');
+  }
+
+  return plan;
+}
@@ -1,5 +1,6 @@
 import { v4 as uuidv4 } from 'uuid';
 import { getDbClient, getDbType, type DbRow } from './db-client';
+import { permissionOperations, type PermissionOperation } from '@/lib/validations/team';
 
 // Types
 export interface PermissionProfile {
@@ -18,14 +19,23 @@ export interface ProfileConnectionPermission {
   canView: boolean;
   canEdit: boolean;
   allowedTables: string[] | null; // null means all tables
+  rowFilters: Record<string, string> | null; // table -> row filter condition
+  operations: PermissionOperation[] | null; // null = select, and every other operation with canEdit
+  tableOperations: Record<string, PermissionOperation[]> | null; // table -> operations granted in place of the connection's
   createdAt: Date;
 }
 
+/**
+ * How a masked column's values are rewritten before they leave the server
+ */
+export type ColumnMaskingPolicy = 'full' | 'partial' | 'hash' | 'null' | 'email_domain';
+
 export interface ProfileColumnRestriction {
   id: string;
   profilePermissionId: string;
   tableName: string;
   hiddenColumns: string[];
+  maskedColumns: Record<string, ColumnMaskingPolicy>; // column -> policy
 }
 
 export interface MemberPermissionAssignment {
@@ -34,6 +44,7 @@ export interface MemberPermissionAssignment {
   userId: string;
   profileId: string | null;
   customPermissions: CustomPermission[] | null;
+  attributes: Record<string, string>; // Values for {{user.<name>}} in row filters
   createdAt: Date;
   updatedAt: Date;
 }
@@ -46,7 +57,11 @@ export interface CustomPermission {
   columnRestrictions?: Array<{
     tableName: string;
     hiddenColumns: string[];
+    maskedColumns?: Record<string, ColumnMaskingPolicy>;
   }>;
+  rowFilters?: Record<string, string> | null;
+  operations?: PermissionOperation[] | null;
+  tableOperations?: Record<string, PermissionOperation[]> | null;
 }
 
 export interface EffectivePermission {
@@ -55,6 +70,11 @@ export interface EffectivePermission {
   canEdit: boolean;
   allowedTables: Set<string> | null; // null = all tables
   hiddenColumns: Map<string, Set<string>>; // table -> hidden columns
+  maskedColumns: Map<string, Map<string, ColumnMaskingPolicy>>; // table -> column -> policy
+  rowFilters: Map<string, string>; // table -> SQL condition rows must meet
+  operations: Set<PermissionOperation>; // Granted on tables without their own grants
+  tableOperations: Map<string, Set<PermissionOperation>>; // table -> granted operations
+  userAttributes: Record<string, string>; // Values of the {{user.*}} variables in row filters
 }
 
 // Row converters
@@ -72,6 +92,9 @@ function rowToProfile(row: DbRow): PermissionProfile {
 function rowToConnectionPermission(row: DbRow): ProfileConnectionPermission {
   const dbType = getDbType();
   let allowedTables: string[] | null = null;
+  let rowFilters: Record<string, string> | null = null;
+  let operations: PermissionOperation[] | null = null;
+  let tableOperations: Record<string, PermissionOperation[]> | null = null;
   
   if (row.allowed_tables) {
     if (dbType === 'postgres') {
@@ -81,6 +104,26 @@ function rowToConnectionPermission(row: DbRow): ProfileConnectionPermission {
     }
   }
   
+  if (row.row_filters) {
+    if (dbType === 'postgres') {
+      rowFilters = row.row_filters as Record<string, string>;
+    } else {
+      rowFilters = JSON.parse(row.row_filters as string);
+    }
+  }
+  
+  if (row.operations) {
+    operations = dbType === 'postgres'
+      ? row.operations as PermissionOperation[]
+      : JSON.parse(row.operations as string);
+  }
+  
+  if (row.table_operations) {
+    tableOperations = dbType === 'postgres'
+      ? row.table_operations as Record<string, PermissionOperation[]>
+      : JSON.parse(row.table_operations as string);
+  }
+  
   return {
     id: row.id as string,
     profileId: row.profile_id as string,
@@ -88,6 +131,9 @@ function rowToConnectionPermission(row: DbRow): ProfileConnectionPermission {
     canView: dbType === 'postgres' ? Boolean(row.can_view) : Boolean(row.can_view),
     canEdit: dbType === 'postgres' ? Boolean(row.can_edit) : Boolean(row.can_edit),
     allowedTables,
+    rowFilters,
+    operations,
+    tableOperations,
     createdAt: new Date(row.created_at as string),
   };
 }
@@ -95,11 +141,14 @@ function rowToConnectionPermission(row: DbRow): ProfileConnectionPermission {
 function rowToColumnRestriction(row: DbRow): ProfileColumnRestriction {
   const dbType = getDbType();
   let hiddenColumns: string[];
+  let maskedColumns: Record<string, ColumnMaskingPolicy> = {};
   
   if (dbType === 'postgres') {
     hiddenColumns = row.hidden_columns as string[];
+    if (row.masked_columns) maskedColumns = row.masked_columns as Record<string, ColumnMaskingPolicy>;
   } else {
     hiddenColumns = JSON.parse(row.hidden_columns as string);
+    if (row.masked_columns) maskedColumns = JSON.parse(row.masked_columns as string);
   }
   
   return {
@@ -107,12 +156,14 @@ function rowToColumnRestriction(row: DbRow): ProfileColumnRestriction {
     profilePermissionId: row.profile_permission_id as string,
     tableName: row.table_name as string,
     hiddenColumns,
+    maskedColumns,
   };
 }
 
 function rowToMemberAssignment(row: DbRow): MemberPermissionAssignment {
   const dbType = getDbType();
   let customPermissions: CustomPermission[] | null = null;
+  let attributes: Record<string, string> = {};
   
   if (row.custom_permissions) {
     if (dbType === 'postgres') {
@@ -122,12 +173,21 @@ function rowToMemberAssignment(row: DbRow): MemberPermissionAssignment {
     }
   }
   
+  if (row.attributes) {
+    if (dbType === 'postgres') {
+      attributes = row.attributes as Record<string, string>;
+    } else {
+      attributes = JSON.parse(row.attributes as string);
+    }
+  }
+  
   return {
     id: row.id as string,
     teamId: row.team_id as string,
     userId: row.user_id as string,
     profileId: row.profile_id as string | null,
     customPermissions,
+    attributes,
     createdAt: new Date(row.created_at as string),
     updatedAt: new Date(row.updated_at as string),
   };
@@ -212,6 +272,9 @@ export async function addConnectionPermission(data: {
   canView: boolean;
   canEdit: boolean;
   allowedTables?: string[] | null;
+  rowFilters?: Record<string, string> | null;
+  operations?: PermissionOperation[] | null;
+  tableOperations?: Record<string, PermissionOperation[]> | null;
 }): Promise<ProfileConnectionPermission> {
   const client = getDbClient();
   const dbType = getDbType();
@@ -222,17 +285,29 @@ export async function addConnectionPermission(data: {
     ? (dbType === 'postgres' ? JSON.stringify(data.allowedTables) : JSON.stringify(data.allowedTables))
     : null;
   
+  const rowFiltersValue = data.rowFilters && Object.keys(data.rowFilters).length > 0
+    ? JSON.stringify(data.rowFilters)
+    : null;
+  
+  const operationsValue = data.operations ? JSON.stringify(data.operations) : null;
+  const tableOperationsValue = data.tableOperations && Object.keys(data.tableOperations).length > 0
+    ? JSON.stringify(data.tableOperations)
+    : null;
+  
   const canViewValue = dbType === 'postgres' ? data.canView : (data.canView ? 1 : 0);
   const canEditValue = dbType === 'postgres' ? data.canEdit : (data.canEdit ? 1 : 0);
   
   await client.execute(
-    `INSERT INTO profile_connection_permissions (id, profile_id, connection_id, can_view, can_edit, allowed_tables, created_at)
-     VALUES (?, ?, ?, ?, ?, ?, ?)
+    `INSERT INTO profile_connection_permissions (id, profile_id, connection_id, can_view, can_edit, allowed_tables, row_filters, operations, table_operations, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
      ON CONFLICT(profile_id, connection_id) DO UPDATE SET 
        can_view = excluded.can_view,
        can_edit = excluded.can_edit,
-       allowed_tables = excluded.allowed_tables`,
-    [id, data.profileId, data.connectionId, canViewValue, canEditValue, allowedTablesValue, now]
+       allowed_tables = excluded.allowed_tables,
+       row_filters = excluded.row_filters,
+       operations = excluded.operations,
+       table_operations = excluded.table_operations`,
+    [id, data.profileId, data.connectionId, canViewValue, canEditValue, allowedTablesValue, rowFiltersValue, operationsValue, tableOperationsValue, now]
   );
   
   const permission = await getConnectionPermission(data.profileId, data.connectionId);
@@ -280,21 +355,24 @@ export async function addColumnRestriction(data: {
   profilePermissionId: string;
   tableName: string;
   hiddenColumns: string[];
+  maskedColumns?: Record<string, ColumnMaskingPolicy>;
 }): Promise<ProfileColumnRestriction> {
   const client = getDbClient();
-  const dbType = getDbType();
   const id = uuidv4();
   
-  const hiddenColumnsValue = dbType === 'postgres' 
-    ? JSON.stringify(data.hiddenColumns) 
-    : JSON.stringify(data.hiddenColumns);
-  
   await client.execute(
-    `INSERT INTO profile_column_restrictions (id, profile_permission_id, table_name, hidden_columns)
-     VALUES (?, ?, ?, ?)
+    `INSERT INTO profile_column_restrictions (id, profile_permission_id, table_name, hidden_columns, masked_columns)
+     VALUES (?, ?, ?, ?, ?)
      ON CONFLICT(profile_permission_id, table_name) DO UPDATE SET 
-       hidden_columns = excluded.hidden_columns`,
-    [id, data.profilePermissionId, data.tableName, hiddenColumnsValue]
+       hidden_columns = excluded.hidden_columns,
+       masked_columns = excluded.masked_columns`,
+    [
+      id,
+      data.profilePermissionId,
+      data.tableName,
+      JSON.stringify(data.hiddenColumns),
+      JSON.stringify(data.maskedColumns ?? {}),
+    ]
   );
   
   const restriction = await getColumnRestriction(data.profilePermissionId, data.tableName);
@@ -343,6 +421,7 @@ export async function assignMemberPermission(data: {
   userId: string;
   profileId?: string | null;
   customPermissions?: CustomPermission[] | null;
+  attributes?: Record<string, string>; // Kept as they are when omitted
 }): Promise<MemberPermissionAssignment> {
   const client = getDbClient();
   const dbType = getDbType();
@@ -354,13 +433,14 @@ export async function assignMemberPermission(data: {
     : null;
   
   await client.execute(
-    `INSERT INTO member_permission_assignments (id, team_id, user_id, profile_id, custom_permissions, created_at, updated_at)
-     VALUES (?, ?, ?, ?, ?, ?, ?)
+    `INSERT INTO member_permission_assignments (id, team_id, user_id, profile_id, custom_permissions, attributes, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)
      ON CONFLICT(team_id, user_id) DO UPDATE SET 
        profile_id = excluded.profile_id,
        custom_permissions = excluded.custom_permissions,
+       attributes = COALESCE(excluded.attributes, member_permission_assignments.attributes),
        updated_at = excluded.updated_at`,
-    [id, data.teamId, data.userId, data.profileId || null, customPermsValue, now, now]
+    [id, data.teamId, data.userId, data.profileId || null, customPermsValue, data.attributes ? JSON.stringify(data.attributes) : null, now, now]
   );
   
   const assignment = await getMemberPermissionAssignment(data.teamId, data.userId);
@@ -401,6 +481,76 @@ export async function deleteMemberPermissionAssignment(
   return result.changes > 0;
 }
 
+/**
+ * Index column restrictions by lower-cased table name
+ */
+function buildColumnRestrictionMaps(
+  restrictions: NonNullable<CustomPermission['columnRestrictions']>
+): Pick<EffectivePermission, 'hiddenColumns' | 'maskedColumns'> {
+  const hiddenColumns = new Map<string, Set<string>>();
+  const maskedColumns = new Map<string, Map<string, ColumnMaskingPolicy>>();
+  
+  restrictions.forEach(cr => {
+    hiddenColumns.set(cr.tableName, new Set(cr.hiddenColumns));
+    const masks = Object.entries(cr.maskedColumns ?? {});
+    if (masks.length > 0) {
+      maskedColumns.set(
+        cr.tableName.toLowerCase(),
+        new Map(masks.map(([column, policy]) => [column.toLowerCase(), policy]))
+      );
+    }
+  });
+  
+  return { hiddenColumns, maskedColumns };
+}
+
+/**
+ * Operations granted on the connection and per table. Without an explicit
+ * grant the connection's follows canEdit: every operation, or only select.
+ */
+function buildOperationGrants(
+  permission: Pick<CustomPermission, 'canEdit' | 'operations' | 'tableOperations'>
+): Pick<EffectivePermission, 'operations' | 'tableOperations'> {
+  const operations = permission.operations ?? (permission.canEdit ? [...permissionOperations] : ['select' as const]);
+  return {
+    operations: new Set(operations),
+    tableOperations: new Map(Object.entries(permission.tableOperations ?? {})
+      .map(([table, granted]) => [table.toLowerCase(), new Set(granted)])),
+  };
+}
+
+/**
+ * Index row filters by lower-cased table name
+ */
+function buildRowFilterMap(rowFilters: Record<string, string> | null | undefined): Map<string, string> {
+  return new Map(Object.entries(rowFilters ?? {}).map(([table, condition]) => [table.toLowerCase(), condition]));
+}
+
+/**
+ * Values of the {{user.*}} row filter variables: the member's own attributes,
+ * then id, email and name, which attributes can't override
+ */
+async function getUserAttributes(
+  userId: string,
+  assignment: MemberPermissionAssignment
+): Promise<Record<string, string>> {
+  const client = getDbClient();
+  const user = await client.queryOne<DbRow>('SELECT id, email, name FROM users WHERE id = ?', [userId]);
+  const attributes: Record<string, string> = { ...assignment.attributes, id: userId };
+  if (user?.email) attributes.email = user.email as string;
+  if (user?.name) attributes.name = user.name as string;
+  return attributes;
+}
+
+async function withUserAttributes(
+  permission: Omit<EffectivePermission, 'userAttributes'>,
+  userId: string,
+  assignment: MemberPermissionAssignment
+): Promise<EffectivePermission> {
+  const userAttributes = permission.rowFilters.size > 0 ? await getUserAttributes(userId, assignment) : {};
+  return { ...permission, userAttributes };
+}
+
 // Effective Permissions Calculation
 export async function getEffectivePermissions(
   userId: string,
@@ -417,18 +567,15 @@ export async function getEffectivePermissions(
   if (assignment.customPermissions) {
     const customPerm = assignment.customPermissions.find(p => p.connectionId === connectionId);
     if (customPerm) {
-      const hiddenColumns = new Map<string, Set<string>>();
-      customPerm.columnRestrictions?.forEach(cr => {
-        hiddenColumns.set(cr.tableName, new Set(cr.hiddenColumns));
-      });
-      
-      return {
+      return withUserAttributes({
         connectionId,
         canView: customPerm.canView,
         canEdit: customPerm.canEdit,
         allowedTables: customPerm.allowedTables ? new Set(customPerm.allowedTables) : null,
-        hiddenColumns,
-      };
+        ...buildColumnRestrictionMaps(customPerm.columnRestrictions ?? []),
+        rowFilters: buildRowFilterMap(customPerm.rowFilters),
+        ...buildOperationGrants(customPerm),
+      }, userId, assignment);
     }
   }
   
@@ -447,19 +594,15 @@ export async function getEffectivePermissions(
     [assignment.profileId, connectionId]
   );
   
-  const hiddenColumns = new Map<string, Set<string>>();
-  columnRestrictions.forEach(row => {
-    const restriction = rowToColumnRestriction(row);
-    hiddenColumns.set(restriction.tableName, new Set(restriction.hiddenColumns));
-  });
-  
-  return {
+  return withUserAttributes({
     connectionId,
     canView: connPerm.canView,
     canEdit: connPerm.canEdit,
     allowedTables: connPerm.allowedTables ? new Set(connPerm.allowedTables) : null,
-    hiddenColumns,
-  };
+    ...buildColumnRestrictionMaps(columnRestrictions.map(rowToColumnRestriction)),
+    rowFilters: buildRowFilterMap(connPerm.rowFilters),
+    ...buildOperationGrants(connPerm),
+  }, userId, assignment);
 }
 
 export async function getAllEffectivePermissions(
@@ -473,20 +616,17 @@ export async function getAllEffectivePermissions(
   
   // Handle custom permissions
   if (assignment.customPermissions) {
-    assignment.customPermissions.forEach(customPerm => {
-      const hiddenColumns = new Map<string, Set<string>>();
-      customPerm.columnRestrictions?.forEach(cr => {
-        hiddenColumns.set(cr.tableName, new Set(cr.hiddenColumns));
-      });
-      
-      permissions.set(customPerm.connectionId, {
+    for (const customPerm of assignment.customPermissions) {
+      permissions.set(customPerm.connectionId, await withUserAttributes({
         connectionId: customPerm.connectionId,
         canView: customPerm.canView,
         canEdit: customPerm.canEdit,
         allowedTables: customPerm.allowedTables ? new Set(customPerm.allowedTables) : null,
-        hiddenColumns,
-      });
-    });
+        ...buildColumnRestrictionMaps(customPerm.columnRestrictions ?? []),
+        rowFilters: buildRowFilterMap(customPerm.rowFilters),
+        ...buildOperationGrants(customPerm),
+      }, userId, assignment));
+    }
   }
   
   // Handle profile permissions
@@ -498,18 +638,16 @@ export async function getAllEffectivePermissions(
       if (permissions.has(connPerm.connectionId)) continue;
       
       const columnRestrictions = await getProfileColumnRestrictions(connPerm.id);
-      const hiddenColumns = new Map<string, Set<string>>();
-      columnRestrictions.forEach(cr => {
-        hiddenColumns.set(cr.tableName, new Set(cr.hiddenColumns));
-      });
       
-      permissions.set(connPerm.connectionId, {
+      permissions.set(connPerm.connectionId, await withUserAttributes({
         connectionId: connPerm.connectionId,
         canView: connPerm.canView,
         canEdit: connPerm.canEdit,
         allowedTables: connPerm.allowedTables ? new Set(connPerm.allowedTables) : null,
-        hiddenColumns,
-      });
+        ...buildColumnRestrictionMaps(columnRestrictions),
+        rowFilters: buildRowFilterMap(connPerm.rowFilters),
+        ...buildOperationGrants(connPerm),
+      }, userId, assignment));
     }
   }
   
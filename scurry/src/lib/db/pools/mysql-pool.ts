@@ -7,6 +7,7 @@
 
 import mysql from 'mysql2/promise';
 import type { Pool, PoolConnection, PoolOptions, FieldPacket, ResultSetHeader } from 'mysql2/promise';
+import { RunningStatements } from './running-statements';
 import type { DatabaseConnection, ColumnInfo } from '@/types';
 
 export interface MySQLPoolConfig {
@@ -23,6 +24,8 @@ export interface MySQLQueryResult {
   affectedRows?: number;
 }
 
+export type MySQLTransactionQuery = (sql: string, params?: unknown[]) => Promise<MySQLQueryResult>;
+
 const DEFAULT_CONFIG: MySQLPoolConfig = {
   min: 2,
   max: 10,
@@ -34,6 +37,7 @@ export class MySQLPoolWrapper {
   private pool: Pool;
   private connectionId: string;
   private activeConnections: number = 0;
+  private running: RunningStatements<number> = new RunningStatements();
 
   constructor(connection: DatabaseConnection, config: MySQLPoolConfig = {}) {
     const mergedConfig = { ...DEFAULT_CONFIG, ...config };
@@ -52,6 +56,10 @@ export class MySQLPoolWrapper {
       idleTimeout: mergedConfig.idleTimeoutMs,
       enableKeepAlive: true,
       keepAliveInitialDelay: 10000,
+      // UPDATE reports the rows it matched rather than those it changed, so
+      // edits and reverts can tell a missing row from one already holding the
+      // value. mysql2 sets this by default; it's stated since they rely on it.
+      flags: ['FOUND_ROWS'],
     };
 
     this.pool = mysql.createPool(poolOptions);
@@ -82,46 +90,112 @@ export class MySQLPoolWrapper {
   /**
    * Execute a query using a pooled connection
    */
-  async query(sql: string, params?: unknown[]): Promise<MySQLQueryResult> {
+  async query(sql: string, params?: unknown[], executionId?: string): Promise<MySQLQueryResult> {
     const connection = await this.acquire();
+    this.running.start(executionId, connection.threadId);
     try {
-      const [rows, fields] = params 
-        ? await connection.execute(sql, params)
-        : await connection.execute(sql);
+      return await this.execute(connection, sql, params);
+    } catch (error) {
+      throw this.running.failure(executionId, error);
+    } finally {
+      this.running.finish(executionId);
+      this.release(connection);
+    }
+  }
 
-      if (!Array.isArray(rows)) {
-        // Non-SELECT query (INSERT, UPDATE, DELETE, etc.)
-        const result = rows as ResultSetHeader;
-        return {
-          columns: [{ name: 'affected_rows', type: 'number', nullable: false }],
-          rows: [{ affected_rows: result.affectedRows }],
-          rowCount: 1,
-          affectedRows: result.affectedRows,
-        };
+  /**
+   * Cancel a running execution with KILL QUERY, which stops the statement but
+   * keeps its connection. Returns false when the execution isn't running on
+   * this pool.
+   */
+  async cancel(executionId: string): Promise<boolean> {
+    const threadId = this.running.markCancelled(executionId);
+    if (threadId === null) return false;
+
+    await this.pool.query(`KILL QUERY ${Number(threadId)}`);
+    return true;
+  }
+
+  /**
+   * Run work inside a transaction on a single pooled connection.
+   * Commits when work resolves and rolls back when it throws. With an
+   * executionId, cancel() stops whichever statement is running.
+   */
+  async transaction<T>(work: (query: MySQLTransactionQuery) => Promise<T>, executionId?: string): Promise<T> {
+    const connection = await this.acquire();
+    this.running.start(executionId, connection.threadId);
+    try {
+      await connection.beginTransaction();
+      try {
+        // Parameterless statements use the text protocol so SAVEPOINT and friends work
+        const result = await work((sql, params) => this.execute(connection, sql, params, !params));
+        await connection.commit();
+        return result;
+      } catch (error) {
+        try {
+          await connection.rollback();
+        } catch {
+          // Connection is likely broken; the original error is more useful
+        }
+        throw this.running.failure(executionId, error);
       }
+    } finally {
+      this.running.finish(executionId);
+      this.release(connection);
+    }
+  }
 
-      const columns: ColumnInfo[] = (fields as FieldPacket[]).map((field) => ({
-        name: field.name,
-        type: String(field.type),
-        nullable: (Number(field.flags ?? 0) & 1) === 0, // NOT_NULL_FLAG = 1
-      }));
+  /**
+   * Execute a statement on an already acquired connection
+   */
+  private async execute(
+    connection: PoolConnection,
+    sql: string,
+    params?: unknown[],
+    textProtocol: boolean = false
+  ): Promise<MySQLQueryResult> {
+    const [rows, fields] = textProtocol
+      ? await connection.query(sql)
+      : params
+        ? await connection.execute(sql, params)
+        : await connection.execute(sql);
 
+    if (!Array.isArray(rows)) {
+      // Non-SELECT query (INSERT, UPDATE, DELETE, etc.)
+      const result = rows as ResultSetHeader;
       return {
-        columns,
-        rows: rows as Record<string, unknown>[],
-        rowCount: rows.length,
+        columns: [{ name: 'affected_rows', type: 'number', nullable: false }],
+        rows: [{ affected_rows: result.affectedRows }],
+        rowCount: 1,
+        affectedRows: result.affectedRows,
       };
-    } finally {
-      this.release(connection);
     }
+
+    const columns: ColumnInfo[] = (fields as FieldPacket[]).map((field) => ({
+      name: field.name,
+      type: String(field.type),
+      nullable: (Number(field.flags ?? 0) & 1) === 0, // NOT_NULL_FLAG = 1
+    }));
+
+    return {
+      columns,
+      rows: rows as Record<string, unknown>[],
+      rowCount: rows.length,
+    };
   }
 
   /**
    * Execute a query with a timeout
    */
-  async queryWithTimeout(sql: string, params: unknown[] | undefined, timeoutMs: number): Promise<MySQLQueryResult> {
+  async queryWithTimeout(
+    sql: string,
+    params: unknown[] | undefined,
+    timeoutMs: number,
+    executionId?: string
+  ): Promise<MySQLQueryResult> {
     const connection = await this.acquire();
     let timeoutSet = false;
+    this.running.start(executionId, connection.threadId);
     
     try {
       // Try to set session-level query timeout (MySQL 5.7.8+ only)
@@ -168,7 +242,10 @@ export class MySQLPoolWrapper {
         rows: rows as Record<string, unknown>[],
         rowCount: rows.length,
       };
+    } catch (error) {
+      throw this.running.failure(executionId, error);
     } finally {
+      this.running.finish(executionId);
       this.release(connection);
     }
   }
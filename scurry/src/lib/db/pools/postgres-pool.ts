@@ -6,6 +6,7 @@
  */
 
 import { Pool, PoolClient, PoolConfig } from 'pg';
+import { RunningStatements } from './running-statements';
 import type { DatabaseConnection, ColumnInfo } from '@/types';
 
 export interface PostgresPoolConfig {
@@ -22,6 +23,8 @@ export interface PostgresQueryResult {
   affectedRows?: number;
 }
 
+export type PostgresTransactionQuery = (sql: string, params?: unknown[]) => Promise<PostgresQueryResult>;
+
 const DEFAULT_CONFIG: PostgresPoolConfig = {
   min: 2,
   max: 10,
@@ -33,6 +36,7 @@ export class PostgresPoolWrapper {
   private pool: Pool;
   private connectionId: string;
   private activeConnections: number = 0;
+  private running: RunningStatements<number | null> = new RunningStatements();
 
   constructor(connection: DatabaseConnection, config: PostgresPoolConfig = {}) {
     const mergedConfig = { ...DEFAULT_CONFIG, ...config };
@@ -84,43 +88,108 @@ export class PostgresPoolWrapper {
   /**
    * Execute a query using a pooled connection
    */
-  async query(sql: string, params?: unknown[]): Promise<PostgresQueryResult> {
+  async query(sql: string, params?: unknown[], executionId?: string): Promise<PostgresQueryResult> {
     const client = await this.acquire();
+    this.running.start(executionId, this.backendPid(client));
     try {
-      const result = params 
-        ? await client.query(sql, params)
-        : await client.query(sql);
+      return await this.execute(client, sql, params);
+    } catch (error) {
+      throw this.running.failure(executionId, error);
+    } finally {
+      this.running.finish(executionId);
+      this.release(client);
+    }
+  }
 
-      if (result.command !== 'SELECT') {
-        return {
-          columns: [{ name: 'affected_rows', type: 'number', nullable: false }],
-          rows: [{ affected_rows: result.rowCount || 0 }],
-          rowCount: 1,
-          affectedRows: result.rowCount || 0,
-        };
+  /**
+   * Cancel a running execution with pg_cancel_backend. Returns false when the
+   * execution isn't running on this pool.
+   */
+  async cancel(executionId: string): Promise<boolean> {
+    const pid = this.running.markCancelled(executionId);
+    if (pid === null) return false;
+
+    const result = await this.query('SELECT pg_cancel_backend($1) AS cancelled', [pid]);
+    return result.rows[0]?.cancelled === true;
+  }
+
+  /**
+   * Backend process ID of a client, reported by the server at connect time
+   */
+  private backendPid(client: PoolClient): number | null {
+    return (client as PoolClient & { processID?: number | null }).processID ?? null;
+  }
+
+  /**
+   * Run work inside a transaction on a single pooled connection.
+   * Commits when work resolves and rolls back when it throws. With an
+   * executionId, cancel() stops whichever statement is running.
+   */
+  async transaction<T>(work: (query: PostgresTransactionQuery) => Promise<T>, executionId?: string): Promise<T> {
+    const client = await this.acquire();
+    this.running.start(executionId, this.backendPid(client));
+    try {
+      await client.query('BEGIN');
+      try {
+        const result = await work((sql, params) => this.execute(client, sql, params));
+        await client.query('COMMIT');
+        return result;
+      } catch (error) {
+        try {
+          await client.query('ROLLBACK');
+        } catch {
+          // Connection is likely broken; the original error is more useful
+        }
+        throw this.running.failure(executionId, error);
       }
+    } finally {
+      this.running.finish(executionId);
+      this.release(client);
+    }
+  }
 
-      const columns: ColumnInfo[] = result.fields.map((field) => ({
-        name: field.name,
-        type: String(field.dataTypeID),
-        nullable: true, // PostgreSQL doesn't expose nullability in query result
-      }));
+  /**
+   * Execute a statement on an already acquired client
+   */
+  private async execute(client: PoolClient, sql: string, params?: unknown[]): Promise<PostgresQueryResult> {
+    const result = params
+      ? await client.query(sql, params)
+      : await client.query(sql);
 
+    // FETCH returns rows from a cursor the transaction declared
+    if (result.command !== 'SELECT' && result.command !== 'FETCH') {
       return {
-        columns,
-        rows: result.rows,
-        rowCount: result.rowCount || 0,
+        columns: [{ name: 'affected_rows', type: 'number', nullable: false }],
+        rows: [{ affected_rows: result.rowCount || 0 }],
+        rowCount: 1,
+        affectedRows: result.rowCount || 0,
       };
-    } finally {
-      this.release(client);
     }
+
+    const columns: ColumnInfo[] = result.fields.map((field) => ({
+      name: field.name,
+      type: String(field.dataTypeID),
+      nullable: true, // PostgreSQL doesn't expose nullability in query result
+    }));
+
+    return {
+      columns,
+      rows: result.rows,
+      rowCount: result.rowCount || 0,
+    };
   }
 
   /**
    * Execute a query with a timeout
    */
-  async queryWithTimeout(sql: string, params: unknown[] | undefined, timeoutMs: number): Promise<PostgresQueryResult> {
+  async queryWithTimeout(
+    sql: string,
+    params: unknown[] | undefined,
+    timeoutMs: number,
+    executionId?: string
+  ): Promise<PostgresQueryResult> {
     const client = await this.acquire();
+    this.running.start(executionId, this.backendPid(client));
     try {
       // Set statement timeout for this session
       await client.query(`SET statement_timeout = '${timeoutMs}ms'`);
@@ -159,8 +228,9 @@ export class PostgresPoolWrapper {
       } catch {
         // Ignore reset error
       }
-      throw error;
+      throw this.running.failure(executionId, error);
     } finally {
+      this.running.finish(executionId);
       this.release(client);
     }
   }
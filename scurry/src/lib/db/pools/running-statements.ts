@@ -0,0 +1,60 @@
+/**
+ * Running Statement Tracking
+ *
+ * Remembers which server session (PostgreSQL backend PID, MySQL thread ID)
+ * is running each execution, so a cancel request can target the right
+ * pooled connection from outside it.
+ */
+
+export class QueryCancelledError extends Error {
+  constructor() {
+    super('Query was cancelled');
+    this.name = 'QueryCancelledError';
+  }
+}
+
+interface RunningStatement<TSession> {
+  session: TSession;
+  cancelled: boolean;
+}
+
+export class RunningStatements<TSession> {
+  private statements: Map<string, RunningStatement<TSession>> = new Map();
+
+  /**
+   * Record that an execution started on a session (no-op without an ID)
+   */
+  start(executionId: string | undefined, session: TSession): void {
+    if (executionId) {
+      this.statements.set(executionId, { session, cancelled: false });
+    }
+  }
+
+  finish(executionId: string | undefined): void {
+    if (executionId) {
+      this.statements.delete(executionId);
+    }
+  }
+
+  /**
+   * Mark an execution cancelled and return its session, or null when it
+   * isn't running here
+   */
+  markCancelled(executionId: string): TSession | null {
+    const statement = this.statements.get(executionId);
+    if (!statement) return null;
+    statement.cancelled = true;
+    return statement.session;
+  }
+
+  /**
+   * The error to surface for a failed execution: the driver's own error, or a
+   * QueryCancelledError when the failure came from a cancel request
+   */
+  failure(executionId: string | undefined, error: unknown): unknown {
+    if (executionId && this.statements.get(executionId)?.cancelled) {
+      return new QueryCancelledError();
+    }
+    return error;
+  }
+}
@@ -23,6 +23,8 @@ export interface SQLiteQueryResult {
   affectedRows?: number;
 }
 
+export type SQLiteTransactionQuery = (sql: string, params?: unknown[]) => Promise<SQLiteQueryResult>;
+
 const DEFAULT_CONFIG: SQLitePoolConfig = {
   readonly: false,
   fileMustExist: false,
@@ -36,6 +38,8 @@ export class SQLitePoolWrapper {
   private config: SQLitePoolConfig;
   private lastAccess: number = Date.now();
   private isInUse: boolean = false;
+  // Statements run in turn, so none lands inside another caller's transaction
+  private queue: Promise<unknown> = Promise.resolve();
 
   constructor(connection: DatabaseConnection, config: SQLitePoolConfig = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
@@ -79,9 +83,22 @@ export class SQLitePoolWrapper {
   }
 
   /**
-   * Execute a query
+   * Run a task once everything queued before it has finished
+   */
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Execute a query, after any transaction in progress has finished
    */
   async query(sql: string, params?: unknown[]): Promise<SQLiteQueryResult> {
+    return this.serialize(async () => this.run(sql, params));
+  }
+
+  private run(sql: string, params?: unknown[]): SQLiteQueryResult {
     const db = this.getConnection();
     const trimmedSql = sql.trim().toLowerCase();
     const isSelect = trimmedSql.startsWith('select') || 
@@ -125,6 +142,33 @@ export class SQLitePoolWrapper {
     }
   }
 
+  /**
+   * Run work inside a transaction on the shared connection.
+   * Commits when work resolves and rolls back when it throws. Other queries
+   * on the connection wait until the transaction has finished.
+   */
+  async transaction<T>(work: (query: SQLiteTransactionQuery) => Promise<T>): Promise<T> {
+    return this.serialize(async () => {
+      const db = this.getConnection();
+      this.isInUse = true;
+      try {
+        db.exec('BEGIN');
+        try {
+          const result = await work(async (sql, params) => this.run(sql, params));
+          db.exec('COMMIT');
+          return result;
+        } catch (error) {
+          if (db.inTransaction) {
+            db.exec('ROLLBACK');
+          }
+          throw error;
+        }
+      } finally {
+        this.isInUse = false;
+      }
+    });
+  }
+
   /**
    * Execute a query with a timeout
    * SQLite doesn't have built-in query timeout, so we use a progress handler
@@ -172,6 +216,15 @@ export class SQLitePoolWrapper {
     }
   }
 
+  /**
+   * better-sqlite3 runs statements synchronously on the server's event loop
+   * and has no interrupt API, so a statement has always finished by the time
+   * a cancel request is handled. There is never anything to cancel.
+   */
+  async cancel(): Promise<boolean> {
+    return false;
+  }
+
   /**
    * Get pool statistics (simplified for SQLite)
    */
@@ -1,6 +1,8 @@
 import { v4 as uuidv4 } from 'uuid';
 import { getUserTeams } from './teams';
 import { getDbClient, getDbType, type DbRow } from './db-client';
+import { countQueryRevisions, createQueryRevision, type SavedQueryRevision } from './query-revisions';
+import type { ChartConfig, QueryParameter } from '@/types';
 
 export interface SavedQuery {
   id: string;
@@ -11,6 +13,10 @@ export interface SavedQuery {
   description: string | null;
   sql: string;
   isPublic: boolean;
+  parameters: QueryParameter[];
+  folder: string | null;
+  tags: string[];
+  chart: ChartConfig | null; // How the result is charted in the editor
   createdAt: Date;
   updatedAt: Date;
   user?: {
@@ -36,6 +42,22 @@ function rowToSavedQuery(row: DbRow): SavedQuery {
     description: row.description as string | null,
     sql: row.sql as string,
     isPublic: dbType === 'postgres' ? Boolean(row.is_public) : Boolean(row.is_public),
+    parameters: row.parameters
+      ? (dbType === 'postgres'
+          ? (row.parameters as QueryParameter[])
+          : JSON.parse(row.parameters as string))
+      : [],
+    folder: row.folder as string | null,
+    tags: row.tags
+      ? (dbType === 'postgres'
+          ? (row.tags as string[])
+          : JSON.parse(row.tags as string))
+      : [],
+    chart: row.chart_config
+      ? (dbType === 'postgres'
+          ? (row.chart_config as ChartConfig)
+          : JSON.parse(row.chart_config as string))
+      : null,
     createdAt: new Date(row.created_at as string),
     updatedAt: new Date(row.updated_at as string),
   };
@@ -59,6 +81,19 @@ function rowToSavedQuery(row: DbRow): SavedQuery {
   return query;
 }
 
+/**
+ * Trims, lowercases and de-duplicates tags
+ */
+export function normalizeTags(tags: string[]): string[] {
+  return [...new Set(tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean))];
+}
+
+function matchesFilters(query: SavedQuery, options?: { folder?: string | null; tag?: string | null }): boolean {
+  if (options?.folder && query.folder !== options.folder) return false;
+  if (options?.tag && !query.tags.includes(options.tag.toLowerCase())) return false;
+  return true;
+}
+
 export async function createSavedQuery(data: {
   userId: string;
   teamId?: string | null;
@@ -67,6 +102,10 @@ export async function createSavedQuery(data: {
   description?: string | null;
   sql: string;
   isPublic?: boolean;
+  parameters?: QueryParameter[];
+  folder?: string | null;
+  tags?: string[];
+  chart?: ChartConfig | null;
 }): Promise<SavedQuery> {
   const client = getDbClient();
   const dbType = getDbType();
@@ -78,8 +117,8 @@ export async function createSavedQuery(data: {
     : (data.isPublic ? 1 : 0);
 
   await client.execute(
-    `INSERT INTO saved_queries (id, user_id, team_id, connection_id, name, description, sql, is_public, created_at, updated_at)
-     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    `INSERT INTO saved_queries (id, user_id, team_id, connection_id, name, description, sql, is_public, parameters, folder, tags, chart_config, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
     [
       id,
       data.userId,
@@ -89,6 +128,10 @@ export async function createSavedQuery(data: {
       data.description || null,
       data.sql,
       isPublicValue,
+      data.parameters?.length ? JSON.stringify(data.parameters) : null,
+      data.folder?.trim() || null,
+      data.tags?.length ? JSON.stringify(normalizeTags(data.tags)) : null,
+      data.chart ? JSON.stringify(data.chart) : null,
       now,
       now
     ]
@@ -96,6 +139,7 @@ export async function createSavedQuery(data: {
 
   const query = await getSavedQueryById(id);
   if (!query) throw new Error('Failed to create saved query');
+  await createQueryRevision(query, data.userId);
   return query;
 }
 
@@ -120,6 +164,16 @@ export async function getSavedQueryById(id: string): Promise<SavedQuery | null>
 export async function getUserSavedQueries(userId: string, options?: {
   teamId?: string | null;
   includeTeamQueries?: boolean;
+  folder?: string | null;
+  tag?: string | null;
+}): Promise<SavedQuery[]> {
+  const queries = await getVisibleSavedQueries(userId, options);
+  return queries.filter((query) => matchesFilters(query, options));
+}
+
+async function getVisibleSavedQueries(userId: string, options?: {
+  teamId?: string | null;
+  includeTeamQueries?: boolean;
 }): Promise<SavedQuery[]> {
   const client = getDbClient();
   const dbType = getDbType();
@@ -222,6 +276,10 @@ export async function getUserSavedQueries(userId: string, options?: {
   return rows.map(rowToSavedQuery);
 }
 
+/**
+ * Applies the updates and records the result as a new revision, attributed
+ * to the user making the change
+ */
 export async function updateSavedQuery(id: string, updates: {
   name?: string;
   description?: string | null;
@@ -229,12 +287,21 @@ export async function updateSavedQuery(id: string, updates: {
   teamId?: string | null;
   connectionId?: string | null;
   isPublic?: boolean;
-}): Promise<SavedQuery | null> {
+  parameters?: QueryParameter[];
+  folder?: string | null;
+  tags?: string[];
+  chart?: ChartConfig | null;
+}, userId: string): Promise<{ query: SavedQuery; revision: SavedQueryRevision } | null> {
   const client = getDbClient();
   const dbType = getDbType();
   const existing = await getSavedQueryById(id);
   if (!existing) return null;
 
+  // Queries saved before revisions existed get their current content as a baseline
+  if (await countQueryRevisions(id) === 0) {
+    await createQueryRevision(existing, existing.userId, existing.updatedAt);
+  }
+
   const now = new Date().toISOString();
   const fields: string[] = ['updated_at = ?'];
   const values: unknown[] = [now];
@@ -263,11 +330,32 @@ export async function updateSavedQuery(id: string, updates: {
     fields.push('is_public = ?');
     values.push(dbType === 'postgres' ? updates.isPublic : (updates.isPublic ? 1 : 0));
   }
+  if (updates.parameters !== undefined) {
+    fields.push('parameters = ?');
+    values.push(updates.parameters.length ? JSON.stringify(updates.parameters) : null);
+  }
+  if (updates.folder !== undefined) {
+    fields.push('folder = ?');
+    values.push(updates.folder?.trim() || null);
+  }
+  if (updates.tags !== undefined) {
+    const tags = normalizeTags(updates.tags);
+    fields.push('tags = ?');
+    values.push(tags.length ? JSON.stringify(tags) : null);
+  }
+  if (updates.chart !== undefined) {
+    fields.push('chart_config = ?');
+    values.push(updates.chart ? JSON.stringify(updates.chart) : null);
+  }
 
   values.push(id);
   await client.execute(`UPDATE saved_queries SET ${fields.join(', ')} WHERE id = ?`, values);
 
-  return getSavedQueryById(id);
+  const query = await getSavedQueryById(id);
+  if (!query) return null;
+
+  const revision = await createQueryRevision(query, userId);
+  return { query, revision };
 }
 
 export async function deleteSavedQuery(id: string): Promise<boolean> {
@@ -7,11 +7,13 @@
  * Key features:
  * - Connection pooling for performance (10x faster repeated queries)
  * - Query timeouts to prevent hanging queries
+ * - Cancellation of running queries by execution ID
  * - Parameterized queries for security
  * - Automatic limit enforcement
  */
 
 import { getPoolManager, type PoolQueryResult } from './connection-pool';
+import { QueryCancelledError } from './pools/running-statements';
 import type { DatabaseConnection, QueryResult, ColumnInfo } from '@/types';
 
 // Configuration
@@ -22,6 +24,7 @@ export interface QueryOptions {
   limit?: number;
   timeout?: number;
   usePool?: boolean; // Default: true, set to false to bypass pool
+  executionId?: string; // Lets cancelRunningQuery stop this query (pooled only)
 }
 
 /**
@@ -72,6 +75,7 @@ export async function executeQueryWithOptions(
       result = await poolManager.executeQuery(connection, sql, params, {
         timeout: timeout > 0 ? timeout : undefined,
         limit: effectiveLimit,
+        executionId: options.executionId,
       });
     } else {
       // Fallback to direct connection (useful for one-off operations)
@@ -88,6 +92,17 @@ export async function executeQueryWithOptions(
     };
   } catch (error) {
     const executionTime = Date.now() - startTime;
+
+    if (error instanceof QueryCancelledError) {
+      return {
+        columns: [],
+        rows: [],
+        rowCount: 0,
+        executionTime,
+        error: error.message,
+        cancelled: true,
+      };
+    }
     
     // Handle timeout errors with a friendly message
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -0,0 +1,225 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getDbClient, getDbType, type DbRow } from './db-client';
+import type { QueryHistoryEntry, QueryHistoryFilters, QueryHistorySource } from '@/types';
+
+const DEFAULT_HISTORY_LIMIT = 50;
+const MAX_HISTORY_LIMIT = 200;
+const RETENTION_INTERVAL_MS = 60 * 60 * 1000;
+
+let lastRetentionRun = 0;
+
+function toBool(value: boolean): boolean | number {
+  return getDbType() === 'postgres' ? value : (value ? 1 : 0);
+}
+
+function rowToQueryHistoryEntry(row: DbRow): QueryHistoryEntry {
+  const entry: QueryHistoryEntry = {
+    id: row.id as string,
+    userId: row.user_id as string,
+    teamId: (row.team_id as string | null) ?? undefined,
+    connectionId: row.connection_id as string,
+    sql: row.sql as string,
+    source: row.source as QueryHistorySource,
+    executedAt: new Date(row.executed_at as string),
+    executionTime: Number(row.execution_time) || 0,
+    rowCount: row.row_count === null || row.row_count === undefined ? undefined : Number(row.row_count),
+    error: (row.error as string | null) ?? undefined,
+  };
+
+  if (row.user_email) {
+    entry.user = {
+      id: row.user_id as string,
+      email: row.user_email as string,
+      name: row.user_name as string | null,
+    };
+  }
+
+  return entry;
+}
+
+/**
+ * Record a query execution. History is best-effort: a failed write is logged
+ * and never fails the query that was run.
+ */
+export async function recordQueryExecution(data: {
+  userId: string;
+  teamId?: string | null;
+  connectionId: string;
+  sql: string;
+  source: QueryHistorySource;
+  executionTime: number;
+  rowCount?: number;
+  error?: string;
+}): Promise<void> {
+  try {
+    const client = getDbClient();
+    await client.execute(
+      `INSERT INTO query_history (id, user_id, team_id, connection_id, sql, source, success, error, row_count, execution_time, executed_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        uuidv4(),
+        data.userId,
+        data.teamId || null,
+        data.connectionId,
+        data.sql,
+        data.source,
+        toBool(!data.error),
+        data.error || null,
+        data.error ? null : data.rowCount ?? null,
+        Math.round(data.executionTime),
+        new Date().toISOString(),
+      ]
+    );
+  } catch (error) {
+    console.error('Failed to record query history:', error);
+  }
+}
+
+/**
+ * Search query history. Without userId every member's history in the team is
+ * searched, which is meant for team admins auditing a workspace.
+ */
+export async function searchQueryHistory(
+  options: QueryHistoryFilters & { userId?: string }
+): Promise<{ entries: QueryHistoryEntry[]; total: number }> {
+  const client = getDbClient();
+  const dbType = getDbType();
+  const limit = Math.min(options.limit || DEFAULT_HISTORY_LIMIT, MAX_HISTORY_LIMIT);
+  const offset = options.offset || 0;
+
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+
+  if (options.userId) {
+    conditions.push('qh.user_id = ?');
+    params.push(options.userId);
+  }
+
+  // Personal and team workspaces keep separate histories
+  if (options.teamId) {
+    conditions.push('qh.team_id = ?');
+    params.push(options.teamId);
+  } else {
+    conditions.push('qh.team_id IS NULL');
+  }
+
+  if (options.connectionId) {
+    conditions.push('qh.connection_id = ?');
+    params.push(options.connectionId);
+  }
+
+  if (options.status) {
+    conditions.push('qh.success = ?');
+    params.push(toBool(options.status === 'success'));
+  }
+
+  if (options.from) {
+    conditions.push('qh.executed_at >= ?');
+    params.push(options.from.toISOString());
+  }
+
+  if (options.to) {
+    conditions.push('qh.executed_at <= ?');
+    params.push(options.to.toISOString());
+  }
+
+  // Every word has to appear somewhere in the SQL, in any order
+  const words = (options.search || '').split(/\s+/).filter(Boolean);
+  for (const word of words) {
+    const pattern = `%${word.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+    conditions.push(dbType === 'postgres' ? `qh.sql ILIKE ? ESCAPE '\\'` : `qh.sql LIKE ? ESCAPE '\\'`);
+    params.push(pattern);
+  }
+
+  const whereClause = `WHERE ${conditions.join(' AND ')}`;
+
+  const countRow = await client.queryOne<DbRow>(
+    `SELECT COUNT(*) as count FROM query_history qh ${whereClause}`,
+    params
+  );
+
+  const rows = await client.query<DbRow>(
+    `SELECT
+       qh.*,
+       u.email as user_email,
+       u.name as user_name
+     FROM query_history qh
+     LEFT JOIN users u ON qh.user_id = u.id
+     ${whereClause}
+     ORDER BY qh.executed_at DESC
+     LIMIT ? OFFSET ?`,
+    [...params, limit, offset]
+  );
+
+  return {
+    entries: rows.map(rowToQueryHistoryEntry),
+    total: Number(countRow?.count ?? 0),
+  };
+}
+
+/**
+ * Delete a user's history in a workspace, optionally only entries older than
+ * a date or for one connection
+ */
+export async function clearQueryHistory(options: {
+  userId: string;
+  teamId?: string | null;
+  connectionId?: string;
+  before?: Date;
+}): Promise<number> {
+  const client = getDbClient();
+  const conditions = ['user_id = ?', options.teamId ? 'team_id = ?' : 'team_id IS NULL'];
+  const params: unknown[] = [options.userId];
+  if (options.teamId) {
+    params.push(options.teamId);
+  }
+
+  if (options.connectionId) {
+    conditions.push('connection_id = ?');
+    params.push(options.connectionId);
+  }
+
+  if (options.before) {
+    conditions.push('executed_at < ?');
+    params.push(options.before.toISOString());
+  }
+
+  const result = await client.execute(
+    `DELETE FROM query_history WHERE ${conditions.join(' AND ')}`,
+    params
+  );
+  return result.changes;
+}
+
+/**
+ * Days of history to keep, from QUERY_HISTORY_RETENTION_DAYS (default 90).
+ * Zero or less keeps history forever.
+ */
+export function getQueryHistoryRetentionDays(): number {
+  const days = parseInt(process.env.QUERY_HISTORY_RETENTION_DAYS || '90', 10);
+  return Number.isFinite(days) ? days : 90;
+}
+
+export async function deleteOldQueryHistory(daysToKeep: number = getQueryHistoryRetentionDays()): Promise<number> {
+  if (daysToKeep <= 0) return 0;
+
+  const client = getDbClient();
+  const cutoffDate = new Date();
+  cutoffDate.setDate(cutoffDate.getDate() - daysToKeep);
+
+  const result = await client.execute('DELETE FROM query_history WHERE executed_at < ?', [cutoffDate.toISOString()]);
+  return result.changes;
+}
+
+/**
+ * Scheduler job: apply the retention period at most once an hour
+ */
+export async function runQueryHistoryRetention(now: Date): Promise<void> {
+  if (now.getTime() - lastRetentionRun < RETENTION_INTERVAL_MS) return;
+  lastRetentionRun = now.getTime();
+
+  const deleted = await deleteOldQueryHistory();
+  if (deleted > 0) {
+    console.log(`Removed ${deleted} query history entries past the retention period`);
+  }
+}
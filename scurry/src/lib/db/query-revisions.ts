@@ -0,0 +1,145 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getDbClient, getDbType, type DbRow } from './db-client';
+import type { SavedQuery } from './queries';
+import type { ChartConfig, QueryParameter } from '@/types';
+
+/**
+ * Immutable snapshot of a saved query's content, written whenever the query
+ * is created or updated. Revisions are never edited; restoring one writes a
+ * new revision with the old content.
+ */
+export interface SavedQueryRevision {
+  id: string;
+  queryId: string;
+  revisionNumber: number;
+  userId: string;
+  name: string;
+  description: string | null;
+  sql: string;
+  parameters: QueryParameter[];
+  folder: string | null;
+  tags: string[];
+  chart: ChartConfig | null;
+  createdAt: Date;
+  user?: {
+    id: string;
+    email: string;
+    name: string | null;
+  };
+}
+
+function parseJsonColumn<T>(value: unknown, fallback: T): T {
+  if (!value) return fallback;
+  return getDbType() === 'postgres' ? (value as T) : JSON.parse(value as string);
+}
+
+function rowToRevision(row: DbRow): SavedQueryRevision {
+  const revision: SavedQueryRevision = {
+    id: row.id as string,
+    queryId: row.query_id as string,
+    revisionNumber: Number(row.revision_number),
+    userId: row.user_id as string,
+    name: row.name as string,
+    description: row.description as string | null,
+    sql: row.sql as string,
+    parameters: parseJsonColumn<QueryParameter[]>(row.parameters, []),
+    folder: row.folder as string | null,
+    tags: parseJsonColumn<string[]>(row.tags, []),
+    chart: parseJsonColumn<ChartConfig | null>(row.chart_config, null),
+    createdAt: new Date(row.created_at as string),
+  };
+
+  if (row.user_email) {
+    revision.user = {
+      id: row.user_id as string,
+      email: row.user_email as string,
+      name: row.user_name as string | null,
+    };
+  }
+
+  return revision;
+}
+
+/**
+ * Records the current content of a saved query as its next revision
+ */
+export async function createQueryRevision(
+  query: SavedQuery,
+  userId: string,
+  createdAt: Date = new Date()
+): Promise<SavedQueryRevision> {
+  const client = getDbClient();
+  const id = uuidv4();
+
+  const latest = await client.queryOne<DbRow>(
+    'SELECT MAX(revision_number) as revision_number FROM saved_query_revisions WHERE query_id = ?',
+    [query.id]
+  );
+  const revisionNumber = Number(latest?.revision_number ?? 0) + 1;
+
+  await client.execute(
+    `INSERT INTO saved_query_revisions (id, query_id, revision_number, user_id, name, description, sql, parameters, folder, tags, chart_config, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      id,
+      query.id,
+      revisionNumber,
+      userId,
+      query.name,
+      query.description,
+      query.sql,
+      query.parameters.length ? JSON.stringify(query.parameters) : null,
+      query.folder,
+      query.tags.length ? JSON.stringify(query.tags) : null,
+      query.chart ? JSON.stringify(query.chart) : null,
+      createdAt.toISOString(),
+    ]
+  );
+
+  const revision = await getQueryRevisionById(id);
+  if (!revision) throw new Error('Failed to create query revision');
+  return revision;
+}
+
+export async function getQueryRevisionById(id: string): Promise<SavedQueryRevision | null> {
+  const client = getDbClient();
+  const row = await client.queryOne<DbRow>(`
+    SELECT
+      r.*,
+      u.email as user_email,
+      u.name as user_name
+    FROM saved_query_revisions r
+    LEFT JOIN users u ON r.user_id = u.id
+    WHERE r.id = ?
+  `, [id]);
+
+  return row ? rowToRevision(row) : null;
+}
+
+/**
+ * Revisions of a saved query, newest first
+ */
+export async function getQueryRevisions(queryId: string): Promise<SavedQueryRevision[]> {
+  const client = getDbClient();
+  const rows = await client.query<DbRow>(`
+    SELECT
+      r.*,
+      u.email as user_email,
+      u.name as user_name
+    FROM saved_query_revisions r
+    LEFT JOIN users u ON r.user_id = u.id
+    WHERE r.query_id = ?
+    ORDER BY r.revision_number DESC
+  `, [queryId]);
+
+  return rows.map(rowToRevision);
+}
+
+export async function countQueryRevisions(queryId: string): Promise<number> {
+  const client = getDbClient();
+  const row = await client.queryOne<DbRow>(
+    'SELECT COUNT(*) as count FROM saved_query_revisions WHERE query_id = ?',
+    [queryId]
+  );
+  return Number(row?.count ?? 0);
+}
@@ -0,0 +1,346 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getUserRoleInTeam } from './teams';
+import { hasTeamCapability } from './team-roles';
+import { getDbClient, getDbType, type DbRow } from './db-client';
+import { getNextCronRun } from '@/lib/scheduler/cron';
+import type {
+  QueryParameterValue,
+  QuerySchedule,
+  QueryScheduleRun,
+  ScheduleCondition,
+  ScheduleDelivery,
+  ScheduleEmailFormat,
+  ScheduleRunStatus,
+  ScheduleRunTrigger,
+} from '@/types';
+
+function toBool(value: boolean): boolean | number {
+  return getDbType() === 'postgres' ? value : (value ? 1 : 0);
+}
+
+function parseJsonColumn<T>(value: unknown, fallback: T): T {
+  if (!value) return fallback;
+  return getDbType() === 'postgres' ? (value as T) : JSON.parse(value as string);
+}
+
+function toDate(value: unknown): Date | null {
+  return value ? new Date(value as string) : null;
+}
+
+function rowToSchedule(row: DbRow): QuerySchedule {
+  const schedule: QuerySchedule = {
+    id: row.id as string,
+    queryId: row.query_id as string,
+    userId: row.user_id as string,
+    teamId: row.team_id as string | null,
+    name: row.name as string,
+    cron: row.cron as string,
+    timezone: row.timezone as string,
+    enabled: Boolean(row.enabled),
+    connectionId: row.connection_id as string | null,
+    parameterValues: parseJsonColumn<Record<string, QueryParameterValue>>(row.parameter_values, {}),
+    emailRecipients: parseJsonColumn<string[]>(row.email_recipients, []),
+    emailFormat: row.email_format as ScheduleEmailFormat,
+    webhookUrl: row.webhook_url as string | null,
+    condition: parseJsonColumn<ScheduleCondition>(row.alert_condition, { type: 'always' }),
+    conditionMet: Boolean(row.condition_met),
+    nextRunAt: toDate(row.next_run_at),
+    lastRunAt: toDate(row.last_run_at),
+    lastStatus: row.last_status as ScheduleRunStatus | null,
+    createdAt: new Date(row.created_at as string),
+    updatedAt: new Date(row.updated_at as string),
+  };
+
+  if (row.query_name) {
+    schedule.query = {
+      id: row.query_id as string,
+      name: row.query_name as string,
+    };
+  }
+
+  if (row.user_email) {
+    schedule.user = {
+      id: row.user_id as string,
+      email: row.user_email as string,
+      name: row.user_name as string | null,
+    };
+  }
+
+  return schedule;
+}
+
+function rowToRun(row: DbRow): QueryScheduleRun {
+  return {
+    id: row.id as string,
+    scheduleId: row.schedule_id as string,
+    trigger: row.triggered_by as ScheduleRunTrigger,
+    status: row.status as ScheduleRunStatus,
+    rowCount: row.row_count === null || row.row_count === undefined ? null : Number(row.row_count),
+    conditionMet: Boolean(row.condition_met),
+    deliveries: parseJsonColumn<ScheduleDelivery[]>(row.deliveries, []),
+    error: row.error as string | null,
+    startedAt: new Date(row.started_at as string),
+    finishedAt: new Date(row.finished_at as string),
+  };
+}
+
+/**
+ * Next run time for a schedule, or null when it is paused
+ */
+function computeNextRunAt(cron: string, timezone: string, enabled: boolean, from: Date = new Date()): string | null {
+  if (!enabled) return null;
+  return getNextCronRun(cron, from, timezone)?.toISOString() ?? null;
+}
+
+const SCHEDULE_SELECT = `
+  SELECT
+    qs.*,
+    sq.name as query_name,
+    u.email as user_email,
+    u.name as user_name
+  FROM query_schedules qs
+  LEFT JOIN saved_queries sq ON qs.query_id = sq.id
+  LEFT JOIN users u ON qs.user_id = u.id
+`;
+
+export interface QueryScheduleData {
+  name: string;
+  cron: string;
+  timezone: string;
+  enabled: boolean;
+  connectionId: string | null;
+  parameterValues: Record<string, QueryParameterValue>;
+  emailRecipients: string[];
+  emailFormat: ScheduleEmailFormat;
+  webhookUrl: string | null;
+  condition: ScheduleCondition;
+}
+
+export async function createQuerySchedule(
+  data: QueryScheduleData & { queryId: string; userId: string; teamId: string | null }
+): Promise<QuerySchedule> {
+  const client = getDbClient();
+  const now = new Date().toISOString();
+  const id = uuidv4();
+
+  await client.execute(
+    `INSERT INTO query_schedules (
+      id, query_id, user_id, team_id, name, cron, timezone, enabled, connection_id, parameter_values,
+      email_recipients, email_format, webhook_url, alert_condition, condition_met, next_run_at, created_at, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      id,
+      data.queryId,
+      data.userId,
+      data.teamId,
+      data.name,
+      data.cron,
+      data.timezone,
+      toBool(data.enabled),
+      data.connectionId,
+      JSON.stringify(data.parameterValues),
+      JSON.stringify(data.emailRecipients),
+      data.emailFormat,
+      data.webhookUrl,
+      JSON.stringify(data.condition),
+      toBool(false),
+      computeNextRunAt(data.cron, data.timezone, data.enabled),
+      now,
+      now,
+    ]
+  );
+
+  const schedule = await getQueryScheduleById(id);
+  if (!schedule) throw new Error('Failed to create schedule');
+  return schedule;
+}
+
+export async function getQueryScheduleById(id: string): Promise<QuerySchedule | null> {
+  const client = getDbClient();
+  const row = await client.queryOne<DbRow>(`${SCHEDULE_SELECT} WHERE qs.id = ?`, [id]);
+  return row ? rowToSchedule(row) : null;
+}
+
+/**
+ * Schedules of a saved query. Team schedules are visible to the whole team;
+ * personal ones only to their creator.
+ */
+export async function getQuerySchedules(queryId: string, userId: string): Promise<QuerySchedule[]> {
+  const client = getDbClient();
+  const rows = await client.query<DbRow>(
+    `${SCHEDULE_SELECT}
+     WHERE qs.query_id = ? AND (qs.user_id = ? OR qs.team_id IS NOT NULL)
+     ORDER BY qs.name`,
+    [queryId, userId]
+  );
+  return rows.map(rowToSchedule);
+}
+
+export async function updateQuerySchedule(
+  id: string,
+  updates: Partial<QueryScheduleData>
+): Promise<QuerySchedule | null> {
+  const client = getDbClient();
+  const existing = await getQueryScheduleById(id);
+  if (!existing) return null;
+
+  const fields: string[] = ['updated_at = ?'];
+  const values: unknown[] = [new Date().toISOString()];
+
+  if (updates.name !== undefined) {
+    fields.push('name = ?');
+    values.push(updates.name);
+  }
+  if (updates.connectionId !== undefined) {
+    fields.push('connection_id = ?');
+    values.push(updates.connectionId);
+  }
+  if (updates.parameterValues !== undefined) {
+    fields.push('parameter_values = ?');
+    values.push(JSON.stringify(updates.parameterValues));
+  }
+  if (updates.emailRecipients !== undefined) {
+    fields.push('email_recipients = ?');
+    values.push(JSON.stringify(updates.emailRecipients));
+  }
+  if (updates.emailFormat !== undefined) {
+    fields.push('email_format = ?');
+    values.push(updates.emailFormat);
+  }
+  if (updates.webhookUrl !== undefined) {
+    fields.push('webhook_url = ?');
+    values.push(updates.webhookUrl);
+  }
+  if (updates.condition !== undefined) {
+    // A new condition starts over, so a threshold already crossed alerts again
+    fields.push('alert_condition = ?', 'condition_met = ?');
+    values.push(JSON.stringify(updates.condition), toBool(false));
+  }
+
+  // Any schedule change recomputes the next run from now
+  if (updates.cron !== undefined || updates.timezone !== undefined || updates.enabled !== undefined) {
+    const cron = updates.cron ?? existing.cron;
+    const timezone = updates.timezone ?? existing.timezone;
+    const enabled = updates.enabled ?? existing.enabled;
+    fields.push('cron = ?', 'timezone = ?', 'enabled = ?', 'next_run_at = ?');
+    values.push(cron, timezone, toBool(enabled), computeNextRunAt(cron, timezone, enabled));
+  }
+
+  values.push(id);
+  await client.execute(`UPDATE query_schedules SET ${fields.join(', ')} WHERE id = ?`, values);
+
+  return getQueryScheduleById(id);
+}
+
+export async function deleteQuerySchedule(id: string): Promise<boolean> {
+  const client = getDbClient();
+  const result = await client.execute('DELETE FROM query_schedules WHERE id = ?', [id]);
+  return result.changes > 0;
+}
+
+export async function canUserAccessQuerySchedule(userId: string, schedule: QuerySchedule): Promise<boolean> {
+  if (schedule.userId === userId) return true;
+  if (!schedule.teamId) return false;
+  return (await getUserRoleInTeam(schedule.teamId, userId)) !== null;
+}
+
+/**
+ * Team schedules can be edited by their creator or anyone whose role manages the team
+ */
+export async function canUserModifyQuerySchedule(userId: string, schedule: QuerySchedule): Promise<boolean> {
+  if (schedule.userId === userId) return true;
+  if (!schedule.teamId) return false;
+  return hasTeamCapability(schedule.teamId, userId, 'manage_team');
+}
+
+/**
+ * Enabled schedules whose next run time has passed
+ */
+export async function getDueQuerySchedules(now: Date = new Date()): Promise<QuerySchedule[]> {
+  const client = getDbClient();
+  const rows = await client.query<DbRow>(
+    `${SCHEDULE_SELECT}
+     WHERE qs.enabled = ? AND qs.next_run_at IS NOT NULL AND qs.next_run_at <= ?
+     ORDER BY qs.next_run_at`,
+    [toBool(true), now.toISOString()]
+  );
+  return rows.map(rowToSchedule);
+}
+
+/**
+ * Advance a due schedule to its next run time. Returns false when another
+ * process already claimed this run, so each occurrence runs only once.
+ */
+export async function claimScheduledQueryRun(schedule: QuerySchedule, now: Date = new Date()): Promise<boolean> {
+  if (!schedule.nextRunAt) return false;
+
+  const client = getDbClient();
+  const result = await client.execute(
+    'UPDATE query_schedules SET next_run_at = ? WHERE id = ? AND next_run_at = ?',
+    [
+      computeNextRunAt(schedule.cron, schedule.timezone, schedule.enabled, now),
+      schedule.id,
+      schedule.nextRunAt.toISOString(),
+    ]
+  );
+  return result.changes > 0;
+}
+
+export async function recordQueryScheduleRun(data: {
+  scheduleId: string;
+  trigger: ScheduleRunTrigger;
+  status: ScheduleRunStatus;
+  rowCount: number | null;
+  conditionMet: boolean;
+  deliveries: ScheduleDelivery[];
+  error: string | null;
+  startedAt: Date;
+}): Promise<QueryScheduleRun> {
+  const client = getDbClient();
+  const id = uuidv4();
+  const finishedAt = new Date().toISOString();
+
+  await client.execute(
+    `INSERT INTO query_schedule_runs (
+      id, schedule_id, triggered_by, status, row_count, condition_met, deliveries, error, started_at, finished_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      id,
+      data.scheduleId,
+      data.trigger,
+      data.status,
+      data.rowCount,
+      toBool(data.conditionMet),
+      JSON.stringify(data.deliveries),
+      data.error,
+      data.startedAt.toISOString(),
+      finishedAt,
+    ]
+  );
+
+  // Without a result (the query failed) the previous condition state stands
+  if (data.rowCount === null) {
+    await client.execute(
+      'UPDATE query_schedules SET last_run_at = ?, last_status = ? WHERE id = ?',
+      [finishedAt, data.status, data.scheduleId]
+    );
+  } else {
+    await client.execute(
+      'UPDATE query_schedules SET last_run_at = ?, last_status = ?, condition_met = ? WHERE id = ?',
+      [finishedAt, data.status, toBool(data.conditionMet), data.scheduleId]
+    );
+  }
+
+  const row = await client.queryOne<DbRow>('SELECT * FROM query_schedule_runs WHERE id = ?', [id]);
+  if (!row) throw new Error('Failed to record schedule run');
+  return rowToRun(row);
+}
+
+export async function getQueryScheduleRuns(scheduleId: string, limit: number = 50): Promise<QueryScheduleRun[]> {
+  const client = getDbClient();
+  const rows = await client.query<DbRow>(
+    'SELECT * FROM query_schedule_runs WHERE schedule_id = ? ORDER BY started_at DESC LIMIT ?',
+    [scheduleId, limit]
+  );
+  return rows.map(rowToRun);
+}
@@ -0,0 +1,63 @@
+/**
+ * Running Queries
+ *
+ * Tracks the user queries executing in this server process so the user who
+ * started one can cancel it. The client picks an execution ID per run and
+ * sends it with the query, then posts the same ID to the cancel endpoint.
+ */
+
+import { getPoolManager } from './connection-pool';
+
+interface RunningQuery {
+  executionId: string;
+  userId: string;
+  connectionId: string;
+  startedAt: Date;
+}
+
+export type CancelQueryResult =
+  | { cancelled: true }
+  | { cancelled: false; error: string; status: number };
+
+const runningQueries: Map<string, RunningQuery> = new Map();
+
+/**
+ * Run a query while it is registered as cancellable under its execution ID
+ */
+export async function trackRunningQuery<T>(
+  query: Omit<RunningQuery, 'startedAt'>,
+  run: () => Promise<T>
+): Promise<T> {
+  // Refuse to take over an ID that belongs to another execution
+  if (runningQueries.has(query.executionId)) {
+    throw new Error('A query with this execution ID is already running');
+  }
+
+  runningQueries.set(query.executionId, { ...query, startedAt: new Date() });
+  try {
+    return await run();
+  } finally {
+    runningQueries.delete(query.executionId);
+  }
+}
+
+/**
+ * Cancel a running query on behalf of the user who started it
+ */
+export async function cancelRunningQuery(executionId: string, userId: string): Promise<CancelQueryResult> {
+  const query = runningQueries.get(executionId);
+  if (!query) {
+    return { cancelled: false, error: 'Query is not running', status: 404 };
+  }
+
+  if (query.userId !== userId) {
+    return { cancelled: false, error: 'You can only cancel your own queries', status: 403 };
+  }
+
+  const cancelled = await getPoolManager().cancelQuery(query.connectionId, executionId);
+  if (!cancelled) {
+    return { cancelled: false, error: 'This query can no longer be cancelled', status: 409 };
+  }
+
+  return { cancelled: true };
+}
@@ -0,0 +1,143 @@
+/**
+ * Saved Query Runner
+ *
+ * Runs a saved query for a user: checks their access to the connection and,
+ * in a team, the statement against their effective permissions, then binds
+ * the parameter values, executes and masks restricted columns. Shared by the saved query run endpoint,
+ * dashboard widgets and scheduled runs, so all enforce the same checks.
+ * Widgets re-run their query for every viewer and schedules run unattended,
+ * so both only run queries that read.
+ */
+
+import { getConnectionById, isDDLQuery, invalidateSchemaCache } from './app-db';
+import { executeQueryWithParams } from './query-executor';
+import { validateConnectionAccess } from './teams';
+import { getEffectivePermissions } from './permissions';
+import { recordQueryExecution } from './query-history';
+import type { SavedQuery } from './queries';
+import { validateQuery } from '@/lib/permissions/validator';
+import { applyColumnMasking, getResultColumnMasks, type ColumnMasks } from '@/lib/permissions/masking';
+import { bindParameters, extractParameterNames, resolveParameterValues, syncParameters } from '@/lib/sql/query-parameters';
+import { isReadOnlySql } from '@/lib/sql/sql-access';
+import { checkChangeApproval } from '@/lib/change-requests/change-policy';
+import type { DatabaseType, QueryHistorySource, QueryParameterValue, QueryResult } from '@/types';
+
+export type RunSavedQueryOutcome =
+  | { ok: true; result: QueryResult }
+  | {
+      ok: false;
+      status: number;
+      error: string;
+      permissionError?: boolean;
+      violationType?: string;
+      parameterErrors?: Record<string, string>;
+    };
+
+const READ_ONLY_ERROR = 'Dashboard widgets can only show queries that read data';
+const SCHEDULE_READ_ONLY_ERROR = 'Schedules can only run queries that read data';
+
+/**
+ * Whether saved query SQL only reads. Parameters are bound first: their
+ * values never change what the statement does.
+ */
+function isReadOnlySavedQuery(sql: string, dbType: DatabaseType): boolean {
+  const values = Object.fromEntries(extractParameterNames(sql).map((name) => [name, null]));
+  return isReadOnlySql(bindParameters(sql, dbType, values).sql, dbType);
+}
+
+/**
+ * The error for a widget whose query writes, or null when it may be pinned.
+ * Without a connection the dialect isn't known yet, so the query has to read
+ * in at least one; it's checked again in its connection's dialect on every run.
+ */
+export function checkWidgetQuery(sql: string, dbType: DatabaseType | null): string | null {
+  const dialects: DatabaseType[] = dbType ? [dbType] : ['postgresql', 'mysql', 'mariadb', 'sqlite'];
+  return dialects.some((dialect) => isReadOnlySavedQuery(sql, dialect)) ? null : READ_ONLY_ERROR;
+}
+
+export async function runSavedQuery(options: {
+  userId: string;
+  query: SavedQuery;
+  connectionId?: string | null; // Defaults to the connection the query was saved with
+  teamId?: string | null;
+  values: Record<string, QueryParameterValue>;
+  limit?: number;
+  source: QueryHistorySource;
+  /** Refuse to run queries that write */
+  readOnly?: boolean;
+}): Promise<RunSavedQueryOutcome> {
+  const { userId, query, teamId, limit } = options;
+
+  const connectionId = options.connectionId ?? query.connectionId;
+  if (!connectionId) {
+    return { ok: false, status: 400, error: 'Choose a connection to run this query on' };
+  }
+
+  const accessValidation = await validateConnectionAccess(userId, connectionId, teamId || null);
+  if (!accessValidation.isValid) {
+    return { ok: false, status: 403, error: accessValidation.error || 'Access denied', permissionError: true };
+  }
+
+  const connection = teamId
+    ? await getConnectionById(connectionId)
+    : await getConnectionById(connectionId, userId);
+
+  if (!connection) {
+    return { ok: false, status: 404, error: 'Connection not found' };
+  }
+
+  const { values, errors } = resolveParameterValues(syncParameters(query.sql, query.parameters), options.values);
+  if (Object.keys(errors).length > 0) {
+    return { ok: false, status: 400, error: 'Invalid parameter values', parameterErrors: errors };
+  }
+
+  // Values travel as bound parameters; the SQL only gains placeholders
+  const bound = bindParameters(query.sql, connection.type, values);
+
+  if (options.readOnly && !isReadOnlySql(bound.sql, connection.type)) {
+    return { ok: false, status: 400, error: options.source === 'schedule' ? SCHEDULE_READ_ONLY_ERROR : READ_ONLY_ERROR };
+  }
+
+  let masks: ColumnMasks = new Map();
+  let filteredSql = bound.sql;
+  if (teamId) {
+    const permission = await getEffectivePermissions(userId, teamId, connectionId);
+    const validation = validateQuery(bound.sql, permission, connection.type);
+
+    if (!validation.allowed) {
+      return {
+        ok: false,
+        status: 403,
+        error: validation.reason || 'Permission denied',
+        permissionError: true,
+        violationType: validation.violationType,
+      };
+    }
+    masks = getResultColumnMasks(bound.sql, permission, connection.type);
+    filteredSql = validation.sql ?? bound.sql;
+  }
+
+  const approval = await checkChangeApproval(connectionId, bound.sql, connection.type);
+  if (approval) {
+    return { ok: false, status: 403, error: approval.error, permissionError: true };
+  }
+
+  const result = await executeQueryWithParams(connection, filteredSql, bound.params, limit);
+
+  await recordQueryExecution({
+    userId,
+    teamId,
+    connectionId,
+    sql: query.sql,
+    source: options.source,
+    executionTime: result.executionTime,
+    rowCount: result.rowCount,
+    error: result.error,
+  });
+
+  if (isDDLQuery(bound.sql)) {
+    await invalidateSchemaCache(connectionId);
+  }
+
+  return { ok: true, result: applyColumnMasking(result, masks) };
+}
@@ -1,6 +1,7 @@
 import Database from 'better-sqlite3';
 import type { DatabaseConnection, TableInfo, ColumnDefinition, IndexInfo } from '@/types';
 import { getPoolManager } from './connection-pool';
+import type { EnrichedSchema } from './app-db';
 
 export async function fetchTables(connection: DatabaseConnection): Promise<TableInfo[]> {
   switch (connection.type) {
@@ -95,6 +96,65 @@ export async function fetchAllRelationships(connection: DatabaseConnection): Pro
   }
 }
 
+/**
+ * Fetch tables, columns, indexes and relationships in the shape stored by the schema cache
+ */
+export async function fetchEnrichedSchema(connection: DatabaseConnection): Promise<EnrichedSchema> {
+  const tables = await fetchTables(connection);
+  const relationships = await fetchAllRelationships(connection);
+
+  const enrichedTables = await Promise.all(
+    tables.map(async (table) => {
+      const columns = await fetchColumns(connection, table.name);
+      const foreignKeys = await fetchForeignKeys(connection, table.name);
+      let indexes: Awaited<ReturnType<typeof fetchIndexes>> = [];
+
+      try {
+        indexes = await fetchIndexes(connection, table.name);
+      } catch {
+        // Indexes are optional, continue without them
+      }
+
+      // Build a map of foreign key references
+      const fkMap = new Map(
+        foreignKeys.map((fk) => [fk.columnName, { table: fk.referencedTable, column: fk.referencedColumn }])
+      );
+
+      return {
+        name: table.name,
+        type: table.type as 'table' | 'view',
+        rowCount: table.rowCount,
+        columns: columns.map((col) => ({
+          name: col.name,
+          type: col.type,
+          nullable: col.nullable,
+          isPrimaryKey: col.isPrimaryKey,
+          isForeignKey: col.isForeignKey || fkMap.has(col.name),
+          autoIncrement: col.autoIncrement ?? false,
+          defaultValue: col.defaultValue,
+          references: fkMap.get(col.name) || col.references,
+        })),
+        indexes: indexes.map((idx) => ({
+          name: idx.name,
+          columns: idx.columns,
+          unique: idx.unique,
+          primary: idx.primary,
+        })),
+      };
+    })
+  );
+
+  return {
+    tables: enrichedTables,
+    relationships: relationships.map((rel) => ({
+      fromTable: rel.fromTable,
+      fromColumn: rel.fromColumn,
+      toTable: rel.toTable,
+      toColumn: rel.toColumn,
+    })),
+  };
+}
+
 async function fetchMySqlTables(connection: DatabaseConnection): Promise<TableInfo[]> {
   const poolManager = getPoolManager();
   const result = await poolManager.executeQuery(
@@ -191,11 +251,13 @@ async function fetchPostgresColumns(
     connection,
     `SELECT 
         c.column_name as name,
-        c.data_type as type,
+        pg_catalog.format_type(a.atttypid, a.atttypmod) as type,
         c.is_nullable as nullable,
         c.column_default as default_value,
         CASE WHEN pk.column_name IS NOT NULL THEN true ELSE false END as is_primary_key
       FROM information_schema.columns c
+      -- format_type gives the full type (varchar(255), numeric(10,2), text[]) that data_type drops
+      JOIN pg_attribute a ON a.attrelid = quote_ident(c.table_name)::regclass AND a.attname = c.column_name
       LEFT JOIN (
         SELECT ku.column_name
         FROM information_schema.table_constraints tc
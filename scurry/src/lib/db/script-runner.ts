@@ -0,0 +1,144 @@
+/**
+ * Script Runner
+ *
+ * Runs a script statement by statement against a target connection, keeping
+ * each statement's result set or affected-row count. Scripts either run
+ * statement by statement (optionally continuing past errors) or inside one
+ * transaction that is rolled back as a whole at the first error.
+ */
+
+import { getPoolManager } from './connection-pool';
+import { executeQueryWithOptions } from './query-executor';
+import { QueryCancelledError } from './pools/running-statements';
+import type { ParsedStatement } from '@/lib/import/sql-importer';
+import type { DatabaseConnection, QueryResult, ScriptOptions, ScriptResult, ScriptStatementResult } from '@/types';
+
+export interface ScriptRunOptions extends ScriptOptions {
+  limit: number; // Rows kept per statement
+  executionId?: string;
+}
+
+/**
+ * Thrown inside the transaction to roll back after a failed statement
+ */
+class ScriptRolledBackError extends Error {}
+
+function toStatementResults(statements: ParsedStatement[]): ScriptStatementResult[] {
+  return statements.map((statement, index) => ({
+    index,
+    sql: statement.sql,
+    startLine: statement.startLine,
+    status: 'skipped',
+    result: null,
+  }));
+}
+
+async function runStatementByStatement(
+  connection: DatabaseConnection,
+  results: ScriptStatementResult[],
+  options: ScriptRunOptions
+): Promise<string | undefined> {
+  for (const statement of results) {
+    const result = await executeQueryWithOptions(connection, statement.sql, undefined, {
+      limit: options.limit,
+      executionId: options.executionId,
+    });
+    statement.result = result;
+
+    if (result.cancelled) {
+      statement.status = 'cancelled';
+      return 'Script cancelled';
+    }
+
+    statement.status = result.error ? 'error' : 'success';
+    if (result.error && options.stopOnError) {
+      return `Statement ${statement.index + 1} failed; the rest of the script was skipped`;
+    }
+  }
+  return undefined;
+}
+
+async function runInTransaction(
+  connection: DatabaseConnection,
+  results: ScriptStatementResult[],
+  options: ScriptRunOptions
+): Promise<string | undefined> {
+  try {
+    await getPoolManager().transaction(connection, async (query) => {
+      for (const statement of results) {
+        const startTime = Date.now();
+        try {
+          const result = await query(statement.sql);
+          statement.result = {
+            columns: result.columns,
+            rows: result.rows.slice(0, options.limit),
+            rowCount: result.rowCount,
+            executionTime: Date.now() - startTime,
+          };
+          statement.status = 'success';
+        } catch (error) {
+          statement.result = {
+            columns: [],
+            rows: [],
+            rowCount: 0,
+            executionTime: Date.now() - startTime,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          };
+          statement.status = 'error';
+          throw new ScriptRolledBackError();
+        }
+      }
+    }, options.executionId);
+    return undefined;
+  } catch (error) {
+    // Nothing that ran survives the rollback
+    for (const statement of results) {
+      if (statement.status === 'success') {
+        statement.status = 'rolled_back';
+      }
+    }
+
+    const failed = results.find((statement) => statement.status === 'error');
+    if (error instanceof QueryCancelledError) {
+      if (failed?.result) {
+        failed.status = 'cancelled';
+        failed.result = { ...failed.result, error: error.message, cancelled: true };
+      }
+      return 'Script cancelled; the transaction was rolled back';
+    }
+    if (error instanceof ScriptRolledBackError && failed) {
+      return `Statement ${failed.index + 1} failed; the transaction was rolled back`;
+    }
+    return `Transaction failed and was rolled back: ${error instanceof Error ? error.message : 'Unknown error'}`;
+  }
+}
+
+export async function runScript(
+  connection: DatabaseConnection,
+  statements: ParsedStatement[],
+  options: ScriptRunOptions
+): Promise<ScriptResult> {
+  const startTime = Date.now();
+  const results = toStatementResults(statements);
+
+  const error = options.transaction
+    ? await runInTransaction(connection, results, options)
+    : await runStatementByStatement(connection, results, options);
+
+  return {
+    statements: results,
+    transaction: options.transaction,
+    executionTime: Date.now() - startTime,
+    error,
+    executionId: options.executionId,
+  };
+}
+
+/**
+ * Statements of a finished script that actually reached the database
+ */
+export function executedStatements(script: ScriptResult): Array<ScriptStatementResult & { result: QueryResult }> {
+  return script.statements.filter(
+    (statement): statement is ScriptStatementResult & { result: QueryResult } => statement.result !== null
+  );
+}
@@ -274,3 +274,43 @@ export function escapeValueForDisplay(value: unknown): string {
   }
   return `'${String(value).replace(/'/g, "''")}'`;
 }
+
+/**
+ * Render a value as a literal for the target dialect
+ */
+export function toSqlLiteral(value: unknown, dbType: DatabaseType): string {
+  if (value === null || value === undefined) return 'NULL';
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : 'NULL';
+  if (typeof value === 'bigint') return value.toString();
+  if (typeof value === 'boolean') {
+    if (dbType === 'sqlite') return value ? '1' : '0';
+    return value ? 'TRUE' : 'FALSE';
+  }
+  if (value instanceof Uint8Array) {
+    const hex = Buffer.from(value).toString('hex');
+    return dbType === 'postgresql' ? `'\\x${hex}'::bytea` : `X'${hex}'`;
+  }
+
+  const text = value instanceof Date
+    ? value.toISOString()
+    : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  const escaped = text.replace(/'/g, "''");
+
+  // MySQL treats backslash as an escape character inside string literals
+  if (dbType === 'mysql' || dbType === 'mariadb') {
+    return `'${escaped.replace(/\\/g, '\\\\')}'`;
+  }
+  return `'${escaped}'`;
+}
+
+/**
+ * Inline parameters into a statement produced by the parameterized builders.
+ * Used for generated scripts and previews; execution should keep using parameters.
+ */
+export function inlineSqlParams(sql: string, params: unknown[], dbType: DatabaseType): string {
+  if (dbType === 'postgresql') {
+    return sql.replace(/\$(\d+)/g, (_, index) => toSqlLiteral(params[Number(index) - 1], dbType));
+  }
+  let i = 0;
+  return sql.replace(/\?/g, () => toSqlLiteral(params[i++], dbType));
+}
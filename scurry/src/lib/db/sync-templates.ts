@@ -0,0 +1,292 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getUserRoleInTeam } from './teams';
+import { hasTeamCapability } from './team-roles';
+import { getDbClient, getDbType, type DbRow } from './db-client';
+import { getNextCronRun } from '@/lib/scheduler/cron';
+import type { SyncTemplate, SyncTemplateFormData, SyncRun, SyncRunTrigger, SyncResult, SyncScope } from '@/types/sync';
+
+function toBool(value: boolean): boolean | number {
+  return getDbType() === 'postgres' ? value : (value ? 1 : 0);
+}
+
+function rowToSyncTemplate(row: DbRow): SyncTemplate {
+  const template: SyncTemplate = {
+    id: row.id as string,
+    name: row.name as string,
+    description: (row.description as string | null) ?? undefined,
+    sourceConnectionId: row.source_connection_id as string,
+    targetConnectionId: row.target_connection_id as string,
+    tableName: (row.table_name as string | null) ?? undefined,
+    scope: row.scope as SyncScope,
+    includeStructure: Boolean(row.include_structure),
+    userId: row.user_id as string,
+    teamId: (row.team_id as string | null) ?? undefined,
+    schedule: (row.schedule as string | null) ?? undefined,
+    scheduleEnabled: Boolean(row.schedule_enabled),
+    nextRunAt: row.next_run_at ? new Date(row.next_run_at as string) : undefined,
+    lastRunAt: row.last_run_at ? new Date(row.last_run_at as string) : undefined,
+    createdAt: new Date(row.created_at as string),
+    updatedAt: new Date(row.updated_at as string),
+  };
+
+  if (row.user_email) {
+    template.user = {
+      id: row.user_id as string,
+      email: row.user_email as string,
+      name: row.user_name as string | null,
+    };
+  }
+
+  return template;
+}
+
+function rowToSyncRun(row: DbRow): SyncRun {
+  const dbType = getDbType();
+  return {
+    id: row.id as string,
+    templateId: row.template_id as string,
+    userId: row.user_id as string,
+    trigger: row.triggered_by as SyncRunTrigger,
+    tableName: row.table_name as string,
+    success: Boolean(row.success),
+    result: dbType === 'postgres'
+      ? (row.result as SyncResult)
+      : JSON.parse(row.result as string),
+    startedAt: new Date(row.started_at as string),
+    finishedAt: new Date(row.finished_at as string),
+  };
+}
+
+/**
+ * Next run time for a schedule, or null when the template is not scheduled
+ */
+function computeNextRunAt(schedule: string | null | undefined, enabled: boolean, from: Date = new Date()): string | null {
+  if (!schedule || !enabled) return null;
+  return getNextCronRun(schedule, from)?.toISOString() ?? null;
+}
+
+const TEMPLATE_SELECT = `
+  SELECT
+    st.*,
+    u.email as user_email,
+    u.name as user_name
+  FROM sync_templates st
+  LEFT JOIN users u ON st.user_id = u.id
+`;
+
+export async function createSyncTemplate(
+  data: SyncTemplateFormData & { userId: string }
+): Promise<SyncTemplate> {
+  const client = getDbClient();
+  const now = new Date().toISOString();
+  const id = uuidv4();
+  const scheduleEnabled = Boolean(data.schedule) && (data.scheduleEnabled ?? true);
+
+  await client.execute(
+    `INSERT INTO sync_templates (
+      id, user_id, team_id, name, description, source_connection_id, target_connection_id,
+      table_name, scope, include_structure, schedule, schedule_enabled, next_run_at, created_at, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      id,
+      data.userId,
+      data.teamId || null,
+      data.name,
+      data.description || null,
+      data.sourceConnectionId,
+      data.targetConnectionId,
+      data.tableName || null,
+      data.scope,
+      toBool(data.includeStructure),
+      data.schedule || null,
+      toBool(scheduleEnabled),
+      computeNextRunAt(data.schedule, scheduleEnabled),
+      now,
+      now,
+    ]
+  );
+
+  const template = await getSyncTemplateById(id);
+  if (!template) throw new Error('Failed to create sync template');
+  return template;
+}
+
+export async function getSyncTemplateById(id: string): Promise<SyncTemplate | null> {
+  const client = getDbClient();
+  const row = await client.queryOne<DbRow>(`${TEMPLATE_SELECT} WHERE st.id = ?`, [id]);
+  return row ? rowToSyncTemplate(row) : null;
+}
+
+/**
+ * Templates for a team workspace, or the user's personal templates
+ */
+export async function getSyncTemplates(userId: string, teamId?: string | null): Promise<SyncTemplate[]> {
+  const client = getDbClient();
+  const rows = teamId
+    ? await client.query<DbRow>(`${TEMPLATE_SELECT} WHERE st.team_id = ? ORDER BY st.name`, [teamId])
+    : await client.query<DbRow>(
+        `${TEMPLATE_SELECT} WHERE st.user_id = ? AND st.team_id IS NULL ORDER BY st.name`,
+        [userId]
+      );
+  return rows.map(rowToSyncTemplate);
+}
+
+export async function updateSyncTemplate(
+  id: string,
+  updates: Partial<Omit<SyncTemplateFormData, 'teamId'>>
+): Promise<SyncTemplate | null> {
+  const client = getDbClient();
+  const existing = await getSyncTemplateById(id);
+  if (!existing) return null;
+
+  const fields: string[] = ['updated_at = ?'];
+  const values: unknown[] = [new Date().toISOString()];
+
+  if (updates.name !== undefined) {
+    fields.push('name = ?');
+    values.push(updates.name);
+  }
+  if (updates.description !== undefined) {
+    fields.push('description = ?');
+    values.push(updates.description || null);
+  }
+  if (updates.sourceConnectionId !== undefined) {
+    fields.push('source_connection_id = ?');
+    values.push(updates.sourceConnectionId);
+  }
+  if (updates.targetConnectionId !== undefined) {
+    fields.push('target_connection_id = ?');
+    values.push(updates.targetConnectionId);
+  }
+  if (updates.tableName !== undefined) {
+    fields.push('table_name = ?');
+    values.push(updates.tableName || null);
+  }
+  if (updates.scope !== undefined) {
+    fields.push('scope = ?');
+    values.push(updates.scope);
+  }
+  if (updates.includeStructure !== undefined) {
+    fields.push('include_structure = ?');
+    values.push(toBool(updates.includeStructure));
+  }
+
+  // Any schedule change recomputes the next run from now
+  if (updates.schedule !== undefined || updates.scheduleEnabled !== undefined) {
+    const schedule = updates.schedule !== undefined ? updates.schedule || null : existing.schedule ?? null;
+    const enabled = Boolean(schedule) && (updates.scheduleEnabled ?? existing.scheduleEnabled);
+    fields.push('schedule = ?', 'schedule_enabled = ?', 'next_run_at = ?');
+    values.push(schedule, toBool(enabled), computeNextRunAt(schedule, enabled));
+  }
+
+  values.push(id);
+  await client.execute(`UPDATE sync_templates SET ${fields.join(', ')} WHERE id = ?`, values);
+
+  return getSyncTemplateById(id);
+}
+
+export async function deleteSyncTemplate(id: string): Promise<boolean> {
+  const client = getDbClient();
+  const result = await client.execute('DELETE FROM sync_templates WHERE id = ?', [id]);
+  return result.changes > 0;
+}
+
+export async function canUserAccessSyncTemplate(userId: string, template: SyncTemplate): Promise<boolean> {
+  if (template.userId === userId) return true;
+  if (!template.teamId) return false;
+  return (await getUserRoleInTeam(template.teamId, userId)) !== null;
+}
+
+/**
+ * Team templates can be edited by their creator or anyone whose role manages the team
+ */
+export async function canUserModifySyncTemplate(userId: string, template: SyncTemplate): Promise<boolean> {
+  if (template.userId === userId) return true;
+  if (!template.teamId) return false;
+  return hasTeamCapability(template.teamId, userId, 'manage_team');
+}
+
+/**
+ * Running a template writes to the target, so team viewers can't do it
+ */
+export async function canUserRunSyncTemplate(userId: string, template: SyncTemplate): Promise<boolean> {
+  if (template.userId === userId) return true;
+  if (!template.teamId) return false;
+  const role = await getUserRoleInTeam(template.teamId, userId);
+  return role !== null && role !== 'viewer';
+}
+
+/**
+ * Scheduled templates whose next run time has passed
+ */
+export async function getDueSyncTemplates(now: Date = new Date()): Promise<SyncTemplate[]> {
+  const client = getDbClient();
+  const rows = await client.query<DbRow>(
+    `${TEMPLATE_SELECT}
+     WHERE st.schedule_enabled = ? AND st.next_run_at IS NOT NULL AND st.next_run_at <= ?
+     ORDER BY st.next_run_at`,
+    [toBool(true), now.toISOString()]
+  );
+  return rows.map(rowToSyncTemplate);
+}
+
+/**
+ * Advance a due template to its next run time. Returns false when another
+ * process already claimed this run, so each occurrence runs only once.
+ */
+export async function claimScheduledSyncRun(template: SyncTemplate, now: Date = new Date()): Promise<boolean> {
+  if (!template.nextRunAt) return false;
+
+  const client = getDbClient();
+  const result = await client.execute(
+    'UPDATE sync_templates SET next_run_at = ? WHERE id = ? AND next_run_at = ?',
+    [computeNextRunAt(template.schedule, template.scheduleEnabled, now), template.id, template.nextRunAt.toISOString()]
+  );
+  return result.changes > 0;
+}
+
+export async function recordSyncRun(data: {
+  templateId: string;
+  userId: string;
+  trigger: SyncRunTrigger;
+  tableName: string;
+  result: SyncResult;
+  startedAt: Date;
+}): Promise<SyncRun> {
+  const client = getDbClient();
+  const id = uuidv4();
+  const finishedAt = new Date().toISOString();
+
+  await client.execute(
+    `INSERT INTO sync_runs (id, template_id, user_id, triggered_by, table_name, success, result, started_at, finished_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      id,
+      data.templateId,
+      data.userId,
+      data.trigger,
+      data.tableName,
+      toBool(data.result.success),
+      JSON.stringify(data.result),
+      data.startedAt.toISOString(),
+      finishedAt,
+    ]
+  );
+  await client.execute(
+    'UPDATE sync_templates SET last_run_at = ? WHERE id = ?',
+    [finishedAt, data.templateId]
+  );
+
+  const row = await client.queryOne<DbRow>('SELECT * FROM sync_runs WHERE id = ?', [id]);
+  if (!row) throw new Error('Failed to record sync run');
+  return rowToSyncRun(row);
+}
+
+export async function getSyncRuns(templateId: string, limit: number = 50): Promise<SyncRun[]> {
+  const client = getDbClient();
+  const rows = await client.query<DbRow>(
+    'SELECT * FROM sync_runs WHERE template_id = ? ORDER BY started_at DESC LIMIT ?',
+    [templateId, limit]
+  );
+  return rows.map(rowToSyncRun);
+}
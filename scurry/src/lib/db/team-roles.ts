@@ -0,0 +1,250 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getDbClient, getDbType, type DbRow } from './db-client';
+import {
+  teamCapabilities,
+  type DefaultTeamRole,
+  type TeamCapability,
+  type TeamRole,
+} from '@/lib/validations/team';
+
+// Types
+export interface TeamRoleDefinition {
+  id: string;
+  teamId: string;
+  // What team_members.role and team_invitations.role hold: the default role's name, or the id of a custom role
+  key: TeamRole;
+  name: string;
+  description: string | null;
+  capabilities: TeamCapability[];
+  isDefault: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface TeamMemberAccess {
+  role: TeamRole;
+  capabilities: TeamCapability[];
+}
+
+/**
+ * The roles every team starts with. They can be edited but not deleted, and
+ * are used as they are here until a team's rows have been seeded.
+ */
+export const DEFAULT_TEAM_ROLES: Record<DefaultTeamRole, { name: string; description: string; capabilities: TeamCapability[] }> = {
+  admin: {
+    name: 'Admin',
+    description: 'Manages the team, its members and its connections',
+    capabilities: [...teamCapabilities],
+  },
+  member: {
+    name: 'Member',
+    description: 'Works with the team\'s connections and shares their own',
+    capabilities: ['share_connections'],
+  },
+  viewer: {
+    name: 'Viewer',
+    description: 'Read-only access to the team\'s work',
+    capabilities: [],
+  },
+};
+
+function isDefaultTeamRole(role: string): role is DefaultTeamRole {
+  return Object.prototype.hasOwnProperty.call(DEFAULT_TEAM_ROLES, role);
+}
+
+function parseCapabilities(value: unknown): TeamCapability[] {
+  if (!value) return [];
+  const parsed = getDbType() === 'postgres' ? value : JSON.parse(value as string);
+  return Array.isArray(parsed)
+    ? parsed.filter((capability): capability is TeamCapability => teamCapabilities.includes(capability))
+    : [];
+}
+
+/**
+ * Capabilities of a member's role. `storedCapabilities` is the team_roles
+ * column, undefined when the team's roles haven't been seeded yet.
+ */
+export function resolveRoleCapabilities(role: TeamRole, storedCapabilities: unknown): TeamCapability[] {
+  if (role === 'owner') return [...teamCapabilities];
+  if (storedCapabilities !== null && storedCapabilities !== undefined) return parseCapabilities(storedCapabilities);
+  return isDefaultTeamRole(role) ? [...DEFAULT_TEAM_ROLES[role].capabilities] : [];
+}
+
+export function resolveRoleName(role: TeamRole, storedName: unknown): string {
+  if (role === 'owner') return 'Owner';
+  if (storedName) return storedName as string;
+  return isDefaultTeamRole(role) ? DEFAULT_TEAM_ROLES[role].name : role;
+}
+
+// Row converter
+function rowToTeamRole(row: DbRow): TeamRoleDefinition {
+  return {
+    id: row.id as string,
+    teamId: row.team_id as string,
+    key: row.role_key as string,
+    name: row.name as string,
+    description: row.description as string | null,
+    capabilities: parseCapabilities(row.capabilities),
+    isDefault: Boolean(row.is_default),
+    createdAt: new Date(row.created_at as string),
+    updatedAt: new Date(row.updated_at as string),
+  };
+}
+
+// Team Roles CRUD
+export async function seedDefaultTeamRoles(teamId: string): Promise<void> {
+  const client = getDbClient();
+  const now = new Date().toISOString();
+  const isDefault = getDbType() === 'postgres' ? true : 1;
+
+  for (const [key, role] of Object.entries(DEFAULT_TEAM_ROLES)) {
+    await client.execute(
+      `INSERT INTO team_roles (id, team_id, role_key, name, description, capabilities, is_default, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(team_id, role_key) DO NOTHING`,
+      [uuidv4(), teamId, key, role.name, role.description, JSON.stringify(role.capabilities), isDefault, now, now]
+    );
+  }
+}
+
+export async function getTeamRoles(teamId: string): Promise<TeamRoleDefinition[]> {
+  const client = getDbClient();
+  const query = () => client.query<DbRow>(
+    'SELECT * FROM team_roles WHERE team_id = ? ORDER BY is_default DESC, created_at, name',
+    [teamId]
+  );
+
+  let rows = await query();
+  // Teams created before roles existed are seeded the first time they're listed
+  if (!rows.some((row) => row.is_default)) {
+    await seedDefaultTeamRoles(teamId);
+    rows = await query();
+  }
+
+  return rows.map(rowToTeamRole);
+}
+
+export async function getTeamRoleById(teamId: string, id: string): Promise<TeamRoleDefinition | null> {
+  const client = getDbClient();
+  const row = await client.queryOne<DbRow>(
+    'SELECT * FROM team_roles WHERE team_id = ? AND id = ?',
+    [teamId, id]
+  );
+  return row ? rowToTeamRole(row) : null;
+}
+
+/**
+ * Capabilities a role grants, or null when the team has no such role
+ */
+export async function getTeamRoleCapabilities(teamId: string, role: TeamRole): Promise<TeamCapability[] | null> {
+  if (role === 'owner') return [...teamCapabilities];
+
+  const client = getDbClient();
+  const row = await client.queryOne<DbRow>(
+    'SELECT capabilities FROM team_roles WHERE team_id = ? AND role_key = ?',
+    [teamId, role]
+  );
+  if (row) return parseCapabilities(row.capabilities);
+  return isDefaultTeamRole(role) ? [...DEFAULT_TEAM_ROLES[role].capabilities] : null;
+}
+
+export async function createTeamRole(
+  teamId: string,
+  data: { name: string; description?: string | null; capabilities: TeamCapability[] }
+): Promise<TeamRoleDefinition> {
+  const client = getDbClient();
+  const now = new Date().toISOString();
+  const id = uuidv4();
+
+  await client.execute(
+    `INSERT INTO team_roles (id, team_id, role_key, name, description, capabilities, is_default, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      id,
+      teamId,
+      id,
+      data.name,
+      data.description || null,
+      JSON.stringify(data.capabilities),
+      getDbType() === 'postgres' ? false : 0,
+      now,
+      now,
+    ]
+  );
+
+  const role = await getTeamRoleById(teamId, id);
+  if (!role) throw new Error('Failed to create team role');
+  return role;
+}
+
+export async function updateTeamRole(
+  teamId: string,
+  id: string,
+  data: { name: string; description?: string | null; capabilities: TeamCapability[] }
+): Promise<TeamRoleDefinition | null> {
+  const client = getDbClient();
+  const result = await client.execute(
+    `UPDATE team_roles SET name = ?, description = ?, capabilities = ?, updated_at = ?
+     WHERE team_id = ? AND id = ?`,
+    [data.name, data.description || null, JSON.stringify(data.capabilities), new Date().toISOString(), teamId, id]
+  );
+
+  if (result.changes === 0) return null;
+  return getTeamRoleById(teamId, id);
+}
+
+/**
+ * Members and pending invitations holding the role
+ */
+export async function countTeamRoleUsage(teamId: string, role: TeamRole): Promise<number> {
+  const client = getDbClient();
+  const row = await client.queryOne<DbRow>(
+    `SELECT
+      (SELECT COUNT(*) FROM team_members WHERE team_id = ? AND role = ?) +
+      (SELECT COUNT(*) FROM team_invitations WHERE team_id = ? AND role = ?) as usage_count`,
+    [teamId, role, teamId, role]
+  );
+  return Number(row?.usage_count ?? 0);
+}
+
+// Default roles are never deleted
+export async function deleteTeamRole(teamId: string, id: string): Promise<boolean> {
+  const client = getDbClient();
+  const result = await client.execute(
+    `DELETE FROM team_roles WHERE team_id = ? AND id = ? AND is_default = ?`,
+    [teamId, id, getDbType() === 'postgres' ? false : 0]
+  );
+  return result.changes > 0;
+}
+
+// Capability checks
+export async function getTeamMemberAccess(teamId: string, userId: string): Promise<TeamMemberAccess | null> {
+  const client = getDbClient();
+  const row = await client.queryOne<DbRow>(`
+    SELECT tm.role, tr.capabilities
+    FROM team_members tm
+    LEFT JOIN team_roles tr ON tr.team_id = tm.team_id AND tr.role_key = tm.role
+    WHERE tm.team_id = ? AND tm.user_id = ?
+  `, [teamId, userId]);
+
+  if (!row) return null;
+  const role = row.role as TeamRole;
+  return { role, capabilities: resolveRoleCapabilities(role, row.capabilities) };
+}
+
+export async function hasTeamCapability(teamId: string, userId: string, capability: TeamCapability): Promise<boolean> {
+  const access = await getTeamMemberAccess(teamId, userId);
+  return access !== null && access.capabilities.includes(capability);
+}
+
+/**
+ * Whether a member may hand out a role with these capabilities, by inviting
+ * someone with it or moving a member to or from it. Roles that manage the
+ * team are the owner's to give; otherwise members can't grant more than they
+ * have themselves.
+ */
+export function canGrantTeamRole(actor: TeamMemberAccess, capabilities: TeamCapability[]): boolean {
+  if (actor.role === 'owner') return true;
+  if (capabilities.includes('manage_team')) return false;
+  return capabilities.every((capability) => actor.capabilities.includes(capability));
+}
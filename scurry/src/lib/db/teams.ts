@@ -1,9 +1,10 @@
 import { v4 as uuidv4 } from 'uuid';
 import crypto from 'crypto';
-import type { TeamRole, ConnectionPermission } from '@/lib/validations/team';
+import type { TeamRole, TeamCapability, ConnectionPermission } from '@/lib/validations/team';
 import type { DatabaseConnection, DatabaseType } from '@/types';
 import { decrypt } from '@/lib/utils/encryption';
 import { getDbClient, getDbType, type DbRow } from './db-client';
+import { seedDefaultTeamRoles, resolveRoleCapabilities, resolveRoleName } from './team-roles';
 
 // Types
 export interface Team {
@@ -20,6 +21,7 @@ export interface TeamMember {
   teamId: string;
   userId: string;
   role: TeamRole;
+  roleName: string;
   invitedBy: string | null;
   joinedAt: Date;
   user?: {
@@ -47,12 +49,15 @@ export interface SharedConnection {
   teamId: string;
   sharedBy: string;
   permission: ConnectionPermission;
+  // Write queries on a protected connection need another admin's approval
+  isProtected: boolean;
   createdAt: Date;
   connection?: DatabaseConnection;
 }
 
 export interface TeamWithMembership extends Team {
   role: TeamRole;
+  capabilities: TeamCapability[];
   memberCount: number;
 }
 
@@ -74,6 +79,7 @@ function rowToTeamMember(row: DbRow): TeamMember {
     teamId: row.team_id as string,
     userId: row.user_id as string,
     role: row.role as TeamRole,
+    roleName: resolveRoleName(row.role as TeamRole, row.role_name),
     invitedBy: row.invited_by as string | null,
     joinedAt: new Date(row.joined_at as string),
   };
@@ -123,6 +129,7 @@ function rowToSharedConnection(row: DbRow): SharedConnection {
     teamId: row.team_id as string,
     sharedBy: row.shared_by as string,
     permission: row.permission as ConnectionPermission,
+    isProtected: Boolean(row.is_protected),
     createdAt: new Date(row.created_at as string),
   };
   
@@ -167,6 +174,8 @@ export async function createTeam(data: { name: string; slug: string; ownerId: st
     [memberId, id, data.ownerId, now]
   );
   
+  await seedDefaultTeamRoles(id);
+  
   const team = await getTeamById(id);
   if (!team) throw new Error('Failed to create team');
   return team;
@@ -216,9 +225,11 @@ export async function getUserTeams(userId: string): Promise<TeamWithMembership[]
     SELECT 
       t.*,
       tm.role,
+      tr.capabilities as role_capabilities,
       (SELECT COUNT(*) FROM team_members WHERE team_id = t.id) as member_count
     FROM teams t
     JOIN team_members tm ON t.id = tm.team_id
+    LEFT JOIN team_roles tr ON tr.team_id = t.id AND tr.role_key = tm.role
     WHERE tm.user_id = ?
     ORDER BY t.name
   `, [userId]);
@@ -226,6 +237,7 @@ export async function getUserTeams(userId: string): Promise<TeamWithMembership[]
   return rows.map((row) => ({
     ...rowToTeam(row),
     role: row.role as TeamRole,
+    capabilities: resolveRoleCapabilities(row.role as TeamRole, row.role_capabilities),
     memberCount: Number(row.member_count),
   }));
 }
@@ -243,9 +255,11 @@ export async function getTeamMembers(teamId: string): Promise<TeamMember[]> {
     SELECT 
       tm.*,
       u.email as user_email,
-      u.name as user_name
+      u.name as user_name,
+      tr.name as role_name
     FROM team_members tm
     JOIN users u ON tm.user_id = u.id
+    LEFT JOIN team_roles tr ON tr.team_id = tm.team_id AND tr.role_key = tm.role
     WHERE tm.team_id = ?
     ORDER BY tm.role, u.email
   `, [teamId]);
@@ -259,9 +273,11 @@ export async function getTeamMember(teamId: string, userId: string): Promise<Tea
     SELECT 
       tm.*,
       u.email as user_email,
-      u.name as user_name
+      u.name as user_name,
+      tr.name as role_name
     FROM team_members tm
     JOIN users u ON tm.user_id = u.id
+    LEFT JOIN team_roles tr ON tr.team_id = tm.team_id AND tr.role_key = tm.role
     WHERE tm.team_id = ? AND tm.user_id = ?
   `, [teamId, userId]);
   
@@ -313,14 +329,6 @@ export async function getUserRoleInTeam(teamId: string, userId: string): Promise
   return row ? (row.role as TeamRole) : null;
 }
 
-export function canManageTeam(role: TeamRole | null): boolean {
-  return role === 'owner' || role === 'admin';
-}
-
-export function canDeleteTeam(role: TeamRole | null): boolean {
-  return role === 'owner';
-}
-
 // Team Invitations
 export async function createTeamInvitation(data: { teamId: string; email: string; role: TeamRole; invitedBy: string }): Promise<TeamInvitation> {
   const client = getDbClient();
@@ -504,6 +512,38 @@ export async function unshareConnection(connectionId: string, teamId: string): P
   return result.changes > 0;
 }
 
+export async function setConnectionProtected(connectionId: string, teamId: string, isProtected: boolean): Promise<SharedConnection | null> {
+  const client = getDbClient();
+  const dbType = getDbType();
+  const result = await client.execute(
+    'UPDATE shared_connections SET is_protected = ? WHERE connection_id = ? AND team_id = ?',
+    [dbType === 'postgres' ? isProtected : (isProtected ? 1 : 0), connectionId, teamId]
+  );
+  if (result.changes === 0) return null;
+  return getSharedConnection(connectionId, teamId);
+}
+
+/**
+ * Whether the connection is protected in the team, or without a team, in any
+ * team it is shared with: its owner reaches it from their own workspace too
+ */
+export async function isConnectionProtected(connectionId: string, teamId?: string): Promise<boolean> {
+  const client = getDbClient();
+  if (teamId) {
+    const row = await client.queryOne<DbRow>(
+      'SELECT is_protected FROM shared_connections WHERE connection_id = ? AND team_id = ?',
+      [connectionId, teamId]
+    );
+    return Boolean(row?.is_protected);
+  }
+
+  const row = await client.queryOne<DbRow>(
+    'SELECT 1 as found FROM shared_connections WHERE connection_id = ? AND is_protected = ? LIMIT 1',
+    [connectionId, getDbType() === 'postgres' ? true : 1]
+  );
+  return row !== null;
+}
+
 // Get all teams a connection is shared with (for the connection owner)
 export interface ConnectionShareInfo {
   teamId: string;
@@ -14,11 +14,18 @@ export interface EmailConfig {
   };
 }
 
+export interface EmailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType: string;
+}
+
 export interface SendEmailOptions {
   to: string;
   subject: string;
   text: string;
   html: string;
+  attachments?: EmailAttachment[];
 }
 
 function getEmailConfig(): EmailConfig | null {
@@ -77,6 +84,7 @@ export async function sendEmail(options: SendEmailOptions): Promise<boolean> {
       subject: options.subject,
       text: options.text,
       html: options.html,
+      attachments: options.attachments,
     });
     return true;
   } catch (error) {
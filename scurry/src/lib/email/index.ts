@@ -1,2 +1,2 @@
-export { sendEmail, isEmailConfigured } from './email-service';
-export { getPasswordResetEmailTemplate } from './templates';
+export { sendEmail, isEmailConfigured, type EmailAttachment } from './email-service';
+export { getPasswordResetEmailTemplate, getScheduledQueryEmailTemplate } from './templates';
@@ -88,3 +88,100 @@ The ScurryDB Team
 
   return { subject, text, html };
 }
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export function getScheduledQueryEmailTemplate(options: {
+  scheduleName: string;
+  queryName: string;
+  runAt: Date;
+  rowCount: number;
+  /** Set when the result is inlined instead of attached */
+  table?: {
+    columns: string[];
+    rows: string[][];
+    truncated: boolean;
+  };
+  attachmentName?: string;
+}): { subject: string; text: string; html: string } {
+  const { scheduleName, queryName, runAt, rowCount, table, attachmentName } = options;
+  const subject = `${scheduleName}: ${rowCount} ${rowCount === 1 ? 'row' : 'rows'}`;
+  const summary = `The scheduled query "${queryName}" ran at ${runAt.toUTCString()} and returned ${rowCount} ${rowCount === 1 ? 'row' : 'rows'}.`;
+
+  const textTable = table
+    ? [table.columns.join('\t'), ...table.rows.map((row) => row.join('\t'))].join('\n') +
+      (table.truncated ? `\n\nOnly the first ${table.rows.length} rows are shown.` : '')
+    : '';
+
+  const text = `
+${summary}
+
+${attachmentName ? `The result is attached as ${attachmentName}.` : textTable}
+
+You are receiving this because you are a recipient of the "${scheduleName}" schedule in ScurryDB.
+`.trim();
+
+  const cellStyle = 'padding: 6px 10px; border: 1px solid #e4e4e7; font-size: 13px; text-align: left; white-space: nowrap;';
+  const htmlTable = table
+    ? `
+              <div style="overflow-x: auto;">
+                <table role="presentation" style="border-collapse: collapse; width: 100%;">
+                  <tr>${table.columns.map((column) => `<th style="${cellStyle} background-color: #fafafa; color: #18181b;">${escapeHtml(column)}</th>`).join('')}</tr>
+                  ${table.rows.map((row) => `<tr>${row.map((cell) => `<td style="${cellStyle} color: #52525b;">${escapeHtml(cell)}</td>`).join('')}</tr>`).join('\n                  ')}
+                </table>
+              </div>
+              ${table.truncated ? `<p style="margin: 15px 0 0 0; font-size: 13px; color: #71717a;">Only the first ${table.rows.length} rows are shown.</p>` : ''}`
+    : `
+              <p style="margin: 0; font-size: 16px; color: #52525b; line-height: 1.5;">
+                The result is attached as <strong>${escapeHtml(attachmentName ?? 'a file')}</strong>.
+              </p>`;
+
+  const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(subject)}</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f5f5f5;">
+  <table role="presentation" style="width: 100%; border-collapse: collapse;">
+    <tr>
+      <td style="padding: 40px 20px;">
+        <table role="presentation" style="max-width: 800px; margin: 0 auto; background-color: #ffffff; border-radius: 8px; overflow: hidden; box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1);">
+          <tr>
+            <td style="padding: 30px 40px; text-align: center; background-color: #18181b;">
+              <h1 style="margin: 0; font-size: 24px; color: #ffffff; font-weight: 600;">ScurryDB</h1>
+            </td>
+          </tr>
+          <tr>
+            <td style="padding: 40px;">
+              <h2 style="margin: 0 0 20px 0; font-size: 20px; color: #18181b;">${escapeHtml(scheduleName)}</h2>
+              <p style="margin: 0 0 20px 0; font-size: 16px; color: #52525b; line-height: 1.5;">
+                ${escapeHtml(summary)}
+              </p>${htmlTable}
+            </td>
+          </tr>
+          <tr>
+            <td style="padding: 20px 40px; background-color: #fafafa; text-align: center;">
+              <p style="margin: 0; font-size: 12px; color: #a1a1aa;">
+                You are receiving this because you are a recipient of this schedule.
+              </p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+`.trim();
+
+  return { subject, text, html };
+}
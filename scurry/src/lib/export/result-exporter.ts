@@ -0,0 +1,311 @@
+/**
+ * Result Exporter
+ *
+ * Serializes query results into download formats. Writers are incremental:
+ * the export route feeds them pages of rows and streams the returned bytes,
+ * so the full result never has to be held in memory.
+ */
+
+import { buildParameterizedInsert, inlineSqlParams } from '@/lib/db/sql-utils';
+import { ZipStreamWriter } from './zip-writer';
+import type { ColumnInfo, DatabaseType } from '@/types';
+
+export const exportFormats = ['csv', 'json', 'ndjson', 'xlsx', 'markdown', 'sql'] as const;
+export type ExportFormat = (typeof exportFormats)[number];
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  json: 'JSON',
+  ndjson: 'NDJSON',
+  xlsx: 'Excel (XLSX)',
+  markdown: 'Markdown table',
+  sql: 'SQL INSERT statements',
+};
+
+export interface ExportWriter {
+  contentType: string;
+  extension: string;
+  start(columns: ColumnInfo[]): Uint8Array[];
+  writeRows(rows: Record<string, unknown>[]): Uint8Array[];
+  finish(): Uint8Array[];
+}
+
+export interface ExportWriterOptions {
+  /** Required for the sql format */
+  dbType?: DatabaseType;
+  /** Target table name for the sql format */
+  tableName?: string;
+}
+
+const encoder = new TextEncoder();
+
+function encode(text: string): Uint8Array[] {
+  return text ? [encoder.encode(text)] : [];
+}
+
+/**
+ * Normalize driver values (Dates, Buffers, bigint) into JSON-safe values
+ */
+function toPlainValue(value: unknown): unknown {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'bigint') return value.toString();
+  if (value instanceof Uint8Array) return Buffer.from(value).toString('base64');
+  return value;
+}
+
+function toText(value: unknown): string {
+  const plain = toPlainValue(value);
+  if (plain === null) return '';
+  if (typeof plain === 'object') return JSON.stringify(plain);
+  return String(plain);
+}
+
+// CSV (RFC 4180)
+
+function csvField(value: unknown): string {
+  const text = toText(value);
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+function createCsvWriter(): ExportWriter {
+  let columns: ColumnInfo[] = [];
+  return {
+    contentType: 'text/csv; charset=utf-8',
+    extension: 'csv',
+    start(cols) {
+      columns = cols;
+      return encode(columns.map(c => csvField(c.name)).join(',') + '\r\n');
+    },
+    writeRows(rows) {
+      return encode(rows.map(row => columns.map(c => csvField(row[c.name])).join(',') + '\r\n').join(''));
+    },
+    finish() {
+      return [];
+    },
+  };
+}
+
+// JSON / NDJSON
+
+function projectRow(row: Record<string, unknown>, columns: ColumnInfo[]): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const col of columns) {
+    result[col.name] = toPlainValue(row[col.name]);
+  }
+  return result;
+}
+
+function createJsonWriter(): ExportWriter {
+  let columns: ColumnInfo[] = [];
+  let first = true;
+  return {
+    contentType: 'application/json; charset=utf-8',
+    extension: 'json',
+    start(cols) {
+      columns = cols;
+      return encode('[');
+    },
+    writeRows(rows) {
+      const parts = rows.map(row => {
+        const text = (first ? '\n  ' : ',\n  ') + JSON.stringify(projectRow(row, columns));
+        first = false;
+        return text;
+      });
+      return encode(parts.join(''));
+    },
+    finish() {
+      return encode(first ? ']\n' : '\n]\n');
+    },
+  };
+}
+
+function createNdjsonWriter(): ExportWriter {
+  let columns: ColumnInfo[] = [];
+  return {
+    contentType: 'application/x-ndjson; charset=utf-8',
+    extension: 'ndjson',
+    start(cols) {
+      columns = cols;
+      return [];
+    },
+    writeRows(rows) {
+      return encode(rows.map(row => JSON.stringify(projectRow(row, columns)) + '\n').join(''));
+    },
+    finish() {
+      return [];
+    },
+  };
+}
+
+// Markdown
+
+function markdownCell(value: unknown): string {
+  return toText(value).replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+}
+
+function createMarkdownWriter(): ExportWriter {
+  let columns: ColumnInfo[] = [];
+  return {
+    contentType: 'text/markdown; charset=utf-8',
+    extension: 'md',
+    start(cols) {
+      columns = cols;
+      const header = `| ${columns.map(c => markdownCell(c.name)).join(' | ')} |`;
+      const divider = `| ${columns.map(() => '---').join(' | ')} |`;
+      return encode(`${header}\n${divider}\n`);
+    },
+    writeRows(rows) {
+      return encode(rows.map(row => `| ${columns.map(c => markdownCell(row[c.name])).join(' | ')} |\n`).join(''));
+    },
+    finish() {
+      return [];
+    },
+  };
+}
+
+// SQL INSERT statements
+
+function createSqlWriter(options: ExportWriterOptions): ExportWriter {
+  const dbType = options.dbType;
+  const tableName = options.tableName;
+  if (!dbType || !tableName) {
+    throw new Error('SQL export requires a database type and table name');
+  }
+
+  let columns: ColumnInfo[] = [];
+  return {
+    contentType: 'application/sql; charset=utf-8',
+    extension: 'sql',
+    start(cols) {
+      columns = cols;
+      return [];
+    },
+    writeRows(rows) {
+      const statements = rows.map(row => {
+        const values: Record<string, unknown> = {};
+        for (const col of columns) {
+          values[col.name] = row[col.name];
+        }
+        const { sql, params } = buildParameterizedInsert(tableName, values, dbType);
+        return `${inlineSqlParams(sql, params, dbType)};\n`;
+      });
+      return encode(statements.join(''));
+    },
+    finish() {
+      return [];
+    },
+  };
+}
+
+// XLSX (SpreadsheetML with inline strings)
+
+function xmlEscape(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Strip control characters that are invalid in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
+
+function xlsxCell(value: unknown): string {
+  const plain = toPlainValue(value);
+  if (plain === null) return '<c/>';
+  if (typeof plain === 'number' && Number.isFinite(plain)) {
+    return `<c><v>${plain}</v></c>`;
+  }
+  if (typeof plain === 'boolean') {
+    return `<c t="b"><v>${plain ? 1 : 0}</v></c>`;
+  }
+  const text = typeof plain === 'object' ? JSON.stringify(plain) : String(plain);
+  return `<c t="inlineStr"><is><t xml:space="preserve">${xmlEscape(text)}</t></is></c>`;
+}
+
+function xlsxRow(cells: unknown[]): string {
+  return `<row>${cells.map(xlsxCell).join('')}</row>`;
+}
+
+const XLSX_STATIC_PARTS: Array<[string, string]> = [
+  [
+    '[Content_Types].xml',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+    '</Types>',
+  ],
+  [
+    '_rels/.rels',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+    '</Relationships>',
+  ],
+  [
+    'xl/workbook.xml',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+    '<sheets><sheet name="Results" sheetId="1" r:id="rId1"/></sheets>' +
+    '</workbook>',
+  ],
+  [
+    'xl/_rels/workbook.xml.rels',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+    '</Relationships>',
+  ],
+];
+
+function createXlsxWriter(): ExportWriter {
+  const zip = new ZipStreamWriter();
+  let columns: ColumnInfo[] = [];
+  return {
+    contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    extension: 'xlsx',
+    start(cols) {
+      columns = cols;
+      const chunks = XLSX_STATIC_PARTS.flatMap(([name, content]) => zip.addEntry(name, content));
+      chunks.push(zip.startEntry('xl/worksheets/sheet1.xml'));
+      chunks.push(zip.write(
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>' +
+        xlsxRow(columns.map(c => c.name))
+      ));
+      return chunks;
+    },
+    writeRows(rows) {
+      if (rows.length === 0) return [];
+      return [zip.write(rows.map(row => xlsxRow(columns.map(c => row[c.name]))).join(''))];
+    },
+    finish() {
+      return [zip.write('</sheetData></worksheet>'), zip.endEntry(), zip.finish()];
+    },
+  };
+}
+
+export function createExportWriter(format: ExportFormat, options: ExportWriterOptions = {}): ExportWriter {
+  switch (format) {
+    case 'csv':
+      return createCsvWriter();
+    case 'json':
+      return createJsonWriter();
+    case 'ndjson':
+      return createNdjsonWriter();
+    case 'markdown':
+      return createMarkdownWriter();
+    case 'sql':
+      return createSqlWriter(options);
+    case 'xlsx':
+      return createXlsxWriter();
+    default:
+      throw new Error(`Unsupported export format: ${format}`);
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Streaming ZIP Writer
+ *
+ * Minimal ZIP archive writer used to build XLSX workbooks without buffering
+ * the whole file. Entries are stored uncompressed and use data descriptors,
+ * so an entry's CRC and size are only needed once its content has been written.
+ * ZIP64 is not supported; archives must stay below 4 GB.
+ */
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function updateCrc(crc: number, data: Uint8Array): number {
+  let c = crc ^ 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+  }
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+interface CentralEntry {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+}
+
+// Fixed DOS timestamp (1980-01-01 00:00) keeps output deterministic
+const DOS_TIME = 0;
+const DOS_DATE = (0 << 9) | (1 << 5) | 1;
+
+// General purpose flags: bit 3 = sizes in data descriptor, bit 11 = UTF-8 names
+const ENTRY_FLAGS = 0x0808;
+
+export class ZipStreamWriter {
+  private encoder = new TextEncoder();
+  private entries: CentralEntry[] = [];
+  private offset = 0;
+  private current: CentralEntry | null = null;
+
+  /**
+   * Begin a new entry; returns the local file header bytes
+   */
+  startEntry(name: string): Uint8Array {
+    if (this.current) {
+      throw new Error('Previous ZIP entry was not finished');
+    }
+
+    const nameBytes = this.encoder.encode(name);
+    const header = new Uint8Array(30 + nameBytes.length);
+    const view = new DataView(header.buffer);
+
+    view.setUint32(0, 0x04034b50, true);
+    view.setUint16(4, 20, true);
+    view.setUint16(6, ENTRY_FLAGS, true);
+    view.setUint16(8, 0, true); // stored
+    view.setUint16(10, DOS_TIME, true);
+    view.setUint16(12, DOS_DATE, true);
+    // CRC and sizes follow in the data descriptor
+    view.setUint16(26, nameBytes.length, true);
+    header.set(nameBytes, 30);
+
+    this.current = { name: nameBytes, crc: 0, size: 0, offset: this.offset };
+    this.offset += header.length;
+    return header;
+  }
+
+  /**
+   * Append content to the current entry; returns the bytes to emit
+   */
+  write(data: string | Uint8Array): Uint8Array {
+    if (!this.current) {
+      throw new Error('No ZIP entry in progress');
+    }
+
+    const bytes = typeof data === 'string' ? this.encoder.encode(data) : data;
+    this.current.crc = updateCrc(this.current.crc, bytes);
+    this.current.size += bytes.length;
+    this.offset += bytes.length;
+    return bytes;
+  }
+
+  /**
+   * Finish the current entry; returns the data descriptor bytes
+   */
+  endEntry(): Uint8Array {
+    if (!this.current) {
+      throw new Error('No ZIP entry in progress');
+    }
+
+    const descriptor = new Uint8Array(16);
+    const view = new DataView(descriptor.buffer);
+    view.setUint32(0, 0x08074b50, true);
+    view.setUint32(4, this.current.crc, true);
+    view.setUint32(8, this.current.size, true);
+    view.setUint32(12, this.current.size, true);
+
+    this.entries.push(this.current);
+    this.current = null;
+    this.offset += descriptor.length;
+    return descriptor;
+  }
+
+  /**
+   * Write a complete entry in one call
+   */
+  addEntry(name: string, content: string): Uint8Array[] {
+    return [this.startEntry(name), this.write(content), this.endEntry()];
+  }
+
+  /**
+   * Finish the archive; returns the central directory bytes
+   */
+  finish(): Uint8Array {
+    if (this.current) {
+      throw new Error('Last ZIP entry was not finished');
+    }
+
+    const centralSize = this.entries.reduce((sum, e) => sum + 46 + e.name.length, 0);
+    const output = new Uint8Array(centralSize + 22);
+    const view = new DataView(output.buffer);
+    let pos = 0;
+
+    for (const entry of this.entries) {
+      view.setUint32(pos, 0x02014b50, true);
+      view.setUint16(pos + 4, 20, true);
+      view.setUint16(pos + 6, 20, true);
+      view.setUint16(pos + 8, ENTRY_FLAGS, true);
+      view.setUint16(pos + 10, 0, true);
+      view.setUint16(pos + 12, DOS_TIME, true);
+      view.setUint16(pos + 14, DOS_DATE, true);
+      view.setUint32(pos + 16, entry.crc, true);
+      view.setUint32(pos + 20, entry.size, true);
+      view.setUint32(pos + 24, entry.size, true);
+      view.setUint16(pos + 28, entry.name.length, true);
+      view.setUint32(pos + 42, entry.offset, true);
+      output.set(entry.name, pos + 46);
+      pos += 46 + entry.name.length;
+    }
+
+    view.setUint32(pos, 0x06054b50, true);
+    view.setUint16(pos + 8, this.entries.length, true);
+    view.setUint16(pos + 10, this.entries.length, true);
+    view.setUint32(pos + 12, centralSize, true);
+    view.setUint32(pos + 16, this.offset, true);
+
+    return output;
+  }
+}
@@ -30,6 +30,7 @@ export interface ParsedStatement {
   sql: string;
   startLine: number;
   endLine: number;
+  endOffset: number; // Offset just past the statement's delimiter (or end of input)
 }
 
 /**
@@ -48,14 +49,11 @@ export function parseSQLStatements(
   let stringChar = '';
   let inComment = false;
   let inMultilineComment = false;
+  let lineOffset = 0;
   
   for (let lineNum = 0; lineNum < lines.length; lineNum++) {
     const line = lines[lineNum];
     
-    if (currentStatement === '') {
-      startLine = lineNum;
-    }
-    
     for (let i = 0; i < line.length; i++) {
       const char = line[i];
       const nextChar = line[i + 1];
@@ -63,6 +61,7 @@ export function parseSQLStatements(
       // Handle string literals
       if (!inComment && !inMultilineComment) {
         if (!inString && (char === "'" || char === '"')) {
+          if (!currentStatement.trim()) startLine = lineNum;
           inString = true;
           stringChar = char;
           currentStatement += char;
@@ -116,6 +115,7 @@ export function parseSQLStatements(
               sql: trimmedStatement,
               startLine,
               endLine: lineNum,
+              endOffset: lineOffset + i + delimiter.length,
             });
           }
           currentStatement = '';
@@ -124,11 +124,14 @@ export function parseSQLStatements(
         }
       }
       
+      // A statement starts at its first real character, not after leading blank lines
+      if (!currentStatement.trim() && char.trim()) startLine = lineNum;
       currentStatement += char;
     }
     
     // End of line - reset single-line comment
     inComment = false;
+    lineOffset += line.length + 1;
     
     // Add newline if we're in the middle of a statement
     if (currentStatement) {
@@ -143,6 +146,7 @@ export function parseSQLStatements(
       sql: trimmedFinal,
       startLine,
       endLine: lines.length - 1,
+      endOffset: sql.length,
     });
   }
   
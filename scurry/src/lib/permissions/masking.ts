@@ -0,0 +1,161 @@
+import { createHmac, hkdfSync } from 'crypto';
+import { analyzeSql } from '@/lib/sql/sql-access';
+import { SqlSyntaxError } from '@/lib/sql/sql-tokenizer';
+import type { ColumnMaskingPolicy, EffectivePermission } from '../db/permissions';
+import type { ColumnInfo, DatabaseType, QueryResult } from '@/types';
+
+const MASK = '****';
+let hashKey: Buffer | null = null;
+
+// When one result column name is masked differently on two tables, the stricter policy wins
+const POLICY_STRENGTH: Record<ColumnMaskingPolicy, number> = {
+  partial: 0,
+  email_domain: 1,
+  hash: 2,
+  full: 3,
+  null: 4,
+};
+
+/**
+ * Result column name (lower-cased) -> masking policy
+ */
+export type ColumnMasks = Map<string, ColumnMaskingPolicy>;
+
+function valueText(value: unknown): string {
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof Uint8Array) return Buffer.from(value).toString('hex');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Key for hashed values, derived from ENCRYPTION_KEY so it is never the key
+ * that encrypts stored credentials. Without ENCRYPTION_KEY nothing is hashed.
+ */
+function getHashKey(): Buffer {
+  if (!hashKey) {
+    const secret = process.env.ENCRYPTION_KEY;
+    if (!secret) {
+      throw new Error('ENCRYPTION_KEY environment variable is required to hash masked columns');
+    }
+    hashKey = Buffer.from(hkdfSync('sha256', secret, '', 'column-mask', 32));
+  }
+  return hashKey;
+}
+
+/**
+ * Rewrite a single value according to a masking policy. NULLs stay NULL.
+ * Hashes are keyed so the same input always gives the same output (values
+ * can still be grouped and compared) without being reversible by lookup.
+ */
+export function maskValue(value: unknown, policy: ColumnMaskingPolicy): unknown {
+  if (value === null || value === undefined) return null;
+
+  switch (policy) {
+    case 'null':
+      return null;
+    case 'full':
+      return MASK;
+    case 'partial': {
+      const text = valueText(value);
+      return text.length <= 4 ? MASK : `${MASK}${text.slice(-4)}`;
+    }
+    case 'hash':
+      return createHmac('sha256', getHashKey()).update(valueText(value)).digest('hex').slice(0, 16);
+    case 'email_domain': {
+      const text = valueText(value);
+      const at = text.lastIndexOf('@');
+      return at > 0 && at < text.length - 1 ? `${MASK}@${text.slice(at + 1)}` : MASK;
+    }
+  }
+}
+
+function addMask(masks: ColumnMasks, column: string, policy: ColumnMaskingPolicy) {
+  const existing = masks.get(column);
+  if (!existing || POLICY_STRENGTH[policy] > POLICY_STRENGTH[existing]) {
+    masks.set(column, policy);
+  }
+}
+
+/**
+ * Masks of a single table, as used when browsing or searching it
+ */
+export function getTableColumnMasks(tableName: string, permission: EffectivePermission | null): ColumnMasks {
+  const masks: ColumnMasks = new Map();
+  permission?.maskedColumns.get(tableName.toLowerCase())?.forEach((policy, column) => addMask(masks, column, policy));
+  return masks;
+}
+
+/**
+ * Masks for the result of a query. Result columns can't be traced back to a
+ * source table, so a column is masked when its name is masked on any table
+ * the query references. SQL that doesn't parse gets every mask.
+ */
+export function getResultColumnMasks(
+  sql: string,
+  permission: EffectivePermission | null,
+  dialect: DatabaseType
+): ColumnMasks {
+  const masks: ColumnMasks = new Map();
+  if (!permission || permission.maskedColumns.size === 0) return masks;
+
+  let tables: string[];
+  try {
+    tables = analyzeSql(sql, dialect).flatMap((statement) => statement.tables.map(({ table }) => table.name));
+  } catch (error) {
+    if (!(error instanceof SqlSyntaxError)) throw error;
+    tables = Array.from(permission.maskedColumns.keys());
+  }
+
+  for (const table of tables) {
+    permission.maskedColumns.get(table.toLowerCase())?.forEach((policy, column) => addMask(masks, column, policy));
+  }
+  return masks;
+}
+
+/**
+ * Mask a page of rows in place of the originals
+ */
+export function maskRows(
+  rows: Record<string, unknown>[],
+  columns: ColumnInfo[],
+  masks: ColumnMasks
+): Record<string, unknown>[] {
+  const masked = columns
+    .map((column) => ({ name: column.name, policy: masks.get(column.name.toLowerCase()) }))
+    .filter((column): column is { name: string; policy: ColumnMaskingPolicy } => column.policy !== undefined);
+  if (masked.length === 0) return rows;
+
+  return rows.map((row) => {
+    const copy = { ...row };
+    for (const { name, policy } of masked) {
+      copy[name] = maskValue(row[name], policy);
+    }
+    return copy;
+  });
+}
+
+/**
+ * Masked column metadata: masked values are text (or NULL) whatever the
+ * column's original type
+ */
+export function maskColumns(columns: ColumnInfo[], masks: ColumnMasks): ColumnInfo[] {
+  if (masks.size === 0) return columns;
+  return columns.map((column) => {
+    const policy = masks.get(column.name.toLowerCase());
+    if (!policy) return column;
+    return policy === 'null' ? { ...column, nullable: true } : { ...column, type: 'text' };
+  });
+}
+
+/**
+ * Apply masks to a query result before it is returned to the client
+ */
+export function applyColumnMasking<T extends QueryResult>(result: T, masks: ColumnMasks): T {
+  if (masks.size === 0 || !result.columns) return result;
+  return {
+    ...result,
+    rows: maskRows(result.rows, result.columns, masks),
+    columns: maskColumns(result.columns, masks),
+  };
+}
@@ -0,0 +1,219 @@
+/**
+ * Row Filters
+ *
+ * A row filter is an SQL condition a permission profile sets on a table, such
+ * as region = 'EU' or owner_email = {{user.email}}. Queries are rewritten so
+ * each filtered table they read is replaced by a subquery returning only the
+ * rows that meet the condition, and UPDATE and DELETE statements get the
+ * condition added to their WHERE clause, so rows outside the filter can
+ * neither be seen nor changed. A filtered table is only updated or deleted
+ * from on its own, so the condition's columns can't resolve to a joined table.
+ * A read that a subquery can't stand in for, such as one with an index hint
+ * or of the table's row id, is refused.
+ *
+ * {{user.<name>}} stands for a string literal holding the user's id, email,
+ * name or one of the attributes set on their team membership.
+ */
+
+import type { EffectivePermission } from '../db/permissions';
+import type { DatabaseType } from '@/types';
+import { toSqlLiteral } from '@/lib/db/sql-utils';
+import { analyzeStatement, sqlReadings, type StatementAccess } from '@/lib/sql/sql-access';
+import { parseSql, type DeleteStatement, type FromItem, type TableName, type UpdateStatement } from '@/lib/sql/sql-parser';
+import { SqlSyntaxError, tokenizeSql, type TokenizeOptions } from '@/lib/sql/sql-tokenizer';
+
+export class RowFilterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RowFilterError';
+  }
+}
+
+const VARIABLE_PATTERN = /\{\{\s*user\.([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+// Columns every row has without being declared, which SELECT * leaves out
+const ROW_ID_COLUMNS: Record<DatabaseType, Set<string>> = {
+  postgresql: new Set(['ctid', 'xmin', 'xmax', 'cmin', 'cmax', 'tableoid', 'oid']),
+  mysql: new Set(['_rowid']),
+  mariadb: new Set(['_rowid']),
+  sqlite: new Set(['rowid', 'oid', '_rowid_']),
+};
+
+/**
+ * Attribute names a row filter uses, in the order they first appear
+ */
+export function rowFilterVariables(condition: string): string[] {
+  return [...new Set(Array.from(condition.matchAll(VARIABLE_PATTERN), (match) => match[1]))];
+}
+
+function displayName(table: TableName): string {
+  return table.schema ? `${table.schema}.${table.name}` : table.name;
+}
+
+/**
+ * Filters set on the table. A filter set on schema.table also applies where
+ * the table is named without its schema.
+ */
+function findConditions(table: TableName, rowFilters: Map<string, string>): string[] {
+  const name = table.name.toLowerCase();
+  const qualified = table.schema ? `${table.schema}.${table.name}`.toLowerCase() : null;
+
+  return Array.from(rowFilters.entries())
+    .filter(([key]) => key === name || key === qualified || (qualified === null && key.endsWith(`.${name}`)))
+    .map(([, condition]) => condition);
+}
+
+/**
+ * The table's filter conditions combined, with variables replaced by
+ * literals, or null when the table isn't filtered
+ */
+function buildCondition(table: TableName, permission: EffectivePermission, dialect: DatabaseType): string | null {
+  const conditions = findConditions(table, permission.rowFilters);
+  if (conditions.length === 0) return null;
+
+  return conditions.map((condition) => {
+    const expanded = condition.replace(VARIABLE_PATTERN, (_, name: string) => {
+      const value = permission.userAttributes[name];
+      if (value === undefined) {
+        throw new RowFilterError(`The row filter on ${displayName(table)} uses {{user.${name}}}, which is not set for your account`);
+      }
+      return toSqlLiteral(value, dialect);
+    });
+
+    // The condition is spliced into queries, so it must be a single expression
+    try {
+      if (parseSql(`SELECT 1 FROM t WHERE (${expanded})`, dialect).length !== 1) throw new SqlSyntaxError('Expected one condition', 0);
+    } catch (error) {
+      if (!(error instanceof SqlSyntaxError)) throw error;
+      throw new RowFilterError(`The row filter on ${displayName(table)} is not a valid condition: ${error.message}`);
+    }
+    return `(${expanded})`;
+  }).join(' AND ');
+}
+
+/**
+ * Row filter condition for a table queried by name, as by the table browser,
+ * or null when the table isn't filtered
+ */
+export function getTableRowFilter(
+  tableName: string,
+  permission: EffectivePermission | null,
+  dialect: DatabaseType
+): string | null {
+  if (!permission || permission.rowFilters.size === 0) return null;
+  return buildCondition({ schema: null, name: tableName }, permission, dialect);
+}
+
+interface Edit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/** The last part of a table name as written, which names the table's rows when there is no alias */
+function sourceName(name: string, dialect: DatabaseType, options: TokenizeOptions): string {
+  const tokens = tokenizeSql(name, dialect, options);
+  const last = tokens[tokens.length - 1];
+  return name.slice(last.start, last.end);
+}
+
+/** Tables, subqueries and functions a FROM list reads rows from */
+function countSources(items: FromItem[]): number {
+  return items.reduce((count, item) => count + (item.type === 'join' ? countSources([item.left, item.right]) : 1), 0);
+}
+
+function rewriteReading(
+  sql: string,
+  accesses: StatementAccess[],
+  permission: EffectivePermission,
+  dialect: DatabaseType,
+  options: TokenizeOptions
+): string {
+  const references = accesses.flatMap((access) => access.references);
+  const columns = accesses.flatMap((access) => access.columns);
+  const edits: Edit[] = [];
+  const targetConditions = new Map<UpdateStatement | DeleteStatement, string[]>();
+
+  for (const reference of references) {
+    const condition = buildCondition(reference.table, permission, dialect);
+    if (!condition) continue;
+    const table = displayName(reference.table);
+
+    if (reference.target?.type === 'insert') {
+      // Upserts and REPLACE change existing rows the filter may exclude
+      if (reference.target.replace || (reference.target.conflict?.set.length ?? 0) > 0) {
+        throw new RowFilterError(`${table} has a row filter, so existing rows can only be changed with UPDATE`);
+      }
+      continue;
+    }
+    if (reference.target) {
+      // The condition goes in unqualified, so its columns must not be able to resolve to another table
+      const statement = reference.target;
+      if (countSources(statement.type === 'update' ? [...statement.targets, ...statement.from] : statement.from) > 1) {
+        throw new RowFilterError(`${table} has a row filter, so it can only be updated or deleted from without joining other tables`);
+      }
+      targetConditions.set(reference.target, [...(targetConditions.get(reference.target) ?? []), condition]);
+      continue;
+    }
+    if (!reference.span) {
+      throw new RowFilterError(`${table} has a row filter, so it can only be used in SELECT, INSERT, UPDATE and DELETE statements`);
+    }
+    // Modifiers and row ids don't carry over to the subquery that replaces the table
+    if (reference.modifiers.length > 0) {
+      throw new RowFilterError(`${table} has a row filter, so it can't be read with ${reference.modifiers[0]}`);
+    }
+    const rowId = columns.find(({ table: { name }, column }) => column !== null
+      && name.toLowerCase() === reference.table.name.toLowerCase()
+      && ROW_ID_COLUMNS[dialect].has(column.toLowerCase()));
+    if (rowId) {
+      throw new RowFilterError(`${table} has a row filter, so its ${rowId.column} column can't be read`);
+    }
+
+    const name = sql.slice(reference.span.start, reference.span.end);
+    const subquery = `(SELECT * FROM ${name} WHERE ${condition})`;
+    if (reference.query) {
+      edits.push({ start: reference.query.start, end: reference.query.end, text: subquery });
+    } else {
+      const alias = reference.aliased ? '' : ` ${sourceName(name, dialect, options)}`;
+      edits.push({ start: reference.span.start, end: reference.span.end, text: `${subquery}${alias}` });
+    }
+  }
+
+  for (const [statement, conditions] of targetConditions) {
+    const { start, end } = statement.whereSpan;
+    const condition = conditions.join(' AND ');
+    if (statement.where) {
+      edits.push({ start, end: start, text: '(' });
+      edits.push({ start: end, end, text: `) AND ${condition}` });
+    } else {
+      edits.push({ start, end: start, text: ` WHERE ${condition}` });
+    }
+  }
+
+  // Apply from the end so earlier offsets stay valid; a replacement goes
+  // before an insertion at the same offset
+  edits.sort((a, b) => b.start - a.start || b.end - a.end);
+  return edits.reduce((text, edit) => text.slice(0, edit.start) + edit.text + text.slice(edit.end), sql);
+}
+
+/**
+ * Rewrite SQL so it only reaches rows meeting the permission's row filters.
+ * SQL the server may read in more than one way must parse and rewrite the
+ * same under every reading. Throws RowFilterError when the filters can't be
+ * applied, and SqlSyntaxError when any reading doesn't parse.
+ */
+export function applyRowFilters(sql: string, permission: EffectivePermission, dialect: DatabaseType): string {
+  if (permission.rowFilters.size === 0) return sql;
+
+  const rewrites = new Set<string>();
+
+  for (const options of sqlReadings(sql, dialect)) {
+    const accesses = parseSql(sql, dialect, options).map((statement) => analyzeStatement(statement, dialect));
+    rewrites.add(rewriteReading(sql, accesses, permission, dialect, options));
+  }
+
+  if (rewrites.size > 1) {
+    throw new RowFilterError('Row filters cannot be applied to this query because the server may read it in more than one way');
+  }
+  return [...rewrites][0] ?? sql;
+}
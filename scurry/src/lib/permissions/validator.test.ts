@@ -0,0 +1,248 @@
+import { describe, expect, it } from 'vitest';
+import type { EffectivePermission } from '../db/permissions';
+import type { DatabaseType } from '@/types';
+import { permissionOperations } from '@/lib/validations/team';
+import { validateQuery } from './validator';
+
+// orders and users are visible, users.password is hidden, secrets is off limits
+function restricted(overrides: Partial<EffectivePermission> = {}): EffectivePermission {
+  return {
+    connectionId: 'connection',
+    canView: true,
+    canEdit: true,
+    allowedTables: new Set(['orders', 'users']),
+    hiddenColumns: new Map([['users', new Set(['password'])]]),
+    maskedColumns: new Map(),
+    rowFilters: new Map(),
+    operations: new Set(permissionOperations),
+    tableOperations: new Map(),
+    userAttributes: {},
+    ...overrides,
+  };
+}
+
+const dialects: DatabaseType[] = ['postgresql', 'mysql', 'mariadb', 'sqlite'];
+
+function quote(dialect: DatabaseType, name: string): string {
+  return dialect === 'mysql' || dialect === 'mariadb' ? `\`${name}\`` : `"${name}"`;
+}
+
+function schemaName(dialect: DatabaseType): string {
+  if (dialect === 'postgresql') return 'public';
+  return dialect === 'sqlite' ? 'main' : 'app';
+}
+
+describe.each(dialects)('validateQuery bypass attempts (%s)', (dialect) => {
+  const q = (name: string) => quote(dialect, name);
+  const schema = schemaName(dialect);
+  const mysql = dialect === 'mysql' || dialect === 'mariadb';
+
+  const denied: [string, string][] = [
+    ['plain table', 'SELECT * FROM secrets'],
+    ['quoted table', `SELECT * FROM ${q('secrets')}`],
+    ['quoted table in mixed case', `SELECT * FROM ${q('Secrets')}`],
+    ['schema-qualified table', `SELECT * FROM ${schema}.secrets`],
+    ['quoted schema-qualified table', `SELECT * FROM ${q(schema)}.${q('secrets')}`],
+    ['table behind a comment', 'SELECT * FROM /* orders */ secrets'],
+    ['second statement', 'SELECT * FROM orders; SELECT * FROM secrets'],
+    ['CTE', 'WITH s AS (SELECT * FROM secrets) SELECT * FROM s'],
+    ['CTE named after an allowed table', 'WITH orders AS (SELECT * FROM secrets) SELECT * FROM orders'],
+    ['nested CTE', 'WITH a AS (WITH b AS (SELECT * FROM secrets) SELECT * FROM b) SELECT * FROM a'],
+    ['subquery in WHERE', 'SELECT * FROM orders WHERE id IN (SELECT order_id FROM secrets)'],
+    ['EXISTS subquery', 'SELECT * FROM orders o WHERE EXISTS (SELECT 1 FROM secrets s WHERE s.id = o.id)'],
+    ['scalar subquery', 'SELECT id, (SELECT token FROM secrets LIMIT 1) FROM orders'],
+    ['derived table', 'SELECT * FROM (SELECT * FROM secrets) AS orders'],
+    ['comma join', 'SELECT o.id FROM orders o, secrets s'],
+    ['comma join with quoted alias', `SELECT o.id FROM orders o, ${q('secrets')} ${q('users')}`],
+    ['JOIN', 'SELECT o.id FROM orders o JOIN secrets s ON s.id = o.id'],
+    ['UNION', 'SELECT id FROM orders UNION SELECT id FROM secrets'],
+    ['INSERT … SELECT', 'INSERT INTO orders (id) SELECT id FROM secrets'],
+    ['DELETE', 'DELETE FROM secrets'],
+    ['WITH … DELETE', 'WITH s AS (SELECT id FROM secrets) DELETE FROM orders WHERE id IN (SELECT id FROM s)'],
+    ['WITH … DELETE from a hidden table', 'WITH o AS (SELECT id FROM orders) DELETE FROM secrets WHERE id IN (SELECT id FROM o)'],
+    [
+      'UPDATE … FROM',
+      mysql
+        ? 'UPDATE orders o JOIN secrets s ON s.id = o.id SET o.note = s.token'
+        : 'UPDATE orders SET note = s.token FROM secrets s WHERE s.id = orders.id',
+    ],
+    ['hidden column', 'SELECT password FROM users'],
+    ['quoted hidden column', `SELECT ${q('password')} FROM users`],
+    ['qualified hidden column', `SELECT u.${q('password')} FROM users u`],
+    ['schema-qualified hidden column', `SELECT ${schema}.users.password FROM ${schema}.users`],
+    ['SELECT * on a table with hidden columns', 'SELECT * FROM users'],
+    ['whole row of a table with hidden columns', 'SELECT u.* FROM orders o JOIN users u ON u.id = o.user_id'],
+    ['hidden column in a CTE', 'WITH u AS (SELECT password AS p FROM users) SELECT p FROM u'],
+    ['hidden column in a subquery', 'SELECT id FROM orders WHERE note IN (SELECT password FROM users)'],
+    ['hidden column in WHERE', "SELECT id FROM users WHERE password LIKE 'a%'"],
+  ];
+
+  it.each(denied)('denies %s', (_, sql) => {
+    expect(validateQuery(sql, restricted(), dialect).allowed).toBe(false);
+  });
+
+  const allowed: [string, string][] = [
+    ['allowed tables', 'SELECT o.id, u.name FROM orders o JOIN users u ON u.id = o.user_id'],
+    ['quoted allowed table', `SELECT ${q('id')} FROM ${q('orders')}`],
+    ['schema-qualified allowed table', `SELECT id FROM ${schema}.orders`],
+    ['CTE over allowed tables', 'WITH o AS (SELECT id FROM orders) SELECT * FROM o'],
+    ['subquery over allowed tables', 'SELECT id FROM orders WHERE user_id IN (SELECT id FROM users)'],
+    ['string mentioning a hidden table', "SELECT 'secrets', id FROM orders"],
+  ];
+
+  it.each(allowed)('allows %s', (_, sql) => {
+    expect(validateQuery(sql, restricted(), dialect).allowed).toBe(true);
+  });
+
+  describe('with an insert-only table grant', () => {
+    const permission = restricted({ tableOperations: new Map([['orders', new Set(['select', 'insert'] as const)]]) });
+
+    const upserts = [
+      dialect === 'postgresql' || dialect === 'sqlite'
+        ? 'INSERT INTO orders (id, note) VALUES (1, \'x\') ON CONFLICT (id) DO UPDATE SET note = excluded.note'
+        : 'INSERT INTO orders (id, note) VALUES (1, \'x\') ON DUPLICATE KEY UPDATE note = VALUES(note)',
+      ...(dialect === 'postgresql' ? [] : ['REPLACE INTO orders (id, note) VALUES (1, \'x\')']),
+      ...(dialect === 'sqlite' ? ['INSERT OR REPLACE INTO orders (id, note) VALUES (1, \'x\')'] : []),
+    ];
+
+    it.each(upserts)('denies %s', (sql) => {
+      expect(validateQuery(sql, permission, dialect)).toMatchObject({ allowed: false, violationType: 'write' });
+    });
+
+    it('allows a plain INSERT', () => {
+      expect(validateQuery('INSERT INTO orders (id, note) VALUES (1, \'x\')', permission, dialect).allowed).toBe(true);
+    });
+
+    it('denies UPDATE and DELETE', () => {
+      expect(validateQuery('UPDATE orders SET note = \'x\'', permission, dialect).allowed).toBe(false);
+      expect(validateQuery('DELETE FROM orders', permission, dialect).allowed).toBe(false);
+    });
+  });
+});
+
+describe('validateQuery dialect-specific bypass attempts', () => {
+  it.each([
+    // The backslash reading is MySQL's default and reads secrets; the other one doesn't parse as a read of it
+    ['mysql', "SELECT 'a\\' , 1 -- ' , (SELECT * FROM secrets LIMIT 1) FROM JSON_TABLE('[1]', '$[*]' COLUMNS (a INT PATH '$')) j"],
+    ['mysql', "SELECT 'a\\' , (SELECT token FROM secrets LIMIT 1) , '' FROM orders"],
+    ['mysql', 'SELECT id FROM orders /*!50000 , secrets */'],
+    ['mysql', 'SELECT id FROM orders /*! UNION SELECT token FROM secrets */'],
+    ['mariadb', 'SELECT id FROM orders /*M! UNION SELECT token FROM secrets */'],
+    ['mysql', 'SELECT id FROM orders # comment\n UNION SELECT token FROM secrets'],
+    ['mysql', 'SELECT "password" FROM users'],
+    ['postgresql', 'SELECT U&"pass\\0077ord" FROM users'],
+    ['postgresql', 'SELECT * FROM U&"secr\\0065ts"'],
+    ['postgresql', "SELECT * FROM U&\"secr!0065ts\" UESCAPE '!'"],
+    ['postgresql', 'SELECT $$ ; $$, token FROM secrets'],
+    ['postgresql', 'SELECT id FROM orders /* nested /* comment */ UNION SELECT token FROM secrets */ UNION SELECT token FROM secrets'],
+    ['postgresql', 'WITH d AS (DELETE FROM secrets RETURNING *) SELECT * FROM d'],
+    ['sqlite', 'SELECT * FROM [secrets]'],
+    ['sqlite', 'SELECT [password] FROM users'],
+  ] as [DatabaseType, string][])('denies %s: %s', (dialect, sql) => {
+    expect(validateQuery(sql, restricted(), dialect).allowed).toBe(false);
+  });
+});
+
+describe.each(dialects)('validateQuery masked columns (%s)', (dialect) => {
+  // users.email may be selected, and comes back masked, but not compared
+  const permission = restricted({
+    hiddenColumns: new Map(),
+    maskedColumns: new Map([['users', new Map([['email', 'partial' as const]])]]),
+  });
+
+  it.each([
+    ['INTERSECT', "SELECT email FROM users INTERSECT SELECT 'a@b.c'"],
+    ['EXCEPT', "SELECT email FROM users EXCEPT SELECT 'a@b.c'"],
+    ['INTERSECT in a derived table', "SELECT * FROM (SELECT email FROM users INTERSECT SELECT 'a@b.c') t"],
+    ['NATURAL JOIN', 'SELECT u.id FROM users u NATURAL JOIN orders o'],
+    ['ORDER BY ordinal of a set operation', "SELECT email FROM users UNION ALL SELECT 'a@b.c' ORDER BY 1"],
+    ['ORDER BY output name of a set operation', "SELECT email FROM users UNION ALL SELECT 'a@b.c' ORDER BY email"],
+    ['ORDER BY ordinal', 'SELECT id, email FROM users ORDER BY 2 LIMIT 1'],
+    ['ORDER BY ordinal past SELECT *', 'SELECT * FROM users ORDER BY 2 LIMIT 1'],
+    ['GROUP BY ordinal', 'SELECT email FROM users GROUP BY 1 HAVING COUNT(*) > 1'],
+    ['ORDER BY the column', 'SELECT email FROM users ORDER BY email'],
+    ['WHERE on the column', "SELECT email FROM users WHERE email LIKE 'a%'"],
+  ])('denies %s', (_, sql) => {
+    expect(validateQuery(sql, permission, dialect)).toMatchObject({ allowed: false, violationType: 'column' });
+  });
+
+  it.each([
+    ['selecting the column', 'SELECT id, email FROM users'],
+    ['ORDER BY another column', 'SELECT id, email FROM users ORDER BY 1'],
+    ['UNION ALL', "SELECT email FROM users UNION ALL SELECT 'a@b.c'"],
+  ])('allows %s', (_, sql) => {
+    expect(validateQuery(sql, permission, dialect).allowed).toBe(true);
+  });
+});
+
+describe('validateQuery row filters', () => {
+  const permission = restricted({ rowFilters: new Map([['orders', "region = 'EU'"]]) });
+
+  it('wraps a filtered table read in a subquery', () => {
+    expect(validateQuery('SELECT id FROM orders o', permission, 'postgresql')).toMatchObject({
+      allowed: true,
+      sql: "SELECT id FROM (SELECT * FROM orders WHERE (region = 'EU')) o",
+    });
+  });
+
+  it('adds the filter to the WHERE clause of UPDATE and DELETE', () => {
+    expect(validateQuery('UPDATE orders SET note = 1 WHERE id = 2', permission, 'postgresql')).toMatchObject({
+      allowed: true,
+      sql: "UPDATE orders SET note = 1 WHERE (id = 2) AND (region = 'EU')",
+    });
+    expect(validateQuery('DELETE FROM orders', permission, 'sqlite')).toMatchObject({
+      allowed: true,
+      sql: "DELETE FROM orders WHERE (region = 'EU')",
+    });
+  });
+
+  it.each([
+    ['postgresql', 'UPDATE orders o SET note = 1 FROM users u WHERE u.id = o.user_id'],
+    ['sqlite', 'UPDATE orders SET note = 1 FROM users u WHERE u.id = orders.user_id'],
+    ['postgresql', 'DELETE FROM orders o USING users u WHERE u.id = o.user_id'],
+    ['mysql', 'UPDATE orders o JOIN users u ON u.id = o.user_id SET o.note = 1'],
+    ['mysql', 'UPDATE orders, users SET orders.note = 1 WHERE users.id = orders.user_id'],
+    ['mysql', 'DELETE o FROM orders o JOIN users u ON u.id = o.user_id'],
+    ['mariadb', 'DELETE FROM orders USING orders JOIN users ON users.id = orders.user_id'],
+  ] as [DatabaseType, string][])('denies joined UPDATE and DELETE of a filtered table (%s): %s', (dialect, sql) => {
+    expect(validateQuery(sql, permission, dialect)).toMatchObject({ allowed: false, violationType: 'row' });
+  });
+
+  it.each([
+    ['postgresql', 'SELECT id FROM ONLY orders'],
+    ['postgresql', 'SELECT id FROM ONLY (orders) o'],
+    ['postgresql', 'SELECT id FROM orders *'],
+    ['postgresql', 'SELECT id FROM orders TABLESAMPLE SYSTEM (10)'],
+    ['postgresql', 'SELECT ctid, id FROM orders'],
+    ['postgresql', 'SELECT o.xmin FROM orders o'],
+    ['mysql', 'SELECT id FROM orders PARTITION (p0)'],
+    ['mysql', 'SELECT id FROM orders o USE INDEX (idx_region)'],
+    ['mariadb', 'SELECT id FROM orders FORCE INDEX (PRIMARY) WHERE id > 1'],
+    ['mysql', 'SELECT _rowid FROM orders'],
+    ['sqlite', 'SELECT id FROM orders INDEXED BY idx_region'],
+    ['sqlite', 'SELECT id FROM orders NOT INDEXED'],
+    ['sqlite', 'SELECT rowid, id FROM orders'],
+    ['sqlite', 'SELECT o.id FROM users u JOIN orders o ON o.rowid = u.id'],
+  ] as [DatabaseType, string][])('denies reads the subquery cannot stand in for (%s): %s', (dialect, sql) => {
+    expect(validateQuery(sql, permission, dialect)).toMatchObject({ allowed: false, violationType: 'row' });
+  });
+
+  it('allows modifiers and row ids on unfiltered tables', () => {
+    expect(validateQuery('SELECT rowid FROM users INDEXED BY idx_name', permission, 'sqlite'))
+      .toMatchObject({ allowed: true });
+    expect(validateQuery('SELECT ctid FROM ONLY users', permission, 'postgresql'))
+      .toMatchObject({ allowed: true });
+  });
+
+  it('allows the row id in UPDATE and DELETE of a filtered table', () => {
+    expect(validateQuery('DELETE FROM orders WHERE rowid = 5', permission, 'sqlite')).toMatchObject({
+      allowed: true,
+      sql: "DELETE FROM orders WHERE (rowid = 5) AND (region = 'EU')",
+    });
+  });
+
+  it('allows joined UPDATE of an unfiltered table', () => {
+    expect(validateQuery('UPDATE users u SET name = o.note FROM orders o WHERE o.user_id = u.id', permission, 'postgresql'))
+      .toMatchObject({ allowed: true });
+  });
+});
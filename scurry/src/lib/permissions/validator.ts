@@ -1,130 +1,139 @@
 import type { EffectivePermission } from '../db/permissions';
+import type { DatabaseType } from '@/types';
+import { analyzeSql, type StatementAccess } from '@/lib/sql/sql-access';
+import type { TableName } from '@/lib/sql/sql-parser';
+import { SqlSyntaxError } from '@/lib/sql/sql-tokenizer';
+import { permissionOperations, type PermissionOperation } from '@/lib/validations/team';
+import { applyRowFilters, RowFilterError } from './row-filters';
 
 export interface ValidationResult {
   allowed: boolean;
   reason?: string;
-  violationType?: 'table' | 'column' | 'write';
+  violationType?: 'table' | 'column' | 'write' | 'row';
+  /** SQL to run in place of the query, rewritten to apply row filters */
+  sql?: string;
 }
 
+function hasRestrictions(permission: EffectivePermission): boolean {
+  return permission.allowedTables !== null
+    || Array.from(permission.hiddenColumns.values()).some((columns) => columns.size > 0)
+    || permission.maskedColumns.size > 0
+    || permission.rowFilters.size > 0
+    || permission.operations.size < permissionOperations.length
+    || permission.tableOperations.size > 0;
+}
+
+const OPERATION_NAMES: Record<PermissionOperation, string> = {
+  select: 'SELECT',
+  insert: 'INSERT',
+  update: 'UPDATE',
+  delete: 'DELETE',
+  truncate: 'TRUNCATE',
+  ddl: 'DDL',
+};
+
 /**
- * Extract table names from SQL query using regex patterns
- * This is a simplified parser - for production, consider using a proper SQL parser
+ * Operations granted on a table: its own grant, else the connection's
  */
-function extractTableNames(sql: string): string[] {
-  const tables = new Set<string>();
-  const normalizedSql = sql.toLowerCase().replace(/\s+/g, ' ');
-  
-  // Match FROM clause
-  const fromMatches = normalizedSql.matchAll(/from\s+([a-z_][a-z0-9_]*)/gi);
-  for (const match of fromMatches) {
-    if (match[1]) tables.add(match[1].toLowerCase());
-  }
-  
-  // Match JOIN clauses
-  const joinMatches = normalizedSql.matchAll(/join\s+([a-z_][a-z0-9_]*)/gi);
-  for (const match of joinMatches) {
-    if (match[1]) tables.add(match[1].toLowerCase());
-  }
-  
-  // Match INSERT INTO
-  const insertMatches = normalizedSql.matchAll(/insert\s+into\s+([a-z_][a-z0-9_]*)/gi);
-  for (const match of insertMatches) {
-    if (match[1]) tables.add(match[1].toLowerCase());
-  }
-  
-  // Match UPDATE
-  const updateMatches = normalizedSql.matchAll(/update\s+([a-z_][a-z0-9_]*)/gi);
-  for (const match of updateMatches) {
-    if (match[1]) tables.add(match[1].toLowerCase());
-  }
-  
-  // Match DELETE FROM
-  const deleteMatches = normalizedSql.matchAll(/delete\s+from\s+([a-z_][a-z0-9_]*)/gi);
-  for (const match of deleteMatches) {
-    if (match[1]) tables.add(match[1].toLowerCase());
-  }
-  
-  return Array.from(tables);
+function tableGrants(table: TableName, permission: EffectivePermission): Set<PermissionOperation> {
+  return (table.schema !== null ? permission.tableOperations.get(`${table.schema}.${table.name}`.toLowerCase()) : undefined)
+    ?? permission.tableOperations.get(table.name.toLowerCase())
+    ?? permission.operations;
+}
+
+function operationDenied(operation: PermissionOperation, table: TableName | null): ValidationResult {
+  return {
+    allowed: false,
+    reason: table
+      ? `You do not have ${OPERATION_NAMES[operation]} permission on table: ${table.name}`
+      : `You do not have ${OPERATION_NAMES[operation]} permission for this connection`,
+    violationType: operation === 'select' ? 'table' : 'write',
+  };
+}
+
+function isTableAllowed(table: TableName, allowedTables: Set<string>): boolean {
+  return allowedTables.has(table.name.toLowerCase())
+    || (table.schema !== null && allowedTables.has(`${table.schema}.${table.name}`.toLowerCase()));
 }
 
 /**
- * Extract column names from SELECT statement
- * This is a simplified parser - for production, consider using a proper SQL parser
+ * Check one statement's tables and columns against the permission
  */
-function extractColumnNames(sql: string, tableName: string): string[] {
-  const columns = new Set<string>();
-  const normalizedSql = sql.toLowerCase().replace(/\s+/g, ' ');
-  
-  // Check for SELECT *
-  if (normalizedSql.includes('select *')) {
-    return ['*']; // Special marker for all columns
+function validateStatement(access: StatementAccess, permission: EffectivePermission): ValidationResult | null {
+  for (const { table, operation } of access.tables) {
+    if (!tableGrants(table, permission).has(operation)) return operationDenied(operation, table);
   }
-  
-  // Extract columns from SELECT clause
-  const selectMatch = normalizedSql.match(/select\s+(.*?)\s+from/i);
-  if (selectMatch && selectMatch[1]) {
-    const columnsPart = selectMatch[1];
-    
-    // Split by comma and extract column names
-    const parts = columnsPart.split(',');
-    for (const part of parts) {
-      const trimmed = part.trim();
-      
-      // Handle table.column or just column
-      const columnMatch = trimmed.match(/(?:([a-z_][a-z0-9_]*)\.)?\s*([a-z_][a-z0-9_]*)/i);
-      if (columnMatch) {
-        const table = columnMatch[1];
-        const column = columnMatch[2];
-        
-        // If table is specified and matches, or no table specified
-        if (!table || table.toLowerCase() === tableName.toLowerCase()) {
-          columns.add(column.toLowerCase());
-        }
+  for (const operation of access.operations) {
+    if (!permission.operations.has(operation)) return operationDenied(operation, null);
+  }
+
+  if (access.opaque && hasRestrictions(permission)) {
+    return {
+      allowed: false,
+      reason: 'This statement cannot be checked against the table, column and row restrictions on this connection',
+      violationType: 'table',
+    };
+  }
+
+  // Check table restrictions
+  if (permission.allowedTables !== null) {
+    for (const { table } of access.tables) {
+      if (!isTableAllowed(table, permission.allowedTables)) {
+        return {
+          allowed: false,
+          reason: `You do not have access to table: ${table.name}`,
+          violationType: 'table',
+        };
       }
     }
   }
-  
-  // Extract columns from WHERE clause
-  const whereMatch = normalizedSql.match(/where\s+(.*?)(?:\s+(?:group|order|limit|$))/i);
-  if (whereMatch && whereMatch[1]) {
-    const wherePart = whereMatch[1];
-    const columnMatches = wherePart.matchAll(/(?:([a-z_][a-z0-9_]*)\.)?\s*([a-z_][a-z0-9_]*)\s*[=<>!]/gi);
-    
-    for (const match of columnMatches) {
-      const table = match[1];
-      const column = match[2];
-      
-      if (!table || table.toLowerCase() === tableName.toLowerCase()) {
-        columns.add(column.toLowerCase());
+
+  // Check column restrictions
+  for (const { table, column, usage } of access.columns) {
+    const hiddenColumns = permission.hiddenColumns.get(table.name.toLowerCase());
+    if (hiddenColumns && hiddenColumns.size > 0) {
+      // SELECT * and whole-row references would include hidden columns
+      if (column === null) {
+        return {
+          allowed: false,
+          reason: `Cannot use SELECT * on table ${table.name} because some columns are restricted. Please specify columns explicitly.`,
+          violationType: 'column',
+        };
+      }
+      if (hiddenColumns.has(column.toLowerCase())) {
+        return {
+          allowed: false,
+          reason: `You do not have access to column: ${table.name}.${column}`,
+          violationType: 'column',
+        };
       }
     }
-  }
-  
-  return Array.from(columns);
-}
 
-/**
- * Check if SQL query is a write operation (INSERT, UPDATE, DELETE, DROP, ALTER, etc.)
- */
-function isWriteQuery(sql: string): boolean {
-  const normalizedSql = sql.trim().toLowerCase();
-  const writeKeywords = ['insert', 'update', 'delete', 'drop', 'alter', 'create', 'truncate', 'replace'];
-  
-  for (const keyword of writeKeywords) {
-    if (normalizedSql.startsWith(keyword)) {
-      return true;
+    // Masked columns may be selected (and are masked in the result by name) but not used otherwise
+    const maskedColumns = permission.maskedColumns.get(table.name.toLowerCase());
+    if (maskedColumns && usage === 'expression' && (column === null || maskedColumns.has(column.toLowerCase()))) {
+      return {
+        allowed: false,
+        reason: `Column ${column ?? `${table.name}.*`} is masked: it can only be selected as-is, not aliased, computed on or filtered by`,
+        violationType: 'column',
+      };
     }
   }
-  
-  return false;
+
+  return null;
 }
 
 /**
- * Validate SQL query against effective permissions
+ * Validate SQL query against effective permissions. The query is parsed in
+ * the connection's dialect, so tables are found however they are quoted,
+ * qualified, aliased or nested, and every statement of a multi-statement
+ * query is checked. An allowed query comes back with the SQL to run, which
+ * has the permission's row filters applied.
  */
 export function validateQuery(
   sql: string,
-  permission: EffectivePermission | null
+  permission: EffectivePermission | null,
+  dialect: DatabaseType
 ): ValidationResult {
   // If no permission, deny access
   if (!permission) {
@@ -141,65 +150,42 @@ export function validateQuery(
       reason: 'You do not have view permission for this connection',
     };
   }
-  
-  // Check write permission for write queries
-  const isWrite = isWriteQuery(sql);
-  if (isWrite && !permission.canEdit) {
+
+  // Nothing to check without restrictions
+  if (!hasRestrictions(permission)) {
+    return { allowed: true, sql };
+  }
+
+  let statements: StatementAccess[];
+  try {
+    statements = analyzeSql(sql, dialect);
+  } catch (error) {
+    if (!(error instanceof SqlSyntaxError)) throw error;
+    // Restrictions can't be enforced on SQL that can't be parsed
     return {
       allowed: false,
-      reason: 'You do not have edit permission for this connection',
-      violationType: 'write',
+      reason: `Query could not be checked against your permissions: ${error.message}`,
     };
   }
-  
-  // Extract tables from query
-  const tables = extractTableNames(sql);
-  
-  // Check table restrictions
-  if (permission.allowedTables !== null) {
-    for (const table of tables) {
-      if (!permission.allowedTables.has(table.toLowerCase())) {
-        return {
-          allowed: false,
-          reason: `You do not have access to table: ${table}`,
-          violationType: 'table',
-        };
-      }
-    }
+
+  for (const statement of statements) {
+    const violation = validateStatement(statement, permission);
+    if (violation) return violation;
   }
-  
-  // Check column restrictions
-  for (const table of tables) {
-    const hiddenColumns = permission.hiddenColumns.get(table.toLowerCase());
-    if (hiddenColumns && hiddenColumns.size > 0) {
-      const columns = extractColumnNames(sql, table);
-      
-      // If SELECT *, check if there are any hidden columns
-      if (columns.includes('*')) {
-        return {
-          allowed: false,
-          reason: `Cannot use SELECT * on table ${table} because some columns are restricted. Please specify columns explicitly.`,
-          violationType: 'column',
-        };
-      }
-      
-      // Check if any requested column is hidden
-      for (const column of columns) {
-        if (hiddenColumns.has(column.toLowerCase())) {
-          return {
-            allowed: false,
-            reason: `You do not have access to column: ${table}.${column}`,
-            violationType: 'column',
-          };
-        }
-      }
-    }
+
+  try {
+    return {
+      allowed: true,
+      sql: applyRowFilters(sql, permission, dialect),
+    };
+  } catch (error) {
+    if (!(error instanceof RowFilterError)) throw error;
+    return {
+      allowed: false,
+      reason: error.message,
+      violationType: 'row',
+    };
   }
-  
-  // All checks passed
-  return {
-    allowed: true,
-  };
 }
 
 /**
@@ -222,6 +208,22 @@ export function filterAllowedTables(
   );
 }
 
+/**
+ * Operations granted on a table, for changes made without SQL (grid edits,
+ * imports and sync)
+ */
+export function getTableOperations(
+  tableName: string,
+  permission: EffectivePermission | null
+): PermissionOperation[] {
+  if (!permission || !permission.canView) {
+    return [];
+  }
+  
+  const grants = tableGrants({ schema: null, name: tableName }, permission);
+  return permissionOperations.filter(operation => grants.has(operation));
+}
+
 /**
  * Filter column list based on permissions
  */
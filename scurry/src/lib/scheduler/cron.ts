@@ -0,0 +1,222 @@
+/**
+ * Cron Expressions
+ *
+ * Parses standard five-field cron expressions (minute, hour, day of month,
+ * month, day of week) and computes the next matching time. Fields support
+ * `*`, numbers, ranges (`1-5`), steps (`0-30/10`) and lists. Times
+ * are evaluated in UTC so schedules behave the same on every server, unless
+ * an IANA time zone is given for schedules that follow local wall-clock time.
+ */
+
+interface CronField {
+  values: Set<number>;
+  /** True when the field starts with `*` (matters for day-of-month/day-of-week) */
+  wildcard: boolean;
+}
+
+export interface CronSchedule {
+  minute: CronField;
+  hour: CronField;
+  dayOfMonth: CronField;
+  month: CronField;
+  dayOfWeek: CronField;
+}
+
+const FIELD_BOUNDS: Array<{ name: string; min: number; max: number }> = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  // 7 is accepted as Sunday and folded onto 0
+  { name: 'day of week', min: 0, max: 7 },
+];
+
+// Never search further ahead than this for a match (covers Feb 29 schedules)
+const MAX_SEARCH_YEARS = 5;
+
+function parseNumber(text: string, bounds: { name: string; min: number; max: number }): number {
+  if (!/^\d+$/.test(text)) {
+    throw new Error(`Invalid ${bounds.name} value: ${text}`);
+  }
+  const value = Number(text);
+  if (value < bounds.min || value > bounds.max) {
+    throw new Error(`Value for ${bounds.name} must be between ${bounds.min} and ${bounds.max}`);
+  }
+  return value;
+}
+
+function parseField(text: string, bounds: { name: string; min: number; max: number }): CronField {
+  const values = new Set<number>();
+
+  for (const part of text.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step in ${bounds.name}: ${part}`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = bounds.min;
+      end = bounds.max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseNumber(from, bounds);
+      end = parseNumber(to, bounds);
+      if (start > end) {
+        throw new Error(`Invalid range in ${bounds.name}: ${range}`);
+      }
+    } else {
+      start = parseNumber(range, bounds);
+      end = stepText === undefined ? start : bounds.max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return { values, wildcard: text.startsWith('*') };
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error('Cron expression must have five fields: minute hour day-of-month month day-of-week');
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = parts.map((part, i) => parseField(part, FIELD_BOUNDS[i]));
+  if (dayOfWeek.values.has(7)) {
+    dayOfWeek.values.delete(7);
+    dayOfWeek.values.add(0);
+  }
+
+  return { minute, hour, dayOfMonth, month, dayOfWeek };
+}
+
+/**
+ * Returns an error message for an invalid expression, or null when it parses
+ */
+export function validateCron(expression: string): string | null {
+  try {
+    parseCron(expression);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid cron expression';
+  }
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const domMatch = schedule.dayOfMonth.values.has(date.getUTCDate());
+  const dowMatch = schedule.dayOfWeek.values.has(date.getUTCDay());
+
+  // Classic cron: when both day fields are restricted, either may match
+  if (!schedule.dayOfMonth.wildcard && !schedule.dayOfWeek.wildcard) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+}
+
+/**
+ * Returns true for IANA time zone names this runtime understands
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Offset of the zone's wall-clock time from UTC at the given instant, in ms
+ */
+function timeZoneOffset(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+
+  const wallClock = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * First UTC time strictly after `after` that matches the schedule
+ */
+function getNextUtcRun(cron: CronSchedule, after: Date): Date | null {
+  const date = new Date(after.getTime());
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+  const limit = after.getTime() + MAX_SEARCH_YEARS * 366 * 24 * 60 * 60 * 1000;
+
+  // Skip whole months, days and hours at a time so the search stays short
+  while (date.getTime() <= limit) {
+    if (!cron.month.values.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(cron, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!cron.hour.values.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!cron.minute.values.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+    return date;
+  }
+
+  return null;
+}
+
+/**
+ * First time strictly after `after` that matches the schedule, or null when
+ * nothing matches within the search window (e.g. `0 0 31 2 *`). With a time
+ * zone the fields match that zone's wall-clock time; a wall-clock time
+ * skipped by a DST change runs an hour later.
+ */
+export function getNextCronRun(
+  schedule: CronSchedule | string,
+  after: Date = new Date(),
+  timeZone: string = 'UTC'
+): Date | null {
+  const cron = typeof schedule === 'string' ? parseCron(schedule) : schedule;
+  if (timeZone === 'UTC') {
+    return getNextUtcRun(cron, after);
+  }
+
+  // Search in wall-clock time (as if it were UTC), then map back to an instant
+  let wallClock = new Date(after.getTime() + timeZoneOffset(after, timeZone));
+  for (;;) {
+    const next = getNextUtcRun(cron, wallClock);
+    if (!next) return null;
+
+    const first = next.getTime() - timeZoneOffset(next, timeZone);
+    const offset = timeZoneOffset(new Date(first), timeZone);
+    const second = next.getTime() - offset;
+    // If neither offset round-trips, the wall-clock time fell in a DST gap
+    const instant = timeZoneOffset(new Date(second), timeZone) === offset ? second : Math.max(first, second);
+
+    // A wall-clock time repeated when clocks go back resolves to its first
+    // occurrence; skip it if that has already passed
+    if (instant > after.getTime()) return new Date(instant);
+    wallClock = next;
+  }
+}
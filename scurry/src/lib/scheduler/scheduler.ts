@@ -0,0 +1,75 @@
+/**
+ * In-process Scheduler
+ *
+ * Runs registered background jobs on a fixed tick. Each job decides for
+ * itself what is due (e.g. templates whose next cron run has passed), so the
+ * scheduler only has to keep ticking and keep a slow job from overlapping
+ * with its next tick.
+ */
+
+export type ScheduledJob = (now: Date) => Promise<void>;
+
+const DEFAULT_TICK_MS = 60 * 1000;
+
+export class Scheduler {
+  private jobs: Map<string, ScheduledJob> = new Map();
+  private running: Set<string> = new Set();
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  /**
+   * Register a job under a unique name, replacing any job with that name
+   */
+  register(name: string, job: ScheduledJob): void {
+    this.jobs.set(name, job);
+  }
+
+  start(tickMs: number = DEFAULT_TICK_MS): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      void this.tick();
+    }, tickMs);
+    // Don't keep the process alive just for the scheduler
+    this.timer.unref?.();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Run every job that isn't still busy from a previous tick
+   */
+  async tick(now: Date = new Date()): Promise<void> {
+    await Promise.all(
+      Array.from(this.jobs.entries()).map(async ([name, job]) => {
+        if (this.running.has(name)) return;
+
+        this.running.add(name);
+        try {
+          await job(now);
+        } catch (error) {
+          console.error(`Scheduled job "${name}" failed:`, error);
+        } finally {
+          this.running.delete(name);
+        }
+      })
+    );
+  }
+}
+
+// Singleton instance for global use
+let schedulerInstance: Scheduler | null = null;
+
+/**
+ * Get the global scheduler instance
+ */
+export function getScheduler(): Scheduler {
+  if (!schedulerInstance) {
+    schedulerInstance = new Scheduler();
+  }
+  return schedulerInstance;
+}
@@ -0,0 +1,133 @@
+/**
+ * Scheduled Query Delivery
+ *
+ * Sends a schedule's result to its recipients: by email, as a CSV/XLSX
+ * attachment or an inline HTML table, and as JSON to a webhook URL. Each
+ * channel reports its own outcome so a run can log partial failures.
+ */
+
+import { createExportWriter } from '@/lib/export/result-exporter';
+import { sendEmail, isEmailConfigured, getScheduledQueryEmailTemplate } from '@/lib/email';
+import { postWebhook } from '@/lib/security/webhook-target';
+import type { QueryResult, QuerySchedule, ScheduleDelivery, ScheduleRunTrigger } from '@/types';
+
+// Inline tables beyond this are cut short; attachments carry the full result
+const HTML_ROW_LIMIT = 100;
+const WEBHOOK_ROW_LIMIT = 1000;
+const WEBHOOK_TIMEOUT_MS = 15 * 1000;
+
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function jsonValue(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'bigint') return value.toString();
+  if (value instanceof Uint8Array) return Buffer.from(value).toString('base64');
+  return value ?? null;
+}
+
+function fileName(schedule: QuerySchedule, runAt: Date, extension: string): string {
+  const slug = schedule.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'schedule';
+  return `${slug}-${runAt.toISOString().slice(0, 10)}.${extension}`;
+}
+
+function renderAttachment(result: QueryResult, format: 'csv' | 'xlsx') {
+  const writer = createExportWriter(format);
+  const chunks = [...writer.start(result.columns), ...writer.writeRows(result.rows), ...writer.finish()];
+  return {
+    content: Buffer.concat(chunks.map((chunk) => Buffer.from(chunk))),
+    contentType: writer.contentType,
+    extension: writer.extension,
+  };
+}
+
+export async function deliverByEmail(
+  schedule: QuerySchedule,
+  queryName: string,
+  result: QueryResult,
+  runAt: Date
+): Promise<ScheduleDelivery> {
+  if (!isEmailConfigured()) {
+    return { channel: 'email', success: false, error: 'SMTP is not configured on this server' };
+  }
+
+  const columns = result.columns.map((column) => column.name);
+  let template: ReturnType<typeof getScheduledQueryEmailTemplate>;
+  let attachments;
+
+  if (schedule.emailFormat === 'html') {
+    template = getScheduledQueryEmailTemplate({
+      scheduleName: schedule.name,
+      queryName,
+      runAt,
+      rowCount: result.rowCount,
+      table: {
+        columns,
+        rows: result.rows.slice(0, HTML_ROW_LIMIT).map((row) => columns.map((column) => cellText(row[column]))),
+        truncated: result.rows.length > HTML_ROW_LIMIT,
+      },
+    });
+  } else {
+    const file = renderAttachment(result, schedule.emailFormat);
+    const filename = fileName(schedule, runAt, file.extension);
+    template = getScheduledQueryEmailTemplate({
+      scheduleName: schedule.name,
+      queryName,
+      runAt,
+      rowCount: result.rowCount,
+      attachmentName: filename,
+    });
+    attachments = [{ filename, content: file.content, contentType: file.contentType }];
+  }
+
+  const sent = await sendEmail({ to: schedule.emailRecipients.join(', '), ...template, attachments });
+  return sent ? { channel: 'email', success: true } : { channel: 'email', success: false, error: 'The email could not be sent' };
+}
+
+export async function deliverByWebhook(
+  schedule: QuerySchedule,
+  queryName: string,
+  result: QueryResult,
+  runAt: Date,
+  details: { trigger: ScheduleRunTrigger; conditionMet: boolean }
+): Promise<ScheduleDelivery> {
+  if (!schedule.webhookUrl) {
+    return { channel: 'webhook', success: false, error: 'No webhook URL' };
+  }
+
+  const columns = result.columns.map((column) => column.name);
+  const payload = {
+    schedule: { id: schedule.id, name: schedule.name },
+    query: { id: schedule.queryId, name: queryName },
+    runAt: runAt.toISOString(),
+    trigger: details.trigger,
+    conditionMet: details.conditionMet,
+    rowCount: result.rowCount,
+    columns,
+    rows: result.rows
+      .slice(0, WEBHOOK_ROW_LIMIT)
+      .map((row) => Object.fromEntries(columns.map((column) => [column, jsonValue(row[column])]))),
+    truncated: result.rows.length > WEBHOOK_ROW_LIMIT,
+  };
+
+  const signal = AbortSignal.timeout(WEBHOOK_TIMEOUT_MS);
+  try {
+    const status = await postWebhook(schedule.webhookUrl, JSON.stringify(payload), {
+      headers: { 'Content-Type': 'application/json', 'User-Agent': 'ScurryDB-Scheduler' },
+      signal,
+    });
+    if (status < 200 || status >= 300) {
+      return { channel: 'webhook', success: false, error: `Webhook responded with ${status}` };
+    }
+    return { channel: 'webhook', success: true };
+  } catch (error) {
+    const message = signal.aborted
+      ? 'Webhook timed out'
+      : error instanceof Error ? error.message : 'Webhook request failed';
+    return { channel: 'webhook', success: false, error: message };
+  }
+}
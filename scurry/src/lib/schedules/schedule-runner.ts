@@ -0,0 +1,167 @@
+/**
+ * Scheduled Query Runner
+ *
+ * Runs a schedule's saved query, checks its alert condition, delivers the
+ * result and records the outcome in the schedule's run log. Used by the
+ * "send now" action and by the scheduler for due schedules.
+ */
+
+import { getSavedQueryById } from '@/lib/db/queries';
+import { runSavedQuery } from '@/lib/db/saved-query-runner';
+import {
+  getDueQuerySchedules,
+  claimScheduledQueryRun,
+  recordQueryScheduleRun,
+} from '@/lib/db/query-schedules';
+import { deliverByEmail, deliverByWebhook } from './schedule-delivery';
+import type {
+  QueryResult,
+  QuerySchedule,
+  QueryScheduleRun,
+  ScheduleComparison,
+  ScheduleCondition,
+  ScheduleDelivery,
+  ScheduleRunTrigger,
+} from '@/types';
+
+function compare(left: number, operator: ScheduleComparison, right: number): boolean {
+  switch (operator) {
+    case 'gt':
+      return left > right;
+    case 'gte':
+      return left >= right;
+    case 'lt':
+      return left < right;
+    case 'lte':
+      return left <= right;
+    case 'eq':
+      return left === right;
+    case 'ne':
+      return left !== right;
+  }
+}
+
+/**
+ * Whether a result meets the condition. Threshold conditions read the
+ * column from the first row; a missing or non-numeric value never matches.
+ */
+export function evaluateScheduleCondition(condition: ScheduleCondition, result: QueryResult): boolean {
+  switch (condition.type) {
+    case 'always':
+      return true;
+    case 'row_count':
+      return compare(result.rowCount, condition.operator, condition.value);
+    case 'threshold': {
+      const raw = result.rows[0]?.[condition.column];
+      if (raw === null || raw === undefined || raw === '') return false;
+      const value = Number(raw);
+      return Number.isFinite(value) && compare(value, condition.operator, condition.value);
+    }
+  }
+}
+
+/**
+ * Run a schedule and deliver its result. Scheduled runs only deliver when the
+ * condition holds (for thresholds, when the value has just crossed); manual
+ * runs always deliver so recipients and webhooks can be tested.
+ * Failures are recorded as failed runs rather than thrown.
+ */
+export async function runQuerySchedule(
+  schedule: QuerySchedule,
+  options: { trigger: ScheduleRunTrigger }
+): Promise<QueryScheduleRun> {
+  const startedAt = new Date();
+  const record = (data: {
+    status: 'delivered' | 'skipped' | 'failed';
+    rowCount?: number | null;
+    conditionMet?: boolean;
+    deliveries?: ScheduleDelivery[];
+    error?: string | null;
+  }) =>
+    recordQueryScheduleRun({
+      scheduleId: schedule.id,
+      trigger: options.trigger,
+      status: data.status,
+      rowCount: data.rowCount ?? null,
+      conditionMet: data.conditionMet ?? false,
+      deliveries: data.deliveries ?? [],
+      error: data.error ?? null,
+      startedAt,
+    });
+
+  let result: QueryResult;
+  let queryName: string;
+  try {
+    const query = await getSavedQueryById(schedule.queryId);
+    if (!query) {
+      return record({ status: 'failed', error: 'The saved query no longer exists' });
+    }
+    queryName = query.name;
+
+    // Runs as the schedule's creator, with their access and team permissions,
+    // so the SQL must be theirs too, and it must only read
+    if (query.userId !== schedule.userId) {
+      return record({ status: 'failed', error: 'Only the owner of the saved query can schedule it' });
+    }
+    const outcome = await runSavedQuery({
+      userId: schedule.userId,
+      query,
+      connectionId: schedule.connectionId,
+      teamId: schedule.teamId,
+      values: schedule.parameterValues,
+      source: 'schedule',
+      readOnly: true,
+    });
+    if (!outcome.ok) {
+      const details = outcome.parameterErrors ? `: ${Object.values(outcome.parameterErrors).join('; ')}` : '';
+      return record({ status: 'failed', error: `${outcome.error}${details}` });
+    }
+    if (outcome.result.error) {
+      return record({ status: 'failed', error: outcome.result.error });
+    }
+    result = outcome.result;
+  } catch (error) {
+    return record({ status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+
+  const conditionMet = evaluateScheduleCondition(schedule.condition, result);
+  const crossed = schedule.condition.type === 'threshold' ? conditionMet && !schedule.conditionMet : conditionMet;
+  if (options.trigger === 'schedule' && !crossed) {
+    return record({ status: 'skipped', rowCount: result.rowCount, conditionMet });
+  }
+
+  const deliveries: ScheduleDelivery[] = [];
+  if (schedule.emailRecipients.length > 0) {
+    deliveries.push(await deliverByEmail(schedule, queryName, result, startedAt));
+  }
+  if (schedule.webhookUrl) {
+    deliveries.push(
+      await deliverByWebhook(schedule, queryName, result, startedAt, { trigger: options.trigger, conditionMet })
+    );
+  }
+
+  const failures = deliveries.filter((delivery) => !delivery.success);
+  return record({
+    status: deliveries.length > 0 && failures.length === deliveries.length ? 'failed' : 'delivered',
+    rowCount: result.rowCount,
+    conditionMet,
+    deliveries,
+    error: failures.length > 0 ? failures.map((delivery) => `${delivery.channel}: ${delivery.error}`).join('; ') : null,
+  });
+}
+
+/**
+ * Scheduler job: run every schedule whose next run time has passed
+ */
+export async function runDueQuerySchedules(now: Date): Promise<void> {
+  const due = await getDueQuerySchedules(now);
+
+  for (const schedule of due) {
+    if (!(await claimScheduledQueryRun(schedule, now))) continue;
+
+    const run = await runQuerySchedule(schedule, { trigger: 'schedule' });
+    if (run.status === 'failed') {
+      console.error(`Scheduled query "${schedule.name}" failed:`, run.error);
+    }
+  }
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it, vi } from 'vitest';
+import { checkWebhookUrl, isPublicAddress, postWebhook } from './webhook-target';
+
+// internal.example.com is a public-looking name for an address on the private network
+vi.mock('node:dns', async (importOriginal) => {
+  const dns = await importOriginal<typeof import('node:dns')>();
+  return {
+    ...dns,
+    lookup: (hostname: string, options: object, callback: (...args: unknown[]) => void) => {
+      if (hostname !== 'internal.example.com') return dns.lookup(hostname, options, callback);
+      callback(null, [{ address: '93.184.216.34', family: 4 }, { address: '10.0.0.5', family: 4 }]);
+    },
+  };
+});
+
+describe('isPublicAddress', () => {
+  it.each([
+    '127.0.0.1',
+    '10.1.2.3',
+    '172.20.0.1',
+    '192.168.1.1',
+    '169.254.169.254',
+    '100.64.0.1',
+    '0.0.0.0',
+    '::1',
+    '::',
+    'fd00::1',
+    'fe80::1',
+    '::ffff:127.0.0.1',
+    '::ffff:a9fe:a9fe',
+  ])('rejects %s', (address) => {
+    expect(isPublicAddress(address)).toBe(false);
+  });
+
+  it.each(['93.184.216.34', '8.8.8.8', '2606:4700:4700::1111'])('accepts %s', (address) => {
+    expect(isPublicAddress(address)).toBe(true);
+  });
+});
+
+describe('checkWebhookUrl', () => {
+  it.each([
+    'http://localhost:3000/hook',
+    'http://api.localhost/hook',
+    'http://metadata/computeMetadata',
+    'http://169.254.169.254/latest/meta-data',
+    'http://2130706433/',
+    'http://0x7f.1/',
+    'http://[::1]/',
+    'http://[::ffff:10.0.0.1]/',
+    'http://localhost./',
+  ])('rejects %s', (url) => {
+    expect(checkWebhookUrl(url)).toBe('Webhook URL must not point to a private or local address');
+  });
+
+  it('rejects other protocols', () => {
+    expect(checkWebhookUrl('file:///etc/passwd')).toBe('Webhook URL must use http or https');
+  });
+
+  it.each(['https://hooks.example.com/services/T000', 'http://93.184.216.34:8080/hook'])('accepts %s', (url) => {
+    expect(checkWebhookUrl(url)).toBeNull();
+  });
+});
+
+describe('postWebhook', () => {
+  it('refuses a local address without connecting', async () => {
+    await expect(
+      postWebhook('http://127.0.0.1:9/hook', '{}', { headers: {}, signal: AbortSignal.timeout(1000) })
+    ).rejects.toThrow('Webhook URL must not point to a private or local address');
+  });
+
+  it('refuses a host when any address it resolves to is private', async () => {
+    await expect(
+      postWebhook('http://internal.example.com/hook', '{}', { headers: {}, signal: AbortSignal.timeout(1000) })
+    ).rejects.toThrow('Webhook URL must not point to a private or local address');
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Webhook Targets
+ *
+ * Webhooks are posted from the server, so a URL that leads to a private,
+ * loopback or link-local address would let users reach services that are
+ * only meant to be reachable from inside the network. Hosts are checked by
+ * name when a webhook is saved, and every address a host resolves to is
+ * checked again as the request connects, so a DNS answer can't change
+ * between the check and the request. Redirects are never followed.
+ */
+
+import { BlockList, isIP, type LookupFunction } from 'node:net';
+import { lookup, type LookupAddress } from 'node:dns';
+import { request as httpRequest } from 'node:http';
+import { request as httpsRequest } from 'node:https';
+
+const BLOCKED_ERROR = 'Webhook URL must not point to a private or local address';
+
+// Addresses that aren't on the public internet. IPv4-mapped IPv6 addresses
+// are matched against the IPv4 ranges too.
+const blockedAddresses = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+export function isPublicAddress(address: string): boolean {
+  const version = isIP(address);
+  if (version === 0) return false;
+  return !blockedAddresses.check(address, version === 4 ? 'ipv4' : 'ipv6');
+}
+
+function hostnameOf(url: URL): string {
+  return url.hostname.replace(/^\[|\]$/g, '').replace(/\.$/, '').toLowerCase();
+}
+
+/**
+ * Why a webhook URL can't be used, or null when it may be saved. Names are
+ * only checked for what they say outright; what they resolve to is checked
+ * when the webhook is called.
+ */
+export function checkWebhookUrl(value: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return 'Invalid webhook URL';
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return 'Webhook URL must use http or https';
+  }
+
+  const hostname = hostnameOf(url);
+  if (isIP(hostname)) {
+    return isPublicAddress(hostname) ? null : BLOCKED_ERROR;
+  }
+  if (hostname === 'localhost' || hostname.endsWith('.localhost') || !hostname.includes('.')) {
+    return BLOCKED_ERROR;
+  }
+  return null;
+}
+
+/**
+ * Resolves like dns.lookup, failing when any address the host has is not public
+ */
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses: LookupAddress[]) => {
+    if (error) {
+      callback(error, '', 0);
+      return;
+    }
+    if (addresses.length === 0 || addresses.some(({ address }) => !isPublicAddress(address))) {
+      callback(new Error(BLOCKED_ERROR), '', 0);
+      return;
+    }
+    if (options.all) {
+      (callback as unknown as (error: null, addresses: LookupAddress[]) => void)(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+/**
+ * POST a JSON body to a webhook and resolve with the response status. A
+ * redirect comes back as its 3xx status rather than being followed.
+ */
+export function postWebhook(
+  value: string,
+  body: string,
+  options: { headers: Record<string, string>; signal: AbortSignal }
+): Promise<number> {
+  const problem = checkWebhookUrl(value);
+  if (problem) return Promise.reject(new Error(problem));
+
+  const url = new URL(value);
+  const request = url.protocol === 'https:' ? httpsRequest : httpRequest;
+
+  return new Promise((resolve, reject) => {
+    const outgoing = request(url, {
+      method: 'POST',
+      headers: { ...options.headers, 'Content-Length': Buffer.byteLength(body) },
+      lookup: publicLookup,
+      signal: options.signal,
+    }, (response) => {
+      response.resume();
+      response.on('end', () => resolve(response.statusCode ?? 0));
+      response.on('error', reject);
+    });
+    outgoing.on('error', reject);
+    outgoing.end(body);
+  });
+}
@@ -165,6 +165,25 @@ export function detectDangerousQuery(sql: string): DangerousQueryInfo {
   };
 }
 
+/**
+ * Detects the most dangerous statement of a script, preferring critical
+ * matches over warnings. Returns null when every statement is safe.
+ */
+export function detectDangerousStatement(
+  statements: string[]
+): { info: DangerousQueryInfo; sql: string } | null {
+  let found: { info: DangerousQueryInfo; sql: string } | null = null;
+
+  for (const sql of statements) {
+    const info = detectDangerousQuery(sql);
+    if (!info.isDangerous) continue;
+    if (info.level === 'critical') return { info, sql };
+    found ??= { info, sql };
+  }
+
+  return found;
+}
+
 /**
  * Check if a query contains multiple statements (potential for hidden dangerous queries)
  */
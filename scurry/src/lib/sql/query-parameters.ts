@@ -0,0 +1,240 @@
+/**
+ * Query Parameters
+ *
+ * Finds named parameters (:name or {{name}}) in saved query SQL, checks the
+ * values supplied for them against their declared types, and rewrites the
+ * SQL to driver placeholders so the values are always bound, never spliced
+ * into the query text.
+ */
+
+import { getPlaceholder, type DatabaseType } from '@/lib/db/sql-utils';
+import type { QueryParameter, QueryParameterType, QueryParameterValue } from '@/types';
+
+export const QUERY_PARAMETER_TYPE_LABELS: Record<QueryParameterType, string> = {
+  string: 'Text',
+  number: 'Number',
+  integer: 'Integer',
+  boolean: 'Boolean',
+  date: 'Date',
+  datetime: 'Date & time',
+};
+
+interface ParameterReference {
+  name: string;
+  start: number;
+  end: number;
+}
+
+const NAME_START = /[A-Za-z_]/;
+const NAME_CHAR = /[A-Za-z0-9_]/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DATETIME_PATTERN = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/;
+
+function readName(sql: string, start: number): string {
+  let end = start;
+  while (end < sql.length && NAME_CHAR.test(sql[end])) end++;
+  return sql.slice(start, end);
+}
+
+/**
+ * Parameter references outside string literals, quoted identifiers and
+ * comments. Postgres casts (::type) and MySQL assignments (:=) are skipped.
+ */
+function scanParameters(sql: string): ParameterReference[] {
+  const references: ParameterReference[] = [];
+  let i = 0;
+
+  while (i < sql.length) {
+    const char = sql[i];
+    const next = sql[i + 1];
+
+    // Quoted strings and identifiers, with doubled-quote escapes
+    if (char === "'" || char === '"' || char === '`') {
+      i++;
+      while (i < sql.length) {
+        if (sql[i] === char) {
+          if (sql[i + 1] === char) {
+            i += 2;
+            continue;
+          }
+          break;
+        }
+        i++;
+      }
+      i++;
+      continue;
+    }
+
+    // Postgres dollar-quoted bodies ($$ ... $$ or $tag$ ... $tag$)
+    if (char === '$') {
+      const tag = /^\$[A-Za-z_]?[A-Za-z0-9_]*\$/.exec(sql.slice(i));
+      if (tag) {
+        const close = sql.indexOf(tag[0], i + tag[0].length);
+        i = close === -1 ? sql.length : close + tag[0].length;
+        continue;
+      }
+    }
+
+    if (char === '-' && next === '-') {
+      const lineEnd = sql.indexOf('\n', i);
+      i = lineEnd === -1 ? sql.length : lineEnd;
+      continue;
+    }
+
+    if (char === '/' && next === '*') {
+      const close = sql.indexOf('*/', i + 2);
+      i = close === -1 ? sql.length : close + 2;
+      continue;
+    }
+
+    if (char === ':') {
+      if (next === ':') {
+        i += 2;
+        continue;
+      }
+      const previous = sql[i - 1];
+      if (next && NAME_START.test(next) && !(previous && NAME_CHAR.test(previous))) {
+        const name = readName(sql, i + 1);
+        references.push({ name, start: i, end: i + 1 + name.length });
+        i += 1 + name.length;
+        continue;
+      }
+    }
+
+    if (char === '{' && next === '{') {
+      const match = /^\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/.exec(sql.slice(i));
+      if (match) {
+        references.push({ name: match[1], start: i, end: i + match[0].length });
+        i += match[0].length;
+        continue;
+      }
+    }
+
+    i++;
+  }
+
+  return references;
+}
+
+/**
+ * Distinct parameter names in the order they first appear
+ */
+export function extractParameterNames(sql: string): string[] {
+  return [...new Set(scanParameters(sql).map((reference) => reference.name))];
+}
+
+/**
+ * Parameter definitions matching the SQL: existing definitions are kept,
+ * new names get a required text parameter and names no longer used are dropped
+ */
+export function syncParameters(sql: string, existing: QueryParameter[] = []): QueryParameter[] {
+  const byName = new Map(existing.map((parameter) => [parameter.name, parameter]));
+  return extractParameterNames(sql).map(
+    (name) => byName.get(name) ?? { name, type: 'string', required: true }
+  );
+}
+
+function coerceValue(parameter: QueryParameter, raw: QueryParameterValue): QueryParameterValue {
+  const label = parameter.label || parameter.name;
+
+  switch (parameter.type) {
+    case 'number':
+    case 'integer': {
+      const value = typeof raw === 'number' ? raw : Number(String(raw).trim());
+      if (!Number.isFinite(value)) throw new Error(`${label} must be a number`);
+      if (parameter.type === 'integer' && !Number.isInteger(value)) {
+        throw new Error(`${label} must be a whole number`);
+      }
+      return value;
+    }
+    case 'boolean': {
+      if (typeof raw === 'boolean') return raw;
+      const text = String(raw).trim().toLowerCase();
+      if (text === 'true' || text === '1') return true;
+      if (text === 'false' || text === '0') return false;
+      throw new Error(`${label} must be true or false`);
+    }
+    case 'date': {
+      const text = String(raw).trim();
+      if (!DATE_PATTERN.test(text) || Number.isNaN(Date.parse(text))) {
+        throw new Error(`${label} must be a date (YYYY-MM-DD)`);
+      }
+      return text;
+    }
+    case 'datetime': {
+      const text = String(raw).trim();
+      if (!DATETIME_PATTERN.test(text) || Number.isNaN(Date.parse(text.replace(' ', 'T')))) {
+        throw new Error(`${label} must be a date and time (YYYY-MM-DD HH:MM)`);
+      }
+      // Form inputs send 2024-01-31T09:30; every dialect accepts the space form
+      return text.replace('T', ' ');
+    }
+    default:
+      return String(raw);
+  }
+}
+
+/**
+ * Checks supplied values against the parameter definitions, falling back to
+ * defaults for missing values. Errors are keyed by parameter name.
+ */
+export function resolveParameterValues(
+  parameters: QueryParameter[],
+  input: Record<string, QueryParameterValue | undefined>
+): { values: Record<string, QueryParameterValue>; errors: Record<string, string> } {
+  const values: Record<string, QueryParameterValue> = {};
+  const errors: Record<string, string> = {};
+
+  for (const parameter of parameters) {
+    const supplied = input[parameter.name];
+    const raw = supplied === undefined || supplied === null || supplied === ''
+      ? parameter.defaultValue ?? null
+      : supplied;
+
+    if (raw === null || raw === '') {
+      if (parameter.required) {
+        errors[parameter.name] = `${parameter.label || parameter.name} is required`;
+      }
+      values[parameter.name] = null;
+      continue;
+    }
+
+    try {
+      const value = coerceValue(parameter, raw);
+      if (parameter.allowedValues?.length && !parameter.allowedValues.some((allowed) => String(allowed) === String(value))) {
+        throw new Error(`${parameter.label || parameter.name} must be one of: ${parameter.allowedValues.join(', ')}`);
+      }
+      values[parameter.name] = value;
+    } catch (error) {
+      errors[parameter.name] = error instanceof Error ? error.message : 'Invalid value';
+    }
+  }
+
+  return { values, errors };
+}
+
+/**
+ * Rewrites every parameter reference to the dialect's placeholder and
+ * returns the values in placeholder order
+ */
+export function bindParameters(
+  sql: string,
+  dbType: DatabaseType,
+  values: Record<string, QueryParameterValue>
+): { sql: string; params: unknown[] } {
+  const params: unknown[] = [];
+  let bound = '';
+  let position = 0;
+
+  for (const reference of scanParameters(sql)) {
+    if (!(reference.name in values)) {
+      throw new Error(`No value for parameter "${reference.name}"`);
+    }
+    const value = values[reference.name];
+    params.push(dbType === 'sqlite' && typeof value === 'boolean' ? (value ? 1 : 0) : value);
+    bound += sql.slice(position, reference.start) + getPlaceholder(dbType, params.length);
+    position = reference.end;
+  }
+
+  return { sql: bound + sql.slice(position), params };
+}
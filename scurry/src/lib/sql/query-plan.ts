@@ -0,0 +1,367 @@
+/**
+ * Query Plan Parsing
+ *
+ * Builds EXPLAIN statements for each database and turns their output into
+ * the shared PlanNode tree:
+ * - PostgreSQL: EXPLAIN (FORMAT JSON [, ANALYZE])
+ * - MySQL/MariaDB: EXPLAIN FORMAT=JSON
+ * - SQLite: EXPLAIN QUERY PLAN (one row per step, linked by parent id)
+ *
+ * Steps worth a second look, like full scans of large tables, get warnings.
+ */
+
+import type { DatabaseType, PlanNode, QueryPlan } from '@/types';
+
+/** Full scans of tables with at least this many rows get a warning */
+export const LARGE_TABLE_ROWS = 10000;
+
+/** ANALYZE row counts this many times off the estimate get a warning */
+const MISESTIMATE_FACTOR = 10;
+
+type JsonObject = Record<string, unknown>;
+
+export function supportsExplainAnalyze(dbType: DatabaseType): boolean {
+  return dbType === 'postgresql';
+}
+
+export function buildExplainSql(sql: string, dbType: DatabaseType, analyze: boolean = false): string {
+  const statement = sql.trim().replace(/;+\s*$/, '');
+
+  switch (dbType) {
+    case 'postgresql':
+      return `EXPLAIN (FORMAT JSON${analyze ? ', ANALYZE' : ''}) ${statement}`;
+    case 'mysql':
+    case 'mariadb':
+      return `EXPLAIN FORMAT=JSON ${statement}`;
+    case 'sqlite':
+      return `EXPLAIN QUERY PLAN ${statement}`;
+  }
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (value === null || value === undefined || value === '') return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+}
+
+/**
+ * Drivers return JSON plans either parsed or as text
+ */
+function parseJsonValue(value: unknown): unknown {
+  return typeof value === 'string' ? JSON.parse(value) : value;
+}
+
+function createNode(operation: string, fields: Partial<PlanNode> = {}): PlanNode {
+  return {
+    id: '',
+    operation,
+    fullScan: false,
+    warnings: [],
+    children: [],
+    ...fields,
+  };
+}
+
+// =============================================================================
+// PostgreSQL
+// =============================================================================
+
+const POSTGRES_CONDITIONS = [
+  'Index Cond',
+  'Recheck Cond',
+  'Hash Cond',
+  'Merge Cond',
+  'Join Filter',
+  'Filter',
+  'Sort Key',
+  'Group Key',
+];
+
+function postgresNode(plan: JsonObject): PlanNode {
+  const details: string[] = [];
+  if (plan['Join Type']) details.push(`${plan['Join Type']} join`);
+  for (const key of POSTGRES_CONDITIONS) {
+    const value = plan[key];
+    if (value !== undefined) {
+      details.push(`${key}: ${Array.isArray(value) ? value.join(', ') : String(value)}`);
+    }
+  }
+
+  const node = createNode(String(plan['Node Type'] ?? 'Unknown'), {
+    relation: plan['Relation Name'] as string | undefined,
+    index: plan['Index Name'] as string | undefined,
+    detail: details.length > 0 ? details.join('; ') : undefined,
+    startupCost: toNumber(plan['Startup Cost']),
+    totalCost: toNumber(plan['Total Cost']),
+    estimatedRows: toNumber(plan['Plan Rows']),
+    actualRows: toNumber(plan['Actual Rows']),
+    actualTimeMs: toNumber(plan['Actual Total Time']),
+    loops: toNumber(plan['Actual Loops']),
+    fullScan: plan['Node Type'] === 'Seq Scan',
+  });
+
+  const { estimatedRows, actualRows } = node;
+  if (estimatedRows !== undefined && actualRows !== undefined) {
+    const larger = Math.max(estimatedRows, actualRows);
+    const smaller = Math.max(Math.min(estimatedRows, actualRows), 1);
+    if (larger >= 100 && larger / smaller >= MISESTIMATE_FACTOR) {
+      node.warnings.push(`Estimated ${estimatedRows} rows but got ${actualRows}; statistics may be stale`);
+    }
+  }
+
+  const children = plan['Plans'];
+  if (Array.isArray(children)) {
+    node.children = children.filter(isObject).map(postgresNode);
+  }
+  return node;
+}
+
+function parsePostgresPlan(rows: JsonObject[], plan: QueryPlan): void {
+  const output = parseJsonValue(rows[0]?.['QUERY PLAN']);
+  const top = Array.isArray(output) ? output[0] : output;
+  if (!isObject(top) || !isObject(top['Plan'])) {
+    throw new Error('Unexpected EXPLAIN output');
+  }
+
+  plan.nodes = [postgresNode(top['Plan'])];
+  plan.totalCost = plan.nodes[0].totalCost;
+  plan.planningTimeMs = toNumber(top['Planning Time']);
+  plan.executionTimeMs = toNumber(top['Execution Time']);
+}
+
+// =============================================================================
+// MySQL / MariaDB
+// =============================================================================
+
+const MYSQL_ACCESS_TYPES: Record<string, string> = {
+  system: 'System table',
+  const: 'Constant lookup',
+  eq_ref: 'Unique key lookup',
+  ref: 'Index lookup',
+  ref_or_null: 'Index lookup (or NULL)',
+  fulltext: 'Full-text search',
+  index_merge: 'Index merge',
+  unique_subquery: 'Unique subquery lookup',
+  index_subquery: 'Index subquery lookup',
+  range: 'Index range scan',
+  index: 'Full index scan',
+  ALL: 'Full table scan',
+};
+
+const MYSQL_OPERATIONS: Record<string, string> = {
+  ordering_operation: 'Sort',
+  grouping_operation: 'Group',
+  duplicates_removal: 'Remove duplicates',
+  windowing: 'Window',
+  filesort: 'Filesort',
+  read_sorted_file: 'Read sorted file',
+  temporary_table: 'Temporary table',
+  'block-nl-join': 'Block nested loop join',
+};
+
+function addMysqlFlags(source: JsonObject, node: PlanNode): void {
+  if (source.using_filesort) node.warnings.push('Sorts with a filesort');
+  if (source.using_temporary_table) node.warnings.push('Uses a temporary table');
+}
+
+function mysqlTableNode(table: JsonObject): PlanNode {
+  const accessType = table.access_type as string | undefined;
+  const costInfo = isObject(table.cost_info) ? table.cost_info : {};
+
+  const node = createNode(
+    accessType ? MYSQL_ACCESS_TYPES[accessType] ?? `Access (${accessType})` : String(table.message ?? 'Table'),
+    {
+      relation: table.table_name as string | undefined,
+      index: table.key as string | undefined,
+      detail: table.attached_condition as string | undefined,
+      totalCost: toNumber(costInfo.prefix_cost ?? costInfo.read_cost),
+      estimatedRows: toNumber(table.rows_examined_per_scan ?? table.rows),
+      fullScan: accessType === 'ALL',
+    }
+  );
+  addMysqlFlags(table, node);
+  node.children = mysqlNodes(table);
+  return node;
+}
+
+/**
+ * Plan steps found in an object of MySQL's JSON plan. Unknown keys are
+ * searched too, which picks up subqueries wherever they are attached.
+ */
+function mysqlNodes(source: unknown): PlanNode[] {
+  if (Array.isArray(source)) {
+    return source.flatMap(mysqlNodes);
+  }
+  if (!isObject(source)) {
+    return [];
+  }
+
+  const nodes: PlanNode[] = [];
+  for (const [key, value] of Object.entries(source)) {
+    if (key === 'query_block' && isObject(value)) {
+      const costInfo = isObject(value.cost_info) ? value.cost_info : {};
+      const node = createNode(`Query block #${value.select_id ?? 1}`, {
+        totalCost: toNumber(costInfo.query_cost),
+        detail: value.message as string | undefined,
+      });
+      node.children = mysqlNodes(value);
+      nodes.push(node);
+    } else if (key === 'table' && isObject(value)) {
+      nodes.push(mysqlTableNode(value));
+    } else if (key === 'nested_loop' && Array.isArray(value)) {
+      const node = createNode('Nested loop');
+      node.children = mysqlNodes(value);
+      nodes.push(node);
+    } else if (key === 'union_result' && isObject(value)) {
+      const node = createNode('Union', { relation: value.table_name as string | undefined });
+      addMysqlFlags(value, node);
+      node.children = mysqlNodes(value.query_specifications);
+      nodes.push(node);
+    } else if (MYSQL_OPERATIONS[key] && isObject(value)) {
+      const node = createNode(MYSQL_OPERATIONS[key]);
+      addMysqlFlags(value, node);
+      node.children = mysqlNodes(value);
+      nodes.push(node);
+    } else if (key !== 'cost_info' && typeof value === 'object') {
+      nodes.push(...mysqlNodes(value));
+    }
+  }
+  return nodes;
+}
+
+function parseMysqlPlan(rows: JsonObject[], plan: QueryPlan): void {
+  const output = parseJsonValue(rows[0]?.EXPLAIN ?? Object.values(rows[0] ?? {})[0]);
+  if (!isObject(output)) {
+    throw new Error('Unexpected EXPLAIN output');
+  }
+
+  plan.nodes = mysqlNodes(output);
+  plan.totalCost = plan.nodes[0]?.totalCost;
+}
+
+// =============================================================================
+// SQLite
+// =============================================================================
+
+function sqliteNode(detail: string): PlanNode {
+  const scan = detail.match(/^(SCAN|SEARCH)(?: TABLE)? (\S+)/);
+  const relation = scan && !scan[2].startsWith('(') && !/^SCAN CONSTANT ROW/.test(detail)
+    ? scan[2]
+    : undefined;
+  const index = detail.match(/USING (?:COVERING )?INDEX (\S+)/)?.[1]
+    ?? (/USING INTEGER PRIMARY KEY/.test(detail) ? 'INTEGER PRIMARY KEY' : undefined);
+
+  const node = createNode(scan ? scan[1] : detail, {
+    relation,
+    index,
+    detail,
+    fullScan: scan?.[1] === 'SCAN' && !!relation && !index,
+  });
+
+  if (/^USE TEMP B-TREE/.test(detail)) {
+    node.warnings.push('Sorts with a temporary B-tree');
+  }
+  if (/AUTOMATIC (?:PARTIAL )?(?:COVERING )?INDEX/.test(detail)) {
+    node.warnings.push('Builds an automatic index for this query; a permanent index may help');
+  }
+  return node;
+}
+
+function parseSqlitePlan(rows: JsonObject[], plan: QueryPlan): void {
+  const byId = new Map<number, PlanNode>();
+  const roots: PlanNode[] = [];
+
+  for (const row of rows) {
+    const node = sqliteNode(String(row.detail ?? ''));
+    byId.set(Number(row.id), node);
+
+    const parent = byId.get(Number(row.parent));
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  plan.nodes = roots;
+}
+
+// =============================================================================
+// Normalization
+// =============================================================================
+
+function assignIds(nodes: PlanNode[], prefix: string = ''): void {
+  nodes.forEach((node, index) => {
+    node.id = prefix ? `${prefix}.${index}` : String(index);
+    assignIds(node.children, node.id);
+  });
+}
+
+/**
+ * Turn the rows returned by an EXPLAIN statement into a QueryPlan
+ */
+export function parseQueryPlan(
+  dbType: DatabaseType,
+  rows: Record<string, unknown>[],
+  analyzed: boolean = false
+): QueryPlan {
+  const plan: QueryPlan = {
+    databaseType: dbType,
+    analyzed,
+    nodes: [],
+    warnings: [],
+    raw: dbType === 'sqlite' ? rows : rows[0],
+  };
+
+  switch (dbType) {
+    case 'postgresql':
+      parsePostgresPlan(rows, plan);
+      break;
+    case 'mysql':
+    case 'mariadb':
+      parseMysqlPlan(rows, plan);
+      break;
+    case 'sqlite':
+      parseSqlitePlan(rows, plan);
+      break;
+  }
+
+  assignIds(plan.nodes);
+  return plan;
+}
+
+/**
+ * Warn about full scans of large tables, using the row counts from the schema
+ */
+export function annotateQueryPlan(
+  plan: QueryPlan,
+  tables: Array<{ name: string; rowCount?: number }>
+): QueryPlan {
+  const rowCounts = new Map(tables.map((table) => [table.name.toLowerCase(), table.rowCount ?? 0]));
+
+  const visit = (node: PlanNode) => {
+    if (node.fullScan && node.relation) {
+      const rowCount = rowCounts.get(node.relation.toLowerCase()) ?? 0;
+      if (rowCount >= LARGE_TABLE_ROWS) {
+        node.warnings.push(`Full scan of ${node.relation} (~${rowCount.toLocaleString()} rows); consider an index`);
+      }
+    }
+    node.children.forEach(visit);
+  };
+  plan.nodes.forEach(visit);
+
+  return plan;
+}
+
+/**
+ * Number of warnings anywhere in a plan, including plan-wide ones
+ */
+export function countPlanWarnings(plan: QueryPlan): number {
+  const count = (nodes: PlanNode[]): number =>
+    nodes.reduce((sum, node) => sum + node.warnings.length + count(node.children), 0);
+  return plan.warnings.length + count(plan.nodes);
+}
@@ -0,0 +1,24 @@
+/**
+ * Script Statements
+ *
+ * Helpers for running an editor buffer as a script of separate statements,
+ * built on the statement splitter used by SQL import.
+ */
+
+import { parseSQLStatements, type ParsedStatement } from '@/lib/import/sql-importer';
+
+export function splitScript(sql: string): ParsedStatement[] {
+  return parseSQLStatements(sql);
+}
+
+/**
+ * The statement a cursor offset belongs to. Each statement owns the text
+ * from the end of the previous one through its own delimiter, so a cursor
+ * just after a semicolon still picks the statement that semicolon ends.
+ */
+export function findStatementAtOffset(sql: string, offset: number): ParsedStatement | null {
+  const statements = splitScript(sql);
+  return statements.find((statement) => offset <= statement.endOffset)
+    ?? statements[statements.length - 1]
+    ?? null;
+}
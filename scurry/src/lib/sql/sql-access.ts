@@ -0,0 +1,747 @@
+/**
+ * SQL Access Analysis
+ *
+ * Walks the statement AST to find what each statement reads and writes:
+ * the base tables it touches and every use of their columns. Aliases,
+ * derived tables and CTE names are resolved back to base tables, so a
+ * column read through a subquery counts as a read of the table it came from.
+ *
+ * Column uses are classified for permission checks:
+ * - projection: selected as-is into a result column of the same name
+ * - expression: anything else (filters, joins, computations, renames, copies)
+ * - write: assigned by INSERT or UPDATE
+ * A column of null stands for every column of the table (SELECT *, t.*,
+ * PostgreSQL whole-row references).
+ *
+ * Each table access is classified by the operation it needs: select,
+ * insert, update, delete, truncate, or ddl for schema changes. Changes made
+ * outside any table (SET, CREATE FUNCTION, nextval() and the like) count as
+ * ddl on the connection.
+ *
+ * Where each base table is named in the SQL text is kept as well, so that
+ * statements can be rewritten to reach only some of a table's rows.
+ */
+
+import type { DatabaseType } from '@/types';
+import {
+  parseSql,
+  type Assignment,
+  type ColumnExpression,
+  type CommonTableExpression,
+  type DeleteStatement,
+  type Expression,
+  type FromItem,
+  type InsertStatement,
+  type OrderItem,
+  type Query,
+  type QueryBody,
+  type SelectItem,
+  type SelectQuery,
+  type SourceSpan,
+  type Statement,
+  type TableName,
+  type UpdateStatement,
+} from '@/lib/sql/sql-parser';
+import { SqlSyntaxError, type TokenizeOptions } from '@/lib/sql/sql-tokenizer';
+
+export type ColumnUsage = 'projection' | 'expression' | 'write';
+
+export type SqlOperation = 'select' | 'insert' | 'update' | 'delete' | 'truncate' | 'ddl';
+
+export interface TableAccess {
+  table: TableName;
+  write: boolean;
+  operation: SqlOperation;
+}
+
+export interface ColumnAccess {
+  table: TableName;
+  column: string | null; // null = every column
+  usage: ColumnUsage;
+}
+
+export interface TableReference {
+  table: TableName;
+  span: SourceSpan | null; // The table name as written; null in DDL and utility statements
+  query: SourceSpan | null; // TABLE t and SQLite's x IN t: the whole query the table stands for
+  aliased: boolean;
+  modifiers: string[]; // ONLY, PARTITION, index hints and other keywords read with the table name
+  target: InsertStatement | UpdateStatement | DeleteStatement | null; // Statement changing rows through this reference
+}
+
+export interface StatementAccess {
+  statement: Statement;
+  write: boolean;
+  opaque: boolean; // Touches tables that couldn't be determined
+  tables: TableAccess[];
+  operations: SqlOperation[]; // Operations on no table in particular
+  columns: ColumnAccess[];
+  references: TableReference[]; // Every base table reference outside CTE names
+}
+
+// Functions that change data or server state when called from a query
+const WRITE_FUNCTIONS = new Set([
+  'nextval', 'setval', 'set_config', 'pg_terminate_backend', 'pg_cancel_backend', 'pg_reload_conf',
+  'pg_rotate_logfile', 'pg_switch_wal', 'pg_create_restore_point', 'lo_import', 'lo_export', 'lo_unlink',
+  'lo_create', 'lo_from_bytea', 'lo_put', 'dblink_exec', 'load_extension',
+]);
+
+// Functions that run SQL or read tables named in their arguments
+const OPAQUE_FUNCTIONS = new Set([
+  'query_to_xml', 'query_to_xmlschema', 'query_to_xml_and_xmlschema', 'table_to_xml', 'table_to_xmlschema',
+  'table_to_xml_and_xmlschema', 'cursor_to_xml', 'schema_to_xml', 'schema_to_xml_and_xmlschema',
+  'database_to_xml', 'database_to_xml_and_xmlschema', 'dblink', 'dblink_exec', 'dblink_send_query',
+  'load_extension',
+]);
+
+/** Base table columns a derived column passes through unchanged; column null = every column */
+interface Origin {
+  table: TableName;
+  column: string | null;
+}
+
+/** Output columns of a derived table, CTE or table function */
+interface SourceColumns {
+  list: Array<{ name: string | null; origins: Origin[] }>;
+  open: Origin[]; // Tables passed through by *, whose column names aren't known
+}
+
+interface Source {
+  name: string; // What columns are qualified with: the alias, else the table name
+  table: TableName | null;
+  columns: SourceColumns | null;
+  renamed: boolean; // Base table with a column alias list
+  reference?: TableReference;
+}
+
+interface Scope {
+  parent: Scope | null;
+  sources: Source[];
+  ctes: Map<string, SourceColumns>;
+}
+
+/**
+ * Query contexts, which decide how selected columns are used:
+ * - result: the statement's result set
+ * - derived: a derived table or CTE, whose columns the enclosing query uses
+ * - expression: scalar and IN subqueries, INSERT ... SELECT and the like
+ * - exists: EXISTS subqueries, whose select list is never evaluated
+ */
+type QueryContext = 'result' | 'derived' | 'expression' | 'exists';
+
+interface Collector {
+  write: boolean;
+  opaque: boolean;
+  tables: TableAccess[];
+  operations: SqlOperation[];
+  columns: ColumnAccess[];
+  references: TableReference[];
+}
+
+const EMPTY_COLUMNS: SourceColumns = { list: [], open: [] };
+
+function lower(value: string): string {
+  return value.toLowerCase();
+}
+
+function newCollector(): Collector {
+  return { write: false, opaque: false, tables: [], operations: [], columns: [], references: [] };
+}
+
+function newScope(parent: Scope | null): Scope {
+  return { parent, sources: [], ctes: new Map() };
+}
+
+function outputName(item: SelectItem): string | null {
+  if (item.alias) return item.alias;
+  return item.expression.type === 'column' ? item.expression.name : null;
+}
+
+class AccessAnalyzer {
+  private collector: Collector = newCollector();
+
+  constructor(private readonly dialect: DatabaseType) {}
+
+  analyze(statement: Statement): StatementAccess {
+    this.analyzeStatement(statement, newScope(null));
+    return { statement, ...this.collector };
+  }
+
+  private recordColumn(origin: Origin, usage: ColumnUsage) {
+    this.collector.columns.push({ table: origin.table, column: origin.column, usage });
+  }
+
+  private recordTable(table: TableName, operation: SqlOperation) {
+    const write = operation !== 'select';
+    this.collector.tables.push({ table, write, operation });
+    if (write) this.collector.write = true;
+  }
+
+  /** A change made outside any table */
+  private recordOperation(operation: SqlOperation) {
+    this.collector.operations.push(operation);
+    this.collector.write = true;
+  }
+
+  private recordReference(table: TableName, reference: Partial<Omit<TableReference, 'table'>> = {}): TableReference {
+    const recorded = { table, span: null, query: null, aliased: false, modifiers: [], target: null, ...reference };
+    this.collector.references.push(recorded);
+    return recorded;
+  }
+
+  // Statements
+
+  private analyzeStatement(statement: Statement, scope: Scope): SourceColumns {
+    switch (statement.type) {
+      case 'select':
+        return this.analyzeQuery(statement.query, scope, 'result');
+      case 'insert':
+        return this.analyzeInsert(statement, scope);
+      case 'update':
+        return this.analyzeUpdate(statement, scope);
+      case 'delete':
+        return this.analyzeDelete(statement, scope);
+      case 'explain': {
+        // Only EXPLAIN ANALYZE runs the statement; otherwise its tables are only read
+        const { write, tables, operations } = this.collector;
+        const [tableCount, operationCount] = [tables.length, operations.length];
+        this.analyzeStatement(statement.statement, scope);
+        if (!statement.analyze) {
+          this.collector.write = write;
+          tables.slice(tableCount).forEach((access) => Object.assign(access, { write: false, operation: 'select' }));
+          operations.splice(operationCount);
+        }
+        return EMPTY_COLUMNS;
+      }
+      case 'command': {
+        const operation = statement.command === 'TRUNCATE' ? 'truncate' : 'ddl';
+        statement.reads.forEach((table) => this.recordTable(table, 'select'));
+        statement.writes.forEach((table) => this.recordTable(table, operation));
+        [...statement.reads, ...statement.writes].forEach((table) => this.recordReference(table));
+        if (statement.query) this.analyzeQuery(statement.query, scope, 'expression');
+        if (statement.write && statement.writes.length === 0) this.recordOperation(operation);
+        if (statement.opaque) this.collector.opaque = true;
+        return EMPTY_COLUMNS;
+      }
+    }
+  }
+
+  private analyzeInsert(statement: InsertStatement, parent: Scope): SourceColumns {
+    this.collector.write = true;
+    const scope = this.withCtes(statement.with, parent);
+    this.recordTable(statement.table, 'insert');
+    // Upserts update the conflicting row; REPLACE deletes it
+    if ((statement.conflict?.set.length ?? 0) > 0) this.recordTable(statement.table, 'update');
+    if (statement.replace) this.recordTable(statement.table, 'delete');
+    this.recordReference(statement.table, { span: statement.span, aliased: statement.alias !== null, target: statement });
+    statement.columns.forEach((column) => this.recordColumn({ table: statement.table, column }, 'write'));
+
+    if (statement.source) this.analyzeQuery(statement.source, scope, 'expression');
+
+    // SET and ON CONFLICT clauses see the target table, and PostgreSQL/SQLite's excluded row
+    const target = newScope(scope);
+    target.sources.push({ name: lower(statement.alias ?? statement.table.name), table: statement.table, columns: null, renamed: false });
+    target.sources.push({ name: 'excluded', table: null, columns: EMPTY_COLUMNS, renamed: false });
+
+    this.analyzeAssignments(statement.set, target, [statement.table]);
+    if (statement.conflict) {
+      statement.conflict.target.forEach((expression) => this.analyzeExpression(expression, target));
+      this.analyzeAssignments(statement.conflict.set, target, [statement.table]);
+      if (statement.conflict.where) this.analyzeExpression(statement.conflict.where, target);
+    }
+
+    return this.analyzeSelectList(statement.returning, target, 'result', null);
+  }
+
+  private analyzeUpdate(statement: UpdateStatement, parent: Scope): SourceColumns {
+    this.collector.write = true;
+    const scope = newScope(this.withCtes(statement.with, parent));
+    statement.targets.forEach((item) => this.addFromItem(item, scope, 'update'));
+    scope.sources.forEach((source) => {
+      if (source.reference) source.reference.target = statement;
+    });
+    const targetTables = scope.sources.flatMap((source) => (source.table ? [source.table] : []));
+    statement.from.forEach((item) => this.addFromItem(item, scope, 'select'));
+
+    this.analyzeAssignments(statement.set, scope, targetTables);
+    this.analyzeClauses(scope, statement.where, statement.orderBy, statement.limit);
+    return this.analyzeSelectList(statement.returning, scope, 'result', null);
+  }
+
+  private analyzeDelete(statement: DeleteStatement, parent: Scope): SourceColumns {
+    this.collector.write = true;
+    const scope = newScope(this.withCtes(statement.with, parent));
+    statement.from.forEach((item) => this.addFromItem(item, scope, 'select'));
+
+    // Targets name tables or their aliases
+    for (const target of statement.targets) {
+      const source = this.findSource(scope, target.schema ? [target.schema, target.name] : [target.name]);
+      this.recordTable(source?.table ?? target, 'delete');
+      if (source?.reference) source.reference.target = statement;
+      else this.recordReference(source?.table ?? target, { target: statement });
+    }
+
+    this.analyzeClauses(scope, statement.where, statement.orderBy, statement.limit);
+    return this.analyzeSelectList(statement.returning, scope, 'result', null);
+  }
+
+  /** Assigned columns are written; unqualified ones belong to the target tables */
+  private analyzeAssignments(assignments: Assignment[], scope: Scope, targets: TableName[]) {
+    for (const assignment of assignments) {
+      for (const column of assignment.columns) {
+        if (column.qualifier.length > 0) {
+          this.resolveColumn(column, scope, 'write');
+        } else {
+          targets.forEach((table) => this.recordColumn({ table, column: column.name }, 'write'));
+        }
+      }
+      this.analyzeExpression(assignment.value, scope);
+    }
+  }
+
+  private analyzeClauses(scope: Scope, where: Expression | null, orderBy: OrderItem[], limit: Expression[]) {
+    if (where) this.analyzeExpression(where, scope);
+    orderBy.forEach((item) => this.analyzeExpression(item.expression, scope));
+    limit.forEach((expression) => this.analyzeExpression(expression, scope));
+  }
+
+  // Queries
+
+  private withCtes(ctes: CommonTableExpression[], parent: Scope): Scope {
+    if (ctes.length === 0) return parent;
+    const scope = newScope(parent);
+
+    for (const cte of ctes) {
+      const name = lower(cte.name);
+      if (cte.recursive) {
+        // A first pass finds the columns the recursive reference passes through
+        const collector = this.collector;
+        this.collector = newCollector();
+        scope.ctes.set(name, EMPTY_COLUMNS);
+        scope.ctes.set(name, this.applyColumnAliases(this.analyzeCte(cte, scope), cte.columns));
+        this.collector = collector;
+      }
+      scope.ctes.set(name, this.applyColumnAliases(this.analyzeCte(cte, scope), cte.columns));
+    }
+
+    return scope;
+  }
+
+  private analyzeCte(cte: CommonTableExpression, scope: Scope): SourceColumns {
+    return cte.statement.type === 'query'
+      ? this.analyzeQuery(cte.statement, scope, 'derived')
+      : this.analyzeStatement(cte.statement, scope);
+  }
+
+  private analyzeQuery(query: Query, parent: Scope, context: QueryContext, expectedNames: Array<string | null> | null = null): SourceColumns {
+    const scope = this.withCtes(query.with, parent);
+    return this.analyzeBody(query.body, scope, context, expectedNames, query.orderBy, query.limit);
+  }
+
+  private analyzeBody(
+    body: QueryBody,
+    scope: Scope,
+    context: QueryContext,
+    expectedNames: Array<string | null> | null,
+    orderBy: OrderItem[] = [],
+    limit: Expression[] = []
+  ): SourceColumns {
+    switch (body.type) {
+      case 'query': {
+        const columns = this.analyzeQuery(body, scope, context, expectedNames);
+        this.analyzeClauses(scope, null, orderBy, limit);
+        this.analyzeResultReferences(orderBy.map((item) => item.expression), columns);
+        return columns;
+      }
+      case 'select':
+        return this.analyzeSelect(body, scope, context, expectedNames, orderBy, limit);
+      case 'values':
+        body.rows.forEach((row) => row.forEach((expression) => this.analyzeExpression(expression, scope)));
+        this.analyzeClauses(scope, null, orderBy, limit);
+        return EMPTY_COLUMNS;
+      case 'table': {
+        // TABLE t is SELECT * FROM t
+        const source = this.tableSource(body.table, null, [], scope, 'select', body.span, { start: body.start, end: body.span.end });
+        const columns = this.expandSource(source, this.selectUsage(context, expectedNames));
+        this.analyzeClauses(scope, null, orderBy, limit);
+        this.analyzeResultReferences(orderBy.map((item) => item.expression), columns);
+        return columns;
+      }
+      case 'set-operation': {
+        // INTERSECT and EXCEPT compare their branches' rows, so those values are used, not just returned
+        const branchContext = body.operator === 'UNION' || context === 'exists' ? context : 'expression';
+        // Result columns take their names from the first branch
+        const left = this.analyzeBody(body.left, scope, branchContext, expectedNames);
+        const right = this.analyzeBody(body.right, scope, branchContext, expectedNames ?? left.list.map((column) => column.name));
+        this.analyzeClauses(scope, null, orderBy, limit);
+        const columns = {
+          list: left.list.map((column, index) => ({
+            name: column.name,
+            origins: [...column.origins, ...(right.list[index]?.origins ?? [])],
+          })),
+          open: [...left.open, ...right.open],
+        };
+        this.analyzeResultReferences(orderBy.map((item) => item.expression), columns);
+        return columns;
+      }
+    }
+  }
+
+  /** How selected columns are used: only a result or derived column keeps its values as they are */
+  private selectUsage(context: QueryContext, expectedNames: Array<string | null> | null, name?: string | null, index?: number): ColumnUsage {
+    if (context !== 'result' && context !== 'derived') return 'expression';
+    if (expectedNames === null) return 'projection';
+    // Later branches of a set operation must keep the first branch's column names
+    return index !== undefined && name != null && lower(expectedNames[index] ?? '') === lower(name) ? 'projection' : 'expression';
+  }
+
+  private analyzeSelect(
+    select: SelectQuery,
+    parent: Scope,
+    context: QueryContext,
+    expectedNames: Array<string | null> | null,
+    orderBy: OrderItem[],
+    limit: Expression[]
+  ): SourceColumns {
+    const scope = newScope(parent);
+    select.from.forEach((item) => this.addFromItem(item, scope, 'select'));
+
+    // SELECT INTO creates a table, or in MySQL writes variables or a file
+    if (select.into) {
+      if (select.into.table) {
+        this.recordTable(select.into.table, 'ddl');
+        this.recordReference(select.into.table);
+      } else {
+        this.recordOperation('ddl');
+      }
+    }
+
+    const columns = this.analyzeSelectList(select.columns, scope, context, expectedNames);
+
+    select.distinctOn.forEach((expression) => this.analyzeExpression(expression, scope));
+    if (select.where) this.analyzeExpression(select.where, scope);
+    select.groupBy.forEach((expression) => this.analyzeExpression(expression, scope));
+    if (select.having) this.analyzeExpression(select.having, scope);
+    select.windows.forEach(({ spec }) => {
+      spec.partitionBy.forEach((expression) => this.analyzeExpression(expression, scope));
+      spec.orderBy.forEach((item) => this.analyzeExpression(item.expression, scope));
+    });
+    this.analyzeClauses(scope, null, orderBy, limit);
+    this.analyzeResultReferences([...select.groupBy, ...orderBy.map((item) => item.expression)], columns);
+
+    return columns;
+  }
+
+  /**
+   * ORDER BY and GROUP BY may name a result column by position or output
+   * name, and sorting or grouping by it compares its values. A position past
+   * the known columns may fall in any table passed through by *.
+   */
+  private analyzeResultReferences(expressions: Expression[], columns: SourceColumns) {
+    for (const expression of expressions) {
+      let origins: Origin[] = [];
+      if (expression.type === 'literal' && /^\d+$/.test(expression.value)) {
+        const column = columns.open.length === 0 ? columns.list[Number(expression.value) - 1] : undefined;
+        origins = column ? column.origins : [...columns.list.flatMap((item) => item.origins), ...columns.open];
+      } else if (expression.type === 'column' && expression.qualifier.length === 0) {
+        origins = columns.list
+          .filter((column) => column.name !== null && lower(column.name) === lower(expression.name))
+          .flatMap((column) => column.origins);
+      }
+      origins.forEach((origin) => this.recordColumn(origin, 'expression'));
+    }
+  }
+
+  private analyzeSelectList(items: SelectItem[], scope: Scope, context: QueryContext, expectedNames: Array<string | null> | null): SourceColumns {
+    const columns: SourceColumns = { list: [], open: [] };
+
+    items.forEach((item, index) => {
+      const { expression } = item;
+      const name = outputName(item);
+
+      if (expression.type === 'star') {
+        if (context === 'exists') return;
+        const expanded = this.expandStar(expression.qualifier, scope, this.selectUsage(context, expectedNames));
+        columns.list.push(...expanded.list);
+        columns.open.push(...expanded.open);
+        return;
+      }
+
+      const plain = expression.type === 'column' && (!item.alias || lower(item.alias) === lower(expression.name));
+      if (plain) {
+        const usage = this.selectUsage(context, expectedNames, name, index);
+        const origins = this.resolveColumn(expression, scope, usage);
+        columns.list.push({ name, origins: usage === 'projection' ? origins : [] });
+        return;
+      }
+
+      this.analyzeExpression(expression, scope);
+      columns.list.push({ name, origins: [] });
+    });
+
+    return columns;
+  }
+
+  // FROM clause
+
+  private addFromItem(item: FromItem, scope: Scope, operation: SqlOperation) {
+    switch (item.type) {
+      case 'table':
+        scope.sources.push(
+          this.tableSource(item.table, item.alias, item.columnAliases, scope, operation, item.span, null, item.modifiers)
+        );
+        item.sample.forEach((expression) => this.analyzeExpression(expression, scope));
+        break;
+      case 'derived': {
+        const columns = this.analyzeQuery(item.query, scope, 'derived');
+        scope.sources.push({
+          name: lower(item.alias ?? ''),
+          table: null,
+          columns: this.applyColumnAliases(columns, item.columnAliases),
+          renamed: false,
+        });
+        break;
+      }
+      case 'function':
+        this.analyzeExpression(item.call, scope);
+        scope.sources.push({
+          name: lower(item.alias ?? item.call.name[item.call.name.length - 1]),
+          table: null,
+          columns: { list: item.columnAliases.map((name) => ({ name, origins: [] })), open: [] },
+          renamed: false,
+        });
+        break;
+      case 'join': {
+        const first = scope.sources.length;
+        this.addFromItem(item.left, scope, operation);
+        this.addFromItem(item.right, scope, operation);
+        // NATURAL JOIN compares every column the two sides have in common, which could be any of them
+        if (item.natural) scope.sources.slice(first).forEach((source) => this.expandSource(source, 'expression'));
+        if (item.on) this.analyzeExpression(item.on, scope);
+        item.using.forEach((name) => this.resolveColumn({ type: 'column', qualifier: [], name }, scope, 'expression'));
+        break;
+      }
+    }
+  }
+
+  /** A named table in FROM, which is a CTE when one of that name is visible */
+  private tableSource(
+    table: TableName,
+    alias: string | null,
+    columnAliases: string[],
+    scope: Scope,
+    operation: SqlOperation,
+    span: SourceSpan,
+    query: SourceSpan | null = null,
+    modifiers: string[] = []
+  ): Source {
+    const cte = table.schema === null ? this.findCte(scope, table.name) : null;
+    if (cte) {
+      return { name: lower(alias ?? table.name), table: null, columns: this.applyColumnAliases(cte, columnAliases), renamed: false };
+    }
+
+    this.recordTable(table, operation);
+    const reference = this.recordReference(table, { span, query, aliased: alias !== null, modifiers });
+    return { name: lower(alias ?? table.name), table, columns: null, renamed: columnAliases.length > 0, reference };
+  }
+
+  private findCte(scope: Scope | null, name: string): SourceColumns | null {
+    for (let current = scope; current; current = current.parent) {
+      const cte = current.ctes.get(lower(name));
+      if (cte) return cte;
+    }
+    return null;
+  }
+
+  /** Renaming a column through an alias list hides where its values came from */
+  private applyColumnAliases(columns: SourceColumns, aliases: string[]): SourceColumns {
+    if (aliases.length === 0) return columns;
+
+    columns.open.forEach((origin) => this.recordColumn(origin, 'expression'));
+    const list = columns.list.map((column, index) => {
+      const alias = aliases[index];
+      if (alias === undefined || lower(alias) === lower(column.name ?? '')) return column;
+      column.origins.forEach((origin) => this.recordColumn(origin, 'expression'));
+      return { name: alias, origins: [] };
+    });
+    return { list, open: [] };
+  }
+
+  // Name resolution
+
+  private findSource(scope: Scope | null, qualifier: string[]): Source | null {
+    const name = lower(qualifier[qualifier.length - 1]);
+    const schema = qualifier.length > 1 ? lower(qualifier[qualifier.length - 2]) : null;
+
+    for (let current = scope; current; current = current.parent) {
+      const source = current.sources.find((candidate) => candidate.name === name
+        && (schema === null || (candidate.table?.schema != null && lower(candidate.table.schema) === schema)));
+      if (source) return source;
+    }
+    return null;
+  }
+
+  private lookupColumn(source: Source, name: string): Origin[] {
+    if (source.table) return [{ table: source.table, column: source.renamed ? null : name }];
+    if (!source.columns) return [];
+
+    const listed = source.columns.list.filter((column) => column.name !== null && lower(column.name) === lower(name));
+    if (listed.length > 0) return listed.flatMap((column) => column.origins);
+    return source.columns.open.map((origin) => ({ table: origin.table, column: name }));
+  }
+
+  /**
+   * Record a column reference against every base table it may belong to.
+   * Without the schema, an unqualified name may come from any table in
+   * scope, including those of enclosing queries.
+   */
+  private resolveColumn(column: ColumnExpression, scope: Scope, usage: ColumnUsage): Origin[] {
+    const origins: Origin[] = [];
+
+    if (column.qualifier.length > 0) {
+      const source = this.findSource(scope, column.qualifier);
+      if (source) {
+        origins.push(...this.lookupColumn(source, column.name));
+        if (source.renamed) usage = 'expression';
+      } else {
+        // Not a source of this query: assume it names a base table
+        origins.push({ table: { schema: column.qualifier[column.qualifier.length - 2] ?? null, name: column.qualifier[column.qualifier.length - 1] }, column: column.name });
+      }
+    } else {
+      for (let current: Scope | null = scope; current; current = current.parent) {
+        for (const source of current.sources) {
+          origins.push(...this.lookupColumn(source, column.name));
+          if (source.renamed) usage = 'expression';
+          // PostgreSQL reads a source's name as a column as its whole row
+          if (this.dialect === 'postgresql' && source.name === lower(column.name)) {
+            this.expandSource(source, 'expression');
+          }
+        }
+      }
+    }
+
+    origins.forEach((origin) => this.recordColumn(origin, usage));
+    return origins;
+  }
+
+  private expandSource(source: Source, usage: ColumnUsage): SourceColumns {
+    if (source.table) {
+      const origin = { table: source.table, column: null };
+      this.recordColumn(origin, source.renamed ? 'expression' : usage);
+      return { list: [], open: [origin] };
+    }
+    const columns = source.columns ?? EMPTY_COLUMNS;
+    columns.list.forEach((column) => column.origins.forEach((origin) => this.recordColumn(origin, usage)));
+    columns.open.forEach((origin) => this.recordColumn(origin, usage));
+    return columns;
+  }
+
+  /** *, t.* and schema.t.*; a bare * covers the sources of the current query only */
+  private expandStar(qualifier: string[], scope: Scope, usage: ColumnUsage): SourceColumns {
+    if (qualifier.length === 0) {
+      const expanded = scope.sources.map((source) => this.expandSource(source, usage));
+      return { list: expanded.flatMap((columns) => columns.list), open: expanded.flatMap((columns) => columns.open) };
+    }
+
+    const source = this.findSource(scope, qualifier);
+    if (source) return this.expandSource(source, usage);
+
+    const origin = { table: { schema: qualifier[qualifier.length - 2] ?? null, name: qualifier[qualifier.length - 1] }, column: null };
+    this.recordColumn(origin, usage);
+    return { list: [], open: [origin] };
+  }
+
+  // Expressions
+
+  private analyzeExpression(expression: Expression, scope: Scope) {
+    switch (expression.type) {
+      case 'column':
+        this.resolveColumn(expression, scope, 'expression');
+        break;
+      case 'star':
+        // count(*) reads no column; row_to_json(t.*) reads them all
+        if (expression.qualifier.length > 0) this.expandStar(expression.qualifier, scope, 'expression');
+        break;
+      case 'function': {
+        const name = lower(expression.name[expression.name.length - 1]);
+        if (WRITE_FUNCTIONS.has(name)) this.recordOperation('ddl');
+        if (OPAQUE_FUNCTIONS.has(name)) this.collector.opaque = true;
+        expression.args.forEach((arg) => this.analyzeExpression(arg, scope));
+        expression.orderBy.forEach((item) => this.analyzeExpression(item.expression, scope));
+        if (expression.filter) this.analyzeExpression(expression.filter, scope);
+        if (expression.over) {
+          expression.over.partitionBy.forEach((arg) => this.analyzeExpression(arg, scope));
+          expression.over.orderBy.forEach((item) => this.analyzeExpression(item.expression, scope));
+          expression.over.frame.forEach((arg) => this.analyzeExpression(arg, scope));
+        }
+        break;
+      }
+      case 'cast':
+        this.analyzeExpression(expression.expression, scope);
+        break;
+      case 'subquery':
+        this.analyzeQuery(expression.query, scope, expression.exists ? 'exists' : 'expression');
+        break;
+      case 'case':
+        if (expression.operand) this.analyzeExpression(expression.operand, scope);
+        expression.branches.forEach(({ when, then }) => {
+          this.analyzeExpression(when, scope);
+          this.analyzeExpression(then, scope);
+        });
+        if (expression.otherwise) this.analyzeExpression(expression.otherwise, scope);
+        break;
+      case 'operation':
+        expression.operands.forEach((operand) => this.analyzeExpression(operand, scope));
+        break;
+      case 'list':
+        expression.items.forEach((item) => this.analyzeExpression(item, scope));
+        break;
+      case 'literal':
+      case 'parameter':
+        break;
+    }
+  }
+}
+
+export function analyzeStatement(statement: Statement, dialect: DatabaseType): StatementAccess {
+  return new AccessAnalyzer(dialect).analyze(statement);
+}
+
+/**
+ * The ways the server may read the SQL. In MySQL, whether backslashes in
+ * strings are escapes depends on the SQL mode, and whether conditional
+ * comments run depends on the server version.
+ */
+export function sqlReadings(sql: string, dialect: DatabaseType): TokenizeOptions[] {
+  if (dialect !== 'mysql' && dialect !== 'mariadb') return [{}];
+  const backslashes = sql.includes('\\') ? [true, false] : [true];
+  const comments = /\/\*(!\d|M!)/.test(sql) ? [true, false] : [true];
+  return backslashes.flatMap((backslashEscapes) =>
+    comments.map((conditionalComments) => ({ backslashEscapes, conditionalComments }))
+  );
+}
+
+/**
+ * Parse SQL and analyze each statement. SQL the server may read in more
+ * than one way (see sqlReadings) is analyzed under every reading and the
+ * accesses of all returned. Throws SqlSyntaxError when any reading fails to
+ * parse: the server may run the reading we can't see into.
+ */
+export function analyzeSql(sql: string, dialect: DatabaseType): StatementAccess[] {
+  return sqlReadings(sql, dialect).flatMap((options) =>
+    parseSql(sql, dialect, options).map((statement) => analyzeStatement(statement, dialect))
+  );
+}
+
+/**
+ * Whether SQL only reads: no statement writes or runs SQL the analyzer can't
+ * see into. SQL that doesn't parse isn't known to be read-only.
+ */
+export function isReadOnlySql(sql: string, dialect: DatabaseType): boolean {
+  try {
+    return !analyzeSql(sql, dialect).some((access) => access.write || access.opaque);
+  } catch (error) {
+    if (!(error instanceof SqlSyntaxError)) throw error;
+    return false;
+  }
+}
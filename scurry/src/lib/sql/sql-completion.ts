@@ -0,0 +1,395 @@
+/**
+ * SQL Completion
+ *
+ * Builds schema-aware completion suggestions for the SQL editor from the
+ * EnrichedSchema shared with the AI chat. The analysis is editor-agnostic:
+ * it works on the statement text around the cursor and returns plain
+ * suggestion objects which the editor maps onto Monaco completion items.
+ */
+
+import type { EnrichedSchema } from '@/lib/db/app-db';
+import type { DatabaseType } from '@/types';
+
+export type CompletionKind = 'keyword' | 'table' | 'view' | 'column' | 'function' | 'join';
+
+export interface CompletionSuggestion {
+  label: string;
+  kind: CompletionKind;
+  insertText: string;
+  detail?: string;
+  /** insertText contains snippet placeholders such as $0 */
+  isSnippet?: boolean;
+  sortText: string;
+}
+
+export interface TableReference {
+  table: string;
+  alias: string | null;
+}
+
+type EnrichedTable = EnrichedSchema['tables'][number];
+
+export const SQL_KEYWORDS = [
+  'SELECT', 'FROM', 'WHERE', 'JOIN', 'LEFT', 'RIGHT', 'INNER', 'OUTER',
+  'ON', 'AND', 'OR', 'NOT', 'IN', 'LIKE', 'BETWEEN', 'IS', 'NULL',
+  'ORDER', 'BY', 'ASC', 'DESC', 'GROUP', 'HAVING', 'LIMIT', 'OFFSET',
+  'INSERT', 'INTO', 'VALUES', 'UPDATE', 'SET', 'DELETE', 'CREATE',
+  'TABLE', 'ALTER', 'DROP', 'INDEX', 'VIEW', 'AS', 'DISTINCT',
+  'CASE', 'WHEN', 'THEN', 'ELSE', 'END', 'UNION', 'ALL', 'EXISTS', 'WITH',
+];
+
+const COMMON_FUNCTIONS = [
+  'COUNT', 'SUM', 'AVG', 'MIN', 'MAX', 'COALESCE', 'NULLIF', 'ABS', 'ROUND',
+  'UPPER', 'LOWER', 'LENGTH', 'TRIM', 'REPLACE', 'SUBSTR', 'CAST',
+];
+
+const DIALECT_FUNCTIONS: Record<DatabaseType, string[]> = {
+  mysql: [
+    'NOW', 'CURDATE', 'CURTIME', 'DATE_FORMAT', 'DATE_ADD', 'DATE_SUB', 'DATEDIFF',
+    'CONCAT', 'CONCAT_WS', 'GROUP_CONCAT', 'IFNULL', 'IF', 'JSON_EXTRACT',
+    'JSON_OBJECT', 'JSON_ARRAY', 'UNIX_TIMESTAMP', 'FROM_UNIXTIME', 'LAST_INSERT_ID',
+  ],
+  mariadb: [
+    'NOW', 'CURDATE', 'CURTIME', 'DATE_FORMAT', 'DATE_ADD', 'DATE_SUB', 'DATEDIFF',
+    'CONCAT', 'CONCAT_WS', 'GROUP_CONCAT', 'IFNULL', 'IF', 'JSON_EXTRACT',
+    'JSON_OBJECT', 'JSON_ARRAY', 'UNIX_TIMESTAMP', 'FROM_UNIXTIME', 'LAST_INSERT_ID',
+  ],
+  postgresql: [
+    'NOW', 'CURRENT_DATE', 'DATE_TRUNC', 'EXTRACT', 'AGE', 'TO_CHAR', 'TO_DATE',
+    'TO_TIMESTAMP', 'STRING_AGG', 'ARRAY_AGG', 'JSONB_BUILD_OBJECT', 'JSON_AGG',
+    'JSONB_AGG', 'GENERATE_SERIES', 'ROW_NUMBER', 'RANK', 'LAG', 'LEAD', 'GREATEST', 'LEAST',
+  ],
+  sqlite: [
+    'DATE', 'TIME', 'DATETIME', 'JULIANDAY', 'STRFTIME', 'IFNULL', 'IIF', 'INSTR',
+    'GROUP_CONCAT', 'JSON_EXTRACT', 'JSON_OBJECT', 'JSON_ARRAY', 'TYPEOF',
+    'RANDOM', 'LAST_INSERT_ROWID', 'TOTAL', 'PRINTF',
+  ],
+};
+
+// Words that can follow a table name but are never its alias
+const NON_ALIAS_WORDS = new Set([
+  'WHERE', 'ON', 'USING', 'JOIN', 'LEFT', 'RIGHT', 'INNER', 'OUTER', 'FULL',
+  'CROSS', 'NATURAL', 'GROUP', 'ORDER', 'LIMIT', 'HAVING', 'UNION', 'SET',
+  'VALUES', 'WINDOW', 'OFFSET', 'RETURNING', 'SELECT', 'AS', 'FROM', 'INTO',
+  'UPDATE',
+]);
+
+const IDENTIFIER = '(?:`[^`]+`|"[^"]+"|\\[[^\\]]+\\]|[A-Za-z_][\\w$]*)';
+const QUALIFIED_IDENTIFIER = `${IDENTIFIER}(?:\\s*\\.\\s*${IDENTIFIER})?`;
+
+// Keywords that decide what kind of identifier is expected next
+const CONTEXT_KEYWORDS = /\b(SELECT|FROM|JOIN|INTO|UPDATE|TABLE|ON|WHERE|AND|OR|BY|SET|HAVING|VALUES)\b/gi;
+
+// Sort buckets so context-specific items rank above generic ones
+const SORT_ORDER: Record<CompletionKind, string> = {
+  join: '0',
+  column: '1',
+  table: '2',
+  view: '2',
+  function: '3',
+  keyword: '4',
+};
+
+function unquoteIdentifier(identifier: string): string {
+  const trimmed = identifier.trim();
+  if (/^[`"[]/.test(trimmed)) {
+    return trimmed.slice(1, -1);
+  }
+  return trimmed;
+}
+
+function stripSchemaPrefix(name: string): string {
+  const parts = name.split('.').map(unquoteIdentifier);
+  return parts[parts.length - 1];
+}
+
+/**
+ * Quote an identifier for insertion only when the dialect requires it
+ */
+export function formatIdentifier(name: string, dialect: DatabaseType): string {
+  const isPlain = dialect === 'postgresql'
+    ? /^[a-z_][a-z0-9_$]*$/.test(name)
+    : /^[A-Za-z_][\w$]*$/.test(name);
+  if (isPlain && !SQL_KEYWORDS.includes(name.toUpperCase())) {
+    return name;
+  }
+  return dialect === 'mysql' || dialect === 'mariadb' ? `\`${name}\`` : `"${name}"`;
+}
+
+/**
+ * Return the statement surrounding the cursor offset, split on semicolons
+ * outside of string literals
+ */
+export function getStatementAtOffset(sql: string, offset: number): { text: string; start: number } {
+  let start = 0;
+  let quote: string | null = null;
+
+  for (let i = 0; i < sql.length; i++) {
+    const ch = sql[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+      continue;
+    }
+    if (ch === '\'' || ch === '"' || ch === '`') {
+      quote = ch;
+    } else if (ch === ';') {
+      if (i >= offset) {
+        return { text: sql.slice(start, i), start };
+      }
+      start = i + 1;
+    }
+  }
+
+  return { text: sql.slice(start), start };
+}
+
+/**
+ * Extract the tables referenced in FROM, JOIN, UPDATE and INTO clauses
+ * together with their aliases
+ */
+export function parseTableReferences(statement: string): TableReference[] {
+  const refs: TableReference[] = [];
+  const pattern = new RegExp(
+    `(\\bFROM\\b|\\bJOIN\\b|\\bUPDATE\\b|\\bINTO\\b|,)\\s*(${QUALIFIED_IDENTIFIER})(?:\\s+(?:AS\\s+)?(${IDENTIFIER}))?`,
+    'gi'
+  );
+
+  // Comma-separated tables are only meaningful inside a FROM clause
+  const fromClauses: Array<[number, number]> = [];
+  const fromPattern = /\bFROM\b([\s\S]*?)(?=\bWHERE\b|\bGROUP\b|\bORDER\b|\bLIMIT\b|\bHAVING\b|\bUNION\b|\bJOIN\b|\)|$)/gi;
+  let fromMatch: RegExpExecArray | null;
+  while ((fromMatch = fromPattern.exec(statement)) !== null) {
+    fromClauses.push([fromMatch.index, fromMatch.index + fromMatch[0].length]);
+    if (fromMatch[0].length === 0) fromPattern.lastIndex++;
+  }
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(statement)) !== null) {
+    const [, keyword, rawTable, rawAlias] = match;
+
+    if (keyword === ',') {
+      const inFrom = fromClauses.some(([start, end]) => match!.index > start && match!.index < end);
+      if (!inFrom) {
+        // Rescan from just after the comma so a following FROM is not swallowed
+        pattern.lastIndex = match.index + 1;
+        continue;
+      }
+    }
+
+    // Skip subqueries and keywords mistaken for table names
+    if (NON_ALIAS_WORDS.has(rawTable.toUpperCase())) {
+      pattern.lastIndex = match.index + keyword.length;
+      continue;
+    }
+
+    let alias: string | null = null;
+    if (rawAlias && NON_ALIAS_WORDS.has(rawAlias.toUpperCase())) {
+      // The "alias" is the next clause keyword, which may start another reference
+      pattern.lastIndex = match.index + match[0].length - rawAlias.length;
+    } else if (rawAlias) {
+      alias = unquoteIdentifier(rawAlias);
+    }
+
+    refs.push({ table: stripSchemaPrefix(rawTable), alias });
+  }
+
+  return refs;
+}
+
+function findTable(schema: EnrichedSchema, name: string): EnrichedTable | undefined {
+  const lower = name.toLowerCase();
+  return schema.tables.find(t => t.name.toLowerCase() === lower);
+}
+
+function resolveQualifier(
+  qualifier: string,
+  refs: TableReference[],
+  schema: EnrichedSchema
+): EnrichedTable | undefined {
+  const lower = qualifier.toLowerCase();
+  const ref = refs.find(r => r.alias?.toLowerCase() === lower)
+    || refs.find(r => r.table.toLowerCase() === lower);
+  return findTable(schema, ref ? ref.table : qualifier);
+}
+
+function refName(ref: TableReference): string {
+  return ref.alias || ref.table;
+}
+
+function columnSuggestions(table: EnrichedTable, qualifier?: string): CompletionSuggestion[] {
+  return table.columns.map(col => ({
+    label: col.name,
+    kind: 'column' as const,
+    insertText: col.name,
+    detail: `${qualifier ? `${qualifier}.` : ''}${table.name} · ${col.type}${col.isPrimaryKey ? ' · PK' : ''}`,
+    sortText: `${SORT_ORDER.column}${col.isPrimaryKey ? '0' : '1'}${col.name}`,
+  }));
+}
+
+function tableSuggestions(schema: EnrichedSchema, dialect: DatabaseType): CompletionSuggestion[] {
+  return schema.tables.map(table => ({
+    label: table.name,
+    kind: table.type === 'view' ? 'view' as const : 'table' as const,
+    insertText: formatIdentifier(table.name, dialect),
+    detail: table.type === 'view'
+      ? 'View'
+      : `Table${table.rowCount !== undefined ? ` · ~${table.rowCount} rows` : ''}`,
+    sortText: `${SORT_ORDER.table}${table.name}`,
+  }));
+}
+
+function functionSuggestions(dialect: DatabaseType): CompletionSuggestion[] {
+  const names = Array.from(new Set([...COMMON_FUNCTIONS, ...(DIALECT_FUNCTIONS[dialect] || [])]));
+  return names.map(name => ({
+    label: name,
+    kind: 'function' as const,
+    insertText: `${name}($0)`,
+    isSnippet: true,
+    detail: `${dialect} function`,
+    sortText: `${SORT_ORDER.function}${name}`,
+  }));
+}
+
+function keywordSuggestions(): CompletionSuggestion[] {
+  return SQL_KEYWORDS.map(keyword => ({
+    label: keyword,
+    kind: 'keyword' as const,
+    insertText: keyword,
+    sortText: `${SORT_ORDER.keyword}${keyword}`,
+  }));
+}
+
+/**
+ * Build join conditions between the given table reference and every other
+ * referenced table, using the foreign key relationships of the schema
+ */
+function joinConditions(
+  target: TableReference,
+  others: TableReference[],
+  schema: EnrichedSchema
+): string[] {
+  const conditions: string[] = [];
+  const targetTable = target.table.toLowerCase();
+
+  for (const other of others) {
+    const otherTable = other.table.toLowerCase();
+    for (const rel of schema.relationships) {
+      const from = rel.fromTable.toLowerCase();
+      const to = rel.toTable.toLowerCase();
+      if (from === targetTable && to === otherTable) {
+        conditions.push(`${refName(target)}.${rel.fromColumn} = ${refName(other)}.${rel.toColumn}`);
+      } else if (from === otherTable && to === targetTable) {
+        conditions.push(`${refName(target)}.${rel.toColumn} = ${refName(other)}.${rel.fromColumn}`);
+      }
+    }
+  }
+
+  return Array.from(new Set(conditions));
+}
+
+/**
+ * Suggest "table ON condition" completions after JOIN for tables that have
+ * a foreign key relationship with a table already in the query
+ */
+function joinTableSuggestions(
+  refs: TableReference[],
+  schema: EnrichedSchema,
+  dialect: DatabaseType
+): CompletionSuggestion[] {
+  const suggestions: CompletionSuggestion[] = [];
+
+  for (const table of schema.tables) {
+    const candidate: TableReference = { table: table.name, alias: null };
+    if (refs.some(r => refName(r).toLowerCase() === table.name.toLowerCase())) {
+      // A bare name would be ambiguous with the existing reference
+      continue;
+    }
+    for (const condition of joinConditions(candidate, refs, schema)) {
+      const tableText = formatIdentifier(table.name, dialect);
+      suggestions.push({
+        label: `${table.name} ON ${condition}`,
+        kind: 'join',
+        insertText: `${tableText} ON ${condition}`,
+        detail: 'Join via foreign key',
+        sortText: `${SORT_ORDER.join}${table.name}`,
+      });
+    }
+  }
+
+  return suggestions;
+}
+
+/**
+ * Compute completion suggestions for the cursor position
+ *
+ * @param sql - Full editor text
+ * @param offset - Cursor offset within sql
+ * @param schema - Cached schema for the active connection, if loaded
+ * @param dialect - Active connection type
+ */
+export function getCompletionSuggestions(
+  sql: string,
+  offset: number,
+  schema: EnrichedSchema | null,
+  dialect: DatabaseType
+): CompletionSuggestion[] {
+  const statement = getStatementAtOffset(sql, offset);
+  const before = statement.text.slice(0, offset - statement.start);
+
+  if (!schema) {
+    return [...keywordSuggestions(), ...functionSuggestions(dialect)];
+  }
+
+  const refs = parseTableReferences(statement.text);
+
+  // "alias." or "table." - only that table's columns make sense
+  const qualifierMatch = before.match(new RegExp(`(${IDENTIFIER})\\s*\\.\\s*[\\w$]*$`));
+  if (qualifierMatch) {
+    const qualifier = unquoteIdentifier(qualifierMatch[1]);
+    const table = resolveQualifier(qualifier, refs, schema);
+    return table ? columnSuggestions(table, qualifier) : [];
+  }
+
+  const keywordMatches = Array.from(before.matchAll(CONTEXT_KEYWORDS));
+  const lastKeyword = keywordMatches.length > 0
+    ? keywordMatches[keywordMatches.length - 1][1].toUpperCase()
+    : null;
+
+  if (lastKeyword === 'FROM' || lastKeyword === 'INTO' || lastKeyword === 'UPDATE' || lastKeyword === 'TABLE') {
+    return tableSuggestions(schema, dialect);
+  }
+
+  if (lastKeyword === 'JOIN') {
+    const previousRefs = parseTableReferences(before.replace(/\bJOIN\s*[\w$]*$/i, ''));
+    return [...joinTableSuggestions(previousRefs, schema, dialect), ...tableSuggestions(schema, dialect)];
+  }
+
+  const referencedColumns = refs.flatMap(ref => {
+    const table = findTable(schema, ref.table);
+    return table ? columnSuggestions(table, refs.length > 1 ? refName(ref) : undefined) : [];
+  });
+
+  if (lastKeyword === 'ON') {
+    // The table joined most recently is the one the ON clause belongs to
+    const beforeRefs = parseTableReferences(before);
+    const target = beforeRefs[beforeRefs.length - 1];
+    const conditions = target
+      ? joinConditions(target, beforeRefs.slice(0, -1), schema)
+      : [];
+    const joinSuggestions: CompletionSuggestion[] = conditions.map(condition => ({
+      label: condition,
+      kind: 'join',
+      insertText: condition,
+      detail: 'Join via foreign key',
+      sortText: `${SORT_ORDER.join}${condition}`,
+    }));
+    return [...joinSuggestions, ...referencedColumns];
+  }
+
+  return [
+    ...referencedColumns,
+    ...(refs.length === 0 ? tableSuggestions(schema, dialect) : []),
+    ...functionSuggestions(dialect),
+    ...keywordSuggestions(),
+  ];
+}
@@ -0,0 +1,80 @@
+/**
+ * SQL Formatter
+ *
+ * Wraps sql-formatter so the dialect follows the active connection type and
+ * the layout follows the user's editor settings.
+ */
+
+import { format, type SqlLanguage } from 'sql-formatter';
+import type { DatabaseType } from '@/types';
+import type { KeywordCase, CommaPosition } from '@/lib/validations/editor';
+
+export interface SqlFormatOptions {
+  keywordCase: KeywordCase;
+  tabWidth: number;
+  useTabs: boolean;
+  commaPosition: CommaPosition;
+}
+
+export const DEFAULT_FORMAT_OPTIONS: SqlFormatOptions = {
+  keywordCase: 'upper',
+  tabWidth: 2,
+  useTabs: false,
+  commaPosition: 'trailing',
+};
+
+const FORMATTER_LANGUAGES: Record<DatabaseType, SqlLanguage> = {
+  mysql: 'mysql',
+  mariadb: 'mariadb',
+  postgresql: 'postgresql',
+  sqlite: 'sqlite',
+};
+
+/**
+ * Map a connection type to the sql-formatter dialect, falling back to
+ * standard SQL when no connection is selected
+ */
+export function getFormatterLanguage(type?: DatabaseType | null): SqlLanguage {
+  return type ? FORMATTER_LANGUAGES[type] : 'sql';
+}
+
+/**
+ * Move trailing commas to the start of the following line.
+ * sql-formatter only emits trailing commas, so leading style is applied
+ * as a post-processing step on list items that already sit on their own line.
+ */
+function applyLeadingCommas(sql: string): string {
+  const lines = sql.split('\n');
+  let carry = false;
+
+  return lines
+    .map((line) => {
+      let result = line;
+      if (carry) {
+        const indent = line.match(/^\s*/)?.[0] ?? '';
+        result = `${indent}, ${line.slice(indent.length)}`;
+        carry = false;
+      }
+      if (result.endsWith(',') && !/--/.test(result)) {
+        result = result.slice(0, -1);
+        carry = true;
+      }
+      return result;
+    })
+    .join('\n');
+}
+
+export function formatSql(
+  sql: string,
+  type?: DatabaseType | null,
+  options: SqlFormatOptions = DEFAULT_FORMAT_OPTIONS
+): string {
+  const formatted = format(sql, {
+    language: getFormatterLanguage(type),
+    keywordCase: options.keywordCase,
+    tabWidth: options.tabWidth,
+    useTabs: options.useTabs,
+  });
+
+  return options.commaPosition === 'leading' ? applyLeadingCommas(formatted) : formatted;
+}
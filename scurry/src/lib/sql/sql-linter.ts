@@ -0,0 +1,185 @@
+/**
+ * SQL Linter
+ *
+ * Flags common problems in editor SQL before it is sent to the server.
+ * Issues carry character offsets so the editor can render them as markers.
+ */
+
+import { parseTableReferences } from './sql-completion';
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+export type LintRule = 'select-star-restricted' | 'missing-where' | 'implicit-cross-join';
+
+export interface LintIssue {
+  rule: LintRule;
+  severity: LintSeverity;
+  message: string;
+  startOffset: number;
+  endOffset: number;
+}
+
+export interface LintOptions {
+  /** Tables with hidden columns for the current user; SELECT * is rejected on these */
+  restrictedTables?: string[];
+}
+
+/**
+ * Replace comments and string literal contents with spaces so pattern
+ * matching ignores them while offsets stay aligned with the original text
+ */
+function maskSql(sql: string): string {
+  const chars = sql.split('');
+  let i = 0;
+
+  while (i < chars.length) {
+    const ch = chars[i];
+    const next = chars[i + 1];
+
+    if (ch === '-' && next === '-') {
+      while (i < chars.length && chars[i] !== '\n') chars[i++] = ' ';
+    } else if (ch === '/' && next === '*') {
+      while (i < chars.length && !(chars[i] === '*' && chars[i + 1] === '/')) {
+        if (chars[i] !== '\n') chars[i] = ' ';
+        i++;
+      }
+      if (i < chars.length) {
+        chars[i++] = ' ';
+        chars[i++] = ' ';
+      }
+    } else if (ch === '\'') {
+      i++;
+      while (i < chars.length && chars[i] !== '\'') {
+        if (chars[i] !== '\n') chars[i] = ' ';
+        i++;
+      }
+      i++;
+    } else {
+      i++;
+    }
+  }
+
+  return chars.join('');
+}
+
+function splitStatements(masked: string): Array<{ text: string; start: number }> {
+  const statements: Array<{ text: string; start: number }> = [];
+  let start = 0;
+
+  for (let i = 0; i <= masked.length; i++) {
+    if (i === masked.length || masked[i] === ';') {
+      const text = masked.slice(start, i);
+      if (text.trim()) statements.push({ text, start });
+      start = i + 1;
+    }
+  }
+
+  return statements;
+}
+
+function lintMissingWhere(text: string, start: number): LintIssue[] {
+  const match = text.match(/^\s*(UPDATE\s+[\w.`"[\]]+|DELETE\s+FROM\s+[\w.`"[\]]+)/i);
+  if (!match || /\bWHERE\b/i.test(text)) return [];
+
+  const keywordStart = start + text.indexOf(match[1]);
+  const isDelete = /^DELETE/i.test(match[1]);
+
+  return [{
+    rule: 'missing-where',
+    severity: 'warning',
+    message: isDelete
+      ? 'DELETE without WHERE removes every row in the table'
+      : 'UPDATE without WHERE modifies every row in the table',
+    startOffset: keywordStart,
+    endOffset: keywordStart + match[1].length,
+  }];
+}
+
+function lintSelectStar(text: string, start: number, restrictedTables: string[]): LintIssue[] {
+  if (restrictedTables.length === 0 || !/^\s*(WITH|SELECT)\b/i.test(text)) return [];
+
+  const restricted = new Set(restrictedTables.map(t => t.toLowerCase()));
+  const refs = parseTableReferences(text);
+  const issues: LintIssue[] = [];
+
+  for (const match of text.matchAll(/(?:\b([A-Za-z_][\w$]*)\s*\.\s*)?\*/g)) {
+    const preceding = text.slice(0, match.index).trimEnd();
+    // Only a projection star, not multiplication or COUNT(*)
+    if (!/(\bSELECT|\bDISTINCT|,)$/i.test(preceding)) continue;
+
+    const qualifier = match[1]?.toLowerCase();
+    const targets = qualifier
+      ? refs.filter(r => r.alias?.toLowerCase() === qualifier || r.table.toLowerCase() === qualifier)
+      : refs;
+    const blocked = targets.find(r => restricted.has(r.table.toLowerCase()));
+    if (!blocked) continue;
+
+    issues.push({
+      rule: 'select-star-restricted',
+      severity: 'error',
+      message: `Cannot use SELECT * on table ${blocked.table} because some columns are restricted. Please specify columns explicitly.`,
+      startOffset: start + match.index,
+      endOffset: start + match.index + match[0].length,
+    });
+  }
+
+  return issues;
+}
+
+function lintImplicitCrossJoin(text: string, start: number): LintIssue[] {
+  const issues: LintIssue[] = [];
+
+  // Comma-separated tables in FROM
+  const fromPattern = /\bFROM\b([\s\S]*?)(?=\bWHERE\b|\bGROUP\b|\bORDER\b|\bLIMIT\b|\bHAVING\b|\bUNION\b|\bJOIN\b|\bLEFT\b|\bRIGHT\b|\bINNER\b|\bCROSS\b|\)|$)/gi;
+  for (const match of text.matchAll(fromPattern)) {
+    const clause = match[1];
+    if (clause.includes('(')) continue;
+    const commaIndex = clause.indexOf(',');
+    if (commaIndex === -1) continue;
+
+    const offset = start + match.index + match[0].length - clause.length + commaIndex;
+    issues.push({
+      rule: 'implicit-cross-join',
+      severity: 'warning',
+      message: 'Comma-separated tables form an implicit cross join; use JOIN ... ON to state the join condition',
+      startOffset: offset,
+      endOffset: offset + 1,
+    });
+  }
+
+  // JOIN without ON/USING (CROSS and NATURAL joins are explicit about it)
+  const joinPattern = /\b(?:(CROSS|NATURAL)\s+)?JOIN\s+[\w.`"[\]]+(?:\s+(?:AS\s+)?(?!(?:ON|USING|WHERE|GROUP|ORDER|LIMIT|HAVING|UNION|JOIN|LEFT|RIGHT|INNER|FULL|CROSS|NATURAL)\b)[A-Za-z_][\w$]*)?(?=\s*(\S+|$))/gi;
+  for (const match of text.matchAll(joinPattern)) {
+    if (match[1]) continue;
+    const nextWord = (match[2] || '').toUpperCase();
+    if (nextWord === 'ON' || nextWord === 'USING') continue;
+
+    issues.push({
+      rule: 'implicit-cross-join',
+      severity: 'warning',
+      message: 'JOIN without ON or USING produces a cross join',
+      startOffset: start + match.index,
+      endOffset: start + match.index + match[0].length,
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Lint every statement in the editor text
+ */
+export function lintSql(sql: string, options: LintOptions = {}): LintIssue[] {
+  const masked = maskSql(sql);
+  const issues: LintIssue[] = [];
+
+  for (const { text, start } of splitStatements(masked)) {
+    issues.push(
+      ...lintMissingWhere(text, start),
+      ...lintSelectStar(text, start, options.restrictedTables || []),
+      ...lintImplicitCrossJoin(text, start)
+    );
+  }
+
+  return issues;
+}
@@ -0,0 +1,1804 @@
+/**
+ * SQL Parser
+ *
+ * Parses SQL into a statement AST for MySQL/MariaDB, PostgreSQL and SQLite.
+ * Queries, INSERT, UPDATE and DELETE are parsed in full, including CTEs,
+ * subqueries, joins and each dialect's extensions to them. DDL and utility
+ * statements are parsed only as far as the tables they read and write.
+ *
+ * The parser is built for checking what a statement touches rather than for
+ * rewriting it, so operator precedence is not modelled: a chain of operators
+ * is kept as a flat list of operands.
+ */
+
+import type { DatabaseType } from '@/types';
+import { SqlSyntaxError, tokenizeSql, type SqlToken, type TokenizeOptions } from '@/lib/sql/sql-tokenizer';
+
+export interface TableName {
+  schema: string | null;
+  name: string;
+}
+
+/** Offsets into the SQL text */
+export interface SourceSpan {
+  start: number;
+  end: number;
+}
+
+// Expressions
+
+export interface ColumnExpression {
+  type: 'column';
+  qualifier: string[]; // Table, schema.table or alias the column is qualified with
+  name: string;
+}
+
+export interface StarExpression {
+  type: 'star';
+  qualifier: string[];
+}
+
+export interface LiteralExpression {
+  type: 'literal';
+  value: string;
+}
+
+export interface ParameterExpression {
+  type: 'parameter';
+  name: string;
+}
+
+export interface FunctionExpression {
+  type: 'function';
+  name: string[];
+  args: Expression[];
+  orderBy: OrderItem[]; // Ordered aggregates: string_agg(x, ',' ORDER BY y)
+  filter: Expression | null;
+  over: WindowSpec | null;
+}
+
+export interface CastExpression {
+  type: 'cast';
+  expression: Expression;
+  dataType: string;
+}
+
+export interface SubqueryExpression {
+  type: 'subquery';
+  query: Query;
+  exists: boolean;
+}
+
+export interface CaseExpression {
+  type: 'case';
+  operand: Expression | null;
+  branches: Array<{ when: Expression; then: Expression }>;
+  otherwise: Expression | null;
+}
+
+export interface OperationExpression {
+  type: 'operation';
+  operators: string[];
+  operands: Expression[];
+}
+
+export interface ListExpression {
+  type: 'list';
+  items: Expression[];
+}
+
+export type Expression =
+  | ColumnExpression
+  | StarExpression
+  | LiteralExpression
+  | ParameterExpression
+  | FunctionExpression
+  | CastExpression
+  | SubqueryExpression
+  | CaseExpression
+  | OperationExpression
+  | ListExpression;
+
+export interface OrderItem {
+  expression: Expression;
+  descending: boolean;
+}
+
+export interface WindowSpec {
+  name: string | null; // Named window the spec extends
+  partitionBy: Expression[];
+  orderBy: OrderItem[];
+  frame: Expression[]; // Offsets of ROWS/RANGE frame bounds
+}
+
+// Queries
+
+export interface SelectItem {
+  expression: Expression;
+  alias: string | null;
+}
+
+export interface IntoClause {
+  table: TableName | null; // PostgreSQL SELECT INTO creates a table
+  file: boolean; // MySQL INTO OUTFILE / DUMPFILE writes a server file
+}
+
+export interface TableSource {
+  type: 'table';
+  table: TableName;
+  span: SourceSpan; // The table name as written
+  alias: string | null;
+  columnAliases: string[];
+  sample: Expression[]; // TABLESAMPLE arguments
+  modifiers: string[]; // What changes which rows are read or how: ONLY, PARTITION, index hints, ...
+}
+
+export interface DerivedSource {
+  type: 'derived';
+  query: Query;
+  alias: string | null;
+  columnAliases: string[];
+}
+
+export interface FunctionSource {
+  type: 'function';
+  call: FunctionExpression;
+  alias: string | null;
+  columnAliases: string[];
+}
+
+export interface JoinSource {
+  type: 'join';
+  left: FromItem;
+  right: FromItem;
+  on: Expression | null;
+  using: string[];
+  natural: boolean;
+}
+
+export type FromItem = TableSource | DerivedSource | FunctionSource | JoinSource;
+
+export interface SelectQuery {
+  type: 'select';
+  distinctOn: Expression[];
+  columns: SelectItem[];
+  into: IntoClause | null;
+  from: FromItem[];
+  where: Expression | null;
+  groupBy: Expression[];
+  having: Expression | null;
+  windows: Array<{ name: string; spec: WindowSpec }>;
+}
+
+export interface ValuesQuery {
+  type: 'values';
+  rows: Expression[][];
+}
+
+/** PostgreSQL TABLE t, and the table operand of SQLite's x IN t */
+export interface TableQuery {
+  type: 'table';
+  table: TableName;
+  span: SourceSpan; // The table name as written
+  start: number; // Start of the query, at TABLE when written
+}
+
+export interface SetOperation {
+  type: 'set-operation';
+  operator: string;
+  left: QueryBody;
+  right: QueryBody;
+}
+
+export type QueryBody = SelectQuery | ValuesQuery | TableQuery | SetOperation | Query;
+
+export interface CommonTableExpression {
+  name: string;
+  columns: string[];
+  statement: Query | InsertStatement | UpdateStatement | DeleteStatement;
+  recursive: boolean;
+}
+
+export interface Query {
+  type: 'query';
+  with: CommonTableExpression[];
+  body: QueryBody;
+  orderBy: OrderItem[];
+  limit: Expression[];
+}
+
+// Statements
+
+export interface Assignment {
+  columns: ColumnExpression[];
+  value: Expression;
+}
+
+export interface QueryStatement {
+  type: 'select';
+  query: Query;
+}
+
+export interface InsertStatement {
+  type: 'insert';
+  with: CommonTableExpression[];
+  replace: boolean; // REPLACE and INSERT OR REPLACE delete conflicting rows
+  table: TableName;
+  span: SourceSpan;
+  alias: string | null;
+  columns: string[];
+  source: Query | null; // VALUES or a query; null for DEFAULT VALUES and INSERT ... SET
+  set: Assignment[]; // MySQL INSERT ... SET
+  conflict: {
+    target: Expression[];
+    set: Assignment[];
+    where: Expression | null;
+  } | null; // ON CONFLICT and ON DUPLICATE KEY UPDATE
+  returning: SelectItem[];
+}
+
+export interface UpdateStatement {
+  type: 'update';
+  with: CommonTableExpression[];
+  targets: FromItem[]; // MySQL updates joined tables
+  set: Assignment[];
+  from: FromItem[];
+  where: Expression | null;
+  whereSpan: SourceSpan; // The condition as written; where WHERE would go when there is none
+  orderBy: OrderItem[];
+  limit: Expression[];
+  returning: SelectItem[];
+}
+
+export interface DeleteStatement {
+  type: 'delete';
+  with: CommonTableExpression[];
+  targets: TableName[]; // Tables or aliases deleted from
+  from: FromItem[];
+  where: Expression | null;
+  whereSpan: SourceSpan; // The condition as written; where WHERE would go when there is none
+  orderBy: OrderItem[];
+  limit: Expression[];
+  returning: SelectItem[];
+}
+
+export interface ExplainStatement {
+  type: 'explain';
+  analyze: boolean; // The statement is executed
+  statement: Statement;
+}
+
+/**
+ * DDL and utility statements, parsed only as far as the tables they touch
+ */
+export interface CommandStatement {
+  type: 'command';
+  command: string; // e.g. CREATE TABLE, DROP VIEW, SHOW, PRAGMA
+  reads: TableName[];
+  writes: TableName[];
+  query: Query | null; // CREATE TABLE ... AS, CREATE VIEW ... AS
+  write: boolean;
+  opaque: boolean; // May touch tables that were not parsed (trigger and function bodies, unknown statements)
+}
+
+export type Statement =
+  | QueryStatement
+  | InsertStatement
+  | UpdateStatement
+  | DeleteStatement
+  | ExplainStatement
+  | CommandStatement;
+
+// Clause keywords that end an expression and can't be implicit aliases
+const RESERVED = new Set([
+  'ALL', 'AND', 'AS', 'ASC', 'BETWEEN', 'BY', 'CASE', 'CROSS', 'DESC', 'DISTINCT', 'DO', 'ELSE',
+  'END', 'EXCEPT', 'FETCH', 'FOR', 'FORCE', 'FROM', 'FULL', 'GLOB', 'GROUP', 'HAVING', 'IGNORE',
+  'ILIKE', 'IN', 'INDEXED', 'INNER', 'INTERSECT', 'INTO', 'IS', 'ISNULL', 'JOIN', 'LATERAL', 'LEFT',
+  'LIKE', 'LIMIT', 'LOCK', 'MINUS', 'NATURAL', 'NOT', 'NOTNULL', 'OFFSET', 'ON', 'OR', 'ORDER',
+  'OUTER', 'PARTITION', 'REGEXP', 'RETURNING', 'RIGHT', 'RLIKE', 'SELECT', 'SET', 'STRAIGHT_JOIN',
+  'TABLESAMPLE', 'THEN', 'UNION', 'USE', 'USING', 'VALUES', 'WHEN', 'WHERE', 'WINDOW', 'WITH', 'XOR',
+]);
+
+// Keywords that are values, unless called like functions
+const CONSTANT_KEYWORDS = new Set([
+  'NULL', 'TRUE', 'FALSE', 'UNKNOWN', 'DEFAULT', 'CURRENT_DATE', 'CURRENT_TIME', 'CURRENT_TIMESTAMP',
+  'LOCALTIME', 'LOCALTIMESTAMP', 'CURRENT_USER', 'SESSION_USER', 'CURRENT_ROLE', 'CURRENT_CATALOG',
+  'UTC_DATE', 'UTC_TIME', 'UTC_TIMESTAMP',
+]);
+
+// Operators written as words; NOT combines with the ones marked
+const WORD_OPERATORS = new Set([
+  'AND', 'OR', 'XOR', 'IN', 'LIKE', 'ILIKE', 'RLIKE', 'REGEXP', 'GLOB', 'MATCH', 'BETWEEN', 'ESCAPE',
+  'DIV', 'MOD', 'OVERLAPS',
+]);
+const NEGATABLE_OPERATORS = new Set(['IN', 'LIKE', 'ILIKE', 'RLIKE', 'REGEXP', 'GLOB', 'MATCH', 'BETWEEN', 'SIMILAR']);
+
+// Date parts that functions like EXTRACT and TIMESTAMPDIFF take as bare words
+const DATE_UNITS = new Set([
+  'MICROSECOND', 'MILLISECOND', 'SECOND', 'MINUTE', 'HOUR', 'DAY', 'WEEK', 'MONTH', 'QUARTER', 'YEAR',
+  'DECADE', 'CENTURY', 'MILLENNIUM', 'EPOCH', 'DOW', 'DOY', 'ISODOW', 'ISOYEAR', 'TIMEZONE',
+  'SECOND_MICROSECOND', 'MINUTE_MICROSECOND', 'MINUTE_SECOND', 'HOUR_MICROSECOND', 'HOUR_SECOND',
+  'HOUR_MINUTE', 'DAY_MICROSECOND', 'DAY_SECOND', 'DAY_MINUTE', 'DAY_HOUR', 'YEAR_MONTH',
+]);
+const DATE_UNIT_FUNCTIONS = new Set(['EXTRACT', 'TIMESTAMPDIFF', 'TIMESTAMPADD', 'DATE_TRUNC']);
+
+// Words that continue a data type name: double precision, int unsigned, ...
+const TYPE_CONTINUATIONS = new Set(['PRECISION', 'VARYING', 'UNSIGNED', 'SIGNED', 'INTEGER', 'INT', 'ZEROFILL']);
+
+// CREATE and ALTER object types whose bodies hold SQL this parser doesn't follow
+const OPAQUE_OBJECTS = new Set([
+  'TRIGGER', 'FUNCTION', 'PROCEDURE', 'EVENT', 'RULE', 'POLICY', 'AGGREGATE', 'OPERATOR', 'CAST',
+  'LANGUAGE', 'EXTENSION', 'SERVER', 'PUBLICATION', 'SUBSCRIPTION',
+]);
+
+// SQLite pragmas that only read, even when given an argument
+const READ_PRAGMAS = new Set([
+  'TABLE_INFO', 'TABLE_XINFO', 'INDEX_LIST', 'INDEX_INFO', 'INDEX_XINFO', 'FOREIGN_KEY_LIST',
+  'FOREIGN_KEY_CHECK', 'INTEGRITY_CHECK', 'QUICK_CHECK',
+]);
+const TABLE_PRAGMAS = new Set(['TABLE_INFO', 'TABLE_XINFO', 'INDEX_LIST', 'FOREIGN_KEY_LIST', 'FOREIGN_KEY_CHECK']);
+
+const TRANSACTION_COMMANDS = new Set(['BEGIN', 'START', 'COMMIT', 'ROLLBACK', 'SAVEPOINT', 'RELEASE', 'END', 'ABORT']);
+const MAINTENANCE_COMMANDS = new Set(['ANALYZE', 'VACUUM', 'REINDEX', 'OPTIMIZE', 'CHECK', 'REPAIR', 'CLUSTER', 'CHECKPOINT', 'REFRESH']);
+
+class Parser {
+  private pos = 0;
+
+  constructor(
+    private readonly tokens: SqlToken[],
+    private readonly dialect: DatabaseType,
+    private readonly length: number
+  ) {}
+
+  // Token helpers
+
+  private peek(offset = 0): SqlToken | undefined {
+    return this.tokens[this.pos + offset];
+  }
+
+  private keywordAt(offset = 0): string | null {
+    const token = this.peek(offset);
+    return token?.type === 'word' ? token.value.toUpperCase() : null;
+  }
+
+  private isKeyword(...words: string[]): boolean {
+    return words.every((word, index) => this.keywordAt(index) === word);
+  }
+
+  private acceptKeyword(...words: string[]): boolean {
+    if (!this.isKeyword(...words)) return false;
+    this.pos += words.length;
+    return true;
+  }
+
+  /** Accept the first of several keyword phrases that matches: 'ROWS', 'NULLS FIRST' */
+  private acceptAny(...phrases: string[]): boolean {
+    return phrases.some((phrase) => this.acceptKeyword(...phrase.split(' ')));
+  }
+
+  private expectKeyword(...words: string[]) {
+    if (!this.acceptKeyword(...words)) throw this.error(`Expected ${words.join(' ')}`);
+  }
+
+  private isPunctuation(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token?.type === 'punctuation' && token.value === value;
+  }
+
+  private acceptPunctuation(value: string): boolean {
+    if (!this.isPunctuation(value)) return false;
+    this.pos++;
+    return true;
+  }
+
+  private expectPunctuation(value: string) {
+    if (!this.acceptPunctuation(value)) throw this.error(`Expected "${value}"`);
+  }
+
+  private isOperator(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token?.type === 'operator' && token.value === value;
+  }
+
+  private atStatementEnd(): boolean {
+    return !this.peek() || this.isPunctuation(';');
+  }
+
+  private error(message: string): SqlSyntaxError {
+    const token = this.peek();
+    const found = token ? ` near "${token.value}"` : ' at end of query';
+    return new SqlSyntaxError(`${message}${found}`, token?.start ?? this.length);
+  }
+
+  /** Offset of the next token */
+  private offset(): number {
+    return this.peek()?.start ?? this.length;
+  }
+
+  /** Span from an offset to the end of the last token read */
+  private spanFrom(start: number): SourceSpan {
+    return { start, end: this.tokens[this.pos - 1]?.end ?? start };
+  }
+
+  private isIdentifier(offset = 0): boolean {
+    const token = this.peek(offset);
+    return token?.type === 'identifier' || token?.type === 'word';
+  }
+
+  private parseIdentifier(): string {
+    const token = this.peek();
+    if (token?.type !== 'identifier' && token?.type !== 'word') throw this.error('Expected an identifier');
+    this.pos++;
+    return token.value;
+  }
+
+  /** An identifier that isn't a clause keyword, as aliases must be */
+  private isAliasAt(offset = 0): boolean {
+    const token = this.peek(offset);
+    if (token?.type === 'identifier') return true;
+    return token?.type === 'word' && !RESERVED.has(token.value.toUpperCase());
+  }
+
+  private parseQualifiedName(): string[] {
+    const parts = [this.parseIdentifier()];
+    while (this.isPunctuation('.') && this.isIdentifier(1)) {
+      this.pos++;
+      parts.push(this.parseIdentifier());
+    }
+    return parts;
+  }
+
+  private parseTableName(): TableName {
+    return toTableName(this.parseQualifiedName());
+  }
+
+  private parseIdentifierList(): string[] {
+    this.expectPunctuation('(');
+    const names = [this.parseIdentifier()];
+    while (this.acceptPunctuation(',')) names.push(this.parseIdentifier());
+    this.expectPunctuation(')');
+    return names;
+  }
+
+  /** Skip a parenthesized group, including nested ones */
+  private skipParentheses() {
+    this.expectPunctuation('(');
+    let depth = 1;
+    while (depth > 0) {
+      const token = this.peek();
+      if (!token) throw this.error('Expected ")"');
+      if (token.type === 'punctuation' && token.value === '(') depth++;
+      if (token.type === 'punctuation' && token.value === ')') depth--;
+      this.pos++;
+    }
+  }
+
+  private skipToStatementEnd() {
+    while (!this.atStatementEnd()) {
+      if (this.isPunctuation('(')) this.skipParentheses();
+      else this.pos++;
+    }
+  }
+
+  /** Whether a query starts at the offset, allowing for opening parentheses */
+  private isQueryStart(offset = 0): boolean {
+    if (this.isPunctuation('(', offset)) return this.isQueryStart(offset + 1);
+    const keyword = this.keywordAt(offset);
+    return keyword === 'SELECT' || keyword === 'WITH' || keyword === 'VALUES'
+      || (keyword === 'TABLE' && (this.dialect === 'postgresql' || this.dialect === 'mysql'));
+  }
+
+  // Statements
+
+  parseStatements(): Statement[] {
+    const statements: Statement[] = [];
+    while (this.peek()) {
+      if (this.acceptPunctuation(';')) continue;
+      statements.push(this.parseStatement());
+      if (!this.atStatementEnd()) throw this.error('Unexpected token');
+    }
+    return statements;
+  }
+
+  private parseStatement(): Statement {
+    const keyword = this.keywordAt();
+
+    if (keyword === 'WITH') {
+      const ctes = this.parseWith();
+      if (this.isQueryStart()) return { type: 'select', query: this.parseQuery(ctes) };
+      return this.parseModification(ctes);
+    }
+    if (this.isQueryStart()) {
+      return { type: 'select', query: this.parseQuery() };
+    }
+
+    switch (keyword) {
+      case 'INSERT':
+      case 'REPLACE':
+      case 'UPDATE':
+      case 'DELETE':
+        return this.parseModification([]);
+      case 'EXPLAIN':
+      case 'DESCRIBE':
+      case 'DESC':
+        return this.parseExplain();
+      default:
+        return this.parseCommand();
+    }
+  }
+
+  private parseModification(ctes: CommonTableExpression[]): InsertStatement | UpdateStatement | DeleteStatement {
+    switch (this.keywordAt()) {
+      case 'INSERT':
+      case 'REPLACE':
+        return this.parseInsert(ctes);
+      case 'UPDATE':
+        return this.parseUpdate(ctes);
+      case 'DELETE':
+        return this.parseDelete(ctes);
+      default:
+        throw this.error('Expected SELECT, INSERT, UPDATE or DELETE');
+    }
+  }
+
+  private parseWith(): CommonTableExpression[] {
+    this.expectKeyword('WITH');
+    const recursive = this.acceptKeyword('RECURSIVE');
+    const ctes: CommonTableExpression[] = [];
+
+    do {
+      const name = this.parseIdentifier();
+      const columns = this.isPunctuation('(') ? this.parseIdentifierList() : [];
+      this.expectKeyword('AS');
+      this.acceptKeyword('NOT');
+      this.acceptKeyword('MATERIALIZED');
+      this.expectPunctuation('(');
+      const statement = this.isQueryStart() ? this.parseQuery() : this.parseModification([]);
+      this.expectPunctuation(')');
+      ctes.push({ name, columns, statement, recursive });
+    } while (this.acceptPunctuation(','));
+
+    return ctes;
+  }
+
+  private parseInsert(ctes: CommonTableExpression[]): InsertStatement {
+    let replace = this.keywordAt() === 'REPLACE';
+    this.pos++; // INSERT or REPLACE
+    // MySQL priority and IGNORE modifiers, SQLite's OR <conflict action>
+    while (this.acceptAny('LOW_PRIORITY', 'DELAYED', 'HIGH_PRIORITY', 'IGNORE')) {
+      // Modifiers only
+    }
+    if (this.acceptKeyword('OR')) replace ||= this.parseIdentifier().toUpperCase() === 'REPLACE';
+    this.acceptKeyword('INTO');
+
+    const start = this.offset();
+    const table = this.parseTableName();
+    const span = this.spanFrom(start);
+    if (this.acceptKeyword('PARTITION')) this.parseIdentifierList();
+    let alias: string | null = null;
+    if (this.acceptKeyword('AS')) alias = this.parseIdentifier();
+
+    const columns = this.isPunctuation('(') && !this.isQueryStart() ? this.parseIdentifierList() : [];
+    this.acceptAny('OVERRIDING SYSTEM VALUE', 'OVERRIDING USER VALUE');
+
+    let source: Query | null = null;
+    let set: Assignment[] = [];
+    if (this.acceptKeyword('DEFAULT', 'VALUES')) {
+      // No source
+    } else if (this.acceptKeyword('SET')) {
+      set = this.parseAssignments();
+    } else if (this.acceptKeyword('VALUE')) {
+      source = { type: 'query', with: [], body: this.parseValuesRows(), orderBy: [], limit: [] };
+    } else {
+      source = this.parseQuery();
+    }
+
+    // MySQL row alias for ON DUPLICATE KEY UPDATE: AS new [(a, b)]
+    if (this.acceptKeyword('AS')) {
+      alias = this.parseIdentifier();
+      if (this.isPunctuation('(')) this.parseIdentifierList();
+    }
+
+    let conflict: InsertStatement['conflict'] = null;
+    if (this.acceptKeyword('ON', 'DUPLICATE', 'KEY', 'UPDATE')) {
+      conflict = { target: [], set: this.parseAssignments(), where: null };
+    }
+    while (this.acceptKeyword('ON', 'CONFLICT')) {
+      const target: Expression[] = [];
+      if (this.acceptKeyword('ON', 'CONSTRAINT')) {
+        this.parseIdentifier();
+      } else if (this.acceptPunctuation('(')) {
+        do {
+          target.push(this.parseExpression());
+        } while (this.acceptPunctuation(','));
+        this.expectPunctuation(')');
+        if (this.acceptKeyword('WHERE')) target.push(this.parseExpression());
+      }
+      this.expectKeyword('DO');
+      if (this.acceptKeyword('NOTHING')) {
+        conflict = { target, set: conflict?.set ?? [], where: conflict?.where ?? null };
+        continue;
+      }
+      this.expectKeyword('UPDATE');
+      this.expectKeyword('SET');
+      const assignments = this.parseAssignments();
+      const where = this.acceptKeyword('WHERE') ? this.parseExpression() : null;
+      conflict = {
+        target: [...(conflict?.target ?? []), ...target],
+        set: [...(conflict?.set ?? []), ...assignments],
+        where: where ?? conflict?.where ?? null,
+      };
+    }
+
+    const returning = this.acceptKeyword('RETURNING') ? this.parseSelectList() : [];
+    return { type: 'insert', with: ctes, replace, table, span, alias, columns, source, set, conflict, returning };
+  }
+
+  private parseUpdate(ctes: CommonTableExpression[]): UpdateStatement {
+    this.expectKeyword('UPDATE');
+    while (this.acceptAny('LOW_PRIORITY', 'IGNORE')) {
+      // Modifiers only
+    }
+    if (this.acceptKeyword('OR')) this.parseIdentifier();
+
+    const targets = this.parseFromList();
+    this.expectKeyword('SET');
+    const set = this.parseAssignments();
+    const from = this.acceptKeyword('FROM') ? this.parseFromList() : [];
+    const { where, whereSpan } = this.parseModificationWhere();
+    let returning = this.acceptKeyword('RETURNING') ? this.parseSelectList() : [];
+    const orderBy = this.acceptKeyword('ORDER', 'BY') ? this.parseOrderBy() : [];
+    const limit = this.parseLimit();
+    if (returning.length === 0 && this.acceptKeyword('RETURNING')) returning = this.parseSelectList();
+
+    return { type: 'update', with: ctes, targets, set, from, where, whereSpan, orderBy, limit, returning };
+  }
+
+  private parseDelete(ctes: CommonTableExpression[]): DeleteStatement {
+    this.expectKeyword('DELETE');
+    while (this.acceptAny('LOW_PRIORITY', 'QUICK', 'IGNORE')) {
+      // Modifiers only
+    }
+
+    let targets: TableName[];
+    let from: FromItem[];
+    if (this.acceptKeyword('FROM')) {
+      const listed = this.parseFromList();
+      const using = this.acceptKeyword('USING') ? this.parseFromList() : [];
+      if (isMySql(this.dialect) && using.length > 0) {
+        // DELETE FROM t1, t2 USING <joined tables>
+        targets = listed.flatMap(sourceTableNames);
+        from = using;
+      } else {
+        targets = sourceTableNames(listed[0]);
+        from = [...listed, ...using];
+      }
+    } else {
+      // MySQL: DELETE t1, t2 FROM <joined tables>
+      targets = [];
+      do {
+        targets.push(this.parseTableName());
+        if (this.acceptPunctuation('.')) this.expectPunctuation('*');
+      } while (this.acceptPunctuation(','));
+      this.expectKeyword('FROM');
+      from = this.parseFromList();
+    }
+
+    const { where, whereSpan } = this.parseModificationWhere();
+    let returning = this.acceptKeyword('RETURNING') ? this.parseSelectList() : [];
+    const orderBy = this.acceptKeyword('ORDER', 'BY') ? this.parseOrderBy() : [];
+    const limit = this.parseLimit();
+    if (returning.length === 0 && this.acceptKeyword('RETURNING')) returning = this.parseSelectList();
+
+    return { type: 'delete', with: ctes, targets, from, where, whereSpan, orderBy, limit, returning };
+  }
+
+  private parseModificationWhere(): { where: Expression | null; whereSpan: SourceSpan } {
+    if (!this.acceptKeyword('WHERE')) return { where: null, whereSpan: this.spanFrom(this.tokens[this.pos - 1].end) };
+    const start = this.offset();
+    const where = this.parseExpression();
+    return { where, whereSpan: this.spanFrom(start) };
+  }
+
+  private parseAssignments(): Assignment[] {
+    const assignments: Assignment[] = [];
+    do {
+      const columns: ColumnExpression[] = [];
+      if (this.acceptPunctuation('(')) {
+        do {
+          columns.push(toColumn(this.parseQualifiedName()));
+        } while (this.acceptPunctuation(','));
+        this.expectPunctuation(')');
+      } else {
+        columns.push(toColumn(this.parseQualifiedName()));
+      }
+      if (!this.isOperator('=') && !this.isOperator(':=')) throw this.error('Expected "="');
+      this.pos++;
+      assignments.push({ columns, value: this.parseExpression() });
+    } while (this.acceptPunctuation(','));
+    return assignments;
+  }
+
+  private parseExplain(): Statement {
+    const keyword = this.keywordAt()!;
+    this.pos++;
+    let analyze = false;
+
+    for (;;) {
+      if (this.acceptAny('ANALYZE', 'ANALYSE')) {
+        analyze = true;
+      } else if (this.acceptAny('VERBOSE', 'EXTENDED', 'PARTITIONS', 'QUERY PLAN')) {
+        // Output options only
+      } else if (this.acceptKeyword('FORMAT')) {
+        if (this.isOperator('=')) this.pos++;
+        this.parseIdentifier();
+      } else if (this.isPunctuation('(') && !this.isQueryStart()) {
+        // PostgreSQL option list; assume ANALYZE is on if it is mentioned at all
+        const start = this.pos;
+        this.skipParentheses();
+        analyze ||= this.tokens.slice(start, this.pos).some((token) => token.type === 'word' && /^ANALY[SZ]E$/i.test(token.value));
+      } else {
+        break;
+      }
+    }
+
+    // MySQL: EXPLAIN / DESCRIBE <table> [column]
+    const explainsStatement = this.isQueryStart() || ['INSERT', 'REPLACE', 'UPDATE', 'DELETE'].includes(this.keywordAt() ?? '');
+    if (!explainsStatement) {
+      const table = this.parseTableName();
+      this.skipToStatementEnd();
+      return command(keyword, { reads: [table] });
+    }
+
+    return { type: 'explain', analyze, statement: this.parseStatement() };
+  }
+
+  private parseCommand(): CommandStatement {
+    const token = this.peek()!;
+    if (token.type !== 'word') throw this.error('Expected a statement');
+    const keyword = token.value.toUpperCase();
+    this.pos++;
+
+    if (TRANSACTION_COMMANDS.has(keyword) || keyword === 'USE') {
+      this.skipToStatementEnd();
+      return command(keyword);
+    }
+
+    switch (keyword) {
+      case 'SHOW':
+        return this.parseShow();
+      case 'PRAGMA':
+        return this.parsePragma();
+      case 'SET':
+      case 'RESET': {
+        // SET @x = (SELECT ...) reads tables
+        const start = this.pos;
+        this.skipToStatementEnd();
+        const opaque = this.tokens.slice(start, this.pos).some((t) => t.type === 'punctuation' && t.value === '(');
+        return command(keyword, { write: true, opaque });
+      }
+      case 'CREATE':
+        return this.parseCreate();
+      case 'ALTER':
+        return this.parseAlter();
+      case 'DROP':
+        return this.parseDrop();
+      case 'TRUNCATE': {
+        this.acceptKeyword('TABLE');
+        const writes = this.parseTableNameList();
+        this.skipToStatementEnd();
+        return command('TRUNCATE', { writes, write: true });
+      }
+      case 'RENAME': {
+        // MySQL: RENAME TABLE a TO b, c TO d
+        this.expectKeyword('TABLE');
+        const writes: TableName[] = [];
+        do {
+          writes.push(this.parseTableName());
+          this.expectKeyword('TO');
+          writes.push(this.parseTableName());
+        } while (this.acceptPunctuation(','));
+        return command('RENAME TABLE', { writes, write: true });
+      }
+      default:
+        this.skipToStatementEnd();
+        return MAINTENANCE_COMMANDS.has(keyword)
+          ? command(keyword, { write: true })
+          : command(keyword, { write: true, opaque: true });
+    }
+  }
+
+  private parseTableNameList(): TableName[] {
+    const tables: TableName[] = [];
+    do {
+      this.acceptKeyword('ONLY');
+      tables.push(this.parseTableName());
+      if (this.isPunctuation('*')) this.pos++;
+    } while (this.acceptPunctuation(','));
+    return tables;
+  }
+
+  private parseShow(): CommandStatement {
+    const reads: TableName[] = [];
+    this.acceptKeyword('FULL');
+    if (this.acceptAny('CREATE TABLE', 'CREATE VIEW')) {
+      reads.push(this.parseTableName());
+    } else if (['COLUMNS', 'FIELDS', 'INDEX', 'INDEXES', 'KEYS'].includes(this.keywordAt() ?? '')) {
+      this.pos++;
+      if (this.acceptAny('FROM', 'IN')) {
+        const table = this.parseTableName();
+        // SHOW COLUMNS FROM t FROM db
+        const schema = this.acceptAny('FROM', 'IN') ? this.parseIdentifier() : table.schema;
+        reads.push({ schema, name: table.name });
+      }
+    }
+    this.skipToStatementEnd();
+    return command('SHOW', { reads });
+  }
+
+  private parsePragma(): CommandStatement {
+    const name = this.parseQualifiedName();
+    const pragma = name[name.length - 1].toUpperCase();
+    const reads: TableName[] = [];
+    let write = false;
+
+    if (this.isOperator('=')) {
+      write = true;
+    } else if (this.isPunctuation('(')) {
+      write = !READ_PRAGMAS.has(pragma);
+      if (TABLE_PRAGMAS.has(pragma) && (this.isIdentifier(1) || this.peek(1)?.type === 'string')) {
+        reads.push({ schema: name.length > 1 ? name[0] : null, name: this.peek(1)!.value });
+      }
+    }
+    this.skipToStatementEnd();
+    return command('PRAGMA', { reads, write });
+  }
+
+  /** CREATE [OR REPLACE] [modifiers] <object type> */
+  private parseObjectType(): string {
+    this.acceptKeyword('OR', 'REPLACE');
+    const modifiers = ['TEMP', 'TEMPORARY', 'GLOBAL', 'LOCAL', 'UNLOGGED', 'UNIQUE', 'FULLTEXT', 'SPATIAL', 'RECURSIVE', 'VIRTUAL', 'ONLINE', 'OFFLINE'];
+    for (;;) {
+      const keyword = this.keywordAt();
+      if (keyword && modifiers.includes(keyword)) {
+        this.pos++;
+      } else if ((keyword === 'ALGORITHM' || keyword === 'DEFINER') && this.isOperator('=', 1)) {
+        // MySQL view options: ALGORITHM = MERGE, DEFINER = user@host
+        this.pos += 2;
+        while (this.peek() && !this.isObjectTypeKeyword() && this.keywordAt() !== 'SQL') this.pos++;
+      } else if (this.acceptKeyword('SQL', 'SECURITY')) {
+        this.parseIdentifier();
+      } else {
+        break;
+      }
+    }
+
+    if (this.acceptKeyword('MATERIALIZED', 'VIEW')) return 'MATERIALIZED VIEW';
+    return this.parseIdentifier().toUpperCase();
+  }
+
+  private isObjectTypeKeyword(): boolean {
+    return ['TABLE', 'VIEW', 'INDEX', 'TRIGGER', 'FUNCTION', 'PROCEDURE', 'EVENT'].includes(this.keywordAt() ?? '');
+  }
+
+  private acceptIfExists() {
+    this.acceptAny('IF NOT EXISTS', 'IF EXISTS');
+  }
+
+  private parseCreate(): CommandStatement {
+    const objectType = this.parseObjectType();
+    const name = `CREATE ${objectType}`;
+
+    switch (objectType) {
+      case 'TABLE': {
+        this.acceptIfExists();
+        const table = this.parseTableName();
+        return this.parseTableDefinition(name, [table]);
+      }
+      case 'VIEW':
+      case 'MATERIALIZED VIEW': {
+        this.acceptIfExists();
+        const view = this.parseTableName();
+        while (!this.atStatementEnd() && !this.isKeyword('AS')) {
+          if (this.isPunctuation('(')) this.skipParentheses();
+          else this.pos++;
+        }
+        this.expectKeyword('AS');
+        const query = this.parseQuery();
+        this.skipToStatementEnd(); // WITH CHECK OPTION, WITH [NO] DATA
+        return command(name, { writes: [view], query, write: true });
+      }
+      case 'INDEX': {
+        this.acceptKeyword('CONCURRENTLY');
+        this.acceptIfExists();
+        if (!this.isKeyword('ON')) this.parseQualifiedName();
+        this.expectKeyword('ON');
+        this.acceptKeyword('ONLY');
+        const table = this.parseTableName();
+        this.skipToStatementEnd();
+        return command(name, { writes: [table], write: true });
+      }
+      default:
+        this.skipToStatementEnd();
+        return command(name, { write: true, opaque: OPAQUE_OBJECTS.has(objectType) });
+    }
+  }
+
+  /**
+   * The rest of CREATE TABLE or ALTER TABLE: tables named by REFERENCES and
+   * LIKE are read, as is an AS query
+   */
+  private parseTableDefinition(name: string, writes: TableName[]): CommandStatement {
+    const reads: TableName[] = [];
+    let query: Query | null = null;
+
+    while (!this.atStatementEnd()) {
+      // CREATE TABLE t AS <query>, and MySQL's CREATE TABLE t [(...)] SELECT ...
+      if ((this.isKeyword('AS') && this.isQueryStart(1)) || this.isKeyword('SELECT')
+        || (this.isPunctuation('(') && this.keywordAt(1) === 'SELECT')) {
+        this.acceptKeyword('AS');
+        query = this.parseQuery();
+      } else if ((this.isKeyword('REFERENCES') || this.isKeyword('LIKE') || this.isKeyword('INHERITS'))
+        && (this.isIdentifier(1) || this.isPunctuation('(', 1))) {
+        this.pos++;
+        if (this.acceptPunctuation('(')) {
+          reads.push(...this.parseTableNameList());
+          this.expectPunctuation(')');
+        } else {
+          reads.push(this.parseTableName());
+        }
+      } else if (this.acceptKeyword('RENAME', 'TO')) {
+        writes.push(this.parseTableName());
+      } else {
+        this.pos++;
+      }
+    }
+
+    return command(name, { reads, writes, query, write: true });
+  }
+
+  private parseAlter(): CommandStatement {
+    const objectType = this.parseObjectType();
+    const name = `ALTER ${objectType}`;
+
+    if (objectType === 'TABLE') {
+      this.acceptIfExists();
+      this.acceptKeyword('ONLY');
+      const table = this.parseTableName();
+      return this.parseTableDefinition(name, [table]);
+    }
+    if (objectType === 'VIEW') {
+      // MySQL: ALTER VIEW v AS <query>
+      const view = this.parseTableName();
+      return this.parseTableDefinition(name, [view]);
+    }
+
+    this.skipToStatementEnd();
+    return command(name, { write: true, opaque: OPAQUE_OBJECTS.has(objectType) });
+  }
+
+  private parseDrop(): CommandStatement {
+    const objectType = this.parseObjectType();
+    const name = `DROP ${objectType}`;
+
+    if (objectType === 'TABLE' || objectType === 'VIEW' || objectType === 'MATERIALIZED VIEW') {
+      this.acceptIfExists();
+      const writes = this.parseTableNameList();
+      this.skipToStatementEnd();
+      return command(name, { writes, write: true });
+    }
+    if (objectType === 'INDEX' && isMySql(this.dialect)) {
+      // MySQL: DROP INDEX i ON t
+      this.parseIdentifier();
+      this.expectKeyword('ON');
+      const table = this.parseTableName();
+      this.skipToStatementEnd();
+      return command(name, { writes: [table], write: true });
+    }
+
+    this.skipToStatementEnd();
+    return command(name, { write: true });
+  }
+
+  // Queries
+
+  private parseQuery(ctes?: CommonTableExpression[]): Query {
+    const withClause = ctes ?? (this.isKeyword('WITH') ? this.parseWith() : []);
+    const body = this.parseSetOperations();
+    const orderBy = this.acceptKeyword('ORDER', 'BY') ? this.parseOrderBy() : [];
+    const limit = this.parseLimit();
+
+    this.parseLocking();
+    // MySQL also allows INTO after the rest of the query
+    if (this.isKeyword('INTO')) {
+      const select = lastSelect(body);
+      if (!select) throw this.error('Unexpected INTO');
+      select.into = this.parseInto();
+      this.parseLocking();
+    }
+
+    return { type: 'query', with: withClause, body, orderBy, limit };
+  }
+
+  private parseSetOperations(): QueryBody {
+    let left = this.parseQueryTerm();
+    for (;;) {
+      const operator = this.keywordAt();
+      if (operator !== 'UNION' && operator !== 'INTERSECT' && operator !== 'EXCEPT' && operator !== 'MINUS') break;
+      this.pos++;
+      this.acceptAny('ALL', 'DISTINCT');
+      left = { type: 'set-operation', operator, left, right: this.parseQueryTerm() };
+    }
+    return left;
+  }
+
+  private parseQueryTerm(): QueryBody {
+    if (this.acceptPunctuation('(')) {
+      const query = this.parseQuery();
+      this.expectPunctuation(')');
+      return query;
+    }
+    if (this.isKeyword('SELECT')) return this.parseSelect();
+    if (this.acceptKeyword('VALUES')) return this.parseValuesRows();
+    if (this.isKeyword('TABLE')) return this.parseTableQuery();
+    throw this.error('Expected SELECT');
+  }
+
+  /** TABLE t, or the bare table name of SQLite's x IN t */
+  private parseTableQuery(): TableQuery {
+    const start = this.offset();
+    this.acceptKeyword('TABLE');
+    const nameStart = this.offset();
+    const table = this.parseTableName();
+    return { type: 'table', table, span: this.spanFrom(nameStart), start };
+  }
+
+  private parseValuesRows(): ValuesQuery {
+    const rows: Expression[][] = [];
+    do {
+      this.acceptKeyword('ROW'); // MySQL: VALUES ROW(1, 2)
+      this.expectPunctuation('(');
+      const row: Expression[] = [];
+      if (!this.isPunctuation(')')) {
+        do {
+          row.push(this.parseExpression());
+        } while (this.acceptPunctuation(','));
+      }
+      this.expectPunctuation(')');
+      rows.push(row);
+    } while (this.acceptPunctuation(','));
+    return { type: 'values', rows };
+  }
+
+  private parseSelect(): SelectQuery {
+    this.expectKeyword('SELECT');
+    const distinctOn: Expression[] = [];
+
+    for (;;) {
+      if (this.acceptKeyword('DISTINCT', 'ON')) {
+        this.expectPunctuation('(');
+        do {
+          distinctOn.push(this.parseExpression());
+        } while (this.acceptPunctuation(','));
+        this.expectPunctuation(')');
+      } else if (!this.acceptSelectModifier()) {
+        break;
+      }
+    }
+
+    // PostgreSQL allows an empty select list
+    const columns = this.isKeyword('FROM') || this.isKeyword('INTO') || this.atStatementEnd() || this.isPunctuation(')')
+      ? []
+      : this.parseSelectList();
+    const into = this.isKeyword('INTO') ? this.parseInto() : null;
+    const from = this.acceptKeyword('FROM') ? this.parseFromList() : [];
+    const where = this.acceptKeyword('WHERE') ? this.parseExpression() : null;
+
+    const groupBy: Expression[] = [];
+    if (this.acceptKeyword('GROUP', 'BY')) {
+      this.acceptAny('ALL', 'DISTINCT');
+      do {
+        groupBy.push(this.parseExpression());
+      } while (this.acceptPunctuation(','));
+      this.acceptKeyword('WITH', 'ROLLUP');
+    }
+
+    const having = this.acceptKeyword('HAVING') ? this.parseExpression() : null;
+
+    const windows: SelectQuery['windows'] = [];
+    if (this.acceptKeyword('WINDOW')) {
+      do {
+        const name = this.parseIdentifier();
+        this.expectKeyword('AS');
+        windows.push({ name, spec: this.parseWindowSpec() });
+      } while (this.acceptPunctuation(','));
+    }
+
+    return { type: 'select', distinctOn, columns, into, from, where, groupBy, having, windows };
+  }
+
+  private acceptSelectModifier(): boolean {
+    const modifiers = [
+      'ALL', 'DISTINCT', 'DISTINCTROW', 'HIGH_PRIORITY', 'STRAIGHT_JOIN', 'SQL_SMALL_RESULT', 'SQL_BIG_RESULT',
+      'SQL_BUFFER_RESULT', 'SQL_NO_CACHE', 'SQL_CACHE', 'SQL_CALC_FOUND_ROWS',
+    ];
+    const keyword = this.keywordAt();
+    if (!keyword || !modifiers.includes(keyword)) return false;
+    this.pos++;
+    return true;
+  }
+
+  private parseSelectList(): SelectItem[] {
+    const items: SelectItem[] = [];
+    do {
+      const expression = this.parseExpression();
+      items.push({ expression, alias: expression.type === 'star' ? null : this.parseAlias() });
+    } while (this.acceptPunctuation(','));
+    return items;
+  }
+
+  private parseAlias(): string | null {
+    if (this.acceptKeyword('AS')) {
+      const token = this.peek();
+      if (token?.type === 'string') {
+        this.pos++;
+        return token.value;
+      }
+      return this.parseIdentifier();
+    }
+    // MySQL and SQLite also accept string aliases
+    if (this.peek()?.type === 'string' && this.dialect !== 'postgresql') {
+      return this.tokens[this.pos++].value;
+    }
+    return this.isAliasAt() ? this.parseIdentifier() : null;
+  }
+
+  private parseInto(): IntoClause {
+    this.expectKeyword('INTO');
+
+    if (this.acceptAny('OUTFILE', 'DUMPFILE')) {
+      // File name, then export options up to the next clause
+      this.pos++;
+      while (this.peek()?.type === 'string' || (this.keywordAt() && !RESERVED.has(this.keywordAt()!))
+        || this.isKeyword('BY') || this.isKeyword('SET')) {
+        this.pos++;
+      }
+      return { table: null, file: true };
+    }
+
+    if (isMySql(this.dialect)) {
+      // Variables: INTO @a, @b
+      do {
+        this.pos++;
+      } while (this.acceptPunctuation(','));
+      return { table: null, file: false };
+    }
+
+    this.acceptAny('TEMPORARY', 'TEMP', 'UNLOGGED');
+    this.acceptKeyword('TABLE');
+    return { table: this.parseTableName(), file: false };
+  }
+
+  private parseOrderBy(): OrderItem[] {
+    const items: OrderItem[] = [];
+    do {
+      const expression = this.parseExpression();
+      let descending = false;
+      if (this.acceptKeyword('DESC')) descending = true;
+      else this.acceptKeyword('ASC');
+      if (this.acceptKeyword('USING')) this.pos++; // PostgreSQL: ORDER BY x USING >
+      this.acceptAny('NULLS FIRST', 'NULLS LAST');
+      items.push({ expression, descending });
+    } while (this.acceptPunctuation(','));
+    return items;
+  }
+
+  private parseLimit(): Expression[] {
+    const limit: Expression[] = [];
+    for (;;) {
+      if (this.acceptKeyword('LIMIT')) {
+        if (this.acceptKeyword('ALL')) continue;
+        limit.push(this.parseExpression());
+        if (this.acceptPunctuation(',')) limit.push(this.parseExpression());
+      } else if (this.acceptKeyword('OFFSET')) {
+        limit.push(this.parseExpression());
+        this.acceptAny('ROWS', 'ROW');
+      } else if (this.acceptKeyword('FETCH')) {
+        this.acceptAny('FIRST', 'NEXT');
+        if (!this.isKeyword('ROW') && !this.isKeyword('ROWS')) limit.push(this.parseExpression());
+        this.acceptAny('ROWS', 'ROW');
+        this.acceptAny('ONLY', 'WITH TIES');
+      } else {
+        return limit;
+      }
+    }
+  }
+
+  /** FOR UPDATE / FOR SHARE [OF t] [NOWAIT | SKIP LOCKED], LOCK IN SHARE MODE */
+  private parseLocking() {
+    for (;;) {
+      if (this.acceptKeyword('LOCK', 'IN', 'SHARE', 'MODE')) continue;
+      if (!this.isKeyword('FOR') || !['UPDATE', 'SHARE', 'NO', 'KEY'].includes(this.keywordAt(1) ?? '')) return;
+      this.pos++;
+      this.acceptAny('NO KEY UPDATE', 'KEY SHARE', 'UPDATE', 'SHARE');
+      if (this.acceptKeyword('OF')) this.parseTableNameList();
+      this.acceptAny('NOWAIT', 'SKIP LOCKED');
+    }
+  }
+
+  // FROM clause
+
+  private parseFromList(): FromItem[] {
+    const items = [this.parseFromItem()];
+    while (this.acceptPunctuation(',')) items.push(this.parseFromItem());
+    return items;
+  }
+
+  private parseFromItem(): FromItem {
+    let left = this.parseTablePrimary();
+
+    for (;;) {
+      const natural = this.acceptKeyword('NATURAL');
+      let isJoin = false;
+      if (this.acceptKeyword('STRAIGHT_JOIN')) {
+        isJoin = true;
+      } else {
+        if (!this.acceptAny('INNER', 'CROSS') && this.acceptAny('LEFT', 'RIGHT', 'FULL')) {
+          this.acceptKeyword('OUTER');
+        }
+        isJoin = this.acceptKeyword('JOIN');
+      }
+      if (!isJoin) {
+        if (natural) throw this.error('Expected JOIN');
+        break;
+      }
+
+      const right = this.parseTablePrimary();
+      let on: Expression | null = null;
+      let using: string[] = [];
+      if (this.acceptKeyword('ON')) on = this.parseExpression();
+      else if (this.acceptKeyword('USING')) using = this.parseIdentifierList();
+      left = { type: 'join', left, right, on, using, natural };
+    }
+
+    return left;
+  }
+
+  private parseTablePrimary(): FromItem {
+    this.acceptKeyword('LATERAL');
+
+    if (this.isPunctuation('(')) {
+      if (this.isQueryStart(1)) {
+        this.pos++;
+        const query = this.parseQuery();
+        this.expectPunctuation(')');
+        const alias = this.parseAlias();
+        const columnAliases = alias && this.isPunctuation('(') ? this.parseColumnAliases() : [];
+        return { type: 'derived', query, alias, columnAliases };
+      }
+
+      // Parenthesized joins
+      this.pos++;
+      let item = this.parseFromItem();
+      while (this.acceptPunctuation(',')) {
+        item = { type: 'join', left: item, right: this.parseFromItem(), on: null, using: [], natural: false };
+      }
+      this.expectPunctuation(')');
+      return item;
+    }
+
+    const modifiers: string[] = [];
+    const only = this.acceptKeyword('ONLY');
+    if (only) modifiers.push('ONLY');
+    const hasParentheses = only && this.acceptPunctuation('(');
+    const start = this.offset();
+    const name = this.parseQualifiedName();
+    const span = this.spanFrom(start);
+    if (hasParentheses) this.expectPunctuation(')');
+
+    // Table functions: generate_series(1, 10) AS g(n), json_each(x)
+    if (this.isPunctuation('(') && !only) {
+      const call = this.parseFunctionCall(name);
+      if (call.type !== 'function') throw this.error('Expected a table');
+      this.acceptKeyword('WITH', 'ORDINALITY');
+      const alias = this.parseAlias();
+      const columnAliases = alias && this.isPunctuation('(') ? this.parseColumnAliases() : [];
+      return { type: 'function', call, alias, columnAliases };
+    }
+
+    if (this.isPunctuation('*')) { // PostgreSQL: include descendant tables
+      this.pos++;
+      modifiers.push('*');
+    }
+    if (this.acceptKeyword('PARTITION')) {
+      this.parseIdentifierList();
+      modifiers.push('PARTITION');
+    }
+
+    const alias = this.parseAlias();
+    const columnAliases = alias && this.isPunctuation('(') ? this.parseColumnAliases() : [];
+
+    // MySQL index hints: USE INDEX (i), FORCE KEY FOR JOIN (i)
+    while ((this.isKeyword('USE') || this.isKeyword('IGNORE') || this.isKeyword('FORCE'))
+      && (this.keywordAt(1) === 'INDEX' || this.keywordAt(1) === 'KEY')) {
+      modifiers.push(`${this.keywordAt(0)} INDEX`);
+      this.pos += 2;
+      if (this.acceptKeyword('FOR')) {
+        this.acceptAny('JOIN', 'ORDER BY', 'GROUP BY');
+      }
+      this.skipParentheses();
+    }
+    // SQLite index selection
+    if (this.acceptKeyword('INDEXED', 'BY')) {
+      this.parseIdentifier();
+      modifiers.push('INDEXED BY');
+    } else if (this.acceptKeyword('NOT', 'INDEXED')) {
+      modifiers.push('NOT INDEXED');
+    }
+
+    const sample: Expression[] = [];
+    if (this.acceptKeyword('TABLESAMPLE')) {
+      modifiers.push('TABLESAMPLE');
+      sample.push(this.parseExpression());
+      if (this.acceptKeyword('REPEATABLE')) sample.push(this.parseExpression());
+    }
+
+    return { type: 'table', table: toTableName(name), span, alias, columnAliases, sample, modifiers };
+  }
+
+  /** Column aliases, which for function sources may carry types: AS x(a int, b text) */
+  private parseColumnAliases(): string[] {
+    this.expectPunctuation('(');
+    const names: string[] = [];
+    do {
+      names.push(this.parseIdentifier());
+      while (!this.isPunctuation(',') && !this.isPunctuation(')')) {
+        if (!this.peek()) throw this.error('Expected ")"');
+        if (this.isPunctuation('(')) this.skipParentheses();
+        else this.pos++;
+      }
+    } while (this.acceptPunctuation(','));
+    this.expectPunctuation(')');
+    return names;
+  }
+
+  // Expressions
+
+  parseExpression(): Expression {
+    const operands = [this.parseUnary()];
+    const operators: string[] = [];
+
+    for (;;) {
+      const postfix = this.acceptPostfixOperator();
+      if (postfix) {
+        operators.push(postfix);
+        continue;
+      }
+      const operator = this.acceptBinaryOperator();
+      if (!operator) break;
+      operators.push(operator);
+
+      // SQLite: x IN <table>
+      if (this.dialect === 'sqlite' && operator.endsWith('IN') && this.isIdentifier() && !this.isPunctuation('(', 1)
+        && !(this.isPunctuation('.', 1) && this.isPunctuation('(', 3))) {
+        const table = this.parseTableQuery();
+        operands.push({ type: 'subquery', query: { type: 'query', with: [], body: table, orderBy: [], limit: [] }, exists: false });
+        continue;
+      }
+      operands.push(this.parseUnary());
+    }
+
+    return operators.length === 0 ? operands[0] : { type: 'operation', operators, operands };
+  }
+
+  private acceptPostfixOperator(): string | null {
+    if (this.acceptKeyword('ISNULL')) return 'ISNULL';
+    if (this.acceptKeyword('NOTNULL')) return 'NOTNULL';
+    if (this.acceptKeyword('NOT', 'NULL')) return 'NOT NULL';
+    return null;
+  }
+
+  private acceptBinaryOperator(): string | null {
+    const token = this.peek();
+    if (!token) return null;
+
+    if (token.type === 'operator') {
+      this.pos++;
+      return token.value;
+    }
+    if (token.type === 'punctuation' && token.value === '*') {
+      this.pos++;
+      return '*';
+    }
+    if (token.type !== 'word') return null;
+
+    const keyword = token.value.toUpperCase();
+    if (keyword === 'IS') {
+      this.pos++;
+      const not = this.acceptKeyword('NOT');
+      const distinct = this.acceptKeyword('DISTINCT', 'FROM');
+      return `IS${not ? ' NOT' : ''}${distinct ? ' DISTINCT FROM' : ''}`;
+    }
+    if (keyword === 'NOT' && NEGATABLE_OPERATORS.has(this.keywordAt(1) ?? '')) {
+      this.pos++;
+      return `NOT ${this.acceptBinaryOperator()}`;
+    }
+    if (this.acceptKeyword('SIMILAR', 'TO')) return 'SIMILAR TO';
+    if (this.acceptKeyword('SOUNDS', 'LIKE')) return 'SOUNDS LIKE';
+    if (this.acceptKeyword('MEMBER', 'OF')) return 'MEMBER OF';
+    if (this.acceptKeyword('AT', 'TIME', 'ZONE')) return 'AT TIME ZONE';
+    if ((keyword === 'DIV' || keyword === 'MOD') && !isMySql(this.dialect)) return null;
+    if (WORD_OPERATORS.has(keyword)) {
+      this.pos++;
+      if (keyword === 'BETWEEN') this.acceptAny('SYMMETRIC', 'ASYMMETRIC');
+      return keyword;
+    }
+    return null;
+  }
+
+  private parseUnary(): Expression {
+    const token = this.peek();
+
+    if (token?.type === 'operator' && token.value !== '::') {
+      this.pos++;
+      return { type: 'operation', operators: [token.value], operands: [this.parseUnary()] };
+    }
+    if (this.isKeyword('NOT') || (this.isKeyword('BINARY') && isMySql(this.dialect) && !this.isPunctuation('(', 1))) {
+      this.pos++;
+      return { type: 'operation', operators: [token!.value.toUpperCase()], operands: [this.parseUnary()] };
+    }
+    if (this.isKeyword('EXISTS') && this.isPunctuation('(', 1)) {
+      this.pos += 2;
+      const query = this.parseQuery();
+      this.expectPunctuation(')');
+      return { type: 'subquery', query, exists: true };
+    }
+
+    return this.parsePostfix(this.parsePrimary());
+  }
+
+  private parsePostfix(expression: Expression): Expression {
+    for (;;) {
+      if (this.isOperator('::')) {
+        this.pos++;
+        expression = { type: 'cast', expression, dataType: this.parseDataType() };
+      } else if (this.isPunctuation('[')) {
+        // PostgreSQL subscripts and slices: a[1], a[1:2]
+        this.pos++;
+        const operands = [expression];
+        while (!this.acceptPunctuation(']')) {
+          if (this.isOperator(':')) this.pos++;
+          else operands.push(this.parseExpression());
+        }
+        expression = { type: 'operation', operators: ['[]'], operands };
+      } else if (this.acceptKeyword('COLLATE')) {
+        this.pos++;
+      } else if (this.isPunctuation('.') && (this.isIdentifier(1) || this.isPunctuation('*', 1))) {
+        // Field of a composite value: (row).field
+        this.pos += 2;
+        expression = { type: 'operation', operators: ['.'], operands: [expression] };
+      } else {
+        return expression;
+      }
+    }
+  }
+
+  private parsePrimary(): Expression {
+    const token = this.peek();
+    if (!token) throw this.error('Expected an expression');
+
+    switch (token.type) {
+      case 'string':
+      case 'number':
+        this.pos++;
+        return { type: 'literal', value: token.value };
+      case 'parameter':
+        this.pos++;
+        return { type: 'parameter', name: token.value };
+      case 'operator':
+        throw this.error('Expected an expression');
+      case 'punctuation':
+        return this.parseParenthesized();
+    }
+
+    const keyword = token.type === 'word' ? token.value.toUpperCase() : null;
+    const next = this.peek(1);
+    const called = next?.type === 'punctuation' && next.value === '(';
+
+    if (keyword === 'CASE') return this.parseCase();
+    if (keyword && CONSTANT_KEYWORDS.has(keyword) && !called && !this.isPunctuation('.', 1)) {
+      this.pos++;
+      return { type: 'literal', value: keyword };
+    }
+    if (keyword === 'INTERVAL' && this.startsIntervalValue()) return this.parseInterval();
+    if (keyword === 'ARRAY' && this.isPunctuation('[', 1)) {
+      this.pos += 2;
+      const args: Expression[] = [];
+      while (!this.acceptPunctuation(']')) {
+        args.push(this.parseExpression());
+        this.acceptPunctuation(',');
+      }
+      return { type: 'function', name: ['ARRAY'], args, orderBy: [], filter: null, over: null };
+    }
+    // Typed literals: DATE '2024-01-01', PostgreSQL's int4 '1', MySQL's _utf8mb4'text'
+    if (keyword && next?.type === 'string' && (
+      ['DATE', 'TIME', 'TIMESTAMP'].includes(keyword)
+      || this.dialect === 'postgresql'
+      || (isMySql(this.dialect) && keyword.startsWith('_'))
+    )) {
+      this.pos += 2;
+      return { type: 'literal', value: next.value };
+    }
+    // END is reserved only in PostgreSQL; elsewhere it is a common column name
+    if (keyword && RESERVED.has(keyword) && !called && !(keyword === 'END' && this.dialect !== 'postgresql')) {
+      throw this.error('Expected an expression');
+    }
+
+    const parts: string[] = [this.parseIdentifier()];
+    while (this.isPunctuation('.')) {
+      if (this.isPunctuation('*', 1)) {
+        this.pos += 2;
+        return { type: 'star', qualifier: parts };
+      }
+      if (!this.isIdentifier(1)) break;
+      this.pos++;
+      parts.push(this.parseIdentifier());
+    }
+
+    if (this.isPunctuation('(')) return this.parseFunctionCall(parts);
+    return toColumn(parts);
+  }
+
+  private parseParenthesized(): Expression {
+    if (this.isPunctuation('*')) {
+      this.pos++;
+      return { type: 'star', qualifier: [] };
+    }
+    if (!this.isPunctuation('(')) throw this.error('Expected an expression');
+
+    const keyword = this.keywordAt(1);
+    if (keyword === 'SELECT' || keyword === 'WITH' || keyword === 'VALUES') {
+      this.pos++;
+      const query = this.parseQuery();
+      this.expectPunctuation(')');
+      return { type: 'subquery', query, exists: false };
+    }
+
+    this.pos++;
+    const items = [this.parseExpression()];
+    while (this.acceptPunctuation(',')) items.push(this.parseExpression());
+    this.expectPunctuation(')');
+    return items.length === 1 ? items[0] : { type: 'list', items };
+  }
+
+  private parseCase(): CaseExpression {
+    this.expectKeyword('CASE');
+    const operand = this.isKeyword('WHEN') ? null : this.parseExpression();
+    const branches: CaseExpression['branches'] = [];
+    while (this.acceptKeyword('WHEN')) {
+      const when = this.parseExpression();
+      this.expectKeyword('THEN');
+      branches.push({ when, then: this.parseExpression() });
+    }
+    const otherwise = this.acceptKeyword('ELSE') ? this.parseExpression() : null;
+    this.expectKeyword('END');
+    return { type: 'case', operand, branches, otherwise };
+  }
+
+  /** INTERVAL is also a column name; it starts a value only when one follows */
+  private startsIntervalValue(): boolean {
+    const next = this.peek(1);
+    if (!next) return false;
+    if (next.type === 'string' || next.type === 'number' || next.type === 'parameter' || next.type === 'identifier') return true;
+    if (next.type === 'punctuation') return next.value === '(';
+    if (next.type === 'operator') return next.value === '-' || next.value === '+';
+    return !RESERVED.has(next.value.toUpperCase());
+  }
+
+  private parseInterval(): Expression {
+    this.expectKeyword('INTERVAL');
+    const value = this.parseUnary();
+    // Units: INTERVAL 1 DAY, INTERVAL '1' DAY TO SECOND
+    while (DATE_UNITS.has(this.keywordAt() ?? '') || (this.isKeyword('TO') && DATE_UNITS.has(this.keywordAt(1) ?? ''))) {
+      this.pos++;
+    }
+    return { type: 'operation', operators: ['INTERVAL'], operands: [value] };
+  }
+
+  private parseFunctionCall(name: string[]): FunctionExpression | CastExpression {
+    const upper = name[name.length - 1].toUpperCase();
+    this.expectPunctuation('(');
+
+    const args: Expression[] = [];
+    const orderBy: OrderItem[] = [];
+    let dataType: string | null = null;
+
+    this.acceptAny('DISTINCT', 'ALL');
+    // TRIM(LEADING 'x' FROM y)
+    this.acceptAny('LEADING', 'TRAILING', 'BOTH');
+    // EXTRACT(YEAR FROM d), TIMESTAMPDIFF(MONTH, a, b)
+    if (DATE_UNIT_FUNCTIONS.has(upper) && DATE_UNITS.has(this.keywordAt() ?? '')) {
+      this.pos++;
+      if (!this.acceptKeyword('FROM')) this.acceptPunctuation(',');
+    }
+
+    while (!this.isPunctuation(')')) {
+      if (this.isKeyword('SELECT') || this.isKeyword('WITH')) {
+        args.push({ type: 'subquery', query: this.parseQuery(), exists: false });
+      } else {
+        args.push(this.parseExpression());
+      }
+
+      // Keyword argument separators of the standard's special functions
+      if (this.acceptPunctuation(',') || this.acceptAny('FROM', 'FOR', 'PLACING', 'SEPARATOR')) {
+        if (upper === 'CONVERT' && isMySql(this.dialect) && args.length === 1 && !this.isPunctuation(')')) {
+          dataType = this.parseDataType(); // CONVERT(x, SIGNED INTEGER)
+        }
+        continue;
+      }
+      if (this.acceptKeyword('AS')) {
+        dataType = this.parseDataType();
+      } else if (this.acceptKeyword('USING')) {
+        this.parseIdentifier(); // CONVERT(x USING utf8mb4)
+      } else if (this.acceptKeyword('ORDER', 'BY')) {
+        orderBy.push(...this.parseOrderBy());
+        if (this.acceptKeyword('SEPARATOR')) args.push(this.parseExpression());
+      } else if (this.acceptAny('IGNORE NULLS', 'RESPECT NULLS')) {
+        // Null handling of window functions
+      }
+      if (!this.isPunctuation(')')) throw this.error('Expected ")"');
+    }
+    this.expectPunctuation(')');
+
+    if ((upper === 'CAST' || upper === 'TRY_CAST' || upper === 'CONVERT') && dataType && args.length === 1) {
+      return { type: 'cast', expression: args[0], dataType };
+    }
+
+    // MySQL full-text search: MATCH (a, b) AGAINST ('x' IN BOOLEAN MODE)
+    if (upper === 'MATCH' && this.acceptKeyword('AGAINST')) {
+      this.expectPunctuation('(');
+      args.push(this.parseUnary());
+      while (!this.isPunctuation(')')) {
+        if (!this.peek()) throw this.error('Expected ")"');
+        this.pos++;
+      }
+      this.pos++;
+    }
+
+    if (this.acceptKeyword('WITHIN', 'GROUP')) {
+      this.expectPunctuation('(');
+      this.expectKeyword('ORDER', 'BY');
+      orderBy.push(...this.parseOrderBy());
+      this.expectPunctuation(')');
+    }
+
+    let filter: Expression | null = null;
+    if (this.isKeyword('FILTER') && this.isPunctuation('(', 1)) {
+      this.pos += 2;
+      this.expectKeyword('WHERE');
+      filter = this.parseExpression();
+      this.expectPunctuation(')');
+    }
+
+    let over: WindowSpec | null = null;
+    if (this.acceptKeyword('OVER')) {
+      over = this.isPunctuation('(')
+        ? this.parseWindowSpec()
+        : { name: this.parseIdentifier(), partitionBy: [], orderBy: [], frame: [] };
+    }
+
+    return { type: 'function', name, args, orderBy, filter, over };
+  }
+
+  private parseWindowSpec(): WindowSpec {
+    this.expectPunctuation('(');
+    const spec: WindowSpec = { name: null, partitionBy: [], orderBy: [], frame: [] };
+
+    if (this.isAliasAt() && !this.isKeyword('ORDER') && !this.isKeyword('ROWS') && !this.isKeyword('RANGE') && !this.isKeyword('GROUPS')) {
+      spec.name = this.parseIdentifier();
+    }
+    if (this.acceptKeyword('PARTITION', 'BY')) {
+      do {
+        spec.partitionBy.push(this.parseExpression());
+      } while (this.acceptPunctuation(','));
+    }
+    if (this.acceptKeyword('ORDER', 'BY')) {
+      spec.orderBy = this.parseOrderBy();
+    }
+    if (this.acceptAny('ROWS', 'RANGE', 'GROUPS')) {
+      const frameWords = ['BETWEEN', 'AND', 'UNBOUNDED', 'PRECEDING', 'FOLLOWING', 'CURRENT', 'ROW', 'EXCLUDE', 'NO', 'OTHERS', 'TIES', 'GROUP'];
+      while (!this.isPunctuation(')')) {
+        if (!this.peek()) throw this.error('Expected ")"');
+        if (frameWords.includes(this.keywordAt() ?? '')) this.pos++;
+        else spec.frame.push(this.parseUnary());
+      }
+    }
+
+    this.expectPunctuation(')');
+    return spec;
+  }
+
+  private parseDataType(): string {
+    const parts = [this.parseQualifiedName().join('.')];
+    for (;;) {
+      if (this.isPunctuation('(')) {
+        this.skipParentheses();
+      } else if (this.acceptAny('WITH TIME ZONE', 'WITHOUT TIME ZONE', 'WITH LOCAL TIME ZONE')) {
+        parts.push('TIME ZONE');
+      } else if (this.acceptAny('CHARACTER SET', 'CHARSET')) {
+        parts.push(this.parseIdentifier());
+      } else if (TYPE_CONTINUATIONS.has(this.keywordAt() ?? '')) {
+        parts.push(this.parseIdentifier());
+      } else if (this.isPunctuation('[')) {
+        // Array types: int[], text[3]
+        this.pos++;
+        if (this.peek()?.type === 'number') this.pos++;
+        this.expectPunctuation(']');
+      } else {
+        return parts.join(' ');
+      }
+    }
+  }
+}
+
+function command(name: string, fields: Partial<Omit<CommandStatement, 'type' | 'command'>> = {}): CommandStatement {
+  return {
+    type: 'command',
+    command: name,
+    reads: [],
+    writes: [],
+    query: null,
+    write: false,
+    opaque: false,
+    ...fields,
+  };
+}
+
+function isMySql(dialect: DatabaseType): boolean {
+  return dialect === 'mysql' || dialect === 'mariadb';
+}
+
+function toTableName(parts: string[]): TableName {
+  return {
+    schema: parts.length > 1 ? parts[parts.length - 2] : null,
+    name: parts[parts.length - 1],
+  };
+}
+
+function toColumn(parts: string[]): ColumnExpression {
+  return { type: 'column', qualifier: parts.slice(0, -1), name: parts[parts.length - 1] };
+}
+
+/** Tables or aliases a FROM item names directly, as DELETE targets */
+function sourceTableNames(item: FromItem): TableName[] {
+  switch (item.type) {
+    case 'table':
+      return [item.alias ? { schema: null, name: item.alias } : item.table];
+    case 'join':
+      return [...sourceTableNames(item.left), ...sourceTableNames(item.right)];
+    default:
+      return item.alias ? [{ schema: null, name: item.alias }] : [];
+  }
+}
+
+function lastSelect(body: QueryBody): SelectQuery | null {
+  switch (body.type) {
+    case 'select':
+      return body;
+    case 'set-operation':
+      return lastSelect(body.right);
+    case 'query':
+      return lastSelect(body.body);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parse SQL text into statements. Throws SqlSyntaxError for SQL the parser
+ * doesn't understand.
+ */
+export function parseSql(sql: string, dialect: DatabaseType, options: TokenizeOptions = {}): Statement[] {
+  const tokens = tokenizeSql(sql, dialect, options);
+  return new Parser(tokens, dialect, sql.length).parseStatements();
+}
@@ -0,0 +1,311 @@
+/**
+ * SQL Tokenizer
+ *
+ * Splits SQL into tokens following the quoting and comment rules of each
+ * dialect: backtick and double-quoted identifiers, bracketed identifiers in
+ * SQLite, dollar-quoted strings in PostgreSQL, and MySQL `#` comments and
+ * executable comments, whose content MySQL runs as ordinary SQL.
+ */
+
+import type { DatabaseType } from '@/types';
+
+export type SqlTokenType =
+  | 'word' // Unquoted identifier or keyword
+  | 'identifier' // Quoted identifier
+  | 'string'
+  | 'number'
+  | 'parameter' // ?, $1, :name, @name, @@name
+  | 'operator'
+  | 'punctuation'; // ( ) , ; . [ ] *
+
+export interface SqlToken {
+  type: SqlTokenType;
+  /** Identifier text without quotes; keywords and operators as written */
+  value: string;
+  start: number;
+  end: number;
+}
+
+export class SqlSyntaxError extends Error {
+  constructor(message: string, readonly offset: number) {
+    super(message);
+    this.name = 'SqlSyntaxError';
+  }
+}
+
+const OPERATOR_CHARS = new Set('+-/<>=~!@#%^&|?:'.split(''));
+
+function isWordStart(ch: string): boolean {
+  return /[A-Za-z_]/.test(ch) || ch.charCodeAt(0) > 127;
+}
+
+function isWordChar(ch: string): boolean {
+  return /[A-Za-z0-9_$]/.test(ch) || ch.charCodeAt(0) > 127;
+}
+
+function isMySql(dialect: DatabaseType): boolean {
+  return dialect === 'mysql' || dialect === 'mariadb';
+}
+
+/**
+ * Decode the escapes of a PostgreSQL U&'..' string or U&".." identifier:
+ * \XXXX and \+XXXXXX code points, and a doubled escape character for itself.
+ */
+function decodeUnicodeEscapes(text: string, escape: string, offset: number): string {
+  if (/[0-9A-Fa-f+'"\s]/.test(escape)) throw new SqlSyntaxError('Invalid Unicode escape character', offset);
+  let decoded = '';
+  let i = 0;
+  while (i < text.length) {
+    if (text[i] !== escape) {
+      decoded += text[i++];
+      continue;
+    }
+    if (text[i + 1] === escape) {
+      decoded += escape;
+      i += 2;
+      continue;
+    }
+    const match = text.slice(i + 1).match(/^(?:[0-9A-Fa-f]{4}|\+[0-9A-Fa-f]{6})/);
+    const codePoint = match ? parseInt(match[0].replace('+', ''), 16) : NaN;
+    if (!match || codePoint > 0x10ffff) throw new SqlSyntaxError('Invalid Unicode escape', offset);
+    decoded += String.fromCodePoint(codePoint);
+    i += 1 + match[0].length;
+  }
+  return decoded;
+}
+
+export interface TokenizeOptions {
+  /**
+   * Whether backslash escapes characters in MySQL strings. It does unless the
+   * server runs with NO_BACKSLASH_ESCAPES, so callers checking permissions
+   * should consider both readings of SQL that contains backslashes.
+   */
+  backslashEscapes?: boolean;
+  /**
+   * Whether the content of conditional executable comments is SQL: versioned
+   * ones (/*!50700 ...), which servers older than the version skip, and in
+   * MySQL, MariaDB's /*M! comments. Like backslashes, these depend on the
+   * server, so both readings should be considered.
+   */
+  conditionalComments?: boolean;
+}
+
+export function tokenizeSql(sql: string, dialect: DatabaseType, options: TokenizeOptions = {}): SqlToken[] {
+  const tokens: SqlToken[] = [];
+  const mysql = isMySql(dialect);
+  const backslashEscapes = mysql && (options.backslashEscapes ?? true);
+  const conditionalComments = options.conditionalComments ?? true;
+  // Open MySQL executable comments; their closing */ is skipped, not a syntax error
+  let executableComments = 0;
+  let i = 0;
+
+  const push = (type: SqlTokenType, value: string, start: number) => {
+    tokens.push({ type, value, start, end: i });
+  };
+
+  // Quoted text with doubled-quote escapes (and backslash escapes where the dialect has them)
+  const readQuoted = (quote: string, escapes: boolean): string => {
+    const start = i;
+    let text = '';
+    i++;
+    while (i < sql.length) {
+      const ch = sql[i];
+      if (escapes && ch === '\\' && i + 1 < sql.length) {
+        text += sql[i + 1];
+        i += 2;
+        continue;
+      }
+      if (ch === quote) {
+        if (sql[i + 1] === quote) {
+          text += quote;
+          i += 2;
+          continue;
+        }
+        i++;
+        return text;
+      }
+      text += ch;
+      i++;
+    }
+    throw new SqlSyntaxError('Unterminated quoted text', start);
+  };
+
+  while (i < sql.length) {
+    const ch = sql[i];
+    const next = sql[i + 1] ?? '';
+    const start = i;
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    // Line comments; in MySQL "--" only starts a comment when followed by whitespace
+    if (
+      (ch === '-' && next === '-' && (!mysql || /\s/.test(sql[i + 2] ?? ' '))) ||
+      (ch === '#' && mysql)
+    ) {
+      while (i < sql.length && sql[i] !== '\n') i++;
+      continue;
+    }
+
+    if (ch === '/' && next === '*') {
+      // MySQL runs the content of /*! ... */ and MariaDB of /*M! ... */ as SQL
+      const mariadbOnly = sql[i + 2] === 'M' && sql[i + 3] === '!';
+      const executable = mysql && (sql[i + 2] === '!' || mariadbOnly);
+      const conditional = /[0-9]/.test(sql[i + (mariadbOnly ? 4 : 3)] ?? '') || (mariadbOnly && dialect === 'mysql');
+      if (executable && (conditionalComments || !conditional)) {
+        i += mariadbOnly ? 4 : 3;
+        while (/[0-9]/.test(sql[i] ?? '')) i++;
+        executableComments++;
+        continue;
+      }
+
+      // PostgreSQL block comments nest
+      let depth = 1;
+      i += 2;
+      while (i < sql.length && depth > 0) {
+        if (sql[i] === '*' && sql[i + 1] === '/') {
+          depth--;
+          i += 2;
+        } else if (dialect === 'postgresql' && sql[i] === '/' && sql[i + 1] === '*') {
+          depth++;
+          i += 2;
+        } else {
+          i++;
+        }
+      }
+      if (depth > 0) throw new SqlSyntaxError('Unterminated comment', start);
+      continue;
+    }
+
+    if (ch === '*' && next === '/' && executableComments > 0) {
+      executableComments--;
+      i += 2;
+      continue;
+    }
+
+    // String literals, including prefixed forms: E'..', N'..', X'..', B'..'
+    if (ch === '\'') {
+      push('string', readQuoted('\'', backslashEscapes), start);
+      continue;
+    }
+    if (/[EeNnXxBb]/.test(ch) && next === '\'') {
+      i++;
+      push('string', readQuoted('\'', backslashEscapes || (dialect === 'postgresql' && /[Ee]/.test(ch))), start);
+      continue;
+    }
+    // PostgreSQL Unicode escapes: U&'..' strings and U&".." identifiers, with an optional UESCAPE clause
+    if ((ch === 'U' || ch === 'u') && next === '&' && /['"]/.test(sql[i + 2] ?? '') && dialect === 'postgresql') {
+      const quote = sql[i + 2];
+      i += 2;
+      const text = readQuoted(quote, false);
+      const uescape = sql.slice(i).match(/^\s*UESCAPE\s*'([^'])'/i);
+      if (uescape) i += uescape[0].length;
+      push(quote === '"' ? 'identifier' : 'string', decodeUnicodeEscapes(text, uescape?.[1] ?? '\\', start), start);
+      continue;
+    }
+
+    // PostgreSQL dollar-quoted strings: $$...$$ or $tag$...$tag$
+    if (ch === '$' && dialect === 'postgresql') {
+      const tag = sql.slice(i).match(/^\$([A-Za-z_][A-Za-z0-9_]*)?\$/);
+      if (tag) {
+        const close = sql.indexOf(tag[0], i + tag[0].length);
+        if (close === -1) throw new SqlSyntaxError('Unterminated dollar-quoted string', start);
+        const text = sql.slice(i + tag[0].length, close);
+        i = close + tag[0].length;
+        push('string', text, start);
+        continue;
+      }
+      const positional = sql.slice(i).match(/^\$\d+/);
+      if (positional) {
+        i += positional[0].length;
+        push('parameter', positional[0], start);
+        continue;
+      }
+    }
+
+    // Quoted identifiers. MySQL treats "..." as a string unless ANSI_QUOTES is on;
+    // reading it as an identifier is the safe interpretation for permission checks.
+    if (ch === '"') {
+      push('identifier', readQuoted('"', backslashEscapes), start);
+      continue;
+    }
+    if (ch === '`' && (mysql || dialect === 'sqlite')) {
+      push('identifier', readQuoted('`', false), start);
+      continue;
+    }
+    if (ch === '[' && dialect === 'sqlite') {
+      const close = sql.indexOf(']', i);
+      if (close === -1) throw new SqlSyntaxError('Unterminated bracketed identifier', start);
+      const text = sql.slice(i + 1, close);
+      i = close + 1;
+      push('identifier', text, start);
+      continue;
+    }
+
+    // Numbers; MySQL identifiers may start with digits (e.g. 1st_quarter)
+    if (/[0-9]/.test(ch) || (ch === '.' && /[0-9]/.test(next))) {
+      const match = sql.slice(i).match(/^(0x[0-9A-Fa-f]+|(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?)/)!;
+      const after = sql[i + match[0].length] ?? '';
+      if (mysql && isWordChar(after) && !/^0x/i.test(match[0])) {
+        while (i < sql.length && isWordChar(sql[i])) i++;
+        push('word', sql.slice(start, i), start);
+        continue;
+      }
+      i += match[0].length;
+      push('number', match[0], start);
+      continue;
+    }
+
+    if (isWordStart(ch)) {
+      while (i < sql.length && isWordChar(sql[i])) i++;
+      push('word', sql.slice(start, i), start);
+      continue;
+    }
+
+    // Parameters: ?, ?1, :name, @name, @@name, $name. In PostgreSQL ? is a JSON operator.
+    if (ch === '?' && dialect !== 'postgresql') {
+      i++;
+      while (/[0-9]/.test(sql[i] ?? '')) i++;
+      push('parameter', sql.slice(start, i), start);
+      continue;
+    }
+    if ((ch === ':' || ch === '@' || ch === '$') && isWordStart(next) && !(ch === ':' && sql[i - 1] === ':')) {
+      i++;
+      while (i < sql.length && isWordChar(sql[i])) i++;
+      push('parameter', sql.slice(start, i), start);
+      continue;
+    }
+    if (ch === '@' && next === '@' && mysql) {
+      i += 2;
+      while (i < sql.length && (isWordChar(sql[i]) || sql[i] === '.')) i++;
+      push('parameter', sql.slice(start, i), start);
+      continue;
+    }
+
+    if ('(),;.[]*'.includes(ch)) {
+      i++;
+      push('punctuation', ch, start);
+      continue;
+    }
+
+    if (OPERATOR_CHARS.has(ch)) {
+      while (i < sql.length && OPERATOR_CHARS.has(sql[i])) {
+        // Don't swallow the start of a comment
+        if ((sql[i] === '-' && sql[i + 1] === '-') || (sql[i] === '/' && sql[i + 1] === '*')) break;
+        i++;
+      }
+      if (i === start) i++;
+      // As in PostgreSQL, a trailing + or - is a separate prefix operator (a=-1)
+      // unless the operator contains a character only custom operators use
+      while (i - start > 1 && /[+-]/.test(sql[i - 1]) && !/[~!@#%^&|`?]/.test(sql.slice(start, i))) i--;
+      push('operator', sql.slice(start, i), start);
+      continue;
+    }
+
+    throw new SqlSyntaxError(`Unexpected character "${ch}"`, start);
+  }
+
+  return tokens;
+}
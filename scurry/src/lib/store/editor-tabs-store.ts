@@ -1,6 +1,6 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import type { QueryResult } from '@/types';
+import type { ChartConfig, QueryResult, ScriptResult } from '@/types';
 
 export interface EditorTab {
   id: string;
@@ -10,6 +10,8 @@ export interface EditorTab {
   isDirty: boolean;
   savedSql: string; // Track original to detect dirty state
   result: QueryResult | null;
+  scriptResult?: ScriptResult | null; // Set instead of result when a script ran
+  chart?: ChartConfig | null; // Chart view settings, saved with the query
   lastExecutedAt: Date | null;
 }
 
@@ -24,7 +26,9 @@ interface EditorTabsState {
   switchTab: (tabId: string) => void;
   updateTabSql: (tabId: string, sql: string) => void;
   updateTabResult: (tabId: string, result: QueryResult | null) => void;
+  updateTabScriptResult: (tabId: string, scriptResult: ScriptResult | null) => void;
   updateTabConnection: (tabId: string, connectionId: string | null) => void;
+  updateTabChart: (tabId: string, chart: ChartConfig | null) => void;
   renameTab: (tabId: string, title: string) => void;
   markTabSaved: (tabId: string) => void;
   duplicateTab: (tabId: string) => string;
@@ -58,6 +62,8 @@ function createNewTab(
     connectionId,
     isDirty: false,
     result: null,
+    scriptResult: null,
+    chart: null,
     lastExecutedAt: null,
   };
 }
@@ -151,6 +157,7 @@ export const useEditorTabsStore = create<EditorTabsState>()(
               ? { 
                   ...tab, 
                   result,
+                  scriptResult: null,
                   lastExecutedAt: result ? new Date() : tab.lastExecutedAt,
                 }
               : tab
@@ -158,6 +165,21 @@ export const useEditorTabsStore = create<EditorTabsState>()(
         }));
       },
 
+      updateTabScriptResult: (tabId, scriptResult) => {
+        set((state) => ({
+          tabs: state.tabs.map(tab =>
+            tab.id === tabId
+              ? {
+                  ...tab,
+                  result: null,
+                  scriptResult,
+                  lastExecutedAt: scriptResult ? new Date() : tab.lastExecutedAt,
+                }
+              : tab
+          ),
+        }));
+      },
+
       updateTabConnection: (tabId, connectionId) => {
         set((state) => ({
           tabs: state.tabs.map(tab =>
@@ -166,6 +188,14 @@ export const useEditorTabsStore = create<EditorTabsState>()(
         }));
       },
 
+      updateTabChart: (tabId, chart) => {
+        set((state) => ({
+          tabs: state.tabs.map(tab =>
+            tab.id === tabId ? { ...tab, chart } : tab
+          ),
+        }));
+      },
+
       renameTab: (tabId, title) => {
         if (!title.trim()) return;
         set((state) => ({
@@ -199,6 +229,7 @@ export const useEditorTabsStore = create<EditorTabsState>()(
           isDirty: false,
           savedSql: sourceTab.sql,
           result: null,
+          scriptResult: null,
           lastExecutedAt: null,
         };
         
@@ -307,6 +338,7 @@ export const useEditorTabsStore = create<EditorTabsState>()(
         tabs: state.tabs.map(tab => ({
           ...tab,
           result: null, // Don't persist query results
+          scriptResult: null,
         })),
         activeTabId: state.activeTabId,
         tabCounter: state.tabCounter,
@@ -74,6 +74,9 @@ export const usePendingChangesStore = create<PendingChangesState>()(
     }),
     {
       name: 'scurrydb-pending-changes',
+      // Version 0 updates don't carry their row's primary key, so they can't be saved
+      version: 1,
+      migrate: () => ({ pendingChanges: {} }),
       partialize: (state) => ({ pendingChanges: state.pendingChanges }),
     }
   )
@@ -1,11 +1,14 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import type { TeamCapability } from '@/lib/validations/team';
 
 interface Team {
   id: string;
   name: string;
   slug: string;
   role: string;
+  // Missing on teams persisted before roles had capabilities
+  capabilities?: TeamCapability[];
 }
 
 // Workspace change listeners for cross-store communication
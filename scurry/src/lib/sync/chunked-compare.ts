@@ -0,0 +1,268 @@
+/**
+ * Chunked Table Comparison
+ *
+ * Walks the source table in primary-key order, one chunk at a time, and
+ * diffs each key range against the same range in the target. Only one chunk
+ * of source rows and one page of target rows are in memory at once, so tables
+ * of any size can be compared. When both sides are the same database type,
+ * each range is first checked with COUNT plus an aggregate checksum and
+ * identical ranges are skipped without fetching their rows.
+ */
+
+import { executeQueryWithParams } from '@/lib/db/query-executor';
+import { quoteIdentifier, getPlaceholder, type DatabaseType } from '@/lib/db/sql-utils';
+import { serializePrimaryKey } from '@/lib/store/sync-store';
+import { diffRowPair, extractPrimaryKey } from './diff-calculator';
+import type { DatabaseConnection } from '@/types';
+import type { CompareProgress, RowDiff } from '@/types/sync';
+
+export const DEFAULT_COMPARE_CHUNK_SIZE = 1000;
+
+export interface ChunkedCompareOptions {
+  sourceConnection: DatabaseConnection;
+  targetConnection: DatabaseConnection;
+  tableName: string;
+  primaryKeyColumns: string[];
+  columns: string[];
+  chunkSize?: number;
+  useChunkHashes?: boolean;
+  /** Also yield rows that match (needed to colour every row in the grid) */
+  includeMatches?: boolean;
+}
+
+export interface CompareChunk {
+  diffs: RowDiff[];
+  progress: CompareProgress;
+}
+
+type PrimaryKey = Record<string, unknown>;
+
+interface KeyRange {
+  /** Exclusive lower bound, null for the start of the table */
+  after: PrimaryKey | null;
+  /** Inclusive upper bound, null for the end of the table */
+  through: PrimaryKey | null;
+}
+
+/**
+ * Databases with a hash function usable inside an aggregate
+ */
+export function supportsChunkChecksums(dbType: DatabaseType): boolean {
+  return dbType === 'postgresql' || dbType === 'mysql' || dbType === 'mariadb';
+}
+
+class KeyedTableReader {
+  private readonly quotedTable: string;
+  private readonly quotedKeys: string[];
+  private readonly orderBy: string;
+
+  constructor(
+    private readonly connection: DatabaseConnection,
+    private readonly dbType: DatabaseType,
+    tableName: string,
+    private readonly primaryKeyColumns: string[],
+    private readonly columns: string[]
+  ) {
+    this.quotedTable = quoteIdentifier(tableName, dbType);
+    this.quotedKeys = primaryKeyColumns.map((col) => quoteIdentifier(col, dbType));
+    this.orderBy = this.quotedKeys.join(', ');
+  }
+
+  /**
+   * WHERE clause restricting rows to a key range. Composite keys use row
+   * value comparison so the range follows the ORDER BY exactly.
+   */
+  private rangeClause(range: KeyRange): { sql: string; params: unknown[] } {
+    const keyExpr = this.quotedKeys.length === 1 ? this.quotedKeys[0] : `(${this.quotedKeys.join(', ')})`;
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    const bound = (key: PrimaryKey, operator: string) => {
+      const placeholders = this.primaryKeyColumns.map((col) => {
+        params.push(key[col]);
+        return getPlaceholder(this.dbType, params.length);
+      });
+      const valueExpr = placeholders.length === 1 ? placeholders[0] : `(${placeholders.join(', ')})`;
+      conditions.push(`${keyExpr} ${operator} ${valueExpr}`);
+    };
+
+    if (range.after) bound(range.after, '>');
+    if (range.through) bound(range.through, '<=');
+
+    return {
+      sql: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+      params,
+    };
+  }
+
+  private async run(sql: string, params: unknown[], limit?: number): Promise<Record<string, unknown>[]> {
+    const result = await executeQueryWithParams(this.connection, sql, params, limit);
+    if (result.error) {
+      throw new Error(result.error);
+    }
+    return result.rows;
+  }
+
+  /**
+   * Key of the row `size` rows past `after`, or null when fewer rows remain
+   */
+  async findChunkEnd(after: PrimaryKey | null, size: number): Promise<PrimaryKey | null> {
+    const where = this.rangeClause({ after, through: null });
+    const rows = await this.run(
+      `SELECT ${this.orderBy} FROM ${this.quotedTable} ${where.sql} ORDER BY ${this.orderBy} LIMIT 1 OFFSET ${size - 1}`,
+      where.params,
+      1
+    );
+    return rows[0] ? extractPrimaryKey(rows[0], this.primaryKeyColumns) : null;
+  }
+
+  async readPage(range: KeyRange, size: number): Promise<Record<string, unknown>[]> {
+    const where = this.rangeClause(range);
+    const columnList = this.columns.map((col) => quoteIdentifier(col, this.dbType)).join(', ');
+    return this.run(
+      `SELECT ${columnList} FROM ${this.quotedTable} ${where.sql} ORDER BY ${this.orderBy} LIMIT ${size}`,
+      where.params,
+      size
+    );
+  }
+
+  /**
+   * Row count and an order-independent checksum of the compared columns.
+   * Each column is hashed on its own so values can't run into each other.
+   */
+  async checksum(range: KeyRange): Promise<{ count: number; checksum: string }> {
+    const where = this.rangeClause(range);
+    const quotedColumns = this.columns.map((col) => quoteIdentifier(col, this.dbType));
+
+    let sql: string;
+    if (this.dbType === 'postgresql') {
+      const rowHash = `md5(concat(${quotedColumns.map((col) => `COALESCE(md5(${col}::text), 'null')`).join(', ')}))`;
+      sql = `SELECT COUNT(*) AS row_count, COALESCE(SUM(('x' || substr(${rowHash}, 1, 8))::bit(32)::bigint), 0)::text AS checksum`;
+    } else {
+      const rowHash = `MD5(CONCAT(${quotedColumns.map((col) => `COALESCE(MD5(${col}), 'null')`).join(', ')}))`;
+      sql = `SELECT COUNT(*) AS row_count, CAST(COALESCE(SUM(CRC32(${rowHash})), 0) AS CHAR) AS checksum`;
+    }
+
+    const rows = await this.run(`${sql} FROM ${this.quotedTable} ${where.sql}`, where.params, 1);
+    return {
+      count: Number(rows[0]?.row_count ?? 0),
+      checksum: String(rows[0]?.checksum ?? '0'),
+    };
+  }
+}
+
+function emptyProgress(checksums: boolean): CompareProgress {
+  return {
+    chunksProcessed: 0,
+    chunksSkipped: 0,
+    sourceRowsScanned: 0,
+    targetRowsScanned: 0,
+    matchingRows: 0,
+    differentRows: 0,
+    sourceOnlyRows: 0,
+    targetOnlyRows: 0,
+    checksums,
+  };
+}
+
+function countDiff(progress: CompareProgress, diff: RowDiff): void {
+  switch (diff.status) {
+    case 'match':
+      progress.matchingRows++;
+      break;
+    case 'different':
+      progress.differentRows++;
+      break;
+    case 'source-only':
+      progress.sourceOnlyRows++;
+      break;
+    case 'target-only':
+      progress.targetOnlyRows++;
+      break;
+  }
+}
+
+/**
+ * Compare two tables chunk by chunk. Yields the diffs found in each chunk
+ * together with running totals; the last yielded progress is the summary.
+ */
+export async function* compareTablesInChunks(options: ChunkedCompareOptions): AsyncGenerator<CompareChunk> {
+  const { primaryKeyColumns, columns } = options;
+  const chunkSize = options.chunkSize ?? DEFAULT_COMPARE_CHUNK_SIZE;
+  const sourceType = options.sourceConnection.type as DatabaseType;
+  const targetType = options.targetConnection.type as DatabaseType;
+
+  // Checksums only agree when both sides render values the same way
+  const checksums = (options.useChunkHashes ?? false)
+    && sourceType === targetType
+    && supportsChunkChecksums(sourceType);
+
+  const source = new KeyedTableReader(options.sourceConnection, sourceType, options.tableName, primaryKeyColumns, columns);
+  const target = new KeyedTableReader(options.targetConnection, targetType, options.tableName, primaryKeyColumns, columns);
+  const progress = emptyProgress(checksums);
+
+  let after: PrimaryKey | null = null;
+  while (true) {
+    const through = await source.findChunkEnd(after, chunkSize);
+    const range: KeyRange = { after, through };
+    const diffs: RowDiff[] = [];
+
+    let skipped = false;
+    if (checksums) {
+      const [sourceSum, targetSum] = await Promise.all([source.checksum(range), target.checksum(range)]);
+      if (sourceSum.count === targetSum.count && sourceSum.checksum === targetSum.checksum) {
+        skipped = true;
+        progress.chunksSkipped++;
+        progress.sourceRowsScanned += sourceSum.count;
+        progress.targetRowsScanned += targetSum.count;
+        progress.matchingRows += sourceSum.count;
+      }
+    }
+
+    if (!skipped) {
+      // The range holds at most chunkSize source rows by construction
+      const sourceRows = await source.readPage(range, chunkSize);
+      progress.sourceRowsScanned += sourceRows.length;
+
+      const unmatched = new Map<string, Record<string, unknown>>();
+      for (const row of sourceRows) {
+        unmatched.set(serializePrimaryKey(extractPrimaryKey(row, primaryKeyColumns)), row);
+      }
+
+      // The target may hold any number of extra rows in the range; page through them
+      let targetAfter = after;
+      while (true) {
+        const targetRows = await target.readPage({ after: targetAfter, through }, chunkSize);
+        progress.targetRowsScanned += targetRows.length;
+
+        for (const targetRow of targetRows) {
+          const pk = extractPrimaryKey(targetRow, primaryKeyColumns);
+          const pkString = serializePrimaryKey(pk);
+          const sourceRow = unmatched.get(pkString);
+          unmatched.delete(pkString);
+
+          const diff = diffRowPair(pk, pkString, sourceRow, targetRow, columns);
+          countDiff(progress, diff);
+          if (diff.status !== 'match' || options.includeMatches) {
+            diffs.push(diff);
+          }
+        }
+
+        if (targetRows.length < chunkSize) break;
+        targetAfter = extractPrimaryKey(targetRows[targetRows.length - 1], primaryKeyColumns);
+      }
+
+      for (const [pkString, sourceRow] of unmatched) {
+        const diff = diffRowPair(extractPrimaryKey(sourceRow, primaryKeyColumns), pkString, sourceRow, undefined, columns);
+        countDiff(progress, diff);
+        diffs.push(diff);
+      }
+    }
+
+    progress.chunksProcessed++;
+    yield { diffs, progress: { ...progress } };
+
+    if (!through) break;
+    after = through;
+  }
+}
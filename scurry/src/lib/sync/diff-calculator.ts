@@ -54,29 +54,7 @@ export function calculateRowDiffs(options: CompareOptions): RowDiff[] {
       ? extractPrimaryKey(sourceRow, primaryKeyColumns)
       : extractPrimaryKey(targetRow!, primaryKeyColumns);
 
-    let status: RowDiffStatus;
-    let cellDiffs: CellDiff[] = [];
-
-    if (sourceRow && targetRow) {
-      // Row exists in both - check for differences
-      cellDiffs = compareCells(sourceRow, targetRow, columns);
-      status = cellDiffs.length > 0 ? 'different' : 'match';
-    } else if (sourceRow) {
-      // Row only in source
-      status = 'source-only';
-    } else {
-      // Row only in target
-      status = 'target-only';
-    }
-
-    diffs.push({
-      primaryKey: pk,
-      primaryKeyString: pkString,
-      status,
-      cellDiffs,
-      sourceRow,
-      targetRow,
-    });
+    diffs.push(diffRowPair(pk, pkString, sourceRow, targetRow, columns));
   });
 
   // Sort by primary key for consistent ordering
@@ -85,10 +63,45 @@ export function calculateRowDiffs(options: CompareOptions): RowDiff[] {
   return diffs;
 }
 
+/**
+ * Build the diff for one primary key given the row on each side (if any)
+ */
+export function diffRowPair(
+  primaryKey: Record<string, unknown>,
+  primaryKeyString: string,
+  sourceRow: Record<string, unknown> | undefined,
+  targetRow: Record<string, unknown> | undefined,
+  columns: string[]
+): RowDiff {
+  let status: RowDiffStatus;
+  let cellDiffs: CellDiff[] = [];
+
+  if (sourceRow && targetRow) {
+    // Row exists in both - check for differences
+    cellDiffs = compareCells(sourceRow, targetRow, columns);
+    status = cellDiffs.length > 0 ? 'different' : 'match';
+  } else if (sourceRow) {
+    // Row only in source
+    status = 'source-only';
+  } else {
+    // Row only in target
+    status = 'target-only';
+  }
+
+  return {
+    primaryKey,
+    primaryKeyString,
+    status,
+    cellDiffs,
+    sourceRow,
+    targetRow,
+  };
+}
+
 /**
  * Extract primary key values from a row
  */
-function extractPrimaryKey(
+export function extractPrimaryKey(
   row: Record<string, unknown>,
   primaryKeyColumns: string[]
 ): Record<string, unknown> {
@@ -0,0 +1,526 @@
+/**
+ * Schema Diff
+ *
+ * Compares a table's structure between two connections of the same database
+ * type (columns, primary key, indexes and foreign keys) and produces the DDL
+ * that brings the target in line with the source. Steps that drop or rewrite
+ * existing objects are marked destructive so the preview can call them out
+ * and a sync only runs them when asked to.
+ */
+
+import {
+  fetchColumns,
+  fetchIndexes,
+  fetchForeignKeys,
+  type ForeignKeyInfo,
+} from '@/lib/db/schema-fetcher';
+import { quoteIdentifier, toSqlLiteral, type DatabaseType } from '@/lib/db/sql-utils';
+import type { ColumnDefinition, DatabaseConnection, IndexInfo } from '@/types';
+import type { StructureChange } from '@/types/sync';
+
+export interface TableStructure {
+  columns: ColumnDefinition[];
+  indexes: IndexInfo[];
+  foreignKeys: ForeignKeyInfo[];
+}
+
+interface ForeignKeyGroup {
+  name: string;
+  columns: string[];
+  referencedTable: string;
+  referencedColumns: string[];
+}
+
+const SQLITE_AUTOINDEX_PREFIX = 'sqlite_autoindex_';
+const SQLITE_REBUILD_HINT = 'rebuild the table to apply this change';
+
+export async function fetchTableStructure(
+  connection: DatabaseConnection,
+  tableName: string
+): Promise<TableStructure> {
+  const [columns, indexes, foreignKeys] = await Promise.all([
+    fetchColumns(connection, tableName),
+    fetchIndexes(connection, tableName),
+    fetchForeignKeys(connection, tableName),
+  ]);
+  return { columns, indexes, foreignKeys };
+}
+
+function isMySql(dbType: DatabaseType): boolean {
+  return dbType === 'mysql' || dbType === 'mariadb';
+}
+
+function quoteList(names: string[], dbType: DatabaseType): string {
+  return names.map((name) => quoteIdentifier(name, dbType)).join(', ');
+}
+
+/**
+ * Normalize a column type for comparison. MySQL 8 dropped integer display
+ * widths, so int(11) and int are the same type.
+ */
+function normalizeType(type: string, dbType: DatabaseType): string {
+  const normalized = type.trim().toLowerCase().replace(/\s+/g, ' ');
+  return isMySql(dbType)
+    ? normalized.replace(/^(tinyint|smallint|mediumint|int|bigint)\(\d+\)/, '$1')
+    : normalized;
+}
+
+/**
+ * Column default as an SQL expression, or null for none. PostgreSQL and
+ * SQLite report defaults as expressions already; MySQL reports literal
+ * defaults unquoted.
+ */
+function renderDefault(value: string | undefined, dbType: DatabaseType): string | null {
+  if (value === undefined || value === null || /^null$/i.test(value)) return null;
+  if (!isMySql(dbType)) return value;
+
+  if (
+    /^-?\d+(\.\d+)?$/.test(value) ||
+    value.startsWith("'") ||
+    value.startsWith('(') ||
+    /^(current_timestamp|now\(|localtimestamp|b')/i.test(value)
+  ) {
+    return value;
+  }
+  return toSqlLiteral(value, dbType);
+}
+
+function columnDefinition(column: ColumnDefinition, dbType: DatabaseType): string {
+  const definition = `${quoteIdentifier(column.name, dbType)} ${column.type}`;
+
+  // A serial default names a sequence that only exists in the source
+  if (dbType === 'postgresql' && column.autoIncrement) {
+    return `${definition} GENERATED BY DEFAULT AS IDENTITY`;
+  }
+
+  let result = definition;
+  if (!column.nullable) {
+    result += ' NOT NULL';
+  }
+  const defaultExpr = renderDefault(column.defaultValue, dbType);
+  if (defaultExpr !== null) {
+    result += ` DEFAULT ${defaultExpr}`;
+  }
+  if (isMySql(dbType) && column.autoIncrement) {
+    result += ' AUTO_INCREMENT';
+  }
+  return result;
+}
+
+function primaryKeyOf(structure: TableStructure): string[] {
+  // The primary index keeps key order; SQLite rowid keys have no index entry
+  const primaryIndex = structure.indexes.find((index) => index.primary);
+  if (primaryIndex && primaryIndex.columns.length > 0) {
+    return primaryIndex.columns;
+  }
+  return structure.columns.filter((column) => column.isPrimaryKey).map((column) => column.name);
+}
+
+function indexSignature(index: IndexInfo): string {
+  return `${index.unique ? 'unique' : 'index'}:${index.columns.join(',')}`;
+}
+
+/**
+ * Group per-column foreign key rows into constraints
+ */
+function groupForeignKeys(keys: ForeignKeyInfo[]): ForeignKeyGroup[] {
+  const groups = new Map<string, ForeignKeyGroup>();
+
+  for (const key of keys) {
+    let group = groups.get(key.constraintName);
+    if (!group) {
+      group = {
+        name: key.constraintName,
+        columns: [],
+        referencedTable: key.referencedTable,
+        referencedColumns: [],
+      };
+      groups.set(key.constraintName, group);
+    }
+    // information_schema joins repeat columns of composite keys
+    if (!group.columns.includes(key.columnName)) group.columns.push(key.columnName);
+    if (!group.referencedColumns.includes(key.referencedColumn)) group.referencedColumns.push(key.referencedColumn);
+  }
+
+  return Array.from(groups.values());
+}
+
+function foreignKeySignature(key: ForeignKeyGroup): string {
+  return `${key.columns.join(',')}->${key.referencedTable}(${key.referencedColumns.join(',')})`;
+}
+
+function foreignKeyClause(key: ForeignKeyGroup, dbType: DatabaseType): string {
+  return `FOREIGN KEY (${quoteList(key.columns, dbType)}) REFERENCES ${quoteIdentifier(key.referencedTable, dbType)} (${quoteList(key.referencedColumns, dbType)})`;
+}
+
+function createIndexChange(tableName: string, index: IndexInfo, dbType: DatabaseType): StructureChange {
+  // SQLite's automatic UNIQUE-constraint indexes can't be created under their own name
+  const name = index.name.startsWith(SQLITE_AUTOINDEX_PREFIX)
+    ? `${tableName}_${index.columns.join('_')}_key`
+    : index.name;
+
+  return {
+    kind: 'create_index',
+    name,
+    description: `Create ${index.unique ? 'unique ' : ''}index "${name}" on (${index.columns.join(', ')})`,
+    sql: [
+      `CREATE ${index.unique ? 'UNIQUE ' : ''}INDEX ${quoteIdentifier(name, dbType)} ON ${quoteIdentifier(tableName, dbType)} (${quoteList(index.columns, dbType)})`,
+    ],
+    destructive: false,
+    warning: index.unique ? 'Fails if the target holds duplicate values' : undefined,
+  };
+}
+
+function dropIndexChange(tableName: string, index: IndexInfo, dbType: DatabaseType): StructureChange {
+  const change: StructureChange = {
+    kind: 'drop_index',
+    name: index.name,
+    description: `Drop ${index.unique ? 'unique ' : ''}index "${index.name}" on (${index.columns.join(', ')})`,
+    sql: [],
+    destructive: true,
+  };
+
+  if (index.name.startsWith(SQLITE_AUTOINDEX_PREFIX)) {
+    return { ...change, warning: `SQLite keeps this index for a UNIQUE constraint; ${SQLITE_REBUILD_HINT}` };
+  }
+
+  const quotedIndex = quoteIdentifier(index.name, dbType);
+  if (dbType === 'postgresql') {
+    // Unique indexes usually back a constraint, which has to be dropped instead
+    change.sql = index.unique
+      ? [
+          `ALTER TABLE ${quoteIdentifier(tableName, dbType)} DROP CONSTRAINT IF EXISTS ${quotedIndex}`,
+          `DROP INDEX IF EXISTS ${quotedIndex}`,
+        ]
+      : [`DROP INDEX ${quotedIndex}`];
+  } else if (isMySql(dbType)) {
+    change.sql = [`DROP INDEX ${quotedIndex} ON ${quoteIdentifier(tableName, dbType)}`];
+  } else {
+    change.sql = [`DROP INDEX ${quotedIndex}`];
+  }
+  return change;
+}
+
+function addForeignKeyChange(tableName: string, key: ForeignKeyGroup, dbType: DatabaseType): StructureChange {
+  const change: StructureChange = {
+    kind: 'add_foreign_key',
+    name: key.name,
+    description: `Add foreign key (${key.columns.join(', ')}) referencing "${key.referencedTable}" (${key.referencedColumns.join(', ')})`,
+    sql: [],
+    destructive: false,
+  };
+
+  if (dbType === 'sqlite') {
+    return { ...change, warning: `SQLite can't add a foreign key to an existing table; ${SQLITE_REBUILD_HINT}` };
+  }
+
+  change.sql = [
+    `ALTER TABLE ${quoteIdentifier(tableName, dbType)} ADD CONSTRAINT ${quoteIdentifier(key.name, dbType)} ${foreignKeyClause(key, dbType)}`,
+  ];
+  change.warning = 'Fails if the referenced table is missing or existing rows reference missing keys';
+  return change;
+}
+
+function dropForeignKeyChange(tableName: string, key: ForeignKeyGroup, dbType: DatabaseType): StructureChange {
+  const change: StructureChange = {
+    kind: 'drop_foreign_key',
+    name: key.name,
+    description: `Drop foreign key "${key.name}" (${key.columns.join(', ')}) referencing "${key.referencedTable}"`,
+    sql: [],
+    destructive: true,
+  };
+
+  if (dbType === 'sqlite') {
+    return { ...change, warning: `SQLite can't drop a foreign key from an existing table; ${SQLITE_REBUILD_HINT}` };
+  }
+
+  const table = quoteIdentifier(tableName, dbType);
+  const constraint = quoteIdentifier(key.name, dbType);
+  change.sql = [
+    isMySql(dbType)
+      ? `ALTER TABLE ${table} DROP FOREIGN KEY ${constraint}`
+      : `ALTER TABLE ${table} DROP CONSTRAINT ${constraint}`,
+  ];
+  return change;
+}
+
+function addColumnChange(tableName: string, column: ColumnDefinition, dbType: DatabaseType): StructureChange {
+  const needsValue = !column.nullable && !column.autoIncrement && renderDefault(column.defaultValue, dbType) === null;
+
+  let warning: string | undefined;
+  if (needsValue) {
+    warning = dbType === 'sqlite'
+      ? 'SQLite requires a default for a NOT NULL column added to an existing table'
+      : 'Fails if the target has rows, since the NOT NULL column has no default';
+  }
+
+  return {
+    kind: 'add_column',
+    name: column.name,
+    description: `Add column "${column.name}" ${column.type}`,
+    sql: [`ALTER TABLE ${quoteIdentifier(tableName, dbType)} ADD COLUMN ${columnDefinition(column, dbType)}`],
+    destructive: false,
+    warning,
+  };
+}
+
+function dropColumnChange(tableName: string, column: ColumnDefinition, dbType: DatabaseType): StructureChange {
+  return {
+    kind: 'drop_column',
+    name: column.name,
+    description: `Drop column "${column.name}" and its data`,
+    sql: [`ALTER TABLE ${quoteIdentifier(tableName, dbType)} DROP COLUMN ${quoteIdentifier(column.name, dbType)}`],
+    destructive: true,
+    warning: dbType === 'sqlite'
+      ? 'Needs SQLite 3.35 or later and fails if the column is indexed or part of a key'
+      : undefined,
+  };
+}
+
+function alterColumnChanges(
+  tableName: string,
+  source: ColumnDefinition,
+  target: ColumnDefinition,
+  dbType: DatabaseType
+): StructureChange[] {
+  const typeChanged = normalizeType(source.type, dbType) !== normalizeType(target.type, dbType);
+  const nullabilityChanged = source.nullable !== target.nullable;
+  const sourceDefault = renderDefault(source.defaultValue, dbType);
+  const targetDefault = renderDefault(target.defaultValue, dbType);
+  // Serial defaults name each side's own sequence, so they never match
+  const compareDefaults = !(dbType === 'postgresql' && (source.autoIncrement || target.autoIncrement));
+  const defaultChanged = compareDefaults && sourceDefault !== targetDefault;
+
+  if (!typeChanged && !nullabilityChanged && !defaultChanged) {
+    return [];
+  }
+
+  const table = quoteIdentifier(tableName, dbType);
+  const column = quoteIdentifier(source.name, dbType);
+  const typeWarning = 'Existing values are converted and may be truncated or fail to convert';
+  const notNullWarning = 'Fails if the column holds NULL values';
+
+  const details: string[] = [];
+  if (typeChanged) details.push(`type ${target.type} → ${source.type}`);
+  if (nullabilityChanged) details.push(source.nullable ? 'allow NULL' : 'NOT NULL');
+  if (defaultChanged) details.push(`default ${targetDefault ?? 'none'} → ${sourceDefault ?? 'none'}`);
+  const description = `Change column "${source.name}": ${details.join(', ')}`;
+
+  if (dbType === 'sqlite') {
+    return [{
+      kind: 'alter_column',
+      name: source.name,
+      description,
+      sql: [],
+      destructive: typeChanged,
+      warning: `SQLite can't alter a column in place; ${SQLITE_REBUILD_HINT}`,
+    }];
+  }
+
+  if (isMySql(dbType)) {
+    // MODIFY restates the whole column, so one statement covers every change
+    return [{
+      kind: 'alter_column',
+      name: source.name,
+      description,
+      sql: [`ALTER TABLE ${table} MODIFY COLUMN ${columnDefinition(source, dbType)}`],
+      destructive: typeChanged,
+      warning: typeChanged ? typeWarning : nullabilityChanged && !source.nullable ? notNullWarning : undefined,
+    }];
+  }
+
+  // PostgreSQL alters each aspect separately, so only the type change is destructive
+  const changes: StructureChange[] = [];
+  if (typeChanged) {
+    changes.push({
+      kind: 'alter_column',
+      name: source.name,
+      description: `Change type of column "${source.name}" from ${target.type} to ${source.type}`,
+      sql: [`ALTER TABLE ${table} ALTER COLUMN ${column} TYPE ${source.type} USING ${column}::${source.type}`],
+      destructive: true,
+      warning: typeWarning,
+    });
+  }
+  if (nullabilityChanged) {
+    changes.push({
+      kind: 'alter_column',
+      name: source.name,
+      description: source.nullable
+        ? `Allow NULL in column "${source.name}"`
+        : `Make column "${source.name}" NOT NULL`,
+      sql: [`ALTER TABLE ${table} ALTER COLUMN ${column} ${source.nullable ? 'DROP' : 'SET'} NOT NULL`],
+      destructive: false,
+      warning: source.nullable ? undefined : notNullWarning,
+    });
+  }
+  if (defaultChanged) {
+    changes.push({
+      kind: 'alter_column',
+      name: source.name,
+      description: sourceDefault === null
+        ? `Drop default of column "${source.name}"`
+        : `Set default of column "${source.name}" to ${sourceDefault}`,
+      sql: [
+        sourceDefault === null
+          ? `ALTER TABLE ${table} ALTER COLUMN ${column} DROP DEFAULT`
+          : `ALTER TABLE ${table} ALTER COLUMN ${column} SET DEFAULT ${sourceDefault}`,
+      ],
+      destructive: false,
+    });
+  }
+  return changes;
+}
+
+function primaryKeyChange(
+  tableName: string,
+  source: TableStructure,
+  target: TableStructure,
+  dbType: DatabaseType
+): StructureChange | null {
+  const sourceKey = primaryKeyOf(source);
+  const targetKey = primaryKeyOf(target);
+  if (sourceKey.join(',') === targetKey.join(',')) {
+    return null;
+  }
+
+  const change: StructureChange = {
+    kind: 'change_primary_key',
+    name: sourceKey.join(', '),
+    description: sourceKey.length > 0
+      ? `Change primary key to (${sourceKey.join(', ')})`
+      : 'Drop primary key',
+    sql: [],
+    destructive: targetKey.length > 0,
+  };
+
+  if (dbType === 'sqlite') {
+    return { ...change, warning: `SQLite can't change a primary key in place; ${SQLITE_REBUILD_HINT}` };
+  }
+
+  const table = quoteIdentifier(tableName, dbType);
+  if (isMySql(dbType)) {
+    const clauses: string[] = [];
+    if (targetKey.length > 0) clauses.push('DROP PRIMARY KEY');
+    if (sourceKey.length > 0) clauses.push(`ADD PRIMARY KEY (${quoteList(sourceKey, dbType)})`);
+    change.sql = [`ALTER TABLE ${table} ${clauses.join(', ')}`];
+  } else {
+    const constraint = target.indexes.find((index) => index.primary)?.name;
+    if (constraint) change.sql.push(`ALTER TABLE ${table} DROP CONSTRAINT ${quoteIdentifier(constraint, dbType)}`);
+    if (sourceKey.length > 0) change.sql.push(`ALTER TABLE ${table} ADD PRIMARY KEY (${quoteList(sourceKey, dbType)})`);
+  }
+
+  if (sourceKey.length > 0) {
+    change.warning = 'Fails if the key columns hold duplicate or NULL values';
+  }
+  return change;
+}
+
+function createTableChanges(tableName: string, source: TableStructure, dbType: DatabaseType): StructureChange[] {
+  const definitions = source.columns.map((column) => columnDefinition(column, dbType));
+
+  const primaryKey = primaryKeyOf(source);
+  if (primaryKey.length > 0) {
+    definitions.push(`PRIMARY KEY (${quoteList(primaryKey, dbType)})`);
+  }
+
+  // SQLite can only declare foreign keys as part of the table
+  const foreignKeys = groupForeignKeys(source.foreignKeys);
+  if (dbType === 'sqlite') {
+    definitions.push(...foreignKeys.map((key) => foreignKeyClause(key, dbType)));
+  }
+
+  const changes: StructureChange[] = [{
+    kind: 'create_table',
+    name: tableName,
+    description: `Create table "${tableName}" with ${source.columns.length} column(s)`,
+    sql: [`CREATE TABLE ${quoteIdentifier(tableName, dbType)} (\n  ${definitions.join(',\n  ')}\n)`],
+    destructive: false,
+  }];
+
+  for (const index of source.indexes) {
+    if (!index.primary) {
+      changes.push(createIndexChange(tableName, index, dbType));
+    }
+  }
+
+  if (dbType !== 'sqlite') {
+    changes.push(...foreignKeys.map((key) => addForeignKeyChange(tableName, key, dbType)));
+  }
+
+  return changes;
+}
+
+/**
+ * Steps that make the target table match the source, in the order they must
+ * run. Pass a null target when the table doesn't exist there yet.
+ */
+export function diffTableStructure(
+  tableName: string,
+  source: TableStructure,
+  target: TableStructure | null,
+  dbType: DatabaseType
+): StructureChange[] {
+  if (!target) {
+    return createTableChanges(tableName, source, dbType);
+  }
+
+  const sourceColumns = new Map(source.columns.map((column) => [column.name, column]));
+  const targetColumns = new Map(target.columns.map((column) => [column.name, column]));
+
+  const sourceIndexes = source.indexes.filter((index) => !index.primary);
+  const targetIndexes = target.indexes.filter((index) => !index.primary);
+  const sourceIndexSignatures = new Set(sourceIndexes.map(indexSignature));
+  const targetIndexSignatures = new Set(targetIndexes.map(indexSignature));
+
+  const sourceForeignKeys = groupForeignKeys(source.foreignKeys);
+  const targetForeignKeys = groupForeignKeys(target.foreignKeys);
+  const sourceForeignKeySignatures = new Set(sourceForeignKeys.map(foreignKeySignature));
+  const targetForeignKeySignatures = new Set(targetForeignKeys.map(foreignKeySignature));
+
+  const changes: StructureChange[] = [];
+
+  // Drop constraints and indexes first so column changes aren't blocked by them
+  for (const key of targetForeignKeys) {
+    if (!sourceForeignKeySignatures.has(foreignKeySignature(key))) {
+      changes.push(dropForeignKeyChange(tableName, key, dbType));
+    }
+  }
+  for (const index of targetIndexes) {
+    if (!sourceIndexSignatures.has(indexSignature(index))) {
+      changes.push(dropIndexChange(tableName, index, dbType));
+    }
+  }
+
+  for (const column of source.columns) {
+    const existing = targetColumns.get(column.name);
+    if (!existing) {
+      changes.push(addColumnChange(tableName, column, dbType));
+    } else {
+      changes.push(...alterColumnChanges(tableName, column, existing, dbType));
+    }
+  }
+
+  const keyChange = primaryKeyChange(tableName, source, target, dbType);
+  if (keyChange) {
+    changes.push(keyChange);
+  }
+
+  for (const column of target.columns) {
+    if (!sourceColumns.has(column.name)) {
+      changes.push(dropColumnChange(tableName, column, dbType));
+    }
+  }
+
+  for (const index of sourceIndexes) {
+    if (!targetIndexSignatures.has(indexSignature(index))) {
+      changes.push(createIndexChange(tableName, index, dbType));
+    }
+  }
+  for (const key of sourceForeignKeys) {
+    if (!targetForeignKeySignatures.has(foreignKeySignature(key))) {
+      changes.push(addForeignKeyChange(tableName, key, dbType));
+    }
+  }
+
+  return changes;
+}
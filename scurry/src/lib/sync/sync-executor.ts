@@ -2,11 +2,14 @@
  * Sync Executor
  * 
  * Executes synchronization operations between two database connections.
- * Supports row-level data sync with transaction safety.
+ * Supports row-level data sync with transaction safety. Target-only rows are
+ * left alone unless mirror mode is on, in which case they are deleted.
  */
 
+import { v4 as uuidv4 } from 'uuid';
 import { executeQueryWithParams } from '@/lib/db/query-executor';
 import { logDataChange } from '@/lib/db/data-changes';
+import type { TransactionQuery } from '@/lib/db/connection-pool';
 import {
   quoteIdentifier,
   buildParameterizedInsert,
@@ -14,6 +17,7 @@ import {
   buildParameterizedDelete,
   type DatabaseType,
 } from '@/lib/db/sql-utils';
+import type { PermissionOperation } from '@/lib/validations/team';
 import type { DatabaseConnection, PendingChanges } from '@/types';
 import type { SyncResult, RowDiff, SyncScope, SyncContent } from '@/types/sync';
 
@@ -27,14 +31,31 @@ interface SyncOptions {
   content: SyncContent;
   selectedRowKeys?: string[];
   userId: string;
+  /** Log under an existing change set, e.g. when a table is synced chunk by chunk */
+  changeSetId?: string;
+  /** Also delete rows that only exist in the target */
+  mirror?: boolean;
+  /** Operations granted on the target table; rows needing any other are not synced */
+  operations?: PermissionOperation[];
+  /**
+   * Run statements on an open target transaction. The first failure throws so
+   * the caller can roll back, and change-log entries go to pendingChanges
+   * instead of being written, since they only hold once the caller commits.
+   */
+  transaction?: TransactionQuery;
+  pendingChanges?: SyncRowChange[];
 }
 
+/**
+ * Change-log entry for one synced row
+ */
+export type SyncRowChange = Parameters<typeof logDataChange>[0];
+
 /**
  * Execute a sync operation from source to target
  */
 export async function executeSyncOperation(options: SyncOptions): Promise<SyncResult> {
   const {
-    sourceConnection,
     targetConnection,
     tableName,
     primaryKeyColumns,
@@ -42,6 +63,7 @@ export async function executeSyncOperation(options: SyncOptions): Promise<SyncRe
     scope,
     selectedRowKeys,
     userId,
+    transaction,
   } = options;
 
   const startTime = Date.now();
@@ -53,6 +75,7 @@ export async function executeSyncOperation(options: SyncOptions): Promise<SyncRe
     structureChangesApplied: 0,
     errors: [],
     executionTime: 0,
+    changeSetId: options.changeSetId ?? uuidv4(),
   };
 
   // Filter diffs based on scope
@@ -64,48 +87,83 @@ export async function executeSyncOperation(options: SyncOptions): Promise<SyncRe
 
   const dbType = targetConnection.type as DatabaseType;
 
+  const run = async (sql: string, params: unknown[]) => {
+    if (transaction) {
+      await transaction(sql, params);
+      return;
+    }
+    const queryResult = await executeQueryWithParams(targetConnection, sql, params);
+    if (queryResult.error) {
+      throw new Error(queryResult.error);
+    }
+  };
+
+  const record = async (change: Omit<SyncRowChange, 'connectionId' | 'tableName' | 'userId' | 'changeSetId'>) => {
+    const entry: SyncRowChange = {
+      ...change,
+      connectionId: targetConnection.id,
+      tableName,
+      userId,
+      changeSetId: result.changeSetId,
+    };
+    if (options.pendingChanges) {
+      options.pendingChanges.push(entry);
+    } else {
+      await logDataChange(entry);
+    }
+  };
+
+  // Row errors are collected, except inside a transaction where they abort it
+  const fail = (message: string, error: unknown) => {
+    const fullMessage = `${message}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    if (transaction) {
+      throw new Error(fullMessage);
+    }
+    result.errors.push(fullMessage);
+    result.success = false;
+  };
+
+  // Rows needing an operation that isn't granted are skipped (or abort the transaction)
+  const granted = (operation: PermissionOperation, rows: RowDiff[]): RowDiff[] => {
+    if (rows.length === 0 || !options.operations || options.operations.includes(operation)) return rows;
+    fail(`Skipped ${rows.length} row(s)`, new Error(`You do not have ${operation.toUpperCase()} permission on the target table`));
+    return [];
+  };
+
   // Process source-only rows (INSERT into target)
-  const inserts = diffsToSync.filter((d) => d.status === 'source-only');
+  const inserts = granted('insert', diffsToSync.filter((d) => d.status === 'source-only'));
   for (const diff of inserts) {
     if (!diff.sourceRow) continue;
     
     try {
       const { sql, params } = buildParameterizedInsert(tableName, diff.sourceRow, dbType);
-      const queryResult = await executeQueryWithParams(targetConnection, sql, params);
-      
-      if (queryResult.error) {
-        result.errors.push(`Insert error for PK ${diff.primaryKeyString}: ${queryResult.error}`);
-        result.success = false;
-      } else {
-        result.insertedCount++;
-        await logDataChange({
-          connectionId: targetConnection.id,
-          tableName,
-          operation: 'INSERT',
-          rowIdentifier: diff.primaryKey,
-          oldValues: null,
-          newValues: diff.sourceRow,
-          userId,
-        });
-      }
+      await run(sql, params);
     } catch (error) {
-      result.errors.push(`Insert error for PK ${diff.primaryKeyString}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      result.success = false;
+      fail(`Insert error for PK ${diff.primaryKeyString}`, error);
+      continue;
     }
+
+    result.insertedCount++;
+    await record({
+      operation: 'INSERT',
+      rowIdentifier: diff.primaryKey,
+      oldValues: null,
+      newValues: diff.sourceRow,
+    });
   }
 
   // Process different rows (UPDATE in target)
-  const updates = diffsToSync.filter((d) => d.status === 'different');
+  const updates = granted('update', diffsToSync.filter((d) => d.status === 'different'));
   for (const diff of updates) {
     if (!diff.sourceRow || diff.cellDiffs.length === 0) continue;
-    
-    try {
-      // Build update with only changed columns
-      const updateValues: Record<string, unknown> = {};
-      diff.cellDiffs.forEach((cd) => {
-        updateValues[cd.column] = cd.sourceValue;
-      });
 
+    // Build update with only changed columns
+    const updateValues: Record<string, unknown> = {};
+    diff.cellDiffs.forEach((cd) => {
+      updateValues[cd.column] = cd.sourceValue;
+    });
+
+    try {
       const { sql, params } = buildParameterizedUpdate(
         tableName,
         updateValues,
@@ -113,33 +171,42 @@ export async function executeSyncOperation(options: SyncOptions): Promise<SyncRe
         diff.primaryKey,
         dbType
       );
-      
-      const queryResult = await executeQueryWithParams(targetConnection, sql, params);
-      
-      if (queryResult.error) {
-        result.errors.push(`Update error for PK ${diff.primaryKeyString}: ${queryResult.error}`);
-        result.success = false;
-      } else {
-        result.updatedCount++;
-        await logDataChange({
-          connectionId: targetConnection.id,
-          tableName,
-          operation: 'UPDATE',
-          rowIdentifier: diff.primaryKey,
-          oldValues: diff.targetRow || null,
-          newValues: updateValues,
-          userId,
-        });
-      }
+      await run(sql, params);
     } catch (error) {
-      result.errors.push(`Update error for PK ${diff.primaryKeyString}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      result.success = false;
+      fail(`Update error for PK ${diff.primaryKeyString}`, error);
+      continue;
     }
+
+    result.updatedCount++;
+    await record({
+      operation: 'UPDATE',
+      rowIdentifier: diff.primaryKey,
+      oldValues: diff.targetRow || null,
+      newValues: updateValues,
+    });
   }
 
-  // Note: We don't automatically delete rows that are target-only
-  // This is a safety measure - the user should explicitly choose to delete
-  // In the future, we could add a "delete orphan rows" option
+  // Target-only rows are only deleted when mirror mode was explicitly chosen
+  if (options.mirror) {
+    const deletes = granted('delete', diffsToSync.filter((d) => d.status === 'target-only'));
+    for (const diff of deletes) {
+      try {
+        const { sql, params } = buildParameterizedDelete(tableName, primaryKeyColumns, diff.primaryKey, dbType);
+        await run(sql, params);
+      } catch (error) {
+        fail(`Delete error for PK ${diff.primaryKeyString}`, error);
+        continue;
+      }
+
+      result.deletedCount++;
+      await record({
+        operation: 'DELETE',
+        rowIdentifier: diff.primaryKey,
+        oldValues: diff.targetRow || null,
+        newValues: null,
+      });
+    }
+  }
 
   result.executionTime = Date.now() - startTime;
   return result;
@@ -148,7 +215,7 @@ export async function executeSyncOperation(options: SyncOptions): Promise<SyncRe
 /**
  * Generate SQL statements for preview without executing
  */
-export function generateSyncSql(options: Omit<SyncOptions, 'userId'>): string[] {
+export function generateSyncSql(options: Omit<SyncOptions, 'userId' | 'transaction' | 'pendingChanges'>): string[] {
   const {
     targetConnection,
     tableName,
@@ -200,6 +267,16 @@ export function generateSyncSql(options: Omit<SyncOptions, 'userId'>): string[]
     statements.push(sql.replace(/\?/g, '?') + ';');
   }
 
+  // Generate DELETE statements (mirror mode only)
+  if (options.mirror) {
+    const deletes = diffsToSync.filter((d) => d.status === 'target-only');
+    for (const diff of deletes) {
+      const { sql } = buildParameterizedDelete(tableName, primaryKeyColumns, diff.primaryKey, dbType);
+      statements.push(`-- DELETE for PK: ${diff.primaryKeyString}`);
+      statements.push(sql + ';');
+    }
+  }
+
   return statements;
 }
 
@@ -209,7 +286,8 @@ export function generateSyncSql(options: Omit<SyncOptions, 'userId'>): string[]
 export function countSyncOperations(
   diffs: RowDiff[],
   scope: SyncScope,
-  selectedRowKeys?: string[]
+  selectedRowKeys?: string[],
+  mirror: boolean = false
 ): { inserts: number; updates: number; deletes: number } {
   let diffsToCount = diffs;
   
@@ -221,6 +299,7 @@ export function countSyncOperations(
   return {
     inserts: diffsToCount.filter((d) => d.status === 'source-only').length,
     updates: diffsToCount.filter((d) => d.status === 'different').length,
-    deletes: 0, // Not automatically deleting
+    // Target-only rows are only deleted in mirror mode
+    deletes: mirror ? diffsToCount.filter((d) => d.status === 'target-only').length : 0,
   };
 }
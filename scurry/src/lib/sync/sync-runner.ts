@@ -0,0 +1,540 @@
+/**
+ * Sync Runner
+ *
+ * Syncs a table between two connections in one step: first its structure
+ * (see schema-diff), then its rows, chunk by chunk so the table size doesn't
+ * matter. Shared by the execute route and by manual and scheduled template
+ * runs.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { getConnectionById } from '@/lib/db/app-db';
+import { fetchTables } from '@/lib/db/schema-fetcher';
+import { executeQuery } from '@/lib/db/query-executor';
+import { validateConnectionAccess } from '@/lib/db/teams';
+import { getEffectivePermissions, type EffectivePermission } from '@/lib/db/permissions';
+import { filterAllowedTables, getTableOperations } from '@/lib/permissions/validator';
+import { getTableColumnMasks } from '@/lib/permissions/masking';
+import { getTableRowFilter, RowFilterError } from '@/lib/permissions/row-filters';
+import type { PermissionOperation } from '@/lib/validations/team';
+import { quoteIdentifier, type DatabaseType } from '@/lib/db/sql-utils';
+import { logActivity } from '@/lib/db/activities';
+import { logDataChange } from '@/lib/db/data-changes';
+import { checkWriteApproval } from '@/lib/change-requests/change-policy';
+import { getPoolManager, type TransactionQuery } from '@/lib/db/connection-pool';
+import { compareTablesInChunks } from './chunked-compare';
+import { diffTableStructure, fetchTableStructure } from './schema-diff';
+import { executeSyncOperation, type SyncRowChange } from './sync-executor';
+import type { DatabaseConnection } from '@/types';
+import type {
+  StructureChange,
+  SyncContent,
+  SyncPreview,
+  SyncResult,
+  SyncScope,
+  TableSyncResult,
+} from '@/types/sync';
+
+/**
+ * Failure that maps onto an HTTP status for the calling route
+ */
+export interface SyncFailure {
+  error: string;
+  status: 400 | 403 | 404 | 500;
+}
+
+/**
+ * Run structure steps in order, holding back destructive ones unless allowed.
+ * Stops at the first failing statement since later steps may depend on it.
+ */
+async function applyStructureChanges(
+  connection: DatabaseConnection,
+  changes: StructureChange[],
+  allowDestructive: boolean
+): Promise<{ applied: StructureChange[]; warnings: string[]; error?: string }> {
+  const applied: StructureChange[] = [];
+  const warnings: string[] = [];
+
+  for (const change of changes) {
+    if (change.sql.length === 0) {
+      warnings.push(`${change.description}: ${change.warning ?? 'not supported'}`);
+      continue;
+    }
+    if (change.destructive && !allowDestructive) {
+      warnings.push(`Skipped destructive step: ${change.description}`);
+      continue;
+    }
+
+    for (const sql of change.sql) {
+      const result = await executeQuery(connection, sql);
+      if (result.error) {
+        return { applied, warnings, error: `${change.description}: ${result.error}` };
+      }
+    }
+    applied.push(change);
+  }
+
+  return { applied, warnings };
+}
+
+/**
+ * Why a team member may not read the source table as a sync does, or null
+ * when they may. A sync copies whole rows, so columns the member can't see
+ * or only sees masked would reach the target with their real values, and
+ * the comparison would read rows outside their row filter.
+ */
+function checkSourceAccess(
+  tableName: string,
+  permission: EffectivePermission | null,
+  dialect: DatabaseType
+): string | null {
+  if (filterAllowedTables([tableName], permission).length === 0
+    || !getTableOperations(tableName, permission).includes('select')) {
+    return 'You do not have SELECT permission on the source table';
+  }
+  if ((permission?.hiddenColumns.get(tableName.toLowerCase())?.size ?? 0) > 0
+    || getTableColumnMasks(tableName, permission).size > 0) {
+    return 'Tables with hidden or masked columns cannot be synced';
+  }
+  try {
+    if (getTableRowFilter(tableName, permission, dialect)) {
+      return 'Tables with a row filter cannot be synced';
+    }
+  } catch (error) {
+    if (!(error instanceof RowFilterError)) throw error;
+    return error.message;
+  }
+  return null;
+}
+
+/**
+ * Check access to both connections and load them
+ */
+export async function resolveSyncConnections(
+  userId: string,
+  sourceConnectionId: string,
+  targetConnectionId: string,
+  teamId: string | null
+): Promise<{ source: DatabaseConnection; target: DatabaseConnection } | SyncFailure> {
+  const [sourceAccess, targetAccess] = await Promise.all([
+    validateConnectionAccess(userId, sourceConnectionId, teamId),
+    validateConnectionAccess(userId, targetConnectionId, teamId),
+  ]);
+
+  if (!sourceAccess.isValid) {
+    return { error: 'Access denied to source connection', status: 403 };
+  }
+  if (!targetAccess.isValid) {
+    return { error: 'Access denied to target connection', status: 403 };
+  }
+
+  const source = teamId
+    ? await getConnectionById(sourceConnectionId)
+    : await getConnectionById(sourceConnectionId, userId);
+  const target = teamId
+    ? await getConnectionById(targetConnectionId)
+    : await getConnectionById(targetConnectionId, userId);
+
+  if (!source) {
+    return { error: 'Source connection not found', status: 404 };
+  }
+  if (!target) {
+    return { error: 'Target connection not found', status: 404 };
+  }
+
+  // Check that both connections are the same database type
+  if (source.type !== target.type) {
+    return { error: 'Cannot sync between different database types. Use comparison view only.', status: 400 };
+  }
+
+  return { source, target };
+}
+
+/**
+ * Bring the target table's structure in line with the source, then compare
+ * the table and apply the row differences, as the content option asks
+ */
+export async function runTableSync(options: {
+  sourceConnection: DatabaseConnection;
+  targetConnection: DatabaseConnection;
+  tableName: string;
+  scope: SyncScope;
+  content: SyncContent;
+  selectedRowKeys?: string[];
+  /** Also apply structure steps that drop or rewrite existing objects */
+  allowDestructive?: boolean;
+  /** Delete target-only rows too, all in one target transaction */
+  mirror?: boolean;
+  userId: string;
+  teamId: string | null;
+}): Promise<TableSyncResult | SyncFailure> {
+  const { sourceConnection, targetConnection, tableName, content, userId, teamId } = options;
+  const dbType = sourceConnection.type as DatabaseType;
+  const syncData = content !== 'structure';
+
+  // Team members need SELECT on the source table and, on the target, DDL for
+  // structure changes and the row operations the sync performs
+  let targetOperations: PermissionOperation[] | undefined;
+  if (teamId) {
+    const [sourcePermission, targetPermission] = await Promise.all([
+      getEffectivePermissions(userId, teamId, sourceConnection.id),
+      getEffectivePermissions(userId, teamId, targetConnection.id),
+    ]);
+    const sourceError = checkSourceAccess(tableName, sourcePermission, dbType);
+    if (sourceError) {
+      return { error: sourceError, status: 403 };
+    }
+    if (filterAllowedTables([tableName], targetPermission).length === 0) {
+      return { error: 'You do not have access to the target table', status: 403 };
+    }
+    targetOperations = getTableOperations(tableName, targetPermission);
+    if (content !== 'data' && !targetOperations.includes('ddl')) {
+      return { error: 'Syncing table structure needs DDL permission on the target table', status: 403 };
+    }
+    if (options.mirror && !targetOperations.includes('delete')) {
+      return { error: 'Mirror mode needs DELETE permission on the target table', status: 403 };
+    }
+  }
+
+  // Syncing into a protected connection has to go through a change request
+  const approval = await checkWriteApproval(targetConnection.id);
+  if (approval) {
+    return { error: approval.error, status: 403 };
+  }
+
+  // Get source table structure
+  const sourceStructure = await fetchTableStructure(sourceConnection, tableName);
+
+  const primaryKeyColumns = sourceStructure.columns
+    .filter((c) => c.isPrimaryKey)
+    .map((c) => c.name);
+
+  if (syncData && primaryKeyColumns.length === 0) {
+    return { error: 'Table has no primary key. Cannot sync without primary key.', status: 400 };
+  }
+  if (options.mirror && (options.scope !== 'table' || !syncData)) {
+    return { error: 'Mirror mode syncs the data of the entire table', status: 400 };
+  }
+
+  const columnNames = sourceStructure.columns.map((c) => c.name);
+
+  // Check if target table exists
+  const targetTables = await fetchTables(targetConnection);
+  const targetTableExists = targetTables.some(t => t.name.toLowerCase() === tableName.toLowerCase());
+
+  // A missing target table can only be created when content includes structure
+  if (!targetTableExists && content === 'data') {
+    return {
+      error: `Table "${tableName}" does not exist in target database. Enable "Table structure" sync to create it.`,
+      status: 400,
+    };
+  }
+
+  const result: SyncResult = {
+    success: true,
+    insertedCount: 0,
+    updatedCount: 0,
+    deletedCount: 0,
+    structureChangesApplied: 0,
+    errors: [],
+    warnings: [],
+    executionTime: 0,
+    changeSetId: uuidv4(),
+  };
+  const startTime = Date.now();
+  let tableCreated = false;
+
+  if (content !== 'data') {
+    const targetStructure = targetTableExists ? await fetchTableStructure(targetConnection, tableName) : null;
+    const changes = diffTableStructure(tableName, sourceStructure, targetStructure, dbType);
+    const outcome = await applyStructureChanges(targetConnection, changes, options.allowDestructive ?? false);
+
+    tableCreated = outcome.applied.some((change) => change.kind === 'create_table');
+    result.structureChangesApplied = outcome.applied.length;
+    result.warnings?.push(...outcome.warnings);
+
+    if (!targetTableExists && !tableCreated) {
+      return { error: `Failed to create table in target: ${outcome.error ?? 'Unknown error'}`, status: 500 };
+    }
+
+    if (tableCreated) {
+      // Log table creation activity (using data_inserted with tableCreated flag)
+      await logActivity({
+        userId,
+        teamId: teamId || undefined,
+        action: 'data_inserted',
+        resourceType: 'connection',
+        resourceId: targetConnection.id,
+        metadata: {
+          syncOperation: true,
+          tableCreated: true,
+          sourceConnectionId: sourceConnection.id,
+          tableName,
+        },
+      });
+    } else if (outcome.applied.length > 0) {
+      await logActivity({
+        userId,
+        teamId: teamId || undefined,
+        action: 'structure_changed',
+        resourceType: 'connection',
+        resourceId: targetConnection.id,
+        metadata: {
+          syncOperation: true,
+          sourceConnectionId: sourceConnection.id,
+          tableName,
+          changeCount: outcome.applied.length,
+          statements: outcome.applied.flatMap((change) => change.sql),
+        },
+      });
+    }
+
+    // Rows may not fit a half-synced structure, so stop here
+    if (outcome.error) {
+      result.success = false;
+      result.errors.push(`Structure sync failed: ${outcome.error}`);
+      result.executionTime = Date.now() - startTime;
+      return { ...result, tableCreated, rowsAffected: 0 };
+    }
+  }
+
+  if (!syncData) {
+    result.executionTime = Date.now() - startTime;
+    return { ...result, tableCreated, rowsAffected: 0 };
+  }
+
+  // Walk both tables chunk by chunk and apply each chunk's differences as it arrives
+  const syncChunks = async (transaction?: TransactionQuery, pendingChanges?: SyncRowChange[]) => {
+    const chunks = compareTablesInChunks({
+      sourceConnection,
+      targetConnection,
+      tableName,
+      primaryKeyColumns,
+      columns: columnNames,
+      useChunkHashes: true,
+    });
+
+    for await (const chunk of chunks) {
+      if (chunk.diffs.length === 0) continue;
+
+      const chunkResult = await executeSyncOperation({
+        sourceConnection,
+        targetConnection,
+        tableName,
+        primaryKeyColumns,
+        diffs: chunk.diffs,
+        scope: options.scope,
+        content,
+        selectedRowKeys: options.selectedRowKeys,
+        userId,
+        changeSetId: result.changeSetId,
+        mirror: options.mirror,
+        operations: targetOperations,
+        transaction,
+        pendingChanges,
+      });
+
+      result.success = result.success && chunkResult.success;
+      result.insertedCount += chunkResult.insertedCount;
+      result.updatedCount += chunkResult.updatedCount;
+      result.deletedCount += chunkResult.deletedCount;
+      result.errors.push(...chunkResult.errors);
+    }
+  };
+
+  if (options.mirror) {
+    // A mirror either lands completely or not at all
+    const pendingChanges: SyncRowChange[] = [];
+    try {
+      await getPoolManager().transaction(targetConnection, (transaction) => syncChunks(transaction, pendingChanges));
+    } catch (error) {
+      result.success = false;
+      result.insertedCount = 0;
+      result.updatedCount = 0;
+      result.deletedCount = 0;
+      result.errors.push(`Mirror rolled back: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    // Record the changes only once the transaction has committed
+    if (result.success) {
+      for (const change of pendingChanges) {
+        await logDataChange(change);
+      }
+    }
+  } else {
+    try {
+      await syncChunks();
+    } catch (error) {
+      // Changes applied before the failure stay applied and logged
+      if (result.insertedCount === 0 && result.updatedCount === 0 && result.structureChangesApplied === 0) {
+        return { error: `Comparison failed: ${error instanceof Error ? error.message : 'Unknown error'}`, status: 500 };
+      }
+      result.success = false;
+      result.errors.push(`Comparison failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  result.executionTime = Date.now() - startTime;
+
+  // Log activity for sync operations
+  if (result.insertedCount > 0) {
+    await logActivity({
+      userId,
+      teamId: teamId || undefined,
+      action: 'data_inserted',
+      resourceType: 'connection',
+      resourceId: targetConnection.id,
+      metadata: {
+        syncOperation: true,
+        sourceConnectionId: sourceConnection.id,
+        tableName,
+        rowCount: result.insertedCount,
+      },
+    });
+  }
+  if (result.updatedCount > 0) {
+    await logActivity({
+      userId,
+      teamId: teamId || undefined,
+      action: 'data_updated',
+      resourceType: 'connection',
+      resourceId: targetConnection.id,
+      metadata: {
+        syncOperation: true,
+        sourceConnectionId: sourceConnection.id,
+        tableName,
+        rowCount: result.updatedCount,
+      },
+    });
+  }
+  if (result.deletedCount > 0) {
+    await logActivity({
+      userId,
+      teamId: teamId || undefined,
+      action: 'data_deleted',
+      resourceType: 'connection',
+      resourceId: targetConnection.id,
+      metadata: {
+        syncOperation: true,
+        mirror: true,
+        sourceConnectionId: sourceConnection.id,
+        tableName,
+        rowCount: result.deletedCount,
+      },
+    });
+  }
+
+  return {
+    ...result,
+    tableCreated,
+    rowsAffected: result.insertedCount + result.updatedCount + result.deletedCount,
+  };
+}
+
+/**
+ * Work out what runTableSync would do without changing the target: the
+ * structure steps (with their SQL) and how many rows would be inserted or
+ * updated
+ */
+export async function previewTableSync(options: {
+  sourceConnection: DatabaseConnection;
+  targetConnection: DatabaseConnection;
+  tableName: string;
+  scope: SyncScope;
+  content: SyncContent;
+  selectedRowKeys?: string[];
+  mirror?: boolean;
+  userId: string;
+  teamId: string | null;
+}): Promise<SyncPreview> {
+  const { sourceConnection, targetConnection, tableName, content } = options;
+  const dbType = sourceConnection.type as DatabaseType;
+
+  const preview: SyncPreview = {
+    inserts: 0,
+    updates: 0,
+    deletes: 0,
+    structureChanges: [],
+    sql: [],
+    warnings: [],
+    canExecute: true,
+  };
+
+  if (options.teamId) {
+    const sourcePermission = await getEffectivePermissions(options.userId, options.teamId, sourceConnection.id);
+    const sourceError = checkSourceAccess(tableName, sourcePermission, dbType);
+    if (sourceError) {
+      return { ...preview, canExecute: false, blockedReason: sourceError };
+    }
+  }
+
+  const sourceStructure = await fetchTableStructure(sourceConnection, tableName);
+  const primaryKeyColumns = sourceStructure.columns.filter((c) => c.isPrimaryKey).map((c) => c.name);
+
+  const targetTables = await fetchTables(targetConnection);
+  const targetTableExists = targetTables.some(t => t.name.toLowerCase() === tableName.toLowerCase());
+
+  if (content !== 'structure' && primaryKeyColumns.length === 0) {
+    return { ...preview, canExecute: false, blockedReason: 'Table has no primary key. Cannot sync without primary key.' };
+  }
+  if (!targetTableExists && content === 'data') {
+    return {
+      ...preview,
+      canExecute: false,
+      blockedReason: `Table "${tableName}" does not exist in target database. Enable "Table structure" sync to create it.`,
+    };
+  }
+
+  if (content !== 'data') {
+    const targetStructure = targetTableExists ? await fetchTableStructure(targetConnection, tableName) : null;
+    preview.structureChanges = diffTableStructure(tableName, sourceStructure, targetStructure, dbType);
+    preview.sql = preview.structureChanges.flatMap((change) => change.sql);
+
+    for (const change of preview.structureChanges) {
+      if (change.warning) {
+        preview.warnings.push(`${change.description}: ${change.warning}`);
+      }
+    }
+    const destructiveCount = preview.structureChanges.filter((change) => change.destructive && change.sql.length > 0).length;
+    if (destructiveCount > 0) {
+      preview.warnings.push(`${destructiveCount} destructive step(s) only run when destructive changes are allowed`);
+    }
+  }
+
+  // A new table gets every source row in scope, so there's nothing to compare against
+  if (content !== 'structure' && !targetTableExists) {
+    if (options.scope === 'selected') {
+      preview.inserts = options.selectedRowKeys?.length ?? 0;
+    } else {
+      const count = await executeQuery(
+        sourceConnection,
+        `SELECT COUNT(*) AS row_count FROM ${quoteIdentifier(tableName, dbType)}`
+      );
+      preview.inserts = Number(count.rows[0]?.row_count ?? 0);
+    }
+  } else if (content !== 'structure') {
+    const selected = options.scope === 'selected' ? new Set(options.selectedRowKeys ?? []) : null;
+    const chunks = compareTablesInChunks({
+      sourceConnection,
+      targetConnection,
+      tableName,
+      primaryKeyColumns,
+      columns: sourceStructure.columns.map((c) => c.name),
+      useChunkHashes: true,
+    });
+
+    for await (const chunk of chunks) {
+      for (const diff of chunk.diffs) {
+        if (selected && !selected.has(diff.primaryKeyString)) continue;
+        if (diff.status === 'source-only') preview.inserts++;
+        if (diff.status === 'different') preview.updates++;
+        if (diff.status === 'target-only' && options.mirror) preview.deletes++;
+      }
+    }
+  }
+
+  return preview;
+}
+
+export function isSyncFailure(value: object): value is SyncFailure {
+  return 'error' in value && 'status' in value;
+}
@@ -0,0 +1,97 @@
+/**
+ * Sync Template Runner
+ *
+ * Runs a saved sync template (compare + sync of the whole table) and records
+ * the outcome in the template's run history. Used by the "run template"
+ * action and by the scheduler for templates with a cron schedule.
+ */
+
+import {
+  getDueSyncTemplates,
+  claimScheduledSyncRun,
+  recordSyncRun,
+} from '@/lib/db/sync-templates';
+import { resolveSyncConnections, runTableSync, isSyncFailure } from './sync-runner';
+import type { SyncResult, SyncRun, SyncRunTrigger, SyncTemplate } from '@/types/sync';
+
+function failedResult(error: string, startTime: number): SyncResult {
+  return {
+    success: false,
+    insertedCount: 0,
+    updatedCount: 0,
+    deletedCount: 0,
+    structureChangesApplied: 0,
+    errors: [error],
+    executionTime: Date.now() - startTime,
+  };
+}
+
+/**
+ * Run a template as the given user. Failures are recorded as unsuccessful
+ * runs rather than thrown, so every run shows up in the history.
+ */
+export async function runSyncTemplate(
+  template: SyncTemplate,
+  options: { userId: string; trigger: SyncRunTrigger; tableName?: string }
+): Promise<SyncRun> {
+  const startedAt = new Date();
+  const tableName = template.tableName || options.tableName;
+  if (!tableName) {
+    throw new Error('This template has no table; choose one to run it');
+  }
+
+  let result: SyncResult;
+  try {
+    const connections = await resolveSyncConnections(
+      options.userId,
+      template.sourceConnectionId,
+      template.targetConnectionId,
+      template.teamId ?? null
+    );
+
+    if (isSyncFailure(connections)) {
+      result = failedResult(connections.error, startedAt.getTime());
+    } else {
+      const outcome = await runTableSync({
+        sourceConnection: connections.source,
+        targetConnection: connections.target,
+        tableName,
+        // Templates always sync the whole table; there is no row selection to replay
+        scope: 'table',
+        content: template.includeStructure ? 'both' : 'data',
+        userId: options.userId,
+        teamId: template.teamId ?? null,
+      });
+      result = isSyncFailure(outcome) ? failedResult(outcome.error, startedAt.getTime()) : outcome;
+    }
+  } catch (error) {
+    result = failedResult(error instanceof Error ? error.message : 'Unknown error', startedAt.getTime());
+  }
+
+  return recordSyncRun({
+    templateId: template.id,
+    userId: options.userId,
+    trigger: options.trigger,
+    tableName,
+    result,
+    startedAt,
+  });
+}
+
+/**
+ * Scheduler job: run every template whose next run time has passed.
+ * Scheduled runs act on behalf of the template's creator.
+ */
+export async function runDueSyncTemplates(now: Date): Promise<void> {
+  const due = await getDueSyncTemplates(now);
+
+  for (const template of due) {
+    if (!template.tableName) continue;
+    if (!(await claimScheduledSyncRun(template, now))) continue;
+
+    const run = await runSyncTemplate(template, { userId: template.userId, trigger: 'schedule' });
+    if (!run.success) {
+      console.error(`Scheduled sync "${template.name}" failed:`, run.result.errors.join('; '));
+    }
+  }
+}
@@ -0,0 +1,23 @@
+import { z } from 'zod';
+
+export const changeRequestSchema = z.object({
+  connectionId: z.string().uuid('Invalid connection ID'),
+  title: z.string().trim().min(1, 'Title is required').max(200, 'Title must be less than 200 characters'),
+  description: z.string().trim().max(2000, 'Description must be less than 2000 characters').optional().nullable(),
+  sql: z.string().min(1, 'SQL is required'),
+});
+
+export type ChangeRequestFormData = z.infer<typeof changeRequestSchema>;
+
+export const changeRequestReviewSchema = z.object({
+  action: z.enum(['approve', 'reject', 'cancel'], { message: 'Invalid action' }),
+  note: z.string().trim().max(2000, 'Note must be less than 2000 characters').optional().nullable(),
+});
+
+export type ChangeRequestReviewFormData = z.infer<typeof changeRequestReviewSchema>;
+
+export const changeRequestCommentSchema = z.object({
+  content: z.string().min(1, 'Comment is required').max(2000, 'Comment must be less than 2000 characters'),
+});
+
+export type ChangeRequestCommentFormData = z.infer<typeof changeRequestCommentSchema>;
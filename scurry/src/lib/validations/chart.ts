@@ -0,0 +1,10 @@
+import { z } from 'zod';
+
+export const chartTypes = ['table', 'number', 'line', 'bar', 'pie'] as const;
+
+export const chartConfigSchema = z.object({
+  type: z.enum(chartTypes, { message: 'Invalid chart type' }),
+  xColumn: z.string().max(200).optional(),
+  yColumns: z.array(z.string().max(200)).max(10, 'At most 10 value columns').optional(),
+  groupBy: z.string().max(200).optional(),
+});
@@ -0,0 +1,30 @@
+import { z } from 'zod';
+import { chartConfigSchema } from './chart';
+
+export const dashboardSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100, 'Name must be less than 100 characters'),
+  description: z.string().max(500, 'Description must be less than 500 characters').optional().nullable(),
+  teamId: z.string().uuid().optional().nullable(),
+});
+
+export type DashboardFormData = z.infer<typeof dashboardSchema>;
+
+// Refresh intervals are whole minutes, up to a day
+const MIN_REFRESH_SECONDS = 60;
+const MAX_REFRESH_SECONDS = 24 * 60 * 60;
+
+export const dashboardWidgetSchema = z.object({
+  queryId: z.string().uuid('Invalid query ID'),
+  connectionId: z.string().uuid().optional().nullable(),
+  title: z.string().min(1, 'Title is required').max(100, 'Title must be less than 100 characters'),
+  chart: chartConfigSchema,
+  parameterValues: z.record(z.string(), z.union([z.string(), z.number(), z.boolean(), z.null()])).optional(),
+  refreshInterval: z.number().int().min(MIN_REFRESH_SECONDS).max(MAX_REFRESH_SECONDS).optional().nullable(),
+  width: z.enum(['half', 'full']).optional(),
+});
+
+export const updateDashboardWidgetSchema = dashboardWidgetSchema.omit({ queryId: true }).partial().extend({
+  position: z.number().int().min(0).optional(),
+});
+
+export type DashboardWidgetFormData = z.infer<typeof dashboardWidgetSchema>;
@@ -0,0 +1,16 @@
+import { z } from 'zod';
+
+export const keywordCases = ['upper', 'lower', 'preserve'] as const;
+export const commaPositions = ['trailing', 'leading'] as const;
+
+export const editorSettingsSchema = z.object({
+  keywordCase: z.enum(keywordCases, { message: 'Keyword case is required' }),
+  tabWidth: z.number().int().min(1).max(8),
+  useTabs: z.boolean(),
+  commaPosition: z.enum(commaPositions, { message: 'Comma position is required' }),
+  lintEnabled: z.boolean(),
+});
+
+export type EditorSettingsFormData = z.infer<typeof editorSettingsSchema>;
+export type KeywordCase = (typeof keywordCases)[number];
+export type CommaPosition = (typeof commaPositions)[number];
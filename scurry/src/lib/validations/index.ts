@@ -2,3 +2,9 @@ export * from './connection';
 export * from './team';
 export * from './ai';
 export * from './account';
+export * from './editor';
+export * from './sync';
+export * from './chart';
+export * from './dashboard';
+export * from './schedule';
+export * from './change-request';
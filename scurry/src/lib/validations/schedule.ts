@@ -0,0 +1,72 @@
+import { z } from 'zod';
+import { isValidTimeZone } from '@/lib/scheduler/cron';
+import { cronSchedule } from './sync';
+import { checkWebhookUrl } from '@/lib/security/webhook-target';
+
+export const scheduleEmailFormats = ['csv', 'xlsx', 'html'] as const;
+
+const comparison = z.enum(['gt', 'gte', 'lt', 'lte', 'eq', 'ne'], { message: 'Invalid comparison' });
+
+export const scheduleConditionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('always') }),
+  z.object({ type: z.literal('row_count'), operator: comparison, value: z.number().finite() }),
+  z.object({
+    type: z.literal('threshold'),
+    column: z.string().trim().min(1, 'Choose a column to compare').max(200),
+    operator: comparison,
+    value: z.number().finite(),
+  }),
+]);
+
+const scheduleFields = {
+  name: z.string().trim().min(1, 'Name is required').max(100, 'Name must be less than 100 characters'),
+  cron: cronSchedule.pipe(z.string().min(1, 'Schedule is required')),
+  timezone: z.string().max(100).refine(isValidTimeZone, { message: 'Unknown time zone' }),
+  enabled: z.boolean(),
+  connectionId: z.string().uuid().nullable(),
+  parameterValues: z.record(z.string(), z.union([z.string(), z.number(), z.boolean(), z.null()])),
+  emailRecipients: z
+    .array(z.string().trim().email('Please enter valid email addresses'))
+    .max(20, 'At most 20 recipients'),
+  emailFormat: z.enum(scheduleEmailFormats, { message: 'Invalid email format' }),
+  webhookUrl: z
+    .string()
+    .trim()
+    .url('Invalid webhook URL')
+    .superRefine((url, ctx) => {
+      // Also rules out hosts on the server's own network
+      const error = checkWebhookUrl(url);
+      if (error) {
+        ctx.addIssue({ code: 'custom', message: error });
+      }
+    })
+    .nullable(),
+  condition: scheduleConditionSchema,
+};
+
+export function hasScheduleDelivery(data: { emailRecipients: string[]; webhookUrl: string | null }): boolean {
+  return data.emailRecipients.length > 0 || Boolean(data.webhookUrl);
+}
+
+export const queryScheduleSchema = z
+  .object({
+    ...scheduleFields,
+    queryId: z.string().uuid('Invalid query ID'),
+    timezone: scheduleFields.timezone.default('UTC'),
+    enabled: scheduleFields.enabled.default(true),
+    connectionId: scheduleFields.connectionId.default(null),
+    parameterValues: scheduleFields.parameterValues.default({}),
+    emailRecipients: scheduleFields.emailRecipients.default([]),
+    emailFormat: scheduleFields.emailFormat.default('csv'),
+    webhookUrl: scheduleFields.webhookUrl.default(null),
+    condition: scheduleConditionSchema.default({ type: 'always' }),
+  })
+  .refine(hasScheduleDelivery, {
+    message: 'Add an email recipient or a webhook URL',
+    path: ['emailRecipients'],
+  });
+
+// Delivery is re-checked against the stored schedule once merged
+export const queryScheduleUpdateSchema = z.object(scheduleFields).partial();
+
+export type QueryScheduleFormData = z.infer<typeof queryScheduleSchema>;
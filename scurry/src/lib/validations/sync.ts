@@ -0,0 +1,49 @@
+import { z } from 'zod';
+import { validateCron } from '@/lib/scheduler/cron';
+
+export const cronSchedule = z
+  .string()
+  .trim()
+  .max(100, 'Schedule must be less than 100 characters')
+  .superRefine((value, ctx) => {
+    const error = value ? validateCron(value) : null;
+    if (error) {
+      ctx.addIssue({ code: 'custom', message: error });
+    }
+  });
+
+const syncTemplateFields = {
+  name: z.string().trim().min(1, 'Name is required').max(100, 'Name must be less than 100 characters'),
+  description: z.string().max(500, 'Description must be less than 500 characters').optional(),
+  sourceConnectionId: z.string().uuid('Invalid source connection ID'),
+  targetConnectionId: z.string().uuid('Invalid target connection ID'),
+  tableName: z.string().trim().max(255).optional(),
+  // Templates replay a whole-table sync; row selections are not saved
+  scope: z.literal('table').default('table'),
+  includeStructure: z.boolean().default(false),
+  schedule: cronSchedule.optional(),
+  scheduleEnabled: z.boolean().optional(),
+};
+
+export const syncTemplateSchema = z
+  .object({
+    ...syncTemplateFields,
+    teamId: z.string().uuid('Invalid team ID').optional().nullable(),
+  })
+  .refine((data) => data.sourceConnectionId !== data.targetConnectionId, {
+    message: 'Source and target must be different connections',
+    path: ['targetConnectionId'],
+  })
+  .refine((data) => !data.schedule || Boolean(data.tableName), {
+    message: 'Scheduled templates need a table',
+    path: ['tableName'],
+  });
+
+export const syncTemplateUpdateSchema = z.object(syncTemplateFields).partial();
+
+export const syncTemplateRunSchema = z.object({
+  tableName: z.string().trim().min(1).max(255).optional(),
+});
+
+export type SyncTemplateInput = z.infer<typeof syncTemplateSchema>;
+export type SyncTemplateUpdateInput = z.infer<typeof syncTemplateUpdateSchema>;
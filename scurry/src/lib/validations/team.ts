@@ -1,11 +1,32 @@
 import { z } from 'zod';
-
-export const teamRoles = ['owner', 'admin', 'member', 'viewer'] as const;
-export type TeamRole = (typeof teamRoles)[number];
+import { chartConfigSchema } from './chart';
+
+// Seeded for every team; teams can add their own roles alongside them
+export const defaultTeamRoles = ['admin', 'member', 'viewer'] as const;
+export type DefaultTeamRole = (typeof defaultTeamRoles)[number];
+
+// 'owner', a default role, or the key of a role the team created
+export type TeamRole = string;
+
+// What a team role can grant; the owner has every capability
+export const teamCapabilities = [
+  'invite_members',
+  'share_connections',
+  'edit_permissions',
+  'configure_ai',
+  'approve_changes',
+  'view_audit_log',
+  'manage_team',
+] as const;
+export type TeamCapability = (typeof teamCapabilities)[number];
 
 export const connectionPermissions = ['read', 'write', 'admin'] as const;
 export type ConnectionPermission = (typeof connectionPermissions)[number];
 
+// What permission profiles grant, on a whole connection or on single tables
+export const permissionOperations = ['select', 'insert', 'update', 'delete', 'truncate', 'ddl'] as const;
+export type PermissionOperation = (typeof permissionOperations)[number];
+
 export const createTeamSchema = z.object({
   name: z.string().min(2, 'Name must be at least 2 characters').max(50, 'Name must be less than 50 characters'),
   slug: z
@@ -23,19 +44,30 @@ export const updateTeamSchema = z.object({
 
 export type UpdateTeamFormData = z.infer<typeof updateTeamSchema>;
 
+// Roles are checked against the team's roles by the routes
+const memberRoleSchema = z.string().min(1, 'Role is required').refine((role) => role !== 'owner', 'Invalid role');
+
 export const inviteMemberSchema = z.object({
   email: z.string().email('Invalid email address'),
-  role: z.enum(['admin', 'member', 'viewer'], { message: 'Invalid role' }),
+  role: memberRoleSchema,
 });
 
 export type InviteMemberFormData = z.infer<typeof inviteMemberSchema>;
 
 export const updateMemberRoleSchema = z.object({
-  role: z.enum(['admin', 'member', 'viewer'], { message: 'Invalid role' }),
+  role: memberRoleSchema,
 });
 
 export type UpdateMemberRoleFormData = z.infer<typeof updateMemberRoleSchema>;
 
+export const teamRoleSchema = z.object({
+  name: z.string().min(2, 'Name must be at least 2 characters').max(50, 'Name must be less than 50 characters'),
+  description: z.string().max(500, 'Description must be less than 500 characters').optional().nullable(),
+  capabilities: z.array(z.enum(teamCapabilities, { message: 'Invalid capability' })),
+});
+
+export type TeamRoleFormData = z.infer<typeof teamRoleSchema>;
+
 export const shareConnectionSchema = z.object({
   connectionId: z.string().uuid('Invalid connection ID'),
   permission: z.enum(connectionPermissions, { message: 'Invalid permission' }),
@@ -43,6 +75,26 @@ export const shareConnectionSchema = z.object({
 
 export type ShareConnectionFormData = z.infer<typeof shareConnectionSchema>;
 
+export const updateSharedConnectionSchema = z.object({
+  connectionId: z.string().uuid('Invalid connection ID'),
+  isProtected: z.boolean(),
+});
+
+export type UpdateSharedConnectionFormData = z.infer<typeof updateSharedConnectionSchema>;
+
+export const queryParameterTypes = ['string', 'number', 'integer', 'boolean', 'date', 'datetime'] as const;
+
+const queryParameterValueSchema = z.union([z.string(), z.number(), z.boolean(), z.null()]);
+
+export const queryParameterSchema = z.object({
+  name: z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/, 'Invalid parameter name'),
+  type: z.enum(queryParameterTypes, { message: 'Invalid parameter type' }),
+  label: z.string().max(100, 'Label must be less than 100 characters').optional(),
+  required: z.boolean().default(true),
+  defaultValue: queryParameterValueSchema.optional(),
+  allowedValues: z.array(z.union([z.string(), z.number()])).max(100, 'At most 100 allowed values').optional(),
+});
+
 export const savedQuerySchema = z.object({
   name: z.string().min(1, 'Name is required').max(100, 'Name must be less than 100 characters'),
   description: z.string().max(500, 'Description must be less than 500 characters').optional(),
@@ -50,6 +102,10 @@ export const savedQuerySchema = z.object({
   connectionId: z.string().uuid().optional().nullable(),
   teamId: z.string().uuid().optional().nullable(),
   isPublic: z.boolean().default(false),
+  parameters: z.array(queryParameterSchema).max(50, 'At most 50 parameters').optional(),
+  folder: z.string().max(100, 'Folder must be less than 100 characters').optional().nullable(),
+  tags: z.array(z.string().min(1).max(30, 'Tags must be less than 30 characters')).max(20, 'At most 20 tags').optional(),
+  chart: chartConfigSchema.optional().nullable(),
 });
 
 export type SavedQueryFormData = z.infer<typeof savedQuerySchema>;
@@ -68,19 +124,47 @@ export const permissionProfileSchema = z.object({
 
 export type PermissionProfileFormData = z.infer<typeof permissionProfileSchema>;
 
+// Table name -> SQL condition; {{user.<name>}} is the only template syntax allowed
+export const rowFiltersSchema = z.record(
+  z.string().min(1, 'Table name is required'),
+  z.string().trim().min(1, 'Row filter condition is required').max(2000, 'Row filter condition is too long')
+    .refine(
+      (condition) => !condition.replace(/\{\{\s*user\.[A-Za-z_][A-Za-z0-9_]*\s*\}\}/g, '').includes('{{'),
+      'Row filter variables must look like {{user.name}}'
+    )
+);
+
+const operationsSchema = z.array(z.enum(permissionOperations, { message: 'Invalid operation' }));
+
+// Table name -> operations granted on it, in place of the connection's
+export const tableOperationsSchema = z.record(z.string().min(1, 'Table name is required'), operationsSchema);
+
 export const connectionPermissionSchema = z.object({
   connectionId: z.string().uuid('Invalid connection ID'),
   canView: z.boolean().default(true),
   canEdit: z.boolean().default(false),
   allowedTables: z.array(z.string()).nullable().optional(),
+  rowFilters: rowFiltersSchema.nullable().optional(),
+  // null follows canView and canEdit
+  operations: operationsSchema.nullable().optional(),
+  tableOperations: tableOperationsSchema.nullable().optional(),
 });
 
 export type ConnectionPermissionFormData = z.infer<typeof connectionPermissionSchema>;
 
+export const columnMaskingPolicies = ['full', 'partial', 'hash', 'null', 'email_domain'] as const;
+
 export const columnRestrictionSchema = z.object({
   tableName: z.string().min(1, 'Table name is required'),
-  hiddenColumns: z.array(z.string()).min(1, 'At least one column must be hidden'),
-});
+  hiddenColumns: z.array(z.string()).default([]),
+  maskedColumns: z.record(z.string().min(1), z.enum(columnMaskingPolicies, { message: 'Invalid masking policy' })).default({}),
+}).refine(
+  (data) => data.hiddenColumns.length > 0 || Object.keys(data.maskedColumns).length > 0,
+  { message: 'At least one column must be hidden or masked', path: ['hiddenColumns'] }
+).refine(
+  (data) => !data.hiddenColumns.some((column) => column in data.maskedColumns),
+  { message: 'A column cannot be both hidden and masked', path: ['maskedColumns'] }
+);
 
 export type ColumnRestrictionFormData = z.infer<typeof columnRestrictionSchema>;
 
@@ -93,7 +177,16 @@ export const memberPermissionAssignmentSchema = z.object({
     canEdit: z.boolean(),
     allowedTables: z.array(z.string()).nullable().optional(),
     columnRestrictions: z.array(columnRestrictionSchema).optional(),
+    rowFilters: rowFiltersSchema.nullable().optional(),
+    operations: operationsSchema.nullable().optional(),
+    tableOperations: tableOperationsSchema.nullable().optional(),
   })).nullable().optional(),
+  // Values row filters read as {{user.<name>}}; id, email and name come from the account
+  attributes: z.record(
+    z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/, 'Attribute names may only contain letters, digits and underscores')
+      .refine((name) => !['id', 'email', 'name'].includes(name), 'id, email and name are set from the account'),
+    z.string().max(500, 'Attribute value is too long')
+  ).optional(),
 });
 
 export type MemberPermissionAssignmentFormData = z.infer<typeof memberPermissionAssignmentSchema>;
@@ -0,0 +1,101 @@
+/**
+ * Change Request Types
+ *
+ * On a connection a team has marked protected, write queries don't run
+ * straight away. They become change requests that another member whose role
+ * can approve changes has to approve; approved requests are then run by a
+ * background job on behalf of the member who asked for them.
+ */
+
+/**
+ * pending: waiting for review; running: picked up by the job after approval;
+ * executed / failed: how the run went
+ */
+export type ChangeRequestStatus =
+  | 'pending'
+  | 'approved'
+  | 'rejected'
+  | 'cancelled'
+  | 'running'
+  | 'executed'
+  | 'failed';
+
+// 'write' for writes the dangerous query detector doesn't flag
+export type ChangeRequestDangerLevel = 'write' | 'warning' | 'critical';
+
+/**
+ * Dry run of a request inside a transaction that is rolled back.
+ * Statements that change structure can't be rolled back everywhere, so
+ * requests containing them aren't dry run and `skipped` says why.
+ */
+export interface ChangeRequestPreview {
+  statements: Array<{ sql: string; affectedRows: number }>;
+  affectedRows: number;
+  error: string | null;
+  skipped: string | null;
+  previewedAt: string;
+}
+
+export interface ChangeRequestResult {
+  statements: Array<{ sql: string; affectedRows: number; error: string | null }>;
+  affectedRows: number;
+  executionTime: number;
+  error: string | null;
+}
+
+/**
+ * Returned with a 403 when SQL has to go through a change request
+ */
+export interface ChangeApprovalRequired {
+  error: string;
+  approvalRequired: true;
+  dangerLevel: ChangeRequestDangerLevel;
+}
+
+export interface ChangeRequest {
+  id: string;
+  teamId: string;
+  connectionId: string;
+  requestedBy: string;
+  title: string;
+  description: string | null;
+  sql: string;
+  dangerLevel: ChangeRequestDangerLevel;
+  status: ChangeRequestStatus;
+  preview: ChangeRequestPreview | null;
+  reviewedBy: string | null;
+  reviewedAt: Date | null;
+  reviewNote: string | null;
+  result: ChangeRequestResult | null;
+  executedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+  connection?: {
+    id: string;
+    name: string;
+    type: string;
+  };
+  requester?: {
+    id: string;
+    email: string;
+    name: string | null;
+  };
+  reviewer?: {
+    id: string;
+    email: string;
+    name: string | null;
+  };
+}
+
+export interface ChangeRequestComment {
+  id: string;
+  changeRequestId: string;
+  userId: string;
+  content: string;
+  createdAt: Date;
+  user?: {
+    id: string;
+    email: string;
+    name: string | null;
+  };
+}
@@ -0,0 +1,16 @@
+/**
+ * Chart Types
+ *
+ * How a query result is drawn: as the plain table, a single number, or a
+ * line, bar or pie chart over chosen columns. Saved with dashboard widgets
+ * and saved queries.
+ */
+
+export type ChartType = 'table' | 'number' | 'line' | 'bar' | 'pie';
+
+export interface ChartConfig {
+  type: ChartType;
+  xColumn?: string; // Category or time axis; the first column when unset
+  yColumns?: string[]; // Plotted values; numeric columns when unset
+  groupBy?: string; // Splits the first y column into one series per value
+}
@@ -0,0 +1,50 @@
+/**
+ * Dashboard Types
+ *
+ * Dashboards pin saved queries as widgets. Every widget runs its query with
+ * the permissions of whoever is viewing the dashboard.
+ */
+
+import type { ChartConfig } from './charts';
+import type { QueryParameterValue } from './query-parameters';
+
+export type DashboardWidgetWidth = 'half' | 'full';
+
+export interface DashboardWidget {
+  id: string;
+  dashboardId: string;
+  queryId: string;
+  connectionId: string | null; // Overrides the saved query's connection
+  title: string;
+  chart: ChartConfig;
+  parameterValues: Record<string, QueryParameterValue>;
+  refreshInterval: number | null; // Seconds; null refreshes on demand only
+  width: DashboardWidgetWidth;
+  position: number;
+  createdAt: Date;
+  updatedAt: Date;
+  query?: {
+    id: string;
+    name: string;
+  };
+}
+
+export interface Dashboard {
+  id: string;
+  userId: string;
+  teamId: string | null; // Team dashboards are shared with every member
+  name: string;
+  description: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  widgets?: DashboardWidget[];
+  user?: {
+    id: string;
+    email: string;
+    name: string | null;
+  };
+  team?: {
+    id: string;
+    name: string;
+  };
+}
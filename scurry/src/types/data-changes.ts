@@ -26,6 +26,8 @@ export interface PendingCellChange {
   column: string;
   oldValue: unknown;
   newValue: unknown;
+  /** Primary-key values of the row as loaded, which the update is matched on */
+  rowKey: Record<string, unknown>;
 }
 
 export interface PendingRowInsert {
@@ -54,6 +56,8 @@ export interface DataChangeLog {
   newValues: Record<string, unknown> | null;
   userId: string;
   appliedAt: Date;
+  /** Groups the changes applied together by one save, sync run or revert */
+  changeSetId: string | null;
   user?: {
     id: string;
     email: string;
@@ -61,18 +65,116 @@ export interface DataChangeLog {
   };
 }
 
+/**
+ * Changes applied together, with the entries in the order they were applied.
+ * Entries logged before change sets existed form a set of their own.
+ */
+export interface DataChangeSet {
+  id: string;
+  connectionId: string;
+  connectionName: string | null;
+  tableNames: string[];
+  userId: string;
+  startedAt: Date;
+  appliedAt: Date;
+  insertCount: number;
+  updateCount: number;
+  deleteCount: number;
+  changes: DataChangeLog[];
+  user?: {
+    id: string;
+    email: string;
+    name: string | null;
+  };
+}
+
+/**
+ * atomic: any failing row rolls back the whole batch.
+ * savepoint: each row runs under its own savepoint; failing rows are skipped
+ * and the rest of the batch is committed.
+ */
+export type ApplyChangesMode = 'atomic' | 'savepoint';
+
+export const APPLY_CHANGES_MODES: ApplyChangesMode[] = ['atomic', 'savepoint'];
+
 export interface ApplyChangesRequest {
   connectionId: string;
   tableName: string;
   primaryKeyColumns: string[];
   changes: PendingChanges;
+  mode?: ApplyChangesMode;
+  /** Team workspace the table is edited from; its permissions and row filters apply */
+  teamId?: string | null;
+}
+
+export interface ApplyChangeFailure {
+  operation: ChangeOperation;
+  /** Grid row index for updates and deletes */
+  rowIndex?: number;
+  /** Temporary row id for inserts */
+  tempId?: string;
+  error: string;
 }
 
 export interface ApplyChangesResult {
   success: boolean;
+  mode: ApplyChangesMode;
+  /** Change set the applied rows were logged under */
+  changeSetId: string;
+  /** True when nothing was committed because the batch was rolled back */
+  rolledBack: boolean;
   insertedCount: number;
   updatedCount: number;
   deletedCount: number;
+  failures: ApplyChangeFailure[];
+  errors: string[];
+}
+
+/**
+ * Why a logged change can't be reverted cleanly.
+ * missing: the row no longer exists; exists: a deleted row has been re-created;
+ * ambiguous: the row can't be identified uniquely; modified: the row has changed since.
+ */
+export type RevertConflictType = 'missing' | 'exists' | 'ambiguous' | 'modified';
+
+export interface RevertConflict {
+  type: RevertConflictType;
+  message: string;
+  currentValues?: Record<string, unknown> | null;
+}
+
+export interface RevertStep {
+  logId: string;
+  tableName: string;
+  /** Operation recorded in the log entry */
+  originalOperation: ChangeOperation;
+  /** Inverse operation that undoes it */
+  operation: ChangeOperation;
+  /** Inverse statement with values inlined, for display */
+  sql: string;
+  conflict: RevertConflict | null;
+  applied: boolean;
+  error?: string;
+}
+
+export interface RevertRequest {
+  connectionId: string;
+  logIds?: string[];
+  /** Revert every change in a change set instead of individual entries */
+  changeSetId?: string;
+  /** Build the preview without committing anything */
+  dryRun?: boolean;
+  /** Revert rows that were modified since the change was applied */
+  force?: boolean;
+}
+
+export interface RevertResult {
+  success: boolean;
+  dryRun: boolean;
+  /** Change set the reverts were logged under */
+  changeSetId: string;
+  revertedCount: number;
+  steps: RevertStep[];
   errors: string[];
 }
 
@@ -46,6 +46,33 @@ export interface QueryResult {
   rowCount: number;
   executionTime: number;
   error?: string;
+  cancelled?: boolean;
+}
+
+export interface ScriptOptions {
+  stopOnError: boolean;
+  transaction: boolean; // Run everything in one transaction, rolled back at the first error
+}
+
+export type ScriptStatementStatus = 'success' | 'error' | 'cancelled' | 'skipped' | 'rolled_back';
+
+/**
+ * Outcome of one statement of a script
+ */
+export interface ScriptStatementResult {
+  index: number;
+  sql: string;
+  startLine: number;
+  status: ScriptStatementStatus;
+  result: QueryResult | null; // null when the statement never ran
+}
+
+export interface ScriptResult {
+  statements: ScriptStatementResult[];
+  transaction: boolean;
+  executionTime: number;
+  error?: string; // Why the script stopped early
+  executionId?: string;
 }
 
 export interface ColumnInfo {
@@ -92,3 +119,34 @@ export interface QueryHistoryItem {
   rowCount?: number;
   error?: string;
 }
+
+/**
+ * Query API an execution came through
+ */
+export type QueryHistorySource = 'execute' | 'paginated' | 'chunked' | 'script' | 'saved_query' | 'dashboard' | 'schedule' | 'change_request';
+
+/**
+ * Server-side record of one query execution
+ */
+export interface QueryHistoryEntry extends QueryHistoryItem {
+  userId: string;
+  teamId?: string;
+  source: QueryHistorySource;
+  user?: {
+    id: string;
+    email: string;
+    name: string | null;
+  };
+}
+
+export interface QueryHistoryFilters {
+  /** Words that must all appear in the SQL */
+  search?: string;
+  connectionId?: string;
+  teamId?: string;
+  status?: 'success' | 'error';
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  offset?: number;
+}
@@ -0,0 +1,45 @@
+/**
+ * Query Plan Types
+ *
+ * EXPLAIN output from every supported database, normalized into one tree.
+ */
+
+import type { DatabaseType } from './database';
+
+/**
+ * One step of an execution plan
+ */
+export interface PlanNode {
+  id: string;
+  operation: string; // e.g. "Seq Scan", "Full table scan", "SEARCH"
+  relation?: string; // Table the step reads, when it reads one
+  index?: string; // Index used by the step
+  detail?: string; // Conditions, join type or the raw SQLite detail line
+  startupCost?: number;
+  totalCost?: number; // In the database's own cost units
+  estimatedRows?: number;
+  actualRows?: number; // Only with ANALYZE
+  actualTimeMs?: number; // Only with ANALYZE
+  loops?: number; // Only with ANALYZE
+  fullScan: boolean;
+  warnings: string[];
+  children: PlanNode[];
+}
+
+export interface QueryPlan {
+  databaseType: DatabaseType;
+  analyzed: boolean;
+  nodes: PlanNode[];
+  totalCost?: number;
+  planningTimeMs?: number;
+  executionTimeMs?: number;
+  warnings: string[]; // About the plan as a whole
+  raw: unknown; // Unparsed EXPLAIN output
+}
+
+export interface ExplainRequest {
+  connectionId: string;
+  sql: string;
+  teamId?: string | null;
+  analyze?: boolean;
+}
@@ -1,3 +1,9 @@
 export * from './database';
 export * from './data-changes';
 export * from './sync';
+export * from './explain';
+export * from './query-parameters';
+export * from './charts';
+export * from './dashboard';
+export * from './schedule';
+export * from './change-request';
@@ -0,0 +1,26 @@
+/**
+ * Query Parameter Types
+ *
+ * Named parameters in saved queries, written as :name or {{name}} in the SQL
+ * and bound to driver placeholders when the query runs.
+ */
+
+export type QueryParameterType = 'string' | 'number' | 'integer' | 'boolean' | 'date' | 'datetime';
+
+export type QueryParameterValue = string | number | boolean | null;
+
+export interface QueryParameter {
+  name: string;
+  type: QueryParameterType;
+  label?: string;
+  required: boolean;
+  defaultValue?: QueryParameterValue;
+  allowedValues?: Array<string | number>; // Rendered as a select when present
+}
+
+export interface RunSavedQueryRequest {
+  connectionId?: string;
+  teamId?: string | null;
+  values: Record<string, QueryParameterValue>;
+  limit?: number;
+}
@@ -0,0 +1,87 @@
+/**
+ * Scheduled Query Types
+ *
+ * A schedule runs a saved query on a cron expression and delivers the
+ * result by email and/or webhook. Scheduled runs act on behalf of the
+ * schedule's creator, with their connection access and team permissions.
+ */
+
+import type { QueryParameterValue } from './query-parameters';
+
+export type ScheduleEmailFormat = 'csv' | 'xlsx' | 'html';
+
+export type ScheduleComparison = 'gt' | 'gte' | 'lt' | 'lte' | 'eq' | 'ne';
+
+/**
+ * When a run should deliver its result. 'threshold' compares a column of
+ * the first row and only fires when the value crosses the threshold, not on
+ * every run while it stays past it.
+ */
+export type ScheduleCondition =
+  | { type: 'always' }
+  | { type: 'row_count'; operator: ScheduleComparison; value: number }
+  | { type: 'threshold'; column: string; operator: ScheduleComparison; value: number };
+
+export interface QuerySchedule {
+  id: string;
+  queryId: string;
+  userId: string;
+  teamId: string | null; // Follows the saved query's team
+  name: string;
+  /** Five-field cron expression, evaluated in `timezone` */
+  cron: string;
+  timezone: string;
+  enabled: boolean;
+  connectionId: string | null; // Overrides the saved query's connection
+  parameterValues: Record<string, QueryParameterValue>;
+  emailRecipients: string[];
+  emailFormat: ScheduleEmailFormat;
+  webhookUrl: string | null;
+  condition: ScheduleCondition;
+  // Whether the last run met its condition; threshold alerts fire on the change
+  conditionMet: boolean;
+  nextRunAt: Date | null;
+  lastRunAt: Date | null;
+  lastStatus: ScheduleRunStatus | null;
+  createdAt: Date;
+  updatedAt: Date;
+  query?: {
+    id: string;
+    name: string;
+  };
+  user?: {
+    id: string;
+    email: string;
+    name: string | null;
+  };
+}
+
+export type ScheduleRunTrigger = 'manual' | 'schedule';
+
+/**
+ * delivered: the result was sent; skipped: the condition was not met;
+ * failed: the query or every delivery failed
+ */
+export type ScheduleRunStatus = 'delivered' | 'skipped' | 'failed';
+
+export interface ScheduleDelivery {
+  channel: 'email' | 'webhook';
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Run log entry for one run of a schedule
+ */
+export interface QueryScheduleRun {
+  id: string;
+  scheduleId: string;
+  trigger: ScheduleRunTrigger;
+  status: ScheduleRunStatus;
+  rowCount: number | null;
+  conditionMet: boolean;
+  deliveries: ScheduleDelivery[];
+  error: string | null;
+  startedAt: Date;
+  finishedAt: Date;
+}
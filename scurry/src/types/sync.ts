@@ -69,6 +69,32 @@ export interface TableComparisonResult {
   diffs: RowDiff[];
 }
 
+/**
+ * Running totals of a chunked table comparison
+ */
+export interface CompareProgress {
+  chunksProcessed: number;
+  /** Chunks whose row count and checksum matched, so rows were never fetched */
+  chunksSkipped: number;
+  sourceRowsScanned: number;
+  targetRowsScanned: number;
+  matchingRows: number;
+  differentRows: number;
+  sourceOnlyRows: number;
+  targetOnlyRows: number;
+  /** Whether chunk checksums are in use for this comparison */
+  checksums: boolean;
+}
+
+/**
+ * Event in a streamed comparison (NDJSON, one per line)
+ */
+export type CompareStreamEvent =
+  | { type: 'start'; tableName: string; primaryKeyColumns: string[]; columns: string[] }
+  | { type: 'chunk'; diffs: RowDiff[]; progress: CompareProgress }
+  | { type: 'done'; progress: CompareProgress }
+  | { type: 'error'; error: string };
+
 /**
  * Configuration for a sync operation
  */
@@ -83,6 +109,36 @@ export interface SyncConfig {
   selectedRowKeys?: string[]; // When scope is 'selected'
 }
 
+/**
+ * Kind of DDL step in a structure sync
+ */
+export type StructureChangeKind =
+  | 'create_table'
+  | 'add_column'
+  | 'alter_column'
+  | 'drop_column'
+  | 'change_primary_key'
+  | 'create_index'
+  | 'drop_index'
+  | 'add_foreign_key'
+  | 'drop_foreign_key';
+
+/**
+ * One step that brings the target table's structure in line with the source
+ */
+export interface StructureChange {
+  kind: StructureChangeKind;
+  /** Column, index or constraint the step applies to */
+  name: string;
+  description: string;
+  /** Statements to run in order; empty when the database can't make the change in place */
+  sql: string[];
+  /** Drops or rewrites existing objects, so data or constraints may be lost */
+  destructive: boolean;
+  /** Why the step can't be applied, or when it may fail */
+  warning?: string;
+}
+
 /**
  * Preview of what a sync operation will do
  */
@@ -90,7 +146,7 @@ export interface SyncPreview {
   inserts: number;
   updates: number;
   deletes: number;
-  structureChanges: string[];
+  structureChanges: StructureChange[];
   sql: string[];
   warnings: string[];
   canExecute: boolean;
@@ -107,7 +163,11 @@ export interface SyncResult {
   deletedCount: number;
   structureChangesApplied: number;
   errors: string[];
+  /** Structure steps that were held back or can't be applied */
+  warnings?: string[];
   executionTime: number;
+  /** Change set the synced rows were logged under */
+  changeSetId?: string;
 }
 
 /**
@@ -138,8 +198,18 @@ export interface SyncTemplate {
   includeStructure: boolean;
   userId: string;
   teamId?: string; // null = personal template
+  /** Five-field cron expression, evaluated in UTC */
+  schedule?: string;
+  scheduleEnabled: boolean;
+  nextRunAt?: Date;
+  lastRunAt?: Date;
   createdAt: Date;
   updatedAt: Date;
+  user?: {
+    id: string;
+    email: string;
+    name: string | null;
+  };
 }
 
 /**
@@ -154,6 +224,33 @@ export interface SyncTemplateFormData {
   scope: SyncScope;
   includeStructure: boolean;
   teamId?: string;
+  schedule?: string;
+  scheduleEnabled?: boolean;
+}
+
+export type SyncRunTrigger = 'manual' | 'schedule';
+
+/**
+ * Result of a single table sync, as returned by the execute route
+ */
+export interface TableSyncResult extends SyncResult {
+  tableCreated: boolean;
+  rowsAffected: number;
+}
+
+/**
+ * History entry for one run of a sync template
+ */
+export interface SyncRun {
+  id: string;
+  templateId: string;
+  userId: string;
+  trigger: SyncRunTrigger;
+  tableName: string;
+  success: boolean;
+  result: SyncResult;
+  startedAt: Date;
+  finishedAt: Date;
 }
 
 /**
@@ -164,6 +261,14 @@ export interface CompareTablesRequest {
   targetConnectionId: string;
   tableName: string;
   teamId?: string;
+  /** Rows per primary-key chunk */
+  chunkSize?: number;
+  /** Skip chunks whose COUNT and checksum match on both sides */
+  useChunkHashes?: boolean;
+  /** Stream NDJSON CompareStreamEvents instead of a single JSON response */
+  stream?: boolean;
+  /** Cap on diffs returned in the non-streamed response */
+  maxDiffs?: number;
 }
 
 /**
@@ -176,6 +281,8 @@ export interface SyncPreviewRequest {
   scope: SyncScope;
   content: SyncContent;
   selectedRowKeys?: string[];
+  /** Also delete rows that only exist in the target (whole-table scope only) */
+  mirror?: boolean;
   teamId?: string;
 }
 
@@ -183,5 +290,8 @@ export interface SyncPreviewRequest {
  * API request for executing sync
  */
 export interface SyncExecuteRequest extends SyncPreviewRequest {
-  // Same as preview, execution uses the same params
+  /** Also apply structure steps marked destructive */
+  allowDestructive?: boolean;
+  /** The table name typed by the user; required for mirror mode */
+  confirmTableName?: string;
 }